@@ -451,6 +451,7 @@ export default function MortgageMatchPro() {
             <AffordabilityInputPanel
               onCalculate={handleAffordabilityCalculate}
               loading={loading.affordability}
+              maxPriceSolution={currentAffordability?.maxPriceSolution}
             />
             {errors.affordability && (
               <Card className="mt-4 border-red-200 bg-red-50">
@@ -6,6 +6,24 @@ import * as mammoth from 'mammoth'
 import * as XLSX from 'xlsx'
 import { createHash } from 'crypto'
 import { z } from 'zod'
+import {
+  calculateQualifyingIncome,
+  INCOME_DOCUMENT_FIELDS,
+  IncomeCalculationOptions,
+  IncomeDocument,
+  IncomeWorksheet,
+  IncomeWorksheetSchema,
+} from '../mortgage/income-calculator'
+import type { Country } from '../mortgage/amortization'
+import {
+  CROSS_DOCUMENT_FLAG_CODES,
+  DocumentCondition,
+  DocumentHashMatch,
+  RECONCILIATION_FIELDS,
+  ReconciliationDocument,
+  ReconciliationResult,
+  reconcileDocuments,
+} from './document-reconciliation'
 
 const supabaseAdmin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -39,11 +57,47 @@ export const DocumentStatusSchema = z.enum([
   'rejected'
 ])
 
+export const VerificationSeveritySchema = z.enum(['info', 'warning', 'critical'])
+
+export const VerificationFlagCodeSchema = z.enum([
+  'missing_field',
+  'extraction_note',
+  'employer_mismatch',
+  'income_mismatch',
+  'payroll_deposit_missing',
+  'payroll_deposit_mismatch',
+  'name_mismatch',
+  'address_mismatch',
+  'duplicate_document'
+])
+
+// A verification finding and the condition the broker must clear for it
+export const VerificationFlagSchema = z.object({
+  code: VerificationFlagCodeSchema,
+  severity: VerificationSeveritySchema,
+  message: z.string(),
+  condition: z.string(),
+  documentIds: z.array(z.string()),
+  field: z.string().optional()
+})
+
+// The extraction model returns free-text notes; they are kept as warnings to review
+const VerificationFlagInputSchema = z.union([
+  VerificationFlagSchema,
+  z.string().transform((message): VerificationFlag => ({
+    code: 'extraction_note',
+    severity: 'warning',
+    message,
+    condition: `Review: ${message}`,
+    documentIds: []
+  }))
+])
+
 export const ExtractedDataSchema = z.object({
   documentType: DocumentTypeSchema,
   confidence: z.number().min(0).max(1),
   extractedFields: z.record(z.any()),
-  verificationFlags: z.array(z.string()),
+  verificationFlags: z.array(VerificationFlagInputSchema),
   complianceFlags: z.array(z.string()),
   metadata: z.object({
     processingTime: z.number(),
@@ -68,12 +122,17 @@ export const AffordabilityReportSchema = z.object({
   complianceNotes: z.array(z.string()),
   underwritingSummary: z.string(),
   riskFactors: z.array(z.string()),
-  nextSteps: z.array(z.string())
+  nextSteps: z.array(z.string()),
+  // How extractedIncome was derived from the document, line by line
+  incomeWorksheet: IncomeWorksheetSchema.optional()
 })
 
 export type DocumentType = z.infer<typeof DocumentTypeSchema>
 export type DocumentStatus = z.infer<typeof DocumentStatusSchema>
 export type ExtractedData = z.infer<typeof ExtractedDataSchema>
+export type VerificationSeverity = z.infer<typeof VerificationSeveritySchema>
+export type VerificationFlagCode = z.infer<typeof VerificationFlagCodeSchema>
+export type VerificationFlag = z.infer<typeof VerificationFlagSchema>
 export type AffordabilityReport = z.infer<typeof AffordabilityReportSchema>
 
 export interface DocumentUpload {
@@ -82,6 +141,8 @@ export interface DocumentUpload {
   mimeType: string
   userId: string
   documentType?: DocumentType
+  // Income rules to apply; inferred from the document type when omitted
+  country?: Country
 }
 
 export interface DocumentProcessingResult {
@@ -89,6 +150,8 @@ export interface DocumentProcessingResult {
   status: DocumentStatus
   extractedData?: ExtractedData
   affordabilityReport?: AffordabilityReport
+  // Open conditions across all of the user's documents after this one was added
+  conditions?: DocumentCondition[]
   errors: string[]
   processingTime: number
 }
@@ -106,7 +169,8 @@ export class DocumentAIAgent {
       console.log(`Processing document ${documentId} for user ${upload.userId}`)
 
       // Step 1: Store document metadata
-      await this.storeDocumentMetadata(documentId, upload)
+      const documentHash = createHash('sha256').update(upload.file).digest('hex')
+      await this.storeDocumentMetadata(documentId, upload, documentHash)
 
       // Step 2: Extract text using OCR/parsing
       const extractedText = await this.extractTextFromDocument(upload)
@@ -116,15 +180,17 @@ export class DocumentAIAgent {
 
       // Step 4: Extract structured data using LLM + RAG
       const extractedData = await this.extractStructuredData(extractedText, documentType)
+      extractedData.metadata.documentHash = documentHash
 
       // Step 5: Verify and validate extracted data
-      const verificationResult = await this.verifyExtractedData(extractedData, documentType)
+      const verificationResult = await this.verifyExtractedData(documentId, extractedData, documentType)
 
       // Step 6: Generate affordability report
       const affordabilityReport = await this.generateAffordabilityReport(
         documentId,
         upload.userId,
-        verificationResult
+        verificationResult,
+        upload.country
       )
 
       // Step 7: Update document status
@@ -133,13 +199,28 @@ export class DocumentAIAgent {
         affordabilityReport
       })
 
+      // Step 8: Reconcile against the user's other documents
+      let reconciliation: ReconciliationResult | undefined
+      try {
+        reconciliation = await this.reconcileUserDocuments(upload.userId)
+      } catch (error) {
+        console.error(`Error reconciling documents for user ${upload.userId}:`, error)
+      }
+      const ownFlags = reconciliation
+        ? reconciliation.flags.filter(flag => flag.documentIds.includes(documentId))
+        : []
+
       const processingTime = Date.now() - startTime
 
       return {
         documentId,
-        status: 'verified',
-        extractedData: verificationResult,
+        status: ownFlags.some(flag => flag.severity === 'critical') ? 'flagged' : 'verified',
+        extractedData: {
+          ...verificationResult,
+          verificationFlags: [...verificationResult.verificationFlags, ...ownFlags]
+        },
         affordabilityReport,
+        conditions: reconciliation?.conditions,
         errors: [],
         processingTime
       }
@@ -375,6 +456,10 @@ export class DocumentAIAgent {
 
   // Build extraction prompt
   private buildExtractionPrompt(documentType: DocumentType, text: string, context: string): string {
+    const fieldNames = (INCOME_DOCUMENT_FIELDS[documentType] || [])
+      .concat(RECONCILIATION_FIELDS[documentType] || [])
+      .filter((field, index, fields) => fields.indexOf(field) === index)
+
     return `
 Extract structured data from this ${documentType} document:
 
@@ -383,7 +468,11 @@ ${context}
 
 DOCUMENT TEXT:
 ${text.substring(0, 4000)}
-
+${fieldNames.length > 0 ? `
+FIELD NAMES:
+Use these extractedFields keys where the document has the value: ${fieldNames.join(', ')}.
+Give amounts as plain numbers and dates as YYYY-MM-DD.
+` : ''}
 EXTRACTION REQUIREMENTS:
 1. Extract all relevant financial data with high accuracy
 2. Flag any missing or unclear information
@@ -416,17 +505,28 @@ Return JSON matching this schema:
   }
 
   // Verify and validate extracted data
-  private async verifyExtractedData(extractedData: ExtractedData, documentType: DocumentType): Promise<ExtractedData> {
+  private async verifyExtractedData(
+    documentId: string,
+    extractedData: ExtractedData,
+    documentType: DocumentType
+  ): Promise<ExtractedData> {
     try {
       // Add verification logic based on document type
-      const verificationFlags: string[] = []
+      const verificationFlags: VerificationFlag[] = []
       const complianceFlags: string[] = []
 
       // Check for required fields based on document type
       const requiredFields = this.getRequiredFields(documentType)
       for (const field of requiredFields) {
         if (!extractedData.extractedFields[field]) {
-          verificationFlags.push(`Missing required field: ${field}`)
+          verificationFlags.push({
+            code: 'missing_field',
+            severity: 'warning',
+            message: `Missing required field: ${field}`,
+            condition: `Provide a document showing ${field.replace(/_/g, ' ')}`,
+            documentIds: [documentId],
+            field
+          })
         }
       }
 
@@ -480,9 +580,16 @@ Return JSON matching this schema:
   private async generateAffordabilityReport(
     documentId: string,
     userId: string,
-    extractedData: ExtractedData
+    extractedData: ExtractedData,
+    country?: Country
   ): Promise<AffordabilityReport> {
     try {
+      const incomeWorksheet = calculateQualifyingIncome(
+        [{ documentId, documentType: extractedData.documentType, extractedFields: extractedData.extractedFields }],
+        { country: country || (extractedData.documentType === 't4' ? 'CA' : 'US') }
+      )
+      const hasIncome = incomeWorksheet.lines.some(line => line.included)
+
       const response = await openai.chat.completions.create({
         model: this.model,
         messages: [
@@ -497,7 +604,7 @@ Return JSON matching this schema:
 Document Type: ${extractedData.documentType}
 Confidence: ${extractedData.confidence}
 Extracted Fields: ${JSON.stringify(extractedData.extractedFields, null, 2)}
-Verification Flags: ${extractedData.verificationFlags.join(', ')}
+Verification Flags: ${extractedData.verificationFlags.map(flag => `[${flag.severity}] ${flag.message}`).join(', ')}
 Compliance Flags: ${extractedData.complianceFlags.join(', ')}
 
 Return JSON matching the AffordabilityReportSchema.`
@@ -512,7 +619,9 @@ Return JSON matching the AffordabilityReportSchema.`
       return AffordabilityReportSchema.parse({
         ...report,
         userId,
-        documentId
+        documentId,
+        // Qualifying income comes from the worksheet rules, not the model
+        ...(hasIncome ? { extractedIncome: incomeWorksheet.qualifyingAnnualIncome, incomeWorksheet } : {})
       })
     } catch (error) {
       console.error('Error generating affordability report:', error)
@@ -521,7 +630,7 @@ Return JSON matching the AffordabilityReportSchema.`
   }
 
   // Store document metadata
-  private async storeDocumentMetadata(documentId: string, upload: DocumentUpload): Promise<void> {
+  private async storeDocumentMetadata(documentId: string, upload: DocumentUpload, documentHash: string): Promise<void> {
     try {
       const { error } = await supabaseAdmin
         .from('documents')
@@ -533,6 +642,7 @@ Return JSON matching the AffordabilityReportSchema.`
           document_type: upload.documentType || 'other',
           status: 'uploaded',
           file_size: upload.file.length,
+          document_hash: documentHash,
           created_at: new Date().toISOString()
         })
 
@@ -622,6 +732,65 @@ Return JSON matching the AffordabilityReportSchema.`
     }
   }
 
+  // Qualifying income worksheet across all of a user's verified documents
+  async buildIncomeWorksheet(userId: string, options: IncomeCalculationOptions): Promise<IncomeWorksheet> {
+    const documents: IncomeDocument[] = (await this.getUserDocuments(userId))
+      .filter(document => (document.status === 'verified' || document.status === 'flagged') && document.extracted_data)
+      .map(document => ({
+        documentId: document.id,
+        documentType: document.extracted_data.documentType,
+        extractedFields: document.extracted_data.extractedFields || {}
+      }))
+
+    return calculateQualifyingIncome(documents, options)
+  }
+
+  // Cross-check a user's documents against each other and against identical uploads
+  // from other applicants, then record the findings on each document
+  async reconcileUserDocuments(userId: string): Promise<ReconciliationResult> {
+    const records = (await this.getUserDocuments(userId))
+      .filter(document => (document.status === 'verified' || document.status === 'flagged') && document.extracted_data)
+    const documents: ReconciliationDocument[] = records.map(document => ({
+      documentId: document.id,
+      userId,
+      documentType: document.extracted_data.documentType,
+      extractedFields: document.extracted_data.extractedFields || {},
+      documentHash: document.document_hash || undefined
+    }))
+
+    const hashes = documents
+      .map(document => document.documentHash)
+      .filter((hash): hash is string => !!hash)
+    let hashMatches: DocumentHashMatch[] = []
+    if (hashes.length > 0) {
+      const { data, error } = await supabaseAdmin
+        .from('documents')
+        .select('id, user_id, document_hash')
+        .in('document_hash', hashes)
+        .neq('user_id', userId)
+
+      if (error) throw new Error(`Failed to check duplicate documents: ${error.message}`)
+      hashMatches = (data || []).map(row => ({ documentId: row.id, userId: row.user_id, documentHash: row.document_hash }))
+    }
+
+    const result = reconcileDocuments(documents, hashMatches)
+
+    // Findings from an earlier reconciliation are replaced, not accumulated
+    for (const record of records) {
+      const ownFlags = result.flags.filter(flag => flag.documentIds.includes(record.id))
+      const keptFlags = ExtractedDataSchema.shape.verificationFlags
+        .parse(record.extracted_data.verificationFlags || [])
+        .filter(flag => !CROSS_DOCUMENT_FLAG_CODES.includes(flag.code))
+      const status: DocumentStatus = ownFlags.some(flag => flag.severity === 'critical') ? 'flagged' : 'verified'
+
+      await this.updateDocumentStatus(record.id, status, {
+        extractedData: { ...record.extracted_data, verificationFlags: [...keptFlags, ...ownFlags] }
+      })
+    }
+
+    return result
+  }
+
   // Batch process multiple documents
   async batchProcessDocuments(uploads: DocumentUpload[]): Promise<DocumentProcessingResult[]> {
     const results: DocumentProcessingResult[] = []
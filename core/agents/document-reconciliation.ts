@@ -0,0 +1,390 @@
+import type {
+  DocumentType,
+  ExtractedData,
+  VerificationFlag,
+  VerificationFlagCode,
+  VerificationSeverity,
+} from './document-ai-agent'
+import { annualizePay, readExtractedAmount } from '../mortgage/income-calculator'
+
+export interface ReconciliationDocument {
+  documentId: string
+  userId: string
+  documentType: DocumentType
+  extractedFields: ExtractedData['extractedFields']
+  documentHash?: string
+}
+
+// A stored document with the same content hash, uploaded by someone else
+export interface DocumentHashMatch {
+  documentId: string
+  userId: string
+  documentHash: string
+}
+
+// One item on the broker's document conditions checklist
+export interface DocumentCondition {
+  code: VerificationFlagCode
+  severity: VerificationSeverity
+  condition: string
+  documentIds: string[]
+  findings: string[]
+}
+
+export interface ReconciliationResult {
+  flags: VerificationFlag[]
+  conditions: DocumentCondition[]
+}
+
+// Extracted field names the reconciliation reads, by document type
+export const RECONCILIATION_FIELDS: Partial<Record<DocumentType, string[]>> = {
+  paystub: ['employee_name', 'employee_address', 'employer_name', 'net_pay'],
+  employment_letter: ['employee_name', 'employer_name', 'salary'],
+  w2: ['employee_name', 'employee_address', 'employer_name'],
+  t4: ['employee_name', 'employee_address', 'employer_name'],
+  bank_statement: ['account_holder', 'account_holder_address', 'payroll_deposits'],
+  tax_return: ['taxpayer_name', 'taxpayer_address'],
+}
+
+// Flags this stage owns; a new reconciliation replaces them
+export const CROSS_DOCUMENT_FLAG_CODES: VerificationFlagCode[] = [
+  'employer_mismatch',
+  'income_mismatch',
+  'payroll_deposit_missing',
+  'payroll_deposit_mismatch',
+  'name_mismatch',
+  'address_mismatch',
+  'duplicate_document',
+]
+
+const NAME_FIELDS = ['employee_name', 'account_holder', 'taxpayer_name']
+const ADDRESS_FIELDS = ['employee_address', 'account_holder_address', 'taxpayer_address']
+
+// Income figures within 10% of each other agree; past 25% the difference is critical
+const INCOME_TOLERANCE = 0.1
+const INCOME_CRITICAL_VARIANCE = 0.25
+// Last year's tax slip may differ from current pay by raises and variable pay
+const TAX_SLIP_TOLERANCE = 0.25
+// A deposit within 5% of net pay is taken to be that pay
+const DEPOSIT_TOLERANCE = 0.05
+
+const DOCUMENT_LABELS: Partial<Record<DocumentType, string>> = {
+  paystub: 'paystub',
+  employment_letter: 'employment letter',
+  w2: 'W-2',
+  t4: 'T4',
+  bank_statement: 'bank statement',
+  tax_return: 'tax return',
+}
+
+const EMPLOYER_SUFFIXES = ['inc', 'incorporated', 'ltd', 'limited', 'llc', 'llp', 'corp', 'corporation', 'co', 'company', 'the', 'plc', 'ltee']
+const NAME_TITLES = ['mr', 'mrs', 'ms', 'miss', 'dr', 'jr', 'sr']
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  crescent: 'cres',
+  court: 'ct',
+  lane: 'ln',
+  place: 'pl',
+}
+
+const SEVERITY_ORDER: VerificationSeverity[] = ['critical', 'warning', 'info']
+
+/**
+ * Reconcile one applicant's documents against each other, and against documents other
+ * applicants uploaded with the same content hash. Each finding names the documents
+ * involved and the condition that clears it.
+ */
+export function reconcileDocuments(
+  documents: ReconciliationDocument[],
+  hashMatches: DocumentHashMatch[] = []
+): ReconciliationResult {
+  const flags = [
+    ...checkEmployers(documents),
+    ...checkIncome(documents),
+    ...checkPayrollDeposits(documents),
+    ...checkNames(documents),
+    ...checkAddresses(documents),
+    ...checkDuplicates(documents, hashMatches),
+  ]
+
+  return { flags, conditions: buildConditionsChecklist(flags) }
+}
+
+/**
+ * Group flags that share a condition into checklist items, most severe first
+ */
+export function buildConditionsChecklist(flags: VerificationFlag[]): DocumentCondition[] {
+  const conditions: DocumentCondition[] = []
+
+  for (const flag of flags) {
+    const existing = conditions.find(item => item.code === flag.code && item.condition === flag.condition)
+    if (!existing) {
+      conditions.push({
+        code: flag.code,
+        severity: flag.severity,
+        condition: flag.condition,
+        documentIds: flag.documentIds.slice(),
+        findings: [flag.message],
+      })
+      continue
+    }
+
+    existing.findings.push(flag.message)
+    flag.documentIds.forEach(id => {
+      if (!existing.documentIds.includes(id)) existing.documentIds.push(id)
+    })
+    if (SEVERITY_ORDER.indexOf(flag.severity) < SEVERITY_ORDER.indexOf(existing.severity)) {
+      existing.severity = flag.severity
+    }
+  }
+
+  return conditions.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+}
+
+// The paystub and employment letter describe the current job and must agree; a W-2 or
+// T4 naming someone else may be an earlier job
+function checkEmployers(documents: ReconciliationDocument[]): VerificationFlag[] {
+  const withEmployer = documents.filter(document => textField(document, 'employer_name'))
+  const current = withEmployer.filter(document => document.documentType === 'paystub' || document.documentType === 'employment_letter')
+    .sort((a, b) => (a.documentType === 'paystub' ? 0 : 1) - (b.documentType === 'paystub' ? 0 : 1))
+  const slips = withEmployer.filter(document => document.documentType === 'w2' || document.documentType === 't4')
+  const reference = current[0]
+  if (!reference) return []
+
+  const referenceEmployer = textField(reference, 'employer_name')!
+  return current.slice(1).concat(slips)
+    .filter(document => !sameEmployer(referenceEmployer, textField(document, 'employer_name')!))
+    .map(document => {
+      const isCurrent = document.documentType === 'employment_letter' || document.documentType === 'paystub'
+      return {
+        code: 'employer_mismatch' as const,
+        severity: isCurrent ? 'critical' as const : 'warning' as const,
+        message: `Employer on the ${labelOf(document)} ("${textField(document, 'employer_name')}") does not match the ${labelOf(reference)} ("${referenceEmployer}")`,
+        condition: isCurrent
+          ? 'Obtain a written verification of employment confirming the current employer'
+          : 'Obtain an explanation for the change of employer since the tax slip was issued',
+        documentIds: [reference.documentId, document.documentId],
+        field: 'employer_name',
+      }
+    })
+}
+
+// Current pay on the paystub and employment letter, then against the latest tax slip
+function checkIncome(documents: ReconciliationDocument[]): VerificationFlag[] {
+  const flags: VerificationFlag[] = []
+
+  const paystub = documents.find(document => document.documentType === 'paystub' && paystubAnnualPay(document) !== undefined)
+  const letter = documents.find(document => document.documentType === 'employment_letter' && readExtractedAmount(document.extractedFields, 'salary') !== undefined)
+  const paystubAnnual = paystub && paystubAnnualPay(paystub)
+  const salary = letter && readExtractedAmount(letter.extractedFields, 'salary')
+
+  if (paystub && letter && paystubAnnual !== undefined && salary !== undefined) {
+    const difference = variance(paystubAnnual, salary)
+    if (difference > INCOME_TOLERANCE) {
+      flags.push({
+        code: 'income_mismatch',
+        severity: difference > INCOME_CRITICAL_VARIANCE ? 'critical' : 'warning',
+        message: `Paystub pay annualizes to ${formatAmount(paystubAnnual)}, ${percent(difference)} off the ${formatAmount(salary)} salary in the employment letter`,
+        condition: 'Obtain an explanation and written verification of employment for the income difference',
+        documentIds: [paystub.documentId, letter.documentId],
+        field: 'salary',
+      })
+    }
+  }
+
+  const slip = documents
+    .filter(document => (document.documentType === 'w2' || document.documentType === 't4') && slipWages(document) !== undefined)
+    .sort((a, b) => (readExtractedAmount(b.extractedFields, 'tax_year') || 0) - (readExtractedAmount(a.extractedFields, 'tax_year') || 0))[0]
+  const currentSource = letter && salary !== undefined ? letter : paystub
+  const currentIncome = currentSource === letter ? salary : paystubAnnual
+
+  if (slip && currentSource && currentIncome !== undefined) {
+    const wages = slipWages(slip)!
+    const difference = variance(currentIncome, wages)
+    if (difference > TAX_SLIP_TOLERANCE) {
+      flags.push({
+        code: 'income_mismatch',
+        severity: currentIncome > wages ? 'warning' : 'info',
+        message: `Current income of ${formatAmount(currentIncome)} on the ${labelOf(currentSource)} is ${percent(difference)} ${currentIncome > wages ? 'above' : 'below'} the ${formatAmount(wages)} on the ${labelOf(slip)}`,
+        condition: 'Obtain an explanation for the change in income since the last tax year',
+        documentIds: [currentSource.documentId, slip.documentId],
+        field: 'wages',
+      })
+    }
+  }
+
+  return flags
+}
+
+function checkPayrollDeposits(documents: ReconciliationDocument[]): VerificationFlag[] {
+  const paystub = documents.find(document => document.documentType === 'paystub' && readExtractedAmount(document.extractedFields, 'net_pay'))
+  if (!paystub) return []
+  const netPay = readExtractedAmount(paystub.extractedFields, 'net_pay')!
+
+  return documents
+    .filter(document => document.documentType === 'bank_statement')
+    .map((statement): VerificationFlag | undefined => {
+      const deposits = payrollDeposits(statement)
+      if (deposits.length === 0) {
+        return {
+          code: 'payroll_deposit_missing',
+          severity: 'warning',
+          message: `No payroll deposits found on the bank statement to match ${formatAmount(netPay)} net pay`,
+          condition: 'Provide a bank statement for the account that receives payroll',
+          documentIds: [paystub.documentId, statement.documentId],
+          field: 'payroll_deposits',
+        }
+      }
+      if (deposits.some(amount => Math.abs(amount - netPay) <= netPay * DEPOSIT_TOLERANCE)) return undefined
+
+      return {
+        code: 'payroll_deposit_mismatch',
+        severity: 'critical',
+        message: `No payroll deposit on the bank statement matches ${formatAmount(netPay)} net pay (deposits: ${deposits.map(formatAmount).join(', ')})`,
+        condition: 'Obtain an explanation for the difference between net pay and payroll deposits, such as a split deposit',
+        documentIds: [paystub.documentId, statement.documentId],
+        field: 'payroll_deposits',
+      }
+    })
+    .filter((flag): flag is VerificationFlag => !!flag)
+}
+
+function checkNames(documents: ReconciliationDocument[]): VerificationFlag[] {
+  return checkAgreement(documents, NAME_FIELDS, sameName, (reference, document) => ({
+    code: 'name_mismatch',
+    severity: 'critical',
+    message: `Name on the ${labelOf(document.document)} ("${document.value}") does not match the ${labelOf(reference.document)} ("${reference.value}")`,
+    condition: "Confirm the applicant's identity and obtain an explanation for the name difference",
+    documentIds: [reference.document.documentId, document.document.documentId],
+    field: document.field,
+  }))
+}
+
+function checkAddresses(documents: ReconciliationDocument[]): VerificationFlag[] {
+  return checkAgreement(documents, ADDRESS_FIELDS, sameAddress, (reference, document) => ({
+    code: 'address_mismatch',
+    severity: 'warning',
+    message: `Address on the ${labelOf(document.document)} ("${document.value}") does not match the ${labelOf(reference.document)} ("${reference.value}")`,
+    condition: 'Obtain proof of current address or an explanation for the address difference',
+    documentIds: [reference.document.documentId, document.document.documentId],
+    field: document.field,
+  }))
+}
+
+function checkDuplicates(documents: ReconciliationDocument[], hashMatches: DocumentHashMatch[]): VerificationFlag[] {
+  return documents
+    .filter(document => document.documentHash)
+    .map((document): VerificationFlag | undefined => {
+      const matches = hashMatches.filter(match => match.documentHash === document.documentHash && match.userId !== document.userId)
+      if (matches.length === 0) return undefined
+
+      return {
+        code: 'duplicate_document',
+        severity: 'critical',
+        message: `The ${labelOf(document)} is identical to ${matches.length === 1 ? 'a document' : `${matches.length} documents`} submitted by another applicant`,
+        condition: 'Obtain the document directly from its source (employer, bank or tax authority)',
+        documentIds: [document.documentId],
+      }
+    })
+    .filter((flag): flag is VerificationFlag => !!flag)
+}
+
+interface FieldValue {
+  document: ReconciliationDocument
+  field: string
+  value: string
+}
+
+// Compare every document's value of a field group with the first document that has one
+function checkAgreement(
+  documents: ReconciliationDocument[],
+  fields: string[],
+  same: (a: string, b: string) => boolean,
+  toFlag: (reference: FieldValue, document: FieldValue) => VerificationFlag
+): VerificationFlag[] {
+  const values: FieldValue[] = []
+  for (const document of documents) {
+    const field = fields.find(key => textField(document, key))
+    if (field) values.push({ document, field, value: textField(document, field)! })
+  }
+
+  const reference = values[0]
+  if (!reference) return []
+  return values.slice(1)
+    .filter(value => !same(reference.value, value.value))
+    .map(value => toFlag(reference, value))
+}
+
+function paystubAnnualPay(document: ReconciliationDocument): number | undefined {
+  const pay = readExtractedAmount(document.extractedFields, 'regular_pay') ?? readExtractedAmount(document.extractedFields, 'gross_pay')
+  return pay === undefined ? undefined : annualizePay(pay, document.extractedFields.pay_frequency)
+}
+
+function slipWages(document: ReconciliationDocument): number | undefined {
+  return readExtractedAmount(document.extractedFields, document.documentType === 't4' ? 'employment_income' : 'wages')
+}
+
+// Deposits arrive as amounts or as { amount, date, description } entries
+function payrollDeposits(document: ReconciliationDocument): number[] {
+  const deposits = document.extractedFields.payroll_deposits
+  if (!Array.isArray(deposits)) return []
+
+  return deposits
+    .map(deposit => typeof deposit === 'object' && deposit !== null
+      ? readExtractedAmount(deposit, 'amount')
+      : readExtractedAmount({ amount: deposit }, 'amount'))
+    .filter((amount): amount is number => amount !== undefined && amount > 0)
+}
+
+function sameEmployer(a: string, b: string): boolean {
+  return tokensAgree(tokens(a).filter(token => !EMPLOYER_SUFFIXES.includes(token)), tokens(b).filter(token => !EMPLOYER_SUFFIXES.includes(token)))
+}
+
+// Initials and titles are ignored, and "Smith, Jane" matches "Jane Smith"
+function sameName(a: string, b: string): boolean {
+  const nameTokens = (value: string) => tokens(value).filter(token => token.length > 1 && !NAME_TITLES.includes(token))
+  return tokensAgree(nameTokens(a), nameTokens(b))
+}
+
+// Addresses agree on the civic number and street name; unit and city formatting vary
+function sameAddress(a: string, b: string): boolean {
+  const key = (value: string) => tokens(value).map(token => ADDRESS_ABBREVIATIONS[token] || token).slice(0, 2).join(' ')
+  return key(a) === key(b)
+}
+
+// Token lists agree when one contains every token of the other
+function tokensAgree(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return true
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  return shorter.every(token => longer.includes(token))
+}
+
+function tokens(value: string): string[] {
+  return value.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(token => token.length > 0)
+}
+
+function textField(document: ReconciliationDocument, key: string): string | undefined {
+  const value = document.extractedFields[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function variance(a: number, b: number): number {
+  const larger = Math.max(Math.abs(a), Math.abs(b))
+  return larger === 0 ? 0 : Math.abs(a - b) / larger
+}
+
+function labelOf(document: ReconciliationDocument): string {
+  return DOCUMENT_LABELS[document.documentType] || document.documentType.replace(/_/g, ' ')
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
@@ -30,6 +30,7 @@ export interface PropertyForecast extends ForecastResult {
 export interface RefinanceForecast extends ForecastResult {
   modelType: 'refinance_probability'
   probability: number
+  marketRate: number
   potentialSavings: number
   priorityScore: number
   recommendedAction: string
@@ -266,6 +267,7 @@ export class ForecastingAgent {
         inputData: features,
         userId,
         probability,
+        marketRate: currentMarketRate,
         potentialSavings,
         priorityScore,
         recommendedAction
@@ -1,6 +1,11 @@
 import { supabaseAdmin } from '../supabase'
 import { ForecastingAgent, RefinanceForecast } from './forecasting-agent'
 import { openai } from '../openai'
+import { buildAmortizationSchedule } from '../mortgage/amortization'
+import { analyzeRefinance, RefinanceAnalysis, RefinanceInput } from '../mortgage/refinance'
+
+// Canadian fixed terms are assumed to be five years when the term isn't on file
+const DEFAULT_TERM_MONTHS = 60
 
 export interface RefinanceWatchlistItem {
   id: string
@@ -10,6 +15,9 @@ export interface RefinanceWatchlistItem {
   propertyValue: number
   refinanceProbability: number
   potentialSavings: number
+  breakEvenMonth?: number
+  prepaymentPenalty?: number
+  refinanceAnalysis?: RefinanceAnalysis
   priorityScore: number
   lastContacted?: string
   status: 'active' | 'contacted' | 'converted' | 'dismissed'
@@ -73,17 +81,25 @@ export class RefinanceAgent {
 
           // Only add to watchlist if probability > 30%
           if (forecast.probability > 0.3) {
+            const analysis = analyzeRefinance(this.buildRefinanceInput(calculation, forecast.marketRate))
+            const bestOption = analysis.recommendation === 'blend_and_extend' && analysis.blendAndExtend
+              ? analysis.blendAndExtend
+              : analysis.refinance
+
             const watchlistItem: RefinanceWatchlistItem = {
               id: `watchlist_${user.id}_${Date.now()}`,
               userId: user.id,
               currentRate: calculation.interest_rate,
-              currentBalance: calculation.property_price - calculation.down_payment,
+              currentBalance: analysis.refinance.principal - analysis.refinance.financedCosts,
               propertyValue: calculation.property_price,
               refinanceProbability: forecast.probability,
-              potentialSavings: forecast.potentialSavings,
+              potentialSavings: Math.max(0, bestOption.netSavings),
+              breakEvenMonth: bestOption.breakEvenMonth,
+              prepaymentPenalty: analysis.penalty.amount,
+              refinanceAnalysis: analysis,
               priorityScore: forecast.priorityScore,
               status: 'active',
-              recommendedAction: forecast.recommendedAction,
+              recommendedAction: this.getRecommendedAction(forecast.probability, Math.max(0, bestOption.netSavings)),
               nextContactDate: this.calculateNextContactDate(forecast.priorityScore)
             }
 
@@ -130,6 +146,9 @@ export class RefinanceAgent {
         propertyValue: row.property_value,
         refinanceProbability: row.refinance_probability,
         potentialSavings: row.potential_savings,
+        breakEvenMonth: row.break_even_month ?? undefined,
+        prepaymentPenalty: row.prepayment_penalty ?? undefined,
+        refinanceAnalysis: row.refinance_analysis ?? undefined,
         priorityScore: row.priority_score,
         lastContacted: row.last_contacted,
         status: row.status,
@@ -169,6 +188,11 @@ export class RefinanceAgent {
     }
   }
 
+  // Run the refinance calculator for a single mortgage
+  analyzeRefinance(input: RefinanceInput): RefinanceAnalysis {
+    return analyzeRefinance(input)
+  }
+
   // Generate retention strategies for high-risk users
   async generateRetentionStrategies(userId: string): Promise<RetentionStrategy[]> {
     try {
@@ -338,6 +362,32 @@ export class RefinanceAgent {
     }
   }
 
+  // Estimate today's balance and time left in the term from the stored calculation
+  private buildRefinanceInput(calculation: any, marketRate: number): RefinanceInput {
+    const country = calculation.country === 'US' ? 'US' : 'CA'
+    const loanAmount = calculation.property_price - calculation.down_payment
+    const elapsedMonths = Math.max(0, Math.floor(
+      (Date.now() - new Date(calculation.created_at).getTime()) / (30.44 * 24 * 60 * 60 * 1000)
+    ))
+    const schedule = buildAmortizationSchedule(loanAmount, calculation.interest_rate, calculation.term_years, { country })
+    const balance = elapsedMonths > 0
+      ? schedule.periods[Math.min(elapsedMonths, schedule.periods.length) - 1]?.balance ?? loanAmount
+      : loanAmount
+    const remainingAmortizationYears = Math.max(1, calculation.term_years - elapsedMonths / 12)
+
+    return {
+      country,
+      balance,
+      currentRate: calculation.interest_rate,
+      remainingAmortizationYears,
+      remainingTermMonths: country === 'CA'
+        ? DEFAULT_TERM_MONTHS - elapsedMonths % DEFAULT_TERM_MONTHS
+        : undefined,
+      lenderType: 'big_bank',
+      newRate: marketRate,
+    }
+  }
+
   // Calculate next contact date based on priority
   private calculateNextContactDate(priorityScore: number): string {
     const days = priorityScore > 80 ? 1 : priorityScore > 60 ? 3 : priorityScore > 40 ? 7 : 14
@@ -373,6 +423,9 @@ export class RefinanceAgent {
             property_value: item.propertyValue,
             refinance_probability: item.refinanceProbability,
             potential_savings: item.potentialSavings,
+            break_even_month: item.breakEvenMonth,
+            prepayment_penalty: item.prepaymentPenalty,
+            refinance_analysis: item.refinanceAnalysis,
             priority_score: item.priorityScore,
             status: item.status,
             broker_notes: item.brokerNotes
@@ -5,6 +5,9 @@ import { WebhookService } from '../webhooks/webhook-service'
 import { ApiKeyService } from '../tenancy/api-key-service'
 import { TenantScoping } from '../tenancy/scoping'
 import { PermissionChecker } from '../tenancy/rbac'
+import { AffordabilityInputSchema, RatePricingInputSchema } from '../security'
+import { affordabilityEngine } from '../mortgage/affordability-engine'
+import { RateIntelligenceAgent } from '../openai'
 import crypto from 'crypto'
 
 export interface PublicApiRequest {
@@ -351,6 +354,44 @@ export class PublicApiService {
           success: true,
           data: data || []
         }
+      } else if (method === 'POST') {
+        // Solve the borrower's maximum purchase price, with matches for a scenario if given
+        const parsed = AffordabilityInputSchema.safeParse(body?.borrower)
+        if (!parsed.success) {
+          return {
+            success: false,
+            error: {
+              code: 'INVALID_BORROWER',
+              message: 'borrower must be a valid affordability input',
+              details: parsed.error.errors
+            }
+          }
+        }
+
+        const maxPriceSolution = affordabilityEngine.solveMaxPurchasePrice(parsed.data)
+        let matches: any[] = []
+
+        if (body.scenarioId) {
+          const { data, error } = await supabaseAdmin
+            .from('mortgage_matches')
+            .select('*')
+            .eq('organization_id', organizationId)
+            .eq('scenario_id', body.scenarioId)
+            .order('score', { ascending: false })
+
+          if (error) {
+            throw new Error(`Failed to get matches: ${error.message}`)
+          }
+          matches = data || []
+        }
+
+        return {
+          success: true,
+          data: {
+            maxPriceSolution,
+            matches
+          }
+        }
       } else {
         return {
           success: false,
@@ -469,6 +510,26 @@ export class PublicApiService {
           success: true,
           data: data?.[0] || null
         }
+      } else if (method === 'POST') {
+        // Price current rates for a borrower
+        const parsed = RatePricingInputSchema.safeParse(body)
+        if (!parsed.success) {
+          return {
+            success: false,
+            error: {
+              code: 'INVALID_RATE_REQUEST',
+              message: 'body must be a valid rate pricing request',
+              details: parsed.error.errors
+            }
+          }
+        }
+
+        const rates = await new RateIntelligenceAgent().fetchRates(parsed.data)
+
+        return {
+          success: true,
+          data: { rates }
+        }
       } else {
         return {
           success: false,
@@ -31,6 +31,38 @@ export interface BrokerNotificationData {
   additionalInfo?: string
 }
 
+export interface RateLockExpiryNotificationData {
+  brokerId: string
+  brokerName: string
+  brokerEmail: string
+  brokerPhone: string
+  lockId: string
+  leadId?: string
+  lender: string
+  product?: string
+  lockedRate: number
+  loanAmount: number
+  expiresAt: string
+  daysRemaining: number
+  // Cost of extending the lock by the lender's standard extension period
+  extensionFee?: number
+  extensionDays?: number
+}
+
+export interface LeadSlaNotificationData {
+  step: 'reminder' | 'team_lead_alert'
+  // The assigned broker for a reminder; their team lead for an alert
+  recipientName: string
+  recipientEmail: string
+  recipientPhone?: string
+  brokerName: string
+  leadId: string
+  leadName: string
+  qualificationTier: string
+  dueAt: string
+  hoursOverdue: number
+}
+
 export class BrokerNotificationService {
   /**
    * Send SMS notification to broker
@@ -95,6 +127,117 @@ export class BrokerNotificationService {
     }
   }
 
+  /**
+   * Warn a broker by SMS and email that a rate lock is about to expire
+   */
+  async sendRateLockExpiryNotification(data: RateLockExpiryNotificationData): Promise<{
+    smsSuccess: boolean
+    emailSuccess: boolean
+  }> {
+    const subject = data.daysRemaining > 0
+      ? `Rate lock expiring in ${data.daysRemaining} day${data.daysRemaining === 1 ? '' : 's'} - ${data.lender} ${data.lockedRate}%`
+      : `Rate lock expires today - ${data.lender} ${data.lockedRate}%`
+    const expiresOn = new Date(data.expiresAt).toLocaleDateString()
+    const extension = data.extensionFee !== undefined && data.extensionDays
+      ? `A ${data.extensionDays}-day extension costs $${data.extensionFee.toLocaleString()}.`
+      : 'This lock cannot be extended; relock or close before it expires.'
+
+    const [smsSuccess, emailSuccess] = await Promise.all([
+      twilioClient.messages.create({
+        body: `⏰ ${subject}
+Loan: $${data.loanAmount.toLocaleString()}
+Expires: ${expiresOn}
+${extension}
+Lock ID: ${data.lockId}`,
+        from: process.env.TWILIO_PHONE_NUMBER,
+        to: data.brokerPhone
+      }).then(() => true, (error: unknown) => {
+        console.error('Failed to send rate lock SMS:', error)
+        return false
+      }),
+      sgMail.send({
+        to: data.brokerEmail,
+        from: process.env.SENDGRID_FROM_EMAIL || 'noreply@mortgagematchpro.com',
+        subject,
+        html: `
+<p>Hi ${data.brokerName},</p>
+<p>The ${data.lender}${data.product ? ` ${data.product}` : ''} lock at <strong>${data.lockedRate}%</strong> on a $${data.loanAmount.toLocaleString()} loan expires on <strong>${expiresOn}</strong>.</p>
+<p>${extension}</p>
+<p><strong>Lock ID:</strong> ${data.lockId}${data.leadId ? `<br><strong>Lead ID:</strong> ${data.leadId}` : ''}</p>`,
+        text: `Hi ${data.brokerName},
+
+The ${data.lender}${data.product ? ` ${data.product}` : ''} lock at ${data.lockedRate}% on a $${data.loanAmount.toLocaleString()} loan expires on ${expiresOn}.
+${extension}
+
+Lock ID: ${data.lockId}${data.leadId ? `\nLead ID: ${data.leadId}` : ''}
+`,
+      }).then(() => true, (error: unknown) => {
+        console.error('Failed to send rate lock email:', error)
+        return false
+      })
+    ])
+
+    return { smsSuccess, emailSuccess }
+  }
+
+  /**
+   * Remind a broker that a lead is past its first-contact deadline, or alert their team lead
+   */
+  async sendLeadSlaNotification(data: LeadSlaNotificationData): Promise<{
+    smsSuccess: boolean
+    emailSuccess: boolean
+  }> {
+    const overdue = data.hoursOverdue < 1
+      ? 'now due'
+      : `${Math.floor(data.hoursOverdue)} hour${Math.floor(data.hoursOverdue) === 1 ? '' : 's'} overdue`
+    const subject = data.step === 'reminder'
+      ? `First contact ${overdue} - ${data.leadName}`
+      : `Escalation: ${data.brokerName} has not contacted ${data.leadName} (${overdue})`
+    const action = data.step === 'reminder'
+      ? 'Contact the borrower now and mark the lead as contacted. The lead will be reassigned if contact is not recorded.'
+      : `Follow up with ${data.brokerName}. The lead will be reassigned to another broker if contact is not recorded.`
+    const dueBy = new Date(data.dueAt).toLocaleString()
+
+    const [smsSuccess, emailSuccess] = await Promise.all([
+      data.recipientPhone
+        ? twilioClient.messages.create({
+            body: `⏱️ ${subject}
+Tier: ${data.qualificationTier}
+Due: ${dueBy}
+${action}
+Lead ID: ${data.leadId}`,
+            from: process.env.TWILIO_PHONE_NUMBER,
+            to: data.recipientPhone
+          }).then(() => true, (error: unknown) => {
+            console.error('Failed to send lead SLA SMS:', error)
+            return false
+          })
+        : Promise.resolve(false),
+      sgMail.send({
+        to: data.recipientEmail,
+        from: process.env.SENDGRID_FROM_EMAIL || 'noreply@mortgagematchpro.com',
+        subject,
+        html: `
+<p>Hi ${data.recipientName},</p>
+<p>The ${data.qualificationTier} lead <strong>${data.leadName}</strong> assigned to ${data.brokerName} was due for first contact by <strong>${dueBy}</strong>.</p>
+<p>${action}</p>
+<p><strong>Lead ID:</strong> ${data.leadId}</p>`,
+        text: `Hi ${data.recipientName},
+
+The ${data.qualificationTier} lead ${data.leadName} assigned to ${data.brokerName} was due for first contact by ${dueBy}.
+${action}
+
+Lead ID: ${data.leadId}
+`,
+      }).then(() => true, (error: unknown) => {
+        console.error('Failed to send lead SLA email:', error)
+        return false
+      })
+    ])
+
+    return { smsSuccess, emailSuccess }
+  }
+
   /**
    * Format SMS message for broker
    */
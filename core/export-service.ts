@@ -1,4 +1,4 @@
-import { ScenarioComparison, ExportOptions } from './scenario-types'
+import { ScenarioComparison, ExportOptions, ClosingCostBreakdown, AprDisclosure } from './scenario-types'
 import { supabaseAdmin } from './supabase'
 
 export class ExportService {
@@ -26,6 +26,8 @@ export class ExportService {
             tdsRatio: scenario.tdsRatio,
             qualificationResult: scenario.qualificationResult,
             riskFactors: scenario.riskFactors,
+            closingCosts: scenario.closingCosts ? this.generateClosingCostTable(scenario.closingCosts) : null,
+            apr: scenario.aprDisclosure ? this.generateAprTable(scenario.aprDisclosure) : null,
           })),
           bestOption: comparison.comparison.bestOption,
           worstOption: comparison.comparison.worstOption,
@@ -216,14 +218,17 @@ export class ExportService {
 
   // Private helper methods
   private generateAmortizationData(comparison: ScenarioComparison) {
-    const maxMonths = Math.max(...comparison.scenarios.map(s => s.amortizationSchedule.length))
+    const maxYears = Math.max(...comparison.scenarios.map(s =>
+      Math.ceil((s.amortizationSchedule[s.amortizationSchedule.length - 1]?.month || 0) / 12)
+    ))
     const data = []
     
-    for (let month = 0; month < maxMonths; month += 12) {
-      const yearData: any = { Year: Math.floor(month / 12) }
+    // Schedules list every payment period, so sample the first payment of each year
+    for (let year = 0; year < maxYears; year++) {
+      const yearData: any = { Year: year }
       
       comparison.scenarios.forEach((scenario, index) => {
-        const scheduleEntry = scenario.amortizationSchedule[month]
+        const scheduleEntry = scenario.amortizationSchedule.find(entry => entry.month > year * 12)
         if (scheduleEntry) {
           yearData[`Scenario ${index + 1} Balance`] = scheduleEntry.balance
           yearData[`Scenario ${index + 1} Interest`] = scheduleEntry.cumulativeInterest
@@ -237,6 +242,38 @@ export class ExportService {
     return data
   }
 
+  // Itemized closing cost rows with the cash-to-close totals
+  private generateClosingCostTable(closingCosts: ClosingCostBreakdown) {
+    return {
+      headers: ['Item', 'Paid By', 'Amount'],
+      rows: [
+        ...closingCosts.items.map(item => [item.label, item.paidBy, item.amount]),
+        ['Total closing costs', 'buyer', closingCosts.totalClosingCosts],
+        ['Down payment', 'buyer', closingCosts.downPayment],
+        ['Cash to close', 'buyer', closingCosts.cashToClose],
+      ],
+      notes: closingCosts.warnings,
+    }
+  }
+
+  // APR with the fees counted in the finance charge and those left out
+  private generateAprTable(disclosure: AprDisclosure) {
+    return {
+      apr: disclosure.apr,
+      noteRate: disclosure.noteRate,
+      method: disclosure.method === 'reg_z_actuarial'
+        ? 'Regulation Z actuarial method'
+        : 'Cost of Borrowing Regulations',
+      headers: ['Fee', 'In APR', 'Amount'],
+      rows: [
+        ...disclosure.includedFees.map(fee => [fee.label, 'yes', fee.amount]),
+        ...disclosure.excludedFees.map(fee => [fee.label, 'no', fee.amount]),
+        [disclosure.method === 'reg_z_actuarial' ? 'Finance charge' : 'Total cost of borrowing', '', disclosure.financeCharge],
+        ['Amount financed', '', disclosure.amountFinanced],
+      ],
+    }
+  }
+
   private generateCSVData(comparison: ScenarioComparison, options: ExportOptions) {
     const headers = [
       'Scenario',
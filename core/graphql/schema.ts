@@ -176,6 +176,8 @@ export const schema = buildSchema(`
     company: String!
     commissionRate: Float!
     matchReason: String!
+    routingScore: Float
+    routingReasons: [String!]
   }
 
   type PaymentResult {
@@ -1,10 +1,12 @@
 /**
  * CRM Bridge - Generic Lead Export System
  * v1.2.0 - Exports leads to various CRM platforms and lead management systems
+ * v1.3.0 - Reads lead changes back from each CRM's change feed for inbound sync
  */
 
 import { z } from 'zod'
 import axios, { AxiosInstance } from 'axios'
+import { CRMChangePage, CRMInboundChange, inboundFieldNames, toInboundChange } from './CRMInbound'
 
 // CRM integration schemas
 export const CRMLeadSchema = z.object({
@@ -32,6 +34,8 @@ export const CRMLeadSchema = z.object({
   customFields: z.record(z.any()).optional()
 })
 
+export const CRMConflictPolicySchema = z.enum(['last_writer_wins', 'crm_wins', 'local_wins'])
+
 export const CRMIntegrationConfigSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -43,7 +47,17 @@ export const CRMIntegrationConfigSchema = z.object({
     apiUrl: z.string().optional(),
     customHeaders: z.record(z.string()).optional(),
     fieldMapping: z.record(z.string()).optional(),
-    leadScoreThreshold: z.number().min(0).max(100).default(50)
+    leadScoreThreshold: z.number().min(0).max(100).default(50),
+    // Inbound sync: CRM stage to lead status, CRM owner to broker id, and which side wins a conflict
+    stageMapping: z.record(z.enum(['pending', 'contacted', 'converted', 'rejected'])).optional(),
+    ownerMapping: z.record(z.string()).optional(),
+    conflictPolicy: CRMConflictPolicySchema.optional(),
+    fieldConflictPolicies: z.object({
+      stage: CRMConflictPolicySchema.optional(),
+      notes: CRMConflictPolicySchema.optional(),
+      owner: CRMConflictPolicySchema.optional(),
+    }).optional(),
+    callbackSecret: z.string().optional()
   }),
   lastSync: z.string().optional(),
   syncCount: z.number().default(0),
@@ -53,6 +67,9 @@ export const CRMIntegrationConfigSchema = z.object({
 export type CRMLead = z.infer<typeof CRMLeadSchema>
 export type CRMIntegrationConfig = z.infer<typeof CRMIntegrationConfigSchema>
 
+// Records requested per change feed page
+export const CHANGE_PAGE_SIZE = 100
+
 export class CRMBridge {
   private static instance: CRMBridge
   private integrations: Map<string, CRMIntegrationConfig> = new Map()
@@ -243,6 +260,98 @@ export class CRMBridge {
     }
   }
 
+  /**
+   * Get integration configuration
+   */
+  getIntegration(integrationId: string): CRMIntegrationConfig | undefined {
+    return this.integrations.get(integrationId)
+  }
+
+  /**
+   * Fetch records changed in the CRM at or after `since`, oldest first. Pass the previous
+   * page's token to read on through the same query.
+   */
+  async fetchChanges(integrationId: string, since: string, pageToken?: string): Promise<CRMChangePage> {
+    const integration = this.integrations.get(integrationId)
+    if (!integration) {
+      throw new Error(`Integration ${integrationId} not found`)
+    }
+
+    const client = this.clients.get(integration.id)
+    if (integration.type === 'zapier' || !client) {
+      throw new Error(`${integration.name} can only sync through webhooks`)
+    }
+
+    const names = inboundFieldNames(integration)
+    const fields = Array.from(new Set([names.leadId, names.stage, names.notes, names.owner, names.updatedAt]))
+    const fetchedAt = new Date().toISOString()
+    const toChanges = (records: any[]): CRMInboundChange[] => records
+      .map(record => toInboundChange(integration, record, fetchedAt))
+      .filter((change): change is CRMInboundChange => !!change)
+
+    switch (integration.type) {
+      case 'hubspot': {
+        const response = await client.post('/crm/v3/objects/contacts/search', {
+          filterGroups: [{ filters: [{ propertyName: names.updatedAt, operator: 'GTE', value: String(Date.parse(since)) }] }],
+          sorts: [{ propertyName: names.updatedAt, direction: 'ASCENDING' }],
+          properties: fields,
+          limit: CHANGE_PAGE_SIZE,
+          after: pageToken
+        })
+        const results: any[] = response.data.results || []
+        return {
+          changes: toChanges(results.map(result => ({ [names.externalId]: result.id, ...result.properties }))),
+          nextPageToken: response.data.paging?.next?.after
+        }
+      }
+      case 'salesforce': {
+        // Later batches of the same query are read from the locator Salesforce returns
+        let response
+        if (pageToken) {
+          response = await client.get(pageToken)
+        } else {
+          // SOQL datetimes are unquoted and without milliseconds, so the cursor's second is read again
+          const from = new Date(since).toISOString().replace(/\.\d{3}Z$/, 'Z')
+          const query = `SELECT ${[names.externalId, ...fields].join(', ')} FROM Lead ` +
+            `WHERE ${names.updatedAt} >= ${from} ORDER BY ${names.updatedAt} ASC`
+          response = await client.get('/services/data/v58.0/query', { params: { q: query } })
+        }
+        return {
+          changes: toChanges(response.data.records || []),
+          nextPageToken: response.data.done === false ? response.data.nextRecordsUrl : undefined
+        }
+      }
+      case 'pipedrive': {
+        // Pipedrive timestamps are UTC without a zone
+        const response = await client.get('/v1/recents', {
+          params: {
+            since_timestamp: new Date(since).toISOString().slice(0, 19).replace('T', ' '),
+            items: 'person',
+            start: pageToken ? Number(pageToken) : 0,
+            limit: CHANGE_PAGE_SIZE
+          }
+        })
+        const items: any[] = response.data.data || []
+        const pagination = response.data.additional_data?.pagination
+        return {
+          changes: toChanges(items.map(item => item.data)),
+          nextPageToken: pagination?.more_items_in_collection ? String(pagination.next_start) : undefined
+        }
+      }
+      case 'custom': {
+        const offset = pageToken ? Number(pageToken) : 0
+        const response = await client.get('/leads/changes', { params: { since, offset, limit: CHANGE_PAGE_SIZE } })
+        const changes: any[] = response.data.changes || []
+        return {
+          changes: toChanges(changes),
+          nextPageToken: response.data.hasMore ? String(offset + changes.length) : undefined
+        }
+      }
+      default:
+        throw new Error(`Unsupported integration type: ${integration.type}`)
+    }
+  }
+
   /**
    * Get all integrations
    */
@@ -440,6 +549,7 @@ export class CRMBridge {
 
   private formatLeadForZapier(lead: CRMLead): any {
     return {
+      lead_id: lead.id,
       name: lead.name,
       email: lead.email,
       phone: lead.phone,
@@ -469,6 +579,7 @@ export class CRMBridge {
         lastname: lead.name.split(' ').slice(1).join(' '),
         email: lead.email,
         phone: lead.phone,
+        mmp_lead_id: lead.id,
         lead_score: lead.leadScore.toString(),
         match_confidence: lead.matchConfidence.toString(),
         income: lead.leadData.income.toString(),
@@ -493,6 +604,7 @@ export class CRMBridge {
       LastName: lead.name.split(' ').slice(1).join(' '),
       Email: lead.email,
       Phone: lead.phone,
+      MMP_Lead_Id__c: lead.id,
       Lead_Score__c: lead.leadScore,
       Match_Confidence__c: lead.matchConfidence,
       Income__c: lead.leadData.income,
@@ -526,6 +638,7 @@ export class CRMBridge {
         }
       ],
       custom_fields: {
+        mmp_lead_id: lead.id,
         lead_score: lead.leadScore,
         match_confidence: lead.matchConfidence,
         income: lead.leadData.income,
@@ -546,6 +659,7 @@ export class CRMBridge {
 
   private formatLeadForCustom(lead: CRMLead, fieldMapping?: Record<string, string>): any {
     const basePayload = {
+      leadId: lead.id,
       name: lead.name,
       email: lead.email,
       phone: lead.phone,
@@ -558,7 +672,8 @@ export class CRMBridge {
       customFields: lead.customFields
     }
 
-    if (!fieldMapping) return basePayload
+    // Mappings for inbound fields alone leave the export payload as is
+    if (!fieldMapping || !Object.keys(fieldMapping).some(key => key in basePayload)) return basePayload
 
     // Apply field mapping
     const mappedPayload: any = {}
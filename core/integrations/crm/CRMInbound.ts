@@ -0,0 +1,347 @@
+/**
+ * CRM Inbound Mapping
+ * v1.3.0 - Reads lead changes from CRM webhooks and change feeds, and decides which win over ours
+ */
+
+import type { CRMIntegrationConfig } from './CRMBridge'
+
+export type CRMType = CRMIntegrationConfig['type']
+
+// Lead fields a CRM can change on our side
+export type CRMSyncField = 'stage' | 'notes' | 'owner'
+
+export type CRMLeadStatus = 'pending' | 'contacted' | 'converted' | 'rejected'
+
+// last_writer_wins compares change times; crm_wins and local_wins always prefer one side
+export type CRMConflictPolicy = 'last_writer_wins' | 'crm_wins' | 'local_wins'
+
+// Where each synced value lives in a CRM record. Dotted keys read nested objects.
+export type CRMInboundKey = CRMSyncField | 'externalId' | 'leadId' | 'updatedAt'
+
+// One CRM record as it changed, in our terms
+export interface CRMInboundChange {
+  externalId: string
+  // Our lead id, when the CRM record carries it
+  leadId?: string
+  changedAt: string
+  fields: Partial<Record<CRMSyncField, string>>
+}
+
+export interface CRMChangePage {
+  changes: CRMInboundChange[]
+  // The CRM's token for the rest of the same query, when there is more
+  nextPageToken?: string
+}
+
+export interface CRMConflictDecision {
+  apply: boolean
+  // Our value differs and was kept
+  conflict: boolean
+  reason: string
+}
+
+// Per-lead record of when synced fields last changed, kept in lead_data.crmSync
+export interface CRMLeadSyncState {
+  // When we last applied a CRM change to the lead
+  appliedAt: string
+  // When each synced field last changed in the CRM
+  fieldChangedAt: Partial<Record<CRMSyncField, string>>
+  // When the lead last changed before any synced field did
+  baseline: string
+}
+
+export const CRM_SYNC_FIELDS: CRMSyncField[] = ['stage', 'notes', 'owner']
+
+// Default locations of synced values, overridden per integration through `fieldMapping`
+export const INBOUND_FIELD_DEFAULTS: Record<CRMType, Record<CRMInboundKey, string>> = {
+  hubspot: {
+    externalId: 'id',
+    leadId: 'mmp_lead_id',
+    stage: 'hs_lead_status',
+    notes: 'broker_notes',
+    owner: 'hubspot_owner_id',
+    updatedAt: 'lastmodifieddate',
+  },
+  salesforce: {
+    externalId: 'Id',
+    leadId: 'MMP_Lead_Id__c',
+    stage: 'Status',
+    notes: 'Description',
+    owner: 'OwnerId',
+    updatedAt: 'LastModifiedDate',
+  },
+  pipedrive: {
+    externalId: 'id',
+    leadId: 'custom_fields.mmp_lead_id',
+    stage: 'label',
+    notes: 'custom_fields.broker_notes',
+    owner: 'owner_id',
+    updatedAt: 'update_time',
+  },
+  zapier: {
+    externalId: 'id',
+    leadId: 'lead_id',
+    stage: 'stage',
+    notes: 'notes',
+    owner: 'owner',
+    updatedAt: 'updated_at',
+  },
+  custom: {
+    externalId: 'id',
+    leadId: 'leadId',
+    stage: 'stage',
+    notes: 'notes',
+    owner: 'owner',
+    updatedAt: 'updatedAt',
+  },
+}
+
+// CRM stages each type ships with, overridden per integration through `stageMapping`.
+// Our own status names map to themselves for every type.
+export const DEFAULT_STAGE_MAPPINGS: Record<CRMType, Record<string, CRMLeadStatus>> = {
+  hubspot: {
+    new: 'pending',
+    open: 'pending',
+    in_progress: 'contacted',
+    connected: 'contacted',
+    open_deal: 'contacted',
+    unqualified: 'rejected',
+    bad_timing: 'rejected',
+  },
+  salesforce: {
+    'open - not contacted': 'pending',
+    'working - contacted': 'contacted',
+    'closed - converted': 'converted',
+    'closed - not converted': 'rejected',
+  },
+  pipedrive: {
+    won: 'converted',
+    lost: 'rejected',
+  },
+  zapier: {
+    won: 'converted',
+    lost: 'rejected',
+  },
+  custom: {
+    won: 'converted',
+    lost: 'rejected',
+  },
+}
+
+const LEAD_STATUSES: CRMLeadStatus[] = ['pending', 'contacted', 'converted', 'rejected']
+
+/**
+ * Where each synced value lives in this integration's records
+ */
+export function inboundFieldNames(integration: CRMIntegrationConfig): Record<CRMInboundKey, string> {
+  const names = { ...INBOUND_FIELD_DEFAULTS[integration.type] }
+  const mapping = integration.configuration.fieldMapping || {}
+  for (const key of Object.keys(names) as CRMInboundKey[]) {
+    if (mapping[key]) names[key] = mapping[key]
+  }
+  return names
+}
+
+/**
+ * Our lead status for a CRM stage, or undefined when the stage has no mapping
+ */
+export function mapStage(integration: CRMIntegrationConfig, stage: string): CRMLeadStatus | undefined {
+  const key = stage.trim().toLowerCase()
+  const configured = integration.configuration.stageMapping || {}
+  for (const external of Object.keys(configured)) {
+    if (external.trim().toLowerCase() === key) return configured[external]
+  }
+
+  const defaults = DEFAULT_STAGE_MAPPINGS[integration.type]
+  if (defaults[key]) return defaults[key]
+  return LEAD_STATUSES.find(status => status === key)
+}
+
+/**
+ * The conflict policy for one field
+ */
+export function conflictPolicyFor(integration: CRMIntegrationConfig, field: CRMSyncField): CRMConflictPolicy {
+  const { conflictPolicy, fieldConflictPolicies } = integration.configuration
+  return fieldConflictPolicies?.[field] || conflictPolicy || 'last_writer_wins'
+}
+
+/**
+ * Read a CRM record into a change, or undefined when it has no id
+ */
+export function toInboundChange(
+  integration: CRMIntegrationConfig,
+  record: Record<string, unknown>,
+  fallbackChangedAt: string
+): CRMInboundChange | undefined {
+  const names = inboundFieldNames(integration)
+  const externalId = readValue(record, names.externalId)
+  if (!externalId) return undefined
+
+  const fields: CRMInboundChange['fields'] = {}
+  for (const field of CRM_SYNC_FIELDS) {
+    const raw = readPath(record, names[field])
+    if (raw === undefined) continue
+    // A cleared note is a change; a cleared stage or owner is not something we can apply
+    if (raw === null || raw === '') {
+      if (field === 'notes') fields.notes = ''
+      continue
+    }
+    const value = readValue(record, names[field])
+    if (value !== undefined) fields[field] = value
+  }
+
+  return {
+    externalId,
+    leadId: readValue(record, names.leadId),
+    changedAt: parseChangeTime(readPath(record, names.updatedAt)) || fallbackChangedAt,
+    fields,
+  }
+}
+
+/**
+ * Changes carried by a webhook from this integration's CRM. Records without any synced
+ * field are dropped.
+ */
+export function parseWebhookChanges(
+  integration: CRMIntegrationConfig,
+  body: any,
+  receivedAt: Date = new Date()
+): CRMInboundChange[] {
+  const fallback = receivedAt.toISOString()
+  const changes: Array<CRMInboundChange | undefined> = []
+
+  switch (integration.type) {
+    case 'hubspot': {
+      // One event per changed property
+      const names = inboundFieldNames(integration)
+      const events: any[] = Array.isArray(body) ? body : [body]
+      for (const event of events) {
+        if (!event || event.objectId === undefined || !event.propertyName) continue
+        changes.push(toInboundChange(integration, {
+          [names.externalId]: String(event.objectId),
+          [event.propertyName]: event.propertyValue,
+        }, parseChangeTime(event.occurredAt) || fallback))
+      }
+      break
+    }
+    case 'salesforce': {
+      const records: any[] = Array.isArray(body?.records) ? body.records : [body]
+      for (const record of records) changes.push(record && toInboundChange(integration, record, fallback))
+      break
+    }
+    case 'pipedrive': {
+      // v1 webhooks send `current`, v2 webhooks send `data`
+      const record = body?.current || body?.data
+      if (record) changes.push(toInboundChange(integration, record, parseChangeTime(body?.meta?.timestamp) || fallback))
+      break
+    }
+    default: {
+      const records: any[] = Array.isArray(body) ? body : Array.isArray(body?.changes) ? body.changes : [body]
+      for (const record of records) changes.push(record && toInboundChange(integration, record, fallback))
+    }
+  }
+
+  return changes.filter((change): change is CRMInboundChange =>
+    !!change && Object.keys(change.fields).length > 0
+  )
+}
+
+/**
+ * ISO time from the formats CRMs use: ISO strings, epoch seconds or milliseconds, and
+ * Pipedrive's "YYYY-MM-DD HH:MM:SS" in UTC
+ */
+export function parseChangeTime(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+
+  let time: number
+  if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+    const epoch = Number(value)
+    time = epoch > 1e12 ? epoch : epoch * 1000
+  } else {
+    const text = String(value)
+    time = Date.parse(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text) ? `${text.replace(' ', 'T')}Z` : text)
+  }
+
+  return isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+/**
+ * When a field last changed on our side. Until something else edits the lead, synced fields
+ * keep the time of the CRM change that set them; after that, the lead's own update time.
+ */
+export function localFieldChangedAt(lead: any, field: CRMSyncField): string | undefined {
+  const state: CRMLeadSyncState | undefined = lead.lead_data?.crmSync
+  if (state && !editedSince(lead, state)) {
+    return state.fieldChangedAt[field] || state.baseline
+  }
+  return lead.updated_at || lead.created_at
+}
+
+/**
+ * The lead's sync state after applying CRM changes to the given fields
+ */
+export function nextSyncState(
+  lead: any,
+  appliedFields: CRMSyncField[],
+  changedAt: string,
+  appliedAt: string
+): CRMLeadSyncState {
+  const state: CRMLeadSyncState | undefined = lead.lead_data?.crmSync
+  const current = state && !editedSince(lead, state)
+  const fieldChangedAt = current ? { ...state!.fieldChangedAt } : {}
+  for (const field of appliedFields) fieldChangedAt[field] = changedAt
+
+  return {
+    appliedAt,
+    fieldChangedAt,
+    baseline: current ? state!.baseline : lead.updated_at || lead.created_at || appliedAt,
+  }
+}
+
+/**
+ * Whether an incoming CRM value should replace ours
+ */
+export function resolveConflict(
+  policy: CRMConflictPolicy,
+  incoming: { value: string; changedAt: string },
+  local: { value?: string | null; changedAt?: string }
+): CRMConflictDecision {
+  if ((local.value ?? '') === incoming.value) {
+    return { apply: false, conflict: false, reason: 'Already up to date' }
+  }
+
+  if (policy === 'crm_wins') {
+    return { apply: true, conflict: false, reason: 'CRM value wins' }
+  }
+
+  if (policy === 'local_wins') {
+    return local.value
+      ? { apply: false, conflict: true, reason: 'Local value wins' }
+      : { apply: true, conflict: false, reason: 'No local value' }
+  }
+
+  if (!local.changedAt || Date.parse(incoming.changedAt) > Date.parse(local.changedAt)) {
+    return { apply: true, conflict: false, reason: 'CRM change is newer' }
+  }
+  return { apply: false, conflict: true, reason: `Local change at ${local.changedAt} is newer` }
+}
+
+function editedSince(lead: any, state: CRMLeadSyncState): boolean {
+  return !!lead.updated_at && Date.parse(lead.updated_at) > Date.parse(state.appliedAt)
+}
+
+function readPath(record: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value == null ? undefined : value[key], record)
+}
+
+// Owner fields come back as objects from some APIs, e.g. Pipedrive's { id, email, name }
+function readValue(record: Record<string, unknown>, path: string): string | undefined {
+  const value = readPath(record, path)
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value === 'object') {
+    const owner = value as Record<string, unknown>
+    const id = owner.email ?? owner.id ?? owner.value
+    return id === undefined || id === null ? undefined : String(id)
+  }
+  return String(value)
+}
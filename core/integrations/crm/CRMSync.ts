@@ -0,0 +1,555 @@
+/**
+ * CRM Sync
+ * v1.3.0 - Applies stage, note and owner changes made in connected CRMs back onto our leads
+ */
+
+import { z } from 'zod'
+import { supabaseAdmin } from '../../supabase'
+import { LeadSlaStore, leadSlaStore } from '../../lead-sla-store'
+import {
+  CRMBridge,
+  crmBridge,
+  CRMConflictPolicySchema,
+  CRMIntegrationConfig,
+  CRMLead,
+} from './CRMBridge'
+import {
+  conflictPolicyFor,
+  CRMConflictPolicy,
+  CRMInboundChange,
+  CRMSyncField,
+  localFieldChangedAt,
+  mapStage,
+  nextSyncState,
+  parseWebhookChanges,
+  resolveConflict,
+} from './CRMInbound'
+
+export type CRMSyncSource = 'webhook' | 'poll' | 'replay'
+
+// applied: at least one field changed. unmapped: a stage or owner with no mapping, nothing applied.
+// conflict: our values won, nothing applied. unmatched: no lead for the CRM record.
+export const CRMSyncOutcomeSchema = z.enum(['applied', 'skipped', 'conflict', 'unmapped', 'unmatched', 'failed'])
+
+export type CRMSyncOutcome = z.infer<typeof CRMSyncOutcomeSchema>
+
+// Admin actions: poll change feeds now, or re-apply logged changes
+export const CRMSyncRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('poll'),
+    // Every enabled integration with a change feed when omitted
+    integrationId: z.string().min(1).optional(),
+  }),
+  z.object({
+    action: z.literal('replay'),
+    integrationId: z.string().min(1),
+    entryIds: z.array(z.string().uuid()).min(1).max(500).optional(),
+    since: z.string().datetime({ offset: true }).optional(),
+    until: z.string().datetime({ offset: true }).optional(),
+    outcomes: z.array(CRMSyncOutcomeSchema).min(1).optional(),
+    // Overrides the integration's policies for this replay, e.g. crm_wins to accept changes that lost
+    conflictPolicy: CRMConflictPolicySchema.optional(),
+  }),
+])
+
+export type CRMSyncRequest = z.infer<typeof CRMSyncRequestSchema>
+
+export interface CRMFieldResult {
+  field: CRMSyncField
+  value: string
+  result: 'applied' | 'unchanged' | 'conflict' | 'unmapped'
+  reason: string
+}
+
+// One CRM change as received and what became of it; the change is kept so it can be replayed
+export interface CRMSyncLogEntry {
+  id: string
+  integrationId: string
+  source: CRMSyncSource
+  externalId: string
+  leadId?: string
+  changedAt: string
+  change: CRMInboundChange
+  outcome: CRMSyncOutcome
+  fieldResults: CRMFieldResult[]
+  error?: string
+  // The entry this one replayed
+  replayOf?: string
+  createdAt: string
+}
+
+export interface CRMSyncCursor {
+  integrationId: string
+  // Change time of the newest change read from the CRM's feed
+  cursor?: string
+  // CRM records already read at the cursor's change time, skipped when the feed returns them again
+  cursorExternalIds: string[]
+  lastPolledAt?: string
+}
+
+export interface CRMSyncResult {
+  integrationId: string
+  outcomes: Record<CRMSyncOutcome, number>
+  entries: CRMSyncLogEntry[]
+  cursor?: string
+  error?: string
+}
+
+export interface CRMSyncLogQuery {
+  entryIds?: string[]
+  since?: string
+  until?: string
+  outcomes?: CRMSyncOutcome[]
+  limit?: number
+}
+
+// The first poll of an integration reads this far back
+const INITIAL_POLL_LOOKBACK_HOURS = 24
+
+// Pages read per poll, so one busy CRM cannot hold up the others
+const MAX_POLL_PAGES = 10
+
+// Changes a replay retries unless told otherwise: ones a mapping or link fix may now apply
+const REPLAYABLE_OUTCOMES: CRMSyncOutcome[] = ['unmapped', 'unmatched', 'failed']
+
+// Merged leads point at the lead that absorbed them; follow at most this many hops
+const MAX_MERGE_HOPS = 5
+
+const HOUR_MS = 60 * 60 * 1000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export class CRMSyncService {
+  constructor(
+    private bridge: Pick<CRMBridge, 'getIntegration' | 'getAllIntegrations' | 'fetchChanges' | 'exportLead'> = crmBridge,
+    private sla: Pick<LeadSlaStore, 'recordFirstContact' | 'transferTimer'> = leadSlaStore
+  ) {}
+
+  /**
+   * Export a lead and link it to the CRM record it became, so changes to that record come back to it
+   */
+  async exportLead(integrationId: string, lead: CRMLead): ReturnType<CRMBridge['exportLead']> {
+    const result = await this.bridge.exportLead(integrationId, lead)
+    if (result.success && result.externalId) {
+      await this.linkLead(integrationId, String(result.externalId), lead.id)
+    }
+    return result
+  }
+
+  /**
+   * Apply the changes in a webhook from the integration's CRM
+   */
+  async handleWebhook(integrationId: string, body: unknown, receivedAt: Date = new Date()): Promise<CRMSyncResult> {
+    const integration = this.getIntegration(integrationId)
+    const result = emptyResult(integrationId)
+
+    for (const change of parseWebhookChanges(integration, body, receivedAt)) {
+      addEntry(result, await this.applyChange(integration, change, 'webhook'))
+    }
+    return result
+  }
+
+  /**
+   * Read the CRM's change feed from the integration's cursor, apply each change and move the
+   * cursor to the newest one
+   */
+  async pollIntegration(integrationId: string, now: Date = new Date()): Promise<CRMSyncResult> {
+    const integration = this.getIntegration(integrationId)
+    const stored = await this.getCursor(integrationId)
+    let cursor = stored?.cursor || new Date(now.getTime() - INITIAL_POLL_LOOKBACK_HOURS * HOUR_MS).toISOString()
+    let readAtCursor = new Set(stored?.cursor ? stored.cursorExternalIds : [])
+    const since = cursor
+    const result = emptyResult(integrationId)
+    let pageToken: string | undefined
+
+    // Follow the CRM's paging through one query, so records sharing a change time are not split across queries
+    for (let page = 0; page < MAX_POLL_PAGES; page++) {
+      const { changes, nextPageToken } = await this.bridge.fetchChanges(integrationId, since, pageToken)
+
+      for (const change of changes) {
+        const changedAt = Date.parse(change.changedAt)
+        const cursorAt = Date.parse(cursor)
+        // Feeds read from the cursor inclusively, so changes already applied at the cursor come again
+        if (changedAt < cursorAt || (changedAt === cursorAt && readAtCursor.has(change.externalId))) continue
+
+        addEntry(result, await this.applyChange(integration, change, 'poll'))
+        if (changedAt > cursorAt) {
+          cursor = change.changedAt
+          readAtCursor = new Set()
+        }
+        readAtCursor.add(change.externalId)
+      }
+
+      pageToken = nextPageToken
+      if (!pageToken) break
+    }
+
+    await this.saveCursor(integrationId, cursor, Array.from(readAtCursor), now)
+    result.cursor = cursor
+    return result
+  }
+
+  /**
+   * Poll every enabled integration that has a change feed. Meant to run on a schedule.
+   */
+  async pollAll(now: Date = new Date()): Promise<CRMSyncResult[]> {
+    const results: CRMSyncResult[] = []
+    const integrations = this.bridge.getAllIntegrations()
+      .filter(integration => integration.enabled && integration.type !== 'zapier')
+
+    for (const integration of integrations) {
+      try {
+        results.push(await this.pollIntegration(integration.id, now))
+      } catch (error) {
+        // The cursor stays put, so the next poll retries from the same point
+        results.push({ ...emptyResult(integration.id), error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Apply logged changes again with the integration's current mappings, e.g. after fixing a
+   * stage or owner mapping. Each replay is logged against the entry it replays.
+   */
+  async replay(
+    integrationId: string,
+    options: CRMSyncLogQuery & { conflictPolicy?: CRMConflictPolicy } = {}
+  ): Promise<CRMSyncResult> {
+    let integration = this.getIntegration(integrationId)
+    if (options.conflictPolicy) {
+      integration = {
+        ...integration,
+        configuration: { ...integration.configuration, conflictPolicy: options.conflictPolicy, fieldConflictPolicies: undefined },
+      }
+    }
+
+    const entries = await this.queryLog(integrationId, {
+      ...options,
+      outcomes: options.entryIds ? options.outcomes : options.outcomes || REPLAYABLE_OUTCOMES,
+    }, true)
+
+    const result = emptyResult(integrationId)
+    for (const entry of entries) {
+      addEntry(result, await this.applyChange(integration, entry.change, 'replay', entry.id))
+    }
+    return result
+  }
+
+  /**
+   * Sync log for an integration, newest first
+   */
+  async getLog(integrationId: string, options: CRMSyncLogQuery = {}): Promise<CRMSyncLogEntry[]> {
+    return this.queryLog(integrationId, options, false)
+  }
+
+  async getCursor(integrationId: string): Promise<CRMSyncCursor | null> {
+    const { data, error } = await supabaseAdmin
+      .from('crm_sync_cursors')
+      .select('*')
+      .eq('integration_id', integrationId)
+
+    if (error) {
+      throw new Error(`Failed to fetch CRM sync cursor: ${error.message}`)
+    }
+
+    const row = data?.[0]
+    return row
+      ? {
+        integrationId: row.integration_id,
+        cursor: row.cursor || undefined,
+        cursorExternalIds: row.cursor_external_ids || [],
+        lastPolledAt: row.last_polled_at || undefined,
+      }
+      : null
+  }
+
+  /**
+   * Apply one CRM change to the lead it belongs to, field by field, and log the outcome
+   */
+  async applyChange(
+    integration: CRMIntegrationConfig,
+    change: CRMInboundChange,
+    source: CRMSyncSource,
+    replayOf?: string
+  ): Promise<CRMSyncLogEntry> {
+    let leadId: string | undefined
+    let fieldResults: CRMFieldResult[] = []
+    let outcome: CRMSyncOutcome = 'unmatched'
+    let failure: string | undefined
+
+    try {
+      const lead = await this.resolveLead(integration.id, change)
+      if (lead) {
+        leadId = lead.id
+        fieldResults = await this.applyFields(integration, change, lead)
+        outcome = syncOutcome(fieldResults)
+      }
+    } catch (error) {
+      outcome = 'failed'
+      failure = error instanceof Error ? error.message : String(error)
+    }
+
+    return this.recordLogEntry({
+      integration_id: integration.id,
+      source,
+      external_id: change.externalId,
+      lead_id: leadId || null,
+      changed_at: change.changedAt,
+      change,
+      outcome,
+      field_results: fieldResults,
+      error: failure || null,
+      replay_of: replayOf || null,
+    })
+  }
+
+  // Decide each field against ours, write the winners in one update, then move the SLA timer
+  private async applyFields(integration: CRMIntegrationConfig, change: CRMInboundChange, lead: any): Promise<CRMFieldResult[]> {
+    const results: CRMFieldResult[] = []
+    const update: Record<string, any> = {}
+    const leadData = { ...(lead.lead_data || {}) }
+    const applied: CRMSyncField[] = []
+
+    const decide = (field: CRMSyncField, value: string, localValue: string | undefined, write: () => void) => {
+      const decision = resolveConflict(
+        conflictPolicyFor(integration, field),
+        { value, changedAt: change.changedAt },
+        { value: localValue, changedAt: localFieldChangedAt(lead, field) }
+      )
+      if (decision.apply) {
+        write()
+        applied.push(field)
+      }
+      results.push({
+        field,
+        value,
+        result: decision.apply ? 'applied' : decision.conflict ? 'conflict' : 'unchanged',
+        reason: decision.reason,
+      })
+    }
+
+    const { stage, notes, owner } = change.fields
+
+    if (stage !== undefined) {
+      const status = mapStage(integration, stage)
+      if (status) {
+        decide('stage', status, lead.status, () => { update.status = status })
+      } else {
+        results.push({ field: 'stage', value: stage, result: 'unmapped', reason: `No lead status mapped for stage "${stage}"` })
+      }
+    }
+
+    if (notes !== undefined) {
+      decide('notes', notes, leadData.brokerNotes, () => { leadData.brokerNotes = notes })
+    }
+
+    if (owner !== undefined) {
+      const brokerId = await this.resolveOwner(integration, owner)
+      if (brokerId) {
+        decide('owner', brokerId, lead.broker_id, () => { update.broker_id = brokerId })
+      } else {
+        results.push({ field: 'owner', value: owner, result: 'unmapped', reason: `No broker for CRM owner "${owner}"` })
+      }
+    }
+
+    if (applied.length === 0) return results
+
+    const appliedAt = new Date().toISOString()
+    leadData.crmSync = nextSyncState(lead, applied, change.changedAt, appliedAt)
+    const { error } = await supabaseAdmin
+      .from('leads')
+      .update({ ...update, lead_data: leadData, updated_at: appliedAt })
+      .eq('id', lead.id)
+
+    if (error) {
+      throw new Error(`Failed to update lead: ${error.message}`)
+    }
+
+    const changedAt = new Date(change.changedAt)
+    if (update.broker_id) {
+      await this.sla.transferTimer(lead.id, update.broker_id, 'crm', changedAt)
+    }
+    if (update.status === 'contacted' || update.status === 'converted') {
+      await this.sla.recordFirstContact(lead.id, 'crm', changedAt)
+    }
+
+    return results
+  }
+
+  // The lead linked to the CRM record, else the one the record names; merged leads resolve to their survivor
+  private async resolveLead(integrationId: string, change: CRMInboundChange): Promise<any | null> {
+    const { data: links, error } = await supabaseAdmin
+      .from('crm_lead_links')
+      .select('lead_id')
+      .eq('integration_id', integrationId)
+      .eq('external_id', change.externalId)
+
+    if (error) {
+      throw new Error(`Failed to fetch CRM lead link: ${error.message}`)
+    }
+
+    const linkedLeadId: string | undefined = links?.[0]?.lead_id
+    let leadId = linkedLeadId || (change.leadId && UUID_PATTERN.test(change.leadId) ? change.leadId : undefined)
+    if (!leadId) return null
+
+    let lead: any = null
+    for (let hop = 0; hop <= MAX_MERGE_HOPS && leadId; hop++) {
+      lead = await this.getLead(leadId)
+      leadId = lead?.merged_into_lead_id || undefined
+    }
+    if (!lead) return null
+
+    if (lead.id !== linkedLeadId) {
+      await this.linkLead(integrationId, change.externalId, lead.id)
+    }
+    return lead
+  }
+
+  // Explicit owner mappings first, then a broker with the owner's email
+  private async resolveOwner(integration: CRMIntegrationConfig, owner: string): Promise<string | undefined> {
+    const mapped = integration.configuration.ownerMapping?.[owner]
+    if (mapped) return mapped
+    if (!owner.includes('@')) return undefined
+
+    const { data, error } = await supabaseAdmin
+      .from('brokers')
+      .select('id')
+      .eq('email', owner.trim().toLowerCase())
+
+    if (error) {
+      throw new Error(`Failed to fetch broker: ${error.message}`)
+    }
+
+    return data?.[0]?.id
+  }
+
+  private async getLead(leadId: string): Promise<any | null> {
+    const { data, error } = await supabaseAdmin
+      .from('leads')
+      .select('*')
+      .eq('id', leadId)
+
+    if (error) {
+      throw new Error(`Failed to fetch lead: ${error.message}`)
+    }
+
+    return data?.[0] || null
+  }
+
+  private async linkLead(integrationId: string, externalId: string, leadId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('crm_lead_links')
+      .upsert(
+        { integration_id: integrationId, external_id: externalId, lead_id: leadId, updated_at: new Date().toISOString() },
+        { onConflict: 'integration_id,external_id' }
+      )
+
+    if (error) {
+      throw new Error(`Failed to link CRM record: ${error.message}`)
+    }
+  }
+
+  private async saveCursor(integrationId: string, cursor: string, externalIds: string[], polledAt: Date): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('crm_sync_cursors')
+      .upsert(
+        {
+          integration_id: integrationId,
+          cursor,
+          cursor_external_ids: externalIds,
+          last_polled_at: polledAt.toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'integration_id' }
+      )
+
+    if (error) {
+      throw new Error(`Failed to save CRM sync cursor: ${error.message}`)
+    }
+  }
+
+  private async recordLogEntry(row: Record<string, unknown>): Promise<CRMSyncLogEntry> {
+    const { data, error } = await supabaseAdmin
+      .from('crm_sync_log')
+      .insert(row)
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to record CRM sync log entry: ${error?.message}`)
+    }
+
+    return toLogEntry(data)
+  }
+
+  private async queryLog(integrationId: string, options: CRMSyncLogQuery, ascending: boolean): Promise<CRMSyncLogEntry[]> {
+    let query = supabaseAdmin
+      .from('crm_sync_log')
+      .select('*')
+      .eq('integration_id', integrationId)
+
+    if (options.entryIds) query = query.in('id', options.entryIds)
+    if (options.outcomes) query = query.in('outcome', options.outcomes)
+    if (options.since) query = query.gte('created_at', options.since)
+    if (options.until) query = query.lte('created_at', options.until)
+
+    const { data, error } = await query
+      .order('created_at', { ascending })
+      .limit(options.limit || 500)
+
+    if (error) {
+      throw new Error(`Failed to fetch CRM sync log: ${error.message}`)
+    }
+
+    return (data || []).map(toLogEntry)
+  }
+
+  private getIntegration(integrationId: string): CRMIntegrationConfig {
+    const integration = this.bridge.getIntegration(integrationId)
+    if (!integration) {
+      throw new Error(`Integration ${integrationId} not found`)
+    }
+    return integration
+  }
+}
+
+function syncOutcome(results: CRMFieldResult[]): CRMSyncOutcome {
+  if (results.some(result => result.result === 'applied')) return 'applied'
+  if (results.some(result => result.result === 'unmapped')) return 'unmapped'
+  if (results.some(result => result.result === 'conflict')) return 'conflict'
+  return 'skipped'
+}
+
+function emptyResult(integrationId: string): CRMSyncResult {
+  return {
+    integrationId,
+    outcomes: { applied: 0, skipped: 0, conflict: 0, unmapped: 0, unmatched: 0, failed: 0 },
+    entries: [],
+  }
+}
+
+function addEntry(result: CRMSyncResult, entry: CRMSyncLogEntry): void {
+  result.outcomes[entry.outcome]++
+  result.entries.push(entry)
+}
+
+function toLogEntry(row: any): CRMSyncLogEntry {
+  return {
+    id: row.id,
+    integrationId: row.integration_id,
+    source: row.source,
+    externalId: row.external_id,
+    leadId: row.lead_id || undefined,
+    changedAt: row.changed_at,
+    change: row.change,
+    outcome: row.outcome,
+    fieldResults: row.field_results || [],
+    error: row.error || undefined,
+    replayOf: row.replay_of || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Export singleton instance
+export const crmSyncService = new CRMSyncService()
@@ -1,10 +1,25 @@
 /**
  * DummyBank API Adapter
- * v1.2.0 - Mock REST API adapter for demonstration and testing
+ * v1.3.0 - Mock REST API adapter for demonstration and testing
  */
 
 import { z } from 'zod'
 import axios, { AxiosInstance } from 'axios'
+import {
+  AdapterRateSheet,
+  LenderAdapter,
+  LenderApplicationRequest,
+  LenderApplicationStatusSchema,
+  LenderCapability,
+  LenderHealth,
+  PreApproval,
+  PreApprovalRequest,
+  PreApprovalSchema,
+  RateCriteria,
+  RateHistory,
+  RateHistorySchema,
+} from './LenderAdapter'
+import { RateLockPolicySchema } from '../../rates/rate-lock'
 
 // DummyBank API schemas
 export const DummyBankRateSchema = z.object({
@@ -29,35 +44,64 @@ export const DummyBankRateSchema = z.object({
     email: z.string(),
     website: z.string()
   }),
+  // Lock terms for the rate, when they differ from the country defaults
+  lockPolicy: RateLockPolicySchema.optional(),
   lastUpdated: z.string()
 })
 
 export const DummyBankApplicationSchema = z.object({
   applicationId: z.string(),
-  status: z.enum(['pending', 'approved', 'rejected', 'under_review']),
+  status: LenderApplicationStatusSchema,
   rate: z.number(),
   amount: z.number(),
   term: z.number(),
   monthlyPayment: z.number(),
   nextSteps: z.array(z.string()),
   documents: z.array(z.string()),
-  estimatedClosing: z.string()
+  estimatedClosing: z.string(),
+  conditions: z.array(z.string()).optional()
 })
 
 export type DummyBankRate = z.infer<typeof DummyBankRateSchema>
 export type DummyBankApplication = z.infer<typeof DummyBankApplicationSchema>
 
-export class DummyBankAdapter {
+// Products requested when pulling a full rate sheet
+const RATE_SHEET_PRODUCTS: Array<{ termYears: number; rateType: 'fixed' | 'variable' }> = [
+  { termYears: 15, rateType: 'fixed' },
+  { termYears: 30, rateType: 'fixed' },
+  { termYears: 30, rateType: 'variable' },
+]
+const RATE_SHEET_LOAN_AMOUNT = 400000
+
+export interface DummyBankConfig {
+  baseUrl: string
+  apiKey: string
+  timeout?: number
+  // Registry id, when more than one DummyBank environment is configured
+  integrationId?: string
+}
+
+export class DummyBankAdapter implements LenderAdapter {
+  readonly id: string
+  readonly name: string = 'DummyBank API'
+  readonly version: string = '1.3.0'
+  readonly capabilities: LenderCapability[] = [
+    'rate_fetching',
+    'rate_sheet',
+    'application_submission',
+    'application_status',
+    'application_cancellation',
+    'pre_approval',
+    'rate_history',
+  ]
+  readonly sourceId: string
   private client: AxiosInstance
   private baseUrl: string
   private apiKey: string
-  private integrationId: string = 'dummybank-api'
 
-  constructor(config: {
-    baseUrl: string
-    apiKey: string
-    timeout?: number
-  }) {
+  constructor(config: DummyBankConfig) {
+    this.id = config.integrationId || 'dummybank-api'
+    this.sourceId = this.id
     this.baseUrl = config.baseUrl
     this.apiKey = config.apiKey
 
@@ -78,14 +122,7 @@ export class DummyBankAdapter {
   /**
    * Get available mortgage rates
    */
-  async getRates(criteria: {
-    loanAmount: number
-    termYears: number
-    rateType?: 'fixed' | 'variable'
-    propertyType?: 'primary' | 'secondary' | 'investment'
-    creditScore?: number
-    ltv?: number
-  }): Promise<DummyBankRate[]> {
+  async getRates(criteria: RateCriteria): Promise<DummyBankRate[]> {
     try {
       const response = await this.client.get('/api/v1/rates', {
         params: {
@@ -110,6 +147,34 @@ export class DummyBankAdapter {
     }
   }
 
+  /**
+   * Pull every published product as one rate sheet for the rate sheet store
+   */
+  async pullRateSheet(): Promise<AdapterRateSheet> {
+    const results = await Promise.all(RATE_SHEET_PRODUCTS.map(product =>
+      this.getRates({ loanAmount: RATE_SHEET_LOAN_AMOUNT, ...product })
+    ))
+
+    const rates = ([] as DummyBankRate[]).concat(...results)
+    return {
+      country: 'US',
+      // DummyBank publishes lock terms with each rate; one set covers the whole sheet
+      lockPolicy: rates.find(rate => rate.lockPolicy)?.lockPolicy,
+      rates: rates.map(rate => ({
+        lender: rate.lender,
+        product: rate.product,
+        term: rate.term,
+        type: rate.type,
+        rate: rate.rate,
+        apr: rate.apr,
+        maxLtv: rate.eligibility.maxLTV,
+        minCreditScore: rate.eligibility.minCreditScore,
+        features: rate.features,
+        ...rate.contactInfo,
+      })),
+    }
+  }
+
   /**
    * Get specific rate by ID
    */
@@ -127,35 +192,7 @@ export class DummyBankAdapter {
   /**
    * Submit mortgage application
    */
-  async submitApplication(application: {
-    rateId: string
-    borrower: {
-      firstName: string
-      lastName: string
-      email: string
-      phone: string
-      ssn: string
-    }
-    property: {
-      address: string
-      city: string
-      state: string
-      zipCode: string
-      propertyType: string
-      purchasePrice: number
-    }
-    loan: {
-      amount: number
-      downPayment: number
-      termYears: number
-    }
-    financial: {
-      income: number
-      employmentType: string
-      creditScore: number
-      debts: number
-    }
-  }): Promise<DummyBankApplication> {
+  async submitApplication(application: LenderApplicationRequest): Promise<DummyBankApplication> {
     try {
       const response = await this.client.post('/api/v1/applications', {
         rate_id: application.rateId,
@@ -257,13 +294,7 @@ export class DummyBankAdapter {
   /**
    * Check API health
    */
-  async checkHealth(): Promise<{
-    status: 'healthy' | 'degraded' | 'unhealthy'
-    responseTime: number
-    version: string
-    uptime: number
-    lastError?: string
-  }> {
+  async checkHealth(): Promise<LenderHealth> {
     const startTime = Date.now()
 
     try {
@@ -293,20 +324,13 @@ export class DummyBankAdapter {
   /**
    * Get rate history
    */
-  async getRateHistory(rateId: string, days: number = 30): Promise<{
-    rateId: string
-    history: Array<{
-      date: string
-      rate: number
-      apr: number
-    }>
-  }> {
+  async getRateHistory(rateId: string, days: number = 30): Promise<RateHistory> {
     try {
       const response = await this.client.get(`/api/v1/rates/${rateId}/history`, {
         params: { days }
       })
 
-      return response.data
+      return RateHistorySchema.parse(response.data)
 
     } catch (error) {
       console.error('Error fetching rate history from DummyBank:', error)
@@ -317,23 +341,10 @@ export class DummyBankAdapter {
   /**
    * Get pre-approval
    */
-  async getPreApproval(criteria: {
-    income: number
-    debts: number
-    creditScore: number
-    downPayment: number
-    propertyPrice: number
-  }): Promise<{
-    preApprovalId: string
-    maxAmount: number
-    rate: number
-    monthlyPayment: number
-    expiresAt: string
-    conditions: string[]
-  }> {
+  async getPreApproval(criteria: PreApprovalRequest): Promise<PreApproval> {
     try {
       const response = await this.client.post('/api/v1/pre-approval', criteria)
-      return response.data
+      return PreApprovalSchema.parse(response.data)
 
     } catch (error) {
       console.error('Error getting pre-approval from DummyBank:', error)
@@ -381,11 +392,7 @@ export class DummyBankAdapter {
 }
 
 // Factory function for creating adapter instances
-export function createDummyBankAdapter(config: {
-  baseUrl: string
-  apiKey: string
-  timeout?: number
-}): DummyBankAdapter {
+export function createDummyBankAdapter(config: DummyBankConfig): DummyBankAdapter {
   return new DummyBankAdapter(config)
 }
 
@@ -0,0 +1,238 @@
+/**
+ * Lender Adapter Contract
+ * v1.3.0 - Typed operations every lender integration implements, with capability negotiation
+ */
+
+import { z } from 'zod'
+import type { RateLockPolicy } from '../../rates/rate-lock'
+
+// Operations an adapter can offer. Names match the capabilities in integrationRegistry.json.
+export const LenderCapabilitySchema = z.enum([
+  'rate_fetching',
+  'rate_sheet',
+  'application_submission',
+  'application_status',
+  'application_cancellation',
+  'pre_approval',
+  'rate_history',
+])
+
+export type LenderCapability = z.infer<typeof LenderCapabilitySchema>
+
+export const LenderRateSchema = z.object({
+  id: z.string(),
+  lender: z.string(),
+  product: z.string(),
+  rate: z.number().positive(),
+  apr: z.number().positive(),
+  term: z.number().positive(),
+  type: z.enum(['fixed', 'variable']),
+  minAmount: z.number().optional(),
+  maxAmount: z.number().optional(),
+  features: z.array(z.string()),
+  eligibility: z.object({
+    minCreditScore: z.number(),
+    maxLTV: z.number(),
+    minIncome: z.number(),
+    employmentTypes: z.array(z.string())
+  }).optional(),
+  contactInfo: z.object({
+    phone: z.string(),
+    email: z.string(),
+    website: z.string()
+  }),
+  lastUpdated: z.string()
+})
+
+// Decision states a lender reports for an application, from receipt through funding
+export const LenderApplicationStatusSchema = z.enum([
+  'pending',
+  'under_review',
+  'approved',
+  'conditionally_approved',
+  'commitment',
+  'funded',
+  'rejected',
+  'cancelled',
+])
+
+export const LenderApplicationSchema = z.object({
+  applicationId: z.string().min(1),
+  status: LenderApplicationStatusSchema,
+  rate: z.number(),
+  amount: z.number(),
+  term: z.number(),
+  monthlyPayment: z.number(),
+  nextSteps: z.array(z.string()),
+  documents: z.array(z.string()),
+  estimatedClosing: z.string(),
+  // Outstanding conditions on a conditional approval or commitment
+  conditions: z.array(z.string()).optional()
+})
+
+export const PreApprovalSchema = z.object({
+  preApprovalId: z.string().min(1),
+  maxAmount: z.number().positive(),
+  rate: z.number().positive(),
+  monthlyPayment: z.number(),
+  expiresAt: z.string(),
+  conditions: z.array(z.string())
+})
+
+export const RateHistorySchema = z.object({
+  rateId: z.string(),
+  history: z.array(z.object({
+    date: z.string(),
+    rate: z.number(),
+    apr: z.number()
+  }))
+})
+
+export const LenderHealthSchema = z.object({
+  status: z.enum(['healthy', 'degraded', 'unhealthy']),
+  responseTime: z.number().min(0),
+  version: z.string(),
+  uptime: z.number(),
+  lastError: z.string().optional()
+})
+
+export type LenderRate = z.infer<typeof LenderRateSchema>
+export type LenderApplicationStatus = z.infer<typeof LenderApplicationStatusSchema>
+export type LenderApplication = z.infer<typeof LenderApplicationSchema>
+export type PreApproval = z.infer<typeof PreApprovalSchema>
+export type RateHistory = z.infer<typeof RateHistorySchema>
+export type LenderHealth = z.infer<typeof LenderHealthSchema>
+
+export interface RateCriteria {
+  loanAmount: number
+  termYears: number
+  rateType?: 'fixed' | 'variable'
+  propertyType?: 'primary' | 'secondary' | 'investment'
+  creditScore?: number
+  ltv?: number
+}
+
+export interface LenderApplicationRequest {
+  rateId: string
+  borrower: {
+    firstName: string
+    lastName: string
+    email: string
+    phone: string
+    ssn: string
+  }
+  property: {
+    address: string
+    city: string
+    state: string
+    zipCode: string
+    propertyType: string
+    purchasePrice: number
+  }
+  loan: {
+    amount: number
+    downPayment: number
+    termYears: number
+  }
+  financial: {
+    income: number
+    employmentType: string
+    creditScore: number
+    debts: number
+  }
+}
+
+export interface PreApprovalRequest {
+  income: number
+  debts: number
+  creditScore: number
+  downPayment: number
+  propertyPrice: number
+}
+
+// Raw rate records for the rate sheet store, normalized by normalizeRateSheetRows
+export interface AdapterRateSheet {
+  rates: Array<Record<string, unknown>>
+  country: 'CA' | 'US'
+  effectiveAt?: string
+  expiresAt?: string
+  // The lender's lock terms for the sheet, when they differ from the country defaults
+  lockPolicy?: RateLockPolicy
+}
+
+/**
+ * A lender integration. Every adapter reports its health; the other operations are
+ * optional and an adapter must implement each one it declares in `capabilities`.
+ */
+export interface LenderAdapter {
+  readonly id: string
+  readonly name: string
+  readonly version: string
+  readonly capabilities: LenderCapability[]
+
+  checkHealth(): Promise<LenderHealth>
+  getRates?(criteria: RateCriteria): Promise<LenderRate[]>
+  pullRateSheet?(): Promise<AdapterRateSheet>
+  submitApplication?(application: LenderApplicationRequest): Promise<LenderApplication>
+  getApplicationStatus?(applicationId: string): Promise<LenderApplication>
+  cancelApplication?(applicationId: string, reason?: string): Promise<void>
+  getPreApproval?(criteria: PreApprovalRequest): Promise<PreApproval>
+  getRateHistory?(rateId: string, days?: number): Promise<RateHistory>
+}
+
+// Builds an adapter from the configuration stored with its integration
+export type LenderAdapterFactory = (configuration: Record<string, any>, integrationId: string) => LenderAdapter
+
+// Method that backs each capability
+export const CAPABILITY_METHODS: Record<LenderCapability, keyof LenderAdapter> = {
+  rate_fetching: 'getRates',
+  rate_sheet: 'pullRateSheet',
+  application_submission: 'submitApplication',
+  application_status: 'getApplicationStatus',
+  application_cancellation: 'cancelApplication',
+  pre_approval: 'getPreApproval',
+  rate_history: 'getRateHistory',
+}
+
+/**
+ * Whether an adapter both declares a capability and implements its method
+ */
+export function supportsCapability(adapter: LenderAdapter, capability: LenderCapability): boolean {
+  return adapter.capabilities.includes(capability) &&
+    typeof adapter[CAPABILITY_METHODS[capability]] === 'function'
+}
+
+/**
+ * Split the capabilities a caller needs into those the adapter can serve and those it cannot
+ */
+export function negotiateCapabilities(
+  adapter: LenderAdapter,
+  requested: LenderCapability[]
+): { supported: LenderCapability[]; missing: LenderCapability[] } {
+  const supported = requested.filter(capability => supportsCapability(adapter, capability))
+  const missing = requested.filter(capability => !supported.includes(capability))
+  return { supported, missing }
+}
+
+/**
+ * Problems with an adapter's declared contract: missing identity, unknown capabilities
+ * and declared capabilities without an implementation
+ */
+export function validateLenderAdapter(adapter: LenderAdapter): string[] {
+  const problems: string[] = []
+
+  if (!adapter.id) problems.push('Adapter id is required')
+  if (!adapter.name) problems.push('Adapter name is required')
+  if (!adapter.version) problems.push('Adapter version is required')
+  if (typeof adapter.checkHealth !== 'function') problems.push('checkHealth is not implemented')
+
+  for (const capability of adapter.capabilities) {
+    if (!LenderCapabilitySchema.safeParse(capability).success) {
+      problems.push(`Unknown capability ${capability}`)
+    } else if (typeof adapter[CAPABILITY_METHODS[capability]] !== 'function') {
+      problems.push(`Capability ${capability} is declared but ${CAPABILITY_METHODS[capability]} is not implemented`)
+    }
+  }
+
+  return problems
+}
@@ -1,11 +1,20 @@
 /**
  * Lender Integration Registry
- * v1.2.0 - Manages lender API adapters and integration status
+ * v1.3.0 - Manages lender API adapters and integration status
  */
 
 import { z } from 'zod'
 import fs from 'fs'
 import path from 'path'
+import { createDummyBankAdapter, DEFAULT_DUMMYBANK_CONFIG } from './DummyBankAdapter'
+import {
+  LenderAdapter,
+  LenderAdapterFactory,
+  LenderCapability,
+  LenderHealth,
+  supportsCapability,
+  validateLenderAdapter,
+} from './LenderAdapter'
 
 // Integration status schema
 export const IntegrationStatusSchema = z.object({
@@ -15,6 +24,8 @@ export const IntegrationStatusSchema = z.object({
   status: z.enum(['active', 'inactive', 'maintenance', 'error']),
   lastChecked: z.string(),
   errorMessage: z.string().optional(),
+  // Adapter factory that builds a client for this integration from its configuration
+  adapter: z.string().optional(),
   configuration: z.record(z.any()),
   capabilities: z.array(z.string()),
   rateLimit: z.object({
@@ -44,10 +55,22 @@ export class LenderIntegrationRegistry {
   private static instance: LenderIntegrationRegistry
   private registry: IntegrationRegistry
   private registryPath: string
+  private adapterFactories = new Map<string, LenderAdapterFactory>()
+  private adapters = new Map<string, LenderAdapter>()
+  private adapterHealth = new Map<string, LenderHealth>()
 
   private constructor() {
     this.registryPath = path.join(__dirname, 'integrationRegistry.json')
     this.registry = this.loadRegistry()
+    this.registerAdapterFactory('dummybank', (configuration, integrationId) =>
+      createDummyBankAdapter({
+        ...DEFAULT_DUMMYBANK_CONFIG,
+        ...configuration,
+        // Keys from the environment win over the placeholder kept in the registry file
+        apiKey: process.env.DUMMYBANK_API_KEY || configuration.apiKey,
+        integrationId,
+      })
+    )
   }
 
   static getInstance(): LenderIntegrationRegistry {
@@ -248,6 +271,155 @@ export class LenderIntegrationRegistry {
     )
   }
 
+  /**
+   * Register a factory for integrations whose `adapter` names it
+   */
+  registerAdapterFactory(adapterType: string, factory: LenderAdapterFactory): void {
+    this.adapterFactories.set(adapterType, factory)
+  }
+
+  /**
+   * Register an adapter instance directly, replacing any adapter with the same id
+   */
+  registerAdapter(adapter: LenderAdapter): void {
+    const problems = validateLenderAdapter(adapter)
+    if (problems.length > 0) {
+      throw new Error(`Invalid lender adapter ${adapter.id || '(unnamed)'}: ${problems.join('; ')}`)
+    }
+
+    this.adapters.set(adapter.id, adapter)
+    this.adapterHealth.delete(adapter.id)
+  }
+
+  /**
+   * Get the adapter for an integration, building it from the integration's configuration
+   * the first time it is needed
+   */
+  getAdapter(id: string): LenderAdapter | undefined {
+    const existing = this.adapters.get(id)
+    if (existing) return existing
+
+    const integration = this.getIntegration(id)
+    const factory = integration?.adapter ? this.adapterFactories.get(integration.adapter) : undefined
+    if (!integration || !factory) return undefined
+
+    const adapter = factory(integration.configuration, integration.id)
+    this.registerAdapter(adapter)
+    return adapter
+  }
+
+  /**
+   * All adapters: those registered directly and those configured in the registry
+   */
+  getAdapters(): LenderAdapter[] {
+    this.registry.integrations
+      .filter(integration => integration.adapter)
+      .forEach(integration => this.getAdapter(integration.id))
+    return Array.from(this.adapters.values())
+  }
+
+  /**
+   * Call an adapter's health check and record the result. Integrations that are down
+   * are marked as errored and recover to active on the next healthy check; integrations
+   * switched off or in maintenance keep their status.
+   */
+  async checkAdapterHealth(id: string): Promise<LenderHealth> {
+    const adapter = this.getAdapter(id)
+    if (!adapter) {
+      throw new Error(`Lender adapter ${id} not found`)
+    }
+
+    let health: LenderHealth
+    try {
+      health = await adapter.checkHealth()
+    } catch (error) {
+      health = {
+        status: 'unhealthy',
+        responseTime: 0,
+        version: 'unknown',
+        uptime: 0,
+        lastError: error instanceof Error ? error.message : String(error),
+      }
+    }
+    this.adapterHealth.set(id, health)
+
+    const integration = this.getIntegration(id)
+    if (integration && (integration.status === 'active' || integration.status === 'error')) {
+      const status = health.status === 'unhealthy' ? 'error' : 'active'
+      if (status !== integration.status) {
+        await this.updateIntegrationStatus(id, status, health.lastError)
+      }
+      await this.updateIntegrationHealth(id, { responseTime: health.responseTime })
+    }
+
+    return health
+  }
+
+  /**
+   * Health-check every adapter
+   */
+  async checkAllAdapters(): Promise<Record<string, LenderHealth>> {
+    const results: Record<string, LenderHealth> = {}
+    for (const adapter of this.getAdapters()) {
+      results[adapter.id] = await this.checkAdapterHealth(adapter.id)
+    }
+    return results
+  }
+
+  /**
+   * Last recorded health of an adapter, if it has been checked
+   */
+  getAdapterHealth(id: string): LenderHealth | undefined {
+    return this.adapterHealth.get(id)
+  }
+
+  /**
+   * Adapters that can serve a capability, best first. Adapters that failed their last
+   * health check or whose integration is not active are left out; healthy adapters come
+   * before unchecked ones, then degraded ones, and faster adapters before slower ones.
+   */
+  getAdaptersByCapability(capability: LenderCapability): LenderAdapter[] {
+    const rank = (adapter: LenderAdapter) => {
+      const status = this.adapterHealth.get(adapter.id)?.status
+      return status === 'healthy' ? 0 : status === undefined ? 1 : 2
+    }
+    const responseTime = (adapter: LenderAdapter) => this.adapterHealth.get(adapter.id)?.responseTime ?? Infinity
+
+    return this.getAdapters()
+      .filter(adapter => supportsCapability(adapter, capability))
+      .filter(adapter => this.adapterHealth.get(adapter.id)?.status !== 'unhealthy')
+      .filter(adapter => {
+        const integration = this.getIntegration(adapter.id)
+        return !integration || integration.status === 'active'
+      })
+      .sort((a, b) => rank(a) - rank(b) || responseTime(a) - responseTime(b))
+  }
+
+  /**
+   * Run an operation on the best adapter for a capability, falling back to the next
+   * adapter when one fails
+   */
+  async routeRequest<T>(
+    capability: LenderCapability,
+    operation: (adapter: LenderAdapter) => Promise<T>
+  ): Promise<{ adapterId: string; result: T }> {
+    const adapters = this.getAdaptersByCapability(capability)
+    if (adapters.length === 0) {
+      throw new Error(`No lender adapter available for ${capability}`)
+    }
+
+    const failures: string[] = []
+    for (const adapter of adapters) {
+      try {
+        return { adapterId: adapter.id, result: await operation(adapter) }
+      } catch (error) {
+        failures.push(`${adapter.id}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    throw new Error(`All lender adapters failed for ${capability}: ${failures.join('; ')}`)
+  }
+
   /**
    * Get integration statistics
    */
@@ -0,0 +1,454 @@
+/**
+ * Lender Submission Orchestrator
+ * v1.3.0 - Submits one borrower file to several lenders and tracks each lender's decision
+ */
+
+import { z } from 'zod'
+import { supabaseAdmin } from '../../supabase'
+import {
+  LenderAdapter,
+  LenderApplication,
+  LenderApplicationRequest,
+  LenderApplicationSchema,
+  LenderApplicationStatus,
+  LenderApplicationStatusSchema,
+  supportsCapability,
+} from './LenderAdapter'
+import { LenderIntegrationRegistry, lenderIntegrationRegistry } from './LenderIntegrationRegistry'
+
+// Where an application stands with one lender. Applications move forward through
+// submitted, conditionally_approved, commitment and funded; declined, withdrawn and
+// failed (the lender never accepted the file) end the lifecycle early.
+export const SubmissionStatusSchema = z.enum([
+  'submitted',
+  'conditionally_approved',
+  'commitment',
+  'funded',
+  'declined',
+  'withdrawn',
+  'failed',
+])
+
+export type SubmissionStatus = z.infer<typeof SubmissionStatusSchema>
+
+// The normalized borrower file sent to every lender; each lender gets its own rate
+export const BorrowerFileSchema = z.object({
+  borrower: z.object({
+    firstName: z.string().min(1).max(100),
+    lastName: z.string().min(1).max(100),
+    email: z.string().email().max(255),
+    phone: z.string().min(10).max(20),
+    ssn: z.string().min(1).max(20),
+  }),
+  property: z.object({
+    address: z.string().min(1).max(255),
+    city: z.string().min(1).max(100),
+    state: z.string().min(2).max(50),
+    zipCode: z.string().min(3).max(10),
+    propertyType: z.string().min(1).max(50),
+    purchasePrice: z.number().positive(),
+  }),
+  loan: z.object({
+    amount: z.number().positive(),
+    downPayment: z.number().min(0),
+    termYears: z.number().positive(),
+  }),
+  financial: z.object({
+    income: z.number().min(0),
+    employmentType: z.string().min(1).max(50),
+    creditScore: z.number().min(300).max(900),
+    debts: z.number().min(0),
+  }),
+})
+
+export type BorrowerFile = z.infer<typeof BorrowerFileSchema>
+
+export const SubmissionRequestSchema = z.object({
+  leadId: z.string().optional(),
+  file: BorrowerFileSchema,
+  lenders: z.array(z.object({
+    lenderId: z.string().min(1),
+    rateId: z.string().min(1),
+  })).min(1).max(20),
+})
+
+export type SubmissionRequest = z.infer<typeof SubmissionRequestSchema> & { brokerId: string }
+
+// Status pushed by a lender to the callback endpoint
+export const LenderStatusCallbackSchema = z.object({
+  lenderId: z.string().min(1),
+  applicationId: z.string().min(1),
+  status: LenderApplicationStatusSchema,
+  conditions: z.array(z.string()).optional(),
+})
+
+export type LenderStatusCallback = z.infer<typeof LenderStatusCallbackSchema>
+
+export interface LenderSubmission {
+  id: string
+  submissionId: string
+  lenderId: string
+  lenderName: string
+  rateId: string
+  externalApplicationId?: string
+  status: SubmissionStatus
+  lenderStatus?: LenderApplicationStatus
+  conditions: string[]
+  error?: string
+  submittedAt: string
+  updatedAt: string
+  lastPolledAt?: string
+}
+
+export interface ApplicationSubmission {
+  id: string
+  leadId?: string
+  brokerId: string
+  createdAt: string
+  lenders: LenderSubmission[]
+}
+
+// What reported a status change: a status poll, a lender callback or the broker
+export type SubmissionEventSource = 'poll' | 'callback' | 'broker'
+
+export interface SubmissionTransition {
+  lenderSubmissionId: string
+  lenderId: string
+  from: SubmissionStatus
+  to: SubmissionStatus
+  source: SubmissionEventSource
+}
+
+export interface PollResult {
+  polled: number
+  transitions: SubmissionTransition[]
+  errors: Array<{ lenderSubmissionId: string; lenderId: string; error: string }>
+}
+
+interface SubmissionOutcome {
+  adapter: LenderAdapter
+  rateId: string
+  application?: LenderApplication
+  error?: string
+}
+
+const LIFECYCLE: SubmissionStatus[] = ['submitted', 'conditionally_approved', 'commitment', 'funded']
+
+export const TERMINAL_SUBMISSION_STATUSES: SubmissionStatus[] = ['funded', 'declined', 'withdrawn', 'failed']
+
+const OPEN_SUBMISSION_STATUSES = LIFECYCLE.filter(status => !TERMINAL_SUBMISSION_STATUSES.includes(status))
+
+const LENDER_STATUS_MAP: Record<LenderApplicationStatus, SubmissionStatus> = {
+  pending: 'submitted',
+  under_review: 'submitted',
+  approved: 'conditionally_approved',
+  conditionally_approved: 'conditionally_approved',
+  commitment: 'commitment',
+  funded: 'funded',
+  rejected: 'declined',
+  cancelled: 'withdrawn',
+}
+
+/**
+ * Submission status for the status a lender reports
+ */
+export function mapLenderStatus(status: LenderApplicationStatus): SubmissionStatus {
+  return LENDER_STATUS_MAP[status]
+}
+
+/**
+ * Apply a reported status to the current one. Applications only move forward, so a
+ * stale poll cannot undo a callback that arrived first; a decline or withdrawal ends
+ * the lifecycle from any open state, and nothing moves a finished application.
+ */
+export function nextSubmissionStatus(current: SubmissionStatus, reported: SubmissionStatus): SubmissionStatus {
+  if (TERMINAL_SUBMISSION_STATUSES.includes(current)) return current
+  if (!LIFECYCLE.includes(reported)) return reported
+  return LIFECYCLE.indexOf(reported) > LIFECYCLE.indexOf(current) ? reported : current
+}
+
+export class SubmissionOrchestrator {
+  constructor(private registry: LenderIntegrationRegistry = lenderIntegrationRegistry) {}
+
+  /**
+   * Submit a borrower file to every selected lender in parallel. A lender that rejects
+   * the submission is recorded as failed without holding up the others.
+   */
+  async submit(request: SubmissionRequest): Promise<ApplicationSubmission> {
+    const file = BorrowerFileSchema.parse(request.file)
+    const targets = this.resolveTargets(request.lenders)
+
+    // Lenders get the SSN; the stored copy of the file does not keep it
+    const { firstName, lastName, email, phone } = file.borrower
+
+    const { data: submission, error } = await supabaseAdmin
+      .from('application_submissions')
+      .insert({
+        lead_id: request.leadId || null,
+        broker_id: request.brokerId,
+        borrower_file: { ...file, borrower: { firstName, lastName, email, phone } },
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to store application submission: ${error.message}`)
+    }
+
+    const outcomes = await Promise.all(targets.map(async ({ adapter, rateId }): Promise<SubmissionOutcome> => {
+      const application: LenderApplicationRequest = { ...file, rateId }
+      try {
+        return { adapter, rateId, application: LenderApplicationSchema.parse(await adapter.submitApplication!(application)) }
+      } catch (submitError) {
+        return { adapter, rateId, error: submitError instanceof Error ? submitError.message : String(submitError) }
+      }
+    }))
+
+    const now = new Date().toISOString()
+    const rows = outcomes.map(({ adapter, rateId, application, error: submitError }) => ({
+      submission_id: submission.id,
+      lender_id: adapter.id,
+      lender_name: adapter.name,
+      rate_id: rateId,
+      external_application_id: application?.applicationId || null,
+      status: application ? mapLenderStatus(application.status) : 'failed',
+      lender_status: application?.status || null,
+      conditions: application?.conditions || [],
+      error: submitError || null,
+      submitted_at: now,
+      updated_at: now,
+    }))
+
+    const { data: stored, error: lendersError } = await supabaseAdmin
+      .from('lender_submissions')
+      .insert(rows)
+      .select()
+
+    if (lendersError) {
+      throw new Error(`Failed to store lender submissions: ${lendersError.message}`)
+    }
+
+    await this.recordEvents((stored || []).map((row: any) => ({
+      lender_submission_id: row.id,
+      from_status: null,
+      to_status: row.status,
+      source: 'submission',
+      payload: { lenderStatus: row.lender_status, error: row.error },
+    })))
+
+    return {
+      id: submission.id,
+      leadId: submission.lead_id || undefined,
+      brokerId: submission.broker_id,
+      createdAt: submission.created_at,
+      lenders: (stored || []).map(toLenderSubmission),
+    }
+  }
+
+  /**
+   * Ask each lender for the status of the open applications, optionally only those of
+   * one submission. Lenders that cannot report status are left to their callbacks.
+   */
+  async pollStatuses(submissionId?: string): Promise<PollResult> {
+    let query = supabaseAdmin
+      .from('lender_submissions')
+      .select('*')
+      .in('status', OPEN_SUBMISSION_STATUSES)
+
+    if (submissionId) {
+      query = query.eq('submission_id', submissionId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch lender submissions: ${error.message}`)
+    }
+
+    const result: PollResult = { polled: 0, transitions: [], errors: [] }
+
+    for (const row of data || []) {
+      const adapter = this.registry.getAdapter(row.lender_id)
+      if (!row.external_application_id || !adapter || !supportsCapability(adapter, 'application_status')) continue
+
+      result.polled++
+      try {
+        const application = LenderApplicationSchema.parse(await adapter.getApplicationStatus!(row.external_application_id))
+        const transition = await this.applyStatus(row, application.status, application.conditions, 'poll', application)
+        if (transition) result.transitions.push(transition)
+      } catch (pollError) {
+        result.errors.push({
+          lenderSubmissionId: row.id,
+          lenderId: row.lender_id,
+          error: pollError instanceof Error ? pollError.message : String(pollError),
+        })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Record a status a lender pushed to us
+   */
+  async handleCallback(callback: LenderStatusCallback): Promise<SubmissionTransition | null> {
+    const { data: row, error } = await supabaseAdmin
+      .from('lender_submissions')
+      .select('*')
+      .eq('lender_id', callback.lenderId)
+      .eq('external_application_id', callback.applicationId)
+      .single()
+
+    if (error || !row) {
+      throw new Error(`Lender submission ${callback.lenderId}/${callback.applicationId} not found`)
+    }
+
+    return this.applyStatus(row, callback.status, callback.conditions, 'callback', callback)
+  }
+
+  /**
+   * Withdraw an open application from a lender, e.g. once another lender has committed
+   */
+  async withdraw(submissionId: string, lenderSubmissionId: string, reason?: string): Promise<SubmissionTransition | null> {
+    const { data: row, error } = await supabaseAdmin
+      .from('lender_submissions')
+      .select('*')
+      .eq('id', lenderSubmissionId)
+      .eq('submission_id', submissionId)
+      .single()
+
+    if (error || !row) {
+      throw new Error(`Lender submission ${lenderSubmissionId} not found`)
+    }
+    if (TERMINAL_SUBMISSION_STATUSES.includes(row.status)) {
+      throw new Error(`Lender submission ${lenderSubmissionId} is already ${row.status}`)
+    }
+
+    const adapter = this.registry.getAdapter(row.lender_id)
+    if (row.external_application_id && adapter && supportsCapability(adapter, 'application_cancellation')) {
+      await adapter.cancelApplication!(row.external_application_id, reason)
+    }
+
+    return this.applyStatus(row, 'cancelled', undefined, 'broker', { reason })
+  }
+
+  /**
+   * Submissions made by a broker with each lender's status, newest first
+   */
+  async getStatusBoard(brokerId: string, limit = 50): Promise<ApplicationSubmission[]> {
+    const { data, error } = await supabaseAdmin
+      .from('application_submissions')
+      .select('*, lender_submissions(*)')
+      .eq('broker_id', brokerId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch application submissions: ${error.message}`)
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      leadId: row.lead_id || undefined,
+      brokerId: row.broker_id,
+      createdAt: row.created_at,
+      lenders: (row.lender_submissions || []).map(toLenderSubmission),
+    }))
+  }
+
+  // Private helper methods
+
+  private resolveTargets(lenders: SubmissionRequest['lenders']): Array<{ adapter: LenderAdapter; rateId: string }> {
+    const targets: Array<{ adapter: LenderAdapter; rateId: string }> = []
+
+    for (const { lenderId, rateId } of lenders) {
+      // A lender selected twice still gets the file once
+      if (targets.some(target => target.adapter.id === lenderId)) continue
+
+      const adapter = this.registry.getAdapter(lenderId)
+      if (!adapter || !supportsCapability(adapter, 'application_submission')) {
+        throw new Error(`Lender ${lenderId} does not accept application submissions`)
+      }
+      targets.push({ adapter, rateId })
+    }
+
+    return targets
+  }
+
+  private async applyStatus(
+    row: any,
+    lenderStatus: LenderApplicationStatus,
+    conditions: string[] | undefined,
+    source: SubmissionEventSource,
+    payload: unknown
+  ): Promise<SubmissionTransition | null> {
+    const from: SubmissionStatus = row.status
+    const reported = mapLenderStatus(lenderStatus)
+    const to = nextSubmissionStatus(from, reported)
+    const now = new Date().toISOString()
+
+    const update: Record<string, unknown> = source === 'poll' ? { last_polled_at: now } : {}
+    if (to !== from) {
+      Object.assign(update, { status: to, lender_status: lenderStatus, updated_at: now })
+      if (conditions) update.conditions = conditions
+    } else if (conditions && reported === from && !TERMINAL_SUBMISSION_STATUSES.includes(from)) {
+      // Conditions are cleared while the status holds; a stale report must not restore them
+      Object.assign(update, { conditions, updated_at: now })
+    }
+    if (Object.keys(update).length === 0) return null
+
+    const { error } = await supabaseAdmin
+      .from('lender_submissions')
+      .update(update)
+      .eq('id', row.id)
+
+    if (error) {
+      throw new Error(`Failed to update lender submission: ${error.message}`)
+    }
+
+    if (to === from) return null
+
+    await this.recordEvents([{
+      lender_submission_id: row.id,
+      from_status: from,
+      to_status: to,
+      source,
+      payload,
+    }])
+
+    return { lenderSubmissionId: row.id, lenderId: row.lender_id, from, to, source }
+  }
+
+  private async recordEvents(events: Array<Record<string, unknown>>): Promise<void> {
+    if (events.length === 0) return
+
+    const { error } = await supabaseAdmin
+      .from('lender_submission_events')
+      .insert(events)
+
+    if (error) {
+      throw new Error(`Failed to record lender submission events: ${error.message}`)
+    }
+  }
+}
+
+function toLenderSubmission(row: any): LenderSubmission {
+  return {
+    id: row.id,
+    submissionId: row.submission_id,
+    lenderId: row.lender_id,
+    lenderName: row.lender_name,
+    rateId: row.rate_id,
+    externalApplicationId: row.external_application_id || undefined,
+    status: row.status,
+    lenderStatus: row.lender_status || undefined,
+    conditions: row.conditions || [],
+    error: row.error || undefined,
+    submittedAt: row.submitted_at,
+    updatedAt: row.updated_at,
+    lastPolledAt: row.last_polled_at || undefined,
+  }
+}
+
+// Export singleton instance
+export const submissionOrchestrator = new SubmissionOrchestrator()
@@ -0,0 +1,207 @@
+/**
+ * Lender Adapter Conformance Kit
+ * v1.3.0 - Validates a lender adapter against the LenderAdapter contract using a local mock server
+ */
+
+import { normalizeRateSheetRows } from '../../../rates/rate-sheet'
+import {
+  LenderAdapter,
+  LenderApplicationRequest,
+  LenderApplicationSchema,
+  LenderCapability,
+  LenderHealthSchema,
+  LenderRateSchema,
+  PreApprovalRequest,
+  PreApprovalSchema,
+  RateCriteria,
+  RateHistorySchema,
+  supportsCapability,
+  validateLenderAdapter,
+} from '../LenderAdapter'
+import { MockLenderRoute, MockLenderServer, REFERENCE_LENDER_RATES } from './MockLenderServer'
+
+export interface ConformanceCheckResult {
+  name: string
+  capability?: LenderCapability
+  passed: boolean
+  error?: string
+}
+
+export interface ConformanceReport {
+  adapterId: string
+  capabilities: LenderCapability[]
+  passed: boolean
+  results: ConformanceCheckResult[]
+}
+
+export interface ConformanceOptions {
+  // Build the adapter under test, pointed at the mock server
+  createAdapter(baseUrl: string): LenderAdapter
+  // Routes that speak the adapter's wire format; defaults to the reference lender API
+  routes?: MockLenderRoute[]
+  rateCriteria?: RateCriteria
+  application?: LenderApplicationRequest
+  preApproval?: PreApprovalRequest
+  // Rate to request history for when the adapter cannot fetch rates
+  rateId?: string
+}
+
+export const SAMPLE_RATE_CRITERIA: RateCriteria = {
+  loanAmount: 400000,
+  termYears: 30,
+  rateType: 'fixed',
+  creditScore: 740,
+  ltv: 80,
+}
+
+export const SAMPLE_APPLICATION: LenderApplicationRequest = {
+  rateId: REFERENCE_LENDER_RATES[0].id,
+  borrower: {
+    firstName: 'Jordan',
+    lastName: 'Sample',
+    email: 'jordan.sample@example.com',
+    phone: '+15555550100',
+    ssn: '000-00-0000',
+  },
+  property: {
+    address: '1 Test Street',
+    city: 'Springfield',
+    state: 'IL',
+    zipCode: '62701',
+    propertyType: 'single_family',
+    purchasePrice: 500000,
+  },
+  loan: { amount: 400000, downPayment: 100000, termYears: 30 },
+  financial: { income: 150000, employmentType: 'salaried', creditScore: 740, debts: 500 },
+}
+
+export const SAMPLE_PRE_APPROVAL: PreApprovalRequest = {
+  income: 150000,
+  debts: 500,
+  creditScore: 740,
+  downPayment: 100000,
+  propertyPrice: 500000,
+}
+
+/**
+ * Run the conformance checks for every capability the adapter declares. Checks that
+ * depend on an earlier result (status and cancellation need a submitted application)
+ * are skipped when the adapter cannot produce it.
+ */
+export async function runLenderConformance(options: ConformanceOptions): Promise<ConformanceReport> {
+  const server = new MockLenderServer(options.routes)
+  const baseUrl = await server.start()
+  const results: ConformanceCheckResult[] = []
+
+  const check = async (name: string, capability: LenderCapability | undefined, run: () => Promise<void>) => {
+    try {
+      await run()
+      results.push({ name, capability, passed: true })
+    } catch (error) {
+      results.push({ name, capability, passed: false, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  let adapter: LenderAdapter
+  try {
+    adapter = options.createAdapter(baseUrl)
+  } catch (error) {
+    await server.stop()
+    throw error
+  }
+  const criteria = options.rateCriteria || SAMPLE_RATE_CRITERIA
+  let rateId = options.rateId || SAMPLE_APPLICATION.rateId
+  let applicationId: string | undefined
+
+  try {
+    await check('declares a valid contract', undefined, async () => {
+      const problems = validateLenderAdapter(adapter)
+      assert(problems.length === 0, problems.join('; '))
+    })
+
+    await check('reports health', undefined, async () => {
+      const health = LenderHealthSchema.parse(await adapter.checkHealth())
+      assert(health.status === 'healthy', `Expected a healthy mock server, got ${health.status}`)
+    })
+
+    if (supportsCapability(adapter, 'rate_fetching')) {
+      await check('returns valid rates for the requested term', 'rate_fetching', async () => {
+        const rates = await adapter.getRates!(criteria)
+        assert(rates.length > 0, 'No rates returned')
+        rates.forEach(rate => LenderRateSchema.parse(rate))
+        assert(rates.every(rate => rate.term === criteria.termYears), `Rates returned for terms other than ${criteria.termYears}`)
+        rateId = rates[0].id
+      })
+
+      await check('rejects when the lender API fails', 'rate_fetching', async () => {
+        server.failNext(503)
+        const failed = await adapter.getRates!(criteria).then(() => false, () => true)
+        // An adapter that never called the server must not leave the failure for the next check
+        server.clearFailures()
+        assert(failed, 'A 503 from the lender was returned as a successful response')
+      })
+    }
+
+    if (supportsCapability(adapter, 'rate_sheet')) {
+      await check('publishes a rate sheet that normalizes without rejections', 'rate_sheet', async () => {
+        const sheet = await adapter.pullRateSheet!()
+        const { rows, rejected } = normalizeRateSheetRows(sheet.rates, { country: sheet.country })
+        assert(rows.length > 0, 'Rate sheet is empty')
+        assert(rejected.length === 0, rejected.map(rejection => `row ${rejection.row}: ${rejection.reason}`).join('; '))
+      })
+    }
+
+    if (supportsCapability(adapter, 'application_submission')) {
+      await check('submits an application', 'application_submission', async () => {
+        const application = LenderApplicationSchema.parse(
+          await adapter.submitApplication!({ ...(options.application || SAMPLE_APPLICATION), rateId })
+        )
+        applicationId = application.applicationId
+      })
+    }
+
+    if (supportsCapability(adapter, 'application_status') && applicationId) {
+      await check('reports the status of a submitted application', 'application_status', async () => {
+        const application = LenderApplicationSchema.parse(await adapter.getApplicationStatus!(applicationId!))
+        assert(application.applicationId === applicationId, `Status returned for ${application.applicationId}`)
+      })
+    }
+
+    if (supportsCapability(adapter, 'application_cancellation') && applicationId) {
+      await check('cancels a submitted application', 'application_cancellation', async () => {
+        await adapter.cancelApplication!(applicationId!, 'Conformance test')
+        if (supportsCapability(adapter, 'application_status')) {
+          const application = await adapter.getApplicationStatus!(applicationId!)
+          assert(application.status === 'cancelled', `Status after cancelling is ${application.status}`)
+        }
+      })
+    }
+
+    if (supportsCapability(adapter, 'pre_approval')) {
+      await check('issues a pre-approval', 'pre_approval', async () => {
+        PreApprovalSchema.parse(await adapter.getPreApproval!(options.preApproval || SAMPLE_PRE_APPROVAL))
+      })
+    }
+
+    if (supportsCapability(adapter, 'rate_history')) {
+      await check('returns rate history', 'rate_history', async () => {
+        const history = RateHistorySchema.parse(await adapter.getRateHistory!(rateId, 7))
+        assert(history.rateId === rateId, `History returned for ${history.rateId}`)
+        assert(history.history.length > 0, 'History is empty')
+      })
+    }
+  } finally {
+    await server.stop()
+  }
+
+  return {
+    adapterId: adapter.id,
+    capabilities: adapter.capabilities,
+    passed: results.every(result => result.passed),
+    results,
+  }
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message)
+}
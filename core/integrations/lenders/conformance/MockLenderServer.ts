@@ -0,0 +1,300 @@
+/**
+ * Mock Lender Server
+ * v1.3.0 - Local HTTP server for exercising lender adapters without a lender sandbox
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+
+export interface MockLenderRequest {
+  method: string
+  path: string
+  params: Record<string, string>
+  query: Record<string, string>
+  body: any
+}
+
+export interface MockLenderResponse {
+  status: number
+  body?: unknown
+}
+
+export interface MockLenderRoute {
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+  // Path with `:name` segments, e.g. /api/v1/applications/:id
+  path: string
+  handler(request: MockLenderRequest): MockLenderResponse
+}
+
+export class MockLenderServer {
+  private server: http.Server | null = null
+  private routes: MockLenderRoute[]
+  private failures: number[] = []
+  readonly requests: MockLenderRequest[] = []
+
+  constructor(routes: MockLenderRoute[] = createReferenceLenderRoutes()) {
+    this.routes = routes
+  }
+
+  /**
+   * Listen on a free local port and return the base URL
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res))
+    this.server = server
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()))
+    const { port } = server.address() as AddressInfo
+    return `http://127.0.0.1:${port}`
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server
+    if (!server) return
+    this.server = null
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  }
+
+  /**
+   * Answer the next `count` requests, whatever their route, with an error status
+   */
+  failNext(status = 503, count = 1): void {
+    for (let i = 0; i < count; i++) this.failures.push(status)
+  }
+
+  clearFailures(): void {
+    this.failures = []
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = ''
+    req.on('data', chunk => { raw += chunk })
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost')
+      const request: MockLenderRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        params: {},
+        query: {},
+        body: undefined,
+      }
+      url.searchParams.forEach((value, key) => { request.query[key] = value })
+
+      let response: MockLenderResponse
+      try {
+        request.body = raw ? JSON.parse(raw) : undefined
+        response = this.respond(request)
+      } catch (error) {
+        response = { status: 400, body: { error: error instanceof Error ? error.message : 'Bad request' } }
+      }
+      this.requests.push(request)
+
+      res.statusCode = response.status
+      if (response.body === undefined) {
+        res.end()
+      } else {
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(response.body))
+      }
+    })
+  }
+
+  private respond(request: MockLenderRequest): MockLenderResponse {
+    const failure = this.failures.shift()
+    if (failure !== undefined) {
+      return { status: failure, body: { error: 'Injected failure' } }
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue
+      const params = matchPath(route.path, request.path)
+      if (params) {
+        request.params = params
+        return route.handler(request)
+      }
+    }
+
+    return { status: 404, body: { error: `No route for ${request.method} ${request.path}` } }
+  }
+}
+
+// Rates published by the reference lender API
+export const REFERENCE_LENDER_RATES = [
+  { id: 'ref-30-fixed', product: '30-year fixed', rate: 6.125, apr: 6.211, term: 30, type: 'fixed' as const },
+  { id: 'ref-15-fixed', product: '15-year fixed', rate: 5.5, apr: 5.618, term: 15, type: 'fixed' as const },
+  { id: 'ref-30-variable', product: '5/1 ARM', rate: 5.875, apr: 6.402, term: 30, type: 'variable' as const },
+]
+
+/**
+ * Routes of the reference lender REST API (the API DummyBank speaks), backed by an
+ * in-memory application store
+ */
+export function createReferenceLenderRoutes(lender = 'Reference Bank'): MockLenderRoute[] {
+  const applications = new Map<string, Record<string, any>>()
+  const contactInfo = { phone: '1-800-555-0100', email: 'loans@reference.example', website: 'https://reference.example' }
+  const rates = REFERENCE_LENDER_RATES.map(rate => ({
+    ...rate,
+    lender,
+    minAmount: 50000,
+    maxAmount: 2000000,
+    features: ['Rate lock'],
+    eligibility: { minCreditScore: 620, maxLTV: 97, minIncome: 30000, employmentTypes: ['salaried', 'self_employed'] },
+    contactInfo,
+    lastUpdated: '2024-01-15T10:30:00.000Z',
+  }))
+
+  const missing = (kind: string, id: string): MockLenderResponse => ({ status: 404, body: { error: `${kind} ${id} not found` } })
+
+  return [
+    {
+      method: 'GET',
+      path: '/api/v1/health',
+      handler: () => ({ status: 200, body: { status: 'healthy', version: '1.3.0', uptime: 0.999 } }),
+    },
+    {
+      method: 'GET',
+      path: '/api/v1/rates',
+      handler: ({ query }) => ({
+        status: 200,
+        body: {
+          rates: rates.filter(rate =>
+            (!query.term_years || rate.term === Number(query.term_years)) &&
+            (!query.rate_type || rate.type === query.rate_type)
+          ),
+        },
+      }),
+    },
+    {
+      method: 'GET',
+      path: '/api/v1/rates/:id',
+      handler: ({ params }) => {
+        const rate = rates.find(item => item.id === params.id)
+        return rate ? { status: 200, body: rate } : missing('Rate', params.id)
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/v1/rates/:id/history',
+      handler: ({ params, query }) => {
+        const rate = rates.find(item => item.id === params.id)
+        if (!rate) return missing('Rate', params.id)
+
+        const days = Math.min(Number(query.days) || 30, 90)
+        const history = Array.from({ length: days }, (_, index) => ({
+          date: new Date(Date.UTC(2024, 0, 15 - index)).toISOString().slice(0, 10),
+          rate: rate.rate,
+          apr: rate.apr,
+        }))
+        return { status: 200, body: { rateId: rate.id, history } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/v1/applications',
+      handler: ({ body }) => {
+        const rate = rates.find(item => item.id === body?.rate_id)
+        if (!rate) return { status: 422, body: { error: 'Unknown rate_id' } }
+
+        const monthlyRate = rate.rate / 100 / 12
+        const payments = body.loan.termYears * 12
+        const application = {
+          applicationId: `app-${applications.size + 1}`,
+          status: 'pending',
+          rate: rate.rate,
+          amount: body.loan.amount,
+          term: body.loan.termYears,
+          monthlyPayment: Math.round(body.loan.amount * monthlyRate / (1 - Math.pow(1 + monthlyRate, -payments)) * 100) / 100,
+          nextSteps: ['Upload income documents'],
+          documents: ['pay_stub', 'bank_statement'],
+          estimatedClosing: '2024-03-01',
+        }
+        applications.set(application.applicationId, application)
+        return { status: 201, body: application }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/v1/applications/:id',
+      handler: ({ params }) => {
+        const application = applications.get(params.id)
+        return application ? { status: 200, body: application } : missing('Application', params.id)
+      },
+    },
+    {
+      method: 'PATCH',
+      path: '/api/v1/applications/:id',
+      handler: ({ params, body }) => {
+        const application = applications.get(params.id)
+        if (!application) return missing('Application', params.id)
+        if (body?.loan?.amount) application.amount = body.loan.amount
+        return { status: 200, body: application }
+      },
+    },
+    {
+      method: 'DELETE',
+      path: '/api/v1/applications/:id',
+      handler: ({ params }) => {
+        const application = applications.get(params.id)
+        if (!application) return missing('Application', params.id)
+        application.status = 'cancelled'
+        return { status: 204 }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/v1/pre-approval',
+      handler: ({ body }) => {
+        if (!body?.income || !body?.propertyPrice) {
+          return { status: 422, body: { error: 'income and propertyPrice are required' } }
+        }
+        const maxAmount = Math.min(body.propertyPrice - body.downPayment, body.income * 4.5)
+        return {
+          status: 200,
+          body: {
+            preApprovalId: `pa-${Date.now()}`,
+            maxAmount,
+            rate: rates[0].rate,
+            monthlyPayment: Math.round(maxAmount * 0.0061 * 100) / 100,
+            expiresAt: '2024-04-15T00:00:00.000Z',
+            conditions: ['Verification of employment'],
+          },
+        }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/v1/lender/info',
+      handler: () => ({
+        status: 200,
+        body: {
+          name: lender,
+          description: 'Reference lender for adapter conformance testing',
+          logo: '',
+          website: contactInfo.website,
+          phone: contactInfo.phone,
+          email: contactInfo.email,
+          address: '1 Test Street',
+          licenses: ['NMLS 000000'],
+          ratings: { overall: 4, customerService: 4, rates: 4, process: 4 },
+          features: ['Rate lock'],
+        },
+      }),
+    },
+  ]
+}
+
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = path.split('/').filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i])
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null
+    }
+  }
+  return params
+}
@@ -0,0 +1,134 @@
+/**
+ * Filogix Serializer
+ * v1.3.0 - Filogix Expert-style deal export and import for Canadian lenders
+ */
+
+import {
+  fromCode,
+  LosApplication,
+  LosApplicationSources,
+  LosExportResult,
+  LosFieldRule,
+  LosFieldSources,
+  LosFormatDefinition,
+  LosImportResult,
+  buildLosApplication,
+  monthsToYears,
+  parseLosApplication,
+  serializeLosApplication,
+  toInteger,
+  toNumber,
+  yearsToMonths,
+} from './LosApplication'
+import { createElement, XmlElement } from './XmlDocument'
+
+export const FILOGIX_NAMESPACE = 'http://www.filogix.com/Schema/FCX/1'
+export const FILOGIX_SCHEMA_VERSION = '1.0'
+
+const MORTGAGE = 'Mortgage'
+const PROPERTY = 'Property'
+const BORROWER = 'Borrower'
+const EMPLOYMENT = `${BORROWER}/EmploymentHistory`
+
+const DEAL_PURPOSES: Record<LosApplication['loan']['purpose'], string> = {
+  purchase: 'Purchase',
+  refinance: 'Refinance',
+}
+
+const INTEREST_TYPES: Record<NonNullable<LosApplication['loan']['rateType']>, string> = {
+  fixed: 'Fixed',
+  variable: 'Variable',
+  arm: 'Adjustable',
+}
+
+const EMPLOYMENT_TYPES: Record<NonNullable<LosApplication['borrower']['employmentType']>, string> = {
+  salaried: 'FullTime',
+  'self-employed': 'SelfEmployed',
+  contract: 'Contract',
+  unemployed: 'Unemployed',
+}
+
+const PROPERTY_TYPES: Record<string, string> = {
+  single_family: 'Detached',
+  detached: 'Detached',
+  semi_detached: 'SemiDetached',
+  townhouse: 'Townhouse',
+  condo: 'Condo',
+  multi_family: 'MultiUnit',
+}
+
+const FILOGIX_RULES: LosFieldRule[] = [
+  { field: 'source.leadId', target: 'sourceApplicationId' },
+  { field: 'loan.purpose', target: 'dealPurposeDd', required: true, toXml: (purpose: LosApplication['loan']['purpose']) => DEAL_PURPOSES[purpose], fromXml: fromCode(DEAL_PURPOSES) },
+
+  { field: 'loan.amount', target: `${MORTGAGE}/requestedLoanAmount`, required: true, fromXml: toNumber },
+  { field: 'loan.interestRate', target: `${MORTGAGE}/netInterestRate`, fromXml: toNumber },
+  { field: 'loan.rateType', target: `${MORTGAGE}/interestTypeDd`, toXml: (rateType: LosApplication['loan']['rateType'] & string) => INTEREST_TYPES[rateType], fromXml: fromCode(INTEREST_TYPES) },
+  { field: 'loan.termYears', target: `${MORTGAGE}/actualPaymentTerm`, toXml: yearsToMonths, fromXml: monthsToYears },
+  { field: 'loan.amortizationYears', target: `${MORTGAGE}/amortizationTerm`, toXml: yearsToMonths, fromXml: monthsToYears },
+  { field: 'loan.downPayment', target: 'DownPaymentSource/amount', required: true, fromXml: toNumber },
+  { target: 'DownPaymentSource/downPaymentSourceTypeDd', constant: 'PersonalCash' },
+
+  { field: 'property.city', target: `${PROPERTY}/propertyCity` },
+  { field: 'property.region', target: `${PROPERTY}/provinceDd` },
+  { field: 'property.value', target: `${PROPERTY}/purchasePrice`, required: true, fromXml: toNumber },
+  { field: 'property.propertyType', target: `${PROPERTY}/propertyTypeDd`, toXml: (type: string) => PROPERTY_TYPES[type] || 'Other', fromXml: (text: string) => Object.keys(PROPERTY_TYPES).find(key => PROPERTY_TYPES[key] === text) || text.toLowerCase() },
+  { target: `${PROPERTY}/occupancyTypeDd`, constant: 'OwnerOccupied' },
+
+  { target: `${BORROWER}/primaryBorrowerFlag`, constant: 'Y' },
+  { field: 'borrower.firstName', target: `${BORROWER}/borrowerFirstName`, required: true },
+  { field: 'borrower.lastName', target: `${BORROWER}/borrowerLastName`, required: true },
+  { field: 'borrower.email', target: `${BORROWER}/borrowerEmailAddress` },
+  { field: 'borrower.phone', target: `${BORROWER}/borrowerHomePhoneNumber` },
+  { field: 'borrower.creditScore', target: `${BORROWER}/creditScore`, fromXml: toInteger },
+  { field: 'borrower.employmentType', target: `${EMPLOYMENT}/employmentHistoryTypeDd`, toXml: (type: LosApplication['borrower']['employmentType'] & string) => EMPLOYMENT_TYPES[type], fromXml: fromCode(EMPLOYMENT_TYPES) },
+  { field: 'borrower.employmentType', target: `${EMPLOYMENT}/employmentHistoryStatusDd`, exportOnly: true, toXml: (type: string) => type === 'unemployed' ? 'Previous' : 'Current' },
+  { field: 'borrower.annualIncome', target: `${EMPLOYMENT}/Income/incomeAmount`, fromXml: toNumber },
+  { target: `${EMPLOYMENT}/Income/incomePeriodDd`, constant: 'Annual', when: 'borrower.annualIncome' },
+  { target: `${EMPLOYMENT}/Income/incomeTypeDd`, constant: 'Salary', when: 'borrower.annualIncome' },
+  { field: 'borrower.monthlyDebts', target: `${BORROWER}/Liability/liabilityMonthlyPayment`, fromXml: toNumber },
+  { target: `${BORROWER}/Liability/liabilityTypeDd`, constant: 'Other', when: 'borrower.monthlyDebts' },
+]
+
+export const FILOGIX_FORMAT: LosFormatDefinition = {
+  format: 'filogix',
+  country: 'CA',
+  contentType: 'application/xml',
+  createRoot: () => createElement('Deal', {
+    xmlns: FILOGIX_NAMESPACE,
+    schemaVersion: FILOGIX_SCHEMA_VERSION,
+  }),
+  checkRoot: (root: XmlElement) => {
+    const errors: string[] = []
+    if (root.name !== 'Deal') {
+      errors.push(`Expected a Filogix Deal document, found <${root.name}>`)
+    }
+    if (root.attributes.xmlns !== FILOGIX_NAMESPACE) {
+      errors.push(`Expected the Filogix namespace ${FILOGIX_NAMESPACE}`)
+    }
+    if (root.attributes.schemaVersion && root.attributes.schemaVersion.split('.')[0] !== FILOGIX_SCHEMA_VERSION.split('.')[0]) {
+      errors.push(`Unsupported Filogix schema version ${root.attributes.schemaVersion}`)
+    }
+    return errors
+  },
+  rules: FILOGIX_RULES,
+}
+
+/**
+ * Export platform data as a Filogix-style deal
+ */
+export function exportFilogix(input: LosApplicationSources): LosExportResult {
+  const { application, sources } = buildLosApplication(input, 'CA')
+  return serializeFilogix(application, sources)
+}
+
+export function serializeFilogix(application: LosApplication, sources?: LosFieldSources): LosExportResult {
+  return serializeLosApplication(FILOGIX_FORMAT, application, sources)
+}
+
+/**
+ * Import a Filogix-style deal
+ */
+export function importFilogix(xml: string): LosImportResult {
+  return parseLosApplication(FILOGIX_FORMAT, xml)
+}
@@ -0,0 +1,423 @@
+/**
+ * LOS Application
+ * v1.3.0 - Normalized loan application exchanged with loan origination systems, with field-level mapping
+ */
+
+import { z } from 'zod'
+import type { LeadQualificationInput } from '../../lead-qualification'
+import type { ScenarioInput } from '../../scenario-types'
+import type { CRMLead } from '../crm/CRMBridge'
+import { parseXml, renderXml, setText, textAt, XmlElement } from './XmlDocument'
+
+export const LosFormatSchema = z.enum(['mismo', 'filogix'])
+
+export type LosFormat = z.infer<typeof LosFormatSchema>
+
+// One borrower's application as our platform knows it, independent of any LOS format
+export const LosApplicationSchema = z.object({
+  country: z.enum(['CA', 'US']),
+  borrower: z.object({
+    firstName: z.string().min(1),
+    lastName: z.string().optional(),
+    email: z.string().email().optional(),
+    phone: z.string().optional(),
+    creditScore: z.number().int().min(300).max(900).optional(),
+    employmentType: z.enum(['salaried', 'self-employed', 'contract', 'unemployed']).optional(),
+    annualIncome: z.number().min(0).optional(),
+    monthlyDebts: z.number().min(0).optional(),
+  }),
+  property: z.object({
+    value: z.number().positive(),
+    city: z.string().optional(),
+    // State or province code
+    region: z.string().optional(),
+    propertyType: z.string().optional(),
+  }),
+  loan: z.object({
+    purpose: z.enum(['purchase', 'refinance']),
+    amount: z.number().positive(),
+    downPayment: z.number().min(0),
+    interestRate: z.number().positive().optional(),
+    termYears: z.number().positive().optional(),
+    amortizationYears: z.number().positive().optional(),
+    rateType: z.enum(['fixed', 'variable', 'arm']).optional(),
+    program: z.enum(['conventional', 'fha']).optional(),
+  }),
+  source: z.object({
+    leadId: z.string().optional(),
+    scenarioId: z.string().optional(),
+    leadScore: z.number().optional(),
+    timeline: z.string().optional(),
+  }).optional(),
+})
+
+export type LosApplication = z.infer<typeof LosApplicationSchema>
+
+// How a field crossed between our application and the document:
+// mapped - carried as is; converted - carried through a reversible unit or code change;
+// defaulted - the format requires it and a default was written; missing - the format
+// requires it and there is no value; omitted - the format has no place for it
+export type LosMappingStatus = 'mapped' | 'converted' | 'defaulted' | 'missing' | 'omitted'
+
+export interface LosFieldMapping {
+  field: string
+  target?: string
+  // Platform input the value came from, e.g. scenario.parameters.interestRate
+  source?: string
+  status: LosMappingStatus
+  value?: string | number | boolean
+}
+
+export interface LosMappingReport {
+  format: LosFormat
+  direction: 'export' | 'import'
+  fields: LosFieldMapping[]
+  summary: Record<LosMappingStatus, number>
+}
+
+export interface LosExportResult {
+  format: LosFormat
+  content: string
+  report: LosMappingReport
+  errors: string[]
+}
+
+export interface LosImportResult {
+  format: LosFormat
+  application?: LosApplication
+  report: LosMappingReport
+  errors: string[]
+}
+
+// Where each application field was taken from, keyed by field path
+export type LosFieldSources = Record<string, string>
+
+/**
+ * A field of the application and the element that carries it. Rules without a field
+ * write fixed values the format requires.
+ */
+export interface LosFieldRule {
+  field?: string
+  target: string
+  // Fixed value, written when `when` (a field path) has a value or always without it
+  constant?: string
+  when?: string
+  required?: boolean
+  default?: string
+  // Written on export only, derived from a field another rule carries back
+  exportOnly?: boolean
+  toXml?: (value: any) => string | undefined
+  fromXml?: (text: string) => unknown
+}
+
+export interface LosFormatDefinition {
+  format: LosFormat
+  country: 'CA' | 'US'
+  contentType: string
+  createRoot(): XmlElement
+  // Problems with the document's root, namespace or version
+  checkRoot(root: XmlElement): string[]
+  rules: LosFieldRule[]
+}
+
+export interface LosApplicationSources {
+  lead?: LeadQualificationInput
+  crmLead?: CRMLead
+  scenario?: ScenarioInput
+}
+
+/**
+ * Combine what the platform holds about a borrower into one application. Scenario
+ * figures win over lead figures for the property and loan; CRM lead data wins over the
+ * qualification form for the borrower.
+ */
+export function buildLosApplication(
+  input: LosApplicationSources,
+  defaultCountry: 'CA' | 'US' = 'US'
+): { application: LosApplication; sources: LosFieldSources } {
+  const { lead, crmLead, scenario } = input
+  if (!lead && !crmLead && !scenario) {
+    throw new Error('A lead, CRM lead or scenario is required')
+  }
+
+  const sources: LosFieldSources = {}
+  const pick = <T>(field: string, ...candidates: Array<[string, T | undefined]>): T | undefined => {
+    for (const [source, value] of candidates) {
+      if (value !== undefined && value !== null && value !== '') {
+        sources[field] = source
+        return value
+      }
+    }
+    return undefined
+  }
+
+  const parameters = scenario?.parameters
+  const crmData = crmLead?.leadData
+  const name = pick<string>('borrower.name', ['crmLead.name', crmLead?.name], ['lead.name', lead?.name]) || ''
+  const { firstName, lastName } = splitName(name)
+  if (sources['borrower.name']) {
+    sources['borrower.firstName'] = sources['borrower.name']
+    if (lastName) sources['borrower.lastName'] = sources['borrower.name']
+    delete sources['borrower.name']
+  }
+
+  const location = pick<string>('property.location', ['scenario.parameters.location', parameters?.location], ['crmLead.leadData.location', crmData?.location])
+  const { city, region } = splitLocation(location)
+  if (sources['property.location']) {
+    if (city) sources['property.city'] = sources['property.location']
+    if (region) sources['property.region'] = sources['property.location']
+    delete sources['property.location']
+  }
+
+  const value = pick<number>('property.value',
+    ['scenario.parameters.propertyPrice', parameters?.propertyPrice],
+    ['crmLead.leadData.propertyPrice', crmData?.propertyPrice],
+    ['lead.propertyValue', lead?.propertyValue]
+  ) || 0
+  const downPayment = pick<number>('loan.downPayment',
+    ['scenario.parameters.downPayment', parameters?.downPayment],
+    ['crmLead.leadData.downPayment', crmData?.downPayment],
+    ['lead.downPayment', lead?.downPayment]
+  ) || 0
+  if (sources['property.value']) sources['loan.amount'] = `${sources['property.value']} - ${sources['loan.downPayment'] || 'down payment'}`
+
+  const employmentType = pick<string>('borrower.employmentType', ['crmLead.leadData.employmentType', crmData?.employmentType], ['lead.employmentType', lead?.employmentType])
+
+  const application: LosApplication = {
+    country: pick('country', ['scenario.parameters.country', parameters?.country]) || defaultCountry,
+    borrower: {
+      firstName,
+      lastName,
+      email: pick('borrower.email', ['crmLead.email', crmLead?.email], ['lead.email', lead?.email]),
+      phone: pick('borrower.phone', ['crmLead.phone', crmLead?.phone], ['lead.phone', lead?.phone]),
+      creditScore: pick('borrower.creditScore',
+        ['scenario.parameters.creditScore', parameters?.creditScore],
+        ['crmLead.leadData.creditScore', crmData?.creditScore],
+        ['lead.creditScore', lead?.creditScore]
+      ),
+      employmentType: normalizeEmploymentType(employmentType),
+      annualIncome: pick('borrower.annualIncome', ['crmLead.leadData.income', crmData?.income], ['lead.income', lead?.income]),
+      monthlyDebts: pick('borrower.monthlyDebts', ['crmLead.leadData.debts', crmData?.debts]),
+    },
+    property: {
+      value,
+      city,
+      region,
+      propertyType: pick('property.propertyType', ['crmLead.leadData.propertyType', crmData?.propertyType]),
+    },
+    loan: {
+      purpose: 'purchase',
+      amount: Math.max(value - downPayment, 0),
+      downPayment,
+      interestRate: pick('loan.interestRate', ['scenario.parameters.interestRate', parameters?.interestRate]),
+      termYears: pick('loan.termYears', ['scenario.parameters.termYears', parameters?.termYears]),
+      amortizationYears: pick('loan.amortizationYears', ['scenario.parameters.amortizationYears', parameters?.amortizationYears]),
+      rateType: pick('loan.rateType', ['scenario.parameters.rateType', parameters?.rateType]),
+      program: pick('loan.program', ['scenario.parameters.loanProgram', parameters?.loanProgram]),
+    },
+    source: {
+      leadId: pick('source.leadId', ['crmLead.id', crmLead?.id]),
+      scenarioId: pick('source.scenarioId', ['scenario.id', scenario?.id]),
+      leadScore: pick('source.leadScore', ['crmLead.leadScore', crmLead?.leadScore]),
+      timeline: pick('source.timeline', ['crmLead.leadData.timeline', crmData?.timeline]),
+    },
+  }
+
+  return { application: stripUndefined(application), sources }
+}
+
+/**
+ * Write an application as a document in the format, reporting how each field was
+ * carried. Required fields without a value are listed in `errors`.
+ */
+export function serializeLosApplication(
+  definition: LosFormatDefinition,
+  application: LosApplication,
+  sources: LosFieldSources = {}
+): LosExportResult {
+  const errors: string[] = []
+  const parsed = LosApplicationSchema.safeParse(application)
+  if (!parsed.success) {
+    return {
+      format: definition.format,
+      content: '',
+      report: buildReport(definition.format, 'export', []),
+      errors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+    }
+  }
+
+  const root = definition.createRoot()
+  const fields: LosFieldMapping[] = []
+  const carried = new Set<string>()
+
+  for (const rule of definition.rules) {
+    if (!rule.field) {
+      if (rule.constant !== undefined && (!rule.when || getPath(parsed.data, rule.when) !== undefined)) {
+        setText(root, rule.target, rule.constant)
+      }
+      continue
+    }
+
+    carried.add(rule.field)
+    const value = getPath(parsed.data, rule.field)
+    const text = value === undefined ? undefined : rule.toXml ? rule.toXml(value) : String(value)
+
+    if (text !== undefined) {
+      setText(root, rule.target, text)
+      if (!rule.exportOnly) {
+        fields.push({ field: rule.field, target: rule.target, source: sources[rule.field], status: rule.toXml ? 'converted' : 'mapped', value })
+      }
+    } else if (rule.default !== undefined) {
+      setText(root, rule.target, rule.default)
+      fields.push({ field: rule.field, target: rule.target, status: 'defaulted', value: rule.default })
+    } else if (rule.required) {
+      fields.push({ field: rule.field, target: rule.target, status: 'missing' })
+      errors.push(`${rule.field} is required for ${definition.format} (${rule.target})`)
+    }
+  }
+
+  for (const [field, value] of flatten(parsed.data)) {
+    if (!carried.has(field) && field !== 'country') {
+      fields.push({ field, source: sources[field], status: 'omitted', value })
+    }
+  }
+
+  return {
+    format: definition.format,
+    content: renderXml(root),
+    report: buildReport(definition.format, 'export', fields),
+    errors,
+  }
+}
+
+/**
+ * Read a document in the format back into an application. The document must be
+ * well-formed, have the format's root and version, and carry every required field;
+ * the result is then validated against the application schema.
+ */
+export function parseLosApplication(definition: LosFormatDefinition, content: string): LosImportResult {
+  let root: XmlElement
+  try {
+    root = parseXml(content)
+  } catch (error) {
+    return {
+      format: definition.format,
+      report: buildReport(definition.format, 'import', []),
+      errors: [`Malformed XML: ${error instanceof Error ? error.message : String(error)}`],
+    }
+  }
+
+  const errors = definition.checkRoot(root)
+  const fields: LosFieldMapping[] = []
+  const application: Record<string, any> = { country: definition.country }
+
+  for (const rule of definition.rules) {
+    if (!rule.field || rule.exportOnly) continue
+
+    const text = textAt(root, rule.target)
+    if (text === undefined) {
+      if (rule.required) {
+        fields.push({ field: rule.field, target: rule.target, status: 'missing' })
+        errors.push(`${rule.target} is required`)
+      }
+      continue
+    }
+
+    const value = rule.fromXml ? rule.fromXml(text) : text
+    if (!isFieldValue(value) || (typeof value === 'number' && isNaN(value))) {
+      errors.push(`${rule.target} has an invalid value: ${text}`)
+      continue
+    }
+    setPath(application, rule.field, value)
+    fields.push({ field: rule.field, target: rule.target, status: rule.fromXml ? 'converted' : 'mapped', value })
+  }
+
+  if (errors.length === 0) {
+    const parsed = LosApplicationSchema.safeParse(application)
+    if (parsed.success) {
+      return { format: definition.format, application: parsed.data, report: buildReport(definition.format, 'import', fields), errors }
+    }
+    errors.push(...parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`))
+  }
+
+  return { format: definition.format, report: buildReport(definition.format, 'import', fields), errors }
+}
+
+// Shared value conversions for format rules
+export const toNumber = (text: string): number => Number(text)
+export const toInteger = (text: string): number => parseInt(text, 10)
+export const yearsToMonths = (years: number): string => String(Math.round(years * 12))
+export const monthsToYears = (text: string): number => Math.round(Number(text) / 12 * 100) / 100
+export const annualToMonthly = (annual: number): string => (Math.round(annual / 12 * 100) / 100).toFixed(2)
+// Incomes are whole dollars, so rounding undoes the cents lost dividing by 12
+export const monthlyToAnnual = (text: string): number => Math.round(Number(text) * 12)
+
+/**
+ * Reverse a code table for reading codes back
+ */
+export function fromCode<T extends string>(codes: Record<T, string>): (text: string) => T | undefined {
+  return (text: string) => (Object.keys(codes) as T[]).find(key => codes[key] === text)
+}
+
+function buildReport(format: LosFormat, direction: 'export' | 'import', fields: LosFieldMapping[]): LosMappingReport {
+  const summary: Record<LosMappingStatus, number> = { mapped: 0, converted: 0, defaulted: 0, missing: 0, omitted: 0 }
+  fields.forEach(field => { summary[field.status]++ })
+  return { format, direction, fields, summary }
+}
+
+function splitName(name: string): { firstName: string; lastName?: string } {
+  const parts = name.trim().split(/\s+/).filter(Boolean)
+  if (parts.length <= 1) return { firstName: parts[0] || '' }
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] }
+}
+
+// "Toronto, ON" or "Austin, TX"; anything else is taken as the city
+function splitLocation(location?: string): { city?: string; region?: string } {
+  if (!location) return {}
+  const match = /^(.+?),\s*([A-Za-z]{2})$/.exec(location.trim())
+  return match ? { city: match[1], region: match[2].toUpperCase() } : { city: location.trim() }
+}
+
+function normalizeEmploymentType(value?: string): LosApplication['borrower']['employmentType'] {
+  if (!value) return undefined
+  const normalized = value.toLowerCase().replace(/[_\s]+/g, '-')
+  if (normalized === 'self-employed' || normalized === 'contract' || normalized === 'unemployed') return normalized
+  return 'salaried'
+}
+
+function getPath(object: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), object)
+}
+
+// Values a mapping report can carry; converters return nothing else for valid input
+function isFieldValue(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+}
+
+function setPath(object: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.')
+  let current = object
+  keys.slice(0, -1).forEach(key => {
+    current[key] = current[key] || {}
+    current = current[key]
+  })
+  current[keys[keys.length - 1]] = value
+}
+
+function flatten(object: Record<string, any>, prefix = ''): Array<[string, any]> {
+  const entries: Array<[string, any]> = []
+  for (const key of Object.keys(object)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    const value = object[key]
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      entries.push(...flatten(value, path))
+    } else if (value !== undefined) {
+      entries.push([path, value])
+    }
+  }
+  return entries
+}
+
+function stripUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
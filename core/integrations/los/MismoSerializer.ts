@@ -0,0 +1,142 @@
+/**
+ * MISMO Serializer
+ * v1.3.0 - MISMO 3.4 residential loan application export and import for US lenders
+ */
+
+import {
+  annualToMonthly,
+  fromCode,
+  LosApplication,
+  LosApplicationSources,
+  LosExportResult,
+  LosFieldRule,
+  LosFieldSources,
+  LosFormatDefinition,
+  LosImportResult,
+  buildLosApplication,
+  monthlyToAnnual,
+  monthsToYears,
+  parseLosApplication,
+  serializeLosApplication,
+  toInteger,
+  toNumber,
+  yearsToMonths,
+} from './LosApplication'
+import { createElement, textAt, XmlElement } from './XmlDocument'
+
+export const MISMO_NAMESPACE = 'http://www.mismo.org/residential/2009/schemas'
+export const MISMO_VERSION = '3.4.0'
+
+const DEAL = 'DEAL_SETS/DEAL_SET/DEALS/DEAL'
+const PROPERTY = `${DEAL}/COLLATERALS/COLLATERAL/SUBJECT_PROPERTY`
+const LOAN = `${DEAL}/LOANS/LOAN`
+const PARTY = `${DEAL}/PARTIES/PARTY`
+const INDIVIDUAL = `${PARTY}/INDIVIDUAL`
+const BORROWER = `${PARTY}/ROLES/ROLE/BORROWER`
+const EMPLOYMENT = `${BORROWER}/EMPLOYERS/EMPLOYER/EMPLOYMENT`
+
+const AMORTIZATION_TYPES: Record<NonNullable<LosApplication['loan']['rateType']>, string> = {
+  fixed: 'Fixed',
+  variable: 'AdjustableRate',
+  arm: 'AdjustableRate',
+}
+
+const MORTGAGE_TYPES: Record<NonNullable<LosApplication['loan']['program']>, string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+}
+
+const LOAN_PURPOSE_TYPES: Record<LosApplication['loan']['purpose'], string> = {
+  purchase: 'Purchase',
+  refinance: 'Refinance',
+}
+
+// MISMO has no employment category, so the position description carries ours and the
+// self-employed indicator is derived from it
+const EMPLOYMENT_DESCRIPTIONS: Record<NonNullable<LosApplication['borrower']['employmentType']>, string> = {
+  salaried: 'Salaried',
+  'self-employed': 'Self-Employed',
+  contract: 'Contract',
+  unemployed: 'Unemployed',
+}
+
+const MISMO_RULES: LosFieldRule[] = [
+  { target: 'ABOUT_VERSIONS/ABOUT_VERSION/DataVersionIdentifier', constant: MISMO_VERSION },
+  { field: 'source.leadId', target: `${LOAN}/LOAN_IDENTIFIERS/LOAN_IDENTIFIER/LoanIdentifier` },
+  { target: `${LOAN}/LOAN_IDENTIFIERS/LOAN_IDENTIFIER/LoanIdentifierType`, constant: 'Other', when: 'source.leadId' },
+  { target: `${LOAN}/LOAN_IDENTIFIERS/LOAN_IDENTIFIER/LoanIdentifierTypeOtherDescription`, constant: 'LeadIdentifier', when: 'source.leadId' },
+
+  { field: 'property.city', target: `${PROPERTY}/ADDRESS/CityName` },
+  { field: 'property.region', target: `${PROPERTY}/ADDRESS/StateCode` },
+  { field: 'property.value', target: `${PROPERTY}/PROPERTY_DETAIL/PropertyEstimatedValueAmount`, required: true, fromXml: toNumber },
+  { target: `${PROPERTY}/PROPERTY_DETAIL/PropertyUsageType`, constant: 'PrimaryResidence' },
+
+  { field: 'loan.amount', target: `${LOAN}/TERMS_OF_LOAN/BaseLoanAmount`, required: true, fromXml: toNumber },
+  { field: 'loan.purpose', target: `${LOAN}/TERMS_OF_LOAN/LoanPurposeType`, required: true, toXml: (purpose: LosApplication['loan']['purpose']) => LOAN_PURPOSE_TYPES[purpose], fromXml: fromCode(LOAN_PURPOSE_TYPES) },
+  { field: 'loan.program', target: `${LOAN}/TERMS_OF_LOAN/MortgageType`, default: 'Conventional', toXml: (program: LosApplication['loan']['program'] & string) => MORTGAGE_TYPES[program], fromXml: fromCode(MORTGAGE_TYPES) },
+  { field: 'loan.interestRate', target: `${LOAN}/TERMS_OF_LOAN/NoteRatePercent`, fromXml: toNumber },
+  { field: 'loan.downPayment', target: `${LOAN}/DOWN_PAYMENTS/DOWN_PAYMENT/DownPaymentAmount`, required: true, fromXml: toNumber },
+  { field: 'loan.rateType', target: `${LOAN}/AMORTIZATION/AMORTIZATION_RULE/AmortizationType`, toXml: (rateType: LosApplication['loan']['rateType'] & string) => AMORTIZATION_TYPES[rateType], fromXml: (text: string) => text === 'Fixed' ? 'fixed' : text === 'AdjustableRate' ? 'arm' : undefined },
+  { field: 'loan.amortizationYears', target: `${LOAN}/AMORTIZATION/AMORTIZATION_RULE/LoanAmortizationPeriodCount`, toXml: yearsToMonths, fromXml: monthsToYears },
+  { target: `${LOAN}/AMORTIZATION/AMORTIZATION_RULE/LoanAmortizationPeriodType`, constant: 'Month', when: 'loan.amortizationYears' },
+  { field: 'loan.termYears', target: `${LOAN}/MATURITY/MATURITY_RULE/LoanMaturityPeriodCount`, toXml: yearsToMonths, fromXml: monthsToYears },
+  { target: `${LOAN}/MATURITY/MATURITY_RULE/LoanMaturityPeriodType`, constant: 'Month', when: 'loan.termYears' },
+  { field: 'borrower.monthlyDebts', target: `${DEAL}/LIABILITIES/LIABILITY/LIABILITY_DETAIL/LiabilityMonthlyPaymentAmount`, fromXml: toNumber },
+  { target: `${DEAL}/LIABILITIES/LIABILITY/LIABILITY_DETAIL/LiabilityType`, constant: 'Other', when: 'borrower.monthlyDebts' },
+
+  { field: 'borrower.firstName', target: `${INDIVIDUAL}/NAME/FirstName`, required: true },
+  { field: 'borrower.lastName', target: `${INDIVIDUAL}/NAME/LastName`, required: true },
+  { field: 'borrower.email', target: `${INDIVIDUAL}/CONTACT_POINTS/CONTACT_POINT[1]/CONTACT_POINT_EMAIL/ContactPointEmailValue` },
+  { field: 'borrower.phone', target: `${INDIVIDUAL}/CONTACT_POINTS/CONTACT_POINT[2]/CONTACT_POINT_TELEPHONE/ContactPointTelephoneValue` },
+  { field: 'borrower.creditScore', target: `${BORROWER}/CREDIT_SCORES/CREDIT_SCORE/CREDIT_SCORE_DETAIL/CreditScoreValue`, fromXml: toInteger },
+  { field: 'borrower.annualIncome', target: `${BORROWER}/CURRENT_INCOME/CURRENT_INCOME_ITEMS/CURRENT_INCOME_ITEM/CURRENT_INCOME_ITEM_DETAIL/CurrentIncomeMonthlyTotalAmount`, toXml: annualToMonthly, fromXml: monthlyToAnnual },
+  { target: `${BORROWER}/CURRENT_INCOME/CURRENT_INCOME_ITEMS/CURRENT_INCOME_ITEM/CURRENT_INCOME_ITEM_DETAIL/IncomeType`, constant: 'Base', when: 'borrower.annualIncome' },
+  { field: 'borrower.employmentType', target: `${EMPLOYMENT}/EmploymentPositionDescription`, toXml: (type: LosApplication['borrower']['employmentType'] & string) => EMPLOYMENT_DESCRIPTIONS[type], fromXml: fromCode(EMPLOYMENT_DESCRIPTIONS) },
+  { field: 'borrower.employmentType', target: `${EMPLOYMENT}/EmploymentStatusType`, exportOnly: true, toXml: (type: string) => type === 'unemployed' ? 'Previous' : 'Current' },
+  { field: 'borrower.employmentType', target: `${EMPLOYMENT}/EmploymentBorrowerSelfEmployedIndicator`, exportOnly: true, toXml: (type: string) => String(type === 'self-employed') },
+  { target: `${PARTY}/ROLES/ROLE/ROLE_DETAIL/PartyRoleType`, constant: 'Borrower' },
+]
+
+export const MISMO_FORMAT: LosFormatDefinition = {
+  format: 'mismo',
+  country: 'US',
+  contentType: 'application/xml',
+  createRoot: () => createElement('MESSAGE', {
+    xmlns: MISMO_NAMESPACE,
+    MISMOReferenceModelIdentifier: MISMO_VERSION,
+  }),
+  checkRoot: (root: XmlElement) => {
+    const errors: string[] = []
+    if (root.name !== 'MESSAGE') {
+      errors.push(`Expected a MISMO MESSAGE document, found <${root.name}>`)
+    }
+    if (root.attributes.xmlns !== MISMO_NAMESPACE) {
+      errors.push(`Expected the MISMO namespace ${MISMO_NAMESPACE}`)
+    }
+    const version = root.attributes.MISMOReferenceModelIdentifier || textAt(root, 'ABOUT_VERSIONS/ABOUT_VERSION/DataVersionIdentifier')
+    if (!version || !version.startsWith('3.4')) {
+      errors.push(`Unsupported MISMO version ${version || '(none)'}; expected 3.4`)
+    }
+    return errors
+  },
+  rules: MISMO_RULES,
+}
+
+/**
+ * Export platform data as a MISMO 3.4 loan application
+ */
+export function exportMismo(input: LosApplicationSources): LosExportResult {
+  const { application, sources } = buildLosApplication(input, 'US')
+  return serializeMismo(application, sources)
+}
+
+export function serializeMismo(application: LosApplication, sources?: LosFieldSources): LosExportResult {
+  return serializeLosApplication(MISMO_FORMAT, application, sources)
+}
+
+/**
+ * Import a MISMO 3.4 loan application
+ */
+export function importMismo(xml: string): LosImportResult {
+  return parseLosApplication(MISMO_FORMAT, xml)
+}
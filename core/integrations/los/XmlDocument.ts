@@ -0,0 +1,215 @@
+/**
+ * XML Document
+ * v1.3.0 - Minimal XML element tree for loan origination system exchange formats
+ */
+
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text?: string
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+export function createElement(name: string, attributes: Record<string, string> = {}): XmlElement {
+  return { name, attributes, children: [] }
+}
+
+/**
+ * Serialize an element tree as an indented XML document
+ */
+export function renderXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderElement(root, '')}\n`
+}
+
+/**
+ * Parse an XML document into an element tree. Comments, processing instructions and
+ * doctype declarations are skipped; namespace prefixes are kept as part of the name.
+ * Throws on malformed markup.
+ */
+export function parseXml(xml: string): XmlElement {
+  const parser = new XmlParser(xml)
+  return parser.parseDocument()
+}
+
+/**
+ * Follow a slash path of child names below an element. A segment may carry a 1-based
+ * index, e.g. CONTACT_POINT[2], to pick among repeated siblings.
+ */
+export function findElement(root: XmlElement, path: string): XmlElement | undefined {
+  let current: XmlElement | undefined = root
+  for (const segment of path.split('/')) {
+    if (!current) return undefined
+    const { name, index } = parseSegment(segment)
+    current = current.children.filter(child => localName(child.name) === name)[index - 1]
+  }
+  return current
+}
+
+/**
+ * Text of the element at a path, trimmed; undefined when the element is absent or empty
+ */
+export function textAt(root: XmlElement, path: string): string | undefined {
+  const text = findElement(root, path)?.text?.trim()
+  return text ? text : undefined
+}
+
+/**
+ * Set the text of the element at a path, creating the elements along it
+ */
+export function setText(root: XmlElement, path: string, text: string): void {
+  let current = root
+  for (const segment of path.split('/')) {
+    const { name, index } = parseSegment(segment)
+    const matching = current.children.filter(child => child.name === name)
+    for (let i = matching.length; i < index; i++) {
+      const created = createElement(name)
+      current.children.push(created)
+      matching.push(created)
+    }
+    current = matching[index - 1]
+  }
+  current.text = text
+}
+
+function parseSegment(segment: string): { name: string; index: number } {
+  const match = /^([^[\]]+)(?:\[(\d+)\])?$/.exec(segment)
+  if (!match) {
+    throw new Error(`Invalid XML path segment: ${segment}`)
+  }
+  return { name: match[1], index: match[2] ? Number(match[2]) : 1 }
+}
+
+// Element name without its namespace prefix
+function localName(name: string): string {
+  const colon = name.indexOf(':')
+  return colon >= 0 ? name.slice(colon + 1) : name
+}
+
+function renderElement(element: XmlElement, indent: string): string {
+  const attributes = Object.keys(element.attributes)
+    .map(key => ` ${key}="${encodeXml(element.attributes[key])}"`)
+    .join('')
+
+  if (element.children.length === 0) {
+    return element.text === undefined
+      ? `${indent}<${element.name}${attributes}/>`
+      : `${indent}<${element.name}${attributes}>${encodeXml(element.text)}</${element.name}>`
+  }
+
+  const children = element.children.map(child => renderElement(child, `${indent}  `)).join('\n')
+  return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+    return XML_ENTITIES[code] ?? entity
+  })
+}
+
+class XmlParser {
+  private position = 0
+
+  constructor(private xml: string) {}
+
+  parseDocument(): XmlElement {
+    this.skipMisc()
+    if (this.xml[this.position] !== '<') {
+      throw new Error('XML document has no root element')
+    }
+    const root = this.parseElement()
+    this.skipMisc()
+    if (this.position < this.xml.length) {
+      throw new Error(`Unexpected content after the root element at offset ${this.position}`)
+    }
+    return root
+  }
+
+  private parseElement(): XmlElement {
+    const open = /^<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(this.xml.slice(this.position))
+    if (!open) {
+      throw new Error(`Malformed start tag at offset ${this.position}`)
+    }
+    this.position += open[0].length
+
+    const element = createElement(open[1], parseAttributes(open[2]))
+    if (open[3]) return element
+
+    let text = ''
+    while (this.position < this.xml.length) {
+      if (this.xml.startsWith('</', this.position)) {
+        const close = /^<\/([A-Za-z_][\w.:-]*)\s*>/.exec(this.xml.slice(this.position))
+        if (!close || close[1] !== element.name) {
+          throw new Error(`Expected </${element.name}> at offset ${this.position}`)
+        }
+        this.position += close[0].length
+        if (element.children.length === 0) element.text = text
+        return element
+      }
+
+      if (this.xml.startsWith('<![CDATA[', this.position)) {
+        const end = this.xml.indexOf(']]>', this.position)
+        if (end < 0) throw new Error('Unterminated CDATA section')
+        text += this.xml.slice(this.position + 9, end)
+        this.position = end + 3
+      } else if (this.xml.startsWith('<!--', this.position) || this.xml.startsWith('<?', this.position)) {
+        this.skipMisc()
+      } else if (this.xml[this.position] === '<') {
+        element.children.push(this.parseElement())
+      } else {
+        const next = this.xml.indexOf('<', this.position)
+        const end = next < 0 ? this.xml.length : next
+        text += decodeXml(this.xml.slice(this.position, end))
+        this.position = end
+      }
+    }
+
+    throw new Error(`Unclosed element <${element.name}>`)
+  }
+
+  // Skip whitespace, comments, processing instructions and doctype declarations
+  private skipMisc(): void {
+    for (;;) {
+      const whitespace = /^\s*/.exec(this.xml.slice(this.position))![0]
+      this.position += whitespace.length
+
+      const terminator = this.xml.startsWith('<!--', this.position) ? '-->'
+        : this.xml.startsWith('<?', this.position) ? '?>'
+        : this.xml.startsWith('<!DOCTYPE', this.position) ? '>'
+        : undefined
+      if (!terminator) return
+
+      const end = this.xml.indexOf(terminator, this.position)
+      if (end < 0) throw new Error('Unterminated XML declaration or comment')
+      this.position = end + terminator.length
+    }
+  }
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3])
+  }
+  return attributes
+}
@@ -1,5 +1,11 @@
 import { supabaseAdmin } from '../supabase'
 import { z } from 'zod'
+import {
+  analyzeCashFlow,
+  CashFlowAnalysis,
+  CashFlowOptions,
+  CashFlowTransaction,
+} from '../mortgage/cash-flow-analysis'
 
 // Open Banking Provider Types
 export type OpenBankingProvider = 'plaid' | 'flinks' | 'yodlee' | 'truelayer'
@@ -563,6 +569,58 @@ export class OpenBankingService {
     }
   }
 
+  // Underwrite the stored transactions of all of a user's active connections.
+  // Stored amounts are signed with withdrawals negative; each connection is one account.
+  async analyzeCashFlow(userId: string, options: CashFlowOptions = {}): Promise<{
+    success: boolean
+    analysis?: CashFlowAnalysis
+    error?: string
+  }> {
+    try {
+      const connectionsResult = await this.getUserConnections(userId)
+      if (!connectionsResult.success) {
+        throw new Error(connectionsResult.error)
+      }
+
+      const connectionIds = (connectionsResult.connections || []).map(connection => connection.id)
+      if (connectionIds.length === 0) {
+        throw new Error('No active bank connections')
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('open_banking_transactions')
+        .select('*')
+        .in('connection_id', connectionIds)
+        .eq('pending', false)
+        .order('transaction_date', { ascending: true })
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      const transactions: CashFlowTransaction[] = (data || []).map(txn => ({
+        id: txn.transaction_id,
+        accountId: txn.connection_id,
+        date: txn.transaction_date,
+        amount: Number(txn.amount),
+        description: txn.description || txn.merchant_name || '',
+        category: [txn.category, txn.subcategory].filter(Boolean).join(' ') || undefined,
+        balance: txn.account_balance !== null && txn.account_balance !== undefined ? Number(txn.account_balance) : undefined,
+      }))
+
+      return {
+        success: true,
+        analysis: analyzeCashFlow(transactions, options),
+      }
+    } catch (error) {
+      console.error('Cash flow analysis failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Cash flow analysis failed',
+      }
+    }
+  }
+
   // Disconnect account
   async disconnectAccount(connectionId: string, userId: string): Promise<{
     success: boolean
@@ -625,3 +683,17 @@ export function createOpenBankingService(provider: OpenBankingProvider): OpenBan
 
   return new OpenBankingService(configs[provider])
 }
+
+/**
+ * Cash-flow analysis of a user's connected bank accounts, or undefined when they have no
+ * active connection or the analysis cannot be run. The analysis reads the transactions
+ * stored for every provider, so the service's provider does not matter here.
+ */
+export async function loadCashFlowAnalysis(userId: string, options: CashFlowOptions = {}): Promise<CashFlowAnalysis | undefined> {
+  const service = createOpenBankingService('plaid')
+  const connections = await service.getUserConnections(userId)
+  if (!connections.success || !connections.connections?.length) return undefined
+
+  const result = await service.analyzeCashFlow(userId, options)
+  return result.success ? result.analysis : undefined
+}
@@ -0,0 +1,435 @@
+import { z } from 'zod'
+import { supabaseAdmin } from './supabase'
+import {
+  DuplicateConfidence,
+  IdentityField,
+  IdentityKeys,
+  IdentityMatch,
+  identityKeys,
+  LeadIdentity,
+  matchIdentity,
+} from './lead-identity'
+
+// Broker actions on a lead flagged as a possible duplicate
+export const LeadDuplicateRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('merge'),
+    duplicateLeadId: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal('dismiss'),
+    flagId: z.string().uuid(),
+  }),
+])
+
+export type LeadDuplicateRequest = z.infer<typeof LeadDuplicateRequestSchema>
+
+// A stored lead that may be the same borrower as an incoming one
+export interface DuplicateCandidate extends IdentityMatch {
+  leadId: string
+  name: string
+  status: string
+  brokerId?: string
+  createdAt: string
+}
+
+export interface LeadDuplicateFlag {
+  id: string
+  leadId: string
+  duplicateOfLeadId: string
+  score: number
+  confidence: DuplicateConfidence
+  matchedOn: IdentityField[]
+  reasons: string[]
+  status: 'open' | 'merged' | 'dismissed'
+  resolvedBy?: string
+  resolvedAt?: string
+  createdAt: string
+}
+
+export interface LeadMergeChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+// Both leads as they were before the merge, so nothing the borrower told either broker is lost
+export interface LeadMergeRecord {
+  id: string
+  survivorLeadId: string
+  mergedLeadId: string
+  mergedBy?: string
+  changes: LeadMergeChange[]
+  survivorBefore: any
+  mergedLead: any
+  movedConversionIds: string[]
+  createdAt: string
+}
+
+// Lead statuses from least to furthest along; a merged lead keeps the furthest
+const STATUS_PROGRESS = ['rejected', 'pending', 'contacted', 'converted']
+
+// Leads a broker is still working, whose borrower should not go to anyone else
+export const ACTIVE_LEAD_STATUSES = ['pending', 'contacted']
+
+const IDENTITY_LOOKUPS: Array<[keyof IdentityKeys, string]> = [
+  ['email', 'email_normalized'],
+  ['phone', 'phone_e164'],
+  ['nameKey', 'name_key'],
+]
+
+export class LeadDedupeStore {
+  /**
+   * Normalized identity columns to store with a lead
+   */
+  toIdentityColumns(identity: LeadIdentity): Record<string, string | null> {
+    const keys = identityKeys(identity)
+    return {
+      email_normalized: keys.email || null,
+      phone_e164: keys.phone || null,
+      name_normalized: keys.name || null,
+      name_key: keys.nameKey || null,
+      address_normalized: keys.address || null,
+    }
+  }
+
+  /**
+   * Unmerged leads in the same organization that are likely the same borrower, best match first
+   */
+  async findDuplicates(
+    identity: LeadIdentity,
+    options: { organizationId?: string; excludeLeadId?: string } = {}
+  ): Promise<DuplicateCandidate[]> {
+    const keys = identityKeys(identity)
+    const rows = new Map<string, any>()
+
+    for (const [key, column] of IDENTITY_LOOKUPS) {
+      const value = keys[key]
+      if (!value) continue
+
+      let query = supabaseAdmin
+        .from('leads')
+        .select('*')
+        .eq(column, value)
+        .is('merged_into_lead_id', null)
+      query = options.organizationId
+        ? query.eq('organization_id', options.organizationId)
+        : query.is('organization_id', null)
+
+      const { data, error } = await query
+      if (error) {
+        throw new Error(`Failed to look up duplicate leads: ${error.message}`)
+      }
+      (data || []).forEach(row => rows.set(row.id, row))
+    }
+
+    const candidates: DuplicateCandidate[] = []
+    rows.forEach(row => {
+      if (row.id === options.excludeLeadId) return
+      const match = matchIdentity(keys, this.toIdentityKeys(row))
+      if (!match) return
+
+      candidates.push({
+        ...match,
+        leadId: row.id,
+        name: row.name,
+        status: row.status,
+        brokerId: row.broker_id || undefined,
+        createdAt: row.created_at,
+      })
+    })
+
+    return candidates.sort((a, b) => b.score - a.score || a.createdAt.localeCompare(b.createdAt))
+  }
+
+  /**
+   * Flag a newly saved lead against the existing leads it may duplicate
+   */
+  async recordDuplicateFlags(leadId: string, candidates: DuplicateCandidate[]): Promise<LeadDuplicateFlag[]> {
+    if (candidates.length === 0) return []
+
+    const { data, error } = await supabaseAdmin
+      .from('lead_duplicate_flags')
+      .insert(candidates.map(candidate => ({
+        lead_id: leadId,
+        duplicate_of_lead_id: candidate.leadId,
+        score: candidate.score,
+        confidence: candidate.confidence,
+        matched_on: candidate.matchedOn,
+        reasons: candidate.reasons,
+        status: 'open',
+      })))
+      .select()
+
+    if (error) {
+      throw new Error(`Failed to flag duplicate leads: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.toFlag(row))
+  }
+
+  /**
+   * Flags raised on the leads or against them, newest first
+   */
+  async getDuplicateFlags(leadIds: string[], status: LeadDuplicateFlag['status'] = 'open'): Promise<LeadDuplicateFlag[]> {
+    const flags = new Map<string, LeadDuplicateFlag>()
+    if (leadIds.length === 0) return []
+
+    for (const column of ['lead_id', 'duplicate_of_lead_id']) {
+      const { data, error } = await supabaseAdmin
+        .from('lead_duplicate_flags')
+        .select('*')
+        .in(column, leadIds)
+        .eq('status', status)
+
+      if (error) {
+        throw new Error(`Failed to fetch duplicate flags: ${error.message}`)
+      }
+      (data || []).forEach(row => flags.set(row.id, this.toFlag(row)))
+    }
+
+    const result: LeadDuplicateFlag[] = []
+    flags.forEach(flag => result.push(flag))
+    return result.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Mark a flag as not a duplicate so it stops showing
+   */
+  async dismissFlag(flagId: string, resolvedBy?: string): Promise<LeadDuplicateFlag> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_duplicate_flags')
+      .update({ status: 'dismissed', resolved_by: resolvedBy || null, resolved_at: new Date().toISOString() })
+      .eq('id', flagId)
+      .eq('status', 'open')
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to dismiss duplicate flag: ${error?.message}`)
+    }
+
+    return this.toFlag(data)
+  }
+
+  /**
+   * Merge a duplicate lead into the one that survives. The survivor keeps its own details and
+   * broker, fills blanks from the duplicate and keeps its other contact details as alternates.
+   * The duplicate stays on record pointing at the survivor, with both snapshots in the merge history.
+   */
+  async mergeLeads(survivorLeadId: string, mergedLeadId: string, mergedBy?: string): Promise<LeadMergeRecord> {
+    if (survivorLeadId === mergedLeadId) {
+      throw new Error('Cannot merge a lead into itself')
+    }
+
+    const [survivor, merged] = await Promise.all([this.getLead(survivorLeadId), this.getLead(mergedLeadId)])
+    if (survivor.merged_into_lead_id || merged.merged_into_lead_id) {
+      throw new Error('Lead has already been merged')
+    }
+
+    const { update, changes } = this.planMerge(survivor, merged)
+    const mergedAt = new Date().toISOString()
+
+    const { error: survivorError } = await supabaseAdmin
+      .from('leads')
+      .update({ ...update, updated_at: mergedAt })
+      .eq('id', survivorLeadId)
+
+    if (survivorError) {
+      throw new Error(`Failed to update surviving lead: ${survivorError.message}`)
+    }
+
+    const { error: mergedError } = await supabaseAdmin
+      .from('leads')
+      .update({ merged_into_lead_id: survivorLeadId, merged_at: mergedAt, updated_at: mergedAt })
+      .eq('id', mergedLeadId)
+
+    if (mergedError) {
+      throw new Error(`Failed to mark lead as merged: ${mergedError.message}`)
+    }
+
+    // Conversions count toward the surviving lead from now on
+    const { data: conversions, error: conversionError } = await supabaseAdmin
+      .from('conversion_events')
+      .update({ lead_id: survivorLeadId })
+      .eq('lead_id', mergedLeadId)
+      .select('id')
+
+    if (conversionError) {
+      throw new Error(`Failed to move conversions to surviving lead: ${conversionError.message}`)
+    }
+
+    // The merged lead no longer needs first contact, so its clock must not escalate or reassign it
+    const { error: timerError } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .update({ status: 'closed', updated_at: mergedAt })
+      .eq('lead_id', mergedLeadId)
+      .eq('status', 'running')
+
+    if (timerError) {
+      throw new Error(`Failed to close SLA timer for merged lead: ${timerError.message}`)
+    }
+
+    await this.resolveFlagsBetween(survivorLeadId, mergedLeadId, mergedBy, mergedAt)
+
+    const { data, error } = await supabaseAdmin
+      .from('lead_merges')
+      .insert({
+        survivor_lead_id: survivorLeadId,
+        merged_lead_id: mergedLeadId,
+        merged_by: mergedBy || null,
+        changes,
+        survivor_before: survivor,
+        merged_lead: merged,
+        moved_conversion_ids: (conversions || []).map(conversion => conversion.id),
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to record lead merge: ${error?.message}`)
+    }
+
+    return this.toMergeRecord(data)
+  }
+
+  /**
+   * Leads merged into a lead, newest first
+   */
+  async getMergeHistory(leadId: string): Promise<LeadMergeRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_merges')
+      .select('*')
+      .eq('survivor_lead_id', leadId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch lead merge history: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.toMergeRecord(row))
+  }
+
+  // Survivor values win; the duplicate only fills what the survivor is missing
+  private planMerge(survivor: any, merged: any): { update: Record<string, unknown>; changes: LeadMergeChange[] } {
+    const update: Record<string, unknown> = {}
+    const changes: LeadMergeChange[] = []
+    const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+    const columns = ['broker_id', 'organization_id', 'user_id', 'email_normalized', 'phone_e164', 'address_normalized']
+    columns.forEach(column => {
+      if (isBlank(survivor[column]) && !isBlank(merged[column])) {
+        update[column] = merged[column]
+        changes.push({ field: column, from: survivor[column] ?? null, to: merged[column] })
+      }
+    })
+
+    const survivorData = survivor.lead_data || {}
+    const mergedData = merged.lead_data || {}
+    const leadData: Record<string, any> = { ...survivorData }
+    Object.keys(mergedData).forEach(key => {
+      if (key === 'alternateContacts' || !isBlank(survivorData[key]) || isBlank(mergedData[key])) return
+      leadData[key] = mergedData[key]
+      changes.push({ field: `lead_data.${key}`, from: survivorData[key] ?? null, to: mergedData[key] })
+    })
+
+    // Other ways to reach the borrower, from the duplicate and anything it had already absorbed
+    const alternates = {
+      emails: (survivorData.alternateContacts?.emails || []) as string[],
+      phones: (survivorData.alternateContacts?.phones || []) as string[],
+    }
+    const addAlternate = (list: string[], value: unknown, primary: unknown) => {
+      if (typeof value === 'string' && value && value !== primary && list.indexOf(value) === -1) list.push(value)
+    }
+    const mergedAlternates = mergedData.alternateContacts || {}
+    const mergedEmails: unknown[] = [merged.email].concat(mergedAlternates.emails || [])
+    const mergedPhones: unknown[] = [merged.phone].concat(mergedAlternates.phones || [])
+    mergedEmails.forEach(email => addAlternate(alternates.emails, email, survivor.email))
+    mergedPhones.forEach(phone => addAlternate(alternates.phones, phone, survivor.phone))
+    if (alternates.emails.length > 0 || alternates.phones.length > 0) {
+      leadData.alternateContacts = alternates
+      changes.push({ field: 'lead_data.alternateContacts', from: survivorData.alternateContacts ?? null, to: alternates })
+    }
+    update.lead_data = leadData
+
+    if (STATUS_PROGRESS.indexOf(merged.status) > STATUS_PROGRESS.indexOf(survivor.status)) {
+      update.status = merged.status
+      changes.push({ field: 'status', from: survivor.status, to: merged.status })
+    }
+
+    return { update, changes }
+  }
+
+  private async resolveFlagsBetween(leadId: string, otherLeadId: string, resolvedBy: string | undefined, resolvedAt: string): Promise<void> {
+    for (const [from, to] of [[leadId, otherLeadId], [otherLeadId, leadId]]) {
+      const { error } = await supabaseAdmin
+        .from('lead_duplicate_flags')
+        .update({ status: 'merged', resolved_by: resolvedBy || null, resolved_at: resolvedAt })
+        .eq('lead_id', from)
+        .eq('duplicate_of_lead_id', to)
+        .eq('status', 'open')
+
+      if (error) {
+        throw new Error(`Failed to resolve duplicate flags: ${error.message}`)
+      }
+    }
+  }
+
+  private async getLead(leadId: string): Promise<any> {
+    const { data, error } = await supabaseAdmin
+      .from('leads')
+      .select('*')
+      .eq('id', leadId)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to fetch lead ${leadId}: ${error?.message}`)
+    }
+    return data
+  }
+
+  // Keys stored with the lead, or derived for leads saved before they were stored
+  private toIdentityKeys(row: any): IdentityKeys {
+    const derived = identityKeys({ name: row.name, email: row.email, phone: row.phone, address: row.lead_data?.address })
+    return {
+      email: row.email_normalized || derived.email,
+      phone: row.phone_e164 || derived.phone,
+      name: row.name_normalized || derived.name,
+      nameKey: row.name_key || derived.nameKey,
+      address: row.address_normalized || derived.address,
+    }
+  }
+
+  private toFlag(row: any): LeadDuplicateFlag {
+    return {
+      id: row.id,
+      leadId: row.lead_id,
+      duplicateOfLeadId: row.duplicate_of_lead_id,
+      score: Number(row.score),
+      confidence: row.confidence,
+      matchedOn: row.matched_on || [],
+      reasons: row.reasons || [],
+      status: row.status,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at || undefined,
+      createdAt: row.created_at,
+    }
+  }
+
+  private toMergeRecord(row: any): LeadMergeRecord {
+    return {
+      id: row.id,
+      survivorLeadId: row.survivor_lead_id,
+      mergedLeadId: row.merged_lead_id,
+      mergedBy: row.merged_by || undefined,
+      changes: row.changes || [],
+      survivorBefore: row.survivor_before,
+      mergedLead: row.merged_lead,
+      movedConversionIds: row.moved_conversion_ids || [],
+      createdAt: row.created_at,
+    }
+  }
+}
+
+// Export singleton instance
+export const leadDedupeStore = new LeadDedupeStore()
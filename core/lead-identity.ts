@@ -0,0 +1,310 @@
+export type IdentityField = 'email' | 'phone' | 'name' | 'address'
+
+export type DuplicateConfidence = 'certain' | 'likely' | 'possible'
+
+// Contact details as a borrower entered them on any intake channel
+export interface LeadIdentity {
+  name: string
+  email?: string
+  phone?: string
+  address?: string
+}
+
+// Normalized forms stored on each lead and compared when looking for duplicates
+export interface IdentityKeys {
+  email?: string
+  phone?: string
+  name?: string
+  // Coarse key that groups spelling variants of a name for lookup
+  nameKey?: string
+  address?: string
+}
+
+export interface IdentityMatch {
+  score: number
+  confidence: DuplicateConfidence
+  matchedOn: IdentityField[]
+  reasons: string[]
+}
+
+// What each kind of match adds to the duplicate score, capped at 1
+export const IDENTITY_WEIGHTS = {
+  EMAIL: 0.6,
+  PHONE: 0.55,
+  NAME: 0.35,
+  ADDRESS: 0.3,
+} as const
+
+// Similarity a name or address needs before it counts as a match
+export const SIMILARITY_THRESHOLDS = {
+  NAME: 0.88,
+  ADDRESS: 0.85,
+} as const
+
+// Minimum score for each confidence level; likely and certain matches keep a borrower with one broker
+export const DUPLICATE_CONFIDENCE = {
+  certain: 0.8,
+  likely: 0.6,
+  possible: 0.45,
+} as const
+
+// Mailbox providers that ignore dots in the local part
+const DOTLESS_EMAIL_DOMAINS: Record<string, string> = {
+  'gmail.com': 'gmail.com',
+  'googlemail.com': 'gmail.com',
+}
+
+const NAME_AFFIXES = ['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'jr', 'sr', 'ii', 'iii', 'iv']
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  court: 'ct',
+  crescent: 'cres',
+  place: 'pl',
+  lane: 'ln',
+  terrace: 'terr',
+  highway: 'hwy',
+  parkway: 'pkwy',
+  circle: 'cir',
+  square: 'sq',
+  apartment: 'apt',
+  suite: 'ste',
+  unit: 'unit',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+}
+
+/**
+ * Phone number in E.164 form, e.g. "(416) 555-0100 ext. 2" becomes "+14165550100".
+ * National numbers without a country code take the default calling code.
+ */
+export function normalizePhone(phone?: string, defaultCallingCode = '1'): string | undefined {
+  if (!phone) return undefined
+  const number = phone.trim().replace(/\s*(?:extension|ext\.?|x|#)\s*\d+$/i, '')
+  let digits = number.replace(/\D/g, '')
+
+  if (number.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2)
+  } else if (defaultCallingCode === '1') {
+    if (digits.length === 10) digits = `1${digits}`
+    else if (!(digits.length === 11 && digits.startsWith('1'))) return undefined
+  } else {
+    digits = defaultCallingCode + digits.replace(/^0/, '')
+  }
+
+  return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : undefined
+}
+
+/**
+ * Lowercased email without a "+tag", with dots dropped where the provider ignores them
+ */
+export function normalizeEmail(email?: string): string | undefined {
+  if (!email) return undefined
+  const [local, domain] = email.trim().toLowerCase().split('@')
+  if (!local || !domain) return undefined
+
+  const mailbox = local.split('+')[0]
+  const dotless = DOTLESS_EMAIL_DOMAINS[domain]
+  return dotless ? `${mailbox.replace(/\./g, '')}@${dotless}` : `${mailbox}@${domain}`
+}
+
+/**
+ * Lowercased name without accents, punctuation, titles or suffixes
+ */
+export function normalizeName(name?: string): string | undefined {
+  if (!name) return undefined
+  const tokens = stripAccents(name)
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, ' ')
+    .replace(/['-]/g, '')
+    .split(/\s+/)
+    .filter(token => token.length > 0 && !NAME_AFFIXES.includes(token))
+
+  return tokens.length > 0 ? tokens.join(' ') : undefined
+}
+
+/**
+ * Last name and first initial, which spelling variants of the same person usually share
+ */
+export function nameBlockingKey(name?: string): string | undefined {
+  const normalized = normalizeName(name)
+  if (!normalized) return undefined
+  const tokens = normalized.split(' ')
+  const last = tokens[tokens.length - 1]
+  return tokens.length > 1 ? `${last}:${tokens[0][0]}` : `${last}:`
+}
+
+/**
+ * Lowercased address with street types and directions abbreviated and postal codes compacted
+ */
+export function normalizeAddress(address?: string): string | undefined {
+  if (!address) return undefined
+  const compacted = stripAccents(address)
+    .toLowerCase()
+    // Canadian postal codes are written with and without the space
+    .replace(/\b([a-z]\d[a-z])\s+(\d[a-z]\d)\b/g, '$1$2')
+    .replace(/#/g, ' unit ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+
+  const tokens = compacted
+    .split(/\s+/)
+    .filter(token => token.length > 0)
+    .map(token => ADDRESS_ABBREVIATIONS[token] || token)
+
+  return tokens.length > 0 ? tokens.join(' ') : undefined
+}
+
+/**
+ * Normalized keys for a lead's contact details
+ */
+export function identityKeys(identity: LeadIdentity): IdentityKeys {
+  return {
+    email: normalizeEmail(identity.email),
+    phone: normalizePhone(identity.phone),
+    name: normalizeName(identity.name),
+    nameKey: nameBlockingKey(identity.name),
+    address: normalizeAddress(identity.address),
+  }
+}
+
+/**
+ * Jaro-Winkler similarity between two strings, from 0 to 1
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length === 0 || b.length === 0) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatched: boolean[] = new Array(a.length).fill(false)
+  const bMatched: boolean[] = new Array(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window)
+    const end = Math.min(b.length - 1, i + window)
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true
+        matches++
+        break
+      }
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue
+    while (!bMatched[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+  let prefix = 0
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * How alike two normalized names are, allowing for reordered names and a first name given as an initial
+ */
+export function nameSimilarity(a?: string, b?: string): number {
+  if (!a || !b) return 0
+  const aTokens = a.split(' ')
+  const bTokens = b.split(' ')
+
+  let similarity = Math.max(
+    jaroWinkler(a, b),
+    jaroWinkler(aTokens.slice().sort().join(' '), bTokens.slice().sort().join(' '))
+  )
+
+  // "J Park" and "Jo Park", or "Jo Park" and "Joanne Park"
+  if (aTokens.length > 1 && bTokens.length > 1) {
+    const lastNames = jaroWinkler(aTokens[aTokens.length - 1], bTokens[bTokens.length - 1])
+    const [aFirst, bFirst] = [aTokens[0], bTokens[0]]
+    const shortened = aFirst.length <= bFirst.length ? bFirst.startsWith(aFirst) : aFirst.startsWith(bFirst)
+    if (lastNames >= 0.95 && shortened) similarity = Math.max(similarity, 0.9)
+  }
+
+  return round(similarity)
+}
+
+/**
+ * How alike two normalized addresses are; differing street numbers or postal codes rule a match out
+ */
+export function addressSimilarity(a?: string, b?: string): number {
+  if (!a || !b) return 0
+  const numbers = (address: string) => address.split(' ').filter(token => /\d/.test(token))
+  const [fewer, more] = numbers(a).length <= numbers(b).length ? [numbers(a), numbers(b)] : [numbers(b), numbers(a)]
+  // One side may leave out the unit or postal code, but every number it gives must appear in the other
+  if ((fewer.length === 0 && more.length > 0) || fewer.some(token => more.indexOf(token) === -1)) return 0
+  return round(jaroWinkler(a, b))
+}
+
+/**
+ * Score how likely two leads are the same borrower, or undefined when they are not a plausible match
+ */
+export function matchIdentity(a: IdentityKeys, b: IdentityKeys): IdentityMatch | undefined {
+  const matchedOn: IdentityField[] = []
+  const reasons: string[] = []
+  let score = 0
+
+  if (a.email && a.email === b.email) {
+    score += IDENTITY_WEIGHTS.EMAIL
+    matchedOn.push('email')
+    reasons.push(`Same email ${a.email}`)
+  }
+  if (a.phone && a.phone === b.phone) {
+    // A shared household phone is weaker evidence than a shared email
+    score += matchedOn.length > 0 ? IDENTITY_WEIGHTS.PHONE / 2 : IDENTITY_WEIGHTS.PHONE
+    matchedOn.push('phone')
+    reasons.push(`Same phone ${a.phone}`)
+  }
+
+  const names = nameSimilarity(a.name, b.name)
+  if (names >= SIMILARITY_THRESHOLDS.NAME) {
+    score += IDENTITY_WEIGHTS.NAME * names
+    matchedOn.push('name')
+    reasons.push(names === 1 ? 'Same name' : `Similar name (${Math.round(names * 100)}% match)`)
+  }
+
+  // Household members share an address, so it only backs up a matching name
+  const addresses = matchedOn.includes('name') ? addressSimilarity(a.address, b.address) : 0
+  if (addresses >= SIMILARITY_THRESHOLDS.ADDRESS) {
+    score += IDENTITY_WEIGHTS.ADDRESS * addresses
+    matchedOn.push('address')
+    reasons.push(addresses === 1 ? 'Same address' : `Similar address (${Math.round(addresses * 100)}% match)`)
+  }
+
+  score = round(Math.min(1, score))
+  const confidence = duplicateConfidence(score)
+  return confidence ? { score, confidence, matchedOn, reasons } : undefined
+}
+
+/**
+ * Confidence level for a duplicate score, or undefined below the lowest level
+ */
+export function duplicateConfidence(score: number): DuplicateConfidence | undefined {
+  if (score >= DUPLICATE_CONFIDENCE.certain) return 'certain'
+  if (score >= DUPLICATE_CONFIDENCE.likely) return 'likely'
+  if (score >= DUPLICATE_CONFIDENCE.possible) return 'possible'
+  return undefined
+}
+
+function stripAccents(value: string): string {
+  return value.normalize('NFD').replace(/[̀-ͯ]/g, '')
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
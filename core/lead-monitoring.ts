@@ -1,5 +1,6 @@
 import { supabaseAdmin } from './supabase'
 import { errorTracking } from './monitoring'
+import { LeadSlaMetrics, summarizeSlaTimers, toLeadSlaTimer } from './lead-sla'
 
 export interface LeadMetrics {
   totalLeads: number
@@ -27,8 +28,10 @@ export interface LeadMetrics {
     totalLeads: number
     convertedLeads: number
   }>
+  // First-contact SLA performance across all assignments
+  sla: LeadSlaMetrics
   alerts: Array<{
-    type: 'high_volume' | 'low_conversion' | 'system_error' | 'broker_inactive'
+    type: 'high_volume' | 'low_conversion' | 'system_error' | 'broker_inactive' | 'sla_breach'
     severity: 'low' | 'medium' | 'high' | 'critical'
     message: string
     timestamp: string
@@ -61,6 +64,15 @@ export class LeadMonitoringService {
         throw new Error(`Failed to fetch brokers: ${brokersError.message}`)
       }
 
+      // Get first-contact SLA timers
+      const { data: slaTimers, error: slaError } = await supabaseAdmin
+        .from('lead_sla_timers')
+        .select('*')
+
+      if (slaError) {
+        throw new Error(`Failed to fetch lead SLA timers: ${slaError.message}`)
+      }
+
       const now = new Date()
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
       const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000)
@@ -118,12 +130,15 @@ export class LeadMonitoringService {
         }
       }).sort((a, b) => b.conversionRate - a.conversionRate).slice(0, 5) || []
 
+      const sla = summarizeSlaTimers((slaTimers || []).map(toLeadSlaTimer), now)
+
       // Generate alerts
       const alerts = await this.generateAlerts(leads, brokers, {
         totalLeads,
         leadsToday,
         conversionRate,
-        averageLeadScore
+        averageLeadScore,
+        overdueLeads: sla.overdue,
       })
 
       return {
@@ -136,6 +151,7 @@ export class LeadMonitoringService {
         leadsByStatus,
         leadsByTier,
         topPerformingBrokers: brokerPerformance,
+        sla,
         alerts,
       }
 
@@ -159,16 +175,17 @@ export class LeadMonitoringService {
       leadsToday: number
       conversionRate: number
       averageLeadScore: number
+      overdueLeads: number
     }
   ): Promise<Array<{
-    type: 'high_volume' | 'low_conversion' | 'system_error' | 'broker_inactive'
+    type: 'high_volume' | 'low_conversion' | 'system_error' | 'broker_inactive' | 'sla_breach'
     severity: 'low' | 'medium' | 'high' | 'critical'
     message: string
     timestamp: string
     resolved: boolean
   }>> {
     const alerts: Array<{
-      type: 'high_volume' | 'low_conversion' | 'system_error' | 'broker_inactive'
+      type: 'high_volume' | 'low_conversion' | 'system_error' | 'broker_inactive' | 'sla_breach'
       severity: 'low' | 'medium' | 'high' | 'critical'
       message: string
       timestamp: string
@@ -218,6 +235,17 @@ export class LeadMonitoringService {
       })
     }
 
+    // Leads past their first-contact deadline
+    if (metrics.overdueLeads > 0) {
+      alerts.push({
+        type: 'sla_breach',
+        severity: metrics.overdueLeads > 10 ? 'high' : 'medium',
+        message: `${metrics.overdueLeads} lead(s) past their first-contact SLA`,
+        timestamp: now,
+        resolved: false
+      })
+    }
+
     // Low lead quality alert
     if (metrics.averageLeadScore < 40 && metrics.totalLeads > 20) {
       alerts.push({
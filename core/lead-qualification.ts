@@ -1,20 +1,24 @@
 import { z } from 'zod'
 import { supabaseAdmin } from './supabase'
-
-// Lead qualification scoring criteria
-export const LEAD_SCORING_CRITERIA = {
-  INCOME_THRESHOLD: 75000,
-  INCOME_SCORE: 20,
-  DOWN_PAYMENT_PERCENTAGE: 20,
-  DOWN_PAYMENT_SCORE: 25,
-  CREDIT_SCORE_THRESHOLD: 700,
-  CREDIT_SCORE_SCORE: 30,
-  TDS_THRESHOLD: 35,
-  TDS_SCORE: 10,
-  SALARIED_EMPLOYMENT_SCORE: 15,
-} as const
-
-// Lead routing tiers
+import type { CashFlowAnalysis } from './mortgage/cash-flow-analysis'
+import { LeadRoutingEngine, leadRoutingEngine, BrokerSpecialty, RoutingLead, RoutingOptions } from './lead-routing'
+import { LEAD_SLA_POLICIES } from './lead-sla'
+import { LeadSlaStore, leadSlaStore } from './lead-sla-store'
+import {
+  DEFAULT_LEAD_SCORING_MODEL,
+  DocumentSignals,
+  FeatureContribution,
+  LeadScoreResult,
+  LeadScoringModel,
+  LeadScoringSignals,
+  scoreLead,
+  scoringTier,
+} from './lead-scoring'
+import { LeadScoringModelStore, leadScoringModelStore } from './lead-scoring-store'
+import { ACTIVE_LEAD_STATUSES, DuplicateCandidate, LeadDedupeStore, leadDedupeStore } from './lead-dedupe-store'
+import type { LeadIdentity } from './lead-identity'
+
+// Lead routing tiers, at the default scoring model's cutoffs
 export const LEAD_ROUTING_TIERS = {
   PREMIUM: { minScore: 70, maxScore: 100, label: 'Premium Lenders' },
   STANDARD: { minScore: 50, maxScore: 69, label: 'National Broker Pool' },
@@ -30,10 +34,23 @@ export interface LeadQualificationInput {
   income: number
   employmentType: 'salaried' | 'self-employed' | 'contract' | 'unemployed'
   creditScore: number
+  // Monthly payments on other debts the applicant disclosed
+  monthlyDebts?: number
   preferredLender?: string
   additionalInfo?: string
+  // Property city and province or state, used to route to a broker licensed there
+  propertyLocation?: string
+  // Borrower's street address, matched when looking for duplicate leads
+  address?: string
+  // Preferred language as an ISO 639-1 code
+  language?: string
+  newToCountry?: boolean
+  investor?: boolean
+  firstTimeBuyer?: boolean
   consentToShare: boolean
   consentToContact: boolean
+  // Analysis of connected bank accounts; verified figures replace stated ones when present
+  cashFlow?: CashFlowAnalysis
 }
 
 export interface LeadQualificationResult {
@@ -44,6 +61,23 @@ export interface LeadQualificationResult {
   routingDecision: string
   nextSteps: string[]
   disclaimers: string[]
+  // What each scoring feature added or took away
+  scoreBreakdown: FeatureContribution[]
+  // Version of the organization's scoring model, 0 for the default model
+  scoringModelVersion: number
+  scoringSignals: LeadScoringSignals
+  // Existing leads that may be the same borrower
+  duplicates: DuplicateCandidate[]
+  // Open lead whose broker kept this borrower instead of the lead being routed afresh
+  existingLeadId?: string
+}
+
+export interface LeadQualificationOptions {
+  routing?: RoutingOptions
+  // Brokerage whose scoring model applies
+  organizationId?: string
+  // Applicant whose uploaded documents count toward the score
+  userId?: string
 }
 
 export interface BrokerRecommendation {
@@ -55,129 +89,153 @@ export interface BrokerRecommendation {
   commissionRate: number
   matchReason: string
   tier: 'premium' | 'standard' | 'coaching'
+  routingScore: number
+  // Why the routing engine ranked this broker where it did
+  routingReasons: string[]
 }
 
 export class LeadQualificationService {
+  constructor(
+    private routing: Pick<LeadRoutingEngine, 'routeLead' | 'linkDecision'> = leadRoutingEngine,
+    private sla: Pick<LeadSlaStore, 'startTimer'> = leadSlaStore,
+    private scoringModels: Pick<LeadScoringModelStore, 'getActiveModel' | 'getDocumentSignals'> = leadScoringModelStore,
+    private dedupe: Pick<LeadDedupeStore, 'findDuplicates' | 'recordDuplicateFlags' | 'toIdentityColumns'> = leadDedupeStore
+  ) {}
+
   /**
-   * Calculate lead score based on defined criteria
+   * Calculate lead score under a scoring model
    */
-  calculateLeadScore(input: LeadQualificationInput): number {
-    let score = 0
+  calculateLeadScore(input: LeadQualificationInput, model: LeadScoringModel = DEFAULT_LEAD_SCORING_MODEL): number {
+    return this.scoreLead(input, model).score
+  }
 
-    // Income scoring
-    if (input.income > LEAD_SCORING_CRITERIA.INCOME_THRESHOLD) {
-      score += LEAD_SCORING_CRITERIA.INCOME_SCORE
-    }
+  /**
+   * Score a lead with the per-feature breakdown
+   */
+  scoreLead(
+    input: LeadQualificationInput,
+    model: LeadScoringModel = DEFAULT_LEAD_SCORING_MODEL,
+    documents?: DocumentSignals
+  ): LeadScoreResult {
+    return scoreLead(this.getScoringSignals(input, documents), model)
+  }
 
-    // Down payment percentage scoring
-    const downPaymentPercentage = (input.downPayment / input.propertyValue) * 100
-    if (downPaymentPercentage >= LEAD_SCORING_CRITERIA.DOWN_PAYMENT_PERCENTAGE) {
-      score += LEAD_SCORING_CRITERIA.DOWN_PAYMENT_SCORE
-    }
+  /**
+   * What the scoring model reads from an application, with income and down payment
+   * limited to what bank transactions support
+   */
+  getScoringSignals(input: LeadQualificationInput, documents?: DocumentSignals): LeadScoringSignals {
+    const { income, downPayment, undisclosedMonthlyDebt } = this.getVerifiedFigures(input)
 
-    // Credit score scoring
-    if (input.creditScore >= LEAD_SCORING_CRITERIA.CREDIT_SCORE_THRESHOLD) {
-      score += LEAD_SCORING_CRITERIA.CREDIT_SCORE_SCORE
+    return {
+      income,
+      downPayment,
+      propertyValue: input.propertyValue,
+      creditScore: input.creditScore,
+      employmentType: input.employmentType,
+      monthlyDebts: input.monthlyDebts || 0,
+      location: input.propertyLocation,
+      firstTimeBuyer: input.firstTimeBuyer,
+      documents,
+      bankConduct: input.cashFlow && {
+        accountEvents: input.cashFlow.accountEvents.length,
+        undisclosedMonthlyDebt,
+      },
     }
+  }
 
-    // TDS calculation and scoring
-    const monthlyIncome = input.income / 12
-    const monthlyDebts = this.estimateMonthlyDebts(input.income, input.propertyValue, input.downPayment)
-    const tdsRatio = (monthlyDebts / monthlyIncome) * 100
-    
-    if (tdsRatio < LEAD_SCORING_CRITERIA.TDS_THRESHOLD) {
-      score += LEAD_SCORING_CRITERIA.TDS_SCORE
+  /**
+   * Income and down payment as far as bank transactions support them
+   */
+  private getVerifiedFigures(input: LeadQualificationInput): {
+    income: number
+    downPayment: number
+    undisclosedMonthlyDebt: number
+  } {
+    const cashFlow = input.cashFlow
+    if (!cashFlow) {
+      return { income: input.income, downPayment: input.downPayment, undisclosedMonthlyDebt: 0 }
     }
 
-    // Employment type scoring
-    if (input.employmentType === 'salaried') {
-      score += LEAD_SCORING_CRITERIA.SALARIED_EMPLOYMENT_SCORE
+    const seasonedFunds = cashFlow.downPayment.seasonedFunds
+    return {
+      income: cashFlow.supportedAnnualIncome > 0 ? Math.min(input.income, cashFlow.supportedAnnualIncome) : input.income,
+      downPayment: seasonedFunds !== undefined ? Math.min(input.downPayment, seasonedFunds) : input.downPayment,
+      undisclosedMonthlyDebt: cashFlow.undisclosedMonthlyDebt,
     }
-
-    return Math.min(100, Math.max(0, score))
   }
 
   /**
-   * Estimate monthly debt payments for TDS calculation
+   * Contact details duplicates are matched on
    */
-  private estimateMonthlyDebts(income: number, propertyValue: number, downPayment: number): number {
-    const mortgageAmount = propertyValue - downPayment
-    const interestRate = 0.06 // Assume 6% for estimation
-    const termYears = 25
-    
-    // Calculate monthly mortgage payment
-    const monthlyRate = interestRate / 12
-    const numPayments = termYears * 12
-    const monthlyPayment = mortgageAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / 
-                          (Math.pow(1 + monthlyRate, numPayments) - 1)
-    
-    // Add estimated property taxes, insurance, and other debts (simplified)
-    const propertyTaxes = (propertyValue * 0.01) / 12 // 1% annually
-    const insurance = 100 // Estimated monthly insurance
-    const otherDebts = income * 0.05 / 12 // Assume 5% of income for other debts
-    
-    return monthlyPayment + propertyTaxes + insurance + otherDebts
+  getIdentity(input: LeadQualificationInput): LeadIdentity {
+    return { name: input.name, email: input.email, phone: input.phone, address: input.address }
   }
 
   /**
    * Determine qualification tier based on score
    */
-  getQualificationTier(score: number): keyof typeof LEAD_ROUTING_TIERS {
-    if (score >= LEAD_ROUTING_TIERS.PREMIUM.minScore) return 'PREMIUM'
-    if (score >= LEAD_ROUTING_TIERS.STANDARD.minScore) return 'STANDARD'
-    return 'COACHING'
+  getQualificationTier(score: number, model: LeadScoringModel = DEFAULT_LEAD_SCORING_MODEL): keyof typeof LEAD_ROUTING_TIERS {
+    return scoringTier(score, model)
   }
 
   /**
-   * Get broker recommendations based on qualification tier
+   * Route the lead to a licensed broker with capacity and return them first,
+   * followed by the next best matches
    */
   async getBrokerRecommendations(
     tier: keyof typeof LEAD_ROUTING_TIERS,
-    preferredLender?: string
+    input: LeadQualificationInput,
+    leadReference: string,
+    options: RoutingOptions = {}
   ): Promise<BrokerRecommendation[]> {
-    const { data: brokers, error } = await supabaseAdmin
-      .from('brokers')
-      .select('*')
-      .eq('is_active', true)
-      .order('created_at', { ascending: false })
-
-    if (error || !brokers) {
-      console.error('Error fetching brokers:', error)
+    let decision
+    try {
+      decision = await this.routing.routeLead(this.getRoutingLead(tier, input), leadReference, options)
+    } catch (error) {
+      console.error('Error routing lead:', error)
       return []
     }
 
-    // Filter brokers based on tier and preferences
-    let filteredBrokers = brokers
+    if (!decision.selected) return []
+
+    return [decision.selected].concat(decision.alternates).map(candidate => ({
+      brokerId: candidate.broker.brokerId,
+      name: candidate.broker.name,
+      company: candidate.broker.company,
+      phone: candidate.broker.phone,
+      email: candidate.broker.email,
+      commissionRate: candidate.broker.commissionRate,
+      matchReason: this.getMatchReason(tier, candidate.broker),
+      tier: tier.toLowerCase() as 'premium' | 'standard' | 'coaching',
+      routingScore: candidate.score,
+      routingReasons: candidate.reasons,
+    }))
+  }
 
-    if (preferredLender) {
-      filteredBrokers = brokers.filter(broker => 
-        broker.company.toLowerCase().includes(preferredLender.toLowerCase()) ||
-        broker.name.toLowerCase().includes(preferredLender.toLowerCase())
-      )
-    }
+  /**
+   * What the routing engine matches on: jurisdiction, language and the borrower's specialty needs
+   */
+  getRoutingLead(tier: keyof typeof LEAD_ROUTING_TIERS, input: LeadQualificationInput): RoutingLead {
+    const specialties: BrokerSpecialty[] = []
+    if (input.employmentType === 'self-employed') specialties.push('self_employed')
+    if (input.newToCountry) specialties.push('new_to_country')
+    if (input.investor) specialties.push('investor')
+    if (input.firstTimeBuyer) specialties.push('first_time_buyer')
+    if (tier === 'COACHING') specialties.push('credit_rebuilding')
 
-    // If no preferred lender matches, use all brokers for the tier
-    if (filteredBrokers.length === 0) {
-      filteredBrokers = brokers
+    return {
+      location: input.propertyLocation,
+      language: input.language,
+      specialties,
+      preferredLender: input.preferredLender,
     }
-
-    // Map to recommendations
-    return filteredBrokers.slice(0, 3).map(broker => ({
-      brokerId: broker.id,
-      name: broker.name,
-      company: broker.company,
-      phone: broker.phone,
-      email: broker.email,
-      commissionRate: broker.commission_rate,
-      matchReason: this.getMatchReason(tier, broker),
-      tier: tier.toLowerCase() as 'premium' | 'standard' | 'coaching'
-    }))
   }
 
   /**
    * Generate match reason for broker recommendation
    */
-  private getMatchReason(tier: keyof typeof LEAD_ROUTING_TIERS, broker: any): string {
+  private getMatchReason(tier: keyof typeof LEAD_ROUTING_TIERS, broker: { name: string; company: string }): string {
     switch (tier) {
       case 'PREMIUM':
         return `High-quality lead matched with premium lender ${broker.company}`
@@ -208,7 +266,7 @@ export class LeadQualificationService {
       case 'PREMIUM':
         routingDecision = `Your lead score of ${score} qualifies you for premium lender access. You'll be connected with top-tier mortgage professionals who can offer the best rates and terms.`
         nextSteps = [
-          'Premium broker will contact you within 2 hours',
+          `Premium broker will contact you within ${LEAD_SLA_POLICIES.PREMIUM.firstContactHours} hours`,
           'Pre-approval process can begin immediately',
           'Access to exclusive rates and products',
           'Dedicated mortgage specialist assigned'
@@ -223,7 +281,7 @@ export class LeadQualificationService {
       case 'STANDARD':
         routingDecision = `Your lead score of ${score} qualifies you for our national broker network. You'll be matched with experienced mortgage professionals who can help you secure competitive rates.`
         nextSteps = [
-          'Broker will contact you within 4 hours',
+          `Broker will contact you within ${LEAD_SLA_POLICIES.STANDARD.firstContactHours} hours`,
           'Multiple lender options will be presented',
           'Pre-qualification process can begin',
           'Rate shopping assistance provided'
@@ -238,7 +296,7 @@ export class LeadQualificationService {
       case 'COACHING':
         routingDecision = `Your lead score of ${score} indicates you may benefit from financial coaching before applying for a mortgage. We'll connect you with specialists who can help improve your financial profile.`
         nextSteps = [
-          'Financial coach will contact you within 24 hours',
+          `Financial coach will contact you within ${LEAD_SLA_POLICIES.COACHING.firstContactHours} hours`,
           'Credit improvement plan will be created',
           'Debt reduction strategies will be discussed',
           'Re-apply for mortgage assistance in 3-6 months'
@@ -257,17 +315,47 @@ export class LeadQualificationService {
   /**
    * Process complete lead qualification
    */
-  async processLeadQualification(input: LeadQualificationInput): Promise<LeadQualificationResult> {
-    // Calculate lead score
-    const leadScore = this.calculateLeadScore(input)
-    
-    // Determine qualification tier
-    const qualificationTier = this.getQualificationTier(leadScore)
+  async processLeadQualification(
+    input: LeadQualificationInput,
+    options: LeadQualificationOptions = {}
+  ): Promise<LeadQualificationResult> {
+    // Score with the brokerage's model; a lead is never turned away because the model could not load
+    let scoringModel = { version: 0, model: DEFAULT_LEAD_SCORING_MODEL }
+    let documents: DocumentSignals | undefined
+    try {
+      scoringModel = await this.scoringModels.getActiveModel(options.organizationId)
+      if (options.userId) {
+        documents = await this.scoringModels.getDocumentSignals(options.userId)
+      }
+    } catch (error) {
+      console.error('Error loading lead scoring inputs:', error)
+    }
+
+    // The same borrower often arrives more than once; one already with a broker stays with them
+    let duplicates: DuplicateCandidate[] = []
+    try {
+      duplicates = await this.dedupe.findDuplicates(this.getIdentity(input), { organizationId: options.organizationId })
+    } catch (error) {
+      console.error('Error checking for duplicate leads:', error)
+    }
+    const existing = duplicates.find(duplicate =>
+      duplicate.confidence !== 'possible' && !!duplicate.brokerId && ACTIVE_LEAD_STATUSES.includes(duplicate.status)
+    )
+    const routing = existing ? { ...options.routing, assignedBrokerId: existing.brokerId } : options.routing
+
+    const scoring = this.scoreLead(input, scoringModel.model, documents)
+    const leadScore = scoring.score
+    const qualificationTier = scoring.tier
+
+    // Generate unique lead ID, which the routing decision is recorded against
+    const leadId = `lead_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     
-    // Get broker recommendations
+    // Route to a broker and get alternates
     const brokerRecommendations = await this.getBrokerRecommendations(
       qualificationTier,
-      input.preferredLender
+      input,
+      leadId,
+      routing
     )
     
     // Generate routing decision
@@ -276,9 +364,6 @@ export class LeadQualificationService {
       leadScore
     )
 
-    // Generate unique lead ID
-    const leadId = `lead_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
     return {
       leadId,
       leadScore,
@@ -286,7 +371,12 @@ export class LeadQualificationService {
       brokerRecommendations,
       routingDecision,
       nextSteps,
-      disclaimers
+      disclaimers,
+      scoreBreakdown: scoring.contributions,
+      scoringModelVersion: scoringModel.version,
+      scoringSignals: this.getScoringSignals(input, documents),
+      duplicates,
+      existingLeadId: existing && brokerRecommendations[0]?.brokerId === existing.brokerId ? existing.leadId : undefined,
     }
   }
 
@@ -296,25 +386,49 @@ export class LeadQualificationService {
   async saveLead(
     userId: string,
     input: LeadQualificationInput,
-    result: LeadQualificationResult
+    result: LeadQualificationResult,
+    organizationId?: string
   ): Promise<string> {
     const { data, error } = await supabaseAdmin
       .from('leads')
       .insert({
         user_id: userId,
+        organization_id: organizationId || null,
         name: input.name,
         email: input.email,
         phone: input.phone,
+        ...this.dedupe.toIdentityColumns(this.getIdentity(input)),
         lead_data: {
           propertyValue: input.propertyValue,
           downPayment: input.downPayment,
           income: input.income,
           employmentType: input.employmentType,
           creditScore: input.creditScore,
+          monthlyDebts: input.monthlyDebts,
           preferredLender: input.preferredLender,
           additionalInfo: input.additionalInfo,
+          propertyLocation: input.propertyLocation,
+          address: input.address,
+          language: input.language,
+          newToCountry: input.newToCountry,
+          investor: input.investor,
+          firstTimeBuyer: input.firstTimeBuyer,
           consentToShare: input.consentToShare,
           consentToContact: input.consentToContact,
+          cashFlow: input.cashFlow && {
+            asOf: input.cashFlow.asOf,
+            verifiedMonthlyIncome: input.cashFlow.verifiedMonthlyIncome,
+            supportedAnnualIncome: input.cashFlow.supportedAnnualIncome,
+            undisclosedMonthlyDebt: input.cashFlow.undisclosedMonthlyDebt,
+            seasonedFunds: input.cashFlow.downPayment.seasonedFunds,
+            findings: input.cashFlow.findings,
+          },
+          // Kept so the lead can be re-scored when backtesting other models
+          scoring: {
+            modelVersion: result.scoringModelVersion,
+            contributions: result.scoreBreakdown,
+            signals: result.scoringSignals,
+          },
         },
         lead_score: result.leadScore,
         status: 'pending',
@@ -327,6 +441,22 @@ export class LeadQualificationService {
       throw new Error(`Failed to save lead: ${error.message}`)
     }
 
+    await this.routing.linkDecision(result.leadId, data.id)
+
+    // Flag the lead for brokers to merge or dismiss; the lead is saved either way
+    try {
+      await this.dedupe.recordDuplicateFlags(data.id, result.duplicates)
+    } catch (error) {
+      console.error('Error flagging duplicate leads:', error)
+    }
+
+    // The first-contact clock promised in the next steps starts on assignment. A returning
+    // borrower's broker is already on their open lead, and reassigning this one on a missed
+    // clock would hand the borrower to a competing broker.
+    if (data.broker_id && !result.existingLeadId) {
+      await this.sla.startTimer(data.id, data.broker_id, result.qualificationTier)
+    }
+
     return data.id
   }
 }
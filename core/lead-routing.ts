@@ -0,0 +1,450 @@
+import { supabaseAdmin } from './supabase'
+import { LeadMonitoringService, leadMonitoringService } from './lead-monitoring'
+
+export type BrokerSpecialty =
+  | 'self_employed'
+  | 'new_to_country'
+  | 'investor'
+  | 'first_time_buyer'
+  | 'credit_rebuilding'
+
+export type RoutingStrategy = 'best_match' | 'round_robin' | 'weighted'
+
+// What routing needs to know about a broker, loaded from the brokers table and lead history
+export interface BrokerRoutingProfile {
+  brokerId: string
+  name: string
+  company: string
+  phone: string
+  email: string
+  commissionRate: number
+  provincesStates: string[]
+  languages: string[]
+  specialties: BrokerSpecialty[]
+  openLeads: number
+  maxOpenLeads: number
+  responseSlaHours: number
+  // Average hours to first contact; undefined until the broker has contacted a lead
+  averageResponseHours?: number
+  // Percent of leads converted; undefined for a broker without lead history
+  conversionRate?: number
+  // Relative share of leads under weighted distribution
+  routingWeight: number
+  lastAssignedAt?: string
+}
+
+export interface RoutingLead {
+  // Property location as entered, e.g. "Toronto, ON" or "Austin, Texas"
+  location?: string
+  language?: string
+  specialties: BrokerSpecialty[]
+  preferredLender?: string
+}
+
+export interface RoutingCandidate {
+  broker: BrokerRoutingProfile
+  eligible: boolean
+  score: number
+  components: {
+    specialty: number
+    load: number
+    responseTime: number
+    conversion: number
+    language: number
+    preferredLender: number
+  }
+  reasons: string[]
+}
+
+export interface RoutingDecision {
+  strategy: RoutingStrategy
+  jurisdiction?: string
+  selected?: RoutingCandidate
+  // Next best eligible brokers after the selected one
+  alternates: RoutingCandidate[]
+  candidates: RoutingCandidate[]
+  reason: string
+}
+
+export interface RoutingOptions {
+  strategy?: RoutingStrategy
+  alternates?: number
+  // Random number source for weighted distribution, in [0, 1)
+  random?: () => number
+  // Brokers who already had the lead, e.g. when reassigning after a missed SLA
+  excludeBrokerIds?: string[]
+  // Broker already working with this borrower on another lead; they keep the borrower
+  // while they are active and licensed for the property, however many leads they have open
+  assignedBrokerId?: string
+}
+
+// Points available for each part of the match; a preferred lender adds a bonus on top
+export const ROUTING_WEIGHTS = {
+  SPECIALTY: 30,
+  LOAD: 25,
+  CONVERSION: 20,
+  RESPONSE_TIME: 15,
+  LANGUAGE: 10,
+  PREFERRED_LENDER_BONUS: 10,
+} as const
+
+// Conversion rate that earns full conversion points
+const TARGET_CONVERSION_RATE = 25
+
+// Round robin rotates among brokers within this many points of the best match
+const ROUND_ROBIN_BAND = 10
+
+const SPECIALTY_LABELS: Record<BrokerSpecialty, string> = {
+  self_employed: 'self-employed borrowers',
+  new_to_country: 'newcomers to the country',
+  investor: 'investment properties',
+  first_time_buyer: 'first-time buyers',
+  credit_rebuilding: 'credit rebuilding',
+}
+
+const PROVINCES: Record<string, string> = {
+  AB: 'alberta',
+  BC: 'british columbia',
+  MB: 'manitoba',
+  NB: 'new brunswick',
+  NL: 'newfoundland and labrador',
+  NS: 'nova scotia',
+  NT: 'northwest territories',
+  NU: 'nunavut',
+  ON: 'ontario',
+  PE: 'prince edward island',
+  QC: 'quebec',
+  SK: 'saskatchewan',
+  YT: 'yukon',
+}
+
+const STATES: Record<string, string> = {
+  AL: 'alabama', AK: 'alaska', AZ: 'arizona', AR: 'arkansas', CA: 'california', CO: 'colorado',
+  CT: 'connecticut', DE: 'delaware', DC: 'district of columbia', FL: 'florida', GA: 'georgia',
+  HI: 'hawaii', ID: 'idaho', IL: 'illinois', IN: 'indiana', IA: 'iowa', KS: 'kansas',
+  KY: 'kentucky', LA: 'louisiana', ME: 'maine', MD: 'maryland', MA: 'massachusetts',
+  MI: 'michigan', MN: 'minnesota', MS: 'mississippi', MO: 'missouri', MT: 'montana',
+  NE: 'nebraska', NV: 'nevada', NH: 'new hampshire', NJ: 'new jersey', NM: 'new mexico',
+  NY: 'new york', NC: 'north carolina', ND: 'north dakota', OH: 'ohio', OK: 'oklahoma',
+  OR: 'oregon', PA: 'pennsylvania', RI: 'rhode island', SC: 'south carolina', SD: 'south dakota',
+  TN: 'tennessee', TX: 'texas', UT: 'utah', VT: 'vermont', VA: 'virginia', WA: 'washington',
+  WV: 'west virginia', WI: 'wisconsin', WY: 'wyoming',
+}
+
+const JURISDICTIONS: Record<string, string> = { ...PROVINCES, ...STATES }
+
+/**
+ * Province or state code for a location such as "Toronto, ON", "Montréal, Quebec" or "TX"
+ */
+export function resolveJurisdiction(location?: string): string | undefined {
+  if (!location) return undefined
+  const parts = location.split(',').map(part => part.trim()).filter(part => part.length > 0).reverse()
+
+  for (const part of parts) {
+    const normalized = part.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase()
+    const code = normalized.replace(/[^a-z]/g, '').toUpperCase()
+    if (code.length === 2 && JURISDICTIONS[code]) return code
+
+    const byName = Object.keys(JURISDICTIONS).find(key => normalized.indexOf(JURISDICTIONS[key]) === 0)
+    if (byName) return byName
+  }
+  return undefined
+}
+
+/**
+ * Filter brokers to those licensed where the property is and with room for another lead,
+ * then score each on specialty fit, open-lead load, response time against their SLA,
+ * conversion history, language and the borrower's preferred lender
+ */
+export function scoreBrokers(
+  lead: RoutingLead,
+  brokers: BrokerRoutingProfile[],
+  excludeBrokerIds: string[] = []
+): RoutingCandidate[] {
+  const jurisdiction = resolveJurisdiction(lead.location)
+
+  return brokers
+    .map(broker => scoreBroker(lead, jurisdiction, broker, excludeBrokerIds.includes(broker.brokerId)))
+    .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score || compareLastAssigned(a.broker, b.broker))
+}
+
+/**
+ * Score the brokers for a lead and pick one using the distribution strategy
+ */
+export function planRouting(lead: RoutingLead, brokers: BrokerRoutingProfile[], options: RoutingOptions = {}): RoutingDecision {
+  const strategy = options.strategy || 'best_match'
+  const jurisdiction = resolveJurisdiction(lead.location)
+  const candidates = scoreBrokers(lead, brokers, options.excludeBrokerIds)
+  const eligible = candidates.filter(candidate => candidate.eligible)
+  const alternates = options.alternates !== undefined ? options.alternates : 2
+
+  // No alternates, so a returning borrower is never offered to a competing broker
+  const assigned = candidates.find(candidate => candidate.broker.brokerId === options.assignedBrokerId)
+  if (assigned && isLicensed(assigned.broker, jurisdiction) && !(options.excludeBrokerIds || []).includes(assigned.broker.brokerId)) {
+    return {
+      strategy,
+      jurisdiction,
+      selected: assigned,
+      alternates: [],
+      candidates,
+      reason: `Borrower is already working with ${assigned.broker.name}`,
+    }
+  }
+
+  if (eligible.length === 0) {
+    return {
+      strategy,
+      jurisdiction,
+      alternates: [],
+      candidates,
+      reason: candidates.length === 0 ? 'No active brokers' : 'No broker is licensed for this property and has capacity',
+    }
+  }
+
+  let selected = eligible[0]
+  let reason = `Best match with a score of ${selected.score}`
+
+  if (strategy === 'round_robin') {
+    const band = eligible.filter(candidate => candidate.score >= eligible[0].score - ROUND_ROBIN_BAND)
+    selected = band.slice().sort((a, b) => compareLastAssigned(a.broker, b.broker))[0]
+    reason = `Next in rotation among ${band.length} broker${band.length === 1 ? '' : 's'} within ${ROUND_ROBIN_BAND} points of the best match`
+  } else if (strategy === 'weighted') {
+    const weights = eligible.map(candidate => Math.max(candidate.score, 1) * candidate.broker.routingWeight)
+    const total = weights.reduce((sum, weight) => sum + weight, 0)
+    let draw = (options.random || Math.random)() * total
+    const index = weights.findIndex(weight => (draw -= weight) < 0)
+    selected = eligible[index === -1 ? eligible.length - 1 : index]
+    reason = `Drawn with a ${Math.round(weights[eligible.indexOf(selected)] / total * 100)}% share weighted by score and routing weight`
+  }
+
+  return {
+    strategy,
+    jurisdiction,
+    selected,
+    alternates: eligible.filter(candidate => candidate !== selected).slice(0, alternates),
+    candidates,
+    reason,
+  }
+}
+
+function scoreBroker(
+  lead: RoutingLead,
+  jurisdiction: string | undefined,
+  broker: BrokerRoutingProfile,
+  excluded: boolean
+): RoutingCandidate {
+  const reasons: string[] = []
+  let eligible = !excluded
+  if (excluded) reasons.push('Already had this lead')
+
+  // Licensing is a hard requirement
+  const licensed = broker.provincesStates.map(code => code.toUpperCase())
+  if (!jurisdiction) {
+    reasons.push('Property jurisdiction unknown; licensing not checked')
+  } else if (licensed.includes(jurisdiction)) {
+    reasons.push(`Licensed in ${jurisdiction}`)
+  } else {
+    eligible = false
+    reasons.push(`Not licensed in ${jurisdiction}`)
+  }
+
+  // Capacity is a hard limit; below it, lighter load scores higher
+  const openShare = broker.maxOpenLeads > 0 ? broker.openLeads / broker.maxOpenLeads : 1
+  if (openShare >= 1) {
+    eligible = false
+    reasons.push(`At capacity with ${broker.openLeads} of ${broker.maxOpenLeads} open leads`)
+  } else {
+    reasons.push(`${broker.openLeads} of ${broker.maxOpenLeads} open leads`)
+  }
+  const load = ROUTING_WEIGHTS.LOAD * Math.max(0, 1 - openShare)
+
+  // Specialty fit: share of the borrower's needs the broker covers
+  let specialty: number = ROUTING_WEIGHTS.SPECIALTY
+  if (lead.specialties.length > 0) {
+    const covered = lead.specialties.filter(need => broker.specialties.includes(need))
+    specialty = ROUTING_WEIGHTS.SPECIALTY * covered.length / lead.specialties.length
+    covered.forEach(need => reasons.push(`Specializes in ${SPECIALTY_LABELS[need]}`))
+    lead.specialties
+      .filter(need => !covered.includes(need))
+      .forEach(need => reasons.push(`No specialty in ${SPECIALTY_LABELS[need]}`))
+  }
+
+  // Response time: full points within the SLA, none at twice the SLA, half without history
+  let responseTime: number = ROUTING_WEIGHTS.RESPONSE_TIME / 2
+  if (broker.averageResponseHours !== undefined && broker.responseSlaHours > 0) {
+    const overrun = (broker.averageResponseHours - broker.responseSlaHours) / broker.responseSlaHours
+    responseTime = ROUTING_WEIGHTS.RESPONSE_TIME * Math.min(1, Math.max(0, 1 - overrun))
+    reasons.push(`Responds in ${round(broker.averageResponseHours)}h against a ${broker.responseSlaHours}h SLA`)
+  } else {
+    reasons.push('No response time history')
+  }
+
+  // Conversion, with new brokers given half points rather than none
+  let conversion = ROUTING_WEIGHTS.CONVERSION / 2
+  if (broker.conversionRate !== undefined) {
+    conversion = ROUTING_WEIGHTS.CONVERSION * Math.min(1, broker.conversionRate / TARGET_CONVERSION_RATE)
+    reasons.push(`Converts ${round(broker.conversionRate)}% of leads`)
+  }
+
+  let language: number = ROUTING_WEIGHTS.LANGUAGE
+  if (lead.language) {
+    const speaks = broker.languages.map(code => code.toLowerCase()).includes(lead.language.toLowerCase())
+    language = speaks ? ROUTING_WEIGHTS.LANGUAGE : 0
+    reasons.push(speaks ? `Speaks ${lead.language}` : `Does not speak ${lead.language}`)
+  }
+
+  let preferredLender = 0
+  if (lead.preferredLender) {
+    const preferred = lead.preferredLender.toLowerCase()
+    if (broker.company.toLowerCase().includes(preferred) || broker.name.toLowerCase().includes(preferred)) {
+      preferredLender = ROUTING_WEIGHTS.PREFERRED_LENDER_BONUS
+      reasons.push(`Matches preferred lender ${lead.preferredLender}`)
+    }
+  }
+
+  const components = {
+    specialty: round(specialty),
+    load: round(load),
+    responseTime: round(responseTime),
+    conversion: round(conversion),
+    language: round(language),
+    preferredLender,
+  }
+
+  return {
+    broker,
+    eligible,
+    score: round(specialty + load + responseTime + conversion + language + preferredLender),
+    components,
+    reasons,
+  }
+}
+
+function isLicensed(broker: BrokerRoutingProfile, jurisdiction?: string): boolean {
+  return !jurisdiction || broker.provincesStates.map(code => code.toUpperCase()).includes(jurisdiction)
+}
+
+// Never-assigned brokers first, then the longest since their last lead
+function compareLastAssigned(a: BrokerRoutingProfile, b: BrokerRoutingProfile): number {
+  const time = (broker: BrokerRoutingProfile) => broker.lastAssignedAt ? new Date(broker.lastAssignedAt).getTime() : 0
+  return time(a) - time(b)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export class LeadRoutingEngine {
+  constructor(private monitoring: Pick<LeadMonitoringService, 'getBrokerPerformance'> = leadMonitoringService) {}
+
+  /**
+   * Route a lead to a broker and record the decision with the reasons behind it.
+   * The selected broker's last assignment time moves forward for round robin.
+   */
+  async routeLead(lead: RoutingLead, leadReference: string, options: RoutingOptions = {}): Promise<RoutingDecision> {
+    const brokers = await this.loadBrokerProfiles()
+    const decision = planRouting(lead, brokers, options)
+
+    const { error } = await supabaseAdmin
+      .from('lead_routing_decisions')
+      .insert({
+        lead_reference: leadReference,
+        strategy: decision.strategy,
+        jurisdiction: decision.jurisdiction || null,
+        selected_broker_id: decision.selected?.broker.brokerId || null,
+        alternate_broker_ids: decision.alternates.map(candidate => candidate.broker.brokerId),
+        reason: decision.reason,
+        candidates: decision.candidates.map(candidate => ({
+          brokerId: candidate.broker.brokerId,
+          eligible: candidate.eligible,
+          score: candidate.score,
+          components: candidate.components,
+          reasons: candidate.reasons,
+        })),
+        lead,
+      })
+
+    if (error) {
+      throw new Error(`Failed to record routing decision: ${error.message}`)
+    }
+
+    if (decision.selected) {
+      const { error: brokerError } = await supabaseAdmin
+        .from('brokers')
+        .update({ last_assigned_at: new Date().toISOString() })
+        .eq('id', decision.selected.broker.brokerId)
+
+      if (brokerError) {
+        throw new Error(`Failed to update broker assignment: ${brokerError.message}`)
+      }
+    }
+
+    return decision
+  }
+
+  /**
+   * Attach a recorded decision to the lead once it has been saved
+   */
+  async linkDecision(leadReference: string, leadId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('lead_routing_decisions')
+      .update({ lead_id: leadId })
+      .eq('lead_reference', leadReference)
+
+    if (error) {
+      throw new Error(`Failed to link routing decision: ${error.message}`)
+    }
+  }
+
+  /**
+   * Active brokers with their open-lead load and quarterly performance
+   */
+  async loadBrokerProfiles(): Promise<BrokerRoutingProfile[]> {
+    const { data: brokers, error } = await supabaseAdmin
+      .from('brokers')
+      .select('*')
+      .eq('is_active', true)
+
+    if (error) {
+      throw new Error(`Failed to fetch brokers: ${error.message}`)
+    }
+    if (!brokers || brokers.length === 0) return []
+
+    const { data: openLeads, error: leadsError } = await supabaseAdmin
+      .from('leads')
+      .select('broker_id')
+      .in('broker_id', brokers.map(broker => broker.id))
+      .in('status', ['pending', 'contacted'])
+
+    if (leadsError) {
+      throw new Error(`Failed to fetch open leads: ${leadsError.message}`)
+    }
+
+    return Promise.all(brokers.map(async broker => {
+      const performance = await this.monitoring.getBrokerPerformance(broker.id, 'quarter')
+      const contacted = performance.totalLeads > 0 && performance.responseTime > 0
+
+      return {
+        brokerId: broker.id,
+        name: broker.name,
+        company: broker.company,
+        phone: broker.phone,
+        email: broker.email,
+        commissionRate: Number(broker.commission_rate),
+        provincesStates: broker.provinces_states || [],
+        languages: broker.languages || ['en'],
+        specialties: broker.specialties || [],
+        openLeads: (openLeads || []).filter(lead => lead.broker_id === broker.id).length,
+        maxOpenLeads: broker.max_open_leads ?? 25,
+        responseSlaHours: Number(broker.response_sla_hours ?? 4),
+        averageResponseHours: contacted ? performance.responseTime : undefined,
+        conversionRate: performance.totalLeads > 0 ? performance.conversionRate : undefined,
+        routingWeight: Number(broker.routing_weight ?? 1),
+        lastAssignedAt: broker.last_assigned_at || undefined,
+      }
+    }))
+  }
+}
+
+// Export singleton instance
+export const leadRoutingEngine = new LeadRoutingEngine()
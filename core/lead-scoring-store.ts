@@ -0,0 +1,293 @@
+import { z } from 'zod'
+import { supabaseAdmin } from './supabase'
+import {
+  backtestModel,
+  BacktestResult,
+  BacktestSample,
+  DEFAULT_LEAD_SCORING_MODEL,
+  DocumentSignals,
+  LeadScoringModel,
+  LeadScoringModelSchema,
+  LeadScoringSignals,
+} from './lead-scoring'
+
+// Admin changes: store edited weights as a new version, roll back to an earlier one, or backtest a draft
+export const LeadScoringModelRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('save'),
+    model: LeadScoringModelSchema,
+    notes: z.string().max(500).optional(),
+    activate: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('activate'),
+    version: z.number().int().positive(),
+  }),
+  z.object({
+    action: z.literal('backtest'),
+    model: LeadScoringModelSchema,
+    since: z.string().datetime({ offset: true }).optional(),
+    until: z.string().datetime({ offset: true }).optional(),
+    minAgeDays: z.number().int().min(0).max(365).optional(),
+  }),
+])
+
+export type LeadScoringModelRequest = z.infer<typeof LeadScoringModelRequestSchema>
+
+export interface LeadScoringModelVersion {
+  id?: string
+  organizationId?: string
+  // 0 is the built-in default model
+  version: number
+  model: LeadScoringModel
+  notes?: string
+  active: boolean
+  createdBy?: string
+  createdAt?: string
+}
+
+export interface BacktestOptions {
+  since?: string
+  until?: string
+  // Leads younger than this that have not converted or been rejected have no outcome yet
+  minAgeDays?: number
+}
+
+export interface ModelBacktest {
+  // The model under test, and the one currently scoring new leads, over the same leads
+  candidate: BacktestResult
+  active: BacktestResult & { version: number }
+  skipped: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class LeadScoringModelStore {
+  /**
+   * The model an organization's leads are scored with, falling back to the default
+   */
+  async getActiveModel(organizationId?: string): Promise<LeadScoringModelVersion> {
+    if (!organizationId) return this.defaultVersion()
+
+    const { data, error } = await supabaseAdmin
+      .from('lead_scoring_models')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true)
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch lead scoring model: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? this.toModelVersion(data[0]) : this.defaultVersion()
+  }
+
+  /**
+   * Version history of an organization's scoring model, newest first
+   */
+  async getModelVersions(organizationId: string): Promise<LeadScoringModelVersion[]> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_scoring_models')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch lead scoring models: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.toModelVersion(row))
+  }
+
+  /**
+   * Store edited weights and thresholds as the organization's next version, active by default
+   */
+  async saveModelVersion(
+    organizationId: string,
+    model: LeadScoringModel,
+    options: { createdBy?: string; notes?: string; activate?: boolean } = {}
+  ): Promise<LeadScoringModelVersion> {
+    const parsed = LeadScoringModelSchema.parse(model)
+    const versions = await this.getModelVersions(organizationId)
+    const version = versions.length > 0 ? versions[0].version + 1 : 1
+
+    const { data, error } = await supabaseAdmin
+      .from('lead_scoring_models')
+      .insert({
+        organization_id: organizationId,
+        version,
+        model: parsed,
+        notes: options.notes,
+        is_active: false,
+        created_by: options.createdBy,
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to save lead scoring model: ${error?.message}`)
+    }
+
+    if (options.activate === false) return this.toModelVersion(data)
+    return this.activateVersion(organizationId, version)
+  }
+
+  /**
+   * Make a stored version the one new leads are scored with, such as to roll back an edit
+   */
+  async activateVersion(organizationId: string, version: number): Promise<LeadScoringModelVersion> {
+    const { error: deactivateError } = await supabaseAdmin
+      .from('lead_scoring_models')
+      .update({ is_active: false })
+      .eq('organization_id', organizationId)
+      .eq('is_active', true)
+
+    if (deactivateError) {
+      throw new Error(`Failed to deactivate lead scoring model: ${deactivateError.message}`)
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('lead_scoring_models')
+      .update({ is_active: true })
+      .eq('organization_id', organizationId)
+      .eq('version', version)
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to activate lead scoring model version ${version}: ${error?.message}`)
+    }
+
+    return this.toModelVersion(data)
+  }
+
+  /**
+   * How many of an applicant's documents passed verification and how many carry critical flags
+   */
+  async getDocumentSignals(userId: string): Promise<DocumentSignals | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('documents')
+      .select('status')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to fetch documents: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) return undefined
+    return {
+      verified: data.filter(document => document.status === 'verified').length,
+      flagged: data.filter(document => document.status === 'flagged').length,
+    }
+  }
+
+  /**
+   * An organization's leads with a known outcome, converted meaning a conversion was tracked
+   */
+  async getBacktestSamples(
+    organizationId: string,
+    options: BacktestOptions = {},
+    asOf: Date = new Date()
+  ): Promise<{ samples: BacktestSample[]; skipped: number }> {
+    let query = supabaseAdmin
+      .from('leads')
+      .select('id, lead_data, status, created_at')
+      .eq('organization_id', organizationId)
+    if (options.since) query = query.gte('created_at', options.since)
+    if (options.until) query = query.lte('created_at', options.until)
+
+    const { data: leads, error } = await query
+    if (error) {
+      throw new Error(`Failed to fetch leads for backtest: ${error.message}`)
+    }
+    if (!leads || leads.length === 0) return { samples: [], skipped: 0 }
+
+    const { data: conversions, error: conversionError } = await supabaseAdmin
+      .from('conversion_events')
+      .select('lead_id')
+      .in('lead_id', leads.map(lead => lead.id))
+
+    if (conversionError) {
+      throw new Error(`Failed to fetch conversions for backtest: ${conversionError.message}`)
+    }
+
+    const converted = new Set((conversions || []).map(conversion => conversion.lead_id))
+    const maturedBefore = asOf.getTime() - (options.minAgeDays !== undefined ? options.minAgeDays : 30) * DAY_MS
+    const samples: BacktestSample[] = []
+    let skipped = 0
+
+    leads.forEach(lead => {
+      const signals = this.toScoringSignals(lead.lead_data)
+      const hasOutcome = converted.has(lead.id) || lead.status === 'rejected' ||
+        new Date(lead.created_at).getTime() <= maturedBefore
+      if (!signals || !hasOutcome) {
+        skipped++
+        return
+      }
+      samples.push({ leadId: lead.id, signals, converted: converted.has(lead.id) })
+    })
+
+    return { samples, skipped }
+  }
+
+  /**
+   * Re-score an organization's historical leads with a candidate model and with its active model
+   */
+  async backtest(
+    organizationId: string,
+    candidate: LeadScoringModel,
+    options: BacktestOptions = {}
+  ): Promise<ModelBacktest> {
+    const model = LeadScoringModelSchema.parse(candidate)
+    const [active, { samples, skipped }] = await Promise.all([
+      this.getActiveModel(organizationId),
+      this.getBacktestSamples(organizationId, options),
+    ])
+
+    return {
+      candidate: backtestModel(model, samples),
+      active: { ...backtestModel(active.model, samples), version: active.version },
+      skipped,
+    }
+  }
+
+  // Signals recorded when the lead was scored, or rebuilt from the stored application
+  private toScoringSignals(leadData: any): LeadScoringSignals | undefined {
+    if (!leadData) return undefined
+    if (leadData.scoring?.signals) return leadData.scoring.signals
+
+    if (!(leadData.propertyValue > 0) || typeof leadData.income !== 'number') return undefined
+    const cashFlow = leadData.cashFlow
+    return {
+      income: cashFlow?.supportedAnnualIncome > 0 ? Math.min(leadData.income, cashFlow.supportedAnnualIncome) : leadData.income,
+      downPayment: cashFlow?.seasonedFunds !== undefined ? Math.min(leadData.downPayment, cashFlow.seasonedFunds) : leadData.downPayment,
+      propertyValue: leadData.propertyValue,
+      creditScore: leadData.creditScore,
+      employmentType: leadData.employmentType,
+      monthlyDebts: leadData.monthlyDebts || 0,
+      location: leadData.propertyLocation,
+      firstTimeBuyer: leadData.firstTimeBuyer,
+    }
+  }
+
+  private defaultVersion(): LeadScoringModelVersion {
+    return { version: 0, model: DEFAULT_LEAD_SCORING_MODEL, active: true }
+  }
+
+  private toModelVersion(row: any): LeadScoringModelVersion {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      version: row.version,
+      model: row.model,
+      notes: row.notes || undefined,
+      active: !!row.is_active,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+    }
+  }
+}
+
+// Export singleton instance
+export const leadScoringModelStore = new LeadScoringModelStore()
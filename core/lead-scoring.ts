@@ -0,0 +1,451 @@
+import { z } from 'zod'
+import { affordabilityEngine } from './mortgage/affordability-engine'
+
+// Explainable lead scoring. A brokerage's model is a set of weighted features; each one
+// earns a share of its points from the lead's signals and reports why. Everything here
+// is pure; LeadScoringModelStore versions models per organization and runs backtests.
+
+export type ScoringFeature =
+  | 'income'
+  | 'down_payment'
+  | 'credit_score'
+  | 'debt_service'
+  | 'qualification'
+  | 'employment'
+  | 'document_verification'
+  | 'bank_conduct'
+  | 'undisclosed_debt'
+
+export type ScoringTier = 'PREMIUM' | 'STANDARD' | 'COACHING'
+
+export type EmploymentType = 'salaried' | 'self-employed' | 'contract' | 'unemployed'
+
+// Full points at or above the threshold. With a floor the points ramp up linearly from it;
+// without one the feature is all or nothing.
+const ThresholdFeatureSchema = z.object({
+  points: z.number().min(0).max(100),
+  threshold: z.number().min(0),
+  floor: z.number().min(0).optional(),
+}).refine(feature => feature.floor === undefined || feature.floor < feature.threshold, {
+  message: 'Floor must be below the threshold',
+})
+
+const credit = z.number().min(0).max(1)
+
+export const LeadScoringModelSchema = z.object({
+  income: ThresholdFeatureSchema,
+  downPaymentPercent: ThresholdFeatureSchema,
+  creditScore: ThresholdFeatureSchema,
+  // Total debt service at the qualifying rate from the affordability engine. Full points at or
+  // below the maximum, ramping down to none at the ceiling when one is set.
+  debtService: z.object({
+    points: z.number().min(0).max(100),
+    maxRatio: z.number().positive().max(100),
+    ceilingRatio: z.number().positive().max(100).optional(),
+  }).refine(feature => feature.ceilingRatio === undefined || feature.ceilingRatio > feature.maxRatio, {
+    message: 'Ceiling ratio must be above the maximum ratio',
+  }),
+  // Passes the lender qualification rules: B-20 GDS/TDS or QM DTI, and insurability
+  qualification: z.object({
+    points: z.number().min(0).max(100),
+  }),
+  // Share of the points each employment type earns
+  employment: z.object({
+    points: z.number().min(0).max(100),
+    credit: z.object({
+      salaried: credit,
+      'self-employed': credit,
+      contract: credit,
+      unemployed: credit,
+    }),
+  }),
+  // Points for uploaded documents that passed verification, and the deduction while any has a critical flag
+  documents: z.object({
+    verifiedPoints: z.number().min(0).max(100),
+    flaggedPenalty: z.number().min(0).max(100),
+  }),
+  // Deductions when bank transactions show NSF or overdraft events, or debt payments the applicant left out
+  bankConduct: z.object({
+    nsfPenalty: z.number().min(0).max(100),
+    undisclosedDebtPenalty: z.number().min(0).max(100),
+  }),
+  // Minimum scores for each routing tier
+  tiers: z.object({
+    premium: z.number().min(0).max(100),
+    standard: z.number().min(0).max(100),
+  }).refine(tiers => tiers.premium > tiers.standard, {
+    message: 'Premium tier must start above the standard tier',
+  }),
+  // What the affordability engine is run with, since a lead does not pick a rate or term
+  assumptions: z.object({
+    country: z.enum(['CA', 'US']),
+    interestRate: z.number().positive().max(25),
+    amortizationYears: z.number().int().min(5).max(40),
+    // Annual property tax as a percent of the property value
+    propertyTaxRate: z.number().min(0).max(5),
+    monthlyHeating: z.number().min(0),
+  }),
+}).refine(model => maxScore(model) === 100, {
+  message: 'Feature points must add up to 100',
+})
+
+export type LeadScoringModel = z.infer<typeof LeadScoringModelSchema>
+
+// Reproduces the original fixed criteria, with TDS now taken from the affordability engine
+export const DEFAULT_LEAD_SCORING_MODEL: LeadScoringModel = {
+  income: { points: 20, threshold: 75000 },
+  downPaymentPercent: { points: 25, threshold: 20 },
+  creditScore: { points: 30, threshold: 700 },
+  debtService: { points: 10, maxRatio: 35 },
+  qualification: { points: 0 },
+  employment: {
+    points: 15,
+    credit: { salaried: 1, 'self-employed': 0, contract: 0, unemployed: 0 },
+  },
+  documents: { verifiedPoints: 0, flaggedPenalty: 10 },
+  bankConduct: { nsfPenalty: 10, undisclosedDebtPenalty: 10 },
+  tiers: { premium: 70, standard: 50 },
+  assumptions: {
+    country: 'CA',
+    interestRate: 5,
+    amortizationYears: 25,
+    propertyTaxRate: 1,
+    monthlyHeating: 100,
+  },
+}
+
+// The features that award points, typed apart from the schema it validates
+interface PositiveFeatures {
+  income: { points: number }
+  downPaymentPercent: { points: number }
+  creditScore: { points: number }
+  debtService: { points: number }
+  qualification: { points: number }
+  employment: { points: number }
+  documents: { verifiedPoints: number }
+}
+
+export interface DocumentSignals {
+  verified: number
+  // Documents with a critical verification flag
+  flagged: number
+}
+
+export interface BankConductSignals {
+  accountEvents: number
+  undisclosedMonthlyDebt: number
+}
+
+// What a lead is scored on. Income and down payment are the figures bank data supports.
+export interface LeadScoringSignals {
+  income: number
+  downPayment: number
+  propertyValue: number
+  creditScore: number
+  employmentType: EmploymentType
+  monthlyDebts: number
+  location?: string
+  firstTimeBuyer?: boolean
+  documents?: DocumentSignals
+  bankConduct?: BankConductSignals
+}
+
+export interface FeatureContribution {
+  feature: ScoringFeature
+  // The signal the feature read
+  value?: number
+  // Points earned; negative for deductions
+  points: number
+  maxPoints: number
+  reason: string
+}
+
+export interface LeadScoreResult {
+  score: number
+  tier: ScoringTier
+  contributions: FeatureContribution[]
+  affordability: {
+    gdsRatio: number
+    tdsRatio: number
+    qualifyingRate: number
+    qualifies: boolean
+  }
+}
+
+export interface TierOutcome {
+  leads: number
+  conversions: number
+  conversionRate: number
+}
+
+export interface BacktestSample {
+  leadId: string
+  signals: LeadScoringSignals
+  converted: boolean
+}
+
+export interface BacktestResult {
+  sampleSize: number
+  conversions: number
+  conversionRate: number
+  tiers: Record<ScoringTier, TierOutcome>
+  averageScore: { converted: number; notConverted: number }
+  // Chance that a converted lead outscores one that did not convert; 0.5 is no better than a coin flip
+  auc: number
+  // Premium conversion rate over the overall rate
+  premiumLift: number
+}
+
+/**
+ * Points available from the positive features
+ */
+export function maxScore(model: PositiveFeatures): number {
+  return model.income.points + model.downPaymentPercent.points + model.creditScore.points +
+    model.debtService.points + model.qualification.points + model.employment.points + model.documents.verifiedPoints
+}
+
+/**
+ * Routing tier for a score under the model's cutoffs
+ */
+export function scoringTier(score: number, model: LeadScoringModel = DEFAULT_LEAD_SCORING_MODEL): ScoringTier {
+  if (score >= model.tiers.premium) return 'PREMIUM'
+  if (score >= model.tiers.standard) return 'STANDARD'
+  return 'COACHING'
+}
+
+/**
+ * Score a lead and explain each feature's contribution
+ */
+export function scoreLead(signals: LeadScoringSignals, model: LeadScoringModel = DEFAULT_LEAD_SCORING_MODEL): LeadScoreResult {
+  const { assumptions } = model
+  const affordability = affordabilityEngine.calculate({
+    country: assumptions.country,
+    income: signals.income,
+    debts: signals.monthlyDebts + (signals.bankConduct?.undisclosedMonthlyDebt || 0),
+    downPayment: signals.downPayment,
+    propertyPrice: signals.propertyValue,
+    interestRate: assumptions.interestRate,
+    termYears: assumptions.amortizationYears,
+    location: signals.location || '',
+    taxes: signals.propertyValue * assumptions.propertyTaxRate / 100 / 12,
+    heating: assumptions.country === 'CA' ? assumptions.monthlyHeating : undefined,
+    creditScore: signals.creditScore,
+    firstTimeBuyer: signals.firstTimeBuyer,
+  })
+
+  const downPaymentPercent = signals.propertyValue > 0 ? signals.downPayment / signals.propertyValue * 100 : 0
+  const contributions: FeatureContribution[] = [
+    thresholdContribution('income', 'Income', signals.income, model.income, formatCurrency),
+    thresholdContribution('down_payment', 'Down payment', downPaymentPercent, model.downPaymentPercent, formatPercent),
+    thresholdContribution('credit_score', 'Credit score', signals.creditScore, model.creditScore, value => String(Math.round(value))),
+    debtServiceContribution(affordability.tdsRatio, model.debtService),
+    {
+      feature: 'qualification',
+      points: affordability.qualificationResult ? model.qualification.points : 0,
+      maxPoints: model.qualification.points,
+      reason: affordability.qualificationResult
+        ? `Qualifies at the ${formatPercent(affordability.qualifyingRate)} qualifying rate`
+        : `Does not qualify at the ${formatPercent(affordability.qualifyingRate)} qualifying rate`,
+    },
+    employmentContribution(signals.employmentType, model.employment),
+  ]
+
+  if (signals.documents) {
+    contributions.push(documentContribution(signals.documents, model.documents))
+  }
+
+  if (signals.bankConduct) {
+    const { accountEvents, undisclosedMonthlyDebt } = signals.bankConduct
+    contributions.push({
+      feature: 'bank_conduct',
+      value: accountEvents,
+      points: accountEvents > 0 ? -model.bankConduct.nsfPenalty : 0,
+      maxPoints: 0,
+      reason: accountEvents > 0
+        ? `${accountEvents} NSF or overdraft ${accountEvents === 1 ? 'event' : 'events'} in bank transactions`
+        : 'No NSF or overdraft events in bank transactions',
+    })
+    contributions.push({
+      feature: 'undisclosed_debt',
+      value: round(undisclosedMonthlyDebt),
+      points: undisclosedMonthlyDebt > 0 ? -model.bankConduct.undisclosedDebtPenalty : 0,
+      maxPoints: 0,
+      reason: undisclosedMonthlyDebt > 0
+        ? `${formatCurrency(undisclosedMonthlyDebt)} a month in debt payments not disclosed`
+        : 'All debt payments in bank transactions were disclosed',
+    })
+  }
+
+  const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0)
+  const score = Math.min(100, Math.max(0, Math.round(total)))
+
+  return {
+    score,
+    tier: scoringTier(score, model),
+    contributions,
+    affordability: {
+      gdsRatio: affordability.gdsRatio,
+      tdsRatio: affordability.tdsRatio,
+      qualifyingRate: affordability.qualifyingRate,
+      qualifies: affordability.qualificationResult,
+    },
+  }
+}
+
+/**
+ * Re-score historical leads under a model and measure how well the scores separate
+ * the leads that converted from those that did not
+ */
+export function backtestModel(model: LeadScoringModel, samples: BacktestSample[]): BacktestResult {
+  const scored = samples.map(sample => ({ score: scoreLead(sample.signals, model).score, converted: sample.converted }))
+  const conversions = scored.filter(sample => sample.converted).length
+
+  const tiers: Record<ScoringTier, TierOutcome> = {
+    PREMIUM: { leads: 0, conversions: 0, conversionRate: 0 },
+    STANDARD: { leads: 0, conversions: 0, conversionRate: 0 },
+    COACHING: { leads: 0, conversions: 0, conversionRate: 0 },
+  }
+  scored.forEach(sample => {
+    const outcome = tiers[scoringTier(sample.score, model)]
+    outcome.leads++
+    if (sample.converted) outcome.conversions++
+  })
+  Object.keys(tiers).forEach(tier => {
+    const outcome = tiers[tier as ScoringTier]
+    outcome.conversionRate = outcome.leads > 0 ? round(outcome.conversions / outcome.leads * 100) : 0
+  })
+
+  const conversionRate = scored.length > 0 ? round(conversions / scored.length * 100) : 0
+
+  return {
+    sampleSize: scored.length,
+    conversions,
+    conversionRate,
+    tiers,
+    averageScore: {
+      converted: average(scored.filter(sample => sample.converted).map(sample => sample.score)),
+      notConverted: average(scored.filter(sample => !sample.converted).map(sample => sample.score)),
+    },
+    auc: areaUnderCurve(scored),
+    premiumLift: conversionRate > 0 ? round(tiers.PREMIUM.conversionRate / conversionRate) : 0,
+  }
+}
+
+function thresholdContribution(
+  feature: ScoringFeature,
+  label: string,
+  value: number,
+  config: { points: number; threshold: number; floor?: number },
+  format: (value: number) => string
+): FeatureContribution {
+  let share: number
+  let reason: string
+  if (value >= config.threshold) {
+    share = 1
+    reason = `${label} of ${format(value)} meets the ${format(config.threshold)} threshold`
+  } else if (config.floor !== undefined && value > config.floor) {
+    share = (value - config.floor) / (config.threshold - config.floor)
+    reason = `${label} of ${format(value)} is between the ${format(config.floor)} floor and the ${format(config.threshold)} threshold`
+  } else {
+    share = 0
+    reason = `${label} of ${format(value)} is below the ${format(config.floor !== undefined ? config.floor : config.threshold)} ${config.floor !== undefined ? 'floor' : 'threshold'}`
+  }
+
+  return { feature, value: round(value), points: round(config.points * share), maxPoints: config.points, reason }
+}
+
+function debtServiceContribution(
+  tdsRatio: number,
+  config: LeadScoringModel['debtService']
+): FeatureContribution {
+  let share: number
+  let reason: string
+  if (tdsRatio <= config.maxRatio) {
+    share = 1
+    reason = `TDS of ${formatPercent(tdsRatio)} is within the ${formatPercent(config.maxRatio)} maximum`
+  } else if (config.ceilingRatio !== undefined && tdsRatio < config.ceilingRatio) {
+    share = (config.ceilingRatio - tdsRatio) / (config.ceilingRatio - config.maxRatio)
+    reason = `TDS of ${formatPercent(tdsRatio)} is between the ${formatPercent(config.maxRatio)} maximum and the ${formatPercent(config.ceilingRatio)} ceiling`
+  } else {
+    share = 0
+    reason = `TDS of ${formatPercent(tdsRatio)} is above the ${formatPercent(config.ceilingRatio !== undefined ? config.ceilingRatio : config.maxRatio)} ${config.ceilingRatio !== undefined ? 'ceiling' : 'maximum'}`
+  }
+
+  return { feature: 'debt_service', value: tdsRatio, points: round(config.points * share), maxPoints: config.points, reason }
+}
+
+function employmentContribution(
+  employmentType: EmploymentType,
+  config: LeadScoringModel['employment']
+): FeatureContribution {
+  const share = config.credit[employmentType]
+  return {
+    feature: 'employment',
+    points: round(config.points * share),
+    maxPoints: config.points,
+    reason: `${employmentType.charAt(0).toUpperCase()}${employmentType.slice(1)} employment earns ${Math.round(share * 100)}% of the points`,
+  }
+}
+
+function documentContribution(
+  documents: DocumentSignals,
+  config: LeadScoringModel['documents']
+): FeatureContribution {
+  if (documents.flagged > 0) {
+    return {
+      feature: 'document_verification',
+      value: documents.flagged,
+      points: -config.flaggedPenalty,
+      maxPoints: config.verifiedPoints,
+      reason: `${documents.flagged} ${documents.flagged === 1 ? 'document has' : 'documents have'} critical verification flags`,
+    }
+  }
+
+  return {
+    feature: 'document_verification',
+    value: documents.verified,
+    points: documents.verified > 0 ? config.verifiedPoints : 0,
+    maxPoints: config.verifiedPoints,
+    reason: documents.verified > 0
+      ? `${documents.verified} ${documents.verified === 1 ? 'document' : 'documents'} verified`
+      : 'No verified documents yet',
+  }
+}
+
+// Rank-based area under the ROC curve, with tied scores counted as half
+function areaUnderCurve(scored: Array<{ score: number; converted: boolean }>): number {
+  const positives = scored.filter(sample => sample.converted).length
+  const negatives = scored.length - positives
+  if (positives === 0 || negatives === 0) return 0.5
+
+  const sorted = scored.slice().sort((a, b) => a.score - b.score)
+  let positiveRankSum = 0
+  for (let start = 0; start < sorted.length;) {
+    let end = start
+    while (end < sorted.length && sorted[end].score === sorted[start].score) end++
+    // Average of ranks start + 1 through end
+    const rank = (start + 1 + end) / 2
+    for (let i = start; i < end; i++) {
+      if (sorted[i].converted) positiveRankSum += rank
+    }
+    start = end
+  }
+
+  return round((positiveRankSum - positives * (positives + 1) / 2) / (positives * negatives))
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0
+}
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`
+}
+
+function formatPercent(value: number): string {
+  return `${round(value)}%`
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
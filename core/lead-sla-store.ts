@@ -0,0 +1,427 @@
+import { z } from 'zod'
+import { supabaseAdmin } from './supabase'
+import { brokerNotificationService } from './broker-notifications'
+import { LeadRoutingEngine, leadRoutingEngine, RoutingLead } from './lead-routing'
+import {
+  dueEscalation,
+  EscalationStep,
+  FirstContactSource,
+  LeadSlaTier,
+  LeadSlaTimer,
+  slaDueAt,
+  toLeadSlaTimer,
+} from './lead-sla'
+
+// First contact logged in a connected CRM, posted back to us
+export const FirstContactCallbackSchema = z.object({
+  leadId: z.string().min(1),
+  contactedAt: z.string().datetime({ offset: true }).optional(),
+})
+
+export type FirstContactCallback = z.infer<typeof FirstContactCallbackSchema>
+
+export type LeadSlaEventType = 'started' | 'first_contact' | 'breached' | EscalationStep | 'reassignment_failed' | 'transferred'
+
+export interface LeadSlaEvent {
+  id: string
+  timerId: string
+  leadId: string
+  eventType: LeadSlaEventType
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+export interface SlaCheckResult {
+  breached: string[]
+  reminded: string[]
+  alerted: string[]
+  reassigned: Array<{ leadId: string; fromBrokerId: string; toBrokerId: string }>
+  // Leads due for reassignment with no other eligible broker
+  unassigned: string[]
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export class LeadSlaStore {
+  constructor(private routing: Pick<LeadRoutingEngine, 'routeLead' | 'linkDecision'> = leadRoutingEngine) {}
+
+  /**
+   * Start the first-contact timer when a lead is assigned to a broker
+   */
+  async startTimer(leadId: string, brokerId: string, tier: LeadSlaTier, startedAt: Date = new Date()): Promise<LeadSlaTimer> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .insert({
+        lead_id: leadId,
+        broker_id: brokerId,
+        tier,
+        started_at: startedAt.toISOString(),
+        due_at: slaDueAt(tier, startedAt).toISOString(),
+        escalation_level: 0,
+        status: 'running',
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to start lead SLA timer: ${error?.message}`)
+    }
+
+    const timer = toLeadSlaTimer(data)
+    await this.recordEvent(timer, 'started', { brokerId, dueAt: timer.dueAt })
+    return timer
+  }
+
+  /**
+   * Stop the running timer on the broker's first contact, from the dashboard or a CRM callback.
+   * A pending lead moves to contacted. Returns null when no timer is running for the lead.
+   */
+  async recordFirstContact(
+    leadId: string,
+    source: FirstContactSource,
+    contactedAt: Date = new Date()
+  ): Promise<LeadSlaTimer | null> {
+    const timer = await this.getRunningTimer(leadId)
+    if (!timer) return null
+
+    const late = contactedAt.getTime() > new Date(timer.dueAt).getTime()
+    const updated = await this.updateTimer(timer.id, {
+      first_contact_at: contactedAt.toISOString(),
+      first_contact_source: source,
+      status: 'met',
+      breached_at: late ? timer.breachedAt || timer.dueAt : null,
+    })
+    await this.recordEvent(updated, 'first_contact', {
+      source,
+      withinSla: !late,
+      hoursToContact: Math.round((contactedAt.getTime() - new Date(timer.startedAt).getTime()) / HOUR_MS * 100) / 100,
+    })
+
+    const { error } = await supabaseAdmin
+      .from('leads')
+      .update({ status: 'contacted', updated_at: contactedAt.toISOString() })
+      .eq('id', leadId)
+      .eq('status', 'pending')
+
+    if (error) {
+      throw new Error(`Failed to update lead status: ${error.message}`)
+    }
+
+    return updated
+  }
+
+  /**
+   * Hand the running timer to a broker the lead moved to outside routing, e.g. an owner change
+   * in a CRM. The new broker gets a fresh deadline. Returns null when no timer is running for
+   * the lead or it already belongs to that broker.
+   */
+  async transferTimer(
+    leadId: string,
+    toBrokerId: string,
+    source: FirstContactSource,
+    transferredAt: Date = new Date()
+  ): Promise<LeadSlaTimer | null> {
+    const timer = await this.getRunningTimer(leadId)
+    if (!timer || timer.brokerId === toBrokerId) return null
+
+    const transferred = await this.updateTimer(timer.id, { status: 'reassigned' })
+    await this.recordEvent(transferred, 'transferred', { source, toBrokerId })
+    return this.startTimer(leadId, toBrokerId, timer.tier, transferredAt)
+  }
+
+  /**
+   * Timers for a broker's leads, newest first
+   */
+  async getBrokerTimers(brokerId: string): Promise<LeadSlaTimer[]> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .select('*')
+      .eq('broker_id', brokerId)
+      .order('started_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch lead SLA timers: ${error.message}`)
+    }
+
+    return (data || []).map(toLeadSlaTimer)
+  }
+
+  async getTimerEvents(timerId: string): Promise<LeadSlaEvent[]> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_sla_events')
+      .select('*')
+      .eq('timer_id', timerId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch lead SLA events: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      timerId: row.timer_id,
+      leadId: row.lead_id,
+      eventType: row.event_type,
+      details: row.details || {},
+      createdAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Mark lapsed timers as breached and take the next escalation step on each: remind the
+   * broker, then alert their team lead, then reassign the lead to the next broker from the
+   * routing engine. Meant to run on a schedule.
+   */
+  async runSlaCheck(asOf: Date = new Date()): Promise<SlaCheckResult> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .select('*')
+      .eq('status', 'running')
+
+    if (error) {
+      throw new Error(`Failed to fetch lead SLA timers: ${error.message}`)
+    }
+
+    const result: SlaCheckResult = { breached: [], reminded: [], alerted: [], reassigned: [], unassigned: [] }
+    const lapsed = (data || []).map(toLeadSlaTimer)
+      .filter(timer => !timer.firstContactAt && asOf.getTime() >= new Date(timer.dueAt).getTime())
+    if (lapsed.length === 0) return result
+
+    const brokers = await this.getBrokers(lapsed.map(timer => timer.brokerId))
+    const leads = await this.getLeads(lapsed.map(timer => timer.leadId))
+
+    for (let timer of lapsed) {
+      const lead = leads.get(timer.leadId)
+
+      // Moved on without a recorded first contact, e.g. rejected by the broker
+      if (!lead || lead.status !== 'pending') {
+        await this.updateTimer(timer.id, { status: 'closed' })
+        continue
+      }
+
+      if (!timer.breachedAt) {
+        timer = await this.updateTimer(timer.id, { breached_at: timer.dueAt })
+        await this.recordEvent(timer, 'breached', { dueAt: timer.dueAt })
+        result.breached.push(timer.leadId)
+      }
+
+      const step = dueEscalation(timer, asOf)
+      if (!step) continue
+
+      const broker = brokers.get(timer.brokerId)
+      const hoursOverdue = Math.round((asOf.getTime() - new Date(timer.dueAt).getTime()) / HOUR_MS * 100) / 100
+
+      if (step === 'reminder') {
+        if (broker) {
+          await this.notify(step, { name: broker.name, email: broker.email, phone: broker.phone }, broker, lead, timer, hoursOverdue)
+        }
+        await this.escalate(timer, step, { hoursOverdue })
+        result.reminded.push(timer.leadId)
+      } else if (step === 'team_lead_alert') {
+        const teamLead = await this.getTeamLead(broker)
+        if (teamLead) {
+          await this.notify(step, teamLead, broker, lead, timer, hoursOverdue)
+        }
+        await this.escalate(timer, step, { hoursOverdue, teamLead: teamLead?.email || null })
+        result.alerted.push(timer.leadId)
+      } else {
+        const toBrokerId = await this.reassign(timer, lead, hoursOverdue)
+        if (toBrokerId) {
+          result.reassigned.push({ leadId: timer.leadId, fromBrokerId: timer.brokerId, toBrokerId })
+        } else {
+          result.unassigned.push(timer.leadId)
+        }
+      }
+    }
+
+    return result
+  }
+
+  // Route the lead again, skipping every broker who has already had it, and restart the clock
+  private async reassign(timer: LeadSlaTimer, lead: any, hoursOverdue: number): Promise<string | undefined> {
+    const { data: previous, error } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .select('broker_id')
+      .eq('lead_id', timer.leadId)
+
+    if (error) {
+      throw new Error(`Failed to fetch lead SLA timers: ${error.message}`)
+    }
+
+    const excludeBrokerIds = Array.from(new Set((previous || []).map(row => row.broker_id as string)))
+    const decision = await this.routing.routeLead(await this.getRoutingLead(timer.leadId), timer.leadId, { excludeBrokerIds })
+    await this.routing.linkDecision(timer.leadId, timer.leadId)
+
+    if (!decision.selected) {
+      await this.escalate(timer, 'reassignment', { hoursOverdue, toBrokerId: null }, 'reassignment_failed')
+      return undefined
+    }
+
+    const toBroker = decision.selected.broker
+    const toBrokerId = toBroker.brokerId
+    const { error: leadError } = await supabaseAdmin
+      .from('leads')
+      .update({ broker_id: toBrokerId, updated_at: new Date().toISOString() })
+      .eq('id', timer.leadId)
+
+    if (leadError) {
+      throw new Error(`Failed to reassign lead: ${leadError.message}`)
+    }
+
+    await this.escalate(timer, 'reassignment', { hoursOverdue, toBrokerId, reason: decision.reason }, 'reassignment', 'reassigned')
+    await this.startTimer(timer.leadId, toBrokerId, timer.tier)
+
+    await brokerNotificationService.sendNotifications({
+      brokerId: toBrokerId,
+      brokerName: toBroker.name,
+      brokerEmail: toBroker.email,
+      brokerPhone: toBroker.phone,
+      company: toBroker.company,
+      leadId: timer.leadId,
+      leadName: lead.name,
+      leadEmail: lead.email,
+      leadPhone: lead.phone,
+      leadScore: lead.lead_score,
+      qualificationTier: timer.tier,
+      propertyValue: lead.lead_data?.propertyValue || 0,
+      downPayment: lead.lead_data?.downPayment || 0,
+      income: lead.lead_data?.income || 0,
+      creditScore: lead.lead_data?.creditScore || 0,
+      additionalInfo: lead.lead_data?.additionalInfo,
+    })
+    return toBrokerId
+  }
+
+  private async escalate(
+    timer: LeadSlaTimer,
+    step: EscalationStep,
+    details: Record<string, unknown>,
+    eventType: LeadSlaEventType = step,
+    status: LeadSlaTimer['status'] = timer.status
+  ): Promise<void> {
+    const level = timer.escalationLevel + 1
+    await this.updateTimer(timer.id, { escalation_level: level, status })
+    await this.recordEvent(timer, eventType, { ...details, level })
+  }
+
+  private async notify(
+    step: 'reminder' | 'team_lead_alert',
+    recipient: { name: string; email: string; phone?: string },
+    broker: any,
+    lead: any,
+    timer: LeadSlaTimer,
+    hoursOverdue: number
+  ): Promise<void> {
+    await brokerNotificationService.sendLeadSlaNotification({
+      step,
+      recipientName: recipient.name,
+      recipientEmail: recipient.email,
+      recipientPhone: recipient.phone,
+      brokerName: broker?.name || 'The assigned broker',
+      leadId: timer.leadId,
+      leadName: lead.name,
+      qualificationTier: timer.tier,
+      dueAt: timer.dueAt,
+      hoursOverdue,
+    })
+  }
+
+  // The routing inputs recorded with the lead's most recent routing decision
+  private async getRoutingLead(leadId: string): Promise<RoutingLead> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_routing_decisions')
+      .select('lead')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch routing decision: ${error.message}`)
+    }
+
+    return data?.[0]?.lead || { specialties: [] }
+  }
+
+  // The broker's team lead, or the escalation inbox when none is set
+  private async getTeamLead(broker: any): Promise<{ name: string; email: string; phone?: string } | undefined> {
+    if (broker?.team_lead_id) {
+      const teamLeads = await this.getBrokers([broker.team_lead_id])
+      const teamLead = teamLeads.get(broker.team_lead_id)
+      if (teamLead) return { name: teamLead.name, email: teamLead.email, phone: teamLead.phone }
+    }
+
+    const email = process.env.LEAD_ESCALATION_EMAIL
+    return email ? { name: 'Team lead', email } : undefined
+  }
+
+  private async getRunningTimer(leadId: string): Promise<LeadSlaTimer | null> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .select('*')
+      .eq('lead_id', leadId)
+      .eq('status', 'running')
+
+    if (error) {
+      throw new Error(`Failed to fetch lead SLA timer: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? toLeadSlaTimer(data[0]) : null
+  }
+
+  private async updateTimer(timerId: string, update: Record<string, unknown>): Promise<LeadSlaTimer> {
+    const { data, error } = await supabaseAdmin
+      .from('lead_sla_timers')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', timerId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to update lead SLA timer: ${error?.message}`)
+    }
+
+    return toLeadSlaTimer(data)
+  }
+
+  private async recordEvent(timer: LeadSlaTimer, eventType: LeadSlaEventType, details: Record<string, unknown>): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('lead_sla_events')
+      .insert({ timer_id: timer.id, lead_id: timer.leadId, broker_id: timer.brokerId, event_type: eventType, details })
+
+    if (error) {
+      throw new Error(`Failed to record lead SLA event: ${error.message}`)
+    }
+  }
+
+  private async getBrokers(brokerIds: string[]): Promise<Map<string, any>> {
+    const ids = Array.from(new Set(brokerIds))
+    if (ids.length === 0) return new Map()
+
+    const { data, error } = await supabaseAdmin
+      .from('brokers')
+      .select('id, name, email, phone, team_lead_id')
+      .in('id', ids)
+
+    if (error) {
+      throw new Error(`Failed to fetch brokers: ${error.message}`)
+    }
+
+    return new Map((data || []).map(broker => [broker.id, broker] as [string, any]))
+  }
+
+  private async getLeads(leadIds: string[]): Promise<Map<string, any>> {
+    const { data, error } = await supabaseAdmin
+      .from('leads')
+      .select('id, name, email, phone, status, lead_score, lead_data')
+      .in('id', Array.from(new Set(leadIds)))
+
+    if (error) {
+      throw new Error(`Failed to fetch leads: ${error.message}`)
+    }
+
+    return new Map((data || []).map(lead => [lead.id, lead] as [string, any]))
+  }
+}
+
+// Export singleton instance
+export const leadSlaStore = new LeadSlaStore()
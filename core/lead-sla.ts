@@ -0,0 +1,145 @@
+// First-contact service levels for assigned leads and the escalation ladder when one lapses.
+// Everything here is pure; LeadSlaStore persists timers and runs the escalations.
+
+export type LeadSlaTier = 'PREMIUM' | 'STANDARD' | 'COACHING'
+
+export type EscalationStep = 'reminder' | 'team_lead_alert' | 'reassignment'
+
+export type FirstContactSource = 'dashboard' | 'crm'
+
+// running until the broker makes first contact (met) or the lead moves to another broker (reassigned)
+export type LeadSlaStatus = 'running' | 'met' | 'reassigned' | 'closed'
+
+export interface LeadSlaPolicy {
+  // Hours from assignment to first contact, as promised to the borrower
+  firstContactHours: number
+  // Hours past the deadline at which each escalation step fires
+  escalationHours: Record<EscalationStep, number>
+}
+
+export const LEAD_SLA_POLICIES: Record<LeadSlaTier, LeadSlaPolicy> = {
+  PREMIUM: { firstContactHours: 2, escalationHours: { reminder: 0, team_lead_alert: 1, reassignment: 2 } },
+  STANDARD: { firstContactHours: 4, escalationHours: { reminder: 0, team_lead_alert: 2, reassignment: 4 } },
+  COACHING: { firstContactHours: 24, escalationHours: { reminder: 0, team_lead_alert: 12, reassignment: 24 } },
+}
+
+// Steps run in this order, one per check, so a lead is never reassigned before its broker was reminded
+export const ESCALATION_LADDER: EscalationStep[] = ['reminder', 'team_lead_alert', 'reassignment']
+
+export interface LeadSlaTimer {
+  id: string
+  leadId: string
+  brokerId: string
+  tier: LeadSlaTier
+  startedAt: string
+  dueAt: string
+  firstContactAt?: string
+  firstContactSource?: FirstContactSource
+  // Number of ladder steps taken
+  escalationLevel: number
+  status: LeadSlaStatus
+  breachedAt?: string
+}
+
+export interface LeadSlaMetrics {
+  activeTimers: number
+  // Running timers past their deadline
+  overdue: number
+  metWithinSla: number
+  breached: number
+  // Percent of timers with a known outcome that breached
+  breachRate: number
+  averageFirstContactHours: number
+  escalations: Record<EscalationStep, number>
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * First-contact deadline for a lead assigned at the given time
+ */
+export function slaDueAt(tier: LeadSlaTier, startedAt: Date): Date {
+  return new Date(startedAt.getTime() + LEAD_SLA_POLICIES[tier].firstContactHours * HOUR_MS)
+}
+
+/**
+ * The next escalation step, if it has come due. Nothing is due once the broker has made contact.
+ */
+export function dueEscalation(timer: LeadSlaTimer, asOf: Date = new Date()): EscalationStep | undefined {
+  if (timer.status !== 'running' || timer.firstContactAt) return undefined
+
+  const step = ESCALATION_LADDER[timer.escalationLevel]
+  if (!step) return undefined
+
+  const firesAt = new Date(timer.dueAt).getTime() + LEAD_SLA_POLICIES[timer.tier].escalationHours[step] * HOUR_MS
+  return asOf.getTime() >= firesAt ? step : undefined
+}
+
+/**
+ * Whether first contact came, or is still outstanding, after the deadline
+ */
+export function isSlaBreached(timer: LeadSlaTimer, asOf: Date = new Date()): boolean {
+  if (timer.breachedAt) return true
+  if (timer.firstContactAt) return new Date(timer.firstContactAt).getTime() > new Date(timer.dueAt).getTime()
+  return timer.status === 'running' && asOf.getTime() >= new Date(timer.dueAt).getTime()
+}
+
+/**
+ * Hours from assignment to first contact
+ */
+export function firstContactHours(timer: LeadSlaTimer): number | undefined {
+  if (!timer.firstContactAt) return undefined
+  return (new Date(timer.firstContactAt).getTime() - new Date(timer.startedAt).getTime()) / HOUR_MS
+}
+
+/**
+ * Breach and escalation counts across a set of timers
+ */
+export function summarizeSlaTimers(timers: LeadSlaTimer[], asOf: Date = new Date()): LeadSlaMetrics {
+  const running = timers.filter(timer => timer.status === 'running')
+  const breached = timers.filter(timer => isSlaBreached(timer, asOf))
+  const contacted = timers.filter(timer => timer.firstContactAt)
+  const metWithinSla = contacted.filter(timer => !isSlaBreached(timer, asOf)).length
+  const decided = metWithinSla + breached.length
+  const contactHours = contacted.map(timer => firstContactHours(timer) as number)
+
+  const escalations = { reminder: 0, team_lead_alert: 0, reassignment: 0 }
+  timers.forEach(timer => {
+    ESCALATION_LADDER.slice(0, timer.escalationLevel).forEach(step => escalations[step]++)
+  })
+
+  return {
+    activeTimers: running.length,
+    overdue: running.filter(timer => !timer.firstContactAt && isSlaBreached(timer, asOf)).length,
+    metWithinSla,
+    breached: breached.length,
+    breachRate: decided > 0 ? round(breached.length / decided * 100) : 0,
+    averageFirstContactHours: contactHours.length > 0
+      ? round(contactHours.reduce((sum, hours) => sum + hours, 0) / contactHours.length)
+      : 0,
+    escalations,
+  }
+}
+
+/**
+ * Map a lead_sla_timers row
+ */
+export function toLeadSlaTimer(row: any): LeadSlaTimer {
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    brokerId: row.broker_id,
+    tier: row.tier,
+    startedAt: row.started_at,
+    dueAt: row.due_at,
+    firstContactAt: row.first_contact_at || undefined,
+    firstContactSource: row.first_contact_source || undefined,
+    escalationLevel: row.escalation_level || 0,
+    status: row.status,
+    breachedAt: row.breached_at || undefined,
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,392 @@
+import type { AffordabilityResult } from '../openai'
+import type { MaxPriceConstraint, MaxPriceLimit, MaxPriceSolution } from '../scenario-types'
+import { CompoundingConvention, calculateLevelPayment, getCompoundingConvention, getPeriodicRate } from './amortization'
+import {
+  CA_DEFAULT_INSURANCE_RULES,
+  CanadianInsurer,
+  USLoanProgram,
+  calculateMortgageInsurance,
+  getCanadianMaximumPrice,
+} from './mortgage-insurance'
+
+// Version stamped on every calculation so a quote can be reproduced later
+export const AFFORDABILITY_ENGINE_VERSION = '1.3.0'
+
+// Width of the price bands used to show what it takes to afford the next step up
+export const PRICE_BAND_STEP = 25000
+
+const MAX_PRICE_CONSTRAINT_LABELS: Record<MaxPriceConstraint, string> = {
+  gds: 'Gross debt service (GDS)',
+  tds: 'Total debt service (TDS)',
+  dti: 'Debt-to-income (DTI)',
+  min_down_payment: 'Minimum down payment',
+  insured_cap: 'Insured mortgage price cap',
+}
+
+// OSFI Guideline B-20 qualification rules (Canada)
+export const OSFI_B20_RULES = {
+  GDS_LIMIT: 32,
+  TDS_LIMIT: 44,
+  STRESS_TEST_BUFFER: 2,
+  STRESS_TEST_FLOOR: 5.25,
+  CONDO_FEE_INCLUSION: 0.5,
+} as const
+
+// CFPB Ability-to-Repay / Qualified Mortgage rules (US)
+export const CFPB_QM_RULES = {
+  DTI_LIMIT: 43,
+  FRONT_END_GUIDELINE: 28,
+} as const
+
+export interface AffordabilityInput {
+  country: 'CA' | 'US'
+  income: number
+  debts: number
+  downPayment: number
+  propertyPrice: number
+  interestRate: number
+  termYears: number
+  location: string
+  taxes?: number
+  insurance?: number
+  hoa?: number
+  heating?: number
+  creditScore?: number
+  loanProgram?: USLoanProgram
+  mortgageInsurer?: CanadianInsurer
+  firstTimeBuyer?: boolean
+}
+
+export interface QualificationRatios {
+  housingCost: number
+  gdsRatio: number
+  tdsRatio: number
+  dtiRatio: number
+}
+
+/**
+ * Monthly principal and interest payment for a fully amortizing loan
+ */
+export function calculateMonthlyPayment(
+  principal: number,
+  annualRate: number,
+  termYears: number,
+  compounding: CompoundingConvention = 'monthly'
+): number {
+  return calculateLevelPayment(principal, getPeriodicRate(annualRate, compounding, 12), termYears * 12)
+}
+
+/**
+ * Largest principal a given monthly payment can amortize
+ */
+export function calculateMaxPrincipal(
+  monthlyPayment: number,
+  annualRate: number,
+  termYears: number,
+  compounding: CompoundingConvention = 'monthly'
+): number {
+  const monthlyRate = getPeriodicRate(annualRate, compounding, 12)
+  const numPayments = termYears * 12
+
+  if (monthlyPayment <= 0 || numPayments <= 0) return 0
+  if (monthlyRate === 0) return monthlyPayment * numPayments
+
+  return monthlyPayment * (1 - Math.pow(1 + monthlyRate, -numPayments)) / monthlyRate
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Deterministic affordability rules engine.
+ *
+ * Implements OSFI B-20 (GDS/TDS with the minimum qualifying rate) for Canada and
+ * the CFPB Qualified Mortgage DTI test for the US, with Canadian payments
+ * compounded semi-annually. Identical input always yields identical output;
+ * narrative recommendations are left to the caller.
+ */
+export class AffordabilityEngine {
+  /**
+   * Rate the borrower must qualify at
+   */
+  getQualifyingRate(country: 'CA' | 'US', contractRate: number): number {
+    if (country === 'CA') {
+      return Math.max(contractRate + OSFI_B20_RULES.STRESS_TEST_BUFFER, OSFI_B20_RULES.STRESS_TEST_FLOOR)
+    }
+    return contractRate
+  }
+
+  /**
+   * Housing costs that count toward the debt service ratios, excluding principal and interest
+   */
+  getHousingCarryingCosts(input: AffordabilityInput): number {
+    const taxes = input.taxes || 0
+    const hoa = input.hoa || 0
+
+    if (input.country === 'CA') {
+      // B-20 counts heating and half of condo fees; home insurance is excluded
+      return taxes + (input.heating || 0) + hoa * OSFI_B20_RULES.CONDO_FEE_INCLUSION
+    }
+
+    // QM counts the full PITI plus association dues
+    return taxes + (input.insurance || 0) + hoa
+  }
+
+  /**
+   * Compute GDS/TDS/DTI for a given principal and interest payment
+   */
+  calculateRatios(input: AffordabilityInput, principalAndInterest: number): QualificationRatios {
+    const monthlyIncome = input.income / 12
+    const housingCost = principalAndInterest + this.getHousingCarryingCosts(input)
+    const totalDebtService = housingCost + input.debts
+
+    if (monthlyIncome <= 0) {
+      return { housingCost, gdsRatio: 100, tdsRatio: 100, dtiRatio: 100 }
+    }
+
+    const gdsRatio = (housingCost / monthlyIncome) * 100
+    const tdsRatio = (totalDebtService / monthlyIncome) * 100
+
+    return { housingCost, gdsRatio, tdsRatio, dtiRatio: tdsRatio }
+  }
+
+  /**
+   * Mortgage insurance premium for the purchase
+   */
+  getMortgageInsurance(input: AffordabilityInput, propertyPrice: number = input.propertyPrice) {
+    return calculateMortgageInsurance({
+      country: input.country,
+      propertyPrice,
+      downPayment: input.downPayment,
+      amortizationYears: input.termYears,
+      interestRate: input.interestRate,
+      creditScore: input.creditScore,
+      loanProgram: input.loanProgram,
+      provider: input.mortgageInsurer,
+      firstTimeBuyer: input.firstTimeBuyer,
+    })
+  }
+
+  /**
+   * Highest purchase price the borrower qualifies for with the given down payment.
+   * Insurance premiums depend on LTV, so the price is refined until the premium tier settles.
+   */
+  calculateMaxAffordable(input: AffordabilityInput, qualifyingRate: number): number {
+    return Math.min(...this.getPaymentLimits(input).map(limit => this.getMaxPriceForPayment(input, qualifyingRate, limit.maxPayment)))
+  }
+
+  /**
+   * Highest price each qualification rule allows on its own
+   */
+  getPriceLimits(input: AffordabilityInput): Array<Omit<MaxPriceLimit, 'binding'>> {
+    const qualifyingRate = this.getQualifyingRate(input.country, input.interestRate)
+    const limits: Array<Omit<MaxPriceLimit, 'binding'>> = this.getPaymentLimits(input).map(limit => ({
+      constraint: limit.constraint,
+      label: MAX_PRICE_CONSTRAINT_LABELS[limit.constraint],
+      maxPrice: this.getMaxPriceForPayment(input, qualifyingRate, limit.maxPayment),
+    }))
+
+    if (input.country === 'CA') {
+      const { maxPrice, limitedByCap } = getCanadianMaximumPrice(input.downPayment)
+      const constraint = limitedByCap ? 'insured_cap' : 'min_down_payment'
+      limits.push({ constraint, label: MAX_PRICE_CONSTRAINT_LABELS[constraint], maxPrice })
+    } else {
+      // Minimum down payment share for the loan program, read from the insurance rules
+      const probe = this.getMortgageInsurance({ ...input, downPayment: 0 }, 100000)
+      const minimumDownShare = probe.minimumDownPayment / 100000
+      limits.push({
+        constraint: 'min_down_payment',
+        label: MAX_PRICE_CONSTRAINT_LABELS.min_down_payment,
+        maxPrice: minimumDownShare > 0 ? input.downPayment / minimumDownShare : Infinity,
+      })
+    }
+
+    return limits.map(limit => ({ ...limit, maxPrice: Math.max(0, limit.maxPrice) }))
+  }
+
+  /**
+   * Find the highest qualifying purchase price, the rule that limits it, and the extra
+   * income or down payment (each on its own) that would reach the next price band
+   */
+  solveMaxPurchasePrice(input: AffordabilityInput): MaxPriceSolution {
+    const limits = this.getPriceLimits(input)
+    const binding = limits.reduce((lowest, limit) => limit.maxPrice < lowest.maxPrice ? limit : lowest)
+    const maxPurchasePrice = roundCurrency(binding.maxPrice)
+    const insurance = this.getMortgageInsurance(input, maxPurchasePrice)
+
+    const targetPrice = (Math.floor(maxPurchasePrice / PRICE_BAND_STEP) + 1) * PRICE_BAND_STEP
+    const additionalIncome = this.solveRequired(
+      input.income,
+      income => this.getMaxPurchasePrice({ ...input, income }) >= targetPrice
+    )
+    const additionalDownPayment = this.solveRequired(
+      input.downPayment,
+      downPayment => this.getMaxPurchasePrice({ ...input, downPayment }) >= targetPrice,
+      targetPrice
+    )
+
+    return {
+      maxPurchasePrice,
+      maxLoanAmount: roundCurrency(Math.max(0, insurance.totalLoanAmount)),
+      bindingConstraint: binding.constraint,
+      limits: limits.map(limit => ({
+        ...limit,
+        maxPrice: roundCurrency(limit.maxPrice),
+        binding: limit === binding,
+      })),
+      explanation: this.explainBindingConstraint(input, binding.constraint),
+      nextBand: {
+        targetPrice,
+        additionalIncome,
+        additionalDownPayment,
+      },
+    }
+  }
+
+  private getMaxPurchasePrice(input: AffordabilityInput): number {
+    return Math.min(...this.getPriceLimits(input).map(limit => limit.maxPrice))
+  }
+
+  // Monthly principal and interest each debt service rule leaves room for
+  private getPaymentLimits(input: AffordabilityInput): Array<{ constraint: MaxPriceConstraint; maxPayment: number }> {
+    const monthlyIncome = input.income / 12
+    const carryingCosts = this.getHousingCarryingCosts(input)
+
+    if (input.country === 'CA') {
+      return [
+        { constraint: 'gds', maxPayment: monthlyIncome * OSFI_B20_RULES.GDS_LIMIT / 100 - carryingCosts },
+        { constraint: 'tds', maxPayment: monthlyIncome * OSFI_B20_RULES.TDS_LIMIT / 100 - carryingCosts - input.debts },
+      ]
+    }
+
+    return [
+      { constraint: 'dti', maxPayment: monthlyIncome * CFPB_QM_RULES.DTI_LIMIT / 100 - carryingCosts - input.debts },
+    ]
+  }
+
+  private getMaxPriceForPayment(input: AffordabilityInput, qualifyingRate: number, maxPayment: number): number {
+    const compounding = getCompoundingConvention(input.country)
+    const paymentPerDollar = calculateMonthlyPayment(1, qualifyingRate, input.termYears, compounding)
+    let maxPrice = calculateMaxPrincipal(maxPayment, qualifyingRate, input.termYears, compounding) + input.downPayment
+
+    for (let i = 0; i < 10 && maxPayment > 0; i++) {
+      const insurance = this.getMortgageInsurance(input, maxPrice)
+      const costPerDollar = paymentPerDollar * (1 + insurance.upfrontPremium / Math.max(insurance.baseLoanAmount, 1)) +
+        insurance.annualPremiumRate / 100 / 12
+      const nextPrice = maxPayment / costPerDollar + input.downPayment
+      if (Math.abs(nextPrice - maxPrice) < 0.01) break
+      maxPrice = nextPrice
+    }
+
+    return maxPrice
+  }
+
+  // Smallest whole-dollar increase over the current value that satisfies the test.
+  // Undefined when no increase up to the ceiling is enough.
+  private solveRequired(current: number, satisfied: (value: number) => boolean, ceiling?: number): number | undefined {
+    if (satisfied(current)) return 0
+
+    let high = ceiling !== undefined ? Math.ceil(Math.max(0, ceiling - current)) : Math.max(Math.ceil(current), 100000)
+    for (let i = 0; !satisfied(current + high); i++) {
+      if (ceiling !== undefined || i >= 20) return undefined
+      high *= 2
+    }
+
+    let low = 0
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2)
+      if (satisfied(current + mid)) high = mid
+      else low = mid
+    }
+    return high
+  }
+
+  private explainBindingConstraint(input: AffordabilityInput, constraint: MaxPriceConstraint): string {
+    const qualifyingRate = this.getQualifyingRate(input.country, input.interestRate)
+
+    switch (constraint) {
+      case 'gds':
+        return `Housing costs at the ${roundCurrency(qualifyingRate)}% qualifying rate reach the ${OSFI_B20_RULES.GDS_LIMIT}% GDS limit first`
+      case 'tds':
+        return `Housing costs plus other debt payments at the ${roundCurrency(qualifyingRate)}% qualifying rate reach the ${OSFI_B20_RULES.TDS_LIMIT}% TDS limit first`
+      case 'dti':
+        return `Housing costs plus other debt payments reach the ${CFPB_QM_RULES.DTI_LIMIT}% qualified mortgage DTI limit first`
+      case 'min_down_payment':
+        return 'The down payment does not meet the minimum required for a higher price'
+      case 'insured_cap':
+        return `Insured mortgages are limited to homes under $${CA_DEFAULT_INSURANCE_RULES.INSURED_PRICE_CAP.toLocaleString('en-CA')}; a higher price needs 20% down`
+    }
+  }
+
+  /**
+   * Run the full affordability calculation
+   */
+  calculate(input: AffordabilityInput): AffordabilityResult {
+    // Capitalized premiums (CMHC, FHA UFMIP) are added to the loan
+    const mortgageInsurance = this.getMortgageInsurance(input)
+    const principal = mortgageInsurance.totalLoanAmount
+    const qualifyingRate = this.getQualifyingRate(input.country, input.interestRate)
+    const compounding = getCompoundingConvention(input.country)
+
+    const monthlyPayment = calculateMonthlyPayment(principal, input.interestRate, input.termYears, compounding)
+    const qualifyingPayment = calculateMonthlyPayment(principal, qualifyingRate, input.termYears, compounding)
+
+    // Ratios are tested at the qualifying rate; DTI is reported at the contract rate.
+    // Monthly mortgage insurance (PMI/MIP) counts toward the housing payment.
+    const qualifyingRatios = this.calculateRatios(input, qualifyingPayment + mortgageInsurance.monthlyPremium)
+    const contractRatios = this.calculateRatios(input, monthlyPayment + mortgageInsurance.monthlyPremium)
+
+    const ratiosPass = input.country === 'CA'
+      ? qualifyingRatios.gdsRatio <= OSFI_B20_RULES.GDS_LIMIT && qualifyingRatios.tdsRatio <= OSFI_B20_RULES.TDS_LIMIT
+      : qualifyingRatios.dtiRatio <= CFPB_QM_RULES.DTI_LIMIT
+    const qualificationResult = ratiosPass && mortgageInsurance.eligible
+
+    const firstMonthInterest = principal * getPeriodicRate(input.interestRate, compounding, 12)
+    const maxPriceSolution = this.solveMaxPurchasePrice(input)
+
+    return {
+      maxAffordable: maxPriceSolution.maxPurchasePrice,
+      monthlyPayment: roundCurrency(monthlyPayment),
+      gdsRatio: roundCurrency(qualifyingRatios.gdsRatio),
+      tdsRatio: roundCurrency(qualifyingRatios.tdsRatio),
+      dtiRatio: roundCurrency(contractRatios.dtiRatio),
+      qualifyingRate: roundCurrency(qualifyingRate),
+      qualificationResult,
+      breakdown: {
+        principal: roundCurrency(monthlyPayment - firstMonthInterest),
+        interest: roundCurrency(firstMonthInterest),
+        taxes: input.taxes || 0,
+        insurance: input.insurance || 0,
+        pmi: mortgageInsurance.monthlyPremium,
+      },
+      mortgageInsurance,
+      maxPriceSolution,
+      recommendations: [],
+      disclaimers: [...mortgageInsurance.notes, ...this.getDisclaimers(input.country)],
+    }
+  }
+
+  private getDisclaimers(country: 'CA' | 'US'): string[] {
+    const common = [
+      'This calculation is an estimate and does not constitute a mortgage approval',
+      `Calculated by affordability engine v${AFFORDABILITY_ENGINE_VERSION}`,
+    ]
+
+    if (country === 'CA') {
+      return [
+        `Qualification uses the OSFI B-20 minimum qualifying rate: the greater of the contract rate plus ${OSFI_B20_RULES.STRESS_TEST_BUFFER}% or ${OSFI_B20_RULES.STRESS_TEST_FLOOR}%`,
+        `GDS must not exceed ${OSFI_B20_RULES.GDS_LIMIT}% and TDS must not exceed ${OSFI_B20_RULES.TDS_LIMIT}%`,
+        ...common,
+      ]
+    }
+
+    return [
+      `Qualification uses the CFPB Qualified Mortgage debt-to-income limit of ${CFPB_QM_RULES.DTI_LIMIT}%`,
+      ...common,
+    ]
+  }
+}
+
+// Export singleton instance
+export const affordabilityEngine = new AffordabilityEngine()
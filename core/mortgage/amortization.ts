@@ -0,0 +1,178 @@
+export type Country = 'CA' | 'US'
+
+export type CompoundingConvention = 'monthly' | 'semi_annual'
+
+export type PaymentFrequency =
+  | 'monthly'
+  | 'semi_monthly'
+  | 'bi_weekly'
+  | 'accelerated_bi_weekly'
+  | 'weekly'
+  | 'accelerated_weekly'
+
+// Payment frequency definitions. Accelerated frequencies pay the monthly amount
+// split into halves or quarters (monthlySplit), which adds roughly one extra
+// monthly payment a year.
+export const PAYMENT_FREQUENCIES: Record<PaymentFrequency, {
+  periodsPerYear: number
+  monthlySplit?: number
+  label: string
+}> = {
+  monthly: { periodsPerYear: 12, label: 'Monthly' },
+  semi_monthly: { periodsPerYear: 24, label: 'Semi-monthly' },
+  bi_weekly: { periodsPerYear: 26, label: 'Bi-weekly' },
+  accelerated_bi_weekly: { periodsPerYear: 26, monthlySplit: 2, label: 'Accelerated bi-weekly' },
+  weekly: { periodsPerYear: 52, label: 'Weekly' },
+  accelerated_weekly: { periodsPerYear: 52, monthlySplit: 4, label: 'Accelerated weekly' },
+}
+
+const COMPOUNDING_PERIODS: Record<CompoundingConvention, number> = {
+  monthly: 12,
+  semi_annual: 2,
+}
+
+export interface AmortizationOptions {
+  country?: Country
+  rateType?: 'fixed' | 'variable' | 'arm'
+  frequency?: PaymentFrequency
+  compounding?: CompoundingConvention
+}
+
+export interface AmortizationPeriod {
+  period: number
+  month: number
+  payment: number
+  principal: number
+  interest: number
+  prepayment?: number
+  balance: number
+  cumulativeInterest: number
+  cumulativePrincipal: number
+}
+
+export interface AmortizationSchedule {
+  frequency: PaymentFrequency
+  compounding: CompoundingConvention
+  periodsPerYear: number
+  periodicRate: number
+  payment: number
+  monthlyEquivalentPayment: number
+  totalInterest: number
+  totalPaid: number
+  payoffPeriods: number
+  periods: AmortizationPeriod[]
+}
+
+/**
+ * Compounding convention required for a mortgage.
+ * Canadian fixed-rate mortgages must compound semi-annually (Interest Act, s. 6);
+ * variable-rate and US mortgages compound monthly.
+ */
+export function getCompoundingConvention(country: Country, rateType: 'fixed' | 'variable' | 'arm' = 'fixed'): CompoundingConvention {
+  return country === 'CA' && rateType === 'fixed' ? 'semi_annual' : 'monthly'
+}
+
+/**
+ * Convert a nominal annual rate (percent) into the effective rate per payment period
+ */
+export function getPeriodicRate(annualRate: number, compounding: CompoundingConvention, periodsPerYear: number): number {
+  const compoundsPerYear = COMPOUNDING_PERIODS[compounding]
+  const effectiveAnnualRate = Math.pow(1 + annualRate / 100 / compoundsPerYear, compoundsPerYear) - 1
+  return Math.pow(1 + effectiveAnnualRate, 1 / periodsPerYear) - 1
+}
+
+/**
+ * Level payment that amortizes a principal over the given number of periods
+ */
+export function calculateLevelPayment(principal: number, periodicRate: number, numPayments: number): number {
+  if (principal <= 0 || numPayments <= 0) return 0
+  if (periodicRate === 0) return principal / numPayments
+
+  return principal * (periodicRate * Math.pow(1 + periodicRate, numPayments)) /
+         (Math.pow(1 + periodicRate, numPayments) - 1)
+}
+
+function resolveCompounding(options: AmortizationOptions): CompoundingConvention {
+  return options.compounding || getCompoundingConvention(options.country || 'US', options.rateType)
+}
+
+/**
+ * Scheduled payment for the requested frequency
+ */
+export function calculatePeriodicPayment(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  options: AmortizationOptions = {}
+): number {
+  const frequency = options.frequency || 'monthly'
+  const { periodsPerYear, monthlySplit } = PAYMENT_FREQUENCIES[frequency]
+  const compounding = resolveCompounding(options)
+
+  if (monthlySplit) {
+    const monthlyRate = getPeriodicRate(annualRate, compounding, 12)
+    const monthlyPayment = calculateLevelPayment(principal, monthlyRate, amortizationYears * 12)
+    return monthlyPayment / monthlySplit
+  }
+
+  const periodicRate = getPeriodicRate(annualRate, compounding, periodsPerYear)
+  return calculateLevelPayment(principal, periodicRate, amortizationYears * periodsPerYear)
+}
+
+/**
+ * Build a full amortization schedule, one row per payment period
+ */
+export function buildAmortizationSchedule(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  options: AmortizationOptions = {}
+): AmortizationSchedule {
+  const frequency = options.frequency || 'monthly'
+  const { periodsPerYear } = PAYMENT_FREQUENCIES[frequency]
+  const compounding = resolveCompounding(options)
+  const periodicRate = getPeriodicRate(annualRate, compounding, periodsPerYear)
+  const payment = calculatePeriodicPayment(principal, annualRate, amortizationYears, options)
+  const maxPeriods = Math.ceil(amortizationYears * periodsPerYear)
+
+  const periods: AmortizationPeriod[] = []
+  let balance = principal
+  let cumulativeInterest = 0
+  let cumulativePrincipal = 0
+
+  for (let period = 1; period <= maxPeriods && balance > 0.005; period++) {
+    const interest = balance * periodicRate
+    // The final payment only clears what is left, so accelerated schedules finish early
+    const scheduledPayment = period === maxPeriods ? balance + interest : payment
+    const actualPayment = Math.min(scheduledPayment, balance + interest)
+    const principalPaid = actualPayment - interest
+
+    balance -= principalPaid
+    cumulativeInterest += interest
+    cumulativePrincipal += principalPaid
+
+    periods.push({
+      period,
+      month: Math.ceil(period * 12 / periodsPerYear),
+      payment: actualPayment,
+      principal: principalPaid,
+      interest,
+      balance: Math.max(0, balance),
+      cumulativeInterest,
+      cumulativePrincipal,
+    })
+  }
+
+  return {
+    frequency,
+    compounding,
+    periodsPerYear,
+    periodicRate,
+    payment,
+    monthlyEquivalentPayment: payment * periodsPerYear / 12,
+    totalInterest: cumulativeInterest,
+    totalPaid: cumulativeInterest + cumulativePrincipal,
+    payoffPeriods: periods.length,
+    periods,
+  }
+}
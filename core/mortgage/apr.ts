@@ -0,0 +1,242 @@
+import type { AprDisclosure, ClosingCostItem, LoanFee, LoanFeeType, LoanPricing } from '../scenario-types'
+import type { Country } from './amortization'
+import { buildAmortizationSchedule } from './amortization'
+
+// Fees that are finance charges under Regulation Z (12 CFR 1026.4(a)-(b)). Title,
+// appraisal, credit report, document preparation and recording charges on a
+// residential mortgage are excluded by 1026.4(c)(7) and 1026.4(e).
+export const US_FINANCE_CHARGE_FEES: LoanFeeType[] = [
+  'origination',
+  'discount_points',
+  'pricing_adjustment',
+  'broker',
+  'processing',
+  'underwriting',
+  'prepaid_interest',
+  'mortgage_insurance',
+]
+
+// Non-interest charges that are part of the cost of borrowing under the federal Cost of
+// Borrowing Regulations. Legal, appraisal, inspection, survey, title insurance,
+// registration fees, taxes and mortgage default insurance premiums are excluded.
+export const CA_COST_OF_BORROWING_FEES: LoanFeeType[] = [
+  'origination',
+  'discount_points',
+  'pricing_adjustment',
+  'broker',
+  'processing',
+  'underwriting',
+  'prepaid_interest',
+]
+
+// Lender and third-party fees assumed for a rate quote when the lender has not supplied them
+export const DEFAULT_QUOTE_FEES: Record<Country, LoanFee[]> = {
+  CA: [
+    { type: 'appraisal', label: 'Appraisal', amount: 400 },
+    { type: 'legal', label: 'Legal fees', amount: 1200 },
+  ],
+  US: [
+    { type: 'origination', label: 'Origination and underwriting', amount: 1195 },
+    { type: 'appraisal', label: 'Appraisal', amount: 600 },
+    { type: 'credit_report', label: 'Credit report', amount: 50 },
+  ],
+}
+
+const CLOSING_COST_FEE_TYPES: Record<ClosingCostItem['category'], LoanFeeType | undefined> = {
+  transfer_tax: 'transfer_tax',
+  rebate: undefined,
+  recording: 'registration',
+  title_insurance: 'title_insurance',
+  legal: 'legal',
+  insurance_tax: 'mortgage_insurance',
+  other: 'other',
+}
+
+export interface AprInput {
+  country: Country
+  // Loan amount before any financed fees
+  loanAmount: number
+  noteRate: number
+  amortizationYears: number
+  // Canadian disclosures cover the mortgage term; US disclosures cover the whole loan
+  termYears?: number
+  rateType?: 'fixed' | 'variable' | 'arm'
+  fees: LoanFee[]
+  // Monthly PMI/MIP, paid with each payment until it cancels
+  monthlyMortgageInsurance?: number
+  mortgageInsuranceMonths?: number
+}
+
+/**
+ * Annual percentage rate for a mortgage, with the fees it includes and excludes.
+ *
+ * US: Regulation Z Appendix J actuarial method. The APR is the monthly rate that
+ * discounts the payment stream (principal and interest plus monthly mortgage insurance)
+ * back to the amount financed, times 12.
+ *
+ * Canada: Cost of Borrowing Regulations, APR = C / (T x P) x 100, where C is the
+ * interest and non-interest charges over the term, T the term in years and P the
+ * average principal outstanding at the end of each payment period.
+ */
+export function calculateApr(input: AprInput): AprDisclosure {
+  const { includedFees, excludedFees } = splitAprFees(input.country, input.fees)
+  return input.country === 'CA'
+    ? calculateCostOfBorrowingApr(input, includedFees, excludedFees)
+    : calculateActuarialApr(input, includedFees, excludedFees)
+}
+
+/**
+ * Sort fees into those that count towards the APR in the country and those that do not.
+ * A fee's own `included` flag wins over the regulatory default.
+ */
+export function splitAprFees(country: Country, fees: LoanFee[]): { includedFees: LoanFee[]; excludedFees: LoanFee[] } {
+  const financeCharges = country === 'CA' ? CA_COST_OF_BORROWING_FEES : US_FINANCE_CHARGE_FEES
+  const includedFees: LoanFee[] = []
+  const excludedFees: LoanFee[] = []
+
+  for (const fee of fees) {
+    if (fee.amount === 0) continue
+    if (fee.included ?? financeCharges.includes(fee.type)) {
+      includedFees.push(fee)
+    } else {
+      excludedFees.push(fee)
+    }
+  }
+
+  return { includedFees, excludedFees }
+}
+
+/**
+ * Buyer-paid closing costs as APR fee inputs. Rebates are left out; they reduce a tax
+ * that is excluded from the APR anyway.
+ */
+export function closingCostFees(items: ClosingCostItem[]): LoanFee[] {
+  const fees: LoanFee[] = []
+  for (const item of items) {
+    const type = CLOSING_COST_FEE_TYPES[item.category]
+    if (!type || item.paidBy !== 'buyer' || item.amount <= 0) continue
+    fees.push({ type, label: item.label, amount: item.amount })
+  }
+  return fees
+}
+
+/**
+ * Points charged by loan-level pricing: the lender's point adjustments (negative when
+ * they are a credit) and any discount points bought.
+ */
+export function pricingFees(pricing: LoanPricing): LoanFee[] {
+  const fees: LoanFee[] = []
+  if (pricing.pointsAdjustment !== 0) {
+    fees.push({
+      type: 'pricing_adjustment',
+      label: 'Loan-level price adjustments',
+      amount: pricing.loanAmount * pricing.pointsAdjustment / 100,
+    })
+  }
+  if (pricing.buyDown) {
+    fees.push({ type: 'discount_points', label: `Discount points (${pricing.buyDown.points})`, amount: pricing.buyDown.cost })
+  }
+  return fees
+}
+
+function calculateActuarialApr(input: AprInput, includedFees: LoanFee[], excludedFees: LoanFee[]): AprDisclosure {
+  const loanAmount = input.loanAmount + sumFees(input.fees.filter(fee => fee.financed))
+  const prepaidFinanceCharges = sumFees(includedFees)
+  const amountFinanced = loanAmount - prepaidFinanceCharges
+  if (amountFinanced <= 0) {
+    throw new Error('Amount financed must be positive')
+  }
+
+  const schedule = buildAmortizationSchedule(loanAmount, input.noteRate, input.amortizationYears, {
+    country: 'US',
+    rateType: input.rateType,
+  })
+  const monthlyInsurance = input.monthlyMortgageInsurance ?? 0
+  const insuranceMonths = Math.min(input.mortgageInsuranceMonths ?? schedule.periods.length, schedule.periods.length)
+  const payments = schedule.periods.map((period, index) =>
+    period.payment + (index < insuranceMonths ? monthlyInsurance : 0)
+  )
+  const totalOfPayments = payments.reduce((sum, payment) => sum + payment, 0)
+  const monthlyRate = solveUnitPeriodRate(payments, amountFinanced)
+
+  return {
+    method: 'reg_z_actuarial',
+    apr: roundTo(monthlyRate * 12 * 100, 3),
+    noteRate: input.noteRate,
+    loanAmount: roundTo(loanAmount, 2),
+    amountFinanced: roundTo(amountFinanced, 2),
+    financeCharge: roundTo(totalOfPayments - amountFinanced, 2),
+    totalOfPayments: roundTo(totalOfPayments, 2),
+    termMonths: payments.length,
+    monthlyMortgageInsurance: monthlyInsurance > 0 ? monthlyInsurance : undefined,
+    mortgageInsuranceMonths: monthlyInsurance > 0 ? insuranceMonths : undefined,
+    includedFees,
+    excludedFees,
+  }
+}
+
+function calculateCostOfBorrowingApr(input: AprInput, includedFees: LoanFee[], excludedFees: LoanFee[]): AprDisclosure {
+  const loanAmount = input.loanAmount + sumFees(input.fees.filter(fee => fee.financed))
+  const schedule = buildAmortizationSchedule(loanAmount, input.noteRate, input.amortizationYears, {
+    country: 'CA',
+    rateType: input.rateType,
+  })
+  const termMonths = Math.min(Math.round((input.termYears ?? input.amortizationYears) * 12), schedule.periods.length)
+  if (termMonths <= 0) {
+    throw new Error('Disclosure term must be at least one month')
+  }
+  const termPeriods = schedule.periods.slice(0, termMonths)
+
+  const interest = termPeriods.reduce((sum, period) => sum + period.interest, 0)
+  const costOfBorrowing = interest + sumFees(includedFees)
+  const averageBalance = termPeriods.reduce((sum, period) => sum + period.balance, 0) / termMonths
+  const termYears = termMonths / 12
+
+  return {
+    method: 'cost_of_borrowing',
+    apr: roundTo(costOfBorrowing / (termYears * averageBalance) * 100, 3),
+    noteRate: input.noteRate,
+    loanAmount: roundTo(loanAmount, 2),
+    amountFinanced: roundTo(loanAmount - sumFees(includedFees), 2),
+    financeCharge: roundTo(costOfBorrowing, 2),
+    totalOfPayments: roundTo(termPeriods.reduce((sum, period) => sum + period.payment, 0), 2),
+    termMonths,
+    includedFees,
+    excludedFees,
+  }
+}
+
+// Appendix J: find the monthly rate at which the payments are worth the amount financed.
+// The present value falls as the rate rises, so bisection always converges.
+function solveUnitPeriodRate(payments: number[], amountFinanced: number): number {
+  const presentValue = (rate: number) => payments.reduce(
+    (sum, payment, index) => sum + payment / Math.pow(1 + rate, index + 1),
+    0
+  )
+
+  if (presentValue(0) <= amountFinanced) return 0
+
+  let low = 0
+  let high = 0.01
+  while (presentValue(high) > amountFinanced) high *= 2
+
+  for (let iteration = 0; iteration < 100 && high - low > 1e-12; iteration++) {
+    const mid = (low + high) / 2
+    if (presentValue(mid) > amountFinanced) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+
+  return (low + high) / 2
+}
+
+function sumFees(fees: LoanFee[]): number {
+  return fees.reduce((sum, fee) => sum + fee.amount, 0)
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,569 @@
+import { AffordabilityInput, roundCurrency } from './affordability-engine'
+
+export type TransactionCategory =
+  | 'payroll'
+  | 'government_benefit'
+  | 'other_income'
+  | 'transfer'
+  | 'debt_payment'
+  | 'housing'
+  | 'nsf_fee'
+  | 'living'
+
+export type PaymentFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly'
+
+// Amounts are signed: deposits positive, withdrawals negative
+export interface CashFlowTransaction {
+  id: string
+  accountId: string
+  date: string
+  amount: number
+  description: string
+  // Provider category, used as a hint alongside the description
+  category?: string
+  // Account balance after the transaction, when the provider reports it
+  balance?: number
+}
+
+export interface CategorizedTransaction extends CashFlowTransaction {
+  category: TransactionCategory
+  // Deposit matched by a withdrawal from another of the applicant's accounts
+  internalTransfer: boolean
+}
+
+// A stated debt; the stated debts may also be given as one monthly total
+export interface StatedDebt {
+  description: string
+  monthlyPayment: number
+}
+
+export interface CashFlowOptions {
+  // Defaults to the latest transaction date
+  asOf?: string
+  statedAnnualIncome?: number
+  statedDebts?: number | StatedDebt[]
+  downPayment?: number
+  // Share of gross pay that reaches the bank account, used to gross up verified deposits
+  netPayRatio?: number
+}
+
+export interface RecurringStream {
+  key: string
+  description: string
+  category: TransactionCategory
+  frequency: PaymentFrequency
+  averageAmount: number
+  monthlyAmount: number
+  occurrences: number
+  lastDate: string
+  transactionIds: string[]
+  // Still arriving on schedule as of the analysis date
+  current: boolean
+}
+
+export interface AccountEvent {
+  transactionId: string
+  accountId: string
+  date: string
+  type: 'nsf' | 'overdraft'
+  amount: number
+}
+
+export interface DownPaymentVerification {
+  stated?: number
+  // Balances across all accounts at the analysis date
+  availableFunds?: number
+  // Funds held for the whole seasoning period: each account's lowest balance in it
+  seasonedFunds?: number
+  unseasonedFunds?: number
+  sufficient?: boolean
+}
+
+export type CashFlowFindingCode =
+  | 'short_history'
+  | 'income_not_verified'
+  | 'income_shortfall'
+  | 'payroll_stopped'
+  | 'undisclosed_debt'
+  | 'nsf_activity'
+  | 'insufficient_funds'
+  | 'unseasoned_funds'
+  | 'large_deposit'
+
+export interface CashFlowFinding {
+  code: CashFlowFindingCode
+  severity: 'info' | 'warning' | 'critical'
+  message: string
+  transactionIds: string[]
+}
+
+export interface CashFlowAnalysis {
+  asOf: string
+  historyDays: number
+  transactions: CategorizedTransaction[]
+  // Net amount per category over the whole history
+  categoryTotals: Record<TransactionCategory, number>
+  incomeStreams: RecurringStream[]
+  // Net pay deposited each month by current payroll and benefit streams
+  verifiedMonthlyIncome: number
+  // Verified deposits grossed up to an annual income comparable with stated income
+  supportedAnnualIncome: number
+  recurringDebts: RecurringStream[]
+  undisclosedDebts: RecurringStream[]
+  undisclosedMonthlyDebt: number
+  accountEvents: AccountEvent[]
+  downPayment: DownPaymentVerification
+  largeDeposits: CategorizedTransaction[]
+  findings: CashFlowFinding[]
+}
+
+// Lenders want 90 days of statements to show down payment funds are the applicant's own
+export const SEASONING_DAYS = 90
+
+// Typical share of gross pay left after tax and payroll deductions
+export const DEFAULT_NET_PAY_RATIO = 0.75
+
+// A deposit over half a month's income, and at least $1,000, must be sourced
+const LARGE_DEPOSIT_INCOME_SHARE = 0.5
+const LARGE_DEPOSIT_FLOOR = 1000
+
+// Stated income more than 10% above what deposits support is a shortfall
+const INCOME_TOLERANCE = 0.1
+
+// A detected payment within 10% of a stated debt, or of what is left of a stated total, is disclosed
+const DEBT_MATCH_TOLERANCE = 0.1
+
+// Three NSF or overdraft events in the history is a pattern, not an accident
+const NSF_PATTERN_COUNT = 3
+
+const PERIODS_PER_YEAR: Record<PaymentFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+}
+
+// Median days between payments for each frequency
+const FREQUENCY_INTERVALS: Array<{ frequency: PaymentFrequency; min: number; max: number; days: number }> = [
+  { frequency: 'weekly', min: 5, max: 9, days: 7 },
+  { frequency: 'biweekly', min: 12, max: 14.5, days: 14 },
+  { frequency: 'semimonthly', min: 14.5, max: 17, days: 15.2 },
+  { frequency: 'monthly', min: 26, max: 35, days: 30.4 },
+]
+
+// Checked in order; the first match wins
+const CATEGORY_RULES: Array<{ category: TransactionCategory; direction?: 'in' | 'out'; pattern: RegExp }> = [
+  { category: 'nsf_fee', pattern: /\b(nsf|non[- ]?sufficient|insufficient funds|returned (item|payment)|overdraft|od fee)\b/ },
+  { category: 'payroll', direction: 'in', pattern: /\b(payroll|salary|wages|direct dep(osit)?|pay ?roll|paycheck)\b/ },
+  {
+    category: 'government_benefit',
+    direction: 'in',
+    pattern: /\b(ccb|canada child|gst credit|ei canada|employment insurance|cpp|oas|irs treas|ssa treas|social security|unemployment|benefits?)\b/,
+  },
+  { category: 'transfer', pattern: /\b(transfer|e-?transfer|interac|zelle|venmo|xfer|tfr)\b/ },
+  {
+    category: 'debt_payment',
+    direction: 'out',
+    pattern: /\b(loan|credit card|card payment|visa|mastercard|amex|american express|line of credit|loc|auto finance|car finance|lease|student|navient|nelnet|nslsc|capital one|discover|financial services)\b/,
+  },
+  { category: 'housing', direction: 'out', pattern: /\b(rent|mortgage|landlord|property tax|strata|hoa|condo fee)\b/ },
+]
+
+const SEVERITY_ORDER = ['critical', 'warning', 'info']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Underwrite an applicant's bank transactions.
+ *
+ * Transactions are categorized by description, recurring payroll is detected and
+ * annualized into verified income, recurring debt payments are checked against the
+ * stated debts, NSF and overdraft events are collected, and the down payment is tested
+ * against the funds held through the 90-day seasoning period, with large unexplained
+ * deposits listed for sourcing.
+ */
+export function analyzeCashFlow(transactions: CashFlowTransaction[], options: CashFlowOptions = {}): CashFlowAnalysis {
+  const sorted = transactions.slice().sort((a, b) => dayNumber(a.date) - dayNumber(b.date))
+  const asOf = options.asOf || (sorted.length > 0 ? sorted[sorted.length - 1].date : toDate(Date.now() / DAY_MS))
+  const history = sorted.filter(transaction => dayNumber(transaction.date) <= dayNumber(asOf))
+  const historyDays = history.length > 0 ? dayNumber(asOf) - dayNumber(history[0].date) + 1 : 0
+
+  const categorized = categorizeTransactions(history)
+  const findings: CashFlowFinding[] = []
+
+  if (historyDays < SEASONING_DAYS) {
+    findings.push({
+      code: 'short_history',
+      severity: 'warning',
+      message: `Only ${historyDays} days of transactions; ${SEASONING_DAYS} are needed to verify income and seasoning`,
+      transactionIds: [],
+    })
+  }
+
+  // Income
+  const incomeStreams = detectRecurring(categorized, ['payroll', 'government_benefit'], asOf)
+  const currentIncome = incomeStreams.filter(stream => stream.current)
+  const verifiedMonthlyIncome = roundCurrency(currentIncome.reduce((sum, stream) => sum + stream.monthlyAmount, 0))
+  const netPayRatio = options.netPayRatio || DEFAULT_NET_PAY_RATIO
+  const supportedAnnualIncome = roundCurrency(verifiedMonthlyIncome * 12 / netPayRatio)
+
+  incomeStreams.filter(stream => !stream.current).forEach(stream => {
+    findings.push({
+      code: 'payroll_stopped',
+      severity: 'warning',
+      message: `${stream.description} deposits stopped after ${stream.lastDate} and are not counted`,
+      transactionIds: stream.transactionIds,
+    })
+  })
+  if (options.statedAnnualIncome) {
+    if (currentIncome.length === 0) {
+      findings.push({
+        code: 'income_not_verified',
+        severity: 'critical',
+        message: 'No recurring payroll or benefit deposits found to verify the stated income',
+        transactionIds: [],
+      })
+    } else if (supportedAnnualIncome < options.statedAnnualIncome * (1 - INCOME_TOLERANCE)) {
+      findings.push({
+        code: 'income_shortfall',
+        severity: 'warning',
+        message: `Deposits support about ${formatAmount(supportedAnnualIncome)} a year against ${formatAmount(options.statedAnnualIncome)} stated`,
+        transactionIds: flatten(currentIncome.map(stream => stream.transactionIds)),
+      })
+    }
+  }
+
+  // Debts
+  const recurringDebts = detectRecurring(categorized, ['debt_payment'], asOf).filter(stream => stream.current)
+  const undisclosedDebts = findUndisclosedDebts(recurringDebts, options.statedDebts)
+  const undisclosedMonthlyDebt = roundCurrency(undisclosedDebts.reduce((sum, stream) => sum + stream.monthlyAmount, 0))
+  undisclosedDebts.forEach(stream => {
+    findings.push({
+      code: 'undisclosed_debt',
+      severity: 'warning',
+      message: `Recurring payment to ${stream.description} of about ${formatAmount(stream.monthlyAmount)} a month is not in the stated debts`,
+      transactionIds: stream.transactionIds,
+    })
+  })
+
+  // NSF and overdraft
+  const accountEvents = findAccountEvents(categorized)
+  if (accountEvents.length > 0) {
+    findings.push({
+      code: 'nsf_activity',
+      severity: accountEvents.length >= NSF_PATTERN_COUNT ? 'critical' : 'warning',
+      message: `${accountEvents.length} NSF or overdraft event${accountEvents.length === 1 ? '' : 's'}, most recently on ${accountEvents[accountEvents.length - 1].date}`,
+      transactionIds: accountEvents.map(event => event.transactionId),
+    })
+  }
+
+  // Down payment and seasoning
+  const monthlyQualifyingIncome = supportedAnnualIncome > 0 ? supportedAnnualIncome / 12 : (options.statedAnnualIncome || 0) / 12
+  const largeDepositThreshold = Math.max(LARGE_DEPOSIT_FLOOR, monthlyQualifyingIncome * LARGE_DEPOSIT_INCOME_SHARE)
+  const seasoningStart = dayNumber(asOf) - SEASONING_DAYS
+  const largeDeposits = categorized.filter(transaction =>
+    transaction.amount >= largeDepositThreshold &&
+    dayNumber(transaction.date) > seasoningStart &&
+    !transaction.internalTransfer &&
+    transaction.category !== 'payroll' &&
+    transaction.category !== 'government_benefit'
+  )
+  largeDeposits.forEach(deposit => {
+    findings.push({
+      code: 'large_deposit',
+      severity: 'warning',
+      message: `Deposit of ${formatAmount(deposit.amount)} on ${deposit.date} ("${deposit.description}") needs a documented source`,
+      transactionIds: [deposit.id],
+    })
+  })
+
+  const downPayment = verifyDownPayment(history, asOf, options.downPayment)
+  if (downPayment.stated !== undefined && downPayment.availableFunds !== undefined && downPayment.seasonedFunds !== undefined) {
+    if (downPayment.availableFunds < downPayment.stated) {
+      findings.push({
+        code: 'insufficient_funds',
+        severity: 'critical',
+        message: `Accounts hold ${formatAmount(downPayment.availableFunds)}, short of the ${formatAmount(downPayment.stated)} down payment`,
+        transactionIds: [],
+      })
+    } else if (downPayment.seasonedFunds < downPayment.stated) {
+      findings.push({
+        code: 'unseasoned_funds',
+        severity: 'warning',
+        message: `Only ${formatAmount(downPayment.seasonedFunds)} of the ${formatAmount(downPayment.stated)} down payment has been held for ${SEASONING_DAYS} days`,
+        transactionIds: largeDeposits.map(deposit => deposit.id),
+      })
+    }
+  }
+
+  return {
+    asOf,
+    historyDays,
+    transactions: categorized,
+    categoryTotals: totalByCategory(categorized),
+    incomeStreams,
+    verifiedMonthlyIncome,
+    supportedAnnualIncome,
+    recurringDebts,
+    undisclosedDebts,
+    undisclosedMonthlyDebt,
+    accountEvents,
+    downPayment,
+    largeDeposits,
+    findings: findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)),
+  }
+}
+
+/**
+ * Affordability input restated on what the bank data verifies: income no higher than
+ * deposits support, undisclosed debt payments added, and the down payment limited to
+ * seasoned funds
+ */
+export function applyCashFlowAnalysis(input: AffordabilityInput, analysis: CashFlowAnalysis): AffordabilityInput {
+  const seasonedFunds = analysis.downPayment.seasonedFunds
+
+  return {
+    ...input,
+    income: analysis.supportedAnnualIncome > 0 ? Math.min(input.income, analysis.supportedAnnualIncome) : input.income,
+    debts: roundCurrency(input.debts + analysis.undisclosedMonthlyDebt),
+    downPayment: seasonedFunds !== undefined ? Math.min(input.downPayment, seasonedFunds) : input.downPayment,
+  }
+}
+
+// The analysis as shown to the applicant; categorized transactions stay server-side
+export type CashFlowSummary = Omit<CashFlowAnalysis, 'transactions'>
+
+export function summarizeCashFlow(analysis: CashFlowAnalysis): CashFlowSummary {
+  const summary: Partial<CashFlowAnalysis> = { ...analysis }
+  delete summary.transactions
+  return summary as CashFlowSummary
+}
+
+/**
+ * Categorize each transaction by its description and provider category, and mark
+ * deposits that are transfers between the applicant's own accounts
+ */
+export function categorizeTransactions(transactions: CashFlowTransaction[]): CategorizedTransaction[] {
+  return transactions.map(transaction => {
+    const text = `${transaction.description} ${transaction.category || ''}`.toLowerCase()
+    const direction = transaction.amount >= 0 ? 'in' : 'out'
+    const rule = CATEGORY_RULES.find(candidate => (!candidate.direction || candidate.direction === direction) && candidate.pattern.test(text))
+    const category = rule ? rule.category : direction === 'in' ? 'other_income' : 'living'
+
+    // A matching withdrawal from another account within two days
+    const internalTransfer = transaction.amount > 0 && transactions.some(other =>
+      other.accountId !== transaction.accountId &&
+      other.amount === -transaction.amount &&
+      Math.abs(dayNumber(other.date) - dayNumber(transaction.date)) <= 2
+    )
+
+    return { ...transaction, category, internalTransfer }
+  })
+}
+
+// Group transactions of the given categories by payee and keep the ones on a schedule
+function detectRecurring(transactions: CategorizedTransaction[], categories: TransactionCategory[], asOf: string): RecurringStream[] {
+  const groups: Record<string, CategorizedTransaction[]> = {}
+  transactions
+    .filter(transaction => categories.includes(transaction.category) && !transaction.internalTransfer)
+    .forEach(transaction => {
+      const key = `${transaction.category}:${payeeKey(transaction.description)}`
+      groups[key] = (groups[key] || []).concat(transaction)
+    })
+
+  const streams: RecurringStream[] = []
+  Object.keys(groups).forEach(key => {
+    const group = groups[key]
+    if (group.length < 2) return
+
+    const intervals = group.slice(1).map((transaction, index) => dayNumber(transaction.date) - dayNumber(group[index].date))
+    const interval = median(intervals)
+    const schedule = FREQUENCY_INTERVALS.find(candidate => interval >= candidate.min && interval <= candidate.max)
+    if (!schedule) return
+
+    const averageAmount = roundCurrency(Math.abs(group.reduce((sum, transaction) => sum + transaction.amount, 0)) / group.length)
+    const last = group[group.length - 1]
+    streams.push({
+      key,
+      description: last.description,
+      category: last.category,
+      frequency: schedule.frequency,
+      averageAmount,
+      monthlyAmount: roundCurrency(averageAmount * PERIODS_PER_YEAR[schedule.frequency] / 12),
+      occurrences: group.length,
+      lastDate: last.date,
+      transactionIds: group.map(transaction => transaction.id),
+      // One missed payment plus a few days of posting delay is still on schedule
+      current: dayNumber(asOf) - dayNumber(last.date) <= schedule.days * 1.5 + 3,
+    })
+  })
+
+  return streams.sort((a, b) => b.monthlyAmount - a.monthlyAmount)
+}
+
+// Detected debts not accounted for by the stated debts. A stated list is matched by
+// payee name or payment; a stated total covers the largest payments that fit within it.
+function findUndisclosedDebts(debts: RecurringStream[], stated?: number | StatedDebt[]): RecurringStream[] {
+  if (stated === undefined) return []
+
+  if (typeof stated === 'number') {
+    let remaining = stated
+    return debts.filter(debt => {
+      if (debt.monthlyAmount <= remaining * (1 + DEBT_MATCH_TOLERANCE)) {
+        remaining -= debt.monthlyAmount
+        return false
+      }
+      return true
+    })
+  }
+
+  const unmatched = stated.slice()
+  return debts.filter(debt => {
+    const index = unmatched.findIndex(item =>
+      sharesWord(payeeKey(item.description), payeeKey(debt.description)) ||
+      Math.abs(item.monthlyPayment - debt.monthlyAmount) <= item.monthlyPayment * DEBT_MATCH_TOLERANCE
+    )
+    if (index === -1) return true
+    unmatched.splice(index, 1)
+    return false
+  })
+}
+
+// NSF and overdraft fees, and withdrawals that took an account below zero
+function findAccountEvents(transactions: CategorizedTransaction[]): AccountEvent[] {
+  const events: AccountEvent[] = []
+  const previousBalances: Record<string, number> = {}
+
+  transactions.forEach(transaction => {
+    const previousBalance = previousBalances[transaction.accountId]
+    if (transaction.balance !== undefined) previousBalances[transaction.accountId] = transaction.balance
+
+    if (transaction.category === 'nsf_fee') {
+      events.push({
+        transactionId: transaction.id,
+        accountId: transaction.accountId,
+        date: transaction.date,
+        type: /overdraft|od fee/.test(transaction.description.toLowerCase()) ? 'overdraft' : 'nsf',
+        amount: Math.abs(transaction.amount),
+      })
+    } else if (
+      transaction.balance !== undefined &&
+      transaction.balance < 0 &&
+      transaction.amount < 0 &&
+      // Only the withdrawal that crossed zero, and not when the fee for it is already counted
+      (previousBalance === undefined || previousBalance >= 0) &&
+      !events.some(event => event.accountId === transaction.accountId && event.date === transaction.date)
+    ) {
+      events.push({
+        transactionId: transaction.id,
+        accountId: transaction.accountId,
+        date: transaction.date,
+        type: 'overdraft',
+        amount: Math.abs(transaction.balance),
+      })
+    }
+  })
+
+  return events
+}
+
+function verifyDownPayment(transactions: CashFlowTransaction[], asOf: string, stated?: number): DownPaymentVerification {
+  const withBalance = transactions.filter(transaction => transaction.balance !== undefined)
+  if (withBalance.length === 0) return { stated }
+
+  const seasoningStart = dayNumber(asOf) - SEASONING_DAYS
+  const historyCoversWindow = dayNumber(transactions[0].date) <= seasoningStart + 1
+  let availableFunds = 0
+  let seasonedFunds = 0
+
+  uniqueValues(withBalance.map(transaction => transaction.accountId)).forEach(accountId => {
+    const account = withBalance.filter(transaction => transaction.accountId === accountId)
+    const before = account.filter(transaction => dayNumber(transaction.date) <= seasoningStart)
+    const during = account.filter(transaction => dayNumber(transaction.date) > seasoningStart)
+
+    // The balance carried into the window counts as held from its start. An account
+    // quiet until inside the window held its opening balance there, provided the
+    // statements reach back that far.
+    let openingBalance: number | undefined
+    if (before.length > 0) {
+      openingBalance = before[before.length - 1].balance!
+    } else if (historyCoversWindow) {
+      openingBalance = during[0].balance! - during[0].amount
+    }
+
+    availableFunds += account[account.length - 1].balance!
+    if (openingBalance !== undefined) {
+      seasonedFunds += Math.max(0, Math.min(openingBalance, ...during.map(transaction => transaction.balance!)))
+    }
+  })
+
+  availableFunds = roundCurrency(Math.max(0, availableFunds))
+  seasonedFunds = roundCurrency(Math.min(seasonedFunds, availableFunds))
+
+  return {
+    stated,
+    availableFunds,
+    seasonedFunds,
+    unseasonedFunds: roundCurrency(availableFunds - seasonedFunds),
+    sufficient: stated !== undefined ? seasonedFunds >= stated : undefined,
+  }
+}
+
+function totalByCategory(transactions: CategorizedTransaction[]): Record<TransactionCategory, number> {
+  const totals: Record<TransactionCategory, number> = {
+    payroll: 0,
+    government_benefit: 0,
+    other_income: 0,
+    transfer: 0,
+    debt_payment: 0,
+    housing: 0,
+    nsf_fee: 0,
+    living: 0,
+  }
+  transactions.forEach(transaction => {
+    totals[transaction.category] = roundCurrency(totals[transaction.category] + transaction.amount)
+  })
+  return totals
+}
+
+// Payee from a description without reference numbers and dates, e.g. "ACME PAYROLL 0614" -> "acme payroll"
+function payeeKey(description: string): string {
+  return description.toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1)
+    .slice(0, 3)
+    .join(' ')
+}
+
+function sharesWord(a: string, b: string): boolean {
+  const generic = ['payment', 'loan', 'credit', 'card', 'auto', 'finance']
+  const words = a.split(' ').filter(word => !generic.includes(word))
+  return words.some(word => b.split(' ').includes(word))
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(`${date.substring(0, 10)}T00:00:00Z`).getTime() / DAY_MS)
+}
+
+function toDate(days: number): string {
+  return new Date(Math.floor(days) * DAY_MS).toISOString().substring(0, 10)
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function uniqueValues(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index)
+}
+
+function flatten(lists: string[][]): string[] {
+  return lists.reduce((all, list) => all.concat(list), [] as string[])
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+}
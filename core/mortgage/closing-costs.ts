@@ -0,0 +1,432 @@
+import type { ClosingCostBreakdown, ClosingCostItem } from '../scenario-types'
+import type { Country } from './amortization'
+
+export const CLOSING_COST_TABLES_VERSION = '2025.1'
+
+// Marginal brackets: each rate (percent) applies to the portion of value up to `upTo`
+export interface TaxBracket {
+  upTo: number
+  rate: number
+}
+
+export interface ClosingCostInput {
+  country: Country
+  location: string
+  propertyPrice: number
+  downPayment: number
+  loanAmount?: number
+  firstTimeBuyer?: boolean
+  // Mortgage default insurance premium; provincial sales tax on it is due at closing
+  mortgageInsurancePremium?: number
+  legalFees?: number
+  titleInsurance?: number
+}
+
+// Ontario land transfer tax (single-family residential)
+export const ONTARIO_LTT_BRACKETS: TaxBracket[] = [
+  { upTo: 55000, rate: 0.5 },
+  { upTo: 250000, rate: 1 },
+  { upTo: 400000, rate: 1.5 },
+  { upTo: 2000000, rate: 2 },
+  { upTo: Infinity, rate: 2.5 },
+]
+
+// Toronto municipal land transfer tax, including the luxury tiers from April 2024
+export const TORONTO_MLTT_BRACKETS: TaxBracket[] = [
+  { upTo: 55000, rate: 0.5 },
+  { upTo: 250000, rate: 1 },
+  { upTo: 400000, rate: 1.5 },
+  { upTo: 2000000, rate: 2 },
+  { upTo: 3000000, rate: 2.5 },
+  { upTo: 4000000, rate: 3.5 },
+  { upTo: 5000000, rate: 4.5 },
+  { upTo: 10000000, rate: 5.5 },
+  { upTo: 20000000, rate: 6.5 },
+  { upTo: Infinity, rate: 7.5 },
+]
+
+// BC property transfer tax, including the additional 2% on residential value over $3M
+export const BC_PTT_BRACKETS: TaxBracket[] = [
+  { upTo: 200000, rate: 1 },
+  { upTo: 2000000, rate: 2 },
+  { upTo: 3000000, rate: 3 },
+  { upTo: Infinity, rate: 5 },
+]
+
+// Quebec duties on transfers of immovables ("welcome tax"), 2025 indexed thresholds
+export const QUEBEC_WELCOME_TAX_BRACKETS: TaxBracket[] = [
+  { upTo: 61500, rate: 0.5 },
+  { upTo: 307800, rate: 1 },
+  { upTo: Infinity, rate: 1.5 },
+]
+
+export const MONTREAL_WELCOME_TAX_BRACKETS: TaxBracket[] = [
+  { upTo: 61500, rate: 0.5 },
+  { upTo: 307800, rate: 1 },
+  { upTo: 552300, rate: 1.5 },
+  { upTo: 1104700, rate: 2 },
+  { upTo: 2136500, rate: 2.5 },
+  { upTo: 3113000, rate: 3.5 },
+  { upTo: Infinity, rate: 4 },
+]
+
+export const MANITOBA_LTT_BRACKETS: TaxBracket[] = [
+  { upTo: 30000, rate: 0 },
+  { upTo: 90000, rate: 0.5 },
+  { upTo: 150000, rate: 1 },
+  { upTo: 200000, rate: 1.5 },
+  { upTo: Infinity, rate: 2 },
+]
+
+export const WASHINGTON_REET_BRACKETS: TaxBracket[] = [
+  { upTo: 525000, rate: 1.1 },
+  { upTo: 1525000, rate: 1.28 },
+  { upTo: 3025000, rate: 2.75 },
+  { upTo: Infinity, rate: 3 },
+]
+
+export const FIRST_TIME_BUYER_REBATES = {
+  ONTARIO_MAX: 4000,
+  TORONTO_MAX: 4475,
+  // BC: tax on the first $500k is exempt up to $835k, phased out by $860k
+  BC_EXEMPT_PORTION: 500000,
+  BC_FULL_EXEMPTION_LIMIT: 835000,
+  BC_PHASE_OUT_LIMIT: 860000,
+}
+
+// Provincial sales tax on mortgage default insurance premiums (percent)
+export const INSURANCE_PREMIUM_PST: Record<string, number> = {
+  ON: 8,
+  QC: 9,
+  SK: 6,
+}
+
+// US state transfer and mortgage taxes. Rates are percent of price (deed) or loan
+// (mortgage); paidBy reflects local custom.
+export const US_STATE_TRANSFER_TAXES: Record<string, {
+  deedRate?: number
+  deedBrackets?: TaxBracket[]
+  paidBy: 'buyer' | 'seller' | 'split'
+  mortgageTaxRate?: number
+  mansionTax?: { threshold: number; rate: number }
+}> = {
+  CA: { deedRate: 0.11, paidBy: 'seller' },
+  CO: { deedRate: 0.01, paidBy: 'buyer' },
+  DC: { deedRate: 1.45, paidBy: 'split' },
+  FL: { deedRate: 0.7, paidBy: 'seller', mortgageTaxRate: 0.55 },
+  GA: { deedRate: 0.1, paidBy: 'seller', mortgageTaxRate: 0.3 },
+  IL: { deedRate: 0.15, paidBy: 'seller' },
+  MA: { deedRate: 0.456, paidBy: 'seller' },
+  MD: { deedRate: 0.5, paidBy: 'split' },
+  MN: { deedRate: 0.33, paidBy: 'seller', mortgageTaxRate: 0.24 },
+  NJ: { deedRate: 1, paidBy: 'seller', mansionTax: { threshold: 1000000, rate: 1 } },
+  NY: { deedRate: 0.4, paidBy: 'seller', mortgageTaxRate: 1.05, mansionTax: { threshold: 1000000, rate: 1 } },
+  PA: { deedRate: 2, paidBy: 'split' },
+  TX: { paidBy: 'buyer' },
+  VA: { deedRate: 0.25, paidBy: 'buyer' },
+  WA: { deedBrackets: WASHINGTON_REET_BRACKETS, paidBy: 'seller' },
+}
+
+export const DEFAULT_FEES = {
+  CA: { legal: 1500, titleInsurance: 350, registration: 150 },
+  US: { legal: 1000, titlePerThousand: 5, titleMinimum: 500, recording: 250 },
+}
+
+// Every province and state, including those without a transfer tax table, so a location
+// in one is never read as another whose name it contains
+const CA_PROVINCES: Record<string, string> = {
+  AB: 'alberta',
+  BC: 'british columbia',
+  MB: 'manitoba',
+  NB: 'new brunswick',
+  NL: 'newfoundland',
+  NS: 'nova scotia',
+  NT: 'northwest territories',
+  NU: 'nunavut',
+  ON: 'ontario',
+  PE: 'prince edward island',
+  QC: 'quebec',
+  SK: 'saskatchewan',
+  YT: 'yukon',
+}
+
+const US_STATES: Record<string, string> = {
+  AK: 'alaska',
+  AL: 'alabama',
+  AR: 'arkansas',
+  AZ: 'arizona',
+  CA: 'california',
+  CO: 'colorado',
+  CT: 'connecticut',
+  DC: 'district of columbia',
+  DE: 'delaware',
+  FL: 'florida',
+  GA: 'georgia',
+  HI: 'hawaii',
+  IA: 'iowa',
+  ID: 'idaho',
+  IL: 'illinois',
+  IN: 'indiana',
+  KS: 'kansas',
+  KY: 'kentucky',
+  LA: 'louisiana',
+  MA: 'massachusetts',
+  MD: 'maryland',
+  ME: 'maine',
+  MI: 'michigan',
+  MN: 'minnesota',
+  MO: 'missouri',
+  MS: 'mississippi',
+  MT: 'montana',
+  NC: 'north carolina',
+  ND: 'north dakota',
+  NE: 'nebraska',
+  NH: 'new hampshire',
+  NJ: 'new jersey',
+  NM: 'new mexico',
+  NV: 'nevada',
+  NY: 'new york',
+  OH: 'ohio',
+  OK: 'oklahoma',
+  OR: 'oregon',
+  PA: 'pennsylvania',
+  RI: 'rhode island',
+  SC: 'south carolina',
+  SD: 'south dakota',
+  TN: 'tennessee',
+  TX: 'texas',
+  UT: 'utah',
+  VA: 'virginia',
+  VT: 'vermont',
+  WA: 'washington',
+  WI: 'wisconsin',
+  WV: 'west virginia',
+  WY: 'wyoming',
+}
+
+/**
+ * Tax owed under a set of marginal brackets
+ */
+export function calculateBracketTax(value: number, brackets: TaxBracket[]): number {
+  let tax = 0
+  let lower = 0
+  for (const bracket of brackets) {
+    if (value <= lower) break
+    tax += (Math.min(value, bracket.upTo) - lower) * bracket.rate / 100
+    lower = bracket.upTo
+  }
+  return tax
+}
+
+/**
+ * Resolve a free-text location ("Toronto, ON", "Austin, Texas") to a province or state
+ * code and municipality
+ */
+export function parseJurisdiction(country: Country, location: string): { region?: string; municipality?: string } {
+  const regions = country === 'CA' ? CA_PROVINCES : US_STATES
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean)
+  const normalized = location.toLowerCase()
+
+  let region: string | undefined
+  for (const part of [...parts].reverse()) {
+    const code = part.toUpperCase()
+    if (regions[code]) {
+      region = code
+      break
+    }
+  }
+  if (!region) {
+    region = Object.keys(regions).find(code => parts.some(part => part.toLowerCase() === regions[code]))
+  }
+  if (!region) {
+    // Whole names only, the one ending last, and the longest of those ("West Virginia", not Virginia)
+    let best: { code: string; end: number; length: number } | undefined
+    for (const code of Object.keys(regions)) {
+      const name = regions[code]
+      // Greedy, so the match runs to the end of the name's last occurrence
+      const match = new RegExp(`^.*\\b${name}\\b`).exec(normalized)
+      if (!match) continue
+
+      const end = match[0].length
+      if (!best || end > best.end || (end === best.end && name.length > best.length)) {
+        best = { code, end, length: name.length }
+      }
+    }
+    region = best?.code
+  }
+
+  const municipality = parts.length > 1 ? parts[0].toLowerCase() : undefined
+  return { region, municipality }
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function canadianTransferTaxes(
+  region: string | undefined,
+  municipality: string | undefined,
+  input: ClosingCostInput,
+  loanAmount: number,
+  warnings: string[]
+): ClosingCostItem[] {
+  const price = input.propertyPrice
+  const items: ClosingCostItem[] = []
+
+  switch (region) {
+    case 'ON': {
+      const tax = calculateBracketTax(price, ONTARIO_LTT_BRACKETS)
+      items.push({ code: 'on_ltt', label: 'Ontario land transfer tax', category: 'transfer_tax', amount: tax, paidBy: 'buyer' })
+      if (input.firstTimeBuyer) {
+        items.push({ code: 'on_ltt_ftb_rebate', label: 'Ontario first-time buyer rebate', category: 'rebate', amount: -Math.min(tax, FIRST_TIME_BUYER_REBATES.ONTARIO_MAX), paidBy: 'buyer' })
+      }
+      if (municipality === 'toronto') {
+        const mltt = calculateBracketTax(price, TORONTO_MLTT_BRACKETS)
+        items.push({ code: 'toronto_mltt', label: 'Toronto municipal land transfer tax', category: 'transfer_tax', amount: mltt, paidBy: 'buyer' })
+        if (input.firstTimeBuyer) {
+          items.push({ code: 'toronto_mltt_ftb_rebate', label: 'Toronto first-time buyer rebate', category: 'rebate', amount: -Math.min(mltt, FIRST_TIME_BUYER_REBATES.TORONTO_MAX), paidBy: 'buyer' })
+        }
+      }
+      break
+    }
+    case 'BC': {
+      const tax = calculateBracketTax(price, BC_PTT_BRACKETS)
+      items.push({ code: 'bc_ptt', label: 'BC property transfer tax', category: 'transfer_tax', amount: tax, paidBy: 'buyer' })
+      if (input.firstTimeBuyer && price < FIRST_TIME_BUYER_REBATES.BC_PHASE_OUT_LIMIT) {
+        const maxExemption = calculateBracketTax(Math.min(price, FIRST_TIME_BUYER_REBATES.BC_EXEMPT_PORTION), BC_PTT_BRACKETS)
+        const exemption = price <= FIRST_TIME_BUYER_REBATES.BC_FULL_EXEMPTION_LIMIT
+          ? maxExemption
+          : maxExemption * (FIRST_TIME_BUYER_REBATES.BC_PHASE_OUT_LIMIT - price) /
+            (FIRST_TIME_BUYER_REBATES.BC_PHASE_OUT_LIMIT - FIRST_TIME_BUYER_REBATES.BC_FULL_EXEMPTION_LIMIT)
+        items.push({ code: 'bc_ptt_ftb_exemption', label: 'BC first-time home buyers\' exemption', category: 'rebate', amount: -exemption, paidBy: 'buyer' })
+      }
+      break
+    }
+    case 'QC': {
+      const isMontreal = municipality === 'montreal' || municipality === 'montréal'
+      const tax = calculateBracketTax(price, isMontreal ? MONTREAL_WELCOME_TAX_BRACKETS : QUEBEC_WELCOME_TAX_BRACKETS)
+      items.push({ code: 'qc_welcome_tax', label: `Welcome tax${isMontreal ? ' (Montréal)' : ''}`, category: 'transfer_tax', amount: tax, paidBy: 'buyer' })
+      break
+    }
+    case 'MB':
+      items.push({ code: 'mb_ltt', label: 'Manitoba land transfer tax', category: 'transfer_tax', amount: calculateBracketTax(price, MANITOBA_LTT_BRACKETS), paidBy: 'buyer' })
+      break
+    case 'NB':
+      items.push({ code: 'nb_ltt', label: 'New Brunswick land transfer tax', category: 'transfer_tax', amount: price * 0.01, paidBy: 'buyer' })
+      break
+    case 'PE':
+      items.push({ code: 'pe_rptt', label: 'PEI real property transfer tax', category: 'transfer_tax', amount: input.firstTimeBuyer ? 0 : price * 0.01, paidBy: 'buyer' })
+      break
+    case 'NS':
+      items.push({ code: 'ns_dtt', label: 'Nova Scotia deed transfer tax', category: 'transfer_tax', amount: price * 0.015, paidBy: 'buyer', notes: 'Municipal rate varies; Halifax rate used' })
+      break
+    case 'AB':
+      items.push({ code: 'ab_title_fee', label: 'Alberta land title transfer fee', category: 'recording', amount: 50 + Math.ceil(price / 5000) * 5, paidBy: 'buyer' })
+      items.push({ code: 'ab_mortgage_fee', label: 'Alberta mortgage registration fee', category: 'recording', amount: loanAmount > 0 ? 50 + Math.ceil(loanAmount / 5000) * 5 : 0, paidBy: 'buyer' })
+      break
+    default:
+      warnings.push(`No land transfer tax table for ${region || 'unknown province'}; transfer taxes are not included`)
+  }
+
+  return items
+}
+
+function usTransferTaxes(
+  region: string | undefined,
+  input: ClosingCostInput,
+  loanAmount: number,
+  warnings: string[]
+): ClosingCostItem[] {
+  const table = region ? US_STATE_TRANSFER_TAXES[region] : undefined
+  if (!table) {
+    warnings.push(`No transfer tax table for ${region || 'unknown state'}; transfer taxes are not included`)
+    return []
+  }
+
+  const price = input.propertyPrice
+  const items: ClosingCostItem[] = []
+  const deedTax = table.deedBrackets
+    ? calculateBracketTax(price, table.deedBrackets)
+    : price * (table.deedRate || 0) / 100
+
+  if (deedTax > 0) {
+    if (table.paidBy === 'split') {
+      items.push({ code: 'deed_transfer_tax_buyer', label: `${region} transfer tax (buyer share)`, category: 'transfer_tax', amount: deedTax / 2, paidBy: 'buyer' })
+      items.push({ code: 'deed_transfer_tax_seller', label: `${region} transfer tax (seller share)`, category: 'transfer_tax', amount: deedTax / 2, paidBy: 'seller' })
+    } else {
+      items.push({ code: 'deed_transfer_tax', label: `${region} transfer tax`, category: 'transfer_tax', amount: deedTax, paidBy: table.paidBy })
+    }
+  }
+
+  if (table.mortgageTaxRate && loanAmount > 0) {
+    items.push({ code: 'mortgage_tax', label: `${region} mortgage recording tax`, category: 'transfer_tax', amount: loanAmount * table.mortgageTaxRate / 100, paidBy: 'buyer' })
+  }
+
+  if (table.mansionTax && price >= table.mansionTax.threshold) {
+    items.push({ code: 'mansion_tax', label: `${region} mansion tax`, category: 'transfer_tax', amount: price * table.mansionTax.rate / 100, paidBy: 'buyer' })
+  }
+
+  return items
+}
+
+/**
+ * Itemized closing costs and cash to close for a purchase.
+ *
+ * Seller-paid items are listed for transparency but excluded from the buyer's total.
+ * Legal fees and title insurance use estimates unless supplied.
+ */
+export function calculateClosingCosts(input: ClosingCostInput): ClosingCostBreakdown {
+  const { region, municipality } = parseJurisdiction(input.country, input.location)
+  const loanAmount = input.loanAmount ?? Math.max(0, input.propertyPrice - input.downPayment)
+  const warnings: string[] = []
+  const items: ClosingCostItem[] = []
+
+  if (input.country === 'CA') {
+    const fees = DEFAULT_FEES.CA
+    items.push(...canadianTransferTaxes(region, municipality, input, loanAmount, warnings))
+    items.push({ code: 'legal_fees', label: 'Legal fees and disbursements', category: 'legal', amount: input.legalFees ?? fees.legal, paidBy: 'buyer' })
+    items.push({ code: 'title_insurance', label: 'Title insurance', category: 'title_insurance', amount: input.titleInsurance ?? fees.titleInsurance, paidBy: 'buyer' })
+    if (region !== 'AB') {
+      items.push({ code: 'registration_fees', label: 'Deed and mortgage registration', category: 'recording', amount: fees.registration, paidBy: 'buyer' })
+    }
+
+    const pstRate = region ? INSURANCE_PREMIUM_PST[region] : undefined
+    if (pstRate && input.mortgageInsurancePremium) {
+      items.push({
+        code: 'insurance_premium_pst',
+        label: `PST on mortgage insurance premium (${pstRate}%)`,
+        category: 'insurance_tax',
+        amount: input.mortgageInsurancePremium * pstRate / 100,
+        paidBy: 'buyer',
+        notes: 'Cannot be added to the mortgage; due in cash at closing',
+      })
+    }
+  } else {
+    const fees = DEFAULT_FEES.US
+    items.push(...usTransferTaxes(region, input, loanAmount, warnings))
+    items.push({ code: 'recording_fees', label: 'Recording fees', category: 'recording', amount: fees.recording, paidBy: 'buyer' })
+    items.push({
+      code: 'title_insurance',
+      label: 'Title insurance',
+      category: 'title_insurance',
+      amount: input.titleInsurance ?? Math.max(fees.titleMinimum, input.propertyPrice / 1000 * fees.titlePerThousand),
+      paidBy: 'buyer',
+    })
+    items.push({ code: 'legal_fees', label: 'Settlement and attorney fees', category: 'legal', amount: input.legalFees ?? fees.legal, paidBy: 'buyer' })
+  }
+
+  const roundedItems = items.map(item => ({ ...item, amount: roundCents(item.amount) }))
+  const totalClosingCosts = roundCents(roundedItems
+    .filter(item => item.paidBy === 'buyer')
+    .reduce((sum, item) => sum + item.amount, 0))
+
+  return {
+    jurisdiction: { country: input.country, region, municipality },
+    items: roundedItems,
+    totalClosingCosts,
+    downPayment: input.downPayment,
+    cashToClose: roundCents(input.downPayment + totalClosingCosts),
+    tablesVersion: CLOSING_COST_TABLES_VERSION,
+    warnings,
+  }
+}
@@ -0,0 +1,536 @@
+import { z } from 'zod'
+import type { DocumentType, ExtractedData } from '../agents/document-ai-agent'
+import type { Country } from './amortization'
+
+export const IncomeCategorySchema = z.enum(['base', 'overtime', 'bonus', 'commission', 'self_employed', 'rental'])
+
+// One step of the worksheet. Lines that only support another line, or that fail the
+// rule they were tested against, are shown but carry no income.
+export const IncomeWorksheetLineSchema = z.object({
+  category: IncomeCategorySchema,
+  label: z.string(),
+  rule: z.string(),
+  explanation: z.string(),
+  documents: z.array(z.string()),
+  inputs: z.record(z.union([z.number(), z.string()])),
+  annualAmount: z.number(),
+  included: z.boolean(),
+})
+
+export const IncomeWorksheetSchema = z.object({
+  country: z.enum(['CA', 'US']),
+  rentalMethod: z.enum(['addback', 'offset']),
+  lines: z.array(IncomeWorksheetLineSchema),
+  byCategory: z.record(z.number()),
+  qualifyingAnnualIncome: z.number(),
+  qualifyingMonthlyIncome: z.number(),
+  // Rent netted against the rental property's own costs rather than counted as income
+  rentalOffsetMonthly: z.number(),
+  warnings: z.array(z.string()),
+})
+
+export type IncomeCategory = z.infer<typeof IncomeCategorySchema>
+export type IncomeWorksheetLine = z.infer<typeof IncomeWorksheetLineSchema>
+export type IncomeWorksheet = z.infer<typeof IncomeWorksheetSchema>
+
+export interface IncomeDocument {
+  documentId?: string
+  documentType: DocumentType
+  extractedFields: ExtractedData['extractedFields']
+}
+
+export interface IncomeCalculationOptions {
+  country: Country
+  // Add qualifying rent to income, or net it against the property's costs
+  rentalMethod?: 'addback' | 'offset'
+  // Share of gross rents counted; 50% in Canada, 75% (a 25% vacancy factor) in the US
+  rentalInclusionRate?: number
+}
+
+// Extracted field names the calculator reads, by document type
+export const INCOME_DOCUMENT_FIELDS: Partial<Record<DocumentType, string[]>> = {
+  paystub: ['gross_pay', 'regular_pay', 'pay_frequency', 'pay_period_end', 'ytd_gross', 'ytd_regular', 'ytd_overtime', 'ytd_bonus', 'ytd_commission'],
+  w2: ['tax_year', 'wages', 'overtime', 'bonus', 'commission'],
+  t4: ['tax_year', 'employment_income', 'overtime', 'bonus', 'commission'],
+  tax_return: [
+    'tax_year',
+    'business_income',
+    'depreciation',
+    'depletion',
+    'business_use_of_home',
+    'amortization',
+    'non_recurring_expenses',
+    'rental_gross_income',
+    'rental_net_income',
+    'rental_depreciation',
+  ],
+  employment_letter: ['salary'],
+}
+
+const PERIODS_PER_YEAR: Record<string, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+  annual: 1,
+  annually: 1,
+}
+
+// Non-cash or one-time expenses added back to self-employed net income
+const SELF_EMPLOYED_ADDBACKS = ['depreciation', 'depletion', 'business_use_of_home', 'amortization', 'non_recurring_expenses']
+
+const VARIABLE_CATEGORIES: Array<'overtime' | 'bonus' | 'commission'> = ['overtime', 'bonus', 'commission']
+
+const DEFAULT_RENTAL_INCLUSION: Record<Country, number> = { CA: 0.5, US: 0.75 }
+
+interface SourceDocument {
+  id: string
+  fields: Record<string, any>
+}
+
+interface EmploymentYear extends SourceDocument {
+  year: number
+  wages: number
+  overtime?: number
+  bonus?: number
+  commission?: number
+}
+
+interface PaystubYtd extends SourceDocument {
+  monthsElapsed?: number
+  year?: number
+}
+
+/**
+ * Build a qualifying income worksheet from extracted paystubs, W-2s, T4s, employment
+ * letters and T1/1040 returns.
+ *
+ * - Base pay from a paystub is the lower of the current rate annualized and base pay
+ *   year to date annualized; without one, W-2/T4 wages are averaged over two years
+ *   (the latest year if it is lower), and an employment letter is the last resort.
+ * - Overtime, bonus and commission need at least a full prior year. They are averaged
+ *   over the prior years plus year to date, or taken at the current level if declining.
+ * - Self-employed income is net business income plus add-backs, averaged over the two
+ *   latest returns, or the latest return if income is declining.
+ * - Rent is added back (Schedule E net plus depreciation in the US, a share of gross
+ *   rents in Canada) or kept out of income as an offset against the property's costs.
+ */
+export function calculateQualifyingIncome(documents: IncomeDocument[], options: IncomeCalculationOptions): IncomeWorksheet {
+  const rentalMethod = options.rentalMethod || 'addback'
+  const rentalInclusionRate = options.rentalInclusionRate ?? DEFAULT_RENTAL_INCLUSION[options.country]
+  const lines: IncomeWorksheetLine[] = []
+  const warnings: string[] = []
+
+  const ofType = (type: DocumentType): SourceDocument[] => documents
+    .filter(document => document.documentType === type)
+    .map((document, index) => ({
+      id: document.documentId || `${type}-${index + 1}`,
+      fields: document.extractedFields || {},
+    }))
+
+  const paystub = latestPaystub(ofType('paystub'))
+  const history = employmentHistory(ofType('w2'), 'wages', ofType('t4'), 'employment_income')
+    .filter(year => !paystub?.year || year.year < paystub.year)
+
+  addBaseIncome(lines, warnings, paystub, history, ofType('employment_letter'))
+  for (const category of VARIABLE_CATEGORIES) {
+    addVariableIncome(lines, warnings, category, paystub, history)
+  }
+
+  const returns = ofType('tax_return')
+    .map(document => ({ ...document, year: readExtractedAmount(document.fields, 'tax_year') }))
+    .sort((a, b) => (b.year || 0) - (a.year || 0))
+  addSelfEmployedIncome(lines, warnings, returns)
+  const rentalOffsetMonthly = addRentalIncome(lines, warnings, options.country, rentalMethod, rentalInclusionRate, returns)
+
+  const byCategory: Record<string, number> = {}
+  for (const line of lines.filter(item => item.included)) {
+    byCategory[line.category] = roundCents((byCategory[line.category] || 0) + line.annualAmount)
+  }
+  const qualifyingAnnualIncome = roundCents(Math.max(0, Object.keys(byCategory).reduce((total, key) => total + byCategory[key], 0)))
+
+  return {
+    country: options.country,
+    rentalMethod,
+    lines,
+    byCategory,
+    qualifyingAnnualIncome,
+    qualifyingMonthlyIncome: roundCents(qualifyingAnnualIncome / 12),
+    rentalOffsetMonthly,
+    warnings,
+  }
+}
+
+function addBaseIncome(
+  lines: IncomeWorksheetLine[],
+  warnings: string[],
+  paystub: PaystubYtd | undefined,
+  history: EmploymentYear[],
+  letters: SourceDocument[]
+): void {
+  if (paystub) {
+    const regularPay = readExtractedAmount(paystub.fields, 'regular_pay') ?? readExtractedAmount(paystub.fields, 'gross_pay')
+    const frequency = normalizeFrequency(paystub.fields.pay_frequency)
+    const periods = frequency ? PERIODS_PER_YEAR[frequency] : undefined
+    const ytdBase = paystubYtdBase(paystub.fields)
+
+    const current = regularPay !== undefined && periods
+      ? { amount: roundCents(regularPay * periods), inputs: { regularPay, payFrequency: frequency!, periodsPerYear: periods } }
+      : undefined
+    const ytd = ytdBase !== undefined && paystub.monthsElapsed
+      ? { amount: roundCents(ytdBase / paystub.monthsElapsed * 12), inputs: { ytdBase, monthsElapsed: paystub.monthsElapsed } }
+      : undefined
+
+    if (!current) warnings.push('Paystub has no regular pay and pay frequency; base pay uses year to date only')
+    if (!ytd) warnings.push('Paystub has no year-to-date base pay and period end date; base pay uses the current rate only')
+
+    const useYtd = !!ytd && (!current || ytd.amount < current.amount)
+    if (current) {
+      lines.push({
+        category: 'base',
+        label: 'Base pay at current rate',
+        rule: 'base.current_rate_annualized',
+        explanation: useYtd
+          ? 'Current regular pay times pay periods per year; not used because year-to-date base pay annualizes lower'
+          : 'Current regular pay times pay periods per year; used because year-to-date base pay supports it',
+        documents: [paystub.id],
+        inputs: current.inputs,
+        annualAmount: current.amount,
+        included: !useYtd,
+      })
+    }
+    if (ytd) {
+      lines.push({
+        category: 'base',
+        label: 'Base pay year to date, annualized',
+        rule: 'base.ytd_annualized',
+        explanation: useYtd
+          ? 'Year-to-date base pay divided by months elapsed times 12; used because it is lower than the current rate'
+          : 'Year-to-date base pay divided by months elapsed times 12; supports the current rate',
+        documents: [paystub.id],
+        inputs: ytd.inputs,
+        annualAmount: ytd.amount,
+        included: useYtd,
+      })
+    }
+    return
+  }
+
+  const years = history.slice(0, 2)
+  if (years.length > 0) {
+    const base = years.map(year => roundCents(year.wages - (year.overtime || 0) - (year.bonus || 0) - (year.commission || 0)))
+    const { amount, rule, explanation } = averageUnlessDeclining(base, 'base', 'base pay')
+    if (years.length < 2) warnings.push('Base pay is supported by one year of W-2/T4 wages; two years are normally required')
+
+    lines.push({
+      category: 'base',
+      label: 'Base pay from W-2/T4 wages',
+      rule,
+      explanation: `${explanation}; wages exclude overtime, bonus and commission`,
+      documents: years.map(year => year.id),
+      inputs: yearInputs(years.map(year => year.year), base, 'base'),
+      annualAmount: amount,
+      included: true,
+    })
+    return
+  }
+
+  const letter = letters.find(document => readExtractedAmount(document.fields, 'salary') !== undefined)
+  if (letter) {
+    warnings.push('Base pay is supported by an employment letter only; obtain a recent paystub')
+    lines.push({
+      category: 'base',
+      label: 'Salary from employment letter',
+      rule: 'base.employment_letter',
+      explanation: 'Annual salary stated in the employment letter, used when no paystub or W-2/T4 is available',
+      documents: [letter.id],
+      inputs: { salary: readExtractedAmount(letter.fields, 'salary')! },
+      annualAmount: roundCents(readExtractedAmount(letter.fields, 'salary')!),
+      included: true,
+    })
+  }
+}
+
+function addVariableIncome(
+  lines: IncomeWorksheetLine[],
+  warnings: string[],
+  category: 'overtime' | 'bonus' | 'commission',
+  paystub: PaystubYtd | undefined,
+  history: EmploymentYear[]
+): void {
+  const priorYears = history.filter(year => year[category] !== undefined).slice(0, 2)
+  const ytd = paystub ? readExtractedAmount(paystub.fields, `ytd_${category}`) : undefined
+  const months = paystub?.monthsElapsed
+  if (priorYears.length === 0 && !ytd) return
+
+  const documents = priorYears.map(year => year.id).concat(ytd !== undefined && paystub ? [paystub.id] : [])
+  const inputs: Record<string, number | string> = yearInputs(priorYears.map(year => year.year), priorYears.map(year => year[category]!), category)
+  if (ytd !== undefined) inputs[`ytd_${category}`] = ytd
+  if (ytd !== undefined && months) inputs.monthsElapsed = months
+
+  if (priorYears.length === 0) {
+    warnings.push(`${capitalize(category)} has no prior-year history and is excluded`)
+    lines.push({
+      category,
+      label: `${capitalize(category)} year to date`,
+      rule: 'variable.history_required',
+      explanation: `${capitalize(category)} counts only with at least a full prior year of history`,
+      documents,
+      inputs,
+      annualAmount: months ? roundCents(ytd! / months * 12) : ytd!,
+      included: false,
+    })
+    return
+  }
+
+  // Average over every month covered: the prior years plus year to date
+  const ytdCovered = ytd !== undefined && months ? { amount: ytd, months } : undefined
+  const totalMonths = priorYears.length * 12 + (ytdCovered?.months || 0)
+  const total = priorYears.reduce((sum, year) => sum + year[category]!, 0) + (ytdCovered?.amount || 0)
+  const average = roundCents(total / totalMonths * 12)
+
+  // Declining when the current level is below the most recent full year
+  const current = ytdCovered ? roundCents(ytdCovered.amount / ytdCovered.months * 12) : priorYears[0][category]!
+  const previous = ytdCovered ? priorYears[0][category]! : priorYears[1]?.[category]
+  const declining = previous !== undefined && current < previous
+
+  if (totalMonths < 24) {
+    warnings.push(`${capitalize(category)} history covers ${totalMonths} months; 24 are normally required`)
+  }
+
+  lines.push({
+    category,
+    label: capitalize(category),
+    rule: declining ? 'variable.declining' : 'variable.average',
+    explanation: declining
+      ? `${capitalize(category)} is declining, so the current annualized level is used instead of the average`
+      : `${capitalize(category)} averaged over ${totalMonths} months of history`,
+    documents,
+    inputs,
+    annualAmount: declining ? Math.min(current, average) : average,
+    included: true,
+  })
+}
+
+function addSelfEmployedIncome(
+  lines: IncomeWorksheetLine[],
+  warnings: string[],
+  returns: Array<SourceDocument & { year?: number }>
+): void {
+  const years = returns.filter(document => readExtractedAmount(document.fields, 'business_income') !== undefined).slice(0, 2)
+  if (years.length === 0) return
+
+  const adjusted = years.map(document => {
+    const inputs: Record<string, number | string> = { businessIncome: readExtractedAmount(document.fields, 'business_income')! }
+    let amount = inputs.businessIncome as number
+    for (const addback of SELF_EMPLOYED_ADDBACKS) {
+      const value = readExtractedAmount(document.fields, addback)
+      if (value) {
+        inputs[addback] = value
+        amount += value
+      }
+    }
+    amount = roundCents(amount)
+
+    lines.push({
+      category: 'self_employed',
+      label: `Self-employed income${document.year ? ` ${document.year}` : ''}`,
+      rule: 'self_employed.addbacks',
+      explanation: 'Net business income with depreciation, depletion, business use of home, amortization and non-recurring expenses added back',
+      documents: [document.id],
+      inputs,
+      annualAmount: amount,
+      included: false,
+    })
+    return amount
+  })
+
+  if (years.length < 2) {
+    warnings.push('Self-employed income is supported by one tax return; two years are normally required')
+  }
+
+  const { amount, rule, explanation } = averageUnlessDeclining(adjusted, 'self_employed', 'self-employed income')
+  lines.push({
+    category: 'self_employed',
+    label: 'Qualifying self-employed income',
+    rule,
+    explanation,
+    documents: years.map(document => document.id),
+    inputs: yearInputs(years.map(document => document.year), adjusted, 'adjusted'),
+    annualAmount: amount,
+    included: true,
+  })
+}
+
+// Returns the monthly rental offset, which is 0 unless the offset method is used
+function addRentalIncome(
+  lines: IncomeWorksheetLine[],
+  warnings: string[],
+  country: Country,
+  method: 'addback' | 'offset',
+  inclusionRate: number,
+  returns: Array<SourceDocument & { year?: number }>
+): number {
+  const latest = returns.find(document =>
+    readExtractedAmount(document.fields, 'rental_gross_income') !== undefined || readExtractedAmount(document.fields, 'rental_net_income') !== undefined)
+  if (!latest) return 0
+
+  const gross = readExtractedAmount(latest.fields, 'rental_gross_income')
+  const net = readExtractedAmount(latest.fields, 'rental_net_income')
+  const percent = Math.round(inclusionRate * 100)
+
+  // US add-backs start from Schedule E; everything else is a share of gross rents
+  if (method === 'addback' && country === 'US' && net !== undefined) {
+    const depreciation = readExtractedAmount(latest.fields, 'rental_depreciation') || 0
+    lines.push({
+      category: 'rental',
+      label: 'Rental income added back',
+      rule: 'rental.schedule_e_addback',
+      explanation: 'Schedule E net rental income with depreciation added back',
+      documents: [latest.id],
+      inputs: { netRentalIncome: net, depreciation },
+      annualAmount: roundCents(net + depreciation),
+      included: true,
+    })
+    return 0
+  }
+
+  if (gross === undefined) {
+    warnings.push(`Rental ${method === 'offset' ? 'offset' : 'add-back'} needs gross rents, which were not extracted`)
+    return 0
+  }
+
+  const amount = roundCents(gross * inclusionRate)
+  if (method === 'offset') {
+    lines.push({
+      category: 'rental',
+      label: 'Rental offset',
+      rule: 'rental.offset',
+      explanation: `${percent}% of gross rents offsets the rental property's costs instead of counting as income`,
+      documents: [latest.id],
+      inputs: { grossRents: gross, inclusionRate },
+      annualAmount: amount,
+      included: false,
+    })
+    return roundCents(amount / 12)
+  }
+
+  lines.push({
+    category: 'rental',
+    label: 'Rental income added back',
+    rule: 'rental.gross_addback',
+    explanation: `${percent}% of gross rents added to income`,
+    documents: [latest.id],
+    inputs: { grossRents: gross, inclusionRate },
+    annualAmount: amount,
+    included: true,
+  })
+  return 0
+}
+
+// Two years are averaged unless the latest is lower, in which case it stands alone
+function averageUnlessDeclining(
+  amounts: number[],
+  category: IncomeCategory,
+  subject: string
+): { amount: number; rule: string; explanation: string } {
+  if (amounts.length === 1) {
+    return { amount: amounts[0], rule: `${category}.single_year`, explanation: `Latest year of ${subject}` }
+  }
+  if (amounts[0] < amounts[1]) {
+    return { amount: amounts[0], rule: `${category}.declining`, explanation: `The latest year of ${subject} is lower than the year before, so it is used instead of the average` }
+  }
+  return { amount: roundCents((amounts[0] + amounts[1]) / 2), rule: `${category}.two_year_average`, explanation: `Two-year average of ${subject}` }
+}
+
+function latestPaystub(paystubs: SourceDocument[]): PaystubYtd | undefined {
+  const dated = paystubs.map(document => {
+    const end = readDate(document.fields.pay_period_end ?? document.fields.pay_date)
+    if (!end) return { ...document, sortKey: 0 }
+    const startOfYear = Date.UTC(end.getUTCFullYear(), 0, 1)
+    const monthsElapsed = roundCents((end.getTime() - startOfYear) / (24 * 60 * 60 * 1000) / (365 / 12))
+    return { ...document, year: end.getUTCFullYear(), monthsElapsed: monthsElapsed > 0 ? monthsElapsed : undefined, sortKey: end.getTime() }
+  })
+
+  return dated.sort((a, b) => b.sortKey - a.sortKey)[0]
+}
+
+function paystubYtdBase(fields: Record<string, any>): number | undefined {
+  const regular = readExtractedAmount(fields, 'ytd_regular')
+  if (regular !== undefined) return regular
+
+  const gross = readExtractedAmount(fields, 'ytd_gross')
+  if (gross === undefined) return undefined
+  return roundCents(VARIABLE_CATEGORIES.reduce((base, category) => base - (readExtractedAmount(fields, `ytd_${category}`) || 0), gross))
+}
+
+// W-2s and T4s by tax year, newest first
+function employmentHistory(w2s: SourceDocument[], w2Wages: string, t4s: SourceDocument[], t4Wages: string): EmploymentYear[] {
+  const toYear = (wagesField: string) => (document: SourceDocument): EmploymentYear | undefined => {
+    const year = readExtractedAmount(document.fields, 'tax_year')
+    const wages = readExtractedAmount(document.fields, wagesField)
+    if (year === undefined || wages === undefined) return undefined
+    return {
+      ...document,
+      year,
+      wages,
+      overtime: readExtractedAmount(document.fields, 'overtime'),
+      bonus: readExtractedAmount(document.fields, 'bonus'),
+      commission: readExtractedAmount(document.fields, 'commission'),
+    }
+  }
+
+  return w2s.map(toYear(w2Wages)).concat(t4s.map(toYear(t4Wages)))
+    .filter((year): year is EmploymentYear => !!year)
+    .sort((a, b) => b.year - a.year)
+}
+
+function yearInputs(years: Array<number | undefined>, amounts: number[], name: string): Record<string, number> {
+  const inputs: Record<string, number> = {}
+  years.forEach((year, index) => {
+    inputs[year ? `${name}${year}` : `${name}${index + 1}`] = amounts[index]
+  })
+  return inputs
+}
+
+/**
+ * Pay at a stated frequency (weekly, bi-weekly, semi-monthly, monthly) as an annual amount
+ */
+export function annualizePay(amount: number, frequency: unknown): number | undefined {
+  const normalized = normalizeFrequency(frequency)
+  return normalized ? roundCents(amount * PERIODS_PER_YEAR[normalized]) : undefined
+}
+
+// Extracted amounts arrive as numbers or as text such as "$1,234.56" or "(500)"
+export function readExtractedAmount(fields: Record<string, any>, key: string): number | undefined {
+  const value = fields[key]
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value !== 'string') return undefined
+
+  const negative = /^\s*\(.*\)\s*$/.test(value) || value.trim().startsWith('-')
+  const parsed = Number(value.replace(/[^0-9.]/g, ''))
+  if (!value.match(/\d/) || !Number.isFinite(parsed)) return undefined
+  return negative ? -parsed : parsed
+}
+
+function readDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && !(value instanceof Date)) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function normalizeFrequency(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const frequency = value.toLowerCase().replace(/[^a-z]/g, '')
+  if (frequency === 'biweekly' || frequency === 'everytwoweeks' || frequency === 'fortnightly') return 'biweekly'
+  if (frequency === 'semimonthly' || frequency === 'twicemonthly') return 'semimonthly'
+  return PERIODS_PER_YEAR[frequency] ? frequency : undefined
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,321 @@
+import type { MortgageInsuranceQuote } from '../scenario-types'
+import type { Country } from './amortization'
+import { calculateLevelPayment, getPeriodicRate } from './amortization'
+
+export type CanadianInsurer = 'cmhc' | 'sagen' | 'canada_guaranty'
+export type USLoanProgram = 'conventional' | 'fha'
+
+export interface MortgageInsuranceInput {
+  country: Country
+  propertyPrice: number
+  downPayment: number
+  amortizationYears: number
+  interestRate?: number
+  creditScore?: number
+  loanProgram?: USLoanProgram
+  provider?: CanadianInsurer
+  firstTimeBuyer?: boolean
+  newBuild?: boolean
+}
+
+// Canadian default insurance rules (Dec 2024 mortgage rule changes)
+export const CA_DEFAULT_INSURANCE_RULES = {
+  MAX_INSURABLE_LTV: 95,
+  MANDATORY_ABOVE_LTV: 80,
+  INSURED_PRICE_CAP: 1500000,
+  STANDARD_AMORTIZATION: 25,
+  EXTENDED_AMORTIZATION: 30,
+  EXTENDED_AMORTIZATION_SURCHARGE: 0.2,
+} as const
+
+// Upfront premium as a percent of the loan, by loan-to-value. CMHC, Sagen and
+// Canada Guaranty publish the same schedule for standard purchases.
+export const CA_PREMIUM_TIERS: Array<{ maxLtv: number; rate: number }> = [
+  { maxLtv: 65, rate: 0.6 },
+  { maxLtv: 75, rate: 1.7 },
+  { maxLtv: 80, rate: 2.4 },
+  { maxLtv: 85, rate: 2.8 },
+  { maxLtv: 90, rate: 3.1 },
+  { maxLtv: 95, rate: 4.0 },
+]
+
+export const CA_INSURERS: Record<CanadianInsurer, string> = {
+  cmhc: 'CMHC',
+  sagen: 'Sagen',
+  canada_guaranty: 'Canada Guaranty',
+}
+
+// US conventional borrower-paid PMI annual rates (percent of loan) by FICO band and LTV band
+export const CONVENTIONAL_PMI_RULES = {
+  MANDATORY_ABOVE_LTV: 80,
+  MAX_LTV: 97,
+  AUTOMATIC_CANCELLATION_LTV: 78,
+  DEFAULT_CREDIT_SCORE: 700,
+} as const
+
+export const CONVENTIONAL_PMI_RATES: Array<{ minScore: number; rates: Array<{ maxLtv: number; rate: number }> }> = [
+  { minScore: 760, rates: [{ maxLtv: 85, rate: 0.19 }, { maxLtv: 90, rate: 0.28 }, { maxLtv: 95, rate: 0.38 }, { maxLtv: 97, rate: 0.58 }] },
+  { minScore: 740, rates: [{ maxLtv: 85, rate: 0.2 }, { maxLtv: 90, rate: 0.38 }, { maxLtv: 95, rate: 0.53 }, { maxLtv: 97, rate: 0.7 }] },
+  { minScore: 720, rates: [{ maxLtv: 85, rate: 0.23 }, { maxLtv: 90, rate: 0.46 }, { maxLtv: 95, rate: 0.66 }, { maxLtv: 97, rate: 0.87 }] },
+  { minScore: 700, rates: [{ maxLtv: 85, rate: 0.27 }, { maxLtv: 90, rate: 0.55 }, { maxLtv: 95, rate: 0.78 }, { maxLtv: 97, rate: 0.99 }] },
+  { minScore: 680, rates: [{ maxLtv: 85, rate: 0.32 }, { maxLtv: 90, rate: 0.65 }, { maxLtv: 95, rate: 0.96 }, { maxLtv: 97, rate: 1.21 }] },
+  { minScore: 660, rates: [{ maxLtv: 85, rate: 0.43 }, { maxLtv: 90, rate: 0.9 }, { maxLtv: 95, rate: 1.25 }, { maxLtv: 97, rate: 1.54 }] },
+  { minScore: 640, rates: [{ maxLtv: 85, rate: 0.45 }, { maxLtv: 90, rate: 0.95 }, { maxLtv: 95, rate: 1.33 }, { maxLtv: 97, rate: 1.65 }] },
+  { minScore: 620, rates: [{ maxLtv: 85, rate: 0.51 }, { maxLtv: 90, rate: 1.07 }, { maxLtv: 95, rate: 1.5 }, { maxLtv: 97, rate: 1.86 }] },
+]
+
+// FHA mortgage insurance (HUD Mortgagee Letter 2023-05)
+export const FHA_MIP_RULES = {
+  UPFRONT_RATE: 1.75,
+  BASE_LOAN_THRESHOLD: 726200,
+  MIN_DOWN_PAYMENT_PERCENT: 3.5,
+  LOW_SCORE_DOWN_PAYMENT_PERCENT: 10,
+  LOW_SCORE_THRESHOLD: 580,
+  MIN_CREDIT_SCORE: 500,
+  // MIP ends after 11 years when the original LTV is 90% or less
+  SHORT_DURATION_LTV: 90,
+  SHORT_DURATION_MONTHS: 132,
+} as const
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Minimum down payment for an insured Canadian purchase: 5% of the first $500k and
+ * 10% of the rest, or 20% at or above the insured price cap
+ */
+export function getCanadianMinimumDownPayment(propertyPrice: number): number {
+  if (propertyPrice >= CA_DEFAULT_INSURANCE_RULES.INSURED_PRICE_CAP) return propertyPrice * 0.2
+  if (propertyPrice <= 500000) return propertyPrice * 0.05
+  return 25000 + (propertyPrice - 500000) * 0.1
+}
+
+/**
+ * Highest Canadian purchase price a down payment covers under the minimum down payment
+ * rules. Between the 10% tier topping out and 20% of the cap, the insured price cap is
+ * what limits the price.
+ */
+export function getCanadianMaximumPrice(downPayment: number): { maxPrice: number; limitedByCap: boolean } {
+  const cap = CA_DEFAULT_INSURANCE_RULES.INSURED_PRICE_CAP
+  const capTierDownPayment = getCanadianMinimumDownPayment(cap - 0.01)
+
+  if (downPayment >= cap * 0.2) return { maxPrice: downPayment / 0.2, limitedByCap: false }
+  if (downPayment >= capTierDownPayment) return { maxPrice: cap - 0.01, limitedByCap: true }
+  if (downPayment <= 25000) return { maxPrice: downPayment / 0.05, limitedByCap: false }
+  return { maxPrice: 500000 + (downPayment - 25000) / 0.1, limitedByCap: false }
+}
+
+/**
+ * Annual FHA MIP rate for a base loan, LTV and loan term
+ */
+export function getFhaAnnualMipRate(baseLoanAmount: number, ltv: number, termYears: number): number {
+  const highBalance = baseLoanAmount > FHA_MIP_RULES.BASE_LOAN_THRESHOLD
+
+  if (termYears <= 15) {
+    if (highBalance) return ltv <= 78 ? 0.15 : ltv <= 90 ? 0.4 : 0.65
+    return ltv <= 90 ? 0.15 : 0.4
+  }
+
+  if (highBalance) return ltv <= 95 ? 0.7 : 0.75
+  return ltv <= 95 ? 0.5 : 0.55
+}
+
+/**
+ * Months until the scheduled balance falls to a share of the original value
+ */
+function monthsUntilLtv(loanAmount: number, propertyPrice: number, interestRate: number, amortizationYears: number, targetLtv: number): number {
+  const monthlyRate = getPeriodicRate(interestRate, 'monthly', 12)
+  const payment = calculateLevelPayment(loanAmount, monthlyRate, amortizationYears * 12)
+  const target = propertyPrice * targetLtv / 100
+  let balance = loanAmount
+  let month = 0
+
+  while (balance > target && month < amortizationYears * 12) {
+    month++
+    balance -= payment - balance * monthlyRate
+  }
+  return month
+}
+
+function quoteCanada(input: MortgageInsuranceInput, baseLoanAmount: number, ltv: number): MortgageInsuranceQuote {
+  const rules = CA_DEFAULT_INSURANCE_RULES
+  const provider = input.provider || 'cmhc'
+  const minimumDownPayment = getCanadianMinimumDownPayment(input.propertyPrice)
+  const required = ltv > rules.MANDATORY_ABOVE_LTV
+  const notes: string[] = []
+  let eligible = input.downPayment + 0.005 >= minimumDownPayment
+
+  if (!eligible) {
+    notes.push(`Down payment is below the minimum of ${roundCents(minimumDownPayment).toFixed(2)}`)
+  }
+  if (required && input.propertyPrice >= rules.INSURED_PRICE_CAP) {
+    eligible = false
+    notes.push(`Homes priced at $${rules.INSURED_PRICE_CAP.toLocaleString('en-CA')} or more cannot be insured; 20% down is required`)
+  }
+
+  const extendedAmortization = input.amortizationYears > rules.STANDARD_AMORTIZATION
+  if (required && extendedAmortization) {
+    if (input.amortizationYears > rules.EXTENDED_AMORTIZATION || !(input.firstTimeBuyer || input.newBuild)) {
+      eligible = false
+      notes.push(`Insured amortizations over ${rules.STANDARD_AMORTIZATION} years are limited to first-time buyers and new builds, up to ${rules.EXTENDED_AMORTIZATION} years`)
+    }
+  }
+
+  if (!required) {
+    return {
+      program: 'none',
+      required: false,
+      eligible,
+      ltv,
+      minimumDownPayment: roundCents(minimumDownPayment),
+      baseLoanAmount,
+      upfrontPremiumRate: 0,
+      upfrontPremium: 0,
+      capitalized: false,
+      totalLoanAmount: baseLoanAmount,
+      annualPremiumRate: 0,
+      monthlyPremium: 0,
+      notes,
+    }
+  }
+
+  const tier = CA_PREMIUM_TIERS.find(t => ltv <= t.maxLtv + 1e-9)
+  let upfrontPremiumRate = tier ? tier.rate : 0
+  if (extendedAmortization) {
+    upfrontPremiumRate += rules.EXTENDED_AMORTIZATION_SURCHARGE
+    notes.push(`Includes the ${rules.EXTENDED_AMORTIZATION_SURCHARGE}% surcharge for amortizations over ${rules.STANDARD_AMORTIZATION} years`)
+  }
+  notes.push('Mortgage default insurance is mandatory with less than 20% down')
+
+  const upfrontPremium = eligible ? roundCents(baseLoanAmount * upfrontPremiumRate / 100) : 0
+
+  return {
+    program: 'ca_default_insurance',
+    provider: CA_INSURERS[provider],
+    required: true,
+    eligible,
+    ltv,
+    minimumDownPayment: roundCents(minimumDownPayment),
+    baseLoanAmount,
+    upfrontPremiumRate,
+    upfrontPremium,
+    capitalized: true,
+    totalLoanAmount: roundCents(baseLoanAmount + upfrontPremium),
+    annualPremiumRate: 0,
+    monthlyPremium: 0,
+    notes,
+  }
+}
+
+function quoteConventional(input: MortgageInsuranceInput, baseLoanAmount: number, ltv: number): MortgageInsuranceQuote {
+  const rules = CONVENTIONAL_PMI_RULES
+  const required = ltv > rules.MANDATORY_ABOVE_LTV
+  const eligible = ltv <= rules.MAX_LTV + 1e-9
+  const minimumDownPayment = input.propertyPrice * (100 - rules.MAX_LTV) / 100
+  const notes: string[] = []
+
+  if (!eligible) {
+    notes.push(`Conventional loans are limited to ${rules.MAX_LTV}% LTV`)
+  }
+
+  let annualPremiumRate = 0
+  let premiumDurationMonths: number | undefined
+  if (required && eligible) {
+    const creditScore = input.creditScore ?? rules.DEFAULT_CREDIT_SCORE
+    if (input.creditScore === undefined) {
+      notes.push(`Credit score not provided; PMI priced at ${rules.DEFAULT_CREDIT_SCORE}`)
+    }
+    const band = CONVENTIONAL_PMI_RATES.find(b => creditScore >= b.minScore) ||
+      CONVENTIONAL_PMI_RATES[CONVENTIONAL_PMI_RATES.length - 1]
+    annualPremiumRate = band.rates.find(r => ltv <= r.maxLtv + 1e-9)?.rate || 0
+    notes.push(`PMI is required above ${rules.MANDATORY_ABOVE_LTV}% LTV and cancels automatically at ${rules.AUTOMATIC_CANCELLATION_LTV}%`)
+
+    if (input.interestRate !== undefined) {
+      premiumDurationMonths = monthsUntilLtv(baseLoanAmount, input.propertyPrice, input.interestRate, input.amortizationYears, rules.AUTOMATIC_CANCELLATION_LTV)
+    }
+  }
+
+  return {
+    program: required ? 'conventional_pmi' : 'none',
+    required,
+    eligible,
+    ltv,
+    minimumDownPayment: roundCents(minimumDownPayment),
+    baseLoanAmount,
+    upfrontPremiumRate: 0,
+    upfrontPremium: 0,
+    capitalized: false,
+    totalLoanAmount: baseLoanAmount,
+    annualPremiumRate,
+    monthlyPremium: roundCents(baseLoanAmount * annualPremiumRate / 100 / 12),
+    premiumDurationMonths,
+    notes,
+  }
+}
+
+function quoteFha(input: MortgageInsuranceInput, baseLoanAmount: number, ltv: number): MortgageInsuranceQuote {
+  const rules = FHA_MIP_RULES
+  const creditScore = input.creditScore
+  const notes: string[] = []
+  const downPaymentPercent = creditScore !== undefined && creditScore < rules.LOW_SCORE_THRESHOLD
+    ? rules.LOW_SCORE_DOWN_PAYMENT_PERCENT
+    : rules.MIN_DOWN_PAYMENT_PERCENT
+  const minimumDownPayment = input.propertyPrice * downPaymentPercent / 100
+  let eligible = input.downPayment + 0.005 >= minimumDownPayment
+
+  if (!eligible) {
+    notes.push(`FHA requires at least ${downPaymentPercent}% down`)
+  }
+  if (creditScore !== undefined && creditScore < rules.MIN_CREDIT_SCORE) {
+    eligible = false
+    notes.push(`FHA requires a credit score of at least ${rules.MIN_CREDIT_SCORE}`)
+  }
+
+  const upfrontPremium = roundCents(baseLoanAmount * rules.UPFRONT_RATE / 100)
+  const totalLoanAmount = roundCents(baseLoanAmount + upfrontPremium)
+  const annualPremiumRate = getFhaAnnualMipRate(baseLoanAmount, ltv, input.amortizationYears)
+  const premiumDurationMonths = ltv <= rules.SHORT_DURATION_LTV
+    ? rules.SHORT_DURATION_MONTHS
+    : input.amortizationYears * 12
+  notes.push('FHA loans require upfront and annual mortgage insurance regardless of down payment')
+
+  return {
+    program: 'fha_mip',
+    required: true,
+    eligible,
+    ltv,
+    minimumDownPayment: roundCents(minimumDownPayment),
+    baseLoanAmount,
+    upfrontPremiumRate: rules.UPFRONT_RATE,
+    upfrontPremium,
+    capitalized: true,
+    totalLoanAmount,
+    annualPremiumRate,
+    monthlyPremium: roundCents(baseLoanAmount * annualPremiumRate / 100 / 12),
+    premiumDurationMonths,
+    notes,
+  }
+}
+
+/**
+ * Mortgage insurance for a purchase.
+ *
+ * Canada: default insurance is mandatory above 80% LTV and priced from the insurers'
+ * LTV tiers, with the extended amortization surcharge and the insured price cap; the
+ * premium is added to the loan. US: conventional loans carry monthly PMI above 80%
+ * LTV priced by FICO and LTV band; FHA loans carry an upfront premium (financed) and
+ * an annual MIP.
+ */
+export function calculateMortgageInsurance(input: MortgageInsuranceInput): MortgageInsuranceQuote {
+  const baseLoanAmount = Math.max(0, input.propertyPrice - input.downPayment)
+  const ltv = input.propertyPrice > 0 ? baseLoanAmount / input.propertyPrice * 100 : 0
+
+  if (input.country === 'CA') {
+    return quoteCanada(input, baseLoanAmount, ltv)
+  }
+  if (input.loanProgram === 'fha') {
+    return quoteFha(input, baseLoanAmount, ltv)
+  }
+  return quoteConventional(input, baseLoanAmount, ltv)
+}
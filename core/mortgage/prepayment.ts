@@ -0,0 +1,152 @@
+import type { PrepaymentPlan, PrepaymentSummary, PrepaymentViolation } from '../scenario-types'
+import {
+  AmortizationOptions,
+  AmortizationPeriod,
+  AmortizationSchedule,
+  PAYMENT_FREQUENCIES,
+  buildAmortizationSchedule,
+} from './amortization'
+
+export interface PrepaymentAnalysis {
+  schedule: AmortizationSchedule
+  baseline: AmortizationSchedule
+  summary: PrepaymentSummary
+}
+
+/**
+ * Simulate a prepayment plan against the regular amortization schedule.
+ *
+ * Lump sums land on each anniversary (the last payment of the year). Lump sums and
+ * recurring extra payments share the annual prepayment privilege, expressed as a
+ * percentage of the original principal; anything above it is capped and reported
+ * as a violation. Payment increases are capped the same way.
+ */
+export function applyPrepaymentPlan(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  plan: PrepaymentPlan,
+  options: AmortizationOptions = {}
+): PrepaymentAnalysis {
+  const baseline = buildAmortizationSchedule(principal, annualRate, amortizationYears, options)
+  const { periodsPerYear } = PAYMENT_FREQUENCIES[baseline.frequency]
+  const maxPeriods = Math.ceil(amortizationYears * periodsPerYear)
+
+  const privileges = plan.privileges || {}
+  const annualAllowance = privileges.annualPrepaymentPercent !== undefined
+    ? principal * privileges.annualPrepaymentPercent / 100
+    : Infinity
+  const increaseAllowance = privileges.annualPaymentIncreasePercent ?? Infinity
+
+  const violations: PrepaymentViolation[] = []
+  const periods: AmortizationPeriod[] = []
+  let payment = baseline.payment
+  let balance = principal
+  let cumulativeInterest = 0
+  let cumulativePrincipal = 0
+  let totalPrepaid = 0
+  let requestedThisYear = 0
+  let prepaidThisYear = 0
+
+  const recordAnnualViolation = (year: number) => {
+    if (requestedThisYear > annualAllowance + 0.005) {
+      violations.push({
+        type: 'annual_prepayment_limit',
+        year,
+        requested: requestedThisYear,
+        allowed: annualAllowance,
+        description: `Year ${year} prepayments of ${requestedThisYear.toFixed(2)} exceed the ${privileges.annualPrepaymentPercent}% annual privilege of ${annualAllowance.toFixed(2)}; the excess was not applied`,
+      })
+    }
+  }
+
+  for (let period = 1; period <= maxPeriods && balance > 0.005; period++) {
+    const year = Math.ceil(period / periodsPerYear)
+    const isFirstPeriodOfYear = (period - 1) % periodsPerYear === 0
+    const isAnniversary = period % periodsPerYear === 0
+
+    if (isFirstPeriodOfYear) {
+      requestedThisYear = 0
+      prepaidThisYear = 0
+
+      for (const increase of plan.paymentIncreases.filter(i => i.year === year)) {
+        const applied = Math.min(increase.percentage, increaseAllowance)
+        if (increase.percentage > increaseAllowance) {
+          violations.push({
+            type: 'payment_increase_limit',
+            year,
+            requested: increase.percentage,
+            allowed: increaseAllowance,
+            description: `Year ${year} payment increase of ${increase.percentage}% exceeds the ${increaseAllowance}% privilege; capped at ${increaseAllowance}%`,
+          })
+        }
+        payment *= 1 + applied / 100
+      }
+    }
+
+    const interest = balance * baseline.periodicRate
+    const scheduledPayment = period === maxPeriods ? balance + interest : payment
+    const regularPayment = Math.min(scheduledPayment, balance + interest)
+    const principalPaid = regularPayment - interest
+    balance -= principalPaid
+
+    let requested = 0
+    if (plan.recurringExtraPayment && period >= plan.recurringExtraPayment.startPeriod) {
+      requested += plan.recurringExtraPayment.amount
+    }
+    const lumpSum = plan.annualLumpSum
+    if (lumpSum && isAnniversary && year >= lumpSum.startYear && (lumpSum.endYear === undefined || year <= lumpSum.endYear)) {
+      requested += lumpSum.amount
+    }
+
+    requestedThisYear += requested
+    const prepayment = Math.min(requested, Math.max(0, annualAllowance - prepaidThisYear), balance)
+    balance -= prepayment
+    prepaidThisYear += prepayment
+    totalPrepaid += prepayment
+
+    cumulativeInterest += interest
+    cumulativePrincipal += principalPaid + prepayment
+
+    periods.push({
+      period,
+      month: Math.ceil(period * 12 / periodsPerYear),
+      payment: regularPayment,
+      principal: principalPaid,
+      interest,
+      prepayment,
+      balance: Math.max(0, balance),
+      cumulativeInterest,
+      cumulativePrincipal,
+    })
+
+    if (isAnniversary || balance <= 0.005) {
+      recordAnnualViolation(year)
+    }
+  }
+
+  const schedule: AmortizationSchedule = {
+    ...baseline,
+    totalInterest: cumulativeInterest,
+    totalPaid: cumulativeInterest + cumulativePrincipal,
+    payoffPeriods: periods.length,
+    periods,
+  }
+
+  const baselinePayoffMonth = baseline.periods[baseline.periods.length - 1]?.month || 0
+  const payoffMonth = periods[periods.length - 1]?.month || 0
+
+  return {
+    schedule,
+    baseline,
+    summary: {
+      totalPrepaid,
+      interestSaved: baseline.totalInterest - cumulativeInterest,
+      monthsSaved: baselinePayoffMonth - payoffMonth,
+      baselineTotalInterest: baseline.totalInterest,
+      baselinePayoffMonth,
+      payoffMonth,
+      violations,
+    },
+  }
+}
@@ -0,0 +1,186 @@
+import type { RatePath, RatePathSummary, RateReset } from '../scenario-types'
+import { AmortizationPeriod, Country, calculateLevelPayment, getCompoundingConvention, getPeriodicRate } from './amortization'
+
+// US hybrid ARM products: years at the start rate, then months between resets
+export const ARM_PRODUCTS = {
+  '5/1': { initialFixedYears: 5, adjustmentMonths: 12 },
+  '7/1': { initialFixedYears: 7, adjustmentMonths: 12 },
+  '10/1': { initialFixedYears: 10, adjustmentMonths: 12 },
+} as const
+
+export interface RatePathPeriod extends AmortizationPeriod {
+  rate: number
+  rateReset: boolean
+}
+
+export interface RatePathResult {
+  periods: RatePathPeriod[]
+  summary: RatePathSummary
+  totalInterest: number
+}
+
+/**
+ * Index value in effect for a month: the latest point at or before it
+ */
+export function getIndexRate(indexPath: RatePath['indexPath'], month: number): number | undefined {
+  let rate: number | undefined
+  for (const point of [...indexPath].sort((a, b) => a.month - b.month)) {
+    if (point.month > month) break
+    rate = point.rate
+  }
+  return rate
+}
+
+/**
+ * Simulate an adjustable or variable rate mortgage month by month.
+ *
+ * US ARMs (armProduct set) keep the start rate for the initial fixed period, then reset
+ * to index + margin limited by the initial, periodic and lifetime caps and the floor,
+ * with the payment recast on each reset. Canadian variable mortgages follow index +
+ * margin every month; with fixed payments, rate increases eat into principal until the
+ * trigger rate, after which interest is deferred (negative amortization) until the
+ * balance reaches the trigger point and the payment is reset.
+ */
+export function simulateRatePath(
+  principal: number,
+  startRate: number,
+  amortizationYears: number,
+  ratePath: RatePath,
+  country: Country = 'US'
+): RatePathResult {
+  const totalMonths = Math.ceil(amortizationYears * 12)
+  const compounding = getCompoundingConvention(country, 'variable')
+  const product = ratePath.armProduct ? ARM_PRODUCTS[ratePath.armProduct] : undefined
+  const fixedMonths = product ? product.initialFixedYears * 12 : 0
+  const floor = ratePath.floor ?? (product ? ratePath.margin : -Infinity)
+  const ceiling = ratePath.caps ? startRate + ratePath.caps.lifetime : Infinity
+  const triggerPointBalance = principal * ratePath.triggerPointPercent / 100
+
+  let rate = startRate
+  let payment = calculateLevelPayment(principal, getPeriodicRate(rate, compounding, 12), totalMonths)
+  const initialPayment = payment
+  let balance = principal
+  let cumulativeInterest = 0
+  let cumulativePrincipal = 0
+  let resetCount = 0
+
+  const periods: RatePathPeriod[] = []
+  const resets: RateReset[] = []
+  let triggerRateMonth: number | undefined
+  let triggerPointMonth: number | undefined
+  let negativeAmortizationMonths = 0
+  let maxBalance = principal
+  let maxRate = rate
+
+  const nextRate = (month: number): { rate: number; reason: RateReset['reason'] } | undefined => {
+    const index = getIndexRate(ratePath.indexPath, month)
+    if (index === undefined) return undefined
+    const fullyIndexed = index + ratePath.margin
+
+    if (product) {
+      const isResetMonth = month > fixedMonths && (month - fixedMonths - 1) % product.adjustmentMonths === 0
+      if (!isResetMonth) return undefined
+
+      let adjusted = fullyIndexed
+      if (ratePath.caps) {
+        const cap = resetCount === 0 ? ratePath.caps.initial : ratePath.caps.periodic
+        adjusted = Math.min(Math.max(adjusted, rate - cap), rate + cap)
+      }
+      return { rate: Math.min(Math.max(adjusted, floor), ceiling), reason: 'scheduled_reset' }
+    }
+
+    return { rate: Math.min(Math.max(fullyIndexed, floor), ceiling), reason: 'index_change' }
+  }
+
+  const recordReset = (month: number, previousRate: number, previousPayment: number, reason: RateReset['reason']) => {
+    resets.push({
+      month,
+      previousRate,
+      newRate: rate,
+      previousPayment,
+      newPayment: payment,
+      paymentChangePercent: previousPayment > 0 ? (payment - previousPayment) / previousPayment * 100 : 0,
+      reason,
+    })
+  }
+
+  for (let month = 1; month <= totalMonths && balance > 0.005; month++) {
+    const remainingMonths = totalMonths - month + 1
+    let rateReset = false
+
+    const change = nextRate(month)
+    if (change && product) resetCount++
+    if (change && Math.abs(change.rate - rate) > 1e-9) {
+      const previousRate = rate
+      const previousPayment = payment
+      rate = change.rate
+      maxRate = Math.max(maxRate, rate)
+      rateReset = true
+
+      if (ratePath.paymentType === 'adjustable' || product) {
+        payment = calculateLevelPayment(balance, getPeriodicRate(rate, compounding, 12), remainingMonths)
+      }
+      recordReset(month, previousRate, previousPayment, change.reason)
+    }
+
+    const interest = balance * getPeriodicRate(rate, compounding, 12)
+
+    if (interest >= payment && triggerRateMonth === undefined) {
+      triggerRateMonth = month
+    }
+
+    const scheduledPayment = month === totalMonths ? balance + interest : payment
+    const actualPayment = Math.min(scheduledPayment, balance + interest)
+    const principalPaid = actualPayment - interest
+
+    if (principalPaid < 0) negativeAmortizationMonths++
+
+    balance -= principalPaid
+    cumulativeInterest += interest
+    cumulativePrincipal += principalPaid
+    maxBalance = Math.max(maxBalance, balance)
+
+    periods.push({
+      period: month,
+      month,
+      payment: actualPayment,
+      principal: principalPaid,
+      interest,
+      rate,
+      rateReset,
+      balance: Math.max(0, balance),
+      cumulativeInterest,
+      cumulativePrincipal,
+    })
+
+    // Reaching the trigger point forces a payment that amortizes the remaining term
+    if (balance > triggerPointBalance && triggerPointMonth === undefined && month < totalMonths) {
+      triggerPointMonth = month
+      const previousPayment = payment
+      payment = calculateLevelPayment(balance, getPeriodicRate(rate, compounding, 12), remainingMonths - 1)
+      recordReset(month + 1, rate, previousPayment, 'trigger_point')
+    }
+  }
+
+  // Trigger rate: the rate at which the original payment only covers interest
+  const fixedPayment = ratePath.paymentType === 'fixed' && !product
+  const triggerRate = fixedPayment && principal > 0
+    ? initialPayment / principal * 12 * 100
+    : undefined
+
+  return {
+    periods,
+    totalInterest: cumulativeInterest,
+    summary: {
+      initialPayment,
+      maxPayment: Math.max(initialPayment, ...periods.map(p => p.payment)),
+      maxRate,
+      resets,
+      triggerRate,
+      triggerRateMonth,
+      triggerPointMonth,
+      negativeAmortizationMonths,
+      maxBalance,
+    },
+  }
+}
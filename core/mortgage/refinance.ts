@@ -0,0 +1,359 @@
+import type { Country } from './amortization'
+import { calculateLevelPayment, getCompoundingConvention, getPeriodicRate } from './amortization'
+
+export type LenderType = 'big_bank' | 'monoline'
+
+export type PenaltyMethod = 'none' | 'three_months_interest' | 'interest_rate_differential'
+
+// Typical costs of switching lenders. Canadian refinances pay legal, appraisal and
+// discharge fees; US refinances pay closing costs as a share of the new loan.
+export const DEFAULT_REFINANCE_COSTS = {
+  CA: { legal: 1000, appraisal: 400, discharge: 350 },
+  US: { percentOfLoan: 2, minimum: 3000 },
+}
+
+export const DEFAULT_REFINANCE_HORIZON_MONTHS = 60
+
+export interface PrepaymentPenaltyInput {
+  balance: number
+  contractRate: number
+  remainingTermMonths: number
+  rateType?: 'fixed' | 'variable' | 'arm'
+  lenderType?: LenderType
+  // Lender's posted rate for the original term when the mortgage was signed (big-bank method)
+  originalPostedRate?: number
+  // Lender's current rate for the term closest to the time remaining: posted rate for
+  // big banks, published (discounted) rate for monolines
+  comparisonRate: number
+}
+
+export interface PrepaymentPenalty {
+  method: PenaltyMethod
+  threeMonthsInterest: number
+  interestRateDifferential: number
+  // Discount from posted rate given at origination, carried into the big-bank comparison rate
+  originationDiscount: number
+  comparisonRate: number
+  amount: number
+}
+
+export interface RefinanceInput {
+  country: Country
+  balance: number
+  currentRate: number
+  remainingAmortizationYears: number
+  // Months left in the current term; US loans are fixed for the life of the loan
+  remainingTermMonths?: number
+  rateType?: 'fixed' | 'variable' | 'arm'
+  lenderType?: LenderType
+  originalPostedRate?: number
+  // Rate used for the IRD comparison; defaults to the new rate
+  comparisonRate?: number
+  newRate: number
+  newTermYears?: number
+  newAmortizationYears?: number
+  // Costs of the new mortgage (legal, appraisal, discharge, US closing costs)
+  closingCosts?: number
+  // Add the penalty and costs to the new mortgage instead of paying them in cash
+  financeCosts?: boolean
+  // Contractual penalty for US loans that carry one
+  prepaymentPenalty?: number
+  // Lender fee to blend and extend (no penalty is charged)
+  blendFee?: number
+  horizonMonths?: number
+}
+
+export interface RefinanceOption {
+  option: 'refinance' | 'blend_and_extend'
+  rate: number
+  payment: number
+  principal: number
+  upfrontCosts: number
+  financedCosts: number
+  monthlySavings: number
+  interestSavings: number
+  breakEvenMonth?: number
+  netSavings: number
+}
+
+export interface RefinanceAnalysis {
+  country: Country
+  currentPayment: number
+  penalty: PrepaymentPenalty
+  closingCosts: number
+  horizonMonths: number
+  refinance: RefinanceOption
+  blendAndExtend?: RefinanceOption
+  recommendation: 'refinance' | 'blend_and_extend' | 'stay'
+  notes: string[]
+}
+
+/**
+ * Canadian prepayment penalty for breaking a mortgage before the end of its term.
+ *
+ * Variable-rate mortgages pay three months' interest. Fixed-rate mortgages pay the
+ * greater of three months' interest and the interest rate differential (IRD) over the
+ * rest of the term. Big banks compute the IRD against their current posted rate for
+ * the remaining term less the discount given at origination, which makes their
+ * penalties much larger than monolines, which compare against the published rate.
+ */
+export function calculatePrepaymentPenalty(input: PrepaymentPenaltyInput): PrepaymentPenalty {
+  const threeMonthsInterest = input.balance * input.contractRate / 100 * 3 / 12
+
+  if (input.rateType === 'variable' || input.rateType === 'arm') {
+    return {
+      method: 'three_months_interest',
+      threeMonthsInterest,
+      interestRateDifferential: 0,
+      originationDiscount: 0,
+      comparisonRate: input.comparisonRate,
+      amount: threeMonthsInterest,
+    }
+  }
+
+  const originationDiscount = input.lenderType === 'big_bank' && input.originalPostedRate !== undefined
+    ? Math.max(0, input.originalPostedRate - input.contractRate)
+    : 0
+  const comparisonRate = input.comparisonRate - originationDiscount
+  const interestRateDifferential = input.balance *
+    Math.max(0, input.contractRate - comparisonRate) / 100 *
+    input.remainingTermMonths / 12
+
+  const useIrd = interestRateDifferential > threeMonthsInterest
+  return {
+    method: useIrd ? 'interest_rate_differential' : 'three_months_interest',
+    threeMonthsInterest,
+    interestRateDifferential,
+    originationDiscount,
+    comparisonRate,
+    amount: useIrd ? interestRateDifferential : threeMonthsInterest,
+  }
+}
+
+/**
+ * Blend-and-extend rate: the current rate for the months left in the term blended
+ * with the new rate for the months added, weighted by time
+ */
+export function calculateBlendedRate(
+  currentRate: number,
+  remainingTermMonths: number,
+  newRate: number,
+  newTermMonths: number
+): number {
+  if (newTermMonths <= 0) return currentRate
+  const keptMonths = Math.min(remainingTermMonths, newTermMonths)
+  return (currentRate * keptMonths + newRate * (newTermMonths - keptMonths)) / newTermMonths
+}
+
+/**
+ * Decide whether refinancing pays off.
+ *
+ * The existing mortgage and each alternative are run side by side month by month. The
+ * existing mortgage keeps its rate until the end of its term and then renews at the new
+ * rate, so a refinance only gains during the months the borrower would otherwise have
+ * been locked in. The net position each month is the payments saved plus the
+ * difference in balances, less costs paid in cash; the break-even month is the first
+ * month it turns positive (for US loans, the month closing costs are recaptured).
+ * Canadian fixed-rate mortgages with time left in the term are also priced as a
+ * blend-and-extend with the current lender, which waives the penalty.
+ */
+export function analyzeRefinance(input: RefinanceInput): RefinanceAnalysis {
+  const rateType = input.rateType || 'fixed'
+  const remainingMonths = Math.round(input.remainingAmortizationYears * 12)
+  const remainingTermMonths = Math.min(input.remainingTermMonths ?? remainingMonths, remainingMonths)
+  const newAmortizationMonths = Math.round((input.newAmortizationYears ?? input.remainingAmortizationYears) * 12)
+  const newTermMonths = input.country === 'CA'
+    ? Math.round((input.newTermYears ?? 5) * 12)
+    : newAmortizationMonths
+  const horizonMonths = Math.min(
+    input.horizonMonths ?? DEFAULT_REFINANCE_HORIZON_MONTHS,
+    Math.max(remainingMonths, newAmortizationMonths)
+  )
+  const notes: string[] = []
+
+  const penalty = input.country === 'CA'
+    ? calculatePrepaymentPenalty({
+        balance: input.balance,
+        contractRate: input.currentRate,
+        remainingTermMonths,
+        rateType,
+        lenderType: input.lenderType,
+        originalPostedRate: input.originalPostedRate,
+        comparisonRate: input.comparisonRate ?? input.newRate,
+      })
+    : {
+        method: input.prepaymentPenalty ? 'three_months_interest' as const : 'none' as const,
+        threeMonthsInterest: 0,
+        interestRateDifferential: 0,
+        originationDiscount: 0,
+        comparisonRate: input.comparisonRate ?? input.newRate,
+        amount: input.prepaymentPenalty || 0,
+      }
+  if (input.country === 'US' && input.prepaymentPenalty) {
+    notes.push('Contractual prepayment penalty included as given')
+  }
+
+  const closingCosts = input.closingCosts ?? getDefaultRefinanceCosts(input.country, input.balance)
+
+  const current = simulateLoan(input.country, rateType, input.balance, [
+    { rate: input.currentRate, months: remainingTermMonths, amortizationMonths: remainingMonths },
+    { rate: input.newRate, months: remainingMonths - remainingTermMonths, amortizationMonths: remainingMonths - remainingTermMonths },
+  ], horizonMonths)
+
+  const refinanceCosts = penalty.amount + closingCosts
+  const refinance = compareOption(
+    'refinance',
+    input.newRate,
+    input.balance,
+    refinanceCosts,
+    input.financeCosts || false,
+    simulateLoan(input.country, 'fixed', input.balance + (input.financeCosts ? refinanceCosts : 0), [
+      { rate: input.newRate, months: newAmortizationMonths, amortizationMonths: newAmortizationMonths },
+    ], horizonMonths),
+    current
+  )
+
+  let blendAndExtend: RefinanceOption | undefined
+  const canBlend = input.country === 'CA' && rateType === 'fixed' &&
+    remainingTermMonths > 0 && newTermMonths > remainingTermMonths
+  if (canBlend) {
+    const blendedRate = calculateBlendedRate(input.currentRate, remainingTermMonths, input.newRate, newTermMonths)
+    const blendFee = input.blendFee || 0
+    blendAndExtend = compareOption(
+      'blend_and_extend',
+      blendedRate,
+      input.balance,
+      blendFee,
+      input.financeCosts || false,
+      simulateLoan(input.country, rateType, input.balance + (input.financeCosts ? blendFee : 0), [
+        { rate: blendedRate, months: newTermMonths, amortizationMonths: remainingMonths },
+        { rate: input.newRate, months: remainingMonths - newTermMonths, amortizationMonths: remainingMonths - newTermMonths },
+      ], horizonMonths),
+      current
+    )
+  }
+
+  if (input.country === 'US' && refinance.breakEvenMonth !== undefined) {
+    notes.push(`Closing costs are recaptured after ${refinance.breakEvenMonth} months`)
+  }
+  if (penalty.method === 'interest_rate_differential' && penalty.originationDiscount > 0) {
+    notes.push('Penalty uses the posted-rate IRD method: the original discount is taken off today\'s posted rate')
+  }
+
+  const best = [refinance, blendAndExtend]
+    .filter((option): option is RefinanceOption => option !== undefined && option.netSavings > 0)
+    .sort((a, b) => b.netSavings - a.netSavings)[0]
+
+  return {
+    country: input.country,
+    currentPayment: current.payment,
+    penalty,
+    closingCosts,
+    horizonMonths,
+    refinance,
+    blendAndExtend,
+    recommendation: best ? best.option : 'stay',
+    notes,
+  }
+}
+
+function getDefaultRefinanceCosts(country: Country, balance: number): number {
+  if (country === 'CA') {
+    const fees = DEFAULT_REFINANCE_COSTS.CA
+    return fees.legal + fees.appraisal + fees.discharge
+  }
+  const fees = DEFAULT_REFINANCE_COSTS.US
+  return Math.max(fees.minimum, balance * fees.percentOfLoan / 100)
+}
+
+interface LoanSegment {
+  rate: number
+  months: number
+  // Months left to amortize at the start of the segment
+  amortizationMonths: number
+}
+
+interface LoanSimulation {
+  payment: number
+  payments: number[]
+  interest: number[]
+  balances: number[]
+}
+
+// Monthly payments, interest and closing balances of a loan whose payment is reset at
+// the start of each segment
+function simulateLoan(
+  country: Country,
+  rateType: 'fixed' | 'variable' | 'arm',
+  principal: number,
+  segments: LoanSegment[],
+  horizonMonths: number
+): LoanSimulation {
+  const compounding = getCompoundingConvention(country, rateType)
+  const payments: number[] = []
+  const interest: number[] = []
+  const balances: number[] = []
+  let balance = principal
+  let firstPayment: number | undefined
+
+  for (const segment of segments) {
+    if (segment.months <= 0 || segment.amortizationMonths <= 0) continue
+    const periodicRate = getPeriodicRate(segment.rate, compounding, 12)
+    const payment = calculateLevelPayment(balance, periodicRate, segment.amortizationMonths)
+    if (firstPayment === undefined) firstPayment = payment
+
+    for (let month = 0; month < segment.months && payments.length < horizonMonths; month++) {
+      const monthInterest = balance * periodicRate
+      const actualPayment = Math.min(payment, balance + monthInterest)
+      balance = Math.max(0, balance + monthInterest - actualPayment)
+      payments.push(actualPayment)
+      interest.push(monthInterest)
+      balances.push(balance)
+    }
+  }
+
+  // Paid off before the horizon
+  while (payments.length < horizonMonths) {
+    payments.push(0)
+    interest.push(0)
+    balances.push(0)
+  }
+
+  return { payment: firstPayment || 0, payments, interest, balances }
+}
+
+function compareOption(
+  option: RefinanceOption['option'],
+  rate: number,
+  balance: number,
+  costs: number,
+  financeCosts: boolean,
+  loan: LoanSimulation,
+  current: LoanSimulation
+): RefinanceOption {
+  const cashCosts = financeCosts ? 0 : costs
+  let paymentSavings = 0
+  let interestSavings = 0
+  let breakEvenMonth: number | undefined
+  let netPosition = -cashCosts
+
+  for (let month = 0; month < current.payments.length; month++) {
+    paymentSavings += current.payments[month] - loan.payments[month]
+    interestSavings += current.interest[month] - loan.interest[month]
+    netPosition = paymentSavings + current.balances[month] - loan.balances[month] - cashCosts
+    if (breakEvenMonth === undefined && netPosition >= 0) breakEvenMonth = month + 1
+  }
+
+  return {
+    option,
+    rate,
+    payment: loan.payment,
+    principal: balance + (financeCosts ? costs : 0),
+    upfrontCosts: costs,
+    financedCosts: financeCosts ? costs : 0,
+    monthlySavings: current.payment - loan.payment,
+    interestSavings,
+    breakEvenMonth,
+    netSavings: netPosition,
+  }
+}
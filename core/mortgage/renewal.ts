@@ -0,0 +1,168 @@
+import type { RenewalPlan, RenewalSummary, RenewalTerm } from '../scenario-types'
+import {
+  AmortizationOptions,
+  AmortizationPeriod,
+  PAYMENT_FREQUENCIES,
+  calculatePeriodicPayment,
+  getCompoundingConvention,
+  getPeriodicRate,
+} from './amortization'
+import { getIndexRate } from './rate-path'
+
+export interface TermRate {
+  termYears: number
+  rate: number
+  rateSource: RenewalTerm['rateSource']
+}
+
+export interface RateForecastPath {
+  currentRate: number
+  path: Array<{ month: number; rate: number }>
+}
+
+export interface RenewalPeriod extends AmortizationPeriod {
+  rate: number
+  rateReset: boolean
+}
+
+export interface RenewalLifecycle {
+  periods: RenewalPeriod[]
+  summary: RenewalSummary
+  totalInterest: number
+}
+
+/**
+ * Lay out the terms that make up an amortization: the contract term at the contract
+ * rate, then renewals until the amortization runs out.
+ *
+ * Assumed renewal rates are used in order and the last one carries forward; with none
+ * given, renewals assume the contract rate. Forecast renewal rates read the benchmark
+ * forecast at each renewal month (the last forecast point carries forward) plus a
+ * spread, which defaults to the contract rate's spread over today's benchmark.
+ */
+export function buildTermRates(
+  contractRate: number,
+  termYears: number,
+  amortizationYears: number,
+  plan?: RenewalPlan,
+  forecast?: RateForecastPath
+): TermRate[] {
+  const renewalTermYears = plan?.renewalTermYears || termYears
+  const assumedRates = plan?.assumedRates || []
+  const spread = plan?.forecastSpread ?? (forecast ? contractRate - forecast.currentRate : 0)
+
+  const terms: TermRate[] = [{ termYears: Math.min(termYears, amortizationYears), rate: contractRate, rateSource: 'contract' }]
+  let elapsedYears = terms[0].termYears
+
+  while (elapsedYears < amortizationYears - 1e-9) {
+    const renewalIndex = terms.length - 1
+    const length = Math.min(renewalTermYears, amortizationYears - elapsedYears)
+
+    if (plan?.rateSource === 'forecast' && forecast && forecast.path.length > 0) {
+      const benchmark = getIndexRate(forecast.path, elapsedYears * 12 + 1) ?? forecast.path[0].rate
+      terms.push({ termYears: length, rate: Math.max(0, benchmark + spread), rateSource: 'forecast' })
+    } else {
+      const rate = assumedRates.length > 0
+        ? assumedRates[Math.min(renewalIndex, assumedRates.length - 1)]
+        : contractRate
+      terms.push({ termYears: length, rate, rateSource: 'assumed' })
+    }
+
+    elapsedYears += length
+  }
+
+  return terms
+}
+
+/**
+ * Amortize a mortgage across successive terms. At each renewal the payment is reset to
+ * amortize the outstanding balance over the remaining amortization at the new rate.
+ */
+export function simulateRenewals(
+  principal: number,
+  amortizationYears: number,
+  terms: TermRate[],
+  options: AmortizationOptions = {}
+): RenewalLifecycle {
+  const frequency = options.frequency || 'monthly'
+  const { periodsPerYear } = PAYMENT_FREQUENCIES[frequency]
+  const compounding = options.compounding || getCompoundingConvention(options.country || 'CA', options.rateType)
+  const totalPeriods = Math.ceil(amortizationYears * periodsPerYear)
+
+  const periods: RenewalPeriod[] = []
+  const renewalTerms: RenewalTerm[] = []
+  let balance = principal
+  let cumulativeInterest = 0
+  let cumulativePrincipal = 0
+  let period = 0
+  let elapsedYears = 0
+
+  for (const [index, term] of terms.entries()) {
+    if (balance <= 0.005) break
+
+    const remainingYears = amortizationYears - elapsedYears
+    const periodicRate = getPeriodicRate(term.rate, compounding, periodsPerYear)
+    const payment = calculatePeriodicPayment(balance, term.rate, remainingYears, { ...options, frequency, compounding })
+    const termEnd = Math.min(totalPeriods, Math.round((elapsedYears + term.termYears) * periodsPerYear))
+    const openingBalance = balance
+    let termInterest = 0
+    let termPrincipal = 0
+    let isRenewalPeriod = index > 0
+
+    while (period < termEnd && balance > 0.005) {
+      period++
+      const interest = balance * periodicRate
+      const scheduledPayment = period === totalPeriods ? balance + interest : payment
+      const actualPayment = Math.min(scheduledPayment, balance + interest)
+      const principalPaid = actualPayment - interest
+
+      balance -= principalPaid
+      cumulativeInterest += interest
+      cumulativePrincipal += principalPaid
+      termInterest += interest
+      termPrincipal += principalPaid
+
+      periods.push({
+        period,
+        month: Math.ceil(period * 12 / periodsPerYear),
+        payment: actualPayment,
+        principal: principalPaid,
+        interest,
+        rate: term.rate,
+        rateReset: isRenewalPeriod,
+        balance: Math.max(0, balance),
+        cumulativeInterest,
+        cumulativePrincipal,
+      })
+      isRenewalPeriod = false
+    }
+
+    const previousPayment = renewalTerms[renewalTerms.length - 1]?.payment
+    renewalTerms.push({
+      termNumber: index + 1,
+      startMonth: Math.floor(elapsedYears * 12) + 1,
+      endMonth: periods[periods.length - 1].month,
+      rate: term.rate,
+      rateSource: term.rateSource,
+      payment,
+      openingBalance,
+      closingBalance: Math.max(0, balance),
+      interestPaid: termInterest,
+      principalPaid: termPrincipal,
+      paymentChangePercent: previousPayment ? (payment - previousPayment) / previousPayment * 100 : 0,
+    })
+
+    elapsedYears += term.termYears
+  }
+
+  return {
+    periods,
+    totalInterest: cumulativeInterest,
+    summary: {
+      termYears: terms[0]?.termYears || amortizationYears,
+      amortizationYears,
+      terms: renewalTerms,
+      maxPaymentChangePercent: Math.max(0, ...renewalTerms.map(t => t.paymentChangePercent)),
+    },
+  }
+}
@@ -0,0 +1,114 @@
+import type { RentVsBuyInput, RentVsBuyResult, RentVsBuyYear } from '../scenario-types'
+import type { AmortizationPeriod } from './amortization'
+
+// Long-run appreciation assumed when none is given and no forecast is available
+export const DEFAULT_APPRECIATION_RATE = 3
+
+export interface OwnershipCosts {
+  propertyPrice: number
+  downPayment: number
+  // Buyer's one-time costs on top of the down payment (closing costs, taxes, fees)
+  closingCosts: number
+  // Property taxes, home insurance and condo fees per month, in today's dollars
+  monthlyCarryingCosts: number
+  monthlyMortgageInsurance: number
+  mortgageInsuranceMonths: number
+  schedule: AmortizationPeriod[]
+}
+
+/**
+ * Convert a monthly appreciation trend (as produced by the property forecast) to an annual percent
+ */
+export function annualizeMonthlyRate(monthlyRate: number): number {
+  return (Math.pow(1 + monthlyRate, 12) - 1) * 100
+}
+
+/**
+ * Compare the net worth of buying with renting and investing the difference.
+ *
+ * The renter starts with the buyer's upfront cash invested. Each month whichever side
+ * spends less invests the difference, so both households have the same cash outflow.
+ * The buyer's net worth is the home value after selling costs, less the mortgage
+ * balance, plus their own portfolio. Rent and carrying costs rise with rent inflation
+ * once a year; maintenance tracks the home value.
+ */
+export function analyzeRentVsBuy(
+  costs: OwnershipCosts,
+  assumptions: RentVsBuyInput,
+  appreciationRate: number
+): RentVsBuyResult {
+  const months = Math.round(assumptions.horizonYears * 12)
+  const monthlyAppreciation = Math.pow(1 + appreciationRate / 100, 1 / 12) - 1
+  const monthlyReturn = Math.pow(1 + assumptions.investmentReturn / 100, 1 / 12) - 1
+  const upfrontCost = costs.downPayment + costs.closingCosts
+
+  // Mortgage cash flow and closing balance for each calendar month
+  const mortgagePayments = new Map<number, number>()
+  const balances = new Map<number, number>()
+  for (const period of costs.schedule) {
+    mortgagePayments.set(period.month, (mortgagePayments.get(period.month) || 0) + period.payment + (period.prepayment || 0))
+    balances.set(period.month, period.balance)
+  }
+
+  let homeValue = costs.propertyPrice
+  let ownerPortfolio = 0
+  let renterPortfolio = upfrontCost
+  let ownerYearOutflow = 0
+  let renterYearOutflow = 0
+  const years: RentVsBuyYear[] = []
+
+  for (let month = 1; month <= months; month++) {
+    const inflation = Math.pow(1 + assumptions.rentInflation / 100, Math.floor((month - 1) / 12))
+
+    homeValue *= 1 + monthlyAppreciation
+    // Every month up to payoff has at least one payment period
+    const balance = balances.get(month) ?? 0
+
+    const ownerOutflow = (mortgagePayments.get(month) || 0) +
+      costs.monthlyCarryingCosts * inflation +
+      homeValue * assumptions.maintenanceRate / 100 / 12 +
+      (month <= costs.mortgageInsuranceMonths ? costs.monthlyMortgageInsurance : 0)
+    const renterOutflow = (assumptions.monthlyRent + assumptions.rentersInsurance) * inflation
+
+    ownerPortfolio *= 1 + monthlyReturn
+    renterPortfolio *= 1 + monthlyReturn
+    if (ownerOutflow > renterOutflow) {
+      renterPortfolio += ownerOutflow - renterOutflow
+    } else {
+      ownerPortfolio += renterOutflow - ownerOutflow
+    }
+
+    ownerYearOutflow += ownerOutflow
+    renterYearOutflow += renterOutflow
+
+    if (month % 12 === 0) {
+      const buyNetWorth = homeValue * (1 - assumptions.sellingCostRate / 100) - balance + ownerPortfolio
+      years.push({
+        year: month / 12,
+        homeValue,
+        mortgageBalance: balance,
+        ownerCashOutflow: ownerYearOutflow,
+        renterCashOutflow: renterYearOutflow,
+        ownerPortfolio,
+        renterPortfolio,
+        buyNetWorth,
+        rentNetWorth: renterPortfolio,
+        difference: buyNetWorth - renterPortfolio,
+      })
+      ownerYearOutflow = 0
+      renterYearOutflow = 0
+    }
+  }
+
+  const last = years[years.length - 1]
+
+  return {
+    crossoverYear: years.find(year => year.difference >= 0)?.year,
+    appreciationRate,
+    appreciationSource: assumptions.appreciationSource,
+    upfrontCost,
+    years,
+    finalBuyNetWorth: last?.buyNetWorth || 0,
+    finalRentNetWorth: last?.rentNetWorth || upfrontCost,
+  }
+}
@@ -1,5 +1,12 @@
 import OpenAI from 'openai'
 import { z } from 'zod'
+import { affordabilityEngine, AffordabilityInput } from './mortgage/affordability-engine'
+import { rateService } from './rate-apis'
+import { calculateApr, DEFAULT_QUOTE_FEES, pricingFees } from './mortgage/apr'
+import { calculateMortgageInsurance } from './mortgage/mortgage-insurance'
+import { Occupancy, pricingEngine, PropertyType } from './rates/pricing-engine'
+import { DEFAULT_RATE_LOCK_POLICIES, RateLockPolicySchema } from './rates/rate-lock'
+import { AprDisclosureSchema, LoanFee, LoanPricingSchema, MaxPriceSolutionSchema, MortgageInsuranceQuoteSchema } from './scenario-types'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -21,6 +28,8 @@ export const AffordabilitySchema = z.object({
     insurance: z.number(),
     pmi: z.number().optional(),
   }),
+  mortgageInsurance: MortgageInsuranceQuoteSchema.optional(),
+  maxPriceSolution: MaxPriceSolutionSchema.optional(),
   recommendations: z.array(z.string()),
   disclaimers: z.array(z.string()),
 })
@@ -38,6 +47,20 @@ export const RateSchema = z.object({
     email: z.string(),
     website: z.string(),
   }),
+  product: z.string().optional(),
+  // Term of the quoted rate, when it differs from the requested amortization
+  rateTermYears: z.number().optional(),
+  // Rate sheet the quote was served from
+  rateId: z.string().optional(),
+  rateSheetId: z.string().optional(),
+  rateSheetVersion: z.number().optional(),
+  // Sheet rate before loan-level pricing, and how the borrower's rate was reached
+  baseRate: z.number().optional(),
+  pricing: LoanPricingSchema.optional(),
+  // How the APR was computed and the fees it includes
+  aprDisclosure: AprDisclosureSchema.optional(),
+  // Lock periods, extension fees and float-down terms if the rate is locked
+  lockPolicy: RateLockPolicySchema.optional(),
 })
 
 export const ScenarioComparisonSchema = z.object({
@@ -93,47 +116,66 @@ export type LeadData = z.infer<typeof LeadSchema>
 
 // Agent 1: Affordability Agent
 export class AffordabilityAgent {
-  async calculateAffordability(input: {
-    country: 'CA' | 'US'
-    income: number
-    debts: number
-    downPayment: number
-    propertyPrice: number
-    interestRate: number
-    termYears: number
-    location: string
-    taxes?: number
-    insurance?: number
-    hoa?: number
-  }): Promise<AffordabilityResult> {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are the Affordability Agent for MortgageMatch Pro. Calculate mortgage affordability using ${input.country === 'CA' ? 'Canadian OSFI rules' : 'US CFPB rules'}.
+  /**
+   * Ratios, qualifying rate and max price come from the deterministic rules engine;
+   * the model only writes the narrative recommendations.
+   */
+  async calculateAffordability(input: AffordabilityInput): Promise<AffordabilityResult> {
+    const result = affordabilityEngine.calculate(input)
 
-Canadian Rules:
-- GDS ≤ 32% (Gross Debt Service)
-- TDS ≤ 44% (Total Debt Service)  
-- Stress test = max(rate + 2%, 5.25%)
+    return AffordabilitySchema.parse({
+      ...result,
+      recommendations: await this.writeRecommendations(input, result),
+    })
+  }
 
-US Rules:
-- DTI ≤ 43% (Debt-to-Income)
+  private async writeRecommendations(
+    input: AffordabilityInput,
+    result: AffordabilityResult
+  ): Promise<string[]> {
+    try {
+      const response = await openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: `You are the Affordability Agent for MortgageMatch Pro. The affordability figures below were calculated using ${input.country === 'CA' ? 'Canadian OSFI B-20 rules' : 'US CFPB rules'} and are final.
 
-Return valid JSON matching the AffordabilitySchema. Include compliance disclaimers.`,
-        },
-        {
-          role: 'user',
-          content: JSON.stringify(input),
-        },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.1,
-    })
+Do not recalculate or restate different numbers. Write 2-4 short, practical recommendations for the borrower.
 
-    const result = JSON.parse(response.choices[0].message.content || '{}')
-    return AffordabilitySchema.parse(result)
+Return JSON of the form { "recommendations": string[] }.`,
+          },
+          {
+            role: 'user',
+            content: JSON.stringify({ input, result }),
+          },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.1,
+      })
+
+      const parsed = JSON.parse(response.choices[0].message.content || '{}')
+      return z.array(z.string()).parse(parsed.recommendations)
+    } catch (error) {
+      console.error('Affordability narrative generation failed:', error)
+      return this.getFallbackRecommendations(input, result)
+    }
+  }
+
+  private getFallbackRecommendations(input: AffordabilityInput, result: AffordabilityResult): string[] {
+    if (result.qualificationResult) {
+      return ['Your debt service ratios are within lender limits at the qualifying rate']
+    }
+
+    return input.country === 'CA'
+      ? [
+          `Your GDS of ${result.gdsRatio}% and TDS of ${result.tdsRatio}% at the ${result.qualifyingRate}% qualifying rate exceed OSFI limits`,
+          'Consider a larger down payment, a lower purchase price or paying down existing debts',
+        ]
+      : [
+          `Your debt-to-income ratio of ${result.tdsRatio}% exceeds the qualified mortgage limit`,
+          'Consider a larger down payment, a lower purchase price or paying down existing debts',
+        ]
   }
 }
 
@@ -145,112 +187,78 @@ export class RateIntelligenceAgent {
     rateType: 'fixed' | 'variable'
     propertyPrice: number
     downPayment: number
+    creditScore?: number
+    occupancy?: Occupancy
+    propertyType?: PropertyType
+    discountPoints?: number
   }): Promise<RateResult[]> {
-    // For now, return mock data. In production, this would call real APIs
-    const mockRates = {
-      CA: [
-        {
-          lender: 'Royal Bank of Canada',
-          rate: 5.45,
-          apr: 5.52,
-          term: input.termYears,
-          type: input.rateType,
-          paymentEstimate: this.calculatePayment(input.propertyPrice - input.downPayment, 5.45, input.termYears),
-          features: ['No fee', 'Pre-approval available', 'Portable'],
-          contactInfo: {
-            phone: '1-800-769-2511',
-            email: 'mortgages@rbc.com',
-            website: 'https://rbc.com/mortgages',
-          },
-        },
-        {
-          lender: 'TD Canada Trust',
-          rate: 5.52,
-          apr: 5.59,
-          term: input.termYears,
-          type: input.rateType,
-          paymentEstimate: this.calculatePayment(input.propertyPrice - input.downPayment, 5.52, input.termYears),
-          features: ['Rate hold', 'Pre-approval available', 'Cashback'],
-          contactInfo: {
-            phone: '1-866-222-3456',
-            email: 'mortgages@td.com',
-            website: 'https://td.com/mortgages',
-          },
-        },
-        {
-          lender: 'Scotiabank',
-          rate: 5.38,
-          apr: 5.45,
-          term: input.termYears,
-          type: input.rateType,
-          paymentEstimate: this.calculatePayment(input.propertyPrice - input.downPayment, 5.38, input.termYears),
-          features: ['No fee', 'Rate hold', 'Portable'],
-          contactInfo: {
-            phone: '1-800-4SCOTIA',
-            email: 'mortgages@scotiabank.com',
-            website: 'https://scotiabank.com/mortgages',
-          },
-        },
-      ],
-      US: [
-        {
-          lender: 'Wells Fargo',
-          rate: 6.25,
-          apr: 6.35,
-          term: input.termYears,
-          type: input.rateType,
-          paymentEstimate: this.calculatePayment(input.propertyPrice - input.downPayment, 6.25, input.termYears),
-          features: ['No PMI with 20% down', 'Rate lock', 'Online application'],
-          contactInfo: {
-            phone: '1-800-869-3557',
-            email: 'mortgages@wellsfargo.com',
-            website: 'https://wellsfargo.com/mortgages',
-          },
-        },
-        {
-          lender: 'Bank of America',
-          rate: 6.32,
-          apr: 6.42,
-          term: input.termYears,
-          type: input.rateType,
-          paymentEstimate: this.calculatePayment(input.propertyPrice - input.downPayment, 6.32, input.termYears),
-          features: ['Rate lock', 'Online application', 'Pre-approval'],
-          contactInfo: {
-            phone: '1-800-900-9000',
-            email: 'mortgages@bankofamerica.com',
-            website: 'https://bankofamerica.com/mortgages',
-          },
-        },
-        {
-          lender: 'Chase Bank',
-          rate: 6.18,
-          apr: 6.28,
-          term: input.termYears,
-          type: input.rateType,
-          paymentEstimate: this.calculatePayment(input.propertyPrice - input.downPayment, 6.18, input.termYears),
-          features: ['No PMI with 20% down', 'Rate lock', 'Online application'],
-          contactInfo: {
-            phone: '1-800-873-6577',
-            email: 'mortgages@chase.com',
-            website: 'https://chase.com/mortgages',
-          },
-        },
-      ],
+    // Quotes come from the latest effective lender rate sheets
+    const quotes: any[] = await rateService.getRates(input.country, input)
+    await pricingEngine.loadGrids()
+
+    // Mortgage insurance is the same whichever lender is chosen
+    const insurance = calculateMortgageInsurance({
+      country: input.country,
+      propertyPrice: input.propertyPrice,
+      downPayment: input.downPayment,
+      amortizationYears: input.termYears,
+      creditScore: input.creditScore,
+    })
+    const insuranceFee: LoanFee = {
+      type: 'mortgage_insurance',
+      label: 'Mortgage insurance premium',
+      amount: insurance.upfrontPremium,
+      financed: insurance.capitalized,
     }
 
-    return mockRates[input.country] || []
-  }
+    return quotes.map(quote => {
+      // Borrower-specific price from the lender's adjustment grid
+      const pricing = pricingEngine.price(quote, {
+        country: input.country,
+        propertyPrice: input.propertyPrice,
+        downPayment: input.downPayment,
+        amortizationYears: input.termYears,
+        creditScore: input.creditScore,
+        occupancy: input.occupancy,
+        propertyType: input.propertyType,
+        discountPoints: input.discountPoints,
+      })
 
-  private calculatePayment(principal: number, rate: number, termYears: number): number {
-    const monthlyRate = rate / 100 / 12
-    const numPayments = termYears * 12
-    
-    if (monthlyRate === 0) {
-      return principal / numPayments
-    }
-    
-    return principal * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / 
-           (Math.pow(1 + monthlyRate, numPayments) - 1)
+      // Canadian APRs are disclosed over the rate term, US APRs over the whole loan
+      const aprDisclosure = pricing.loanAmount > 0
+        ? calculateApr({
+            country: input.country,
+            loanAmount: pricing.loanAmount,
+            noteRate: pricing.finalRate,
+            amortizationYears: input.termYears,
+            termYears: Math.min(quote.term, input.termYears),
+            rateType: quote.type,
+            fees: [...pricingFees(pricing), ...DEFAULT_QUOTE_FEES[input.country], insuranceFee],
+            monthlyMortgageInsurance: insurance.monthlyPremium,
+            mortgageInsuranceMonths: insurance.premiumDurationMonths,
+          })
+        : undefined
+
+      return {
+        lender: quote.lender,
+        rate: pricing.finalRate,
+        apr: aprDisclosure?.apr ?? pricing.finalRate,
+        term: input.termYears,
+        type: quote.type,
+        paymentEstimate: pricing.monthlyPayment,
+        features: quote.features,
+        contactInfo: quote.contactInfo,
+        product: quote.product,
+        rateTermYears: quote.term,
+        rateId: quote.rateId,
+        rateSheetId: quote.rateSheetId,
+        rateSheetVersion: quote.rateSheetVersion,
+        baseRate: quote.rate,
+        pricing,
+        aprDisclosure,
+        lockPolicy: quote.lockPolicy || DEFAULT_RATE_LOCK_POLICIES[input.country],
+      }
+    })
   }
 }
 
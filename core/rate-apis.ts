@@ -1,4 +1,7 @@
 import axios, { AxiosInstance } from 'axios'
+import { calculatePeriodicPayment } from './mortgage/amortization'
+import { normalizeRateSheetRows } from './rates/rate-sheet'
+import { LenderRateQuote, rateSheetStore } from './rates/rate-sheet-store'
 
 // Circuit breaker for API resilience
 class CircuitBreaker {
@@ -384,6 +387,10 @@ export const mockRates = {
   ],
 }
 
+// Canadian rate sheets quote terms of up to 10 years; the 5-year term is the benchmark
+const MAX_CA_RATE_TERM_YEARS = 10
+const DEFAULT_CA_RATE_TERM_YEARS = 5
+
 // Rate fetching service with enhanced error handling and fallbacks
 export class RateService {
   private ratehubAPI: RatehubAPI
@@ -394,6 +401,9 @@ export class RateService {
   constructor() {
     this.ratehubAPI = new RatehubAPI(process.env.RATEHUB_API_KEY || '')
     this.freddieMacAPI = new FreddieMacAPI(process.env.FREDDIE_MAC_API_KEY || '')
+
+    // Rates cached from an older sheet version must not outlive a new one
+    rateSheetStore.onIngest(() => this.clearCache())
   }
 
   private getCacheKey(country: string, params: any): string {
@@ -404,6 +414,11 @@ export class RateService {
     return Date.now() - timestamp < this.CACHE_TTL
   }
 
+  /**
+   * Get rates from the latest effective rate sheets. When no sheet covers the request,
+   * the rate API is pulled and stored as a sheet first so the quotes stay traceable to
+   * a sheet version; mock rates are the last resort.
+   */
   async getRates(country: 'CA' | 'US', params: any) {
     const cacheKey = this.getCacheKey(country, params)
     
@@ -415,29 +430,19 @@ export class RateService {
     }
 
     try {
-      let rates: any[] = []
-      
-      if (country === 'CA') {
-        rates = await this.ratehubAPI.getRates({
-          term: params.termYears,
-          type: params.rateType,
-          province: params.location?.split(',')[1]?.trim() || 'ON',
-          propertyValue: params.propertyPrice,
-          downPayment: params.downPayment,
-        })
-      } else {
-        rates = await this.freddieMacAPI.getRates({
-          term: params.termYears,
-          type: params.rateType,
-          state: params.location?.split(',')[1]?.trim() || 'CA',
-          propertyValue: params.propertyPrice,
-          downPayment: params.downPayment,
-        })
+      let rates: any[] = await this.getSheetRates(country, {
+        country,
+        termYears: this.getRateTerm(country, params),
+        rateType: params.rateType,
+      }, params)
+
+      if (rates.length === 0) {
+        rates = await this.pullApiRates(country, params)
       }
 
-      // If API returns empty array, try fallback
+      // If no sheet or API covers the request, try fallback
       if (rates.length === 0) {
-        console.warn('No rates from API, using fallback data')
+        console.warn('No rates from rate sheets or API, using fallback data')
         rates = this.getFallbackRates(country, params)
       }
 
@@ -463,6 +468,96 @@ export class RateService {
     }
   }
 
+  // Canadian requests carry the amortization; sheets are keyed by the rate term
+  private getRateTerm(country: 'CA' | 'US', params: any): number | undefined {
+    if (params.rateTermYears) return params.rateTermYears
+    if (country === 'CA' && (!params.termYears || params.termYears > MAX_CA_RATE_TERM_YEARS)) {
+      return DEFAULT_CA_RATE_TERM_YEARS
+    }
+    return params.termYears
+  }
+
+  private async getSheetRates(country: 'CA' | 'US', filter: Parameters<typeof rateSheetStore.getEffectiveRates>[0], params: any) {
+    try {
+      const rates = await rateSheetStore.getEffectiveRates(filter)
+      return rates.map(rate => this.toSheetQuote(country, rate, params))
+    } catch (error) {
+      console.error('Rate sheet lookup error:', error)
+      return []
+    }
+  }
+
+  // Store an API response as the rate sheet for that query, then quote from it
+  private async pullApiRates(country: 'CA' | 'US', params: any) {
+    let rates: any[] = []
+
+    if (country === 'CA') {
+      rates = await this.ratehubAPI.getRates({
+        term: params.termYears,
+        type: params.rateType,
+        province: params.location?.split(',')[1]?.trim() || 'ON',
+        propertyValue: params.propertyPrice,
+        downPayment: params.downPayment,
+      })
+    } else {
+      rates = await this.freddieMacAPI.getRates({
+        term: params.termYears,
+        type: params.rateType,
+        state: params.location?.split(',')[1]?.trim() || 'CA',
+        propertyValue: params.propertyPrice,
+        downPayment: params.downPayment,
+      })
+    }
+
+    if (rates.length === 0) return rates
+
+    const sourceId = `${rates[0].source}:${country}:${params.termYears}:${params.rateType}`
+    try {
+      const { rows, rejected } = normalizeRateSheetRows(
+        rates.map(rate => ({ ...rate, ...rate.contactInfo })),
+        { country }
+      )
+      if (rejected.length > 0) {
+        console.warn(`Skipped ${rejected.length} invalid rates from ${sourceId}`)
+      }
+      await rateSheetStore.ingestRows(sourceId, rows, { format: 'adapter' })
+
+      const sheetRates = await this.getSheetRates(country, { country, sourceId }, params)
+      return sheetRates.length > 0 ? sheetRates : rates
+    } catch (error) {
+      console.error('Rate sheet ingestion error:', error)
+      return rates
+    }
+  }
+
+  private toSheetQuote(country: 'CA' | 'US', rate: LenderRateQuote, params: any) {
+    const principal = (params.propertyPrice || 0) - (params.downPayment || 0)
+
+    return {
+      lender: rate.lender,
+      product: rate.product,
+      rate: rate.rate,
+      apr: rate.apr ?? rate.rate,
+      term: rate.termYears,
+      type: rate.rateType,
+      paymentEstimate: principal > 0
+        ? calculatePeriodicPayment(principal, rate.rate, params.termYears || rate.termYears, {
+            country,
+            rateType: rate.rateType,
+          })
+        : 0,
+      features: rate.features,
+      contactInfo: rate.contactInfo || { phone: '', email: '', website: '' },
+      lastUpdated: rate.effectiveAt,
+      source: 'rate_sheet',
+      rateId: rate.id,
+      rateSheetId: rate.rateSheetId,
+      rateSheetVersion: rate.rateSheetVersion,
+      rateSheetSource: rate.sourceId,
+      lockPolicy: rate.lockPolicy,
+    }
+  }
+
   private getFallbackRates(country: 'CA' | 'US', params: any) {
     const baseRates = mockRates[country]
     
@@ -515,4 +610,7 @@ export class RateService {
       keys: Array.from(this.cache.keys()),
     }
   }
-}
\ No newline at end of file
+}
+
+// Export singleton instance
+export const rateService = new RateService()
@@ -0,0 +1,340 @@
+import type { BuyDown, LoanPricing, PricingAdjustment, PricingFactor } from '../scenario-types'
+import type { Country } from '../mortgage/amortization'
+import { calculatePeriodicPayment } from '../mortgage/amortization'
+import { CA_DEFAULT_INSURANCE_RULES } from '../mortgage/mortgage-insurance'
+import { supabaseAdmin } from '../supabase'
+
+export type Occupancy = 'primary' | 'second_home' | 'investment'
+export type PropertyType = 'single_family' | 'condo' | 'multi_unit' | 'manufactured'
+export type InsuranceStatus = 'insured' | 'insurable' | 'uninsured'
+
+export interface PricingProfile {
+  country: Country
+  propertyPrice: number
+  downPayment: number
+  amortizationYears: number
+  creditScore?: number
+  occupancy?: Occupancy
+  propertyType?: PropertyType
+  // Overrides the status derived from the loan (Canada only)
+  insurance?: InsuranceStatus
+  discountPoints?: number
+}
+
+// A rule applies when every condition it sets is met. LTV bands are exclusive of the
+// minimum and inclusive of the maximum (60.01-70); credit score bounds are inclusive.
+// Credit score conditions never match a borrower without a score.
+export interface PricingRuleCondition {
+  minLtv?: number
+  maxLtv?: number
+  minCreditScore?: number
+  maxCreditScore?: number
+  occupancy?: Occupancy[]
+  propertyType?: PropertyType[]
+  insurance?: InsuranceStatus[]
+  minAmortizationYears?: number
+  minLoanAmount?: number
+  maxLoanAmount?: number
+  rateType?: Array<'fixed' | 'variable'>
+}
+
+export interface PricingRule {
+  id: string
+  label: string
+  factor: PricingFactor
+  when: PricingRuleCondition
+  adjustment: number
+  unit: 'rate' | 'points'
+}
+
+export interface PricingGrid {
+  id: string
+  country: Country
+  // Undefined for the country's default grid
+  lender?: string
+  rules: PricingRule[]
+  buyDown: {
+    maxPoints: number
+    pointStep: number
+    // Rate reduction bought by each discount point
+    rateReductionPerPoint: number
+  }
+}
+
+// US credit score / LTV adjustments in points, modelled on the Fannie Mae purchase
+// LLPA matrix. Columns are the upper bounds of the LTV bands.
+const US_LTV_BANDS = [60, 70, 75, 80, 85, 90, 95, 97]
+const US_CREDIT_LTV_MATRIX: Array<{ minScore: number; points: number[] }> = [
+  { minScore: 780, points: [0, 0, 0, 0.375, 0.375, 0.25, 0.25, 0.125] },
+  { minScore: 760, points: [0, 0, 0.25, 0.625, 0.875, 0.625, 0.5, 0.25] },
+  { minScore: 740, points: [0, 0.125, 0.375, 0.875, 1, 0.75, 0.625, 0.375] },
+  { minScore: 720, points: [0, 0.25, 0.75, 1.25, 1.25, 1, 0.875, 0.75] },
+  { minScore: 700, points: [0, 0.375, 0.875, 1.375, 1.5, 1.25, 1.125, 0.875] },
+  { minScore: 680, points: [0, 0.625, 1.125, 1.75, 1.875, 1.5, 1.375, 1.125] },
+  { minScore: 660, points: [0, 0.75, 1.375, 1.875, 2.125, 1.75, 1.625, 1.25] },
+  { minScore: 640, points: [0, 1.125, 1.5, 2.25, 2.5, 1.875, 1.75, 1.5] },
+  { minScore: 300, points: [0, 1.5, 2.125, 2.75, 2.875, 2.625, 2.25, 1.75] },
+]
+
+const usCreditLtvRules = (): PricingRule[] => {
+  const rules: PricingRule[] = []
+  US_CREDIT_LTV_MATRIX.forEach((row, rowIndex) => {
+    const maxCreditScore = rowIndex === 0 ? undefined : US_CREDIT_LTV_MATRIX[rowIndex - 1].minScore - 1
+    row.points.forEach((points, band) => {
+      if (points === 0) return
+      const minLtv = band === 0 ? undefined : US_LTV_BANDS[band - 1]
+      rules.push({
+        id: `us-credit-ltv-${row.minScore}-${US_LTV_BANDS[band]}`,
+        label: `Credit score ${row.minScore}${maxCreditScore ? `-${maxCreditScore}` : '+'}, LTV ${minLtv ? `${minLtv}.01` : '0'}-${US_LTV_BANDS[band]}%`,
+        factor: 'credit_score',
+        when: { minCreditScore: row.minScore, maxCreditScore, minLtv, maxLtv: US_LTV_BANDS[band] },
+        adjustment: points,
+        unit: 'points',
+      })
+    })
+  })
+  return rules
+}
+
+export const DEFAULT_PRICING_GRIDS: PricingGrid[] = [
+  {
+    id: 'ca-default',
+    country: 'CA',
+    rules: [
+      // Sheets are quoted for insurable loans; insured loans price lower, conventional higher
+      { id: 'ca-insured', label: 'Insured (high-ratio)', factor: 'insurance', when: { insurance: ['insured'] }, adjustment: -0.1, unit: 'rate' },
+      { id: 'ca-uninsured', label: 'Uninsured (conventional)', factor: 'insurance', when: { insurance: ['uninsured'] }, adjustment: 0.2, unit: 'rate' },
+      { id: 'ca-amortization-30', label: 'Amortization over 25 years', factor: 'amortization', when: { minAmortizationYears: 26 }, adjustment: 0.1, unit: 'rate' },
+      { id: 'ca-rental', label: 'Rental property', factor: 'occupancy', when: { occupancy: ['investment'] }, adjustment: 0.15, unit: 'rate' },
+      { id: 'ca-second-home', label: 'Second home', factor: 'occupancy', when: { occupancy: ['second_home'] }, adjustment: 0.05, unit: 'rate' },
+      { id: 'ca-multi-unit', label: '2-4 unit property', factor: 'property_type', when: { propertyType: ['multi_unit'] }, adjustment: 0.1, unit: 'rate' },
+      { id: 'ca-credit-600', label: 'Credit score 600-679', factor: 'credit_score', when: { minCreditScore: 600, maxCreditScore: 679 }, adjustment: 0.15, unit: 'rate' },
+      { id: 'ca-credit-below-600', label: 'Credit score below 600', factor: 'credit_score', when: { maxCreditScore: 599 }, adjustment: 0.5, unit: 'rate' },
+    ],
+    buyDown: { maxPoints: 1, pointStep: 0.25, rateReductionPerPoint: 0.125 },
+  },
+  {
+    id: 'us-default',
+    country: 'US',
+    rules: [
+      ...usCreditLtvRules(),
+      { id: 'us-investment-75', label: 'Investment property, LTV up to 75%', factor: 'occupancy', when: { occupancy: ['investment'], maxLtv: 75 }, adjustment: 2.125, unit: 'points' },
+      { id: 'us-investment-80', label: 'Investment property, LTV 75.01-80%', factor: 'occupancy', when: { occupancy: ['investment'], minLtv: 75, maxLtv: 80 }, adjustment: 3.375, unit: 'points' },
+      { id: 'us-investment-high', label: 'Investment property, LTV over 80%', factor: 'occupancy', when: { occupancy: ['investment'], minLtv: 80 }, adjustment: 4.125, unit: 'points' },
+      { id: 'us-second-home-75', label: 'Second home, LTV up to 75%', factor: 'occupancy', when: { occupancy: ['second_home'], maxLtv: 75 }, adjustment: 1.125, unit: 'points' },
+      { id: 'us-second-home-high', label: 'Second home, LTV over 75%', factor: 'occupancy', when: { occupancy: ['second_home'], minLtv: 75 }, adjustment: 3.375, unit: 'points' },
+      { id: 'us-condo', label: 'Condo, LTV over 75%', factor: 'property_type', when: { propertyType: ['condo'], minLtv: 75 }, adjustment: 0.75, unit: 'points' },
+      { id: 'us-multi-unit', label: '2-4 unit property', factor: 'property_type', when: { propertyType: ['multi_unit'] }, adjustment: 1, unit: 'points' },
+      { id: 'us-manufactured', label: 'Manufactured home', factor: 'property_type', when: { propertyType: ['manufactured'] }, adjustment: 0.5, unit: 'points' },
+    ],
+    buyDown: { maxPoints: 3, pointStep: 0.5, rateReductionPerPoint: 0.25 },
+  },
+]
+
+/**
+ * Canadian default insurance status of a loan: insured above 80% LTV, insurable when it
+ * could be insured at the lender's cost (owner-occupied, 25-year amortization, under
+ * the price cap), and uninsured otherwise
+ */
+export function getInsuranceStatus(profile: PricingProfile, ltv: number): InsuranceStatus | undefined {
+  if (profile.country !== 'CA') return undefined
+  if (profile.insurance) return profile.insurance
+  if (ltv > CA_DEFAULT_INSURANCE_RULES.MANDATORY_ABOVE_LTV) return 'insured'
+
+  const insurable = profile.occupancy !== 'investment' &&
+    profile.amortizationYears <= CA_DEFAULT_INSURANCE_RULES.STANDARD_AMORTIZATION &&
+    profile.propertyPrice < CA_DEFAULT_INSURANCE_RULES.INSURED_PRICE_CAP
+  return insurable ? 'insurable' : 'uninsured'
+}
+
+/**
+ * Price a base sheet rate for a borrower.
+ *
+ * Every grid rule the loan meets is applied: rate adjustments move the note rate and
+ * point adjustments are charged up front. Discount points, rounded down to the grid's
+ * step and capped at its maximum, then buy the rate down. Each buy-down option is
+ * measured against the adjusted rate without points, and breaks even in the month the
+ * payment savings cover the cost of the points.
+ */
+export function priceLoan(
+  baseRate: number,
+  rateType: 'fixed' | 'variable',
+  profile: PricingProfile,
+  grid: PricingGrid
+): LoanPricing {
+  const loanAmount = Math.max(0, profile.propertyPrice - profile.downPayment)
+  const ltv = profile.propertyPrice > 0 ? roundTo(loanAmount / profile.propertyPrice * 100, 2) : 0
+  const insurance = getInsuranceStatus(profile, ltv)
+
+  const adjustments: PricingAdjustment[] = grid.rules
+    .filter(rule => matchesRule(rule.when, { profile, rateType, ltv, loanAmount, insurance }))
+    .map(rule => ({
+      ruleId: rule.id,
+      label: rule.label,
+      factor: rule.factor,
+      unit: rule.unit,
+      amount: rule.adjustment,
+    }))
+
+  const rateAdjustment = roundTo(sumOf(adjustments.filter(item => item.unit === 'rate')), 3)
+  const pointsAdjustment = roundTo(sumOf(adjustments.filter(item => item.unit === 'points')), 3)
+  const adjustedRate = Math.max(0, roundTo(baseRate + rateAdjustment, 3))
+
+  const payment = (rate: number) => loanAmount > 0
+    ? calculatePeriodicPayment(loanAmount, rate, profile.amortizationYears, { country: profile.country, rateType })
+    : 0
+
+  const evaluateBuyDown = (points: number): BuyDown => {
+    const rateReduction = Math.min(adjustedRate, roundTo(points * grid.buyDown.rateReductionPerPoint, 3))
+    const cost = loanAmount * points / 100
+    const monthlySavings = payment(adjustedRate) - payment(adjustedRate - rateReduction)
+    return {
+      points,
+      cost,
+      rateReduction,
+      monthlySavings,
+      breakEvenMonths: monthlySavings > 0 ? Math.ceil(cost / monthlySavings) : undefined,
+    }
+  }
+
+  const { maxPoints, pointStep } = grid.buyDown
+  const buyDownOptions: BuyDown[] = []
+  for (let points = pointStep; points <= maxPoints + 1e-9; points = roundTo(points + pointStep, 3)) {
+    buyDownOptions.push(evaluateBuyDown(points))
+  }
+
+  const requestedPoints = Math.min(Math.max(profile.discountPoints || 0, 0), maxPoints)
+  const discountPoints = roundTo(Math.floor(requestedPoints / pointStep + 1e-9) * pointStep, 3)
+  const buyDown = discountPoints > 0 ? evaluateBuyDown(discountPoints) : undefined
+  const finalRate = roundTo(adjustedRate - (buyDown?.rateReduction || 0), 3)
+  const upfrontPoints = roundTo(pointsAdjustment + discountPoints, 3)
+
+  return {
+    gridId: grid.id,
+    baseRate,
+    adjustments,
+    rateAdjustment,
+    pointsAdjustment,
+    finalRate,
+    loanAmount,
+    ltv,
+    insurance,
+    upfrontPoints,
+    upfrontCost: loanAmount * upfrontPoints / 100,
+    monthlyPayment: payment(finalRate),
+    buyDown,
+    buyDownOptions,
+  }
+}
+
+function matchesRule(
+  when: PricingRuleCondition,
+  loan: {
+    profile: PricingProfile
+    rateType: 'fixed' | 'variable'
+    ltv: number
+    loanAmount: number
+    insurance?: InsuranceStatus
+  }
+): boolean {
+  const { profile } = loan
+
+  if (when.minLtv !== undefined && !(loan.ltv > when.minLtv)) return false
+  if (when.maxLtv !== undefined && !(loan.ltv <= when.maxLtv)) return false
+  if (when.minCreditScore !== undefined || when.maxCreditScore !== undefined) {
+    if (profile.creditScore === undefined) return false
+    if (when.minCreditScore !== undefined && profile.creditScore < when.minCreditScore) return false
+    if (when.maxCreditScore !== undefined && profile.creditScore > when.maxCreditScore) return false
+  }
+  if (when.occupancy && !when.occupancy.includes(profile.occupancy || 'primary')) return false
+  if (when.propertyType && !when.propertyType.includes(profile.propertyType || 'single_family')) return false
+  if (when.insurance && (!loan.insurance || !when.insurance.includes(loan.insurance))) return false
+  if (when.minAmortizationYears !== undefined && profile.amortizationYears < when.minAmortizationYears) return false
+  if (when.minLoanAmount !== undefined && loan.loanAmount < when.minLoanAmount) return false
+  if (when.maxLoanAmount !== undefined && loan.loanAmount > when.maxLoanAmount) return false
+  if (when.rateType && !when.rateType.includes(loan.rateType)) return false
+
+  return true
+}
+
+function sumOf(adjustments: PricingAdjustment[]): number {
+  return adjustments.reduce((total, item) => total + item.amount, 0)
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+// Lender-defined grids, with the country defaults for lenders that have none
+export class PricingEngine {
+  private grids = new Map<string, PricingGrid>()
+  private loadedAt = 0
+  private readonly GRID_TTL = 5 * 60 * 1000 // 5 minutes
+
+  constructor(grids: PricingGrid[] = DEFAULT_PRICING_GRIDS) {
+    grids.forEach(grid => this.registerGrid(grid))
+  }
+
+  /**
+   * Add or replace a grid
+   */
+  registerGrid(grid: PricingGrid): void {
+    this.grids.set(this.getGridKey(grid.country, grid.lender), grid)
+  }
+
+  /**
+   * Get a lender's grid, falling back to the country default
+   */
+  getGrid(country: Country, lender?: string): PricingGrid {
+    return (lender && this.grids.get(this.getGridKey(country, lender))) ||
+      this.grids.get(this.getGridKey(country))!
+  }
+
+  /**
+   * Price a lender's base rate for a borrower using the lender's grid
+   */
+  price(quote: { lender: string; rate: number; type: 'fixed' | 'variable' }, profile: PricingProfile): LoanPricing {
+    return priceLoan(quote.rate, quote.type, profile, this.getGrid(profile.country, quote.lender))
+  }
+
+  /**
+   * Refresh lender grids from the database at most every few minutes. Failures keep
+   * the grids already loaded.
+   */
+  async loadGrids(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.GRID_TTL) return
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('lender_pricing_grids')
+        .select('*')
+        .eq('active', true)
+
+      if (error) {
+        throw new Error(`Failed to fetch pricing grids: ${error.message}`)
+      }
+
+      for (const record of data || []) {
+        this.registerGrid({
+          id: record.id,
+          country: record.country,
+          lender: record.lender || undefined,
+          rules: record.rules,
+          buyDown: record.buy_down,
+        })
+      }
+    } catch (error) {
+      console.error('Pricing grid load error:', error)
+    } finally {
+      this.loadedAt = Date.now()
+    }
+  }
+
+  private getGridKey(country: Country, lender?: string): string {
+    return `${country}:${lender ? lender.toLowerCase() : 'default'}`
+  }
+}
+
+// Export singleton instance
+export const pricingEngine = new PricingEngine()
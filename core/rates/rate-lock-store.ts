@@ -0,0 +1,494 @@
+import { z } from 'zod'
+import { supabaseAdmin } from '../supabase'
+import { brokerNotificationService } from '../broker-notifications'
+import { WebhookService } from '../webhooks/webhook-service'
+import { PricingEngine, pricingEngine } from './pricing-engine'
+import { rateRowKey } from './rate-sheet'
+import { LenderRateQuote, RateSheetStore, rateSheetStore } from './rate-sheet-store'
+import {
+  DEFAULT_RATE_LOCK_POLICIES,
+  daysUntilExpiry,
+  dueExpiryWarning,
+  evaluateFloatDown,
+  FloatDownEvaluation,
+  isLockExpired,
+  LockExtensionQuote,
+  lockExpiry,
+  quoteLockExtension,
+  RateLock,
+} from './rate-lock'
+
+// Lock a quoted rate: the quote's rate and the sheet version it was served from, with the
+// borrower details it was priced for. The locked rate and the lender's lock terms are
+// worked out here, never taken from the request.
+export const RateLockRequestSchema = z.object({
+  leadId: z.string().optional(),
+  rateId: z.string().min(1),
+  rateSheetId: z.string().min(1),
+  loanAmount: z.number().positive(),
+  propertyPrice: z.number().positive(),
+  // The quote's term when omitted, as quotes are priced
+  amortizationYears: z.number().positive().max(40).optional(),
+  creditScore: z.number().int().min(300).max(900).optional(),
+  occupancy: z.enum(['primary', 'second_home', 'investment']).optional(),
+  propertyType: z.enum(['single_family', 'condo', 'multi_unit', 'manufactured']).optional(),
+  discountPoints: z.number().min(0).max(4).optional(),
+  lockDays: z.number().int().positive().optional(),
+}).refine(request => request.loanAmount <= request.propertyPrice, {
+  message: 'Loan amount cannot exceed the property price',
+  path: ['loanAmount'],
+})
+
+export type RateLockRequest = z.infer<typeof RateLockRequestSchema> & { brokerId: string }
+
+export type RateLockEventType = 'locked' | 'extended' | 'floated_down' | 'expiry_warning' | 'expired' | 'closed' | 'cancelled'
+
+export interface RateLockEvent {
+  id: string
+  lockId: string
+  eventType: RateLockEventType
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+export interface FloatDownResult {
+  evaluation: FloatDownEvaluation
+  lock: RateLock
+}
+
+export interface ExpiryCheckResult {
+  warned: Array<{ lockId: string; daysRemaining: number }>
+  expired: string[]
+}
+
+export class RateLockStore {
+  constructor(
+    private sheets: RateSheetStore = rateSheetStore,
+    private pricing: PricingEngine = pricingEngine
+  ) {}
+
+  /**
+   * Lock a quoted rate. The quote must still be served from the sheet version it names;
+   * once a newer version is in force the broker has to requote. The borrower's rate is
+   * priced from the sheet rate with the lender's adjustment grid, and the lock follows
+   * the terms on the lender's sheet.
+   */
+  async lockRate(request: RateLockRequest): Promise<RateLock> {
+    const { data: rate, error } = await supabaseAdmin
+      .from('lender_rates')
+      .select('*')
+      .eq('id', request.rateId)
+      .single()
+
+    if (error || !rate) {
+      throw new Error(`Rate ${request.rateId} not found`)
+    }
+
+    const quote = (await this.sheets.getEffectiveRates({
+      country: rate.country,
+      termYears: Number(rate.term_years),
+      rateType: rate.rate_type,
+      sourceId: rate.source_id,
+    })).find(candidate => candidate.id === request.rateId)
+
+    if (!quote) {
+      throw new Error(`Rate ${request.rateId} is no longer offered; requote before locking`)
+    }
+    if (quote.rateSheetId !== request.rateSheetId) {
+      throw new Error(`Rate sheet ${request.rateSheetId} is no longer in force; requote against version ${quote.rateSheetVersion}`)
+    }
+
+    const policy = quote.lockPolicy || DEFAULT_RATE_LOCK_POLICIES[quote.country]
+    const lockDays = request.lockDays ?? Math.min(...policy.lockPeriods)
+    if (!policy.lockPeriods.includes(lockDays)) {
+      throw new Error(`${quote.lender} offers ${policy.lockPeriods.join(', ')} day locks, not ${lockDays}`)
+    }
+
+    await this.pricing.loadGrids()
+    const pricing = this.pricing.price({ lender: quote.lender, rate: quote.rate, type: quote.rateType }, {
+      country: quote.country,
+      propertyPrice: request.propertyPrice,
+      downPayment: request.propertyPrice - request.loanAmount,
+      amortizationYears: request.amortizationYears ?? quote.termYears,
+      creditScore: request.creditScore,
+      occupancy: request.occupancy,
+      propertyType: request.propertyType,
+      discountPoints: request.discountPoints,
+    })
+
+    const lockedAt = new Date()
+    const { data, error: insertError } = await supabaseAdmin
+      .from('rate_locks')
+      .insert({
+        broker_id: request.brokerId,
+        lead_id: request.leadId || null,
+        country: quote.country,
+        source_id: quote.sourceId,
+        rate_id: quote.id,
+        rate_sheet_id: quote.rateSheetId,
+        rate_sheet_version: quote.rateSheetVersion,
+        row_key: rateRowKey(quote),
+        lender: quote.lender,
+        product: quote.product,
+        term_years: quote.termYears,
+        rate_type: quote.rateType,
+        loan_amount: request.loanAmount,
+        base_rate: quote.rate,
+        locked_rate: pricing.finalRate,
+        lock_days: lockDays,
+        status: 'active',
+        policy,
+        locked_at: lockedAt.toISOString(),
+        expires_at: lockExpiry(lockedAt, lockDays).toISOString(),
+        updated_at: lockedAt.toISOString(),
+      })
+      .select()
+      .single()
+
+    if (insertError || !data) {
+      throw new Error(`Failed to create rate lock: ${insertError?.message}`)
+    }
+
+    const lock = toRateLock(data)
+    await this.recordEvent(lock.id, 'locked', {
+      rateSheetId: lock.rateSheetId,
+      rateSheetVersion: lock.rateSheetVersion,
+      lockedRate: lock.lockedRate,
+      pricingGridId: pricing.gridId,
+      adjustments: pricing.adjustments.map(adjustment => adjustment.ruleId),
+      discountPoints: pricing.buyDown?.points ?? 0,
+      expiresAt: lock.expiresAt,
+    })
+
+    return lock
+  }
+
+  async getLock(lockId: string): Promise<RateLock | null> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_locks')
+      .select('*')
+      .eq('id', lockId)
+      .single()
+
+    if (error || !data) return null
+    return toRateLock(data)
+  }
+
+  /**
+   * A broker's locks, soonest expiry first
+   */
+  async getBrokerLocks(brokerId: string, includeInactive = false): Promise<RateLock[]> {
+    let query = supabaseAdmin
+      .from('rate_locks')
+      .select('*')
+      .eq('broker_id', brokerId)
+
+    if (!includeInactive) query = query.eq('status', 'active')
+
+    const { data, error } = await query.order('expires_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch rate locks: ${error.message}`)
+    }
+
+    return (data || []).map(toRateLock)
+  }
+
+  async getLockEvents(lockId: string): Promise<RateLockEvent[]> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_lock_events')
+      .select('*')
+      .eq('lock_id', lockId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch rate lock events: ${error.message}`)
+    }
+
+    return (data || []).map(event => ({
+      id: event.id,
+      lockId: event.lock_id,
+      eventType: event.event_type,
+      details: event.details || {},
+      createdAt: event.created_at,
+    }))
+  }
+
+  async quoteExtension(lockId: string, days: number): Promise<LockExtensionQuote> {
+    return quoteLockExtension(await this.requireLock(lockId), days)
+  }
+
+  /**
+   * Extend a lock, adding the fee to what the borrower owes for it
+   */
+  async extendLock(lockId: string, days: number): Promise<RateLock> {
+    const lock = await this.requireLock(lockId)
+    const quote = quoteLockExtension(lock, days)
+    if (!quote.allowed) {
+      throw new Error(`Cannot extend rate lock: ${quote.reason}`)
+    }
+
+    const updated = await this.updateLock(lock.id, {
+      expires_at: quote.expiresAt,
+      extension_days: lock.extensionDays + quote.days,
+      extension_fees: roundCents(lock.extensionFees + quote.fee),
+      // Warnings start over against the new expiry
+      last_warning_days: null,
+    })
+    await this.recordEvent(lock.id, 'extended', {
+      days: quote.days,
+      fee: quote.fee,
+      previousExpiresAt: lock.expiresAt,
+      expiresAt: quote.expiresAt,
+    })
+
+    return updated
+  }
+
+  /**
+   * Compare a lock with the current sheet rate for its product
+   */
+  async checkFloatDown(lockId: string): Promise<FloatDownEvaluation> {
+    const lock = await this.requireLock(lockId)
+    const market = await this.findMarketQuote(lock)
+    if (!market) {
+      return { eligible: false, reason: 'Product is no longer on the rate sheet', marketRate: lock.baseRate, improvement: 0, fee: 0 }
+    }
+    return evaluateFloatDown(lock, market.rate)
+  }
+
+  /**
+   * Move an eligible lock to the current market rate. The lock keeps its expiry and is
+   * re-pinned to the sheet version the new rate comes from.
+   */
+  async floatDown(lockId: string): Promise<FloatDownResult> {
+    const lock = await this.requireLock(lockId)
+    const market = await this.findMarketQuote(lock)
+    if (!market) {
+      throw new Error('Cannot float down: product is no longer on the rate sheet')
+    }
+
+    const evaluation = evaluateFloatDown(lock, market.rate)
+    if (!evaluation.eligible) {
+      throw new Error(`Cannot float down: ${evaluation.reason}`)
+    }
+
+    const updated = await this.updateLock(lock.id, {
+      rate_id: market.id,
+      rate_sheet_id: market.rateSheetId,
+      rate_sheet_version: market.rateSheetVersion,
+      base_rate: market.rate,
+      locked_rate: evaluation.newRate,
+      float_downs: lock.floatDowns + 1,
+      float_down_fees: roundCents(lock.floatDownFees + evaluation.fee),
+    })
+    await this.recordEvent(lock.id, 'floated_down', {
+      previousRate: lock.lockedRate,
+      newRate: evaluation.newRate,
+      improvement: evaluation.improvement,
+      fee: evaluation.fee,
+      rateSheetVersion: market.rateSheetVersion,
+    })
+
+    return { evaluation, lock: updated }
+  }
+
+  /**
+   * End an active lock, either because the loan closed on it or because it was dropped
+   */
+  async releaseLock(lockId: string, status: 'closed' | 'cancelled', reason?: string): Promise<RateLock> {
+    const lock = await this.requireLock(lockId)
+    if (lock.status !== 'active') {
+      throw new Error(`Rate lock is already ${lock.status}`)
+    }
+
+    const updated = await this.updateLock(lock.id, { status })
+    await this.recordEvent(lock.id, status, reason ? { reason } : {})
+    return updated
+  }
+
+  /**
+   * Expire lapsed locks and warn brokers about locks nearing expiry, by SMS and email
+   * and through the organization's webhooks. Meant to run on a schedule; each warning
+   * threshold is sent once per lock.
+   */
+  async runExpiryCheck(asOf: Date = new Date()): Promise<ExpiryCheckResult> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_locks')
+      .select('*')
+      .eq('status', 'active')
+
+    if (error) {
+      throw new Error(`Failed to fetch rate locks: ${error.message}`)
+    }
+
+    const locks = (data || []).map(toRateLock)
+    const brokers = await this.getBrokers(Array.from(new Set(locks.map(lock => lock.brokerId))))
+    const result: ExpiryCheckResult = { warned: [], expired: [] }
+
+    for (const lock of locks) {
+      const broker = brokers.get(lock.brokerId)
+
+      if (isLockExpired(lock, asOf)) {
+        await this.updateLock(lock.id, { status: 'expired' })
+        await this.recordEvent(lock.id, 'expired', { expiresAt: lock.expiresAt })
+        await this.sendWebhook(broker, 'rate_lock.expired', lock, 0)
+        result.expired.push(lock.id)
+        continue
+      }
+
+      const threshold = dueExpiryWarning(lock, asOf)
+      if (threshold === undefined) continue
+
+      const daysRemaining = daysUntilExpiry(lock, asOf)
+      const extension = quoteLockExtension(lock, lock.policy.extensionIncrementDays, asOf)
+
+      if (broker) {
+        await brokerNotificationService.sendRateLockExpiryNotification({
+          brokerId: broker.id,
+          brokerName: broker.name,
+          brokerEmail: broker.email,
+          brokerPhone: broker.phone,
+          lockId: lock.id,
+          leadId: lock.leadId,
+          lender: lock.lender,
+          product: lock.product,
+          lockedRate: lock.lockedRate,
+          loanAmount: lock.loanAmount,
+          expiresAt: lock.expiresAt,
+          daysRemaining,
+          extensionFee: extension.allowed ? extension.fee : undefined,
+          extensionDays: extension.allowed ? extension.days : undefined,
+        })
+      }
+      await this.sendWebhook(broker, 'rate_lock.expiring', lock, daysRemaining)
+
+      await this.updateLock(lock.id, { last_warning_days: threshold })
+      await this.recordEvent(lock.id, 'expiry_warning', { threshold, daysRemaining })
+      result.warned.push({ lockId: lock.id, daysRemaining })
+    }
+
+    return result
+  }
+
+  private async requireLock(lockId: string): Promise<RateLock> {
+    const lock = await this.getLock(lockId)
+    if (!lock) {
+      throw new Error(`Rate lock ${lockId} not found`)
+    }
+    return lock
+  }
+
+  // The same product on the sheet version currently in force for the lock's source
+  private async findMarketQuote(lock: RateLock): Promise<LenderRateQuote | undefined> {
+    const quotes = await this.sheets.getEffectiveRates({
+      country: lock.country,
+      termYears: lock.termYears,
+      rateType: lock.rateType,
+      sourceId: lock.sourceId,
+    })
+    return quotes.find(quote => rateRowKey(quote) === lock.rowKey)
+  }
+
+  private async updateLock(lockId: string, update: Record<string, unknown>): Promise<RateLock> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_locks')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', lockId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to update rate lock: ${error?.message}`)
+    }
+
+    return toRateLock(data)
+  }
+
+  private async recordEvent(lockId: string, eventType: RateLockEventType, details: Record<string, unknown>): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('rate_lock_events')
+      .insert({ lock_id: lockId, event_type: eventType, details })
+
+    if (error) {
+      throw new Error(`Failed to record rate lock event: ${error.message}`)
+    }
+  }
+
+  private async getBrokers(brokerIds: string[]): Promise<Map<string, any>> {
+    if (brokerIds.length === 0) return new Map()
+
+    const { data, error } = await supabaseAdmin
+      .from('brokers')
+      .select('id, name, email, phone, organization_id')
+      .in('id', brokerIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch brokers: ${error.message}`)
+    }
+
+    return new Map((data || []).map(broker => [broker.id, broker] as [string, any]))
+  }
+
+  // A failed delivery is logged rather than holding up the other locks
+  private async sendWebhook(broker: any, eventType: string, lock: RateLock, daysRemaining: number): Promise<void> {
+    if (!broker?.organization_id) return
+
+    try {
+      await WebhookService.sendWebhookEvent(broker.organization_id, eventType, {
+        lockId: lock.id,
+        brokerId: lock.brokerId,
+        leadId: lock.leadId,
+        lender: lock.lender,
+        product: lock.product,
+        lockedRate: lock.lockedRate,
+        loanAmount: lock.loanAmount,
+        rateSheetId: lock.rateSheetId,
+        rateSheetVersion: lock.rateSheetVersion,
+        expiresAt: lock.expiresAt,
+        daysRemaining,
+      })
+    } catch (error) {
+      console.error(`Failed to send ${eventType} webhook for rate lock ${lock.id}:`, error)
+    }
+  }
+}
+
+function toRateLock(row: any): RateLock {
+  return {
+    id: row.id,
+    brokerId: row.broker_id,
+    leadId: row.lead_id || undefined,
+    country: row.country,
+    sourceId: row.source_id,
+    rateId: row.rate_id,
+    rateSheetId: row.rate_sheet_id,
+    rateSheetVersion: row.rate_sheet_version,
+    rowKey: row.row_key,
+    lender: row.lender,
+    product: row.product,
+    termYears: Number(row.term_years),
+    rateType: row.rate_type,
+    loanAmount: Number(row.loan_amount),
+    baseRate: Number(row.base_rate),
+    lockedRate: Number(row.locked_rate),
+    lockDays: row.lock_days,
+    status: row.status,
+    policy: row.policy,
+    lockedAt: row.locked_at,
+    expiresAt: row.expires_at,
+    extensionDays: row.extension_days || 0,
+    extensionFees: Number(row.extension_fees || 0),
+    floatDowns: row.float_downs || 0,
+    floatDownFees: Number(row.float_down_fees || 0),
+    lastWarningDays: row.last_warning_days ?? undefined,
+    updatedAt: row.updated_at,
+  }
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Export singleton instance
+export const rateLockStore = new RateLockStore()
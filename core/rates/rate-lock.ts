@@ -0,0 +1,203 @@
+import { z } from 'zod'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How a lender holds a quoted rate: the lock lengths it offers, what extending a lock
+// costs and when a locked borrower may float down to a lower market rate
+export const RateLockPolicySchema = z.object({
+  // Lock lengths offered, in days
+  lockPeriods: z.array(z.number().int().positive()).min(1),
+  // Extension cost in basis points of the loan amount per day, and the days granted
+  // per extension; a maxExtensionDays of 0 means locks cannot be extended
+  extensionFeeBpsPerDay: z.number().min(0),
+  extensionIncrementDays: z.number().int().positive(),
+  maxExtensionDays: z.number().int().min(0),
+  // Drop in the sheet rate, in percentage points, before a float-down is allowed, and
+  // the fee for it in points
+  floatDownMinImprovement: z.number().min(0),
+  floatDownFeePoints: z.number().min(0),
+  maxFloatDowns: z.number().int().min(0),
+  // Days before expiry at which the broker is warned
+  expiryWarningDays: z.array(z.number().int().min(0)),
+})
+
+export type RateLockPolicy = z.infer<typeof RateLockPolicySchema>
+
+export const RateLockStatusSchema = z.enum(['active', 'expired', 'closed', 'cancelled'])
+
+export type RateLockStatus = z.infer<typeof RateLockStatusSchema>
+
+// US locks are short and extensions are bought by the day; Canadian rate holds run
+// longer, are not extended and pass rate drops on at no cost
+export const DEFAULT_RATE_LOCK_POLICIES: Record<'CA' | 'US', RateLockPolicy> = {
+  US: {
+    lockPeriods: [30, 45, 60],
+    extensionFeeBpsPerDay: 2,
+    extensionIncrementDays: 15,
+    maxExtensionDays: 30,
+    floatDownMinImprovement: 0.25,
+    floatDownFeePoints: 0.25,
+    maxFloatDowns: 1,
+    expiryWarningDays: [7, 3, 1],
+  },
+  CA: {
+    lockPeriods: [90, 120],
+    extensionFeeBpsPerDay: 0,
+    extensionIncrementDays: 30,
+    maxExtensionDays: 0,
+    floatDownMinImprovement: 0.05,
+    floatDownFeePoints: 0,
+    maxFloatDowns: 3,
+    expiryWarningDays: [14, 7, 2],
+  },
+}
+
+// A rate held for a borrower, pinned to the sheet version it was priced from
+export interface RateLock {
+  id: string
+  brokerId: string
+  leadId?: string
+  country: 'CA' | 'US'
+  sourceId: string
+  rateId: string
+  rateSheetId: string
+  rateSheetVersion: number
+  // Identifies the product across sheet versions, for finding its current market rate
+  rowKey: string
+  lender: string
+  product: string
+  termYears: number
+  rateType: 'fixed' | 'variable'
+  loanAmount: number
+  // Sheet rate at lock time, and the borrower's rate after loan-level pricing
+  baseRate: number
+  lockedRate: number
+  lockDays: number
+  status: RateLockStatus
+  policy: RateLockPolicy
+  lockedAt: string
+  expiresAt: string
+  extensionDays: number
+  extensionFees: number
+  floatDowns: number
+  floatDownFees: number
+  // Smallest warning threshold already sent, in days before expiry
+  lastWarningDays?: number
+  updatedAt: string
+}
+
+export interface LockExtensionQuote {
+  allowed: boolean
+  reason?: string
+  // Requested days rounded up to the lender's extension increment
+  days: number
+  fee: number
+  expiresAt?: string
+}
+
+export interface FloatDownEvaluation {
+  eligible: boolean
+  reason?: string
+  marketRate: number
+  // How far the sheet rate has dropped since the lock, in percentage points
+  improvement: number
+  newRate?: number
+  fee: number
+}
+
+export function lockExpiry(lockedAt: Date, lockDays: number): Date {
+  return new Date(lockedAt.getTime() + lockDays * DAY_MS)
+}
+
+/**
+ * Whole days left on a lock, counting a part day as a day; 0 once it has expired
+ */
+export function daysUntilExpiry(lock: Pick<RateLock, 'expiresAt'>, asOf: Date = new Date()): number {
+  return Math.max(0, Math.ceil((new Date(lock.expiresAt).getTime() - asOf.getTime()) / DAY_MS))
+}
+
+export function isLockExpired(lock: Pick<RateLock, 'expiresAt'>, asOf: Date = new Date()): boolean {
+  return asOf.getTime() >= new Date(lock.expiresAt).getTime()
+}
+
+/**
+ * Price an extension of an active lock. Extensions are sold in the lender's increment
+ * and capped at its maximum over the life of the lock; an expired lock has to be
+ * relocked at current pricing instead.
+ */
+export function quoteLockExtension(lock: RateLock, requestedDays: number, asOf: Date = new Date()): LockExtensionQuote {
+  const { policy } = lock
+  const days = Math.ceil(Math.max(requestedDays, 1) / policy.extensionIncrementDays) * policy.extensionIncrementDays
+  const refuse = (reason: string): LockExtensionQuote => ({ allowed: false, reason, days, fee: 0 })
+
+  if (lock.status !== 'active') return refuse(`Lock is ${lock.status}`)
+  if (isLockExpired(lock, asOf)) return refuse('Lock has expired; relock at current pricing')
+  if (policy.maxExtensionDays === 0) return refuse(`${lock.lender} does not extend rate locks`)
+
+  const remaining = policy.maxExtensionDays - lock.extensionDays
+  if (days > remaining) {
+    return refuse(`Extensions are limited to ${policy.maxExtensionDays} days; ${remaining} remain`)
+  }
+
+  return {
+    allowed: true,
+    days,
+    fee: roundCents(lock.loanAmount * policy.extensionFeeBpsPerDay * days / 10000),
+    expiresAt: lockExpiry(new Date(lock.expiresAt), days).toISOString(),
+  }
+}
+
+/**
+ * Check whether a lock may float down to the current sheet rate for its product. The
+ * drop in the sheet rate carries straight through to the borrower's rate, so loan-level
+ * adjustments priced in at lock time are kept.
+ */
+export function evaluateFloatDown(lock: RateLock, marketRate: number, asOf: Date = new Date()): FloatDownEvaluation {
+  const { policy } = lock
+  const improvement = roundTo(lock.baseRate - marketRate, 3)
+  const fee = roundCents(lock.loanAmount * policy.floatDownFeePoints / 100)
+  const refuse = (reason: string): FloatDownEvaluation => ({ eligible: false, reason, marketRate, improvement, fee: 0 })
+
+  if (lock.status !== 'active') return refuse(`Lock is ${lock.status}`)
+  if (isLockExpired(lock, asOf)) return refuse('Lock has expired; relock at current pricing')
+  if (lock.floatDowns >= policy.maxFloatDowns) {
+    return refuse(policy.maxFloatDowns === 0
+      ? `${lock.lender} does not offer float-downs`
+      : `Float-down limit of ${policy.maxFloatDowns} reached`)
+  }
+  if (improvement < policy.floatDownMinImprovement || improvement <= 0) {
+    return refuse(`Market has improved ${Math.max(improvement, 0)} points; ${policy.floatDownMinImprovement} needed`)
+  }
+
+  return {
+    eligible: true,
+    marketRate,
+    improvement,
+    newRate: roundTo(lock.lockedRate - improvement, 3),
+    fee,
+  }
+}
+
+/**
+ * The expiry warning due for an active lock, if any: the tightest threshold the lock is
+ * inside that has not been sent yet, so a late run sends one notice rather than several
+ */
+export function dueExpiryWarning(lock: RateLock, asOf: Date = new Date()): number | undefined {
+  if (lock.status !== 'active' || isLockExpired(lock, asOf)) return undefined
+
+  const daysRemaining = daysUntilExpiry(lock, asOf)
+  const due = lock.policy.expiryWarningDays
+    .filter(threshold => daysRemaining <= threshold)
+    .filter(threshold => lock.lastWarningDays === undefined || threshold < lock.lastWarningDays)
+
+  return due.length > 0 ? Math.min(...due) : undefined
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
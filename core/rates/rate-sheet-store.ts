@@ -0,0 +1,448 @@
+import { supabaseAdmin } from '../supabase'
+import { RateLockPolicy } from './rate-lock'
+import {
+  diffRateSheet,
+  LenderRateRow,
+  normalizeRateSheetRows,
+  parseRateSheet,
+  rateRowHash,
+  rateRowKey,
+  rateSheetChecksum,
+  RateSheetDefaults,
+  RateSheetFormat,
+  RateSheetRejection,
+  StoredLenderRate,
+} from './rate-sheet'
+
+export interface RateSheetVersion {
+  id: string
+  sourceId: string
+  version: number
+  format: RateSheetFormat
+  checksum: string
+  effectiveAt: string
+  expiresAt?: string
+  rowCount: number
+  // The lender's lock terms for rates on this sheet; country defaults when unset
+  lockPolicy?: RateLockPolicy
+  uploadedBy?: string
+  createdAt: string
+}
+
+// A stored rate together with the sheet version it is being quoted from
+export interface LenderRateQuote extends LenderRateRow {
+  id: string
+  sourceId: string
+  rateSheetId: string
+  rateSheetVersion: number
+  effectiveAt: string
+  expiresAt?: string
+  lockPolicy?: RateLockPolicy
+}
+
+export interface RateSheetUpload extends RateSheetDefaults {
+  sourceId: string
+  format: Exclude<RateSheetFormat, 'adapter'>
+  // Text for CSV and JSON; a Buffer or base64 text for XLSX
+  content: string | Buffer
+  effectiveAt?: string
+  expiresAt?: string
+  lockPolicy?: RateLockPolicy
+  uploadedBy?: string
+}
+
+export interface RateSheetIngestionResult {
+  status: 'created' | 'unchanged'
+  sheet: RateSheetVersion
+  added: number
+  changed: number
+  unchanged: number
+  removed: number
+  rejected: RateSheetRejection[]
+}
+
+// Anything that can hand over a full rate sheet on request, such as a lender API adapter
+export interface RateSheetSource {
+  sourceId: string
+  pullRateSheet(): Promise<{
+    rates: Array<Record<string, unknown>>
+    country?: 'CA' | 'US'
+    effectiveAt?: string
+    expiresAt?: string
+    lockPolicy?: RateLockPolicy
+  }>
+}
+
+export interface EffectiveRateFilter {
+  country: 'CA' | 'US'
+  termYears?: number
+  rateType?: 'fixed' | 'variable'
+  sourceId?: string
+  asOf?: Date
+}
+
+export class RateSheetStore {
+  private ingestListeners: Array<(sheet: RateSheetVersion) => void> = []
+
+  /**
+   * Be told whenever a new sheet version is stored, e.g. to drop rates cached from the
+   * previous one
+   */
+  onIngest(listener: (sheet: RateSheetVersion) => void): () => void {
+    this.ingestListeners.push(listener)
+    return () => {
+      this.ingestListeners = this.ingestListeners.filter(existing => existing !== listener)
+    }
+  }
+
+  /**
+   * Parse and store an uploaded CSV, XLSX or JSON rate sheet
+   */
+  async ingestUpload(upload: RateSheetUpload): Promise<RateSheetIngestionResult> {
+    const { rows, rejected } = parseRateSheet(upload.format, upload.content, {
+      country: upload.country,
+      lender: upload.lender,
+    })
+
+    return this.ingestRows(upload.sourceId, rows, {
+      format: upload.format,
+      effectiveAt: upload.effectiveAt,
+      expiresAt: upload.expiresAt,
+      lockPolicy: upload.lockPolicy,
+      uploadedBy: upload.uploadedBy,
+      rejected,
+    })
+  }
+
+  /**
+   * Pull the current rate sheet from an adapter and store it
+   */
+  async pullFromSource(source: RateSheetSource): Promise<RateSheetIngestionResult> {
+    const sheet = await source.pullRateSheet()
+    const { rows, rejected } = normalizeRateSheetRows(sheet.rates, { country: sheet.country })
+
+    return this.ingestRows(source.sourceId, rows, {
+      format: 'adapter',
+      effectiveAt: sheet.effectiveAt,
+      expiresAt: sheet.expiresAt,
+      lockPolicy: sheet.lockPolicy,
+      rejected,
+    })
+  }
+
+  /**
+   * Store normalized rates as a new sheet version for a source.
+   *
+   * A sheet identical to the source's latest version is not stored again. Otherwise
+   * unchanged rows keep their stored record and move to the new sheet's expiry, changed
+   * and removed rows are superseded from the new sheet's effective time, and changed
+   * and added rows are inserted against the new version.
+   */
+  async ingestRows(
+    sourceId: string,
+    rows: LenderRateRow[],
+    options: {
+      format: RateSheetFormat
+      effectiveAt?: string
+      expiresAt?: string
+      lockPolicy?: RateLockPolicy
+      uploadedBy?: string
+      rejected?: RateSheetRejection[]
+    }
+  ): Promise<RateSheetIngestionResult> {
+    const rejected = options.rejected || []
+    if (rows.length === 0) {
+      throw new Error(`Rate sheet for ${sourceId} has no valid rates`)
+    }
+
+    const effectiveAt = options.effectiveAt ? new Date(options.effectiveAt).toISOString() : new Date().toISOString()
+    const expiresAt = options.expiresAt ? new Date(options.expiresAt).toISOString() : undefined
+    if (expiresAt && expiresAt <= effectiveAt) {
+      throw new Error('Rate sheet expiry must be after its effective time')
+    }
+
+    const checksum = rateSheetChecksum(rows)
+    const latest = await this.getLatestVersion(sourceId)
+    const lockPolicyUnchanged = JSON.stringify(latest?.lockPolicy ?? null) === JSON.stringify(options.lockPolicy ?? null)
+    if (latest && latest.checksum === checksum && latest.expiresAt === expiresAt && lockPolicyUnchanged) {
+      return {
+        status: 'unchanged',
+        sheet: latest,
+        added: 0,
+        changed: 0,
+        unchanged: rows.length,
+        removed: 0,
+        rejected,
+      }
+    }
+
+    const current = await this.getCurrentRows(sourceId)
+    const diff = diffRateSheet(current, rows)
+
+    const { data: sheet, error: sheetError } = await supabaseAdmin
+      .from('rate_sheets')
+      .insert({
+        source_id: sourceId,
+        version: (latest?.version || 0) + 1,
+        format: options.format,
+        checksum,
+        effective_at: effectiveAt,
+        expires_at: expiresAt || null,
+        row_count: rows.length,
+        rejected_rows: rejected,
+        lock_policy: options.lockPolicy || null,
+        uploaded_by: options.uploadedBy || null,
+      })
+      .select()
+      .single()
+
+    if (sheetError) {
+      throw new Error(`Failed to store rate sheet: ${sheetError.message}`)
+    }
+
+    const inserts = [...diff.added, ...diff.changed.map(change => change.next)]
+    if (inserts.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('lender_rates')
+        .insert(inserts.map(row => this.toRecord(row, sourceId, sheet.id, effectiveAt, expiresAt)))
+
+      if (error) {
+        throw new Error(`Failed to store lender rates: ${error.message}`)
+      }
+    }
+
+    const supersededIds = [...diff.changed.map(change => change.previous.id), ...diff.removed.map(row => row.id)]
+    if (supersededIds.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('lender_rates')
+        .update({ superseded_at: effectiveAt })
+        .in('id', supersededIds)
+
+      if (error) {
+        throw new Error(`Failed to supersede lender rates: ${error.message}`)
+      }
+    }
+
+    if (diff.unchanged.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('lender_rates')
+        .update({ expires_at: expiresAt || null })
+        .in('id', diff.unchanged.map(row => row.id))
+
+      if (error) {
+        throw new Error(`Failed to carry forward lender rates: ${error.message}`)
+      }
+    }
+
+    const version = this.toSheetVersion(sheet)
+    this.ingestListeners.forEach(listener => listener(version))
+
+    return {
+      status: 'created',
+      sheet: version,
+      added: diff.added.length,
+      changed: diff.changed.length,
+      unchanged: diff.unchanged.length,
+      removed: diff.removed.length,
+      rejected,
+    }
+  }
+
+  /**
+   * Get the rates in force at a point in time, each tagged with the sheet version of
+   * its source that was effective then
+   */
+  async getEffectiveRates(filter: EffectiveRateFilter): Promise<LenderRateQuote[]> {
+    const asOfDate = filter.asOf || new Date()
+    const asOf = asOfDate.toISOString()
+    const inForceAt = (expiresAt: string | null) => !expiresAt || new Date(expiresAt) > asOfDate
+
+    let query = supabaseAdmin
+      .from('lender_rates')
+      .select('*')
+      .eq('country', filter.country)
+      .lte('effective_at', asOf)
+      .or(`superseded_at.is.null,superseded_at.gt.${asOf}`)
+
+    if (filter.termYears !== undefined) query = query.eq('term_years', filter.termYears)
+    if (filter.rateType) query = query.eq('rate_type', filter.rateType)
+    if (filter.sourceId) query = query.eq('source_id', filter.sourceId)
+
+    const { data: rates, error } = await query.order('rate', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch lender rates: ${error.message}`)
+    }
+
+    const inForce = (rates || []).filter(rate => inForceAt(rate.expires_at))
+    if (inForce.length === 0) return []
+
+    const sourceIds = Array.from(new Set(inForce.map(rate => rate.source_id as string)))
+    const { data: sheets, error: sheetsError } = await supabaseAdmin
+      .from('rate_sheets')
+      .select('*')
+      .in('source_id', sourceIds)
+      .lte('effective_at', asOf)
+      .order('version', { ascending: false })
+
+    if (sheetsError) {
+      throw new Error(`Failed to fetch rate sheets: ${sheetsError.message}`)
+    }
+
+    // The latest effective version per source is the one every quote is served from
+    const effectiveSheets = new Map<string, RateSheetVersion>()
+    for (const sheet of sheets || []) {
+      if (!effectiveSheets.has(sheet.source_id) && inForceAt(sheet.expires_at)) {
+        effectiveSheets.set(sheet.source_id, this.toSheetVersion(sheet))
+      }
+    }
+
+    return inForce
+      .filter(rate => effectiveSheets.has(rate.source_id))
+      .map(rate => {
+        const sheet = effectiveSheets.get(rate.source_id)!
+        return {
+          ...this.fromRecord(rate),
+          id: rate.id,
+          sourceId: rate.source_id,
+          rateSheetId: sheet.id,
+          rateSheetVersion: sheet.version,
+          effectiveAt: sheet.effectiveAt,
+          expiresAt: sheet.expiresAt,
+          lockPolicy: sheet.lockPolicy,
+        }
+      })
+  }
+
+  /**
+   * List the stored versions of a source's rate sheet, newest first
+   */
+  async getSheetVersions(sourceId: string): Promise<RateSheetVersion[]> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_sheets')
+      .select('*')
+      .eq('source_id', sourceId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch rate sheets: ${error.message}`)
+    }
+
+    return (data || []).map(sheet => this.toSheetVersion(sheet))
+  }
+
+  /**
+   * Id of the most recently stored sheet version of any source, for keying caches of
+   * quoted rates so a new sheet is never answered from an older one's cache
+   */
+  async getLatestSheetId(): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_sheets')
+      .select('id')
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch rate sheets: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? data[0].id : null
+  }
+
+  private async getLatestVersion(sourceId: string): Promise<RateSheetVersion | null> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_sheets')
+      .select('*')
+      .eq('source_id', sourceId)
+      .order('version', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch rate sheets: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? this.toSheetVersion(data[0]) : null
+  }
+
+  private async getCurrentRows(sourceId: string): Promise<StoredLenderRate[]> {
+    const { data, error } = await supabaseAdmin
+      .from('lender_rates')
+      .select('*')
+      .eq('source_id', sourceId)
+      .is('superseded_at', null)
+
+    if (error) {
+      throw new Error(`Failed to fetch lender rates: ${error.message}`)
+    }
+
+    return (data || []).map(record => ({
+      ...this.fromRecord(record),
+      id: record.id,
+      rowKey: record.row_key,
+      rowHash: record.row_hash,
+    }))
+  }
+
+  private toRecord(row: LenderRateRow, sourceId: string, sheetId: string, effectiveAt: string, expiresAt?: string) {
+    return {
+      source_id: sourceId,
+      sheet_id: sheetId,
+      row_key: rateRowKey(row),
+      row_hash: rateRowHash(row),
+      lender: row.lender,
+      product: row.product,
+      country: row.country,
+      region: row.region || null,
+      term_years: row.termYears,
+      rate_type: row.rateType,
+      rate: row.rate,
+      apr: row.apr ?? null,
+      insurance: row.insurance || null,
+      min_ltv: row.minLtv ?? null,
+      max_ltv: row.maxLtv ?? null,
+      min_credit_score: row.minCreditScore ?? null,
+      features: row.features,
+      contact_info: row.contactInfo || null,
+      effective_at: effectiveAt,
+      expires_at: expiresAt || null,
+    }
+  }
+
+  private fromRecord(record: any): LenderRateRow {
+    return {
+      lender: record.lender,
+      product: record.product,
+      country: record.country,
+      region: record.region || undefined,
+      termYears: Number(record.term_years),
+      rateType: record.rate_type,
+      rate: Number(record.rate),
+      apr: record.apr !== null ? Number(record.apr) : undefined,
+      insurance: record.insurance || undefined,
+      minLtv: record.min_ltv !== null ? Number(record.min_ltv) : undefined,
+      maxLtv: record.max_ltv !== null ? Number(record.max_ltv) : undefined,
+      minCreditScore: record.min_credit_score ?? undefined,
+      features: record.features || [],
+      contactInfo: record.contact_info || undefined,
+    }
+  }
+
+  private toSheetVersion(record: any): RateSheetVersion {
+    return {
+      id: record.id,
+      sourceId: record.source_id,
+      version: record.version,
+      format: record.format,
+      checksum: record.checksum,
+      effectiveAt: new Date(record.effective_at).toISOString(),
+      expiresAt: record.expires_at ? new Date(record.expires_at).toISOString() : undefined,
+      rowCount: record.row_count,
+      lockPolicy: record.lock_policy || undefined,
+      uploadedBy: record.uploaded_by || undefined,
+      createdAt: record.created_at,
+    }
+  }
+}
+
+// Export singleton instance
+export const rateSheetStore = new RateSheetStore()
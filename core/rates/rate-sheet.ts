@@ -0,0 +1,368 @@
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { readXlsxRows } from './xlsx'
+
+export const RateSheetFormatSchema = z.enum(['csv', 'xlsx', 'json', 'adapter'])
+
+// One normalized rate from a lender rate sheet
+export const LenderRateRowSchema = z.object({
+  lender: z.string().min(1),
+  product: z.string().min(1),
+  country: z.enum(['CA', 'US']),
+  region: z.string().optional(),
+  // Length of the rate commitment: the mortgage term in Canada, the loan term in the US
+  termYears: z.number().positive().max(40),
+  rateType: z.enum(['fixed', 'variable']),
+  rate: z.number().positive().max(25),
+  apr: z.number().positive().max(30).optional(),
+  insurance: z.enum(['insured', 'insurable', 'uninsured']).optional(),
+  minLtv: z.number().min(0).max(100).optional(),
+  maxLtv: z.number().min(0).max(100).optional(),
+  minCreditScore: z.number().int().min(300).max(900).optional(),
+  features: z.array(z.string()),
+  contactInfo: z.object({
+    phone: z.string(),
+    email: z.string(),
+    website: z.string(),
+  }).optional(),
+})
+
+export type RateSheetFormat = z.infer<typeof RateSheetFormatSchema>
+export type LenderRateRow = z.infer<typeof LenderRateRowSchema>
+
+export interface RateSheetRejection {
+  // 1-based position of the record in the sheet, not counting the header
+  row: number
+  reason: string
+}
+
+export interface NormalizedRateSheet {
+  rows: LenderRateRow[]
+  rejected: RateSheetRejection[]
+}
+
+export interface RateSheetDefaults {
+  country?: 'CA' | 'US'
+  lender?: string
+}
+
+// A rate already stored for a sheet source
+export interface StoredLenderRate extends LenderRateRow {
+  id: string
+  rowKey: string
+  rowHash: string
+}
+
+export interface RateSheetDiff {
+  unchanged: StoredLenderRate[]
+  changed: Array<{ previous: StoredLenderRate; next: LenderRateRow }>
+  added: LenderRateRow[]
+  removed: StoredLenderRate[]
+}
+
+// Header spellings accepted for each field, after lower-casing and snake-casing
+const COLUMN_ALIASES: Record<string, string> = {
+  lender: 'lender',
+  lender_name: 'lender',
+  bank: 'lender',
+  product: 'product',
+  product_name: 'product',
+  country: 'country',
+  region: 'region',
+  province: 'region',
+  state: 'region',
+  term: 'termYears',
+  term_years: 'termYears',
+  type: 'rateType',
+  rate_type: 'rateType',
+  rate: 'rate',
+  interest_rate: 'rate',
+  apr: 'apr',
+  insurance: 'insurance',
+  insurance_type: 'insurance',
+  min_ltv: 'minLtv',
+  max_ltv: 'maxLtv',
+  min_credit_score: 'minCreditScore',
+  credit_score: 'minCreditScore',
+  features: 'features',
+  phone: 'phone',
+  email: 'email',
+  website: 'website',
+}
+
+/**
+ * Parse an uploaded rate sheet into normalized rates.
+ *
+ * CSV and XLSX sheets need a header row; JSON sheets are an array of rate objects or
+ * an object with a `rates` array. Headers and keys are matched loosely ("Term (years)",
+ * "term_years" and "termYears" are the same column). Rows that fail validation are
+ * returned as rejections rather than failing the whole sheet.
+ */
+export function parseRateSheet(
+  format: Exclude<RateSheetFormat, 'adapter'>,
+  content: string | Buffer,
+  defaults: RateSheetDefaults = {}
+): NormalizedRateSheet {
+  let records: Array<Record<string, unknown>>
+
+  if (format === 'csv') {
+    records = tableToRecords(parseCsv(content.toString()))
+  } else if (format === 'xlsx') {
+    records = tableToRecords(readXlsxRows(typeof content === 'string' ? Buffer.from(content, 'base64') : content))
+  } else {
+    const parsed = JSON.parse(content.toString())
+    const rates = Array.isArray(parsed) ? parsed : parsed?.rates
+    if (!Array.isArray(rates)) {
+      throw new Error('JSON rate sheet must be an array of rates or an object with a rates array')
+    }
+    records = rates
+  }
+
+  return normalizeRateSheetRows(records, defaults)
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with embedded commas,
+ * doubled quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Validate raw rate records and coerce them into rate rows. Percentages may be given
+ * as "5.45", "5.45%" or 0.0545; terms as years or "60 months". A record repeating an
+ * earlier record's product key is rejected as a duplicate.
+ */
+export function normalizeRateSheetRows(
+  records: Array<Record<string, unknown>>,
+  defaults: RateSheetDefaults = {}
+): NormalizedRateSheet {
+  const rows: LenderRateRow[] = []
+  const rejected: RateSheetRejection[] = []
+  const seen = new Map<string, number>()
+
+  records.forEach((record, index) => {
+    const fields: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(record)) {
+      const field = COLUMN_ALIASES[normalizeColumnName(key)]
+      if (field && value !== null && value !== undefined && value !== '') {
+        fields[field] = value
+      }
+    }
+
+    const termYears = toTermYears(fields.termYears)
+    const rateType = toRateType(fields.rateType)
+    const candidate = {
+      lender: toText(fields.lender) ?? defaults.lender,
+      product: toText(fields.product) ?? (termYears && rateType ? `${termYears}-year ${rateType}` : undefined),
+      country: (toText(fields.country)?.toUpperCase() ?? defaults.country),
+      region: toText(fields.region),
+      termYears,
+      rateType,
+      rate: toPercent(fields.rate),
+      apr: toPercent(fields.apr),
+      insurance: toText(fields.insurance)?.toLowerCase(),
+      minLtv: toPercent(fields.minLtv),
+      maxLtv: toPercent(fields.maxLtv),
+      minCreditScore: toNumber(fields.minCreditScore),
+      features: toList(fields.features),
+      contactInfo: fields.phone || fields.email || fields.website
+        ? {
+            phone: toText(fields.phone) ?? '',
+            email: toText(fields.email) ?? '',
+            website: toText(fields.website) ?? '',
+          }
+        : undefined,
+    }
+
+    const result = LenderRateRowSchema.safeParse(candidate)
+    if (!result.success) {
+      rejected.push({
+        row: index + 1,
+        reason: result.error.errors.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`).join('; '),
+      })
+      return
+    }
+
+    const key = rateRowKey(result.data)
+    const firstRow = seen.get(key)
+    if (firstRow !== undefined) {
+      rejected.push({ row: index + 1, reason: `Duplicate of row ${firstRow}` })
+      return
+    }
+
+    seen.set(key, index + 1)
+    rows.push(result.data)
+  })
+
+  return { rows, rejected }
+}
+
+/**
+ * Identity of a rate within a sheet: the product and the borrower it applies to
+ */
+export function rateRowKey(row: LenderRateRow): string {
+  return [
+    row.lender,
+    row.product,
+    row.country,
+    row.region ?? '',
+    row.termYears,
+    row.rateType,
+    row.insurance ?? '',
+    row.minLtv ?? '',
+    row.maxLtv ?? '',
+    row.minCreditScore ?? '',
+  ].join('|').toLowerCase()
+}
+
+/**
+ * Fingerprint of the priced content of a rate, used to tell unchanged rows apart
+ */
+export function rateRowHash(row: LenderRateRow): string {
+  return sha256(JSON.stringify([
+    row.rate,
+    row.apr ?? null,
+    [...row.features].sort(),
+    row.contactInfo ?? null,
+  ]))
+}
+
+/**
+ * Fingerprint of a whole sheet, independent of row order
+ */
+export function rateSheetChecksum(rows: LenderRateRow[]): string {
+  return sha256(rows.map(row => `${rateRowKey(row)}#${rateRowHash(row)}`).sort().join('\n'))
+}
+
+/**
+ * Compare an incoming sheet with the rates currently stored for its source. Rows with
+ * the same key and hash are unchanged and keep their stored record; rows with the same
+ * key but a new hash replace the stored one.
+ */
+export function diffRateSheet(current: StoredLenderRate[], incoming: LenderRateRow[]): RateSheetDiff {
+  const currentByKey = new Map(current.map(row => [row.rowKey, row]))
+  const diff: RateSheetDiff = { unchanged: [], changed: [], added: [], removed: [] }
+
+  for (const row of incoming) {
+    const key = rateRowKey(row)
+    const previous = currentByKey.get(key)
+
+    if (!previous) {
+      diff.added.push(row)
+    } else if (previous.rowHash === rateRowHash(row)) {
+      diff.unchanged.push(previous)
+    } else {
+      diff.changed.push({ previous, next: row })
+    }
+    currentByKey.delete(key)
+  }
+
+  diff.removed = Array.from(currentByKey.values())
+  return diff
+}
+
+function tableToRecords(table: string[][]): Array<Record<string, unknown>> {
+  const rows = table.filter(row => row.some(cell => cell.trim() !== ''))
+  if (rows.length === 0) return []
+
+  const [header, ...data] = rows
+  return data.map(row => {
+    const record: Record<string, unknown> = {}
+    header.forEach((column, index) => {
+      record[column] = row[index]?.trim() ?? ''
+    })
+    return record
+  })
+}
+
+function normalizeColumnName(name: string): string {
+  return name
+    .replace(/\(.*?\)/g, '')
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === undefined) return undefined
+  const text = String(value).trim()
+  return text === '' ? undefined : text
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined) return undefined
+  const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[%,\s]/g, ''))
+  return Number.isFinite(number) ? number : undefined
+}
+
+function toPercent(value: unknown): number | undefined {
+  const number = toNumber(value)
+  if (number === undefined) return undefined
+  // Decimal fractions such as 0.0545 are rates, not 0.05% loans
+  return number > 0 && number < 1 ? Math.round(number * 100 * 1e6) / 1e6 : number
+}
+
+function toTermYears(value: unknown): number | undefined {
+  const number = toNumber(value)
+  if (number === undefined) return undefined
+  return /month/i.test(String(value)) ? number / 12 : number
+}
+
+function toRateType(value: unknown): 'fixed' | 'variable' | undefined {
+  const text = toText(value)?.toLowerCase()
+  if (!text) return undefined
+  if (text.startsWith('fix')) return 'fixed'
+  if (['variable', 'var', 'adjustable', 'arm', 'floating'].some(type => text.startsWith(type))) return 'variable'
+  return undefined
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean)
+  const text = toText(value)
+  return text ? text.split(/[;|]/).map(item => item.trim()).filter(Boolean) : []
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
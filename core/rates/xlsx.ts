@@ -0,0 +1,153 @@
+import { inflateRawSync } from 'zlib'
+
+// Zip record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Read the cells of the first worksheet in an XLSX workbook as rows of strings.
+ *
+ * An XLSX file is a zip archive of XML parts. Only the parts a rate sheet needs are
+ * read: the shared string table and the first worksheet. Formulas are read as their
+ * cached values, and gaps between cells are filled with empty strings so columns
+ * stay aligned with the header row.
+ */
+export function readXlsxRows(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer)
+
+  const sharedStrings: string[] = []
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml')
+  if (sharedStringsXml) {
+    for (const match of findAll(/<si>([\s\S]*?)<\/si>/g, sharedStringsXml)) {
+      sharedStrings.push(readText(match[1]))
+    }
+  }
+
+  const sheetName = Array.from(entries.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => sheetNumber(a) - sheetNumber(b))[0]
+  if (!sheetName) {
+    throw new Error('Workbook has no worksheets')
+  }
+
+  const rows: string[][] = []
+  for (const rowMatch of findAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g, entries.get(sheetName)!)) {
+    const row: string[] = []
+    for (const cellMatch of findAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g, rowMatch[1])) {
+      const attributes = cellMatch[1]
+      const body = cellMatch[2] || ''
+      const reference = /\br="([A-Z]+)\d+"/.exec(attributes)
+      const column = reference ? columnIndex(reference[1]) : row.length
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1]
+      const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1]
+
+      let text = ''
+      if (type === 's' && value !== undefined) {
+        text = sharedStrings[Number(value)] ?? ''
+      } else if (type === 'inlineStr') {
+        text = readText(body)
+      } else if (value !== undefined) {
+        text = decodeXml(value)
+      }
+
+      while (row.length < column) row.push('')
+      row[column] = text
+    }
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function readZipEntries(buffer: Buffer): Map<string, string> {
+  // The end of central directory record sits in the last 64KB (max comment length)
+  let end = -1
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error('File is not a valid XLSX workbook')
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  const entries = new Map<string, string>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('File is not a valid XLSX workbook')
+    }
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (!name.endsWith('.xml') || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) continue
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const data = buffer.subarray(dataStart, dataStart + compressedSize)
+    if (method === 0) {
+      entries.set(name, data.toString('utf8'))
+    } else if (method === 8) {
+      entries.set(name, inflateRawSync(data).toString('utf8'))
+    }
+  }
+
+  return entries
+}
+
+// Concatenate the text runs of a shared or inline string, skipping phonetic hints
+function readText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+  let text = ''
+  for (const match of findAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g, withoutPhonetics)) {
+    text += decodeXml(match[1])
+  }
+  return text
+}
+
+function findAll(pattern: RegExp, text: string): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    matches.push(match)
+  }
+  pattern.lastIndex = 0
+  return matches
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+    return XML_ENTITIES[code] ?? entity
+  })
+}
+
+function columnIndex(letters: string): number {
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function sheetNumber(name: string): number {
+  return Number(/sheet(\d+)\.xml$/.exec(name)![1])
+}
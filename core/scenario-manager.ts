@@ -1,14 +1,26 @@
-import { ScenarioInput, ScenarioResult, ScenarioComparison, ScenarioSnapshot, WhatIfAnalysis } from './scenario-types'
+import { ScenarioInput, ScenarioResult, ScenarioComparison, ScenarioSnapshot, WhatIfAnalysis, PrepaymentPlan, RatePathSummary, RenewalPlan, RenewalSummary, RentVsBuyInput } from './scenario-types'
 import { AffordabilityAgent, ScenarioAnalysisAgent } from './openai'
 import { supabaseAdmin } from './supabase'
+import { ForecastingAgent } from './agents/forecasting-agent'
+import { OSFI_B20_RULES, CFPB_QM_RULES } from './mortgage/affordability-engine'
+import { buildAmortizationSchedule } from './mortgage/amortization'
+import { applyPrepaymentPlan } from './mortgage/prepayment'
+import { simulateRatePath } from './mortgage/rate-path'
+import { RateForecastPath, buildTermRates, simulateRenewals } from './mortgage/renewal'
+import { calculateClosingCosts } from './mortgage/closing-costs'
+import { calculateMortgageInsurance } from './mortgage/mortgage-insurance'
+import { calculateApr, closingCostFees } from './mortgage/apr'
+import { DEFAULT_APPRECIATION_RATE, analyzeRentVsBuy, annualizeMonthlyRate } from './mortgage/rent-vs-buy'
 
 export class ScenarioManager {
   private affordabilityAgent: AffordabilityAgent
   private scenarioAgent: ScenarioAnalysisAgent
+  private forecastingAgent: ForecastingAgent
 
   constructor() {
     this.affordabilityAgent = new AffordabilityAgent()
     this.scenarioAgent = new ScenarioAnalysisAgent()
+    this.forecastingAgent = new ForecastingAgent()
   }
 
   // Create a new scenario
@@ -30,52 +42,147 @@ export class ScenarioManager {
   // Calculate scenario results
   async calculateScenarioResult(scenario: ScenarioInput): Promise<ScenarioResult> {
     const { parameters } = scenario
+    const country = parameters.country || 'CA'
+    const paymentFrequency = parameters.paymentFrequency || 'monthly'
+    const amortizationYears = parameters.amortizationYears || parameters.termYears
     
     // Calculate affordability
     const affordability = await this.affordabilityAgent.calculateAffordability({
-      country: 'CA', // This should be determined from location
+      country,
       income: parameters.propertyPrice * 0.3, // Estimate from property price
       debts: 500, // This should come from user input
       downPayment: parameters.downPayment,
       propertyPrice: parameters.propertyPrice,
       interestRate: parameters.interestRate,
-      termYears: parameters.termYears,
+      termYears: amortizationYears,
       location: parameters.location,
       taxes: parameters.taxes,
       insurance: parameters.insurance,
       hoa: parameters.hoa,
+      creditScore: parameters.creditScore,
+      loanProgram: parameters.loanProgram,
+      mortgageInsurer: parameters.mortgageInsurer,
+      firstTimeBuyer: parameters.firstTimeBuyer,
+    })
+
+    // Calculate amortization schedule using the country's compounding convention.
+    // Adjustable rate paths are simulated month by month and take precedence; a term
+    // shorter than the amortization is modelled as a series of renewals.
+    // Capitalized insurance premiums are added to the loan.
+    const mortgageInsurance = affordability.mortgageInsurance || calculateMortgageInsurance({
+      country,
+      propertyPrice: parameters.propertyPrice,
+      downPayment: parameters.downPayment,
+      amortizationYears,
+      interestRate: parameters.interestRate,
+      creditScore: parameters.creditScore,
+      loanProgram: parameters.loanProgram,
+      provider: parameters.mortgageInsurer,
+      firstTimeBuyer: parameters.firstTimeBuyer,
+    })
+    const principal = mortgageInsurance.totalLoanAmount
+    const amortizationOptions = { country, rateType: parameters.rateType, frequency: paymentFrequency }
+    const warnings: string[] = []
+    const ratePathResult = scenario.ratePath && parameters.rateType !== 'fixed'
+      ? simulateRatePath(principal, parameters.interestRate, amortizationYears, scenario.ratePath, country)
+      : undefined
+    const prepaymentAnalysis = scenario.prepaymentPlan && !ratePathResult
+      ? applyPrepaymentPlan(principal, parameters.interestRate, amortizationYears, scenario.prepaymentPlan, amortizationOptions)
+      : undefined
+    const renewalLifecycle = !ratePathResult && !prepaymentAnalysis && parameters.termYears < amortizationYears
+      ? await this.simulateRenewalLifecycle(parameters, principal, amortizationYears, scenario.renewalPlan, warnings)
+      : undefined
+    const schedule = prepaymentAnalysis?.schedule ||
+      buildAmortizationSchedule(principal, parameters.interestRate, amortizationYears, amortizationOptions)
+    const amortizationSchedule = ratePathResult?.periods || renewalLifecycle?.periods || schedule.periods
+
+    // One-time costs due on closing, including land transfer taxes
+    const closingCosts = calculateClosingCosts({
+      country,
+      location: parameters.location,
+      propertyPrice: parameters.propertyPrice,
+      downPayment: parameters.downPayment,
+      loanAmount: mortgageInsurance.baseLoanAmount,
+      firstTimeBuyer: parameters.firstTimeBuyer,
+      mortgageInsurancePremium: mortgageInsurance.upfrontPremium,
     })
 
-    // Calculate amortization schedule
-    const amortizationSchedule = this.calculateAmortizationSchedule(
-      parameters.propertyPrice - parameters.downPayment,
-      parameters.interestRate,
-      parameters.termYears
+    // Monthly PMI/MIP paid until it cancels or the loan is repaid
+    const insurancePremiumMonths = Math.min(
+      mortgageInsurance.premiumDurationMonths ?? amortizationSchedule[amortizationSchedule.length - 1].month,
+      amortizationSchedule[amortizationSchedule.length - 1].month
     )
+    const totalMonthlyPremiums = mortgageInsurance.monthlyPremium * insurancePremiumMonths
+
+    // APR over the contract term, with the insurance premium and closing costs as fee inputs
+    const aprDisclosure = mortgageInsurance.baseLoanAmount > 0 ? calculateApr({
+      country,
+      loanAmount: mortgageInsurance.baseLoanAmount,
+      noteRate: parameters.interestRate,
+      amortizationYears,
+      termYears: parameters.termYears,
+      rateType: parameters.rateType,
+      fees: [
+        {
+          type: 'mortgage_insurance',
+          label: 'Mortgage insurance premium',
+          amount: mortgageInsurance.upfrontPremium,
+          financed: mortgageInsurance.capitalized,
+        },
+        ...closingCostFees(closingCosts.items),
+      ],
+      monthlyMortgageInsurance: mortgageInsurance.monthlyPremium,
+      mortgageInsuranceMonths: mortgageInsurance.premiumDurationMonths,
+    }) : undefined
 
     // Calculate risk factors
-    const riskFactors = this.assessRiskFactors(parameters, affordability)
+    const riskFactors = this.assessRiskFactors(parameters, affordability, ratePathResult?.summary, renewalLifecycle?.summary)
 
     // Check compliance
     const compliance = this.checkCompliance(parameters, affordability)
+    compliance.warnings.push(...warnings)
+    prepaymentAnalysis?.summary.violations.forEach(violation => {
+      compliance.warnings.push(violation.description)
+    })
+    if (ratePathResult && scenario.prepaymentPlan) {
+      compliance.warnings.push('Prepayment plan is not applied to adjustable rate path simulations')
+    }
+    if (scenario.renewalPlan && !renewalLifecycle) {
+      compliance.warnings.push('Renewal plan is not applied when a rate path or prepayment plan is modelled')
+    }
 
-    return {
+    const result: ScenarioResult = {
       scenarioId: scenario.id!,
-      monthlyPayment: affordability.monthlyPayment,
+      monthlyPayment: ratePathResult?.summary.initialPayment ?? schedule.monthlyEquivalentPayment,
+      paymentFrequency: ratePathResult ? 'monthly' : paymentFrequency,
+      periodicPayment: ratePathResult?.summary.initialPayment ?? schedule.payment,
       totalInterest: amortizationSchedule[amortizationSchedule.length - 1].cumulativeInterest,
-      totalCost: parameters.propertyPrice + amortizationSchedule[amortizationSchedule.length - 1].cumulativeInterest,
+      totalCost: parameters.propertyPrice + amortizationSchedule[amortizationSchedule.length - 1].cumulativeInterest +
+        closingCosts.totalClosingCosts + mortgageInsurance.upfrontPremium + totalMonthlyPremiums,
       principalPaid: amortizationSchedule[amortizationSchedule.length - 1].cumulativePrincipal,
       interestPaid: amortizationSchedule[amortizationSchedule.length - 1].cumulativeInterest,
-      remainingBalance: 0,
+      remainingBalance: renewalLifecycle?.summary.terms[0].closingBalance ?? 0,
       breakEvenPoint: this.calculateBreakEvenPoint(amortizationSchedule),
       gdsRatio: affordability.gdsRatio,
       tdsRatio: affordability.tdsRatio,
       dtiRatio: affordability.dtiRatio,
       qualificationResult: affordability.qualificationResult,
       amortizationSchedule,
+      prepayment: prepaymentAnalysis?.summary,
+      ratePath: ratePathResult?.summary,
+      renewals: renewalLifecycle?.summary,
+      closingCosts,
+      mortgageInsurance,
+      aprDisclosure,
       riskFactors,
       compliance,
     }
+
+    if (scenario.scenarioType === 'rent_vs_buy' && scenario.rentVsBuy) {
+      result.rentVsBuy = await this.analyzeRentVsBuy(scenario, result, scenario.rentVsBuy)
+    }
+
+    return result
   }
 
   // Compare multiple scenarios
@@ -164,6 +271,30 @@ export class ScenarioManager {
     }
   }
 
+  // Prepayment analysis: the scenario re-run with a prepayment plan, including interest
+  // saved, months shaved off and any lender privilege violations
+  async performPrepaymentAnalysis(
+    baseScenario: ScenarioInput,
+    plan: PrepaymentPlan
+  ): Promise<ScenarioResult> {
+    return this.calculateScenarioResult({
+      ...baseScenario,
+      prepaymentPlan: plan,
+    })
+  }
+
+  // Rent vs buy: the scenario's purchase compared with renting and investing the difference
+  async performRentVsBuyAnalysis(
+    baseScenario: ScenarioInput,
+    assumptions: RentVsBuyInput
+  ): Promise<ScenarioResult> {
+    return this.calculateScenarioResult({
+      ...baseScenario,
+      scenarioType: 'rent_vs_buy',
+      rentVsBuy: assumptions,
+    })
+  }
+
   // Create scenario snapshot
   async createSnapshot(
     comparison: ScenarioComparison,
@@ -186,56 +317,94 @@ export class ScenarioManager {
   }
 
   // Private helper methods
-  private calculateAmortizationSchedule(
+  private async analyzeRentVsBuy(scenario: ScenarioInput, result: ScenarioResult, assumptions: RentVsBuyInput) {
+    const { parameters } = scenario
+    let appreciationSource = assumptions.appreciationSource
+    let appreciationRate = assumptions.appreciationRate ?? DEFAULT_APPRECIATION_RATE
+
+    if (appreciationSource === 'forecast') {
+      try {
+        const forecasts = await this.forecastingAgent.forecastPropertyAppreciation(parameters.location, 12)
+        appreciationRate = annualizeMonthlyRate(forecasts[0].appreciationRate)
+      } catch (error) {
+        console.error('Error forecasting property appreciation:', error)
+        appreciationSource = 'assumed'
+        result.compliance.warnings.push(`Appreciation forecast unavailable; assumed ${appreciationRate}% per year`)
+      }
+    }
+
+    const schedule = result.amortizationSchedule
+    const mortgageInsurance = result.mortgageInsurance
+
+    return analyzeRentVsBuy({
+      propertyPrice: parameters.propertyPrice,
+      downPayment: parameters.downPayment,
+      closingCosts: result.closingCosts?.totalClosingCosts || 0,
+      monthlyCarryingCosts: (parameters.taxes || 0) + (parameters.insurance || 0) + (parameters.hoa || 0),
+      monthlyMortgageInsurance: mortgageInsurance?.monthlyPremium || 0,
+      mortgageInsuranceMonths: mortgageInsurance?.premiumDurationMonths ?? schedule[schedule.length - 1]?.month ?? 0,
+      schedule,
+    }, { ...assumptions, appreciationSource }, appreciationRate)
+  }
+
+  private async simulateRenewalLifecycle(
+    parameters: ScenarioInput['parameters'],
     principal: number,
-    annualRate: number,
-    termYears: number
+    amortizationYears: number,
+    plan: RenewalPlan | undefined,
+    warnings: string[]
   ) {
-    const monthlyRate = annualRate / 100 / 12
-    const numPayments = termYears * 12
-    const monthlyPayment = principal * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / 
-                          (Math.pow(1 + monthlyRate, numPayments) - 1)
-
-    const schedule = []
-    let balance = principal
-    let cumulativeInterest = 0
-    let cumulativePrincipal = 0
-
-    for (let month = 1; month <= numPayments; month++) {
-      const interestPayment = balance * monthlyRate
-      const principalPayment = monthlyPayment - interestPayment
-      balance -= principalPayment
-      cumulativeInterest += interestPayment
-      cumulativePrincipal += principalPayment
-
-      schedule.push({
-        month,
-        principal: principalPayment,
-        interest: interestPayment,
-        balance: Math.max(0, balance),
-        cumulativeInterest,
-        cumulativePrincipal,
-      })
+    const country = parameters.country || 'CA'
+    let forecast: RateForecastPath | undefined
+
+    if (plan?.rateSource === 'forecast') {
+      // Forecast far enough out to cover the last renewal
+      const terms = buildTermRates(parameters.interestRate, parameters.termYears, amortizationYears, plan)
+      const lastRenewalMonth = terms.slice(0, -1).reduce((months, term) => months + term.termYears * 12, 0) + 1
+      forecast = await this.getRenewalRateForecast(country, Math.ceil(lastRenewalMonth))
+      if (!forecast) {
+        warnings.push('Rate forecast unavailable; renewals use assumed rates')
+      }
     }
 
-    return schedule
+    const terms = buildTermRates(parameters.interestRate, parameters.termYears, amortizationYears, plan, forecast)
+    return simulateRenewals(principal, amortizationYears, terms, {
+      country,
+      rateType: parameters.rateType,
+      frequency: parameters.paymentFrequency || 'monthly',
+    })
+  }
+
+  private async getRenewalRateForecast(region: string, months: number): Promise<RateForecastPath | undefined> {
+    try {
+      const forecasts = await this.forecastingAgent.forecastMortgageRates(region, months)
+      if (forecasts.length === 0) return undefined
+
+      return {
+        currentRate: forecasts[0].currentRate,
+        path: forecasts.map((forecast, index) => ({ month: index + 1, rate: forecast.predictedValue })),
+      }
+    } catch (error) {
+      console.error('Error forecasting renewal rates:', error)
+      return undefined
+    }
   }
 
   private calculateBreakEvenPoint(schedule: any[]): number {
     // Find when cumulative principal exceeds cumulative interest
     for (let i = 0; i < schedule.length; i++) {
       if (schedule[i].cumulativePrincipal > schedule[i].cumulativeInterest) {
-        return i
+        return schedule[i].month
       }
     }
-    return schedule.length
+    return schedule[schedule.length - 1]?.month || 0
   }
 
-  private assessRiskFactors(parameters: any, affordability: any) {
+  private assessRiskFactors(parameters: any, affordability: any, ratePath?: RatePathSummary, renewals?: RenewalSummary) {
     const risks = []
 
-    // Rate risk for variable rates
-    if (parameters.rateType === 'variable') {
+    // Rate risk for variable and adjustable rates
+    if (parameters.rateType === 'variable' || parameters.rateType === 'arm') {
       risks.push({
         type: 'rate_risk' as const,
         severity: 'medium' as const,
@@ -244,15 +413,20 @@ export class ScenarioManager {
       })
     }
 
-    // Payment shock risk
-    if (affordability.gdsRatio > 0.3) {
+    // Payment shock risk, computed from the simulated rate path
+    if (ratePath) {
+      risks.push(...this.assessRatePathShock(ratePath))
+    }
+
+    // Payment shock at each renewal
+    renewals?.terms.filter(term => term.paymentChangePercent > 0.5).forEach(term => {
       risks.push({
         type: 'payment_shock' as const,
-        severity: 'high' as const,
-        description: 'High debt service ratio increases payment shock risk',
-        mitigation: 'Consider increasing down payment or reducing property price',
+        severity: this.getPaymentShockSeverity(term.paymentChangePercent),
+        description: `Renewal ${term.termNumber - 1} in month ${term.startMonth} at ${term.rate.toFixed(2)}% (${term.rateSource}) raises the payment ${term.paymentChangePercent.toFixed(1)}% on a balance of ${term.openingBalance.toFixed(2)}`,
+        mitigation: 'Prepay before renewal or consider a longer term to lock the rate',
       })
-    }
+    })
 
     // Qualification risk
     if (!affordability.qualificationResult) {
@@ -267,12 +441,54 @@ export class ScenarioManager {
     return risks
   }
 
+  private getPaymentShockSeverity(changePercent: number): 'low' | 'medium' | 'high' {
+    if (changePercent >= 25) return 'high'
+    if (changePercent >= 10) return 'medium'
+    return 'low'
+  }
+
+  private assessRatePathShock(ratePath: RatePathSummary) {
+    const risks = []
+    const peakIncrease = (ratePath.maxPayment - ratePath.initialPayment) / ratePath.initialPayment * 100
+    const peakReset = ratePath.resets.find(reset => reset.newPayment === ratePath.maxPayment)
+
+    if (peakIncrease > 0.5) {
+      risks.push({
+        type: 'payment_shock' as const,
+        severity: this.getPaymentShockSeverity(peakIncrease),
+        description: `Payment rises up to ${peakIncrease.toFixed(1)}% above the initial payment${peakReset ? ` (month ${peakReset.month}, rate ${peakReset.newRate.toFixed(2)}%)` : ''}`,
+        mitigation: 'Budget for the peak payment or consider a fixed rate',
+      })
+    }
+
+    if (ratePath.triggerRateMonth !== undefined) {
+      risks.push({
+        type: 'payment_shock' as const,
+        severity: 'high' as const,
+        description: `Rates reach the ${ratePath.triggerRate?.toFixed(2)}% trigger rate in month ${ratePath.triggerRateMonth}; payments no longer cover interest and the balance grows for ${ratePath.negativeAmortizationMonths} months`,
+        mitigation: 'Make lump-sum prepayments or increase the fixed payment',
+      })
+    }
+
+    if (ratePath.triggerPointMonth !== undefined) {
+      const reset = ratePath.resets.find(r => r.reason === 'trigger_point')
+      risks.push({
+        type: 'payment_shock' as const,
+        severity: 'high' as const,
+        description: `Balance passes the trigger point in month ${ratePath.triggerPointMonth}${reset ? `, forcing the payment up ${reset.paymentChangePercent.toFixed(1)}%` : ''}`,
+        mitigation: 'Pay down the balance before it reaches the trigger point',
+      })
+    }
+
+    return risks
+  }
+
   private checkCompliance(parameters: any, affordability: any) {
     return {
-      osfiCompliant: affordability.gdsRatio <= 0.32 && affordability.tdsRatio <= 0.44,
-      cfpbCompliant: affordability.dtiRatio <= 0.43,
+      osfiCompliant: affordability.gdsRatio <= OSFI_B20_RULES.GDS_LIMIT && affordability.tdsRatio <= OSFI_B20_RULES.TDS_LIMIT,
+      cfpbCompliant: affordability.dtiRatio <= CFPB_QM_RULES.DTI_LIMIT,
       stressTestPassed: affordability.qualificationResult,
-      warnings: affordability.disclaimers || [],
+      warnings: [...(affordability.disclaimers || [])],
     }
   }
 
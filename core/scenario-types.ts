@@ -1,5 +1,326 @@
 import { z } from 'zod'
 
+export const PaymentFrequencySchema = z.enum([
+  'monthly',
+  'semi_monthly',
+  'bi_weekly',
+  'accelerated_bi_weekly',
+  'weekly',
+  'accelerated_weekly',
+])
+
+// Prepayment plan: lump sums on each anniversary, extra payments every period and
+// one-time payment increases, optionally limited by the lender's privileges
+export const PrepaymentPlanSchema = z.object({
+  annualLumpSum: z.object({
+    amount: z.number(),
+    startYear: z.number().default(1),
+    endYear: z.number().optional(),
+  }).optional(),
+  recurringExtraPayment: z.object({
+    amount: z.number(),
+    startPeriod: z.number().default(1),
+  }).optional(),
+  paymentIncreases: z.array(z.object({
+    year: z.number(),
+    percentage: z.number(),
+  })).default([]),
+  privileges: z.object({
+    annualPrepaymentPercent: z.number().optional(),
+    annualPaymentIncreasePercent: z.number().optional(),
+  }).optional(),
+})
+
+export const PrepaymentViolationSchema = z.object({
+  type: z.enum(['annual_prepayment_limit', 'payment_increase_limit']),
+  year: z.number(),
+  requested: z.number(),
+  allowed: z.number(),
+  description: z.string(),
+})
+
+export const PrepaymentSummarySchema = z.object({
+  totalPrepaid: z.number(),
+  interestSaved: z.number(),
+  monthsSaved: z.number(),
+  baselineTotalInterest: z.number(),
+  baselinePayoffMonth: z.number(),
+  payoffMonth: z.number(),
+  violations: z.array(PrepaymentViolationSchema),
+})
+
+// Adjustable rate path: index values over time plus a margin. US ARMs hold the start
+// rate for the initial fixed period and then reset subject to caps; Canadian variable
+// mortgages follow the index every month with either adjustable or fixed payments.
+export const RatePathSchema = z.object({
+  indexPath: z.array(z.object({
+    month: z.number(),
+    rate: z.number(),
+  })),
+  margin: z.number(),
+  armProduct: z.enum(['5/1', '7/1', '10/1']).optional(),
+  caps: z.object({
+    initial: z.number(),
+    periodic: z.number(),
+    lifetime: z.number(),
+  }).optional(),
+  floor: z.number().optional(),
+  paymentType: z.enum(['adjustable', 'fixed']).default('adjustable'),
+  triggerPointPercent: z.number().default(105),
+})
+
+export const RateResetSchema = z.object({
+  month: z.number(),
+  previousRate: z.number(),
+  newRate: z.number(),
+  previousPayment: z.number(),
+  newPayment: z.number(),
+  paymentChangePercent: z.number(),
+  reason: z.enum(['index_change', 'scheduled_reset', 'trigger_point']),
+})
+
+export const RatePathSummarySchema = z.object({
+  initialPayment: z.number(),
+  maxPayment: z.number(),
+  maxRate: z.number(),
+  resets: z.array(RateResetSchema),
+  triggerRate: z.number().optional(),
+  triggerRateMonth: z.number().optional(),
+  triggerPointMonth: z.number().optional(),
+  negativeAmortizationMonths: z.number(),
+  maxBalance: z.number(),
+})
+
+// Term renewals: a Canadian term (e.g. 5 years) sits inside a longer amortization and
+// is renewed at the then-current rate. Rates come from assumptions or the rate forecast.
+export const RenewalPlanSchema = z.object({
+  renewalTermYears: z.number().optional(),
+  rateSource: z.enum(['assumed', 'forecast']).default('assumed'),
+  assumedRates: z.array(z.number()).default([]),
+  forecastSpread: z.number().optional(),
+})
+
+export const RenewalTermSchema = z.object({
+  termNumber: z.number(),
+  startMonth: z.number(),
+  endMonth: z.number(),
+  rate: z.number(),
+  rateSource: z.enum(['contract', 'assumed', 'forecast']),
+  payment: z.number(),
+  openingBalance: z.number(),
+  closingBalance: z.number(),
+  interestPaid: z.number(),
+  principalPaid: z.number(),
+  paymentChangePercent: z.number(),
+})
+
+export const RenewalSummarySchema = z.object({
+  termYears: z.number(),
+  amortizationYears: z.number(),
+  terms: z.array(RenewalTermSchema),
+  maxPaymentChangePercent: z.number(),
+})
+
+// Closing costs: itemized one-time costs due on closing plus the cash needed to close
+export const ClosingCostItemSchema = z.object({
+  code: z.string(),
+  label: z.string(),
+  category: z.enum(['transfer_tax', 'rebate', 'recording', 'title_insurance', 'legal', 'insurance_tax', 'other']),
+  amount: z.number(),
+  paidBy: z.enum(['buyer', 'seller']).default('buyer'),
+  notes: z.string().optional(),
+})
+
+export const ClosingCostBreakdownSchema = z.object({
+  jurisdiction: z.object({
+    country: z.enum(['CA', 'US']),
+    region: z.string().optional(),
+    municipality: z.string().optional(),
+  }),
+  items: z.array(ClosingCostItemSchema),
+  totalClosingCosts: z.number(),
+  downPayment: z.number(),
+  cashToClose: z.number(),
+  tablesVersion: z.string(),
+  warnings: z.array(z.string()),
+})
+
+// Mortgage default insurance (Canada) and mortgage insurance (US PMI / FHA MIP)
+export const MortgageInsuranceQuoteSchema = z.object({
+  program: z.enum(['ca_default_insurance', 'conventional_pmi', 'fha_mip', 'none']),
+  provider: z.string().optional(),
+  required: z.boolean(),
+  eligible: z.boolean(),
+  ltv: z.number(),
+  minimumDownPayment: z.number(),
+  baseLoanAmount: z.number(),
+  upfrontPremiumRate: z.number(),
+  upfrontPremium: z.number(),
+  capitalized: z.boolean(),
+  totalLoanAmount: z.number(),
+  annualPremiumRate: z.number(),
+  monthlyPremium: z.number(),
+  premiumDurationMonths: z.number().optional(),
+  notes: z.array(z.string()),
+})
+
+// Maximum purchase price solver: the limit each qualification rule puts on the price,
+// which one binds, and what it would take to reach the next price band
+export const MaxPriceConstraintSchema = z.enum(['gds', 'tds', 'dti', 'min_down_payment', 'insured_cap'])
+
+export const MaxPriceLimitSchema = z.object({
+  constraint: MaxPriceConstraintSchema,
+  label: z.string(),
+  maxPrice: z.number(),
+  binding: z.boolean(),
+})
+
+export const MaxPriceSolutionSchema = z.object({
+  maxPurchasePrice: z.number(),
+  maxLoanAmount: z.number(),
+  bindingConstraint: MaxPriceConstraintSchema,
+  limits: z.array(MaxPriceLimitSchema),
+  explanation: z.string(),
+  nextBand: z.object({
+    targetPrice: z.number(),
+    // Undefined when more income (or down payment) alone cannot reach the target
+    additionalIncome: z.number().optional(),
+    additionalDownPayment: z.number().optional(),
+  }).optional(),
+})
+
+// Loan-level pricing: the base sheet rate, the lender adjustments that apply to the
+// borrower, and an optional discount-point buy-down. Rate adjustments are percentage
+// points of rate; point adjustments are percent of the loan amount paid up front.
+export const PricingFactorSchema = z.enum([
+  'ltv',
+  'credit_score',
+  'occupancy',
+  'property_type',
+  'amortization',
+  'insurance',
+  'loan_amount',
+])
+
+export const PricingAdjustmentSchema = z.object({
+  ruleId: z.string(),
+  label: z.string(),
+  factor: PricingFactorSchema,
+  unit: z.enum(['rate', 'points']),
+  amount: z.number(),
+})
+
+export const BuyDownSchema = z.object({
+  points: z.number(),
+  cost: z.number(),
+  rateReduction: z.number(),
+  monthlySavings: z.number(),
+  // Undefined when the points never pay for themselves
+  breakEvenMonths: z.number().optional(),
+})
+
+export const LoanPricingSchema = z.object({
+  gridId: z.string(),
+  baseRate: z.number(),
+  adjustments: z.array(PricingAdjustmentSchema),
+  rateAdjustment: z.number(),
+  pointsAdjustment: z.number(),
+  finalRate: z.number(),
+  loanAmount: z.number(),
+  ltv: z.number(),
+  insurance: z.enum(['insured', 'insurable', 'uninsured']).optional(),
+  upfrontPoints: z.number(),
+  upfrontCost: z.number(),
+  monthlyPayment: z.number(),
+  buyDown: BuyDownSchema.optional(),
+  buyDownOptions: z.array(BuyDownSchema),
+})
+
+// APR disclosure: the annual percentage rate and the fees that went into it. US APRs use
+// the Regulation Z actuarial method; Canadian APRs follow the Cost of Borrowing rules.
+export const LoanFeeTypeSchema = z.enum([
+  'origination',
+  'discount_points',
+  'pricing_adjustment',
+  'broker',
+  'processing',
+  'underwriting',
+  'prepaid_interest',
+  'mortgage_insurance',
+  'appraisal',
+  'credit_report',
+  'inspection',
+  'survey',
+  'title_insurance',
+  'legal',
+  'registration',
+  'transfer_tax',
+  'other',
+])
+
+export const LoanFeeSchema = z.object({
+  type: LoanFeeTypeSchema,
+  label: z.string(),
+  amount: z.number(),
+  // Added to the loan rather than paid at closing
+  financed: z.boolean().optional(),
+  // Overrides the regulatory default for whether the fee is a finance charge
+  included: z.boolean().optional(),
+})
+
+export const AprDisclosureSchema = z.object({
+  method: z.enum(['reg_z_actuarial', 'cost_of_borrowing']),
+  apr: z.number(),
+  noteRate: z.number(),
+  loanAmount: z.number(),
+  amountFinanced: z.number(),
+  // Finance charge (US) or total cost of borrowing (CA) over the disclosure term
+  financeCharge: z.number(),
+  totalOfPayments: z.number(),
+  termMonths: z.number(),
+  monthlyMortgageInsurance: z.number().optional(),
+  mortgageInsuranceMonths: z.number().optional(),
+  includedFees: z.array(LoanFeeSchema),
+  excludedFees: z.array(LoanFeeSchema),
+})
+
+// Rent vs buy: net worth of buying compared with renting and investing the difference.
+// Rates are annual percents; appreciation can come from the property forecast.
+export const RentVsBuyInputSchema = z.object({
+  monthlyRent: z.number(),
+  rentInflation: z.number().default(3),
+  investmentReturn: z.number().default(5),
+  appreciationRate: z.number().optional(),
+  appreciationSource: z.enum(['assumed', 'forecast']).default('assumed'),
+  maintenanceRate: z.number().default(1),
+  sellingCostRate: z.number().default(5),
+  rentersInsurance: z.number().default(0),
+  horizonYears: z.number().default(30),
+})
+
+export const RentVsBuyYearSchema = z.object({
+  year: z.number(),
+  homeValue: z.number(),
+  mortgageBalance: z.number(),
+  ownerCashOutflow: z.number(),
+  renterCashOutflow: z.number(),
+  ownerPortfolio: z.number(),
+  renterPortfolio: z.number(),
+  buyNetWorth: z.number(),
+  rentNetWorth: z.number(),
+  difference: z.number(),
+})
+
+export const RentVsBuyResultSchema = z.object({
+  crossoverYear: z.number().optional(),
+  appreciationRate: z.number(),
+  appreciationSource: z.enum(['assumed', 'forecast']),
+  upfrontCost: z.number(),
+  years: z.array(RentVsBuyYearSchema),
+  finalBuyNetWorth: z.number(),
+  finalRentNetWorth: z.number(),
+})
+
 // Enhanced scenario types for interactive modeling
 export const ScenarioInputSchema = z.object({
   id: z.string().optional(),
@@ -10,13 +331,26 @@ export const ScenarioInputSchema = z.object({
     downPayment: z.number(),
     interestRate: z.number(),
     termYears: z.number(),
+    // When set, termYears is the contract term within this amortization
+    amortizationYears: z.number().optional(),
     rateType: z.enum(['fixed', 'variable', 'arm']),
     location: z.string(),
+    country: z.enum(['CA', 'US']).optional(),
+    paymentFrequency: PaymentFrequencySchema.optional(),
     taxes: z.number().optional(),
     insurance: z.number().optional(),
     hoa: z.number().optional(),
     pmi: z.number().optional(),
+    firstTimeBuyer: z.boolean().optional(),
+    creditScore: z.number().optional(),
+    loanProgram: z.enum(['conventional', 'fha']).optional(),
+    mortgageInsurer: z.enum(['cmhc', 'sagen', 'canada_guaranty']).optional(),
   }),
+  prepaymentPlan: PrepaymentPlanSchema.optional(),
+  ratePath: RatePathSchema.optional(),
+  renewalPlan: RenewalPlanSchema.optional(),
+  scenarioType: z.enum(['purchase', 'rent_vs_buy']).optional(),
+  rentVsBuy: RentVsBuyInputSchema.optional(),
   metadata: z.object({
     createdAt: z.string(),
     updatedAt: z.string(),
@@ -39,14 +373,28 @@ export const ScenarioResultSchema = z.object({
   tdsRatio: z.number(),
   dtiRatio: z.number(),
   qualificationResult: z.boolean(),
+  paymentFrequency: PaymentFrequencySchema,
+  periodicPayment: z.number(),
   amortizationSchedule: z.array(z.object({
+    period: z.number(),
     month: z.number(),
+    payment: z.number(),
     principal: z.number(),
     interest: z.number(),
+    prepayment: z.number().optional(),
+    rate: z.number().optional(),
+    rateReset: z.boolean().optional(),
     balance: z.number(),
     cumulativeInterest: z.number(),
     cumulativePrincipal: z.number(),
   })),
+  prepayment: PrepaymentSummarySchema.optional(),
+  ratePath: RatePathSummarySchema.optional(),
+  renewals: RenewalSummarySchema.optional(),
+  closingCosts: ClosingCostBreakdownSchema.optional(),
+  mortgageInsurance: MortgageInsuranceQuoteSchema.optional(),
+  aprDisclosure: AprDisclosureSchema.optional(),
+  rentVsBuy: RentVsBuyResultSchema.optional(),
   riskFactors: z.array(z.object({
     type: z.enum(['rate_risk', 'payment_shock', 'qualification_risk', 'market_risk']),
     severity: z.enum(['low', 'medium', 'high']),
@@ -111,6 +459,31 @@ export type ScenarioInput = z.infer<typeof ScenarioInputSchema>
 export type ScenarioResult = z.infer<typeof ScenarioResultSchema>
 export type ScenarioComparison = z.infer<typeof ScenarioComparisonSchema>
 export type ScenarioSnapshot = z.infer<typeof ScenarioSnapshotSchema>
+export type PrepaymentPlan = z.infer<typeof PrepaymentPlanSchema>
+export type PrepaymentViolation = z.infer<typeof PrepaymentViolationSchema>
+export type PrepaymentSummary = z.infer<typeof PrepaymentSummarySchema>
+export type RatePath = z.infer<typeof RatePathSchema>
+export type RateReset = z.infer<typeof RateResetSchema>
+export type RatePathSummary = z.infer<typeof RatePathSummarySchema>
+export type RenewalPlan = z.infer<typeof RenewalPlanSchema>
+export type RenewalTerm = z.infer<typeof RenewalTermSchema>
+export type RenewalSummary = z.infer<typeof RenewalSummarySchema>
+export type ClosingCostItem = z.infer<typeof ClosingCostItemSchema>
+export type ClosingCostBreakdown = z.infer<typeof ClosingCostBreakdownSchema>
+export type MortgageInsuranceQuote = z.infer<typeof MortgageInsuranceQuoteSchema>
+export type MaxPriceConstraint = z.infer<typeof MaxPriceConstraintSchema>
+export type MaxPriceLimit = z.infer<typeof MaxPriceLimitSchema>
+export type MaxPriceSolution = z.infer<typeof MaxPriceSolutionSchema>
+export type PricingFactor = z.infer<typeof PricingFactorSchema>
+export type PricingAdjustment = z.infer<typeof PricingAdjustmentSchema>
+export type BuyDown = z.infer<typeof BuyDownSchema>
+export type LoanPricing = z.infer<typeof LoanPricingSchema>
+export type LoanFeeType = z.infer<typeof LoanFeeTypeSchema>
+export type LoanFee = z.infer<typeof LoanFeeSchema>
+export type AprDisclosure = z.infer<typeof AprDisclosureSchema>
+export type RentVsBuyInput = z.infer<typeof RentVsBuyInputSchema>
+export type RentVsBuyYear = z.infer<typeof RentVsBuyYearSchema>
+export type RentVsBuyResult = z.infer<typeof RentVsBuyResultSchema>
 
 // What-if analysis types
 export const WhatIfAnalysisSchema = z.object({
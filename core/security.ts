@@ -3,6 +3,7 @@ import { createHash, createHmac } from 'crypto'
 import { z } from 'zod'
 import { supabaseAdmin } from './supabase'
 import { errorTracking } from './monitoring'
+import { RateLockPolicySchema } from './rates/rate-lock'
 
 // Rate limiting configuration
 const RATE_LIMITS = {
@@ -25,6 +26,11 @@ export const AffordabilityInputSchema = z.object({
   taxes: z.number().min(0).max(10000).optional(),
   insurance: z.number().min(0).max(10000).optional(),
   hoa: z.number().min(0).max(10000).optional(),
+  heating: z.number().min(0).max(10000).optional(),
+  firstTimeBuyer: z.boolean().optional(),
+  creditScore: z.number().min(300).max(850).optional(),
+  loanProgram: z.enum(['conventional', 'fha']).optional(),
+  mortgageInsurer: z.enum(['cmhc', 'sagen', 'canada_guaranty']).optional(),
 })
 
 export const RateInputSchema = z.object({
@@ -35,6 +41,47 @@ export const RateInputSchema = z.object({
   downPayment: z.number().min(0).max(10000000),
 })
 
+// Rate request with the borrower details lenders price on
+export const RatePricingInputSchema = RateInputSchema.extend({
+  creditScore: z.number().min(300).max(900).optional(),
+  occupancy: z.enum(['primary', 'second_home', 'investment']).optional(),
+  propertyType: z.enum(['single_family', 'condo', 'multi_unit', 'manufactured']).optional(),
+  discountPoints: z.number().min(0).max(4).optional(),
+})
+
+export const RefinanceInputSchema = z.object({
+  country: z.enum(['CA', 'US']),
+  balance: z.number().min(1000).max(50000000),
+  currentRate: z.number().min(0).max(50),
+  remainingAmortizationYears: z.number().min(0.5).max(40),
+  remainingTermMonths: z.number().int().min(0).max(480).optional(),
+  rateType: z.enum(['fixed', 'variable', 'arm']).optional(),
+  lenderType: z.enum(['big_bank', 'monoline']).optional(),
+  originalPostedRate: z.number().min(0).max(50).optional(),
+  comparisonRate: z.number().min(0).max(50).optional(),
+  newRate: z.number().min(0).max(50),
+  newTermYears: z.number().min(0.5).max(10).optional(),
+  newAmortizationYears: z.number().min(1).max(40).optional(),
+  closingCosts: z.number().min(0).max(1000000).optional(),
+  financeCosts: z.boolean().optional(),
+  prepaymentPenalty: z.number().min(0).max(1000000).optional(),
+  blendFee: z.number().min(0).max(100000).optional(),
+  horizonMonths: z.number().int().min(1).max(480).optional(),
+})
+
+export const RateSheetUploadSchema = z.object({
+  sourceId: z.string().min(1).max(100),
+  format: z.enum(['csv', 'xlsx', 'json']),
+  // Raw text for CSV and JSON, base64 for XLSX
+  content: z.string().min(1).max(5000000),
+  country: z.enum(['CA', 'US']).optional(),
+  lender: z.string().min(1).max(200).optional(),
+  effectiveAt: z.string().datetime().optional(),
+  expiresAt: z.string().datetime().optional(),
+  // The lender's rate lock terms, when they differ from the country defaults
+  lockPolicy: RateLockPolicySchema.optional(),
+})
+
 export const LeadInputSchema = z.object({
   name: z.string().min(2).max(100),
   email: z.string().email().max(255),
@@ -44,8 +91,15 @@ export const LeadInputSchema = z.object({
   income: z.number().min(0).max(10000000),
   employmentType: z.enum(['salaried', 'self-employed', 'contract', 'unemployed']),
   creditScore: z.number().min(300).max(850),
+  monthlyDebts: z.number().min(0).max(1000000).optional(),
   preferredLender: z.string().optional(),
   additionalInfo: z.string().optional(),
+  propertyLocation: z.string().max(200).optional(),
+  address: z.string().max(300).optional(),
+  language: z.string().min(2).max(8).optional(),
+  newToCountry: z.boolean().optional(),
+  investor: z.boolean().optional(),
+  firstTimeBuyer: z.boolean().optional(),
   consentToShare: z.boolean(),
   consentToContact: z.boolean(),
 })
@@ -242,6 +296,20 @@ export async function withAuth(handler: (req: NextApiRequest, res: NextApiRespon
   }
 }
 
+// User behind the bearer token, if any, for routes that also serve anonymous visitors
+export async function getAuthenticatedUserId(req: NextApiRequest): Promise<string | undefined> {
+  const authHeader = req.headers.authorization
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return undefined
+
+  try {
+    const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.substring(7))
+    return user?.id
+  } catch (error) {
+    console.warn('Auth token validation failed:', error)
+    return undefined
+  }
+}
+
 // Rate limiting middleware
 export function withRateLimit(endpoint: keyof typeof RATE_LIMITS) {
   return (handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>) => {
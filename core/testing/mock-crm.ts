@@ -0,0 +1,290 @@
+/**
+ * Mock CRM Server
+ * v1.3.0 - Local stand-ins for each CRM's API, for exercising lead export and inbound sync without a CRM sandbox
+ */
+
+import { MockLenderResponse, MockLenderRoute, MockLenderServer } from '../integrations/lenders/conformance/MockLenderServer'
+import type { CRMType } from '../integrations/crm/CRMInbound'
+
+// Records per batch of a Salesforce query
+const SALESFORCE_BATCH_SIZE = 2000
+
+export interface MockCRMRecord {
+  id: string
+  // Fields as the CRM stores them, e.g. { hs_lead_status: 'NEW' } in HubSpot
+  fields: Record<string, any>
+  updatedAt: Date
+}
+
+/**
+ * In-memory CRM of one type. Brokers' edits go through `edit`; the routes serve the
+ * endpoints CRMBridge exports to and reads change feeds from.
+ */
+export class MockCRM {
+  readonly records = new Map<string, MockCRMRecord>()
+  // Salesforce query results by locator, read back a batch at a time
+  private salesforceResults = new Map<string, MockCRMRecord[]>()
+  private salesforceQueries = 0
+
+  constructor(readonly type: CRMType) {}
+
+  /**
+   * HTTP server speaking this CRM's API
+   */
+  createServer(): MockLenderServer {
+    return new MockLenderServer(this.routes())
+  }
+
+  /**
+   * A broker's edit in the CRM. Dotted keys set nested fields, e.g. custom_fields.broker_notes.
+   */
+  edit(id: string, fields: Record<string, unknown>, at: Date = new Date()): MockCRMRecord {
+    const record = this.records.get(id)
+    if (!record) throw new Error(`Record ${id} not found`)
+
+    for (const [path, value] of Object.entries(fields)) {
+      const keys = path.split('.')
+      let target = record.fields
+      for (const key of keys.slice(0, -1)) target = target[key] = target[key] || {}
+      target[keys[keys.length - 1]] = value
+    }
+    record.updatedAt = at
+    return record
+  }
+
+  /**
+   * The webhook body this CRM sends after an edit to the given fields
+   */
+  webhookPayload(id: string, changedFields: string[] = []): unknown {
+    const record = this.records.get(id)
+    if (!record) throw new Error(`Record ${id} not found`)
+
+    switch (this.type) {
+      case 'hubspot':
+        return changedFields.map((propertyName, index) => ({
+          eventId: index + 1,
+          subscriptionType: 'contact.propertyChange',
+          objectId: Number(record.id),
+          propertyName,
+          propertyValue: record.fields[propertyName],
+          occurredAt: record.updatedAt.getTime(),
+        }))
+      case 'salesforce':
+        return { records: [this.toApiRecord(record)] }
+      case 'pipedrive':
+        return {
+          meta: { action: 'updated', object: 'person', id: Number(record.id), timestamp: Math.floor(record.updatedAt.getTime() / 1000) },
+          current: this.toApiRecord(record),
+          previous: {},
+        }
+      case 'custom':
+        return { changes: [this.toApiRecord(record)] }
+      default:
+        return this.toApiRecord(record)
+    }
+  }
+
+  routes(): MockLenderRoute[] {
+    switch (this.type) {
+      case 'hubspot':
+        return [
+          {
+            method: 'POST',
+            path: '/crm/v3/objects/contacts',
+            handler: ({ body }) => {
+              const record = this.create(String(1000 + this.records.size + 1), body?.properties)
+              return { status: 201, body: { id: record.id, ...this.toApiRecord(record) } }
+            },
+          },
+          {
+            method: 'POST',
+            path: '/crm/v3/objects/contacts/search',
+            handler: ({ body }) => {
+              const filter = body?.filterGroups?.[0]?.filters?.[0]
+              const limit = Number(body?.limit) || 100
+              const after = Number(body?.after) || 0
+              const changed = this.changedAfter(filter ? Number(filter.value) : 0, filter?.operator === 'GTE')
+              return {
+                status: 200,
+                body: {
+                  total: changed.length,
+                  results: changed.slice(after, after + limit).map(record => this.toApiRecord(record)),
+                  paging: changed.length > after + limit ? { next: { after: String(after + limit) } } : undefined,
+                },
+              }
+            },
+          },
+        ]
+      case 'salesforce':
+        return [
+          {
+            method: 'POST',
+            path: '/services/data/v58.0/sobjects/Lead',
+            handler: ({ body }) => {
+              const record = this.create(`00Q${String(this.records.size + 1).padStart(12, '0')}`, body)
+              return { status: 201, body: { id: record.id, success: true, errors: [] } }
+            },
+          },
+          {
+            method: 'GET',
+            path: '/services/data/v58.0/query',
+            handler: ({ query }) => {
+              const where = /WHERE\s+\w+\s+(>=?)\s+(\S+)/i.exec(query.q || '')
+              const limit = Number(/LIMIT\s+(\d+)/i.exec(query.q || '')?.[1]) || undefined
+              if (!where) return { status: 400, body: [{ errorCode: 'MALFORMED_QUERY', message: 'Unsupported query' }] }
+
+              const records = this.changedAfter(Date.parse(where[2]), where[1] === '>=').slice(0, limit)
+              const locator = `q${++this.salesforceQueries}`
+              this.salesforceResults.set(locator, records)
+              return { status: 200, body: this.salesforceBatch(locator, 0) }
+            },
+          },
+          {
+            method: 'GET',
+            path: '/services/data/v58.0/query/:locator',
+            handler: ({ params }) => {
+              const [locator, offset] = params.locator.split('-')
+              if (!this.salesforceResults.has(locator)) {
+                return { status: 400, body: [{ errorCode: 'INVALID_QUERY_LOCATOR', message: 'Invalid query locator' }] }
+              }
+              return { status: 200, body: this.salesforceBatch(locator, Number(offset)) }
+            },
+          },
+        ]
+      case 'pipedrive':
+        return [
+          {
+            method: 'POST',
+            path: '/v1/persons',
+            handler: ({ body }) => {
+              const record = this.create(String(this.records.size + 1), body)
+              return { status: 201, body: { success: true, data: this.toApiRecord(record) } }
+            },
+          },
+          {
+            method: 'GET',
+            path: '/v1/recents',
+            handler: ({ query }) => {
+              // Pipedrive includes changes made at since_timestamp
+              const since = Date.parse(`${(query.since_timestamp || '').replace(' ', 'T')}Z`)
+              if (isNaN(since)) return { status: 400, body: { success: false, error: 'since_timestamp is required' } }
+
+              const limit = Number(query.limit) || 100
+              const start = Number(query.start) || 0
+              const changed = this.changedAfter(since, true)
+              const page = changed.slice(start, start + limit)
+              return {
+                status: 200,
+                body: {
+                  success: true,
+                  data: page.map(record => ({ item: 'person', id: Number(record.id), data: this.toApiRecord(record) })),
+                  additional_data: {
+                    since_timestamp: query.since_timestamp,
+                    last_timestamp_on_page: page.length > 0 ? pipedriveTime(page[page.length - 1].updatedAt) : query.since_timestamp,
+                    pagination: {
+                      start,
+                      limit,
+                      more_items_in_collection: changed.length > start + limit,
+                      next_start: changed.length > start + limit ? start + limit : undefined,
+                    },
+                  },
+                },
+              }
+            },
+          },
+        ]
+      case 'zapier':
+        return [
+          {
+            method: 'POST',
+            path: '/hooks/catch/:account/:hook',
+            handler: ({ body }) => {
+              const record = this.create(`zap-${this.records.size + 1}`, body)
+              return { status: 200, body: { id: record.id, status: 'success' } }
+            },
+          },
+        ]
+      default:
+        return [
+          {
+            method: 'POST',
+            path: '/leads',
+            handler: ({ body }) => {
+              const record = this.create(`crm-${this.records.size + 1}`, body)
+              return { status: 201, body: { id: record.id } }
+            },
+          },
+          {
+            method: 'GET',
+            path: '/leads/changes',
+            handler: ({ query }): MockLenderResponse => {
+              const limit = Number(query.limit) || 100
+              const offset = Number(query.offset) || 0
+              const changed = this.changedAfter(query.since ? Date.parse(query.since) : 0, true)
+              return {
+                status: 200,
+                body: {
+                  changes: changed.slice(offset, offset + limit).map(record => this.toApiRecord(record)),
+                  hasMore: changed.length > offset + limit,
+                },
+              }
+            },
+          },
+        ]
+    }
+  }
+
+  private create(id: string, fields: Record<string, any> = {}): MockCRMRecord {
+    const record = { id, fields: JSON.parse(JSON.stringify(fields)), updatedAt: new Date() }
+    this.records.set(id, record)
+    return record
+  }
+
+  // One batch of a Salesforce query result, with the locator of the next batch when there is more
+  private salesforceBatch(locator: string, offset: number): Record<string, unknown> {
+    const records = this.salesforceResults.get(locator) || []
+    const done = records.length <= offset + SALESFORCE_BATCH_SIZE
+    return {
+      totalSize: records.length,
+      done,
+      nextRecordsUrl: done ? undefined : `/services/data/v58.0/query/${locator}-${offset + SALESFORCE_BATCH_SIZE}`,
+      records: records.slice(offset, offset + SALESFORCE_BATCH_SIZE).map(record => this.toApiRecord(record)),
+    }
+  }
+
+  private changedAfter(time: number, inclusive: boolean): MockCRMRecord[] {
+    return Array.from(this.records.values())
+      .filter(record => inclusive ? record.updatedAt.getTime() >= time : record.updatedAt.getTime() > time)
+      .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime())
+  }
+
+  // The record as this CRM's API returns it
+  private toApiRecord(record: MockCRMRecord): Record<string, any> {
+    const fields = JSON.parse(JSON.stringify(record.fields))
+    switch (this.type) {
+      case 'hubspot':
+        return {
+          id: record.id,
+          properties: { ...fields, hs_object_id: record.id, lastmodifieddate: record.updatedAt.toISOString() },
+          updatedAt: record.updatedAt.toISOString(),
+        }
+      case 'salesforce':
+        return {
+          attributes: { type: 'Lead', url: `/services/data/v58.0/sobjects/Lead/${record.id}` },
+          Id: record.id,
+          ...fields,
+          LastModifiedDate: record.updatedAt.toISOString().replace('Z', '+0000'),
+        }
+      case 'pipedrive':
+        return { id: Number(record.id), ...fields, update_time: pipedriveTime(record.updatedAt) }
+      case 'zapier':
+        return { id: record.id, ...fields, updated_at: record.updatedAt.toISOString() }
+      default:
+        return { id: record.id, ...fields, updatedAt: record.updatedAt.toISOString() }
+    }
+  }
+}
+
+function pipedriveTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
@@ -0,0 +1,148 @@
+import type { CashFlowTransaction } from '../mortgage/cash-flow-analysis'
+
+// Synthetic bank histories for exercising cash-flow underwriting without a provider.
+// Every profile is deterministic: the same profile always yields the same transactions.
+
+export interface SyntheticBankingProfile {
+  startDate: string
+  days: number
+  chequingOpeningBalance: number
+  savingsOpeningBalance: number
+  payroll: {
+    payer: string
+    netPay: number
+    frequency: 'biweekly' | 'semimonthly' | 'monthly'
+    firstDate: string
+    // Last deposit date, for a job that ended during the history
+    lastDate?: string
+  }
+  rent?: number
+  // Monthly payments from chequing on the given day of the month
+  debts?: Array<{ payee: string; amount: number; dayOfMonth: number }>
+  nsfFeeDates?: string[]
+  // One-off deposits, e.g. a gift toward the down payment
+  deposits?: Array<{ date: string; amount: number; description: string; account: 'chequing' | 'savings' }>
+  // Regular transfers from chequing to savings
+  monthlySavings?: number
+}
+
+export const SYNTHETIC_BANKING_PROFILES = {
+  // Salaried, paid every second Friday, rent and savings only
+  salaried: {
+    startDate: '2024-03-01',
+    days: 120,
+    chequingOpeningBalance: 3200,
+    savingsOpeningBalance: 62000,
+    payroll: { payer: 'ACME WIDGETS PAYROLL', netPay: 2250, frequency: 'biweekly', firstDate: '2024-03-08' },
+    rent: 1800,
+    monthlySavings: 500,
+  },
+  // Same pay, with a car loan and student loan not declared on the application and two NSF fees
+  undisclosedDebts: {
+    startDate: '2024-03-01',
+    days: 120,
+    chequingOpeningBalance: 3600,
+    savingsOpeningBalance: 41000,
+    payroll: { payer: 'ACME WIDGETS PAYROLL', netPay: 2250, frequency: 'biweekly', firstDate: '2024-03-08' },
+    rent: 1800,
+    debts: [
+      { payee: 'TOYOTA FINANCIAL SERVICES', amount: 520, dayOfMonth: 5 },
+      { payee: 'NSLSC STUDENT LOAN', amount: 250, dayOfMonth: 20 },
+    ],
+    nsfFeeDates: ['2024-04-05', '2024-06-05'],
+  },
+  // Semi-monthly pay, with most of the down payment arriving as a gift a month before the end
+  giftedDownPayment: {
+    startDate: '2024-03-01',
+    days: 120,
+    chequingOpeningBalance: 4200,
+    savingsOpeningBalance: 12000,
+    payroll: { payer: 'NORTHWIND HEALTH SALARY', netPay: 2600, frequency: 'semimonthly', firstDate: '2024-03-15' },
+    rent: 2100,
+    deposits: [{ date: '2024-05-28', amount: 40000, description: 'E-TRANSFER FROM M SMITH', account: 'savings' }],
+  },
+}
+
+export type SyntheticBankingProfileName = keyof typeof SYNTHETIC_BANKING_PROFILES
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Weekly and monthly living expenses shared by every profile
+const GROCERIES = 165
+const UTILITIES = 140
+const SAVINGS_INTEREST = 12.5
+
+/**
+ * Generate a chequing and savings account history for a profile, with running balances
+ */
+export function generateSyntheticTransactions(
+  profile: SyntheticBankingProfile | SyntheticBankingProfileName
+): CashFlowTransaction[] {
+  const spec: SyntheticBankingProfile = typeof profile === 'string' ? SYNTHETIC_BANKING_PROFILES[profile] as SyntheticBankingProfile : profile
+  const start = Date.parse(`${spec.startDate}T00:00:00Z`)
+  const entries: Array<Omit<CashFlowTransaction, 'id' | 'balance'>> = []
+
+  for (let day = 0; day < spec.days; day++) {
+    const date = new Date(start + day * DAY_MS)
+    const iso = date.toISOString().substring(0, 10)
+    const dayOfMonth = date.getUTCDate()
+    const lastDayOfMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+
+    if (isPayday(spec, iso, dayOfMonth, lastDayOfMonth)) {
+      entries.push({ accountId: 'chequing', date: iso, amount: spec.payroll.netPay, description: `${spec.payroll.payer} ${iso.replace(/-/g, '').substring(4)}` })
+    }
+    if (dayOfMonth === 1 && spec.rent) {
+      entries.push({ accountId: 'chequing', date: iso, amount: -spec.rent, description: 'RENT PAYMENT LANDLORD' })
+    }
+    if (dayOfMonth === 2 && spec.monthlySavings) {
+      entries.push({ accountId: 'chequing', date: iso, amount: -spec.monthlySavings, description: 'TRANSFER TO SAVINGS' })
+      entries.push({ accountId: 'savings', date: iso, amount: spec.monthlySavings, description: 'TRANSFER FROM CHEQUING' })
+    }
+    if (dayOfMonth === 12) {
+      entries.push({ accountId: 'chequing', date: iso, amount: -UTILITIES, description: 'CITY HYDRO UTILITIES' })
+    }
+    if (dayOfMonth === lastDayOfMonth) {
+      entries.push({ accountId: 'savings', date: iso, amount: SAVINGS_INTEREST, description: 'INTEREST PAID' })
+    }
+    if (date.getUTCDay() === 6) {
+      entries.push({ accountId: 'chequing', date: iso, amount: -GROCERIES, description: 'FRESHCO GROCERY' })
+    }
+    for (const debt of spec.debts || []) {
+      if (debt.dayOfMonth === dayOfMonth) {
+        entries.push({ accountId: 'chequing', date: iso, amount: -debt.amount, description: debt.payee })
+      }
+    }
+    if ((spec.nsfFeeDates || []).includes(iso)) {
+      entries.push({ accountId: 'chequing', date: iso, amount: -48, description: 'NSF FEE RETURNED ITEM' })
+    }
+    for (const deposit of spec.deposits || []) {
+      if (deposit.date === iso) {
+        entries.push({ accountId: deposit.account, date: iso, amount: deposit.amount, description: deposit.description })
+      }
+    }
+  }
+
+  const balances: Record<string, number> = {
+    chequing: spec.chequingOpeningBalance,
+    savings: spec.savingsOpeningBalance,
+  }
+
+  return entries.map((entry, index) => {
+    balances[entry.accountId] = Math.round((balances[entry.accountId] + entry.amount) * 100) / 100
+    return { ...entry, id: `txn_${index + 1}`, balance: balances[entry.accountId] }
+  })
+}
+
+function isPayday(spec: SyntheticBankingProfile, date: string, dayOfMonth: number, lastDayOfMonth: number): boolean {
+  const { firstDate, lastDate, frequency } = spec.payroll
+  if (date < firstDate || (lastDate && date > lastDate)) return false
+
+  switch (frequency) {
+    case 'biweekly':
+      return Math.round((Date.parse(date) - Date.parse(firstDate)) / DAY_MS) % 14 === 0
+    case 'semimonthly':
+      return dayOfMonth === 15 || dayOfMonth === lastDayOfMonth
+    case 'monthly':
+      return dayOfMonth === Number(firstDate.substring(8, 10))
+  }
+}
@@ -0,0 +1,18 @@
+import { GetServerSideProps } from 'next'
+import AdminLayout from '@/components/admin/AdminLayout'
+import LeadScoringManagement from '@/components/admin/LeadScoringManagement'
+
+export default function AdminLeadScoring() {
+  return (
+    <AdminLayout>
+      <LeadScoringManagement />
+    </AdminLayout>
+  )
+}
+
+export const getServerSideProps: GetServerSideProps = async () => {
+  // In a real implementation, you would verify the user's session and permissions here
+  return {
+    props: {}
+  }
+}
\ No newline at end of file
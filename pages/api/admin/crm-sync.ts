@@ -0,0 +1,81 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { crmBridge } from '@/lib/integrations/crm/CRMBridge'
+import { crmSyncService, CRMSyncOutcomeSchema, CRMSyncRequestSchema } from '@/lib/integrations/crm/CRMSync'
+import { PermissionChecker } from '@/lib/tenancy/rbac'
+import { UserRole } from '@/lib/types/tenancy'
+import { z } from 'zod'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { userId, userRole } = req.query
+
+    if (!userId || !userRole) {
+      return res.status(400).json({ error: 'Missing required parameters' })
+    }
+
+    const action = req.method === 'GET' ? 'read' : 'write'
+    if (!PermissionChecker.can(userRole as UserRole, action, 'leads')) {
+      return res.status(403).json({ error: 'Insufficient permissions' })
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        // Cursor and recent sync log for one integration
+        const { integrationId, outcome, since } = req.query
+        if (!integrationId || typeof integrationId !== 'string') {
+          return res.status(400).json({ error: 'Missing required parameters' })
+        }
+        if (!crmBridge.getIntegration(integrationId)) {
+          return res.status(404).json({ error: 'Integration not found' })
+        }
+
+        const [cursor, log] = await Promise.all([
+          crmSyncService.getCursor(integrationId),
+          crmSyncService.getLog(integrationId, {
+            outcomes: outcome ? [CRMSyncOutcomeSchema.parse(outcome)] : undefined,
+            since: since as string | undefined,
+            limit: 100,
+          }),
+        ])
+        return res.status(200).json({ cursor, log })
+      }
+
+      case 'POST': {
+        const request = CRMSyncRequestSchema.parse(req.body)
+
+        if (request.integrationId && !crmBridge.getIntegration(request.integrationId)) {
+          return res.status(404).json({ error: 'Integration not found' })
+        }
+
+        if (request.action === 'poll') {
+          // Read CRM change feeds; run on a schedule
+          const results = request.integrationId
+            ? [await crmSyncService.pollIntegration(request.integrationId)]
+            : await crmSyncService.pollAll()
+          return res.status(200).json({ results })
+        }
+
+        const result = await crmSyncService.replay(request.integrationId, {
+          entryIds: request.entryIds,
+          since: request.since,
+          until: request.until,
+          outcomes: request.outcomes,
+          conflictPolicy: request.conflictPolicy,
+        })
+        return res.status(200).json(result)
+      }
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    console.error('Admin CRM sync API error:', error)
+    return res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Internal server error' 
+    })
+  }
+}
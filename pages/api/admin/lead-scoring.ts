@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { leadScoringModelStore, LeadScoringModelRequestSchema } from '@/lib/lead-scoring-store'
+import { DEFAULT_LEAD_SCORING_MODEL } from '@/lib/lead-scoring'
+import { requirePermission } from '@/lib/tenancy/rbac'
+import { PermissionError, UserRole } from '@/lib/types/tenancy'
+import { z } from 'zod'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { userId, userRole, organizationId } = req.query
+
+    if (!userId || !userRole || !organizationId) {
+      return res.status(400).json({ error: 'Missing required parameters' })
+    }
+
+    // A scoring model is an organization setting
+    requirePermission(userRole as UserRole, 'settings:manage', 'settings', organizationId as string)
+
+    switch (req.method) {
+      case 'GET': {
+        // Active model and version history
+        const [active, versions] = await Promise.all([
+          leadScoringModelStore.getActiveModel(organizationId as string),
+          leadScoringModelStore.getModelVersions(organizationId as string),
+        ])
+        return res.status(200).json({ active, versions, defaultModel: DEFAULT_LEAD_SCORING_MODEL })
+      }
+
+      case 'POST': {
+        const request = LeadScoringModelRequestSchema.parse(req.body)
+
+        if (request.action === 'save') {
+          const version = await leadScoringModelStore.saveModelVersion(organizationId as string, request.model, {
+            createdBy: userId as string,
+            notes: request.notes,
+            activate: request.activate,
+          })
+          return res.status(201).json({ version })
+        }
+
+        if (request.action === 'activate') {
+          const version = await leadScoringModelStore.activateVersion(organizationId as string, request.version)
+          return res.status(200).json({ version })
+        }
+
+        // Compare a draft against the active model on historical conversions
+        const backtest = await leadScoringModelStore.backtest(organizationId as string, request.model, {
+          since: request.since,
+          until: request.until,
+          minAgeDays: request.minAgeDays,
+        })
+        return res.status(200).json(backtest)
+      }
+    }
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return res.status(403).json({ error: 'Insufficient permissions' })
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    console.error('Admin lead scoring API error:', error)
+    return res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Internal server error' 
+    })
+  }
+}
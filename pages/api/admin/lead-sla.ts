@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { leadSlaStore } from '@/lib/lead-sla-store'
+import { PermissionChecker } from '@/lib/tenancy/rbac'
+import { UserRole } from '@/lib/types/tenancy'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { userId, userRole } = req.query
+
+    if (!userId || !userRole) {
+      return res.status(400).json({ error: 'Missing required parameters' })
+    }
+
+    if (!PermissionChecker.can(userRole as UserRole, 'write', 'leads')) {
+      return res.status(403).json({ error: 'Insufficient permissions' })
+    }
+
+    // Escalate leads past their first-contact SLA; run on a schedule
+    const result = await leadSlaStore.runSlaCheck()
+    return res.status(200).json(result)
+  } catch (error) {
+    console.error('Admin lead SLA API error:', error)
+    return res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Internal server error' 
+    })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { rateSheetStore } from '@/lib/rates/rate-sheet-store'
+import { lenderIntegrationRegistry } from '@/lib/integrations/lenders/LenderIntegrationRegistry'
+import { supportsCapability } from '@/lib/integrations/lenders/LenderAdapter'
+import { PermissionChecker } from '@/lib/tenancy/rbac'
+import { RateSheetUploadSchema } from '@/lib/security'
+import { UserRole } from '@/lib/types/tenancy'
+import { z } from 'zod'
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '8mb',
+    },
+  },
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { userId, userRole } = req.query
+
+    if (!userId || !userRole) {
+      return res.status(400).json({ error: 'Missing required parameters' })
+    }
+
+    const action = req.method === 'GET' ? 'read' : 'write'
+    if (!PermissionChecker.can(userRole as UserRole, action, 'rates')) {
+      return res.status(403).json({ error: 'Insufficient permissions' })
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        // Version history of a source's rate sheet
+        const { sourceId } = req.query
+        if (!sourceId) {
+          return res.status(400).json({ error: 'Source ID is required' })
+        }
+
+        const versions = await rateSheetStore.getSheetVersions(sourceId as string)
+        return res.status(200).json({ versions })
+      }
+
+      case 'POST': {
+        // Pull from a registered lender adapter that publishes rate sheets
+        if (req.body?.adapter) {
+          const adapter = lenderIntegrationRegistry.getAdapter(req.body.adapter)
+          if (!adapter || !supportsCapability(adapter, 'rate_sheet')) {
+            return res.status(400).json({ error: `Unknown rate sheet adapter: ${req.body.adapter}` })
+          }
+
+          const result = await rateSheetStore.pullFromSource({
+            sourceId: adapter.id,
+            pullRateSheet: () => adapter.pullRateSheet!(),
+          })
+          return res.status(200).json(result)
+        }
+
+        // Upload a CSV, XLSX or JSON sheet
+        const upload = RateSheetUploadSchema.parse(req.body)
+        const result = await rateSheetStore.ingestUpload({
+          ...upload,
+          uploadedBy: userId as string,
+        })
+        return res.status(result.status === 'created' ? 201 : 200).json(result)
+      }
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    console.error('Admin rate sheets API error:', error)
+    return res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Internal server error' 
+    })
+  }
+}
@@ -1,15 +1,20 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { AffordabilityAgent } from '@/lib/openai'
+import { AFFORDABILITY_ENGINE_VERSION, AffordabilityInput } from '@/lib/mortgage/affordability-engine'
+import { applyCashFlowAnalysis, summarizeCashFlow } from '@/lib/mortgage/cash-flow-analysis'
+import { calculateClosingCosts } from '@/lib/mortgage/closing-costs'
 import { supabaseAdmin } from '@/lib/supabase'
 import { 
   withSecurity, 
   withRateLimit, 
   withValidation, 
   AffordabilityInputSchema,
+  getAuthenticatedUserId,
   logAuditEvent,
   handleError
 } from '@/lib/security'
 import { analytics, errorTracking } from '@/lib/monitoring'
+import { loadCashFlowAnalysis } from '@/lib/integrations/open-banking'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -31,6 +36,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       taxes = 0,
       insurance = 0,
       hoa = 0,
+      heating = 0,
+      firstTimeBuyer = false,
+      creditScore,
+      loanProgram,
+      mortgageInsurer,
     } = req.body
 
     // Additional validation
@@ -48,12 +58,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         income: Math.floor(income / 10000) * 10000, // Round for privacy
         propertyPrice: Math.floor(propertyPrice / 50000) * 50000, // Round for privacy
         location,
+        engineVersion: AFFORDABILITY_ENGINE_VERSION,
       })
     }
 
-    // Calculate affordability using AI agent
-    const agent = new AffordabilityAgent()
-    const result = await agent.calculateAffordability({
+    const input: AffordabilityInput = {
       country,
       income,
       debts,
@@ -65,6 +74,32 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       taxes,
       insurance,
       hoa,
+      heating,
+      creditScore,
+      loanProgram,
+      mortgageInsurer,
+      firstTimeBuyer,
+    }
+
+    // A signed-in borrower's connected bank accounts restate the income, debts and down
+    // payment they support before the ratios are worked out
+    const bankUserId = await getAuthenticatedUserId(req)
+    const cashFlow = bankUserId
+      ? await loadCashFlowAnalysis(bankUserId, { statedAnnualIncome: income, statedDebts: debts, downPayment })
+      : undefined
+
+    // Ratios come from the deterministic rules engine; the agent only adds the narrative
+    const agent = new AffordabilityAgent()
+    const result = await agent.calculateAffordability(cashFlow ? applyCashFlowAnalysis(input, cashFlow) : input)
+
+    // Cash needed to close on top of the down payment
+    const closingCosts = calculateClosingCosts({
+      country,
+      location,
+      propertyPrice,
+      downPayment,
+      firstTimeBuyer,
+      mortgageInsurancePremium: result.mortgageInsurance?.upfrontPremium,
     })
 
     // Track analytics
@@ -109,7 +144,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
     }
 
-    res.status(200).json(result)
+    res.status(200).json({ ...result, closingCosts, cashFlow: cashFlow && summarizeCashFlow(cashFlow) })
   } catch (error) {
     errorTracking.captureException(error as Error, {
       context: 'affordability_calculation',
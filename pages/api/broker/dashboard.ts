@@ -6,6 +6,10 @@ import {
   handleError
 } from '@/lib/security'
 import { analytics, errorTracking } from '@/lib/monitoring'
+import { LeadSlaMetrics, LeadSlaTimer, summarizeSlaTimers } from '@/lib/lead-sla'
+import { leadSlaStore } from '@/lib/lead-sla-store'
+import { leadDedupeStore } from '@/lib/lead-dedupe-store'
+import type { DuplicateConfidence } from '@/lib/lead-identity'
 
 interface BrokerDashboardStats {
   totalLeads: number
@@ -17,6 +21,7 @@ interface BrokerDashboardStats {
   totalCommission: number
   monthlyCommission: number
   averageLeadScore: number
+  sla: LeadSlaMetrics
   recentLeads: Array<{
     id: string
     name: string
@@ -29,6 +34,15 @@ interface BrokerDashboardStats {
     downPayment: number
     income: number
     creditScore: number
+    // First-contact deadline while the SLA timer is running
+    slaDueAt: string | null
+    // Open flags for other leads that may be the same borrower
+    duplicates: Array<{
+      flagId: string
+      leadId: string
+      confidence: DuplicateConfidence
+      reasons: string[]
+    }>
   }>
 }
 
@@ -65,6 +79,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse, userId: string
       .from('leads')
       .select('*')
       .eq('broker_id', broker.id)
+      .is('merged_into_lead_id', null)
       .order('created_at', { ascending: false })
 
     if (leadsError) {
@@ -86,8 +101,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse, userId: string
     const totalCommission = convertedLeads * (broker.commission_rate / 100) * 1000 // Assume $1000 average commission per lead
     const monthlyCommission = convertedLeads * (broker.commission_rate / 100) * 1000 // Simplified monthly calculation
 
+    // First-contact SLA timers for this broker's assignments
+    const slaTimers = await leadSlaStore.getBrokerTimers(broker.id)
+    const runningTimers = new Map(slaTimers
+      .filter(timer => timer.status === 'running')
+      .map(timer => [timer.leadId, timer] as [string, LeadSlaTimer]))
+
+    // Possible duplicates the broker can merge or dismiss
+    const latestLeads = (leads || []).slice(0, 10)
+    const duplicateFlags = await leadDedupeStore.getDuplicateFlags(latestLeads.map(lead => lead.id))
+
     // Format recent leads
-    const recentLeads = (leads || []).slice(0, 10).map(lead => ({
+    const recentLeads = latestLeads.map(lead => ({
       id: lead.id,
       name: lead.name,
       email: lead.email,
@@ -99,6 +124,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse, userId: string
       downPayment: lead.lead_data?.downPayment || 0,
       income: lead.lead_data?.income || 0,
       creditScore: lead.lead_data?.creditScore || 0,
+      slaDueAt: runningTimers.get(lead.id)?.dueAt || null,
+      duplicates: duplicateFlags
+        .filter(flag => flag.leadId === lead.id || flag.duplicateOfLeadId === lead.id)
+        .map(flag => ({
+          flagId: flag.id,
+          leadId: flag.leadId === lead.id ? flag.duplicateOfLeadId : flag.leadId,
+          confidence: flag.confidence,
+          reasons: flag.reasons,
+        })),
     }))
 
     const stats: BrokerDashboardStats = {
@@ -111,6 +145,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse, userId: string
       totalCommission: Math.round(totalCommission),
       monthlyCommission: Math.round(monthlyCommission),
       averageLeadScore: Math.round(averageLeadScore * 100) / 100,
+      sla: summarizeSlaTimers(slaTimers),
       recentLeads,
     }
 
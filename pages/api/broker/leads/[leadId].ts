@@ -6,6 +6,7 @@ import {
   handleError
 } from '@/lib/security'
 import { analytics, errorTracking } from '@/lib/monitoring'
+import { leadSlaStore } from '@/lib/lead-sla-store'
 import { z } from 'zod'
 
 const UpdateLeadStatusSchema = z.object({
@@ -94,6 +95,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse, userId: string
         return res.status(404).json({ error: 'Lead not found or not assigned to you' })
       }
 
+      // Reaching the borrower stops the first-contact SLA timer
+      if (validatedData.status === 'contacted' || validatedData.status === 'converted') {
+        await leadSlaStore.recordFirstContact(leadId, 'dashboard')
+      }
+
       // Track analytics
       analytics.trackLeadStatusUpdate({
         brokerId: broker.id,
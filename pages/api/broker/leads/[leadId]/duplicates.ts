@@ -0,0 +1,188 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { supabaseAdmin } from '@/lib/supabase'
+import {
+  withSecurity,
+  withAuth,
+  handleError
+} from '@/lib/security'
+import { errorTracking } from '@/lib/monitoring'
+import { leadDedupeStore, LeadDuplicateRequestSchema } from '@/lib/lead-dedupe-store'
+import { z } from 'zod'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, userId: string) {
+  try {
+    const { leadId } = req.query
+
+    if (!leadId || typeof leadId !== 'string') {
+      return res.status(400).json({ error: 'Invalid lead ID' })
+    }
+
+    // Verify user is a broker
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('subscription_tier')
+      .eq('id', userId)
+      .single()
+
+    if (userError || !user || user.subscription_tier !== 'broker') {
+      return res.status(403).json({ error: 'Access denied. Broker subscription required.' })
+    }
+
+    // Get broker information
+    const { data: broker, error: brokerError } = await supabaseAdmin
+      .from('brokers')
+      .select('*')
+      .eq('email', req.query.email || '')
+      .single()
+
+    if (brokerError || !broker) {
+      return res.status(404).json({ error: 'Broker not found' })
+    }
+
+    const { data: lead, error: leadError } = await supabaseAdmin
+      .from('leads')
+      .select('id, broker_id, organization_id, merged_into_lead_id')
+      .eq('id', leadId)
+      .eq('broker_id', broker.id)
+      .single()
+
+    if (leadError || !lead) {
+      return res.status(404).json({ error: 'Lead not found or not assigned to you' })
+    }
+
+    if (lead.merged_into_lead_id) {
+      return res.status(409).json({ error: 'Lead has been merged', mergedIntoLeadId: lead.merged_into_lead_id })
+    }
+
+    if (req.method === 'GET') {
+      // Open flags with the other lead in each pair, and leads already merged into this one
+      const flags = await leadDedupeStore.getDuplicateFlags([leadId])
+      const otherLeadIds = flags.map(flag => flag.leadId === leadId ? flag.duplicateOfLeadId : flag.leadId)
+
+      let otherLeads: any[] = []
+      if (otherLeadIds.length > 0) {
+        const { data, error } = await supabaseAdmin
+          .from('leads')
+          .select('id, name, email, phone, status, broker_id, created_at')
+          .in('id', otherLeadIds)
+
+        if (error) {
+          throw new Error(`Failed to fetch duplicate leads: ${error.message}`)
+        }
+        otherLeads = data || []
+      }
+
+      const history = await leadDedupeStore.getMergeHistory(leadId)
+
+      res.status(200).json({
+        success: true,
+        duplicates: flags.map((flag, index) => {
+          const other = otherLeads.find(row => row.id === otherLeadIds[index])
+          return {
+            flagId: flag.id,
+            score: flag.score,
+            confidence: flag.confidence,
+            reasons: flag.reasons,
+            lead: other && {
+              id: other.id,
+              name: other.name,
+              email: other.email,
+              phone: other.phone,
+              status: other.status,
+              createdAt: other.created_at,
+              // Only leads that are the broker's own or unassigned can be merged here
+              assignedToYou: other.broker_id === broker.id,
+              mergeable: !other.broker_id || other.broker_id === broker.id,
+            },
+          }
+        }),
+        mergeHistory: history.map(record => ({
+          id: record.id,
+          mergedLeadId: record.mergedLeadId,
+          mergedBy: record.mergedBy,
+          changes: record.changes,
+          createdAt: record.createdAt,
+        })),
+      })
+
+    } else if (req.method === 'POST') {
+      const request = LeadDuplicateRequestSchema.parse(req.body)
+
+      if (request.action === 'dismiss') {
+        const flags = await leadDedupeStore.getDuplicateFlags([leadId])
+        if (!flags.some(flag => flag.id === request.flagId)) {
+          return res.status(404).json({ error: 'Duplicate flag not found for this lead' })
+        }
+
+        const flag = await leadDedupeStore.dismissFlag(request.flagId, userId)
+        return res.status(200).json({ success: true, flag })
+      }
+
+      // Only a pair flagged as duplicates can be merged, so the lead ID alone grants nothing
+      const flags = await leadDedupeStore.getDuplicateFlags([leadId])
+      const flagged = flags.some(flag =>
+        (flag.leadId === leadId && flag.duplicateOfLeadId === request.duplicateLeadId) ||
+        (flag.leadId === request.duplicateLeadId && flag.duplicateOfLeadId === leadId)
+      )
+      if (!flagged) {
+        return res.status(404).json({ error: 'Duplicate flag not found for these leads' })
+      }
+
+      // The broker keeps this lead and absorbs the duplicate into it
+      const { data: duplicate, error: duplicateError } = await supabaseAdmin
+        .from('leads')
+        .select('id, broker_id, organization_id')
+        .eq('id', request.duplicateLeadId)
+        .single()
+
+      if (duplicateError || !duplicate || (duplicate.organization_id || null) !== (lead.organization_id || null)) {
+        return res.status(404).json({ error: 'Duplicate lead not found' })
+      }
+
+      // Merging would take the borrower from the broker working the other lead
+      if (duplicate.broker_id && duplicate.broker_id !== broker.id) {
+        return res.status(409).json({
+          error: 'Duplicate lead is assigned to another broker',
+          message: 'Ask an administrator to decide which broker keeps this borrower',
+        })
+      }
+
+      const merge = await leadDedupeStore.mergeLeads(leadId, duplicate.id, userId)
+
+      res.status(200).json({
+        success: true,
+        message: 'Leads merged successfully',
+        merge: {
+          id: merge.id,
+          survivorLeadId: merge.survivorLeadId,
+          mergedLeadId: merge.mergedLeadId,
+          changes: merge.changes,
+          createdAt: merge.createdAt,
+        },
+      })
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' })
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      })
+    }
+
+    errorTracking.captureException(error as Error, {
+      context: 'broker_lead_duplicates',
+      userId,
+      leadId: req.query.leadId,
+    })
+    handleError(res, error as Error, 'broker_lead_duplicates')
+  }
+}
+
+export default withSecurity(withAuth(handler))
@@ -0,0 +1,135 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { supabaseAdmin } from '@/lib/supabase'
+import {
+  withSecurity,
+  withAuth,
+  handleError
+} from '@/lib/security'
+import { errorTracking } from '@/lib/monitoring'
+import { rateLockStore, RateLockRequestSchema } from '@/lib/rates/rate-lock-store'
+import { z } from 'zod'
+
+const UpdateRateLockSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('quote_extension'), lockId: z.string().min(1), days: z.number().int().positive().max(90) }),
+  z.object({ action: z.literal('extend'), lockId: z.string().min(1), days: z.number().int().positive().max(90) }),
+  z.object({ action: z.literal('check_float_down'), lockId: z.string().min(1) }),
+  z.object({ action: z.literal('float_down'), lockId: z.string().min(1) }),
+])
+
+const ReleaseRateLockSchema = z.object({
+  lockId: z.string().min(1),
+  status: z.enum(['closed', 'cancelled']).default('cancelled'),
+  reason: z.string().max(500).optional(),
+})
+
+async function handler(req: NextApiRequest, res: NextApiResponse, userId: string) {
+  try {
+    // Verify user is a broker
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('subscription_tier')
+      .eq('id', userId)
+      .single()
+
+    if (userError || !user || user.subscription_tier !== 'broker') {
+      return res.status(403).json({ error: 'Access denied. Broker subscription required.' })
+    }
+
+    // Get broker information
+    const { data: broker, error: brokerError } = await supabaseAdmin
+      .from('brokers')
+      .select('*')
+      .eq('email', req.query.email || '')
+      .single()
+
+    if (brokerError || !broker) {
+      return res.status(404).json({ error: 'Broker not found' })
+    }
+
+    const ownsLock = async (lockId: string) => {
+      const lock = await rateLockStore.getLock(lockId)
+      return !!lock && lock.brokerId === broker.id
+    }
+
+    if (req.method === 'GET') {
+      // One lock's history, or the broker's locks soonest expiry first
+      if (req.query.lockId) {
+        const lockId = req.query.lockId as string
+        if (!(await ownsLock(lockId))) {
+          return res.status(404).json({ error: 'Rate lock not found' })
+        }
+
+        const [lock, events] = await Promise.all([
+          rateLockStore.getLock(lockId),
+          rateLockStore.getLockEvents(lockId),
+        ])
+        return res.status(200).json({ success: true, lock, events })
+      }
+
+      const locks = await rateLockStore.getBrokerLocks(broker.id, req.query.includeInactive === 'true')
+      res.status(200).json({ success: true, locks })
+
+    } else if (req.method === 'POST') {
+      // Lock a quoted rate against the sheet version it came from
+      const validatedData = RateLockRequestSchema.parse(req.body)
+      if (validatedData.leadId) {
+        const { data: lead, error: leadError } = await supabaseAdmin
+          .from('leads')
+          .select('id')
+          .eq('id', validatedData.leadId)
+          .eq('broker_id', broker.id)
+          .single()
+
+        if (leadError || !lead) {
+          return res.status(404).json({ error: 'Lead not found or not assigned to you' })
+        }
+      }
+
+      const lock = await rateLockStore.lockRate({ ...validatedData, brokerId: broker.id })
+      res.status(201).json({ success: true, lock })
+
+    } else if (req.method === 'PATCH') {
+      // Price or apply an extension, or check or take a float-down
+      const update = UpdateRateLockSchema.parse(req.body)
+      if (!(await ownsLock(update.lockId))) {
+        return res.status(404).json({ error: 'Rate lock not found' })
+      }
+
+      switch (update.action) {
+        case 'quote_extension':
+          return res.status(200).json({ success: true, extension: await rateLockStore.quoteExtension(update.lockId, update.days) })
+        case 'extend':
+          return res.status(200).json({ success: true, lock: await rateLockStore.extendLock(update.lockId, update.days) })
+        case 'check_float_down':
+          return res.status(200).json({ success: true, floatDown: await rateLockStore.checkFloatDown(update.lockId) })
+        case 'float_down':
+          return res.status(200).json({ success: true, ...(await rateLockStore.floatDown(update.lockId)) })
+      }
+
+    } else if (req.method === 'DELETE') {
+      // Close the lock on funding, or cancel it
+      const { lockId, status, reason } = ReleaseRateLockSchema.parse(req.body)
+      if (!(await ownsLock(lockId))) {
+        return res.status(404).json({ error: 'Rate lock not found' })
+      }
+
+      const lock = await rateLockStore.releaseLock(lockId, status, reason)
+      res.status(200).json({ success: true, lock })
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' })
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    errorTracking.captureException(error as Error, {
+      context: 'broker_rate_locks',
+      userId,
+    })
+    handleError(res, error as Error, 'broker_rate_locks')
+  }
+}
+
+export default withSecurity(withAuth(handler))
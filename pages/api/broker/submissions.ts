@@ -0,0 +1,116 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { supabaseAdmin } from '@/lib/supabase'
+import {
+  withSecurity,
+  withAuth,
+  handleError
+} from '@/lib/security'
+import { errorTracking } from '@/lib/monitoring'
+import { submissionOrchestrator, SubmissionRequestSchema } from '@/lib/integrations/lenders/SubmissionOrchestrator'
+import { z } from 'zod'
+
+const PollSubmissionSchema = z.object({
+  submissionId: z.string().min(1),
+})
+
+const WithdrawSubmissionSchema = z.object({
+  submissionId: z.string().min(1),
+  lenderSubmissionId: z.string().min(1),
+  reason: z.string().max(500).optional(),
+})
+
+async function handler(req: NextApiRequest, res: NextApiResponse, userId: string) {
+  try {
+    // Verify user is a broker
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('subscription_tier')
+      .eq('id', userId)
+      .single()
+
+    if (userError || !user || user.subscription_tier !== 'broker') {
+      return res.status(403).json({ error: 'Access denied. Broker subscription required.' })
+    }
+
+    // Get broker information
+    const { data: broker, error: brokerError } = await supabaseAdmin
+      .from('brokers')
+      .select('*')
+      .eq('email', req.query.email || '')
+      .single()
+
+    if (brokerError || !broker) {
+      return res.status(404).json({ error: 'Broker not found' })
+    }
+
+    const ownsSubmission = async (submissionId: string) => {
+      const { data } = await supabaseAdmin
+        .from('application_submissions')
+        .select('id')
+        .eq('id', submissionId)
+        .eq('broker_id', broker.id)
+        .single()
+      return !!data
+    }
+
+    if (req.method === 'GET') {
+      // Status board of the broker's submissions
+      const submissions = await submissionOrchestrator.getStatusBoard(broker.id)
+      res.status(200).json({ success: true, submissions })
+
+    } else if (req.method === 'POST') {
+      // Fan a borrower file out to the selected lenders
+      const validatedData = SubmissionRequestSchema.parse(req.body)
+      if (validatedData.leadId) {
+        const { data: lead, error: leadError } = await supabaseAdmin
+          .from('leads')
+          .select('id')
+          .eq('id', validatedData.leadId)
+          .eq('broker_id', broker.id)
+          .single()
+
+        if (leadError || !lead) {
+          return res.status(404).json({ error: 'Lead not found or not assigned to you' })
+        }
+      }
+
+      const submission = await submissionOrchestrator.submit({ ...validatedData, brokerId: broker.id })
+      res.status(201).json({ success: true, submission })
+
+    } else if (req.method === 'PATCH') {
+      // Refresh lender statuses for one submission
+      const { submissionId } = PollSubmissionSchema.parse(req.body)
+      if (!(await ownsSubmission(submissionId))) {
+        return res.status(404).json({ error: 'Submission not found' })
+      }
+
+      const result = await submissionOrchestrator.pollStatuses(submissionId)
+      res.status(200).json({ success: true, ...result })
+
+    } else if (req.method === 'DELETE') {
+      // Withdraw the application from one lender
+      const { submissionId, lenderSubmissionId, reason } = WithdrawSubmissionSchema.parse(req.body)
+      if (!(await ownsSubmission(submissionId))) {
+        return res.status(404).json({ error: 'Submission not found' })
+      }
+
+      const transition = await submissionOrchestrator.withdraw(submissionId, lenderSubmissionId, reason)
+      res.status(200).json({ success: true, transition })
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' })
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    errorTracking.captureException(error as Error, {
+      context: 'broker_submissions',
+      userId,
+    })
+    handleError(res, error as Error, 'broker_submissions')
+  }
+}
+
+export default withSecurity(withAuth(handler))
@@ -1,15 +1,19 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { AffordabilityAgent } from '@/lib/openai'
+import { AFFORDABILITY_ENGINE_VERSION, AffordabilityInput } from '@/lib/mortgage/affordability-engine'
+import { applyCashFlowAnalysis, summarizeCashFlow } from '@/lib/mortgage/cash-flow-analysis'
 import { supabaseAdmin } from '@/lib/supabase'
 import { 
   withSecurity, 
   withRateLimit, 
   withValidation, 
   AffordabilityInputSchema,
+  getAuthenticatedUserId,
   logAuditEvent,
   handleError
 } from '@/lib/security'
 import { analytics, errorTracking } from '@/lib/monitoring'
+import { loadCashFlowAnalysis } from '@/lib/integrations/open-banking'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -35,12 +39,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         income: Math.floor(income / 10000) * 10000, // Round for privacy
         propertyPrice: Math.floor(propertyPrice / 50000) * 50000, // Round for privacy
         location,
+        engineVersion: AFFORDABILITY_ENGINE_VERSION,
       })
     }
 
-    // Calculate affordability using AI agent
-    const agent = new AffordabilityAgent()
-    const result = await agent.calculateAffordability({
+    const input: AffordabilityInput = {
       country,
       income,
       debts,
@@ -52,7 +55,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       taxes,
       insurance,
       hoa,
-    })
+    }
+
+    // A signed-in borrower's connected bank accounts restate the income, debts and down
+    // payment they support before the ratios are worked out
+    const bankUserId = await getAuthenticatedUserId(req)
+    const cashFlow = bankUserId
+      ? await loadCashFlowAnalysis(bankUserId, { statedAnnualIncome: income, statedDebts: debts, downPayment })
+      : undefined
+
+    // Ratios come from the deterministic rules engine; the agent only adds the narrative
+    const agent = new AffordabilityAgent()
+    const result = await agent.calculateAffordability(cashFlow ? applyCashFlowAnalysis(input, cashFlow) : input)
 
     // Track analytics
     analytics.trackAffordabilityCalculation({
@@ -93,7 +107,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       }
     }
 
-    res.status(200).json(result)
+    res.status(200).json({ ...result, cashFlow: cashFlow && summarizeCashFlow(cashFlow) })
   } catch (error) {
     errorTracking.captureException(error as Error, {
       context: 'affordability_calculation',
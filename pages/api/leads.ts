@@ -11,6 +11,7 @@ import {
   handleError
 } from '@/lib/security'
 import { analytics, errorTracking } from '@/lib/monitoring'
+import { loadCashFlowAnalysis } from '@/lib/integrations/open-banking'
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -23,12 +24,22 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       income,
       employmentType,
       creditScore,
+      monthlyDebts,
       preferredLender,
       additionalInfo,
+      propertyLocation,
+      address,
+      language,
+      newToCountry,
+      investor,
+      firstTimeBuyer,
       consentToShare,
       consentToContact,
     } = req.body
 
+    // Brokerage the lead form belongs to, whose scoring model applies
+    const organizationId = req.headers['x-organization-id'] as string | undefined
+
     // Validate consent
     if (!consentToShare || !consentToContact) {
       return res.status(400).json({
@@ -61,6 +72,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       })
     }
 
+    // A signed-in borrower's connected bank accounts verify what they told us
+    const cashFlow = userId
+      ? await loadCashFlowAnalysis(userId, { statedAnnualIncome: income, statedDebts: monthlyDebts, downPayment })
+      : undefined
+
     // Prepare lead input
     const leadInput: LeadQualificationInput = {
       name,
@@ -71,19 +87,30 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       income,
       employmentType,
       creditScore,
+      monthlyDebts,
       preferredLender,
       additionalInfo,
+      propertyLocation,
+      address,
+      language,
+      newToCountry,
+      investor,
+      firstTimeBuyer,
       consentToShare,
       consentToContact,
+      cashFlow,
     }
 
     // Process lead qualification
-    const qualificationResult = await leadQualificationService.processLeadQualification(leadInput)
+    const qualificationResult = await leadQualificationService.processLeadQualification(leadInput, {
+      organizationId,
+      userId: userId || undefined,
+    })
 
     // Save lead to database
     let leadId: string
     if (userId) {
-      leadId = await leadQualificationService.saveLead(userId, leadInput, qualificationResult)
+      leadId = await leadQualificationService.saveLead(userId, leadInput, qualificationResult, organizationId)
     } else {
       // Generate temporary ID for anonymous leads
       leadId = qualificationResult.leadId
@@ -134,6 +161,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       leadId,
       leadScore: qualificationResult.leadScore,
       qualificationTier: qualificationResult.qualificationTier,
+      scoreBreakdown: qualificationResult.scoreBreakdown,
       brokerRecommendations: qualificationResult.brokerRecommendations,
       routingDecision: qualificationResult.routingDecision,
       nextSteps: qualificationResult.nextSteps,
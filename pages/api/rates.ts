@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { RateIntelligenceAgent } from '@/lib/openai'
+import { rateSheetStore } from '@/lib/rates/rate-sheet-store'
 import { supabaseAdmin } from '@/lib/supabase'
 import { createClient } from 'redis'
 import { 
@@ -17,6 +18,10 @@ const RateQuerySchema = z.object({
   rateType: z.enum(['fixed', 'variable']),
   propertyPrice: z.string().transform(Number).pipe(z.number().min(10000).max(50000000)),
   downPayment: z.string().transform(Number).pipe(z.number().min(0).max(10000000)),
+  creditScore: z.string().transform(Number).pipe(z.number().min(300).max(900)).optional(),
+  occupancy: z.enum(['primary', 'second_home', 'investment']).optional(),
+  propertyType: z.enum(['single_family', 'condo', 'multi_unit', 'manufactured']).optional(),
+  discountPoints: z.string().transform(Number).pipe(z.number().min(0).max(4)).optional(),
   userId: z.string().optional(),
 })
 
@@ -54,7 +59,18 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       })
     }
 
-    const { country, termYears, rateType, propertyPrice, downPayment, userId } = validationResult.data
+    const {
+      country,
+      termYears,
+      rateType,
+      propertyPrice,
+      downPayment,
+      creditScore,
+      occupancy,
+      propertyType,
+      discountPoints,
+      userId,
+    } = validationResult.data
 
     // Log the rate check request
     if (userId) {
@@ -67,13 +83,21 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       })
     }
 
-    // Create cache key
-    const cacheKey = `rates:${country}:${termYears}:${rateType}:${propertyPrice}:${downPayment}`
+    // Create cache key. Quotes come from the latest rate sheets, so each new sheet version
+    // gets fresh entries; without a known version the cache is skipped.
+    const sheetId = await rateSheetStore.getLatestSheetId().catch(error => {
+      console.warn('Rate sheet version lookup error:', error)
+      return undefined
+    })
+    const pricingKey = [creditScore, occupancy, propertyType, discountPoints].map(value => value ?? '').join(':')
+    const cacheKey = sheetId === undefined
+      ? undefined
+      : `rates:${sheetId ?? 'none'}:${country}:${termYears}:${rateType}:${propertyPrice}:${downPayment}:${pricingKey}`
     
     // Try to get from cache first
     try {
-      const redisClient = await getRedisClient()
-      if (redisClient) {
+      const redisClient = cacheKey ? await getRedisClient() : null
+      if (redisClient && cacheKey) {
         const cached = await redisClient.get(cacheKey)
         if (cached) {
           const cachedData = JSON.parse(cached)
@@ -96,12 +120,16 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       rateType: rateType as 'fixed' | 'variable',
       propertyPrice: parseFloat(propertyPrice as string),
       downPayment: parseFloat(downPayment as string),
+      creditScore,
+      occupancy,
+      propertyType,
+      discountPoints,
     })
 
     // Cache the results for 1 hour
     try {
-      const redisClient = await getRedisClient()
-      if (redisClient) {
+      const redisClient = cacheKey ? await getRedisClient() : null
+      if (redisClient && cacheKey) {
         await redisClient.setEx(cacheKey, 3600, JSON.stringify(rates))
       }
     } catch (cacheError) {
@@ -1,6 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { RefinanceAgent } from '@/lib/agents/refinance-agent'
 import { supabaseAdmin } from '@/lib/supabase'
+import { RefinanceInputSchema } from '@/lib/security'
+import { z } from 'zod'
 
 const refinanceAgent = new RefinanceAgent()
 
@@ -22,6 +24,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
   } else if (req.method === 'POST') {
     try {
+      // Break-even analysis for a single mortgage
+      if (req.body?.mortgage) {
+        const mortgage = RefinanceInputSchema.parse(req.body.mortgage)
+        const analysis = refinanceAgent.analyzeRefinance(mortgage)
+
+        return res.status(200).json({ analysis })
+      }
+
       // Generate new watchlist for all users
       const opportunities = await refinanceAgent.generateRefinanceWatchlist()
 
@@ -30,6 +40,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         count: opportunities.length 
       })
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors })
+      }
       console.error('Error generating refinance watchlist:', error)
       res.status(500).json({ error: 'Internal server error' })
     }
@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { ScenarioManager } from '@/lib/scenario-manager'
+import { ScenarioInputSchema, RentVsBuyInputSchema } from '@/lib/scenario-types'
+import { 
+  withSecurity, 
+  withRateLimit, 
+  logAuditEvent,
+  handleError
+} from '@/lib/security'
+import { errorTracking } from '@/lib/monitoring'
+import { z } from 'zod'
+
+const RentVsBuyRequestSchema = z.object({
+  scenario: ScenarioInputSchema,
+  assumptions: RentVsBuyInputSchema,
+  userId: z.string().optional(),
+})
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const { scenario, assumptions, userId } = RentVsBuyRequestSchema.parse(req.body)
+
+    // Log the rent vs buy request
+    if (userId) {
+      await logAuditEvent('rent_vs_buy_analysis', userId, {
+        propertyPrice: Math.floor(scenario.parameters.propertyPrice / 50000) * 50000, // Round for privacy
+        appreciationSource: assumptions.appreciationSource,
+      })
+    }
+
+    const scenarioManager = new ScenarioManager()
+    const result = await scenarioManager.performRentVsBuyAnalysis(
+      { ...scenario, id: scenario.id || `rent_vs_buy_${Date.now()}` },
+      assumptions
+    )
+
+    res.status(200).json(result)
+  } catch (error) {
+    errorTracking.captureException(error as Error, {
+      context: 'rent_vs_buy_analysis',
+      userId: req.body.userId,
+    })
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        }))
+      })
+    }
+    handleError(res, error as Error, 'rent_vs_buy_analysis')
+  }
+}
+
+export default withSecurity(
+  withRateLimit('scenarios')(handler)
+)
@@ -1,12 +1,42 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { AnalyticsService } from '../../../lib/analytics/analytics-service';
 import { EventBus } from '../../../lib/events/event-bus';
+import { exportMismo, importMismo } from '../../../lib/integrations/los/MismoSerializer';
+import { exportFilogix, importFilogix } from '../../../lib/integrations/los/FilogixSerializer';
+import { LosExportResult, LosImportResult } from '../../../lib/integrations/los/LosApplication';
+import { CRMLeadSchema } from '../../../lib/integrations/crm/CRMBridge';
+import { ScenarioInputSchema } from '../../../lib/scenario-types';
+import { LeadInputSchema } from '../../../lib/security';
+import { z } from 'zod';
 
 // Initialize analytics service
 const eventBus = new EventBus();
 const analyticsService = new AnalyticsService(eventBus);
 
+// Loan origination system formats: MISMO 3.4 for US lenders, Filogix-style deals for Canadian lenders
+const LOS_FORMATS = {
+  mismo: { export: exportMismo, import: importMismo },
+  filogix: { export: exportFilogix, import: importFilogix },
+};
+
+const LosExchangeSchema = z.object({
+  format: z.enum(['mismo', 'filogix']),
+  direction: z.enum(['export', 'import']).default('export'),
+  // Export: any of the platform's records for the borrower
+  lead: LeadInputSchema.optional(),
+  crmLead: CRMLeadSchema.optional(),
+  scenario: ScenarioInputSchema.optional(),
+  // Import: the LOS document
+  content: z.string().max(5000000).optional(),
+  // Return the document with its mapping report as JSON instead of as a file
+  includeReport: z.boolean().default(false),
+});
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    return handleLosExchange(req, res);
+  }
+
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -36,7 +66,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       res.setHeader('Content-Disposition', `attachment; filename="report-${reportId}.json"`);
       res.status(200).send(json);
     } else {
-      res.status(400).json({ error: 'Invalid format. Use csv or json' });
+      res.status(400).json({ error: 'Invalid format. Use csv or json, or POST for mismo or filogix' });
     }
   } catch (error) {
     console.error('Error exporting report:', error);
@@ -46,3 +76,52 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+async function handleLosExchange(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const request = LosExchangeSchema.parse(req.body);
+    const serializer = LOS_FORMATS[request.format];
+
+    if (request.direction === 'import') {
+      if (!request.content) {
+        return res.status(400).json({ error: 'Document content is required for import' });
+      }
+
+      const result: LosImportResult = serializer.import(request.content);
+      return res.status(result.errors.length > 0 ? 422 : 200).json({
+        success: result.errors.length === 0,
+        ...result
+      });
+    }
+
+    if (!request.lead && !request.crmLead && !request.scenario) {
+      return res.status(400).json({ error: 'A lead, CRM lead or scenario is required for export' });
+    }
+
+    const result: LosExportResult = serializer.export({
+      lead: request.lead,
+      crmLead: request.crmLead,
+      scenario: request.scenario
+    });
+
+    if (result.errors.length > 0 || request.includeReport) {
+      return res.status(result.errors.length > 0 ? 422 : 200).json({
+        success: result.errors.length === 0,
+        ...result
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/xml');
+    res.setHeader('Content-Disposition', `attachment; filename="application-${request.format}.xml"`);
+    res.status(200).send(result.content);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Error exchanging LOS document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to exchange LOS document'
+    });
+  }
+}
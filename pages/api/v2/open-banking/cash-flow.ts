@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { createOpenBankingService } from '../../../../lib/integrations/open-banking'
+import { summarizeCashFlow } from '../../../../lib/mortgage/cash-flow-analysis'
+import { getAuthenticatedUserId } from '../../../../lib/security'
+import { z } from 'zod'
+
+const CashFlowRequestSchema = z.object({
+  provider: z.enum(['plaid', 'flinks', 'yodlee', 'truelayer']).default('plaid'),
+  asOf: z.string().date().optional(),
+  statedAnnualIncome: z.number().positive().optional(),
+  statedDebts: z.union([
+    z.number().min(0),
+    z.array(z.object({ description: z.string(), monthlyPayment: z.number().min(0) })),
+  ]).optional(),
+  downPayment: z.number().min(0).optional(),
+  netPayRatio: z.number().gt(0).max(1).optional(),
+})
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    // Banking profiles are only ever read for the user behind the bearer token
+    const userId = await getAuthenticatedUserId(req)
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const { provider, ...options } = CashFlowRequestSchema.parse(req.body)
+
+    const openBankingService = createOpenBankingService(provider)
+    const result = await openBankingService.analyzeCashFlow(userId, options)
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error })
+    }
+
+    res.status(200).json({
+      success: true,
+      analysis: summarizeCashFlow(result.analysis!),
+    })
+  } catch (error) {
+    console.error('Open banking cash flow error:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { WebhookService } from '@/lib/webhooks/webhook-service'
+import { FirstContactCallbackSchema, leadSlaStore } from '@/lib/lead-sla-store'
+import { z } from 'zod'
+
+// First contact logged in a CRM, signed with the shared CRM callback secret
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const signature = req.headers['x-crm-signature'] as string
+    if (!signature) {
+      return res.status(400).json({ error: 'Missing required headers' })
+    }
+
+    const secret = process.env.CRM_CALLBACK_SECRET
+    if (!secret) {
+      return res.status(404).json({ error: 'CRM callbacks are not configured' })
+    }
+
+    let isValid = false
+    try {
+      isValid = WebhookService.verifyWebhookSignature(JSON.stringify(req.body), signature, secret)
+    } catch {
+      // Signatures of the wrong length cannot be compared
+    }
+
+    if (!isValid) {
+      return res.status(401).json({ error: 'Invalid signature' })
+    }
+
+    const callback = FirstContactCallbackSchema.parse(req.body)
+    const timer = await leadSlaStore.recordFirstContact(
+      callback.leadId,
+      'crm',
+      callback.contactedAt ? new Date(callback.contactedAt) : undefined
+    )
+
+    // A lead with no running timer was already contacted or reassigned
+    res.status(200).json({ received: true, timer })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    console.error('CRM contact callback error:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
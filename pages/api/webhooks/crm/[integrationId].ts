@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { WebhookService } from '@/lib/webhooks/webhook-service'
+import { crmBridge } from '@/lib/integrations/crm/CRMBridge'
+import { crmSyncService } from '@/lib/integrations/crm/CRMSync'
+
+// Stage, note and owner changes pushed by a connected CRM, signed with the integration's callback secret
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { integrationId } = req.query
+    if (!integrationId || typeof integrationId !== 'string') {
+      return res.status(400).json({ error: 'Invalid integration ID' })
+    }
+
+    const signature = req.headers['x-crm-signature'] as string
+    if (!signature) {
+      return res.status(400).json({ error: 'Missing required headers' })
+    }
+
+    const integration = crmBridge.getIntegration(integrationId)
+    const secret = integration?.configuration.callbackSecret || process.env.CRM_CALLBACK_SECRET
+    if (!integration || !secret) {
+      return res.status(404).json({ error: 'CRM sync is not configured for this integration' })
+    }
+
+    let isValid = false
+    try {
+      isValid = WebhookService.verifyWebhookSignature(JSON.stringify(req.body), signature, secret)
+    } catch {
+      // Signatures of the wrong length cannot be compared
+    }
+
+    if (!isValid) {
+      return res.status(401).json({ error: 'Invalid signature' })
+    }
+
+    // Changes that did not apply are in the sync log for replay, so the CRM need not retry
+    const result = await crmSyncService.handleWebhook(integrationId, req.body)
+    res.status(200).json({ received: true, outcomes: result.outcomes })
+
+  } catch (error) {
+    console.error('CRM sync webhook error:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
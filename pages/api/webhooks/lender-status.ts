@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { WebhookService } from '@/lib/webhooks/webhook-service'
+import { lenderIntegrationRegistry } from '@/lib/integrations/lenders/LenderIntegrationRegistry'
+import { LenderStatusCallbackSchema, submissionOrchestrator } from '@/lib/integrations/lenders/SubmissionOrchestrator'
+import { z } from 'zod'
+
+// Application status pushed by a lender, signed with the integration's callback secret
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const signature = req.headers['x-lender-signature'] as string
+    if (!signature) {
+      return res.status(400).json({ error: 'Missing required headers' })
+    }
+
+    const callback = LenderStatusCallbackSchema.parse(req.body)
+
+    const integration = lenderIntegrationRegistry.getIntegration(callback.lenderId)
+    const secret = integration?.configuration.callbackSecret || process.env.LENDER_CALLBACK_SECRET
+    if (!secret) {
+      return res.status(404).json({ error: 'Lender callbacks are not configured' })
+    }
+
+    let isValid = false
+    try {
+      isValid = WebhookService.verifyWebhookSignature(JSON.stringify(req.body), signature, secret)
+    } catch {
+      // Signatures of the wrong length cannot be compared
+    }
+
+    if (!isValid) {
+      return res.status(401).json({ error: 'Invalid signature' })
+    }
+
+    const transition = await submissionOrchestrator.handleCallback(callback)
+    res.status(200).json({ received: true, transition })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors })
+    }
+    console.error('Lender status callback error:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
@@ -8,6 +8,7 @@ import {
   CreditCard, 
   Webhook, 
   Settings,
+  Target,
   Menu,
   X,
   LogOut
@@ -45,6 +46,12 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
       icon: Palette,
       permission: 'manage_branding'
     },
+    {
+      name: 'Lead Scoring',
+      href: '/admin/lead-scoring',
+      icon: Target,
+      permission: 'leads'
+    },
     {
       name: 'API Keys',
       href: '/admin/api-keys',
@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react'
+import { useTenantContext } from '@/lib/tenancy/context'
+import { PermissionChecker } from '@/lib/tenancy/rbac'
+import { DEFAULT_LEAD_SCORING_MODEL, LeadScoringModel, maxScore } from '@/lib/lead-scoring'
+import type { BacktestResult, ScoringTier } from '@/lib/lead-scoring'
+import type { LeadScoringModelVersion, ModelBacktest } from '@/lib/lead-scoring-store'
+import {
+  Save,
+  BarChart3,
+  RotateCcw,
+  CheckCircle
+} from 'lucide-react'
+
+interface ModelField {
+  label: string
+  path: string[]
+  // Left blank to leave the feature all or nothing
+  optional?: boolean
+  step?: number
+  // Choices for a text setting instead of a number
+  options?: string[]
+}
+
+const MODEL_SECTIONS: Array<{ title: string; fields: ModelField[] }> = [
+  {
+    title: 'Income',
+    fields: [
+      { label: 'Points', path: ['income', 'points'] },
+      { label: 'Full points from ($)', path: ['income', 'threshold'], step: 1000 },
+      { label: 'Partial points from ($)', path: ['income', 'floor'], optional: true, step: 1000 },
+    ]
+  },
+  {
+    title: 'Down Payment',
+    fields: [
+      { label: 'Points', path: ['downPaymentPercent', 'points'] },
+      { label: 'Full points from (%)', path: ['downPaymentPercent', 'threshold'] },
+      { label: 'Partial points from (%)', path: ['downPaymentPercent', 'floor'], optional: true },
+    ]
+  },
+  {
+    title: 'Credit Score',
+    fields: [
+      { label: 'Points', path: ['creditScore', 'points'] },
+      { label: 'Full points from', path: ['creditScore', 'threshold'] },
+      { label: 'Partial points from', path: ['creditScore', 'floor'], optional: true },
+    ]
+  },
+  {
+    title: 'Debt Service',
+    fields: [
+      { label: 'Points', path: ['debtService', 'points'] },
+      { label: 'Full points up to TDS (%)', path: ['debtService', 'maxRatio'] },
+      { label: 'No points from TDS (%)', path: ['debtService', 'ceilingRatio'], optional: true },
+      { label: 'Points for qualifying', path: ['qualification', 'points'] },
+    ]
+  },
+  {
+    title: 'Employment',
+    fields: [
+      { label: 'Points', path: ['employment', 'points'] },
+      { label: 'Salaried share', path: ['employment', 'credit', 'salaried'], step: 0.1 },
+      { label: 'Self-employed share', path: ['employment', 'credit', 'self-employed'], step: 0.1 },
+      { label: 'Contract share', path: ['employment', 'credit', 'contract'], step: 0.1 },
+      { label: 'Unemployed share', path: ['employment', 'credit', 'unemployed'], step: 0.1 },
+    ]
+  },
+  {
+    title: 'Documents & Bank Data',
+    fields: [
+      { label: 'Points for verified documents', path: ['documents', 'verifiedPoints'] },
+      { label: 'Deduction for flagged documents', path: ['documents', 'flaggedPenalty'] },
+      { label: 'Deduction for NSF activity', path: ['bankConduct', 'nsfPenalty'] },
+      { label: 'Deduction for undisclosed debt', path: ['bankConduct', 'undisclosedDebtPenalty'] },
+    ]
+  },
+  {
+    title: 'Tiers & Assumptions',
+    fields: [
+      { label: 'Premium from score', path: ['tiers', 'premium'] },
+      { label: 'Standard from score', path: ['tiers', 'standard'] },
+      { label: 'Qualification rules', path: ['assumptions', 'country'], options: ['CA', 'US'] },
+      { label: 'Contract rate (%)', path: ['assumptions', 'interestRate'], step: 0.05 },
+      { label: 'Amortization (years)', path: ['assumptions', 'amortizationYears'] },
+      { label: 'Property tax (% of value)', path: ['assumptions', 'propertyTaxRate'], step: 0.1 },
+      { label: 'Monthly heating ($)', path: ['assumptions', 'monthlyHeating'] },
+    ]
+  },
+]
+
+const TIERS: ScoringTier[] = ['PREMIUM', 'STANDARD', 'COACHING']
+
+const readField = (model: LeadScoringModel, path: string[]): number | string | undefined =>
+  path.reduce((value: any, key) => value?.[key], model)
+
+const writeField = (model: LeadScoringModel, path: string[], value: number | string | undefined): LeadScoringModel => {
+  const next: any = JSON.parse(JSON.stringify(model))
+  const parent = path.slice(0, -1).reduce((target: any, key) => target[key], next)
+  if (value === undefined) {
+    delete parent[path[path.length - 1]]
+  } else {
+    parent[path[path.length - 1]] = value
+  }
+  return next
+}
+
+const LeadScoringManagement: React.FC = () => {
+  const { organization, user, role } = useTenantContext()
+  const [draft, setDraft] = useState<LeadScoringModel>(DEFAULT_LEAD_SCORING_MODEL)
+  const [active, setActive] = useState<LeadScoringModelVersion | null>(null)
+  const [versions, setVersions] = useState<LeadScoringModelVersion[]>([])
+  const [notes, setNotes] = useState('')
+  const [backtest, setBacktest] = useState<ModelBacktest | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadModels()
+  }, [organization?.id])
+
+  const apiUrl = () =>
+    `/api/admin/lead-scoring?userId=${user?.id}&userRole=${role}&organizationId=${organization?.id}`
+
+  const loadModels = async () => {
+    if (!organization?.id || !user?.id) return
+
+    try {
+      setLoading(true)
+      const response = await fetch(apiUrl())
+      if (!response.ok) throw new Error('Failed to load scoring models')
+      const data = await response.json()
+      setActive(data.active)
+      setVersions(data.versions)
+      setDraft(data.active.model)
+    } catch (err) {
+      console.error('Failed to load scoring models:', err)
+      setError('Failed to load scoring models')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const postAction = async (body: Record<string, unknown>) => {
+    const response = await fetch(apiUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.details?.[0]?.message || data.error || 'Request failed')
+    }
+    return data
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      await postAction({ action: 'save', model: draft, notes: notes || undefined })
+      setNotes('')
+      await loadModels()
+    } catch (err) {
+      console.error('Failed to save scoring model:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save scoring model')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleBacktest = async () => {
+    try {
+      setTesting(true)
+      setError(null)
+      setBacktest(await postAction({ action: 'backtest', model: draft }))
+    } catch (err) {
+      console.error('Failed to backtest scoring model:', err)
+      setError(err instanceof Error ? err.message : 'Failed to backtest scoring model')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleActivate = async (version: number) => {
+    try {
+      setError(null)
+      await postAction({ action: 'activate', version })
+      await loadModels()
+    } catch (err) {
+      console.error('Failed to activate scoring model:', err)
+      setError(err instanceof Error ? err.message : 'Failed to activate scoring model')
+    }
+  }
+
+  const handleFieldChange = (field: ModelField, raw: string) => {
+    if (field.options) {
+      setDraft(prev => writeField(prev, field.path, raw))
+      return
+    }
+    const value = raw === '' ? undefined : Number(raw)
+    if (value !== undefined && isNaN(value)) return
+    if (value === undefined && !field.optional) return
+    setDraft(prev => writeField(prev, field.path, value))
+  }
+
+  if (!PermissionChecker.can(role, 'read', 'leads')) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to manage lead scoring.</p>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  const totalPoints = maxScore(draft)
+  const canEdit = PermissionChecker.can(role, 'write', 'leads')
+
+  const renderBacktest = (label: string, result: BacktestResult) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 mb-2">{label}</h4>
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-gray-500">AUC</dt>
+        <dd className="text-gray-900">{result.auc}</dd>
+        <dt className="text-gray-500">Premium lift</dt>
+        <dd className="text-gray-900">{result.premiumLift}x</dd>
+        <dt className="text-gray-500">Avg score (converted / not)</dt>
+        <dd className="text-gray-900">{result.averageScore.converted} / {result.averageScore.notConverted}</dd>
+        {TIERS.map(tier => (
+          <React.Fragment key={tier}>
+            <dt className="text-gray-500">{tier.charAt(0) + tier.slice(1).toLowerCase()}</dt>
+            <dd className="text-gray-900">
+              {result.tiers[tier].leads} leads, {result.tiers[tier].conversionRate}% converted
+            </dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Lead Scoring</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Weights and thresholds your leads are scored with. Active model: {active && active.version > 0 ? `version ${active.version}` : 'default'}.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex space-x-3">
+          <button
+            type="button"
+            onClick={handleBacktest}
+            disabled={testing || totalPoints !== 100}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <BarChart3 className="h-4 w-4 mr-2" />
+            {testing ? 'Backtesting...' : 'Backtest'}
+          </button>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || totalPoints !== 100}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save as New Version'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <div className={`rounded-md p-4 ${totalPoints === 100 ? 'bg-green-50' : 'bg-yellow-50'}`}>
+        <div className={`text-sm ${totalPoints === 100 ? 'text-green-700' : 'text-yellow-700'}`}>
+          Feature points add up to {totalPoints} of 100
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {MODEL_SECTIONS.map(section => (
+          <div key={section.title} className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{section.title}</h3>
+            <div className="space-y-4">
+              {section.fields.map(field => {
+                const value = readField(draft, field.path)
+                return (
+                  <div key={field.path.join('.')}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {field.label}
+                    </label>
+                    {field.options ? (
+                      <select
+                        value={value}
+                        disabled={!canEdit}
+                        onChange={(e) => handleFieldChange(field, e.target.value)}
+                        className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {field.options.map(option => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="number"
+                        step={field.step || 1}
+                        value={value === undefined ? '' : value}
+                        placeholder={field.optional ? 'All or nothing' : undefined}
+                        disabled={!canEdit}
+                        onChange={(e) => handleFieldChange(field, e.target.value)}
+                        className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Change notes
+          </label>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder="Why these weights changed"
+          />
+        </div>
+      )}
+
+      {backtest && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Backtest</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            {backtest.candidate.sampleSize} historical leads with {backtest.candidate.conversions} conversions
+            ({backtest.skipped} without an outcome yet were left out)
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderBacktest('This draft', backtest.candidate)}
+            {renderBacktest(backtest.active.version > 0 ? `Active (version ${backtest.active.version})` : 'Active (default)', backtest.active)}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Version History</h3>
+        </div>
+        <ul className="divide-y divide-gray-200">
+          {versions.length === 0 && (
+            <li className="px-6 py-4 text-sm text-gray-500">No saved versions; leads are scored with the default model.</li>
+          )}
+          {versions.map(version => (
+            <li key={version.version} className="px-6 py-4 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  Version {version.version}
+                  {version.active && <CheckCircle className="inline h-4 w-4 ml-2 text-green-600" />}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {version.createdAt && new Date(version.createdAt).toLocaleString()}
+                  {version.notes && ` — ${version.notes}`}
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setDraft(version.model)}
+                  className="text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                  Load
+                </button>
+                {canEdit && !version.active && (
+                  <button
+                    type="button"
+                    onClick={() => handleActivate(version.version)}
+                    className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Activate
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
+
+export default LeadScoringManagement
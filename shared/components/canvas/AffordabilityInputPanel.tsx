@@ -8,10 +8,12 @@ import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
 import { Calculator, DollarSign, Home, TrendingUp } from 'lucide-react'
+import type { MaxPriceSolution } from '@/lib/scenario-types'
 
 interface AffordabilityInputPanelProps {
   onCalculate: (data: AffordabilityInput) => void
   loading?: boolean
+  maxPriceSolution?: MaxPriceSolution
 }
 
 export interface AffordabilityInput {
@@ -26,9 +28,13 @@ export interface AffordabilityInput {
   taxes?: number
   insurance?: number
   hoa?: number
+  heating?: number
+  firstTimeBuyer?: boolean
+  creditScore?: number
+  loanProgram?: 'conventional' | 'fha'
 }
 
-export function AffordabilityInputPanel({ onCalculate, loading = false }: AffordabilityInputPanelProps) {
+export function AffordabilityInputPanel({ onCalculate, loading = false, maxPriceSolution }: AffordabilityInputPanelProps) {
   const [formData, setFormData] = useState<AffordabilityInput>({
     country: 'CA',
     income: 75000,
@@ -41,6 +47,7 @@ export function AffordabilityInputPanel({ onCalculate, loading = false }: Afford
     taxes: 0,
     insurance: 0,
     hoa: 0,
+    firstTimeBuyer: false,
   })
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -220,8 +227,56 @@ export function AffordabilityInputPanel({ onCalculate, loading = false }: Afford
             </Select>
           </div>
 
+          {/* First-Time Buyer */}
+          <div className="space-y-2">
+            <Label htmlFor="firstTimeBuyer">First-Time Home Buyer</Label>
+            <Select
+              value={formData.firstTimeBuyer ? 'yes' : 'no'}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, firstTimeBuyer: value === 'yes' }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="no">No</SelectItem>
+                <SelectItem value="yes">Yes (land transfer tax rebates apply)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Mortgage Insurance (US) */}
+          {formData.country === 'US' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="loanProgram">Loan Program</Label>
+                <Select
+                  value={formData.loanProgram || 'conventional'}
+                  onValueChange={(value: 'conventional' | 'fha') => setFormData(prev => ({ ...prev, loanProgram: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="conventional">Conventional</SelectItem>
+                    <SelectItem value="fha">FHA</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="creditScore">Credit Score</Label>
+                <Input
+                  id="creditScore"
+                  type="number"
+                  value={formData.creditScore ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, creditScore: parseInt(e.target.value) || undefined }))}
+                  placeholder="e.g., 720"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Additional Costs */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className={`grid grid-cols-1 gap-4 ${formData.country === 'CA' ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
             <div className="space-y-2">
               <Label htmlFor="taxes">Property Taxes (Monthly)</Label>
               <Input
@@ -252,6 +307,18 @@ export function AffordabilityInputPanel({ onCalculate, loading = false }: Afford
                 placeholder="0"
               />
             </div>
+            {formData.country === 'CA' && (
+              <div className="space-y-2">
+                <Label htmlFor="heating">Heating (Monthly)</Label>
+                <Input
+                  id="heating"
+                  type="number"
+                  value={formData.heating || 0}
+                  onChange={(e) => setFormData(prev => ({ ...prev, heating: parseFloat(e.target.value) || 0 }))}
+                  placeholder="0"
+                />
+              </div>
+            )}
           </div>
 
           <Button 
@@ -272,6 +339,48 @@ export function AffordabilityInputPanel({ onCalculate, loading = false }: Afford
             )}
           </Button>
         </form>
+
+        {/* Maximum Purchase Price */}
+        {maxPriceSolution && (
+          <div className="mt-6 p-4 border border-gray-200 rounded-lg space-y-3" data-testid="max-price-solution">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Maximum purchase price</p>
+                <p className="text-2xl font-semibold text-gray-900">{formatCurrency(maxPriceSolution.maxPurchasePrice)}</p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData(prev => ({ ...prev, propertyPrice: Math.floor(maxPriceSolution.maxPurchasePrice) }))}
+              >
+                Use this price
+              </Button>
+            </div>
+            <p className="text-sm text-gray-700">{maxPriceSolution.explanation}</p>
+            <div className="space-y-1 text-sm">
+              {maxPriceSolution.limits.map(limit => (
+                <div key={limit.constraint} className="flex justify-between">
+                  <span className={limit.binding ? 'font-medium text-gray-900' : 'text-gray-600'}>
+                    {limit.label}{limit.binding ? ' (limiting)' : ''}
+                  </span>
+                  <span className="text-gray-900">{formatCurrency(limit.maxPrice)}</span>
+                </div>
+              ))}
+            </div>
+            {maxPriceSolution.nextBand && (
+              <div className="text-sm text-gray-600 pt-2 border-t border-gray-100">
+                <p className="font-medium text-gray-900">To reach {formatCurrency(maxPriceSolution.nextBand.targetPrice)}:</p>
+                {maxPriceSolution.nextBand.additionalIncome !== undefined && (
+                  <p>Earn {formatCurrency(maxPriceSolution.nextBand.additionalIncome)} more per year</p>
+                )}
+                {maxPriceSolution.nextBand.additionalDownPayment !== undefined && (
+                  <p>Or put {formatCurrency(maxPriceSolution.nextBand.additionalDownPayment)} more down</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
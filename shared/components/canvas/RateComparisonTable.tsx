@@ -20,6 +20,32 @@ interface RateResult {
     email: string
     website: string
   }
+  product?: string
+  rateSheetId?: string
+  rateSheetVersion?: number
+  baseRate?: number
+  pricing?: {
+    adjustments: Array<{
+      ruleId: string
+      label: string
+      unit: 'rate' | 'points'
+      amount: number
+    }>
+    upfrontPoints: number
+    upfrontCost: number
+    buyDown?: {
+      points: number
+      rateReduction: number
+      breakEvenMonths?: number
+    }
+  }
+  aprDisclosure?: {
+    method: 'reg_z_actuarial' | 'cost_of_borrowing'
+    financeCharge: number
+    includedFees: Array<{ type: string; label: string; amount: number }>
+    excludedFees: Array<{ type: string; label: string; amount: number }>
+    monthlyMortgageInsurance?: number
+  }
 }
 
 interface RateComparisonTableProps {
@@ -40,6 +66,13 @@ export function RateComparisonTable({ rates, loading = false, onContactLender }:
     return `${rate.toFixed(3)}%`
   }
 
+  const formatAdjustment = (adjustment: { unit: 'rate' | 'points'; amount: number }) => {
+    const sign = adjustment.amount > 0 ? '+' : ''
+    return adjustment.unit === 'rate'
+      ? `${sign}${adjustment.amount.toFixed(3)}%`
+      : `${sign}${adjustment.amount.toFixed(3)} pts`
+  }
+
   const getRateTypeColor = (type: 'fixed' | 'variable') => {
     return type === 'fixed' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
   }
@@ -109,6 +142,7 @@ export function RateComparisonTable({ rates, loading = false, onContactLender }:
                 <TableHead>Lender</TableHead>
                 <TableHead>Rate</TableHead>
                 <TableHead>APR</TableHead>
+                <TableHead>Points</TableHead>
                 <TableHead>Type</TableHead>
                 <TableHead>Monthly Payment</TableHead>
                 <TableHead>Features</TableHead>
@@ -129,12 +163,68 @@ export function RateComparisonTable({ rates, loading = false, onContactLender }:
                         </Badge>
                       )}
                     </div>
+                    {rate.rateSheetVersion !== undefined && (
+                      <div className="text-xs text-muted-foreground" title={rate.rateSheetId}>
+                        {rate.product ? `${rate.product} • ` : ''}Rate sheet v{rate.rateSheetVersion}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="font-mono text-lg">
                     {formatRate(rate.rate)}
+                    {rate.pricing && rate.baseRate !== undefined && (
+                      <div className="mt-1 space-y-0.5 font-sans text-xs text-muted-foreground">
+                        <div>Base {formatRate(rate.baseRate)}</div>
+                        {rate.pricing.adjustments.map(adjustment => (
+                          <div key={adjustment.ruleId}>
+                            {adjustment.label}: {formatAdjustment(adjustment)}
+                          </div>
+                        ))}
+                        {rate.pricing.buyDown && (
+                          <div>
+                            Buy-down {rate.pricing.buyDown.points} pts: -{rate.pricing.buyDown.rateReduction.toFixed(3)}%
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="font-mono">
                     {formatRate(rate.apr)}
+                    {rate.aprDisclosure && (
+                      <div className="mt-1 space-y-0.5 font-sans text-xs text-muted-foreground">
+                        {rate.aprDisclosure.includedFees.map(fee => (
+                          <div key={`${fee.type}-${fee.label}`}>
+                            {fee.label}: {formatCurrency(fee.amount)}
+                          </div>
+                        ))}
+                        {rate.aprDisclosure.monthlyMortgageInsurance !== undefined && (
+                          <div>Mortgage insurance: {formatCurrency(rate.aprDisclosure.monthlyMortgageInsurance)}/mo</div>
+                        )}
+                        <div>
+                          {rate.aprDisclosure.method === 'reg_z_actuarial' ? 'Finance charge' : 'Cost of borrowing'}:{' '}
+                          {formatCurrency(rate.aprDisclosure.financeCharge)}
+                        </div>
+                        {rate.aprDisclosure.excludedFees.length > 0 && (
+                          <div title={rate.aprDisclosure.excludedFees.map(fee => `${fee.label}: ${formatCurrency(fee.amount)}`).join('\n')}>
+                            Excludes {rate.aprDisclosure.excludedFees.map(fee => fee.label.toLowerCase()).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    {rate.pricing ? (
+                      <div>
+                        <div>{rate.pricing.upfrontPoints.toFixed(3)}</div>
+                        {rate.pricing.upfrontCost !== 0 && (
+                          <div className="text-xs text-muted-foreground">{formatCurrency(rate.pricing.upfrontCost)}</div>
+                        )}
+                        {rate.pricing.buyDown?.breakEvenMonths !== undefined && (
+                          <div className="font-sans text-xs text-muted-foreground">
+                            Breaks even in {rate.pricing.buyDown.breakEvenMonths} months
+                          </div>
+                        )}
+                      </div>
+                    ) : '—'}
                   </TableCell>
                   <TableCell>
                     <Badge className={getRateTypeColor(rate.type)}>
@@ -75,15 +75,17 @@ export function ScenarioComparisonChart({
   }, [comparison.scenarios, visibleScenarios])
 
   const amortizationData = useMemo(() => {
-    const maxMonths = Math.max(...comparison.scenarios.map(s => s.amortizationSchedule.length))
+    const maxYears = Math.max(...comparison.scenarios.map(s =>
+      Math.ceil((s.amortizationSchedule[s.amortizationSchedule.length - 1]?.month || 0) / 12)
+    ))
     const data = []
     
-    for (let month = 0; month < maxMonths; month += 12) { // Every 12 months
-      const yearData: any = { year: Math.floor(month / 12) }
+    for (let year = 0; year < maxYears; year++) { // First payment period of each year
+      const yearData: any = { year }
       
       comparison.scenarios.forEach((scenario, index) => {
         if (visibleScenarios.has(scenario.scenarioId)) {
-          const scheduleEntry = scenario.amortizationSchedule[month]
+          const scheduleEntry = scenario.amortizationSchedule.find(entry => entry.month > year * 12)
           if (scheduleEntry) {
             yearData[`scenario${index + 1}_balance`] = scheduleEntry.balance
             yearData[`scenario${index + 1}_interest`] = scheduleEntry.cumulativeInterest
@@ -98,6 +100,27 @@ export function ScenarioComparisonChart({
     return data
   }, [comparison.scenarios, visibleScenarios])
 
+  const rentVsBuyData = useMemo(() => {
+    const maxYears = Math.max(0, ...comparison.scenarios.map(s => s.rentVsBuy?.years.length || 0))
+    const data = []
+
+    for (let year = 1; year <= maxYears; year++) {
+      const yearData: any = { year }
+
+      comparison.scenarios.forEach((scenario, index) => {
+        const entry = scenario.rentVsBuy?.years[year - 1]
+        if (visibleScenarios.has(scenario.scenarioId) && entry) {
+          yearData[`scenario${index + 1}_buy`] = entry.buyNetWorth
+          yearData[`scenario${index + 1}_rent`] = entry.rentNetWorth
+        }
+      })
+
+      data.push(yearData)
+    }
+
+    return data
+  }, [comparison.scenarios, visibleScenarios])
+
   const pieData = useMemo(() => {
     const totalCost = chartData.reduce((sum, item) => sum + item.totalCost, 0)
     return chartData.map((item, index) => ({
@@ -193,10 +216,11 @@ export function ScenarioComparisonChart({
 
           {/* Chart Tabs */}
           <Tabs value={activeChart} onValueChange={setActiveChart}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="amortization">Amortization</TabsTrigger>
               <TabsTrigger value="breakdown">Breakdown</TabsTrigger>
+              <TabsTrigger value="rentvsbuy">Rent vs Buy</TabsTrigger>
               <TabsTrigger value="risk">Risk Analysis</TabsTrigger>
             </TabsList>
 
@@ -360,6 +384,60 @@ export function ScenarioComparisonChart({
               </div>
             </TabsContent>
 
+            <TabsContent value="rentvsbuy" className="space-y-4">
+              {rentVsBuyData.length > 0 ? (
+                <div className="h-80">
+                  <h4 className="text-lg font-semibold mb-4">Net Worth: Buying vs Renting</h4>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <RechartsLineChart data={rentVsBuyData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" />
+                      <YAxis tickFormatter={(value) => `$${value.toLocaleString()}`} />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Legend />
+                      {comparison.scenarios.map((scenario, index) => {
+                        if (!visibleScenarios.has(scenario.scenarioId) || !scenario.rentVsBuy) return null
+                        return [
+                          <Line
+                            key={`buy-${index}`}
+                            type="monotone"
+                            dataKey={`scenario${index + 1}_buy`}
+                            stroke={getScenarioColor(index)}
+                            strokeWidth={2}
+                            name={`Scenario ${index + 1} Buy`}
+                          />,
+                          <Line
+                            key={`rent-${index}`}
+                            type="monotone"
+                            dataKey={`scenario${index + 1}_rent`}
+                            stroke={getScenarioColor(index)}
+                            strokeDasharray="5 5"
+                            name={`Scenario ${index + 1} Rent`}
+                          />,
+                        ]
+                      })}
+                      {comparison.scenarios.map((scenario, index) => {
+                        if (!visibleScenarios.has(scenario.scenarioId) || scenario.rentVsBuy?.crossoverYear === undefined) return null
+                        return (
+                          <ReferenceLine
+                            key={`crossover-${index}`}
+                            x={scenario.rentVsBuy.crossoverYear}
+                            stroke={getScenarioColor(index)}
+                            strokeDasharray="3 3"
+                            label={`Crossover (Scenario ${index + 1})`}
+                          />
+                        )
+                      })}
+                    </RechartsLineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No rent vs buy scenarios to compare. Set a scenario's type to Rent vs Buy to see the net worth comparison.
+                </p>
+              )}
+            </TabsContent>
+
             <TabsContent value="risk" className="space-y-4">
               {/* Risk Factors Analysis */}
               <div className="space-y-4">
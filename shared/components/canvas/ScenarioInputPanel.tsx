@@ -24,10 +24,23 @@ import {
   CheckCircle,
   Info
 } from 'lucide-react'
-import { ScenarioInput, ScenarioResult } from '@/lib/scenario-types'
+import { ScenarioInput, ScenarioResult, PrepaymentPlan, RentVsBuyInput } from '@/lib/scenario-types'
 import { ScenarioManager } from '@/lib/scenario-manager'
+import { PAYMENT_FREQUENCIES, PaymentFrequency } from '@/lib/mortgage/amortization'
 import { ExplainabilityAgent } from '@/lib/explainability-agent'
 
+const DEFAULT_RENT_VS_BUY: RentVsBuyInput = {
+  monthlyRent: 2500,
+  rentInflation: 3,
+  investmentReturn: 5,
+  appreciationRate: 3,
+  appreciationSource: 'assumed',
+  maintenanceRate: 1,
+  sellingCostRate: 5,
+  rentersInsurance: 0,
+  horizonYears: 30,
+}
+
 interface ScenarioInputPanelProps {
   onScenarioUpdate: (scenario: ScenarioResult) => void
   onComparisonUpdate: (scenarios: ScenarioResult[]) => void
@@ -64,9 +77,12 @@ export function ScenarioInputPanel({
           propertyPrice: 500000,
           downPayment: 50000,
           interestRate: 5.5,
-          termYears: 25,
+          termYears: 5,
+          amortizationYears: 25,
           rateType: 'fixed',
           location: 'Toronto, ON',
+          country: 'CA',
+          paymentFrequency: 'monthly',
           taxes: 0,
           insurance: 0,
           hoa: 0,
@@ -126,6 +142,66 @@ export function ScenarioInputPanel({
     setIsDirty(true)
   }
 
+  const updatePrepaymentPlan = (updates: Partial<PrepaymentPlan>) => {
+    setScenarios(prev => {
+      const newScenarios = [...prev]
+      const current = newScenarios[activeScenarioIndex]
+      newScenarios[activeScenarioIndex] = {
+        ...current,
+        prepaymentPlan: {
+          paymentIncreases: [],
+          ...current.prepaymentPlan,
+          ...updates,
+        },
+        metadata: {
+          ...current.metadata,
+          updatedAt: new Date().toISOString(),
+        },
+      }
+      return newScenarios
+    })
+    setIsDirty(true)
+  }
+
+  const updateRentVsBuy = (updates: Partial<RentVsBuyInput>) => {
+    setScenarios(prev => {
+      const newScenarios = [...prev]
+      const current = newScenarios[activeScenarioIndex]
+      newScenarios[activeScenarioIndex] = {
+        ...current,
+        rentVsBuy: {
+          ...DEFAULT_RENT_VS_BUY,
+          ...current.rentVsBuy,
+          ...updates,
+        },
+        metadata: {
+          ...current.metadata,
+          updatedAt: new Date().toISOString(),
+        },
+      }
+      return newScenarios
+    })
+    setIsDirty(true)
+  }
+
+  const updateScenarioType = (scenarioType: 'purchase' | 'rent_vs_buy') => {
+    setScenarios(prev => {
+      const newScenarios = [...prev]
+      const current = newScenarios[activeScenarioIndex]
+      newScenarios[activeScenarioIndex] = {
+        ...current,
+        scenarioType,
+        rentVsBuy: scenarioType === 'rent_vs_buy' ? current.rentVsBuy || DEFAULT_RENT_VS_BUY : current.rentVsBuy,
+        metadata: {
+          ...current.metadata,
+          updatedAt: new Date().toISOString(),
+        },
+      }
+      return newScenarios
+    })
+    setIsDirty(true)
+  }
+
   const addScenario = () => {
     const newScenario: ScenarioInput = {
       id: `scenario_${Date.now()}`,
@@ -390,9 +466,10 @@ export function ScenarioInputPanel({
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="basic" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="basic">Basic</TabsTrigger>
               <TabsTrigger value="advanced">Advanced</TabsTrigger>
+              <TabsTrigger value="rentvsbuy">Rent vs Buy</TabsTrigger>
               <TabsTrigger value="whatif">What-If</TabsTrigger>
             </TabsList>
 
@@ -465,10 +542,31 @@ export function ScenarioInputPanel({
 
               {/* Term Years */}
               <div className="space-y-2">
-                <Label htmlFor="termYears">Amortization Period (Years)</Label>
+                <Label htmlFor="termYears">Term (Years)</Label>
                 <Select
                   value={currentScenario?.parameters.termYears.toString()}
                   onValueChange={(value) => updateScenario({ termYears: parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1 year</SelectItem>
+                    <SelectItem value="2">2 years</SelectItem>
+                    <SelectItem value="3">3 years</SelectItem>
+                    <SelectItem value="5">5 years</SelectItem>
+                    <SelectItem value="7">7 years</SelectItem>
+                    <SelectItem value="10">10 years</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Amortization Years */}
+              <div className="space-y-2">
+                <Label htmlFor="amortizationYears">Amortization Period (Years)</Label>
+                <Select
+                  value={(currentScenario?.parameters.amortizationYears || currentScenario?.parameters.termYears)?.toString()}
+                  onValueChange={(value) => updateScenario({ amortizationYears: parseInt(value) })}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -499,6 +597,26 @@ export function ScenarioInputPanel({
                   </SelectContent>
                 </Select>
               </div>
+
+              {/* Payment Frequency */}
+              <div className="space-y-2">
+                <Label htmlFor="paymentFrequency">Payment Frequency</Label>
+                <Select
+                  value={currentScenario?.parameters.paymentFrequency || 'monthly'}
+                  onValueChange={(value: PaymentFrequency) => updateScenario({ paymentFrequency: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_FREQUENCIES) as PaymentFrequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {PAYMENT_FREQUENCIES[frequency].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </TabsContent>
 
             <TabsContent value="advanced" className="space-y-6">
@@ -546,6 +664,201 @@ export function ScenarioInputPanel({
                   />
                 </div>
               </div>
+
+              {/* Prepayments */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="annualLumpSum">Annual Lump Sum</Label>
+                  <Input
+                    id="annualLumpSum"
+                    type="number"
+                    value={currentScenario?.prepaymentPlan?.annualLumpSum?.amount || 0}
+                    onChange={(e) => {
+                      const amount = parseFloat(e.target.value) || 0
+                      updatePrepaymentPlan({ annualLumpSum: amount > 0 ? { amount, startYear: 1 } : undefined })
+                    }}
+                    placeholder="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurringExtraPayment">Extra Payment (Per Payment)</Label>
+                  <Input
+                    id="recurringExtraPayment"
+                    type="number"
+                    value={currentScenario?.prepaymentPlan?.recurringExtraPayment?.amount || 0}
+                    onChange={(e) => {
+                      const amount = parseFloat(e.target.value) || 0
+                      updatePrepaymentPlan({ recurringExtraPayment: amount > 0 ? { amount, startPeriod: 1 } : undefined })
+                    }}
+                    placeholder="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="prepaymentPrivilege">Prepayment Privilege (% / Year)</Label>
+                  <Input
+                    id="prepaymentPrivilege"
+                    type="number"
+                    value={currentScenario?.prepaymentPlan?.privileges?.annualPrepaymentPercent ?? ''}
+                    onChange={(e) => {
+                      const percent = parseFloat(e.target.value)
+                      updatePrepaymentPlan({
+                        privileges: {
+                          ...currentScenario?.prepaymentPlan?.privileges,
+                          annualPrepaymentPercent: isNaN(percent) ? undefined : percent,
+                        },
+                      })
+                    }}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+
+              {currentResult?.prepayment && (
+                <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+                  <p>
+                    Saves {formatCurrency(currentResult.prepayment.interestSaved)} in interest and pays off{' '}
+                    {currentResult.prepayment.monthsSaved} months sooner
+                  </p>
+                  {currentResult.prepayment.violations.map((violation, index) => (
+                    <p key={index} className="text-red-600 flex items-start gap-2">
+                      <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      {violation.description}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {currentResult?.renewals && (
+                <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+                  <p className="font-medium">Renewals</p>
+                  {currentResult.renewals.terms.slice(1).map(term => (
+                    <p key={term.termNumber}>
+                      Month {term.startMonth}: renew {formatCurrency(term.openingBalance)} at {term.rate.toFixed(2)}%
+                      {' '}({term.paymentChangePercent >= 0 ? '+' : ''}{term.paymentChangePercent.toFixed(1)}% payment)
+                    </p>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="rentvsbuy" className="space-y-6">
+              {/* Scenario Type */}
+              <div className="space-y-2">
+                <Label htmlFor="scenarioType">Scenario Type</Label>
+                <Select
+                  value={currentScenario?.scenarioType || 'purchase'}
+                  onValueChange={(value: 'purchase' | 'rent_vs_buy') => updateScenarioType(value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="purchase">Purchase</SelectItem>
+                    <SelectItem value="rent_vs_buy">Rent vs Buy</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {currentScenario?.scenarioType === 'rent_vs_buy' && currentScenario.rentVsBuy && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlyRent">Current Rent (Monthly)</Label>
+                      <Input
+                        id="monthlyRent"
+                        type="number"
+                        value={currentScenario.rentVsBuy.monthlyRent}
+                        onChange={(e) => updateRentVsBuy({ monthlyRent: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rentInflation">Rent Inflation (% / Year)</Label>
+                      <Input
+                        id="rentInflation"
+                        type="number"
+                        value={currentScenario.rentVsBuy.rentInflation}
+                        onChange={(e) => updateRentVsBuy({ rentInflation: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="investmentReturn">Investment Return (% / Year)</Label>
+                      <Input
+                        id="investmentReturn"
+                        type="number"
+                        value={currentScenario.rentVsBuy.investmentReturn}
+                        onChange={(e) => updateRentVsBuy({ investmentReturn: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="appreciationSource">Home Appreciation</Label>
+                      <Select
+                        value={currentScenario.rentVsBuy.appreciationSource}
+                        onValueChange={(value: 'assumed' | 'forecast') => updateRentVsBuy({ appreciationSource: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="assumed">Assumed rate</SelectItem>
+                          <SelectItem value="forecast">Market forecast</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="appreciationRate">Appreciation (% / Year)</Label>
+                      <Input
+                        id="appreciationRate"
+                        type="number"
+                        value={currentScenario.rentVsBuy.appreciationRate ?? ''}
+                        disabled={currentScenario.rentVsBuy.appreciationSource === 'forecast'}
+                        onChange={(e) => updateRentVsBuy({ appreciationRate: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="maintenanceRate">Maintenance (% of Value / Year)</Label>
+                      <Input
+                        id="maintenanceRate"
+                        type="number"
+                        value={currentScenario.rentVsBuy.maintenanceRate}
+                        onChange={(e) => updateRentVsBuy({ maintenanceRate: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sellingCostRate">Selling Costs (% of Value)</Label>
+                      <Input
+                        id="sellingCostRate"
+                        type="number"
+                        value={currentScenario.rentVsBuy.sellingCostRate}
+                        onChange={(e) => updateRentVsBuy({ sellingCostRate: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+
+                  {currentResult?.rentVsBuy && (
+                    <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+                      <p className="font-medium">
+                        {currentResult.rentVsBuy.crossoverYear !== undefined
+                          ? `Buying pulls ahead of renting in year ${currentResult.rentVsBuy.crossoverYear}`
+                          : `Renting stays ahead for all ${currentScenario.rentVsBuy.horizonYears} years`}
+                      </p>
+                      <p>
+                        Net worth after {currentScenario.rentVsBuy.horizonYears} years: buy{' '}
+                        {formatCurrency(currentResult.rentVsBuy.finalBuyNetWorth)}, rent{' '}
+                        {formatCurrency(currentResult.rentVsBuy.finalRentNetWorth)}
+                      </p>
+                      <p className="text-muted-foreground">
+                        Appreciation {currentResult.rentVsBuy.appreciationRate.toFixed(2)}% per year ({currentResult.rentVsBuy.appreciationSource})
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
             </TabsContent>
 
             <TabsContent value="whatif" className="space-y-6">
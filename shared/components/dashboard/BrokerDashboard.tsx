@@ -22,7 +22,10 @@ import {
   XCircle,
   BarChart3,
   PieChart as PieChartIcon,
-  Activity
+  Activity,
+  RefreshCw,
+  Send,
+  GitMerge
 } from 'lucide-react'
 import { useAuth } from '@/lib/auth'
 import { supabase } from '@/lib/supabase'
@@ -42,6 +45,14 @@ interface Lead {
   lead_data: any
 }
 
+// Another lead flagged as possibly the same borrower
+interface LeadDuplicate {
+  flagId: string
+  leadId: string
+  confidence: 'certain' | 'likely' | 'possible'
+  reasons: string[]
+}
+
 interface BrokerMetrics {
   total_leads_received: number
   total_leads_contacted: number
@@ -51,6 +62,16 @@ interface BrokerMetrics {
   avg_response_time_minutes: number
 }
 
+interface LeadSlaStats {
+  activeTimers: number
+  overdue: number
+  metWithinSla: number
+  breached: number
+  breachRate: number
+  averageFirstContactHours: number
+  escalations: { reminder: number; team_lead_alert: number; reassignment: number }
+}
+
 interface CommissionReport {
   id: string
   lead_id: string
@@ -60,11 +81,43 @@ interface CommissionReport {
   created_at: string
 }
 
+interface LenderSubmissionRow {
+  id: string
+  lender_id: string
+  lender_name: string
+  external_application_id: string | null
+  status: 'submitted' | 'conditionally_approved' | 'commitment' | 'funded' | 'declined' | 'withdrawn' | 'failed'
+  conditions: string[]
+  error: string | null
+  updated_at: string
+}
+
+interface ApplicationSubmissionRow {
+  id: string
+  lead_id: string | null
+  borrower_file: any
+  created_at: string
+  lender_submissions: LenderSubmissionRow[]
+}
+
+const SUBMISSION_STAGES: Array<{ status: LenderSubmissionRow['status']; label: string }> = [
+  { status: 'submitted', label: 'Submitted' },
+  { status: 'conditionally_approved', label: 'Conditionally Approved' },
+  { status: 'commitment', label: 'Commitment' },
+  { status: 'funded', label: 'Funded' },
+  { status: 'declined', label: 'Declined' },
+]
+
 export default function BrokerDashboard() {
   const { user } = useAuth()
   const [leads, setLeads] = useState<Lead[]>([])
   const [metrics, setMetrics] = useState<BrokerMetrics | null>(null)
   const [commissionReports, setCommissionReports] = useState<CommissionReport[]>([])
+  const [submissions, setSubmissions] = useState<ApplicationSubmissionRow[]>([])
+  const [slaStats, setSlaStats] = useState<LeadSlaStats | null>(null)
+  const [slaDueByLead, setSlaDueByLead] = useState<Record<string, string>>({})
+  const [duplicatesByLead, setDuplicatesByLead] = useState<Record<string, LeadDuplicate[]>>({})
+  const [refreshingSubmission, setRefreshingSubmission] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('overview')
   const [searchTerm, setSearchTerm] = useState('')
@@ -90,6 +143,7 @@ export default function BrokerDashboard() {
         .from('leads')
         .select('*')
         .eq('broker_id', user.id)
+        .is('merged_into_lead_id', null)
         .order('created_at', { ascending: false })
 
       if (leadsError) throw leadsError
@@ -105,6 +159,35 @@ export default function BrokerDashboard() {
       if (metricsError) throw metricsError
       setMetrics(metricsData?.[0] || null)
 
+      // Load multi-lender submissions with each lender's status
+      const { data: submissionsData, error: submissionsError } = await supabase
+        .from('application_submissions')
+        .select('*, lender_submissions(*)')
+        .eq('broker_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (submissionsError) throw submissionsError
+      setSubmissions(submissionsData || [])
+
+      // Load first-contact SLA performance and deadlines for leads awaiting contact
+      const { data: { session } } = await supabase.auth.getSession()
+      const dashboardResponse = await fetch(`/api/broker/dashboard?email=${encodeURIComponent(user.email || '')}`, {
+        headers: { Authorization: `Bearer ${session?.access_token}` },
+      })
+
+      if (dashboardResponse.ok) {
+        const { stats } = await dashboardResponse.json()
+        setSlaStats(stats.sla)
+        setSlaDueByLead((stats.recentLeads || []).reduce((due: Record<string, string>, lead: { id: string; slaDueAt: string | null }) => {
+          if (lead.slaDueAt) due[lead.id] = lead.slaDueAt
+          return due
+        }, {}))
+        setDuplicatesByLead((stats.recentLeads || []).reduce((duplicates: Record<string, LeadDuplicate[]>, lead: { id: string; duplicates: LeadDuplicate[] }) => {
+          if (lead.duplicates && lead.duplicates.length > 0) duplicates[lead.id] = lead.duplicates
+          return duplicates
+        }, {}))
+      }
+
       // Load commission reports (mock data for now)
       setCommissionReports([
         {
@@ -141,19 +224,78 @@ export default function BrokerDashboard() {
   }
 
   const handleUpdateLeadStatus = async (leadId: string, newStatus: string) => {
+    if (!user) return
+
     try {
-      const { error } = await supabase
-        .from('leads')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', leadId)
+      // Goes through the API so first contact stops the lead's SLA timer
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/broker/leads/${leadId}?email=${encodeURIComponent(user.email || '')}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token}`,
+        },
+        body: JSON.stringify({ status: newStatus }),
+      })
 
-      if (error) throw error
+      if (!response.ok) throw new Error(`Status update failed: ${response.status}`)
       loadDashboardData() // Refresh the data
     } catch (error) {
       console.error('Error updating lead status:', error)
     }
   }
 
+  const handleResolveDuplicate = async (leadId: string, duplicate: LeadDuplicate, action: 'merge' | 'dismiss') => {
+    if (!user) return
+
+    try {
+      // Merging keeps this lead and folds the other one into it, with both kept in the merge history
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/broker/leads/${leadId}/duplicates?email=${encodeURIComponent(user.email || '')}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token}`,
+        },
+        body: JSON.stringify(action === 'merge'
+          ? { action, duplicateLeadId: duplicate.leadId }
+          : { action, flagId: duplicate.flagId }),
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error || `Duplicate ${action} failed: ${response.status}`)
+      }
+      loadDashboardData() // Refresh the data
+    } catch (error) {
+      console.error('Error resolving duplicate lead:', error)
+    }
+  }
+
+  const handleRefreshSubmission = async (submissionId: string) => {
+    if (!user) return
+
+    try {
+      setRefreshingSubmission(submissionId)
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/broker/submissions?email=${encodeURIComponent(user.email || '')}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token}`,
+        },
+        body: JSON.stringify({ submissionId }),
+      })
+
+      if (!response.ok) throw new Error(`Status refresh failed: ${response.status}`)
+      loadDashboardData() // Refresh the data
+    } catch (error) {
+      console.error('Error refreshing submission status:', error)
+    } finally {
+      setRefreshingSubmission(null)
+    }
+  }
+
   const handleExportReport = async (format: 'pdf' | 'csv') => {
     if (!user) return
 
@@ -234,6 +376,29 @@ export default function BrokerDashboard() {
     }
   }
 
+  const getSubmissionStatusColor = (status: string) => {
+    switch (status) {
+      case 'funded': return 'text-green-600 bg-green-100'
+      case 'commitment': return 'text-emerald-600 bg-emerald-100'
+      case 'conditionally_approved': return 'text-blue-600 bg-blue-100'
+      case 'submitted': return 'text-yellow-600 bg-yellow-100'
+      case 'declined':
+      case 'failed': return 'text-red-600 bg-red-100'
+      default: return 'text-gray-600 bg-gray-100'
+    }
+  }
+
+  const allLenderSubmissions = submissions.reduce<LenderSubmissionRow[]>(
+    (all, submission) => all.concat(submission.lender_submissions || []),
+    []
+  )
+
+  const formatSlaDue = (dueAt: string) => {
+    const minutes = Math.round((new Date(dueAt).getTime() - Date.now()) / 60000)
+    if (minutes <= 0) return `Overdue ${Math.ceil(-minutes / 60)}h`
+    return minutes < 60 ? `Contact within ${minutes} min` : `Contact within ${Math.round(minutes / 60)}h`
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'converted': return <CheckCircle className="h-4 w-4" />
@@ -285,9 +450,10 @@ export default function BrokerDashboard() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="leads">Leads</TabsTrigger>
+          <TabsTrigger value="submissions">Submissions</TabsTrigger>
           <TabsTrigger value="commissions">Commissions</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
         </TabsList>
@@ -346,7 +512,7 @@ export default function BrokerDashboard() {
           </div>
 
           {/* Performance Summary */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Card>
               <CardHeader>
                 <CardTitle>Commission Summary</CardTitle>
@@ -369,6 +535,36 @@ export default function BrokerDashboard() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>First-Contact SLA</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Overdue Now:</span>
+                    <span className={`font-semibold ${slaStats?.overdue ? 'text-red-600' : ''}`}>{slaStats?.overdue || 0}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Met Within SLA:</span>
+                    <span className="font-semibold">{slaStats?.metWithinSla || 0}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Breach Rate:</span>
+                    <span className="font-semibold">{slaStats?.breachRate?.toFixed(1) || 0}%</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Avg First Contact:</span>
+                    <span className="font-semibold">{slaStats?.averageFirstContactHours?.toFixed(1) || 0} h</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Reassigned Away:</span>
+                    <span className="font-semibold">{slaStats?.escalations.reassignment || 0}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Recent Activity</CardTitle>
@@ -460,10 +656,41 @@ export default function BrokerDashboard() {
                         <p className="text-sm text-muted-foreground">Lead Score</p>
                         <p className="font-semibold">{lead.lead_score}/100</p>
                       </div>
+                      {lead.status === 'pending' && slaDueByLead[lead.id] && (
+                        <Badge className={new Date(slaDueByLead[lead.id]).getTime() <= Date.now() ? 'text-red-600 bg-red-100' : 'text-orange-600 bg-orange-100'}>
+                          <Clock className="h-3 w-3 mr-1" />
+                          {formatSlaDue(slaDueByLead[lead.id])}
+                        </Badge>
+                      )}
+                      {duplicatesByLead[lead.id] && (
+                        <Badge className="text-purple-600 bg-purple-100" title={duplicatesByLead[lead.id][0].reasons.join(', ')}>
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {duplicatesByLead[lead.id][0].confidence === 'possible' ? 'Possible duplicate' : 'Duplicate'}
+                        </Badge>
+                      )}
                       <Badge className={getStatusColor(lead.status)}>
                         {lead.status}
                       </Badge>
                       <div className="flex gap-2">
+                        {duplicatesByLead[lead.id] && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleResolveDuplicate(lead.id, duplicatesByLead[lead.id][0], 'merge')}
+                            >
+                              <GitMerge className="h-4 w-4 mr-1" />
+                              Merge
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleResolveDuplicate(lead.id, duplicatesByLead[lead.id][0], 'dismiss')}
+                            >
+                              Not a duplicate
+                            </Button>
+                          </>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
@@ -494,6 +721,88 @@ export default function BrokerDashboard() {
           </Card>
         </TabsContent>
 
+        {/* Submissions Tab */}
+        <TabsContent value="submissions" className="space-y-6">
+          {/* Lender pipeline */}
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {SUBMISSION_STAGES.map(stage => (
+              <Card key={stage.status}>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">{stage.label}</p>
+                  <p className="text-2xl font-bold">
+                    {allLenderSubmissions.filter(lender => lender.status === stage.status).length}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Application Status Board</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {submissions.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No applications have been submitted to lenders yet.</p>
+                )}
+                {submissions.map((submission) => (
+                  <div key={submission.id} className="p-4 border rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <div className="p-2 bg-primary/10 rounded-lg">
+                          <Send className="h-5 w-5 text-primary" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold">
+                            {submission.borrower_file?.borrower?.firstName} {submission.borrower_file?.borrower?.lastName}
+                          </h3>
+                          <p className="text-sm text-muted-foreground">
+                            {formatCurrency(submission.borrower_file?.loan?.amount || 0)} • Submitted {formatDate(submission.created_at)}
+                          </p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRefreshSubmission(submission.id)}
+                        disabled={refreshingSubmission === submission.id}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Refresh
+                      </Button>
+                    </div>
+                    <div className="space-y-2">
+                      {(submission.lender_submissions || []).map((lender) => (
+                        <div key={lender.id} className="flex items-start justify-between p-2 border rounded">
+                          <div>
+                            <p className="font-medium text-sm">{lender.lender_name}</p>
+                            {lender.external_application_id && (
+                              <p className="text-xs text-muted-foreground">Application {lender.external_application_id}</p>
+                            )}
+                            {lender.conditions?.length > 0 && (
+                              <p className="text-xs text-muted-foreground">Conditions: {lender.conditions.join('; ')}</p>
+                            )}
+                            {lender.error && (
+                              <p className="text-xs text-red-600">{lender.error}</p>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <Badge className={getSubmissionStatusColor(lender.status)}>
+                              {lender.status.replace('_', ' ')}
+                            </Badge>
+                            <p className="text-xs text-muted-foreground mt-1">Updated {formatDate(lender.updated_at)}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Commissions Tab */}
         <TabsContent value="commissions" className="space-y-6">
           <Card>
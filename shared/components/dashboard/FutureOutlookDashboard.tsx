@@ -35,6 +35,8 @@ interface RefinanceOpportunity {
   id: string
   currentRate: number
   potentialSavings: number
+  breakEvenMonth?: number
+  prepaymentPenalty?: number
   refinanceProbability: number
   priorityScore: number
   recommendedAction: string
@@ -248,7 +250,7 @@ export function FutureOutlookDashboard({ userId }: FutureOutlookDashboardProps)
                 </div>
                 <p className="text-xs text-muted-foreground">
                   {refinanceOpportunities[0]?.potentialSavings ? 
-                    `Save $${refinanceOpportunities[0].potentialSavings.toLocaleString()}/year` :
+                    `Save $${Math.round(refinanceOpportunities[0].potentialSavings).toLocaleString()} over 5 years` :
                     'No current opportunities'
                   }
                 </p>
@@ -419,11 +421,17 @@ export function FutureOutlookDashboard({ userId }: FutureOutlookDashboardProps)
                         </div>
                         <div className="text-right">
                           <div className="font-bold text-green-600">
-                            Save ${opportunity.potentialSavings.toLocaleString()}/year
+                            Save ${Math.round(opportunity.potentialSavings).toLocaleString()} over 5 years
                           </div>
                           <div className="text-sm text-muted-foreground">
                             Current rate: {opportunity.currentRate}%
                           </div>
+                          {opportunity.breakEvenMonth !== undefined && (
+                            <div className="text-sm text-muted-foreground">
+                              Breaks even in month {opportunity.breakEvenMonth}
+                              {opportunity.prepaymentPenalty ? ` (penalty $${Math.round(opportunity.prepaymentPenalty).toLocaleString()})` : ''}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="text-sm text-muted-foreground mb-2">
@@ -0,0 +1,5 @@
+-- Store refinance break-even analysis alongside watchlist opportunities
+ALTER TABLE refinance_watchlist
+    ADD COLUMN IF NOT EXISTS break_even_month INTEGER,
+    ADD COLUMN IF NOT EXISTS prepayment_penalty DECIMAL(12,2),
+    ADD COLUMN IF NOT EXISTS refinance_analysis JSONB;
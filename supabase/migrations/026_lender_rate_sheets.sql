@@ -0,0 +1,61 @@
+-- Versioned lender rate sheets and the normalized rates they contain
+
+-- One row per stored version of a source's rate sheet (an upload or an adapter pull)
+CREATE TABLE IF NOT EXISTS rate_sheets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'xlsx', 'json', 'adapter')),
+  checksum TEXT NOT NULL,
+  effective_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  rejected_rows JSONB NOT NULL DEFAULT '[]',
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (source_id, version),
+  CHECK (expires_at IS NULL OR expires_at > effective_at)
+);
+
+-- Rates are inserted when first seen or changed, and superseded when a later
+-- version changes or drops them; unchanged rates carry forward between versions
+CREATE TABLE IF NOT EXISTS lender_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id TEXT NOT NULL,
+  sheet_id UUID NOT NULL REFERENCES rate_sheets(id) ON DELETE CASCADE,
+  row_key TEXT NOT NULL,
+  row_hash TEXT NOT NULL,
+  lender TEXT NOT NULL,
+  product TEXT NOT NULL,
+  country TEXT NOT NULL CHECK (country IN ('CA', 'US')),
+  region TEXT,
+  term_years DECIMAL(4,2) NOT NULL,
+  rate_type TEXT NOT NULL CHECK (rate_type IN ('fixed', 'variable')),
+  rate DECIMAL(6,4) NOT NULL,
+  apr DECIMAL(6,4),
+  insurance TEXT CHECK (insurance IN ('insured', 'insurable', 'uninsured')),
+  min_ltv DECIMAL(5,2),
+  max_ltv DECIMAL(5,2),
+  min_credit_score INTEGER,
+  features JSONB NOT NULL DEFAULT '[]',
+  contact_info JSONB,
+  effective_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ,
+  superseded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_sheets_source_version ON rate_sheets(source_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_lender_rates_source_current ON lender_rates(source_id) WHERE superseded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_lender_rates_lookup ON lender_rates(country, term_years, rate_type, effective_at);
+CREATE INDEX IF NOT EXISTS idx_lender_rates_sheet_id ON lender_rates(sheet_id);
+
+ALTER TABLE rate_sheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lender_rates ENABLE ROW LEVEL SECURITY;
+
+-- Published rates are public; sheets are written by the service role only
+CREATE POLICY "Anyone can view rate sheets" ON rate_sheets
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view lender rates" ON lender_rates
+  FOR SELECT USING (true);
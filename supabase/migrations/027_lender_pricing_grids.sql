@@ -0,0 +1,20 @@
+-- Lender-defined loan-level pricing adjustment grids
+-- A grid without a lender is the default for its country
+CREATE TABLE IF NOT EXISTS lender_pricing_grids (
+  id TEXT PRIMARY KEY,
+  lender TEXT,
+  country TEXT NOT NULL CHECK (country IN ('CA', 'US')),
+  rules JSONB NOT NULL DEFAULT '[]',
+  buy_down JSONB NOT NULL DEFAULT '{"maxPoints": 0, "pointStep": 0.25, "rateReductionPerPoint": 0}',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lender_pricing_grids_active
+  ON lender_pricing_grids(country, COALESCE(lender, '')) WHERE active;
+
+ALTER TABLE lender_pricing_grids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active pricing grids" ON lender_pricing_grids
+  FOR SELECT USING (active);
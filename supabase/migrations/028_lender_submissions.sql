@@ -0,0 +1,75 @@
+-- Borrower files submitted to several lenders at once and each lender's decision
+
+-- One row per fan-out: the borrower file as it was sent, less the borrower's SSN
+CREATE TABLE IF NOT EXISTS application_submissions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  broker_id UUID NOT NULL REFERENCES brokers(id) ON DELETE CASCADE,
+  borrower_file JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The application with one lender. Status follows submitted -> conditionally_approved
+-- -> commitment -> funded, or ends early as declined, withdrawn or failed (never
+-- accepted by the lender); lender_status is the lender's own last reported status.
+CREATE TABLE IF NOT EXISTS lender_submissions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES application_submissions(id) ON DELETE CASCADE,
+  lender_id TEXT NOT NULL,
+  lender_name TEXT NOT NULL,
+  rate_id TEXT NOT NULL,
+  external_application_id TEXT,
+  status TEXT NOT NULL CHECK (status IN (
+    'submitted', 'conditionally_approved', 'commitment', 'funded', 'declined', 'withdrawn', 'failed'
+  )),
+  lender_status TEXT,
+  conditions JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_polled_at TIMESTAMPTZ,
+  UNIQUE (submission_id, lender_id),
+  CHECK (status = 'failed' OR external_application_id IS NOT NULL)
+);
+
+-- Every status change, with what reported it
+CREATE TABLE IF NOT EXISTS lender_submission_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lender_submission_id UUID NOT NULL REFERENCES lender_submissions(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('submission', 'poll', 'callback', 'broker')),
+  payload JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_submissions_broker ON application_submissions(broker_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_application_submissions_lead ON application_submissions(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lender_submissions_open ON lender_submissions(status)
+  WHERE status IN ('submitted', 'conditionally_approved', 'commitment');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lender_submissions_external
+  ON lender_submissions(lender_id, external_application_id) WHERE external_application_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_lender_submission_events_submission ON lender_submission_events(lender_submission_id, created_at);
+
+ALTER TABLE application_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lender_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lender_submission_events ENABLE ROW LEVEL SECURITY;
+
+-- Brokers see their own submissions; all writes go through the service role
+CREATE POLICY "Brokers can view own submissions" ON application_submissions
+  FOR SELECT USING (auth.uid() = broker_id);
+
+CREATE POLICY "Brokers can view own lender submissions" ON lender_submissions
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM application_submissions
+    WHERE application_submissions.id = lender_submissions.submission_id
+      AND application_submissions.broker_id = auth.uid()
+  ));
+
+CREATE POLICY "Brokers can view own lender submission events" ON lender_submission_events
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM lender_submissions
+    JOIN application_submissions ON application_submissions.id = lender_submissions.submission_id
+    WHERE lender_submissions.id = lender_submission_events.lender_submission_id
+      AND application_submissions.broker_id = auth.uid()
+  ));
@@ -0,0 +1,66 @@
+-- Rates locked for borrowers, pinned to the rate sheet version they were priced from
+
+-- Status is active until the loan closes on the lock, the broker cancels it or it
+-- lapses (expired). rate_id, rate_sheet_id and base_rate move to the new sheet when a
+-- lock floats down; row_key identifies the product across sheet versions.
+CREATE TABLE IF NOT EXISTS rate_locks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  broker_id UUID NOT NULL REFERENCES brokers(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  country TEXT NOT NULL CHECK (country IN ('CA', 'US')),
+  source_id TEXT NOT NULL,
+  rate_id UUID NOT NULL REFERENCES lender_rates(id),
+  rate_sheet_id UUID NOT NULL REFERENCES rate_sheets(id),
+  rate_sheet_version INTEGER NOT NULL,
+  row_key TEXT NOT NULL,
+  lender TEXT NOT NULL,
+  product TEXT NOT NULL,
+  term_years DECIMAL(4,2) NOT NULL,
+  rate_type TEXT NOT NULL CHECK (rate_type IN ('fixed', 'variable')),
+  loan_amount DECIMAL(12,2) NOT NULL CHECK (loan_amount > 0),
+  base_rate DECIMAL(6,4) NOT NULL,
+  locked_rate DECIMAL(6,4) NOT NULL,
+  lock_days INTEGER NOT NULL CHECK (lock_days > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'closed', 'cancelled')),
+  policy JSONB NOT NULL,
+  locked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  extension_days INTEGER NOT NULL DEFAULT 0,
+  extension_fees DECIMAL(12,2) NOT NULL DEFAULT 0,
+  float_downs INTEGER NOT NULL DEFAULT 0,
+  float_down_fees DECIMAL(12,2) NOT NULL DEFAULT 0,
+  -- Smallest expiry warning threshold already sent, in days; cleared on extension
+  last_warning_days INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Every change to a lock, for the broker's audit trail
+CREATE TABLE IF NOT EXISTS rate_lock_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lock_id UUID NOT NULL REFERENCES rate_locks(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'locked', 'extended', 'floated_down', 'expiry_warning', 'expired', 'closed', 'cancelled'
+  )),
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_locks_broker ON rate_locks(broker_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_rate_locks_active_expiry ON rate_locks(expires_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_rate_locks_lead ON rate_locks(lead_id);
+CREATE INDEX IF NOT EXISTS idx_rate_lock_events_lock ON rate_lock_events(lock_id, created_at);
+
+ALTER TABLE rate_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_lock_events ENABLE ROW LEVEL SECURITY;
+
+-- Brokers see their own locks; all writes go through the service role
+CREATE POLICY "Brokers can view own rate locks" ON rate_locks
+  FOR SELECT USING (auth.uid() = broker_id);
+
+CREATE POLICY "Brokers can view own rate lock events" ON rate_lock_events
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM rate_locks
+    WHERE rate_locks.id = rate_lock_events.lock_id
+      AND rate_locks.broker_id = auth.uid()
+  ));
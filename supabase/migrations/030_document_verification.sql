@@ -0,0 +1,35 @@
+-- Uploaded borrower documents and their cross-document verification findings
+
+-- id is the 16-character hash DocumentAIAgent assigns on upload. extracted_data holds
+-- the extracted fields and the typed verification flags (code, severity, message,
+-- condition, documentIds). Status moves to flagged when reconciliation finds a
+-- critical discrepancy.
+CREATE TABLE IF NOT EXISTS documents (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  document_type TEXT NOT NULL DEFAULT 'other',
+  status TEXT NOT NULL DEFAULT 'uploaded' CHECK (status IN (
+    'uploaded', 'processing', 'extracted', 'verified', 'flagged', 'rejected'
+  )),
+  file_size INTEGER,
+  extracted_data JSONB,
+  affordability_report JSONB,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- SHA-256 of the file contents, to spot the same document submitted by different applicants
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS document_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user ON documents(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_documents_hash ON documents(document_hash);
+
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+
+-- Applicants see their own documents; all writes go through the service role
+DROP POLICY IF EXISTS "Users can view own documents" ON documents;
+CREATE POLICY "Users can view own documents" ON documents
+  FOR SELECT USING (auth.uid()::text = user_id);
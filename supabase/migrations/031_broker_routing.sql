@@ -0,0 +1,34 @@
+-- Broker routing profile and an audit trail of routing decisions
+
+-- Languages are ISO 639-1 codes. Specialties are self_employed, new_to_country,
+-- investor, first_time_buyer and credit_rebuilding. routing_weight sets a broker's
+-- relative share under weighted distribution; last_assigned_at drives round robin.
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS languages TEXT[] NOT NULL DEFAULT '{en}';
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS specialties TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS max_open_leads INTEGER NOT NULL DEFAULT 25 CHECK (max_open_leads >= 0);
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS response_sla_hours DECIMAL(5,2) NOT NULL DEFAULT 4 CHECK (response_sla_hours > 0);
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS routing_weight DECIMAL(5,2) NOT NULL DEFAULT 1 CHECK (routing_weight > 0);
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS last_assigned_at TIMESTAMPTZ;
+
+-- One row per routed lead. lead_reference is the qualification's lead ID, known
+-- before the lead row exists; lead_id is filled in once the lead is saved.
+-- candidates holds every broker considered with eligibility, score components and reasons.
+CREATE TABLE IF NOT EXISTS lead_routing_decisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+  lead_reference TEXT NOT NULL,
+  strategy TEXT NOT NULL CHECK (strategy IN ('best_match', 'round_robin', 'weighted')),
+  jurisdiction TEXT,
+  selected_broker_id UUID REFERENCES brokers(id) ON DELETE SET NULL,
+  alternate_broker_ids UUID[] NOT NULL DEFAULT '{}',
+  reason TEXT NOT NULL,
+  candidates JSONB NOT NULL DEFAULT '[]',
+  lead JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_routing_decisions_lead ON lead_routing_decisions(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_routing_decisions_reference ON lead_routing_decisions(lead_reference);
+CREATE INDEX IF NOT EXISTS idx_lead_routing_decisions_broker ON lead_routing_decisions(selected_broker_id, created_at);
+
+ALTER TABLE lead_routing_decisions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- First-contact SLA timers for assigned leads and their escalation history
+
+-- Team lead alerted when one of the broker's leads misses its SLA
+ALTER TABLE brokers ADD COLUMN IF NOT EXISTS team_lead_id UUID REFERENCES brokers(id) ON DELETE SET NULL;
+
+-- One timer per assignment; a reassigned lead gets a new timer for its new broker.
+-- escalation_level counts the steps taken: reminder, team lead alert, reassignment.
+CREATE TABLE IF NOT EXISTS lead_sla_timers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  broker_id UUID NOT NULL REFERENCES brokers(id) ON DELETE CASCADE,
+  tier TEXT NOT NULL CHECK (tier IN ('PREMIUM', 'STANDARD', 'COACHING')),
+  started_at TIMESTAMPTZ NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  first_contact_at TIMESTAMPTZ,
+  first_contact_source TEXT CHECK (first_contact_source IN ('dashboard', 'crm')),
+  escalation_level INTEGER NOT NULL DEFAULT 0 CHECK (escalation_level BETWEEN 0 AND 3),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'met', 'reassigned', 'closed')),
+  breached_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_sla_timers_running ON lead_sla_timers(status, due_at);
+CREATE INDEX IF NOT EXISTS idx_lead_sla_timers_lead ON lead_sla_timers(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_sla_timers_broker ON lead_sla_timers(broker_id, started_at);
+
+CREATE TABLE IF NOT EXISTS lead_sla_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  timer_id UUID NOT NULL REFERENCES lead_sla_timers(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  broker_id UUID REFERENCES brokers(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'started', 'first_contact', 'breached', 'reminder', 'team_lead_alert', 'reassignment', 'reassignment_failed'
+  )),
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_sla_events_timer ON lead_sla_events(timer_id, created_at);
+
+ALTER TABLE lead_sla_timers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_sla_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,24 @@
+-- Versioned lead scoring models per brokerage
+
+-- Every edit is stored as a new version so a lead's score can be traced back to the
+-- weights and thresholds it was scored with. One version per organization is active;
+-- organizations without one score with the built-in default model (version 0).
+CREATE TABLE IF NOT EXISTS lead_scoring_models (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  model JSONB NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_scoring_models_active
+  ON lead_scoring_models(organization_id) WHERE is_active;
+
+-- Backtests read an organization's leads by creation time
+CREATE INDEX IF NOT EXISTS idx_leads_organization_created ON leads(organization_id, created_at);
+
+ALTER TABLE lead_scoring_models ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,60 @@
+-- Lead deduplication: normalized identity keys, duplicate flags and merge history
+
+-- Keys written by the application on insert: lowercased email without +tags (and without
+-- dots for Gmail), E.164 phone, normalized name, last-name-and-initial blocking key and
+-- normalized street address. A merged lead stays on record pointing at the lead that absorbed it.
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS email_normalized TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS phone_e164 TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS name_normalized TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS name_key TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS address_normalized TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_into_lead_id UUID REFERENCES leads(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+-- Best-effort email and North American phone keys for existing leads; name and address
+-- keys are written as leads arrive
+UPDATE leads SET email_normalized = LOWER(TRIM(email)) WHERE email_normalized IS NULL;
+UPDATE leads SET phone_e164 = '+1' || REGEXP_REPLACE(phone, '\D', '', 'g')
+  WHERE phone_e164 IS NULL AND LENGTH(REGEXP_REPLACE(phone, '\D', '', 'g')) = 10;
+
+CREATE INDEX IF NOT EXISTS idx_leads_email_normalized ON leads(organization_id, email_normalized) WHERE merged_into_lead_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_phone_e164 ON leads(organization_id, phone_e164) WHERE merged_into_lead_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_name_key ON leads(organization_id, name_key) WHERE merged_into_lead_id IS NULL;
+
+-- A new lead flagged against an existing lead that may be the same borrower
+CREATE TABLE IF NOT EXISTS lead_duplicate_flags (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  duplicate_of_lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  score NUMERIC(3,2) NOT NULL CHECK (score BETWEEN 0 AND 1),
+  confidence TEXT NOT NULL CHECK (confidence IN ('certain', 'likely', 'possible')),
+  matched_on TEXT[] NOT NULL DEFAULT '{}',
+  reasons JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'merged', 'dismissed')),
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (lead_id, duplicate_of_lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_flags_lead ON lead_duplicate_flags(lead_id, status);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_flags_duplicate_of ON lead_duplicate_flags(duplicate_of_lead_id, status);
+
+-- Both leads as they were before each merge, what changed on the survivor and which
+-- conversions moved, so a merge can be audited and undone by hand
+CREATE TABLE IF NOT EXISTS lead_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  survivor_lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  merged_lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  merged_by UUID,
+  changes JSONB NOT NULL DEFAULT '[]',
+  survivor_before JSONB NOT NULL,
+  merged_lead JSONB NOT NULL,
+  moved_conversion_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merges_survivor ON lead_merges(survivor_lead_id, created_at);
+
+ALTER TABLE lead_duplicate_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_merges ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,52 @@
+-- Inbound CRM sync: which CRM record each lead became, how far each change feed has been
+-- read, and a log of every change received so it can be audited and replayed
+
+-- One row per CRM record we exported or matched; merged leads are relinked to their survivor
+CREATE TABLE IF NOT EXISTS crm_lead_links (
+  integration_id TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (integration_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_lead_links_lead ON crm_lead_links(lead_id);
+
+-- Change time of the newest change read from each integration's feed
+CREATE TABLE IF NOT EXISTS crm_sync_cursors (
+  integration_id TEXT PRIMARY KEY,
+  cursor TEXT,
+  last_polled_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Each change as received, with what was applied field by field; replays point at the entry they replay
+CREATE TABLE IF NOT EXISTS crm_sync_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  integration_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('webhook', 'poll', 'replay')),
+  external_id TEXT NOT NULL,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL,
+  change JSONB NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('applied', 'skipped', 'conflict', 'unmapped', 'unmatched', 'failed')),
+  field_results JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  replay_of UUID REFERENCES crm_sync_log(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_sync_log_integration ON crm_sync_log(integration_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_crm_sync_log_outcome ON crm_sync_log(integration_id, outcome, created_at);
+CREATE INDEX IF NOT EXISTS idx_crm_sync_log_lead ON crm_sync_log(lead_id, created_at);
+
+-- An owner change in a CRM hands the lead's SLA timer to the new broker
+ALTER TABLE lead_sla_events DROP CONSTRAINT IF EXISTS lead_sla_events_event_type_check;
+ALTER TABLE lead_sla_events ADD CONSTRAINT lead_sla_events_event_type_check CHECK (event_type IN (
+  'started', 'first_contact', 'breached', 'reminder', 'team_lead_alert', 'reassignment', 'reassignment_failed', 'transferred'
+));
+
+ALTER TABLE crm_lead_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crm_sync_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crm_sync_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,4 @@
+-- Lenders' rate lock terms travel with their rate sheets, so a lock takes its policy from
+-- the sheet version it is priced from rather than from the broker's request. NULL means
+-- the country defaults apply.
+ALTER TABLE rate_sheets ADD COLUMN IF NOT EXISTS lock_policy JSONB;
@@ -0,0 +1,3 @@
+-- Change feeds are read from the cursor inclusively, so records changed at the same moment as
+-- the newest one read are not skipped; these are the records already read at the cursor's time
+ALTER TABLE crm_sync_cursors ADD COLUMN IF NOT EXISTS cursor_external_ids JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,23 @@
+import { BrokerRoutingProfile } from '@core/lead-routing'
+
+/**
+ * A licensed Ontario broker with capacity to spare; override what the test is about
+ */
+export const broker = (overrides: Partial<BrokerRoutingProfile>): BrokerRoutingProfile => ({
+  brokerId: 'broker-1',
+  name: 'Broker',
+  company: 'Brokerage',
+  phone: '555-000-0000',
+  email: 'broker@example.com',
+  commissionRate: 1,
+  provincesStates: ['ON'],
+  languages: ['en'],
+  specialties: [],
+  openLeads: 0,
+  maxOpenLeads: 10,
+  responseSlaHours: 4,
+  averageResponseHours: 2,
+  conversionRate: 25,
+  routingWeight: 1,
+  ...overrides,
+})
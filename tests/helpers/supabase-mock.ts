@@ -0,0 +1,117 @@
+/**
+ * In-memory stand-in for the supabase client, for unit tests of the stores that read and
+ * write through supabaseAdmin. Mock the client from the test file with
+ *
+ *   jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+ *
+ * then seed and inspect rows through mockTables.
+ */
+
+// Rows of each table by table name, in insertion order
+export const mockTables: Record<string, any[]> = {}
+
+let nextId = 0
+
+export function resetMockTables(): void {
+  Object.keys(mockTables).forEach(table => delete mockTables[table])
+}
+
+// Copies, as the client returns, so later writes do not change rows already read
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+const compare = (a: unknown, b: unknown): number => (a ?? '') < (b ?? '') ? -1 : (a ?? '') > (b ?? '') ? 1 : 0
+
+function mockQuery(table: string) {
+  const filters: Array<(row: any) => boolean> = []
+  const orders: Array<{ column: string; ascending: boolean }> = []
+  let operation: 'select' | 'insert' | 'update' | 'upsert' = 'select'
+  let payload: any
+  let conflictColumns: string[] = []
+  let limit = Infinity
+  let single = false
+
+  const run = () => {
+    const rows = mockTables[table] = mockTables[table] || []
+    if (operation === 'insert' || operation === 'upsert') {
+      const written = [].concat(payload).map((values: any) => {
+        const existing = operation === 'upsert' && rows.find(row => conflictColumns.every(column => row[column] === values[column]))
+        if (existing) return Object.assign(existing, copy(values))
+        const row = { id: `00000000-0000-4000-8000-${String(++nextId).padStart(12, '0')}`, created_at: new Date().toISOString(), ...copy(values) }
+        rows.push(row)
+        return row
+      })
+      return { data: single ? copy(written[0]) : copy(written), error: null }
+    }
+
+    const matched = rows.filter(row => filters.every(filter => filter(row)))
+    if (operation === 'update') {
+      matched.forEach(row => Object.assign(row, copy(payload)))
+    }
+
+    // Rows that tie on every ordered column keep the order they were written in, read
+    // from the newest when the last ordering is descending
+    const tieDirection = orders.length > 0 && !orders[orders.length - 1].ascending ? -1 : 1
+    const ordered = matched
+      .map((row, index) => ({ row, index }))
+      .sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          const order = compare(a.row[column], b.row[column])
+          if (order !== 0) return ascending ? order : -order
+        }
+        return (a.index - b.index) * tieDirection
+      })
+      .slice(0, limit)
+      .map(({ row }) => copy(row))
+
+    if (single) {
+      return ordered.length === 1 ? { data: ordered[0], error: null } : { data: null, error: { message: 'No rows found' } }
+    }
+    return { data: ordered, error: null }
+  }
+
+  const builder: any = {
+    select: () => builder,
+    insert: (rows: any) => { operation = 'insert'; payload = rows; return builder },
+    update: (values: any) => { operation = 'update'; payload = values; return builder },
+    upsert: (rows: any, options: { onConflict: string }) => {
+      operation = 'upsert'
+      payload = rows
+      conflictColumns = options.onConflict.split(',')
+      return builder
+    },
+    eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder },
+    in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder },
+    is: (column: string, value: unknown) => { filters.push(row => (row[column] ?? null) === value); return builder },
+    gte: (column: string, value: string) => { filters.push(row => row[column] >= value); return builder },
+    lte: (column: string, value: string) => { filters.push(row => row[column] <= value); return builder },
+    // PostgREST's comma-separated alternatives, e.g. superseded_at.is.null,superseded_at.gt.<time>
+    or: (conditions: string) => {
+      const alternatives = conditions.split(',').map(condition => {
+        const [column, operator, ...rest] = condition.split('.')
+        const value = rest.join('.')
+        return (row: any) => {
+          if (operator === 'is') return (row[column] ?? null) === (value === 'null' ? null : value)
+          if (operator === 'eq') return String(row[column]) === value
+          if (operator === 'gt') return row[column] != null && row[column] > value
+          if (operator === 'lt') return row[column] != null && row[column] < value
+          throw new Error(`Unsupported or() operator: ${operator}`)
+        }
+      })
+      filters.push(row => alternatives.some(matches => matches(row)))
+      return builder
+    },
+    order: (column: string, options: { ascending?: boolean } = {}) => {
+      orders.push({ column, ascending: options.ascending !== false })
+      return builder
+    },
+    limit: (count: number) => { limit = count; return builder },
+    single: () => { single = true; return builder },
+    then: (resolve: any, reject: any) => Promise.resolve().then(run).then(resolve, reject),
+  }
+  return builder
+}
+
+// The @core/supabase module as the stores import it
+export const supabaseMock = {
+  supabaseAdmin: { from: (table: string) => mockQuery(table) },
+}
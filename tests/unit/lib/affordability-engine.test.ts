@@ -0,0 +1,244 @@
+import {
+  AffordabilityEngine,
+  OSFI_B20_RULES,
+  CFPB_QM_RULES,
+  calculateMonthlyPayment,
+  calculateMaxPrincipal,
+  PRICE_BAND_STEP,
+} from '@core/mortgage/affordability-engine'
+import { getPeriodicRate } from '@core/mortgage/amortization'
+
+describe('AffordabilityEngine', () => {
+  let engine: AffordabilityEngine
+
+  beforeEach(() => {
+    engine = new AffordabilityEngine()
+  })
+
+  describe('getQualifyingRate', () => {
+    it('should apply the 2% stress test buffer in Canada', () => {
+      expect(engine.getQualifyingRate('CA', 5.5)).toBe(7.5)
+    })
+
+    it('should apply the 5.25% floor in Canada', () => {
+      expect(engine.getQualifyingRate('CA', 2.99)).toBe(OSFI_B20_RULES.STRESS_TEST_FLOOR)
+    })
+
+    it('should qualify US borrowers at the note rate', () => {
+      expect(engine.getQualifyingRate('US', 6.25)).toBe(6.25)
+    })
+  })
+
+  describe('payment helpers', () => {
+    it('should calculate a standard monthly payment', () => {
+      expect(calculateMonthlyPayment(400000, 6, 30)).toBeCloseTo(2398.2, 1)
+    })
+
+    it('should invert the payment calculation', () => {
+      const payment = calculateMonthlyPayment(350000, 5, 25)
+      expect(calculateMaxPrincipal(payment, 5, 25)).toBeCloseTo(350000, 2)
+    })
+
+    it('should compound Canadian payments semi-annually', () => {
+      expect(calculateMonthlyPayment(400000, 5, 25, 'semi_annual'))
+        .toBeLessThan(calculateMonthlyPayment(400000, 5, 25))
+    })
+
+    it('should handle a zero rate', () => {
+      expect(calculateMonthlyPayment(120000, 0, 10)).toBe(1000)
+    })
+  })
+
+  describe('calculate', () => {
+    const canadianInput = {
+      country: 'CA' as const,
+      income: 150000,
+      debts: 400,
+      downPayment: 100000,
+      propertyPrice: 500000,
+      interestRate: 4.5,
+      termYears: 25,
+      location: 'Toronto, ON',
+      taxes: 350,
+      insurance: 120,
+      hoa: 400,
+      heating: 100,
+    }
+
+    it('should be deterministic for identical input', () => {
+      expect(engine.calculate(canadianInput)).toEqual(engine.calculate(canadianInput))
+    })
+
+    it('should compute GDS and TDS at the qualifying rate', () => {
+      const result = engine.calculate(canadianInput)
+      const qualifyingPayment = calculateMonthlyPayment(400000, 6.5, 25, 'semi_annual')
+      const housing = qualifyingPayment + 350 + 100 + 400 * OSFI_B20_RULES.CONDO_FEE_INCLUSION
+
+      expect(result.qualifyingRate).toBe(6.5)
+      expect(result.gdsRatio).toBeCloseTo(housing / 12500 * 100, 2)
+      expect(result.tdsRatio).toBeCloseTo((housing + 400) / 12500 * 100, 2)
+      expect(result.qualificationResult).toBe(true)
+    })
+
+    it('should report the contract rate payment and first month split', () => {
+      const result = engine.calculate(canadianInput)
+
+      expect(result.monthlyPayment).toBeCloseTo(calculateMonthlyPayment(400000, 4.5, 25, 'semi_annual'), 2)
+      // Semi-annual compounding: less than the 1500 a monthly-compounded 4.5% would charge
+      expect(result.breakdown.interest).toBeCloseTo(400000 * getPeriodicRate(4.5, 'semi_annual', 12), 2)
+      expect(result.breakdown.principal + result.breakdown.interest).toBeCloseTo(result.monthlyPayment, 2)
+      expect(result.breakdown.taxes).toBe(350)
+      expect(result.breakdown.insurance).toBe(120)
+    })
+
+    it('should leave recommendations to the narrative layer', () => {
+      expect(engine.calculate(canadianInput).recommendations).toEqual([])
+    })
+
+    it('should fail Canadian applicants over the TDS limit', () => {
+      const result = engine.calculate({ ...canadianInput, income: 50000, debts: 2000 })
+
+      expect(result.qualificationResult).toBe(false)
+      expect(result.tdsRatio).toBeGreaterThan(OSFI_B20_RULES.TDS_LIMIT)
+    })
+
+    it('should size max affordable so the binding ratio sits at its limit', () => {
+      const result = engine.calculate(canadianInput)
+      const atMax = engine.calculate({ ...canadianInput, propertyPrice: result.maxAffordable })
+
+      expect(Math.max(
+        atMax.gdsRatio - OSFI_B20_RULES.GDS_LIMIT,
+        atMax.tdsRatio - OSFI_B20_RULES.TDS_LIMIT
+      )).toBeCloseTo(0, 1)
+    })
+
+    it('should apply the QM DTI limit for US borrowers', () => {
+      const result = engine.calculate({
+        country: 'US',
+        income: 96000,
+        debts: 600,
+        downPayment: 40000,
+        propertyPrice: 400000,
+        interestRate: 6.25,
+        termYears: 30,
+        location: 'Austin, TX',
+        taxes: 500,
+        insurance: 150,
+        hoa: 0,
+      })
+      // 90% LTV at the default 700 score carries 0.55% annual PMI
+      const pmi = 360000 * 0.55 / 100 / 12
+      const piti = calculateMonthlyPayment(360000, 6.25, 30) + pmi + 500 + 150
+
+      expect(result.qualifyingRate).toBe(6.25)
+      expect(result.breakdown.pmi).toBeCloseTo(pmi, 2)
+      expect(result.dtiRatio).toBeCloseTo((piti + 600) / 8000 * 100, 2)
+      expect(result.qualificationResult).toBe(result.dtiRatio <= CFPB_QM_RULES.DTI_LIMIT)
+    })
+
+    it('should capitalize the CMHC premium for insured Canadian purchases', () => {
+      const result = engine.calculate({ ...canadianInput, downPayment: 50000 })
+      const insuredLoan = 450000 * 1.031
+
+      expect(result.mortgageInsurance?.required).toBe(true)
+      expect(result.mortgageInsurance?.totalLoanAmount).toBeCloseTo(insuredLoan, 2)
+      expect(result.monthlyPayment).toBeCloseTo(calculateMonthlyPayment(insuredLoan, 4.5, 25, 'semi_annual'), 2)
+    })
+
+    it('should not qualify a purchase below the minimum down payment', () => {
+      const result = engine.calculate({ ...canadianInput, income: 400000, downPayment: 20000 })
+
+      expect(result.mortgageInsurance?.eligible).toBe(false)
+      expect(result.qualificationResult).toBe(false)
+    })
+
+    it('should keep the binding ratio at its limit when max affordable needs insurance', () => {
+      const input = { ...canadianInput, downPayment: 60000 }
+      const atMax = engine.calculate({ ...input, propertyPrice: engine.calculate(input).maxAffordable })
+
+      expect(atMax.mortgageInsurance?.required).toBe(true)
+      expect(Math.max(
+        atMax.gdsRatio - OSFI_B20_RULES.GDS_LIMIT,
+        atMax.tdsRatio - OSFI_B20_RULES.TDS_LIMIT
+      )).toBeCloseTo(0, 1)
+    })
+  })
+
+  describe('solveMaxPurchasePrice', () => {
+    const canadianInput = {
+      country: 'CA' as const,
+      income: 150000,
+      debts: 400,
+      downPayment: 100000,
+      propertyPrice: 500000,
+      interestRate: 4.5,
+      termYears: 25,
+      location: 'Toronto, ON',
+      taxes: 350,
+      hoa: 400,
+      heating: 100,
+    }
+
+    it('should report the debt service ratio that binds and match max affordable', () => {
+      const solution = engine.solveMaxPurchasePrice(canadianInput)
+
+      expect(['gds', 'tds']).toContain(solution.bindingConstraint)
+      expect(solution.limits.map(limit => limit.constraint)).toEqual(['gds', 'tds', 'min_down_payment'])
+      expect(solution.limits.filter(limit => limit.binding)).toHaveLength(1)
+      expect(engine.calculate(canadianInput).maxAffordable).toBe(solution.maxPurchasePrice)
+    })
+
+    it('should find the income and down payment that reach the next price band', () => {
+      const solution = engine.solveMaxPurchasePrice(canadianInput)
+      const { targetPrice, additionalIncome, additionalDownPayment } = solution.nextBand!
+
+      expect(targetPrice % PRICE_BAND_STEP).toBe(0)
+      expect(targetPrice).toBeGreaterThan(solution.maxPurchasePrice)
+      expect(engine.solveMaxPurchasePrice({ ...canadianInput, income: canadianInput.income + additionalIncome! }).maxPurchasePrice)
+        .toBeGreaterThanOrEqual(targetPrice)
+      expect(engine.solveMaxPurchasePrice({ ...canadianInput, income: canadianInput.income + additionalIncome! - 10 }).maxPurchasePrice)
+        .toBeLessThan(targetPrice)
+      expect(engine.solveMaxPurchasePrice({ ...canadianInput, downPayment: canadianInput.downPayment + additionalDownPayment! }).maxPurchasePrice)
+        .toBeGreaterThanOrEqual(targetPrice)
+    })
+
+    it('should bind on the minimum down payment tiers when income is ample', () => {
+      const solution = engine.solveMaxPurchasePrice({ ...canadianInput, income: 400000, downPayment: 30000 })
+
+      expect(solution.bindingConstraint).toBe('min_down_payment')
+      expect(solution.maxPurchasePrice).toBeCloseTo(550000, 2)
+      // More income cannot fix a short down payment
+      expect(solution.nextBand?.additionalIncome).toBeUndefined()
+      // $575k needs 5% of $500k plus 10% of $75k
+      expect(solution.nextBand?.additionalDownPayment).toBe(2500)
+    })
+
+    it('should bind on the insured price cap below 20% down', () => {
+      const solution = engine.solveMaxPurchasePrice({ ...canadianInput, income: 1000000, downPayment: 200000 })
+
+      expect(solution.bindingConstraint).toBe('insured_cap')
+      expect(solution.maxPurchasePrice).toBeLessThan(1500000)
+      expect(solution.nextBand?.targetPrice).toBe(1500000)
+      expect(solution.nextBand?.additionalDownPayment).toBe(100000)
+    })
+
+    it('should bind on DTI for US borrowers', () => {
+      const solution = engine.solveMaxPurchasePrice({
+        country: 'US',
+        income: 96000,
+        debts: 600,
+        downPayment: 80000,
+        propertyPrice: 400000,
+        interestRate: 6.25,
+        termYears: 30,
+        location: 'Austin, TX',
+        taxes: 500,
+        insurance: 150,
+      })
+
+      expect(solution.bindingConstraint).toBe('dti')
+      expect(solution.explanation).toContain(`${CFPB_QM_RULES.DTI_LIMIT}%`)
+      expect(solution.nextBand?.additionalIncome).toBeGreaterThan(0)
+    })
+  })
+})
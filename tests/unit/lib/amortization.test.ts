@@ -0,0 +1,87 @@
+import {
+  buildAmortizationSchedule,
+  calculatePeriodicPayment,
+  getCompoundingConvention,
+  getPeriodicRate,
+  PAYMENT_FREQUENCIES,
+} from '@core/mortgage/amortization'
+
+describe('amortization', () => {
+  describe('getCompoundingConvention', () => {
+    it('should compound Canadian fixed mortgages semi-annually', () => {
+      expect(getCompoundingConvention('CA', 'fixed')).toBe('semi_annual')
+    })
+
+    it('should compound Canadian variable and US mortgages monthly', () => {
+      expect(getCompoundingConvention('CA', 'variable')).toBe('monthly')
+      expect(getCompoundingConvention('US', 'fixed')).toBe('monthly')
+    })
+  })
+
+  describe('getPeriodicRate', () => {
+    it('should match the nominal monthly rate for monthly compounding', () => {
+      expect(getPeriodicRate(6, 'monthly', 12)).toBeCloseTo(0.005, 10)
+    })
+
+    it('should convert semi-annual compounding to an equivalent monthly rate', () => {
+      // 5% compounded semi-annually is an effective 5.0625% per year
+      const monthlyRate = getPeriodicRate(5, 'semi_annual', 12)
+      expect(Math.pow(1 + monthlyRate, 12) - 1).toBeCloseTo(0.050625, 10)
+    })
+  })
+
+  describe('calculatePeriodicPayment', () => {
+    it('should match the published Canadian monthly payment', () => {
+      // $500,000 at 5% over 25 years, semi-annual compounding
+      expect(calculatePeriodicPayment(500000, 5, 25, { country: 'CA' })).toBeCloseTo(2908.02, 2)
+    })
+
+    it('should match the standard US monthly payment', () => {
+      expect(calculatePeriodicPayment(400000, 6, 30, { country: 'US' })).toBeCloseTo(2398.2, 1)
+    })
+
+    it('should split the monthly payment for accelerated frequencies', () => {
+      const monthly = calculatePeriodicPayment(500000, 5, 25, { country: 'CA' })
+
+      expect(calculatePeriodicPayment(500000, 5, 25, { country: 'CA', frequency: 'accelerated_bi_weekly' }))
+        .toBeCloseTo(monthly / 2, 6)
+      expect(calculatePeriodicPayment(500000, 5, 25, { country: 'CA', frequency: 'accelerated_weekly' }))
+        .toBeCloseTo(monthly / 4, 6)
+    })
+
+    it('should amortize regular bi-weekly payments over the full period', () => {
+      const monthly = calculatePeriodicPayment(500000, 5, 25, { country: 'CA' })
+      const biWeekly = calculatePeriodicPayment(500000, 5, 25, { country: 'CA', frequency: 'bi_weekly' })
+
+      expect(biWeekly * 26).toBeLessThan(monthly * 12)
+      expect(biWeekly).toBeLessThan(monthly / 2)
+    })
+  })
+
+  describe('buildAmortizationSchedule', () => {
+    it('should list every payment period and fully repay the loan', () => {
+      const schedule = buildAmortizationSchedule(300000, 4.5, 25, { country: 'CA', frequency: 'bi_weekly' })
+
+      expect(schedule.periods).toHaveLength(25 * PAYMENT_FREQUENCIES.bi_weekly.periodsPerYear)
+      expect(schedule.periods[0].period).toBe(1)
+      expect(schedule.periods[schedule.periods.length - 1].balance).toBeCloseTo(0, 2)
+      expect(schedule.periods[schedule.periods.length - 1].month).toBe(300)
+      expect(schedule.periods[schedule.periods.length - 1].cumulativePrincipal).toBeCloseTo(300000, 2)
+    })
+
+    it('should pay off accelerated schedules early and save interest', () => {
+      const monthly = buildAmortizationSchedule(500000, 5, 25, { country: 'CA' })
+      const accelerated = buildAmortizationSchedule(500000, 5, 25, { country: 'CA', frequency: 'accelerated_bi_weekly' })
+
+      expect(accelerated.payoffPeriods).toBeLessThan(25 * 26)
+      expect(accelerated.totalInterest).toBeLessThan(monthly.totalInterest)
+      expect(accelerated.periods[accelerated.periods.length - 1].balance).toBe(0)
+    })
+
+    it('should report the monthly equivalent of the periodic payment', () => {
+      const schedule = buildAmortizationSchedule(200000, 6, 20, { country: 'US', frequency: 'weekly' })
+
+      expect(schedule.monthlyEquivalentPayment).toBeCloseTo(schedule.payment * 52 / 12, 8)
+    })
+  })
+})
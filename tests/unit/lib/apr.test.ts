@@ -0,0 +1,123 @@
+import { calculateApr, closingCostFees, pricingFees } from '@core/mortgage/apr'
+import { buildAmortizationSchedule, calculatePeriodicPayment } from '@core/mortgage/amortization'
+import { priceLoan, DEFAULT_PRICING_GRIDS } from '@core/rates/pricing-engine'
+
+const presentValue = (payment: number, annualRate: number, months: number) => {
+  const monthlyRate = annualRate / 100 / 12
+  return payment * (1 - Math.pow(1 + monthlyRate, -months)) / monthlyRate
+}
+
+describe('APR', () => {
+  it('should equal the note rate when there are no finance charges', () => {
+    const disclosure = calculateApr({ country: 'US', loanAmount: 300000, noteRate: 6.5, amortizationYears: 30, fees: [] })
+    const payment = calculatePeriodicPayment(300000, 6.5, 30, { country: 'US' })
+
+    expect(disclosure.method).toBe('reg_z_actuarial')
+    expect(disclosure.apr).toBe(6.5)
+    expect(disclosure.amountFinanced).toBe(300000)
+    expect(disclosure.totalOfPayments).toBeCloseTo(payment * 360, 0)
+    expect(disclosure.financeCharge).toBeCloseTo(payment * 360 - 300000, 0)
+  })
+
+  it('should solve the actuarial APR from the amount financed after prepaid finance charges', () => {
+    const disclosure = calculateApr({
+      country: 'US',
+      loanAmount: 320000,
+      noteRate: 6,
+      amortizationYears: 30,
+      fees: [
+        { type: 'discount_points', label: 'Discount points (1)', amount: 3200 },
+        { type: 'origination', label: 'Origination', amount: 1195 },
+        { type: 'appraisal', label: 'Appraisal', amount: 600 },
+        { type: 'title_insurance', label: 'Title insurance', amount: 1400 },
+      ],
+    })
+    const payment = calculatePeriodicPayment(320000, 6, 30, { country: 'US' })
+
+    expect(disclosure.amountFinanced).toBe(320000 - 4395)
+    expect(disclosure.includedFees.map(fee => fee.type)).toEqual(['discount_points', 'origination'])
+    expect(disclosure.excludedFees.map(fee => fee.type)).toEqual(['appraisal', 'title_insurance'])
+    // Appendix J: the payments discounted at the (rounded) APR are worth the amount financed
+    expect(presentValue(payment, disclosure.apr - 0.001, 360)).toBeGreaterThan(disclosure.amountFinanced)
+    expect(presentValue(payment, disclosure.apr + 0.001, 360)).toBeLessThan(disclosure.amountFinanced)
+  })
+
+  it('should add monthly mortgage insurance to the payment stream until it cancels', () => {
+    const base = { country: 'US' as const, loanAmount: 360000, noteRate: 6.5, amortizationYears: 30, fees: [] }
+    const withPmi = calculateApr({ ...base, monthlyMortgageInsurance: 150, mortgageInsuranceMonths: 100 })
+    const withoutPmi = calculateApr(base)
+
+    expect(withPmi.apr).toBeGreaterThan(withoutPmi.apr)
+    expect(withPmi.totalOfPayments - withoutPmi.totalOfPayments).toBeCloseTo(150 * 100, 0)
+    expect(withPmi.mortgageInsuranceMonths).toBe(100)
+  })
+
+  it('should count a financed upfront premium as a finance charge without reducing the amount financed', () => {
+    const disclosure = calculateApr({
+      country: 'US',
+      loanAmount: 289500,
+      noteRate: 6.25,
+      amortizationYears: 30,
+      fees: [{ type: 'mortgage_insurance', label: 'FHA upfront MIP', amount: 5066.25, financed: true }],
+    })
+
+    expect(disclosure.loanAmount).toBe(294566.25)
+    expect(disclosure.amountFinanced).toBe(289500)
+    expect(disclosure.apr).toBeGreaterThan(6.25)
+  })
+
+  it('should compute the Canadian APR from the cost of borrowing over the term', () => {
+    const disclosure = calculateApr({
+      country: 'CA',
+      loanAmount: 480000,
+      noteRate: 4.79,
+      amortizationYears: 25,
+      termYears: 5,
+      rateType: 'fixed',
+      fees: [
+        { type: 'processing', label: 'Lender fee', amount: 500 },
+        { type: 'mortgage_insurance', label: 'Default insurance premium', amount: 19200, financed: true },
+        { type: 'appraisal', label: 'Appraisal', amount: 400 },
+        { type: 'legal', label: 'Legal fees', amount: 1200 },
+      ],
+    })
+
+    const schedule = buildAmortizationSchedule(499200, 4.79, 25, { country: 'CA', rateType: 'fixed' })
+    const term = schedule.periods.slice(0, 60)
+    const interest = term.reduce((sum, period) => sum + period.interest, 0)
+    const averageBalance = term.reduce((sum, period) => sum + period.balance, 0) / 60
+
+    expect(disclosure.method).toBe('cost_of_borrowing')
+    expect(disclosure.termMonths).toBe(60)
+    expect(disclosure.financeCharge).toBeCloseTo(interest + 500, 1)
+    expect(disclosure.apr).toBeCloseTo((interest + 500) / (5 * averageBalance) * 100, 3)
+    expect(disclosure.includedFees.map(fee => fee.type)).toEqual(['processing'])
+    expect(disclosure.excludedFees.map(fee => fee.type)).toEqual(['mortgage_insurance', 'appraisal', 'legal'])
+  })
+
+  it('should turn pricing points and buyer-paid closing costs into fee inputs', () => {
+    const pricing = priceLoan(6.5, 'fixed', {
+      country: 'US',
+      propertyPrice: 400000,
+      downPayment: 80000,
+      amortizationYears: 30,
+      creditScore: 700,
+      discountPoints: 1,
+    }, DEFAULT_PRICING_GRIDS[1])
+
+    expect(pricingFees(pricing)).toEqual([
+      { type: 'pricing_adjustment', label: 'Loan-level price adjustments', amount: 4400 },
+      { type: 'discount_points', label: 'Discount points (1)', amount: 3200 },
+    ])
+
+    expect(closingCostFees([
+      { code: 'on_ltt', label: 'Ontario land transfer tax', category: 'transfer_tax', amount: 8475, paidBy: 'buyer' },
+      { code: 'on_ltt_ftb_rebate', label: 'Ontario first-time buyer rebate', category: 'rebate', amount: -4000, paidBy: 'buyer' },
+      { code: 'deed_tax_seller', label: 'Transfer tax (seller share)', category: 'transfer_tax', amount: 900, paidBy: 'seller' },
+      { code: 'registration_fees', label: 'Deed and mortgage registration', category: 'recording', amount: 150, paidBy: 'buyer' },
+    ])).toEqual([
+      { type: 'transfer_tax', label: 'Ontario land transfer tax', amount: 8475 },
+      { type: 'registration', label: 'Deed and mortgage registration', amount: 150 },
+    ])
+  })
+})
@@ -0,0 +1,168 @@
+import {
+  LeadRoutingEngine,
+  planRouting,
+  resolveJurisdiction,
+  scoreBrokers,
+} from '@core/lead-routing'
+import { LeadQualificationService } from '@core/lead-qualification'
+import { broker } from '@tests/helpers/broker-fixtures'
+import { mockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+jest.mock('@core/monitoring', () => ({
+  errorTracking: { captureException: jest.fn() },
+}))
+
+jest.mock('@core/broker-notifications', () => ({
+  brokerNotificationService: {},
+}))
+
+describe('Broker routing', () => {
+  it('should resolve provinces and states from codes and names', () => {
+    expect(resolveJurisdiction('Toronto, ON')).toBe('ON')
+    expect(resolveJurisdiction('Montréal, Québec')).toBe('QC')
+    expect(resolveJurisdiction('Austin, Texas')).toBe('TX')
+    expect(resolveJurisdiction('bc')).toBe('BC')
+    expect(resolveJurisdiction('Springfield')).toBeUndefined()
+    expect(resolveJurisdiction()).toBeUndefined()
+  })
+
+  it('should exclude brokers who are not licensed in the jurisdiction or are at capacity', () => {
+    const candidates = scoreBrokers({ location: 'Ottawa, ON', specialties: [] }, [
+      broker({ brokerId: 'bc-only', provincesStates: ['BC'] }),
+      broker({ brokerId: 'full', openLeads: 10 }),
+      broker({ brokerId: 'open' }),
+    ])
+
+    expect(candidates.map(candidate => [candidate.broker.brokerId, candidate.eligible])).toEqual([
+      ['open', true],
+      ['bc-only', false],
+      ['full', false],
+    ])
+    expect(candidates[1].reasons).toContain('Not licensed in ON')
+    expect(candidates[2].reasons).toContain('At capacity with 10 of 10 open leads')
+    const unlicensed = planRouting({ location: 'Calgary, AB', specialties: [] }, [broker({})])
+    expect(unlicensed.selected).toBeUndefined()
+    expect(unlicensed).toMatchObject({ jurisdiction: 'AB', reason: 'No broker is licensed for this property and has capacity' })
+  })
+
+  it('should score specialty fit, load, response time, conversion and language with reasons', () => {
+    const decision = planRouting({ location: 'Toronto, ON', language: 'fr', specialties: ['self_employed', 'new_to_country'] }, [
+      broker({ brokerId: 'generalist', openLeads: 2 }),
+      broker({
+        brokerId: 'specialist',
+        languages: ['en', 'fr'],
+        specialties: ['self_employed', 'new_to_country'],
+        openLeads: 5,
+        averageResponseHours: 6,
+        conversionRate: 20,
+      }),
+      broker({ brokerId: 'newcomer', specialties: ['new_to_country'], averageResponseHours: undefined, conversionRate: undefined }),
+    ])
+
+    expect(decision.selected!.broker.brokerId).toBe('specialist')
+    // 30 specialty + 12.5 load + 7.5 response + 16 conversion + 10 language
+    expect(decision.selected!.components).toEqual({
+      specialty: 30,
+      load: 12.5,
+      responseTime: 7.5,
+      conversion: 16,
+      language: 10,
+      preferredLender: 0,
+    })
+    expect(decision.selected!.score).toBe(76)
+    expect(decision.selected!.reasons).toEqual([
+      'Licensed in ON',
+      '5 of 10 open leads',
+      'Specializes in self-employed borrowers',
+      'Specializes in newcomers to the country',
+      'Responds in 6h against a 4h SLA',
+      'Converts 20% of leads',
+      'Speaks fr',
+    ])
+    // New brokers get half points for response time and conversion instead of none
+    expect(decision.alternates.map(candidate => [candidate.broker.brokerId, candidate.score])).toEqual([
+      ['newcomer', 57.5],
+      ['generalist', 55],
+    ])
+  })
+
+  it('should rotate round robin within the band and distribute weighted picks by score and weight', () => {
+    const brokers = [
+      broker({ brokerId: 'recent', lastAssignedAt: '2024-03-02T00:00:00Z' }),
+      broker({ brokerId: 'waiting', openLeads: 1, lastAssignedAt: '2024-03-01T00:00:00Z' }),
+      broker({ brokerId: 'far-behind', openLeads: 9, routingWeight: 3 }),
+    ]
+    const lead = { location: 'ON', specialties: [] }
+
+    expect(planRouting(lead, brokers).selected!.broker.brokerId).toBe('recent')
+    const roundRobin = planRouting(lead, brokers, { strategy: 'round_robin' })
+    expect(roundRobin.selected!.broker.brokerId).toBe('waiting')
+    expect(roundRobin.reason).toBe('Next in rotation among 2 brokers within 10 points of the best match')
+
+    // Scores 100, 97.5 and 77.5 times weights 1, 1 and 3: shares of 23%, 23% and 54%
+    expect(planRouting(lead, brokers, { strategy: 'weighted', random: () => 0.1 }).selected!.broker.brokerId).toBe('recent')
+    expect(planRouting(lead, brokers, { strategy: 'weighted', random: () => 0.3 }).selected!.broker.brokerId).toBe('waiting')
+    const weighted = planRouting(lead, brokers, { strategy: 'weighted', random: () => 0.5 })
+    expect(weighted.selected!.broker.brokerId).toBe('far-behind')
+    expect(weighted.reason).toBe('Drawn with a 54% share weighted by score and routing weight')
+  })
+
+  it('should route a qualified lead, record the decision and link it to the saved lead', async () => {
+    mockTables.brokers = [
+      { id: 'b-on', name: 'Ana Silva', company: 'North Mortgages', phone: '1', email: 'ana@example.com', commission_rate: '1.25', provinces_states: ['ON'], languages: ['en', 'pt'], specialties: ['self_employed'], max_open_leads: 5, response_sla_hours: 4, routing_weight: 1, is_active: true },
+      { id: 'b-bc', name: 'Ben Li', company: 'West Coast Lending', phone: '2', email: 'ben@example.com', commission_rate: '1', provinces_states: ['BC'], is_active: true },
+      { id: 'b-busy', name: 'Cam Roy', company: 'Lakeshore Capital', phone: '3', email: 'cam@example.com', commission_rate: '1', provinces_states: ['ON'], max_open_leads: 1, is_active: true },
+    ]
+    mockTables.leads = [{ id: 'lead-old', broker_id: 'b-busy', status: 'contacted' }]
+    mockTables.lead_routing_decisions = []
+
+    const monitoring = {
+      getBrokerPerformance: jest.fn().mockResolvedValue({
+        totalLeads: 8, convertedLeads: 2, conversionRate: 25, averageLeadScore: 70, totalCommission: 0, responseTime: 3,
+      }),
+    }
+    const service = new LeadQualificationService(new LeadRoutingEngine(monitoring))
+
+    const result = await service.processLeadQualification({
+      name: 'Jo Park',
+      email: 'jo@example.com',
+      phone: '555-123-4567',
+      propertyValue: 500000,
+      downPayment: 100000,
+      income: 90000,
+      employmentType: 'self-employed',
+      creditScore: 720,
+      propertyLocation: 'Hamilton, Ontario',
+      language: 'pt',
+      consentToShare: true,
+      consentToContact: true,
+    })
+
+    expect(result.brokerRecommendations).toEqual([expect.objectContaining({
+      brokerId: 'b-on',
+      commissionRate: 1.25,
+      routingScore: 100,
+      routingReasons: expect.arrayContaining(['Licensed in ON', 'Specializes in self-employed borrowers', 'Speaks pt']),
+    })])
+    expect(mockTables.brokers[0].last_assigned_at).toBeDefined()
+
+    const [decision] = mockTables.lead_routing_decisions
+    expect(decision).toMatchObject({
+      lead_reference: result.leadId,
+      strategy: 'best_match',
+      jurisdiction: 'ON',
+      selected_broker_id: 'b-on',
+      alternate_broker_ids: [],
+    })
+    expect(decision.candidates.map((candidate: any) => [candidate.brokerId, candidate.eligible])).toEqual([
+      ['b-on', true],
+      ['b-bc', false],
+      ['b-busy', false],
+    ])
+
+    await new LeadRoutingEngine(monitoring).linkDecision(result.leadId, 'lead-new')
+    expect(decision.lead_id).toBe('lead-new')
+  })
+})
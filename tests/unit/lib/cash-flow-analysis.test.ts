@@ -0,0 +1,128 @@
+import { analyzeCashFlow, applyCashFlowAnalysis, summarizeCashFlow } from '@core/mortgage/cash-flow-analysis'
+import { AffordabilityInput } from '@core/mortgage/affordability-engine'
+import { generateSyntheticTransactions, SYNTHETIC_BANKING_PROFILES } from '@core/testing/open-banking-fixtures'
+import { leadQualificationService } from '@core/lead-qualification'
+
+jest.mock('@core/supabase', () => ({ supabaseAdmin: {} }))
+jest.mock('@core/monitoring', () => ({ errorTracking: { captureException: jest.fn() } }))
+jest.mock('@core/broker-notifications', () => ({ brokerNotificationService: {} }))
+
+describe('Cash flow analysis', () => {
+  it('should verify biweekly payroll and season the savings balance', () => {
+    const analysis = analyzeCashFlow(generateSyntheticTransactions('salaried'), {
+      statedAnnualIncome: 76000,
+      statedDebts: 0,
+      downPayment: 50000,
+    })
+
+    expect(analysis.incomeStreams).toEqual([expect.objectContaining({
+      description: 'ACME WIDGETS PAYROLL 0628',
+      frequency: 'biweekly',
+      averageAmount: 2250,
+      monthlyAmount: 4875,
+      occurrences: 9,
+      current: true,
+    })])
+    // 4,875 of net pay a month over a 75% net-to-gross ratio
+    expect(analysis.supportedAnnualIncome).toBe(78000)
+    expect(analysis.transactions.filter(transaction => transaction.internalTransfer).map(transaction => transaction.description))
+      .toEqual(['TRANSFER FROM CHEQUING', 'TRANSFER FROM CHEQUING', 'TRANSFER FROM CHEQUING', 'TRANSFER FROM CHEQUING'])
+    expect(analysis.categoryTotals).toMatchObject({ payroll: 20250, housing: -7200, transfer: 0 })
+    expect(analysis.downPayment).toEqual({
+      stated: 50000,
+      availableFunds: 74922.5,
+      seasonedFunds: 64635,
+      unseasonedFunds: 10287.5,
+      sufficient: true,
+    })
+    expect(analysis.findings).toEqual([])
+
+    const summary = summarizeCashFlow(analysis)
+    expect(summary).not.toHaveProperty('transactions')
+    expect(summary.supportedAnnualIncome).toBe(78000)
+  })
+
+  it('should find recurring debt payments missing from the stated debts and NSF fees', () => {
+    const transactions = generateSyntheticTransactions('undisclosedDebts')
+
+    const fromList = analyzeCashFlow(transactions, { statedDebts: [{ description: 'Toyota car loan', monthlyPayment: 495 }] })
+    expect(fromList.recurringDebts.map(debt => [debt.description, debt.monthlyAmount])).toEqual([
+      ['TOYOTA FINANCIAL SERVICES', 520],
+      ['NSLSC STUDENT LOAN', 250],
+    ])
+    expect(fromList.undisclosedDebts.map(debt => debt.description)).toEqual(['NSLSC STUDENT LOAN'])
+    expect(fromList.undisclosedMonthlyDebt).toBe(250)
+
+    // A stated total of 300 covers the student loan but not the car payment
+    const fromTotal = analyzeCashFlow(transactions, { statedDebts: 300 })
+    expect(fromTotal.undisclosedDebts.map(debt => debt.description)).toEqual(['TOYOTA FINANCIAL SERVICES'])
+
+    expect(fromTotal.accountEvents).toEqual([
+      expect.objectContaining({ date: '2024-04-05', type: 'nsf', amount: 48 }),
+      expect.objectContaining({ date: '2024-06-05', type: 'nsf', amount: 48 }),
+    ])
+    expect(fromTotal.findings.map(finding => [finding.code, finding.severity])).toEqual([
+      ['undisclosed_debt', 'warning'],
+      ['nsf_activity', 'warning'],
+    ])
+  })
+
+  it('should flag a large recent deposit and count only seasoned funds toward the down payment', () => {
+    const analysis = analyzeCashFlow(generateSyntheticTransactions('giftedDownPayment'), { statedAnnualIncome: 80000, downPayment: 50000 })
+
+    expect(analysis.incomeStreams[0]).toMatchObject({ frequency: 'semimonthly', monthlyAmount: 5200 })
+    expect(analysis.largeDeposits.map(deposit => [deposit.date, deposit.amount, deposit.category])).toEqual([['2024-05-28', 40000, 'transfer']])
+    expect(analysis.downPayment).toMatchObject({ availableFunds: 62672.5, seasonedFunds: 15735, sufficient: false })
+    expect(analysis.findings).toEqual([
+      expect.objectContaining({ code: 'large_deposit', message: 'Deposit of $40,000 on 2024-05-28 ("E-TRANSFER FROM M SMITH") needs a documented source' }),
+      expect.objectContaining({ code: 'unseasoned_funds', message: 'Only $15,735 of the $50,000 down payment has been held for 90 days' }),
+    ])
+  })
+
+  it('should not count payroll that has stopped', () => {
+    const analysis = analyzeCashFlow(generateSyntheticTransactions({
+      ...SYNTHETIC_BANKING_PROFILES.salaried,
+      payroll: { payer: 'ACME WIDGETS PAYROLL', netPay: 2250, frequency: 'biweekly', firstDate: '2024-03-08', lastDate: '2024-05-03' },
+    }), { statedAnnualIncome: 76000 })
+
+    expect(analysis.incomeStreams[0]).toMatchObject({ lastDate: '2024-05-03', current: false })
+    expect(analysis.verifiedMonthlyIncome).toBe(0)
+    expect(analysis.findings.map(finding => [finding.code, finding.severity])).toEqual([
+      ['income_not_verified', 'critical'],
+      ['payroll_stopped', 'warning'],
+    ])
+  })
+
+  it('should restate affordability and the lead score on verified figures', () => {
+    const analysis = analyzeCashFlow(generateSyntheticTransactions('giftedDownPayment'), { statedAnnualIncome: 95000, statedDebts: 0, downPayment: 60000 })
+    const input: AffordabilityInput = {
+      country: 'CA',
+      income: 95000,
+      debts: 200,
+      downPayment: 60000,
+      propertyPrice: 300000,
+      interestRate: 5,
+      termYears: 25,
+      location: 'Toronto',
+    }
+
+    expect(applyCashFlowAnalysis(input, analysis)).toEqual({ ...input, income: 83200, downPayment: 15735 })
+
+    const lead = {
+      name: 'Jane Smith',
+      email: 'jane@example.com',
+      phone: '555-123-4567',
+      propertyValue: 300000,
+      downPayment: 60000,
+      income: 95000,
+      employmentType: 'salaried' as const,
+      creditScore: 750,
+      consentToShare: true,
+      consentToContact: true,
+    }
+    expect(leadQualificationService.calculateLeadScore(lead)).toBe(100)
+    // With the gift unseasoned the down payment falls below 20%. The larger insured mortgage on
+    // verified income still keeps TDS at the qualifying rate just inside the 35% scoring maximum.
+    expect(leadQualificationService.calculateLeadScore({ ...lead, cashFlow: analysis })).toBe(75)
+  })
+})
@@ -0,0 +1,108 @@
+import {
+  calculateBracketTax,
+  calculateClosingCosts,
+  parseJurisdiction,
+  ONTARIO_LTT_BRACKETS,
+} from '@core/mortgage/closing-costs'
+
+const item = (breakdown: ReturnType<typeof calculateClosingCosts>, code: string) =>
+  breakdown.items.find(i => i.code === code)
+
+describe('closing costs', () => {
+  it('should apply marginal brackets', () => {
+    expect(calculateBracketTax(500000, ONTARIO_LTT_BRACKETS)).toBeCloseTo(6475, 2)
+    expect(calculateBracketTax(0, ONTARIO_LTT_BRACKETS)).toBe(0)
+  })
+
+  it('should parse provinces, states and municipalities', () => {
+    expect(parseJurisdiction('CA', 'Toronto, ON')).toEqual({ region: 'ON', municipality: 'toronto' })
+    expect(parseJurisdiction('CA', 'Vancouver, British Columbia').region).toBe('BC')
+    expect(parseJurisdiction('US', 'Austin, TX').region).toBe('TX')
+    expect(parseJurisdiction('US', 'Buffalo, New York').region).toBe('NY')
+    expect(parseJurisdiction('US', 'Charleston, West Virginia').region).toBe('WV')
+    expect(parseJurisdiction('US', 'Charleston West Virginia').region).toBe('WV')
+    expect(parseJurisdiction('US', 'Richmond, Virginia').region).toBe('VA')
+    expect(parseJurisdiction('US', 'Arlington Virginia').region).toBe('VA')
+    expect(parseJurisdiction('US', 'Washington Iowa').region).toBe('IA')
+  })
+
+  it('should not charge Virginia taxes on a West Virginia purchase', () => {
+    const breakdown = calculateClosingCosts({ country: 'US', location: 'Charleston, West Virginia', propertyPrice: 300000, downPayment: 60000 })
+
+    expect(breakdown.items.filter(i => i.category === 'transfer_tax')).toEqual([])
+    expect(breakdown.warnings.length).toBeGreaterThan(0)
+  })
+
+  it('should charge Ontario and Toronto land transfer tax with first-time buyer rebates', () => {
+    const base = { country: 'CA' as const, location: 'Toronto, ON', propertyPrice: 500000, downPayment: 50000 }
+    const regular = calculateClosingCosts(base)
+    const firstTime = calculateClosingCosts({ ...base, firstTimeBuyer: true })
+
+    expect(item(regular, 'on_ltt')?.amount).toBe(6475)
+    expect(item(regular, 'toronto_mltt')?.amount).toBe(6475)
+    expect(item(firstTime, 'on_ltt_ftb_rebate')?.amount).toBe(-4000)
+    expect(item(firstTime, 'toronto_mltt_ftb_rebate')?.amount).toBe(-4475)
+    expect(regular.totalClosingCosts - firstTime.totalClosingCosts).toBeCloseTo(8475, 2)
+    expect(regular.cashToClose).toBeCloseTo(50000 + regular.totalClosingCosts, 2)
+  })
+
+  it('should not charge the Toronto tax elsewhere in Ontario', () => {
+    const breakdown = calculateClosingCosts({ country: 'CA', location: 'Ottawa, ON', propertyPrice: 500000, downPayment: 50000 })
+
+    expect(item(breakdown, 'toronto_mltt')).toBeUndefined()
+  })
+
+  it('should phase out the BC first-time buyer exemption', () => {
+    const full = calculateClosingCosts({ country: 'CA', location: 'Vancouver, BC', propertyPrice: 600000, downPayment: 60000, firstTimeBuyer: true })
+    const partial = calculateClosingCosts({ country: 'CA', location: 'Vancouver, BC', propertyPrice: 850000, downPayment: 85000, firstTimeBuyer: true })
+
+    expect(item(full, 'bc_ptt')?.amount).toBe(10000)
+    expect(item(full, 'bc_ptt_ftb_exemption')?.amount).toBe(-8000)
+    expect(item(partial, 'bc_ptt')?.amount).toBe(15000)
+    expect(item(partial, 'bc_ptt_ftb_exemption')?.amount).toBeCloseTo(-3200, 2)
+  })
+
+  it('should use the Montreal welcome tax brackets', () => {
+    const montreal = calculateClosingCosts({ country: 'CA', location: 'Montreal, QC', propertyPrice: 600000, downPayment: 120000 })
+    const quebecCity = calculateClosingCosts({ country: 'CA', location: 'Quebec City, QC', propertyPrice: 400000, downPayment: 80000 })
+
+    expect(item(montreal, 'qc_welcome_tax')?.amount).toBe(7392)
+    expect(item(quebecCity, 'qc_welcome_tax')?.amount).toBe(4153.5)
+  })
+
+  it('should charge PST on the mortgage insurance premium in Ontario', () => {
+    const breakdown = calculateClosingCosts({
+      country: 'CA',
+      location: 'Ottawa, ON',
+      propertyPrice: 500000,
+      downPayment: 25000,
+      mortgageInsurancePremium: 19000,
+    })
+
+    expect(item(breakdown, 'insurance_premium_pst')?.amount).toBe(1520)
+  })
+
+  it('should exclude seller-paid US transfer taxes from cash to close', () => {
+    const breakdown = calculateClosingCosts({ country: 'US', location: 'Buffalo, NY', propertyPrice: 1200000, downPayment: 240000 })
+
+    expect(item(breakdown, 'deed_transfer_tax')).toMatchObject({ amount: 4800, paidBy: 'seller' })
+    expect(item(breakdown, 'mortgage_tax')?.amount).toBe(10080)
+    expect(item(breakdown, 'mansion_tax')?.amount).toBe(12000)
+    const buyerTotal = breakdown.items.filter(i => i.paidBy === 'buyer').reduce((sum, i) => sum + i.amount, 0)
+    expect(breakdown.totalClosingCosts).toBeCloseTo(buyerTotal, 2)
+  })
+
+  it('should split transfer taxes where custom splits them', () => {
+    const breakdown = calculateClosingCosts({ country: 'US', location: 'Philadelphia, PA', propertyPrice: 400000, downPayment: 80000 })
+
+    expect(item(breakdown, 'deed_transfer_tax_buyer')?.amount).toBe(4000)
+    expect(item(breakdown, 'deed_transfer_tax_seller')?.amount).toBe(4000)
+  })
+
+  it('should warn when no table covers the jurisdiction', () => {
+    const breakdown = calculateClosingCosts({ country: 'US', location: 'Nowhere', propertyPrice: 300000, downPayment: 60000 })
+
+    expect(breakdown.warnings).toHaveLength(1)
+    expect(breakdown.totalClosingCosts).toBeGreaterThan(0)
+  })
+})
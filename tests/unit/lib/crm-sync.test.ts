@@ -0,0 +1,256 @@
+import { CHANGE_PAGE_SIZE, crmBridge, CRMIntegrationConfig, CRMLead } from '@core/integrations/crm/CRMBridge'
+import { localFieldChangedAt, parseChangeTime, resolveConflict } from '@core/integrations/crm/CRMInbound'
+import { CRMSyncService } from '@core/integrations/crm/CRMSync'
+import { MockCRM } from '@core/testing/mock-crm'
+import { MockLenderServer } from '@core/integrations/lenders/conformance/MockLenderServer'
+import { mockTables, resetMockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+jest.mock('@core/monitoring', () => ({
+  errorTracking: { captureException: jest.fn() },
+}))
+
+jest.mock('@core/broker-notifications', () => ({
+  brokerNotificationService: {},
+}))
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111'
+const HOUR_MS = 60 * 60 * 1000
+
+const crmLead: CRMLead = {
+  id: LEAD_ID,
+  name: 'Jordan Lee',
+  email: 'jordan@example.com',
+  phone: '416-555-0100',
+  leadData: {
+    income: 120000,
+    debts: 10000,
+    downPayment: 80000,
+    propertyPrice: 650000,
+    creditScore: 760,
+    employmentType: 'salaried',
+    location: 'Toronto, ON',
+    loanType: 'fixed',
+    timeline: '0-3 months',
+    propertyType: 'primary',
+  },
+  leadScore: 82,
+  matchConfidence: 0.9,
+  source: 'website',
+  createdAt: '2024-01-15T10:00:00.000Z',
+}
+
+function seedTables(leadUpdatedAt: Date) {
+  resetMockTables()
+  mockTables.leads = [{
+    id: LEAD_ID,
+    name: crmLead.name,
+    status: 'pending',
+    broker_id: 'broker-1',
+    lead_data: { income: 120000 },
+    merged_into_lead_id: null,
+    created_at: leadUpdatedAt.toISOString(),
+    updated_at: leadUpdatedAt.toISOString(),
+  }]
+  mockTables.brokers = [
+    { id: 'broker-1', email: 'first@brokerage.example' },
+    { id: 'broker-2', email: 'second@brokerage.example' },
+  ]
+}
+
+let integrationCount = 0
+
+function integrationFor(type: CRMIntegrationConfig['type'], baseUrl: string, overrides: Partial<CRMIntegrationConfig['configuration']> = {}): CRMIntegrationConfig {
+  return {
+    id: `${type}-sync-${++integrationCount}`,
+    name: `${type} sync`,
+    type,
+    enabled: true,
+    configuration: {
+      apiUrl: baseUrl,
+      apiKey: 'test-key',
+      webhookUrl: type === 'zapier' ? `${baseUrl}/hooks/catch/1/abc` : undefined,
+      leadScoreThreshold: 50,
+      ...overrides,
+    },
+    syncCount: 0,
+    errorCount: 0,
+  }
+}
+
+describe('CRM inbound sync', () => {
+  const sla = {
+    recordFirstContact: jest.fn().mockResolvedValue(null),
+    transferTimer: jest.fn().mockResolvedValue(null),
+  }
+  const service = new CRMSyncService(crmBridge, sla)
+  let server: MockLenderServer | undefined
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(async () => {
+    await server?.stop()
+    server = undefined
+    jest.clearAllMocks()
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  // Start the CRM's mock server, register an integration against it and export the lead there
+  async function connect(type: CRMIntegrationConfig['type'], overrides: Partial<CRMIntegrationConfig['configuration']> = {}) {
+    const crm = new MockCRM(type)
+    server = crm.createServer()
+    const integration = integrationFor(type, await server.start(), overrides)
+    await crmBridge.registerIntegration(integration)
+
+    const exported = await service.exportLead(integration.id, crmLead)
+    expect(exported.success).toBe(true)
+    return { crm, integration, externalId: String(exported.externalId) }
+  }
+
+  it.each([
+    ['hubspot', { hs_lead_status: 'CONNECTED', broker_notes: 'Wants a 5-year fixed' }],
+    ['salesforce', { Status: 'Working - Contacted', Description: 'Wants a 5-year fixed' }],
+    ['pipedrive', { label: 'contacted', 'custom_fields.broker_notes': 'Wants a 5-year fixed' }],
+    ['custom', { stage: 'contacted', notes: 'Wants a 5-year fixed' }],
+  ] as Array<[CRMIntegrationConfig['type'], Record<string, string>]>)(
+    'should poll stage and note changes back from %s and advance the cursor',
+    async (type, edit) => {
+      seedTables(new Date(Date.now() - HOUR_MS))
+      const { crm, integration, externalId } = await connect(type)
+      crm.edit(externalId, edit, new Date(Date.now() + 2000))
+
+      const result = await service.pollIntegration(integration.id)
+
+      expect(result.outcomes.applied).toBe(1)
+      expect(result.entries[0]).toMatchObject({ externalId, leadId: LEAD_ID, source: 'poll', outcome: 'applied' })
+      expect(mockTables.leads[0]).toMatchObject({ status: 'contacted', lead_data: { income: 120000, brokerNotes: 'Wants a 5-year fixed' } })
+      expect(sla.recordFirstContact).toHaveBeenCalledWith(LEAD_ID, 'crm', new Date(result.entries[0].changedAt))
+      expect(mockTables.crm_lead_links).toEqual([expect.objectContaining({ integration_id: integration.id, external_id: externalId, lead_id: LEAD_ID })])
+
+      // Nothing new past the cursor
+      const cursor = await service.getCursor(integration.id)
+      expect(cursor?.cursor).toBe(result.entries[0].changedAt)
+      const again = await service.pollIntegration(integration.id)
+      expect(again.entries).toEqual([])
+    }
+  )
+
+  it.each(['hubspot', 'pipedrive', 'custom'] as Array<CRMIntegrationConfig['type']>)(
+    'should read every record changed at the same moment from %s once, across pages and polls',
+    async type => {
+      seedTables(new Date(Date.now() - HOUR_MS))
+      const { crm, integration, externalId } = await connect(type)
+      const tiedAt = new Date(Math.ceil((Date.now() + 2000) / 1000) * 1000)
+      const addRecord = (index: number) => crm.records.set(String(9000 + index), { id: String(9000 + index), fields: {}, updatedAt: tiedAt })
+
+      // More records than fit on a page, all changed in the same second as the exported one
+      crm.edit(externalId, {}, tiedAt)
+      for (let index = 0; index < CHANGE_PAGE_SIZE + 5; index++) addRecord(index)
+
+      const first = await service.pollIntegration(integration.id)
+      expect(new Set(first.entries.map(entry => entry.externalId)).size).toBe(CHANGE_PAGE_SIZE + 6)
+      expect(first.cursor).toBe(tiedAt.toISOString())
+
+      // A record that reaches the feed later with the same change time is still read
+      addRecord(CHANGE_PAGE_SIZE + 5)
+      const second = await service.pollIntegration(integration.id)
+      expect(second.entries.map(entry => entry.externalId)).toEqual([String(9000 + CHANGE_PAGE_SIZE + 5)])
+
+      const third = await service.pollIntegration(integration.id)
+      expect(third.entries).toEqual([])
+    }
+  )
+
+  it('should apply stage and owner changes from a Zapier webhook and hand the SLA timer over', async () => {
+    seedTables(new Date(Date.now() - HOUR_MS))
+    const { crm, integration, externalId } = await connect('zapier')
+    crm.edit(externalId, { stage: 'Won', owner: 'Second@Brokerage.example' }, new Date(Date.now() + 1000))
+
+    const result = await service.handleWebhook(integration.id, crm.webhookPayload(externalId))
+
+    expect(result.outcomes.applied).toBe(1)
+    expect(mockTables.leads[0]).toMatchObject({ status: 'converted', broker_id: 'broker-2' })
+    expect(sla.transferTimer).toHaveBeenCalledWith(LEAD_ID, 'broker-2', 'crm', expect.any(Date))
+    expect(sla.recordFirstContact).toHaveBeenCalledWith(LEAD_ID, 'crm', expect.any(Date))
+    await expect(service.pollIntegration(integration.id)).rejects.toThrow('can only sync through webhooks')
+  })
+
+  it('should keep newer local edits under last-writer-wins, honour field policies and replay conflicts', async () => {
+    const now = Date.now()
+    seedTables(new Date(now - HOUR_MS))
+    const { crm, integration, externalId } = await connect('hubspot', { fieldConflictPolicies: { notes: 'crm_wins' } })
+
+    // The broker edited the CRM two hours ago, before our lead last changed
+    crm.edit(externalId, { hs_lead_status: 'UNQUALIFIED', broker_notes: 'Not ready to buy' }, new Date(now - 2 * HOUR_MS))
+    const result = await service.handleWebhook(integration.id, crm.webhookPayload(externalId, ['hs_lead_status', 'broker_notes']))
+
+    expect(result.entries.map(entry => entry.outcome)).toEqual(['conflict', 'applied'])
+    expect(result.entries[0].fieldResults).toEqual([
+      expect.objectContaining({ field: 'stage', value: 'rejected', result: 'conflict' }),
+    ])
+    expect(mockTables.leads[0].status).toBe('pending')
+    expect(mockTables.leads[0].lead_data.brokerNotes).toBe('Not ready to buy')
+
+    // Applying the note did not make our stage look newer than it is
+    expect(localFieldChangedAt(mockTables.leads[0], 'stage')).toBe(new Date(now - HOUR_MS).toISOString())
+
+    const replayed = await service.replay(integration.id, { outcomes: ['conflict'], conflictPolicy: 'crm_wins' })
+    expect(replayed.entries).toEqual([
+      expect.objectContaining({ source: 'replay', outcome: 'applied', replayOf: result.entries[0].id }),
+    ])
+    expect(mockTables.leads[0].status).toBe('rejected')
+
+    // Replays are idempotent
+    const again = await service.replay(integration.id, { entryIds: [result.entries[0].id], conflictPolicy: 'crm_wins' })
+    expect(again.outcomes.skipped).toBe(1)
+  })
+
+  it('should log unmapped stages and unknown records, and apply them on replay once mapped and merged leads resolve', async () => {
+    seedTables(new Date(Date.now() - HOUR_MS))
+    const { crm, integration, externalId } = await connect('salesforce')
+    crm.edit(externalId, { Status: 'Nurturing' }, new Date(Date.now() + 1000))
+
+    const webhook = await service.handleWebhook(integration.id, {
+      records: [
+        ...(crm.webhookPayload(externalId) as { records: any[] }).records,
+        { Id: '00Q999999999999', Status: 'Working - Contacted', LastModifiedDate: new Date().toISOString() },
+      ],
+    })
+    expect(webhook.entries.map(entry => entry.outcome)).toEqual(['unmapped', 'unmatched'])
+    expect(webhook.entries[0].fieldResults[0].reason).toBe('No lead status mapped for stage "Nurturing"')
+
+    // The lead has since been merged into another
+    const survivorId = '22222222-2222-4222-8222-222222222222'
+    mockTables.leads.push({ ...mockTables.leads[0], id: survivorId, status: 'pending' })
+    mockTables.leads[0].merged_into_lead_id = survivorId
+
+    await crmBridge.updateIntegration(integration.id, {
+      configuration: { ...integration.configuration, stageMapping: { Nurturing: 'contacted' } },
+    })
+    const replayed = await service.replay(integration.id)
+
+    expect(replayed.entries.map(entry => [entry.outcome, entry.leadId])).toEqual([['applied', survivorId], ['unmatched', undefined]])
+    expect(mockTables.leads.find(lead => lead.id === survivorId).status).toBe('contacted')
+    expect(mockTables.crm_lead_links.find(link => link.external_id === externalId).lead_id).toBe(survivorId)
+  })
+
+  it('should decide conflicts and read CRM timestamps', () => {
+    expect(resolveConflict('last_writer_wins', { value: 'a', changedAt: '2024-01-02T00:00:00Z' }, { value: 'b', changedAt: '2024-01-01T00:00:00Z' }))
+      .toEqual({ apply: true, conflict: false, reason: 'CRM change is newer' })
+    expect(resolveConflict('local_wins', { value: 'a', changedAt: '2024-01-02T00:00:00Z' }, { value: undefined }))
+      .toMatchObject({ apply: true })
+    expect(resolveConflict('crm_wins', { value: 'a', changedAt: '2024-01-01T00:00:00Z' }, { value: 'a' }))
+      .toMatchObject({ apply: false, conflict: false })
+
+    expect(parseChangeTime('2024-01-15 10:00:00')).toBe('2024-01-15T10:00:00.000Z')
+    expect(parseChangeTime(1705312800)).toBe('2024-01-15T10:00:00.000Z')
+    expect(parseChangeTime('1705312800000')).toBe('2024-01-15T10:00:00.000Z')
+    expect(parseChangeTime('2024-01-15T10:00:00.000+0000')).toBe('2024-01-15T10:00:00.000Z')
+  })
+})
@@ -0,0 +1,118 @@
+import { buildConditionsChecklist, reconcileDocuments, ReconciliationDocument } from '@core/agents/document-reconciliation'
+
+const paystub: ReconciliationDocument = {
+  documentId: 'paystub-1',
+  userId: 'user-1',
+  documentType: 'paystub',
+  extractedFields: {
+    employee_name: 'Jane A. Smith',
+    employee_address: '123 Main Street, Apt 4, Toronto ON',
+    employer_name: 'Acme Widgets Inc.',
+    regular_pay: 3000,
+    pay_frequency: 'biweekly',
+    net_pay: '2,250.00',
+  },
+}
+
+const letter: ReconciliationDocument = {
+  documentId: 'letter-1',
+  userId: 'user-1',
+  documentType: 'employment_letter',
+  extractedFields: { employee_name: 'Smith, Jane', employer_name: 'ACME WIDGETS LTD', salary: 78000 },
+}
+
+const statement: ReconciliationDocument = {
+  documentId: 'statement-1',
+  userId: 'user-1',
+  documentType: 'bank_statement',
+  extractedFields: {
+    account_holder: 'JANE SMITH',
+    account_holder_address: '123 Main St Toronto',
+    payroll_deposits: [{ date: '2024-06-14', amount: 2251.1, description: 'ACME PAYROLL' }, 2249.9],
+  },
+}
+
+describe('Document reconciliation', () => {
+  it('should find nothing when the documents agree', () => {
+    expect(reconcileDocuments([paystub, letter, statement])).toEqual({ flags: [], conditions: [] })
+  })
+
+  it('should flag a different employer and an inflated employment letter salary', () => {
+    const { flags } = reconcileDocuments([
+      paystub,
+      { ...letter, extractedFields: { ...letter.extractedFields, employer_name: 'Globex Corporation', salary: 110000 } },
+      { documentId: 'w2-2023', userId: 'user-1', documentType: 'w2', extractedFields: { tax_year: 2023, employer_name: 'Initech LLC', wages: 70000 } },
+    ])
+
+    expect(flags).toEqual([
+      expect.objectContaining({ code: 'employer_mismatch', severity: 'critical', documentIds: ['paystub-1', 'letter-1'] }),
+      expect.objectContaining({ code: 'employer_mismatch', severity: 'warning', documentIds: ['paystub-1', 'w2-2023'] }),
+      expect.objectContaining({
+        code: 'income_mismatch',
+        severity: 'critical',
+        message: 'Paystub pay annualizes to $78,000, 29% off the $110,000 salary in the employment letter',
+      }),
+      expect.objectContaining({ code: 'income_mismatch', severity: 'warning', documentIds: ['letter-1', 'w2-2023'] }),
+    ])
+  })
+
+  it('should match payroll deposits to net pay', () => {
+    const missing = reconcileDocuments([paystub, { ...statement, extractedFields: { ...statement.extractedFields, payroll_deposits: [] } }])
+    expect(missing.flags).toEqual([expect.objectContaining({ code: 'payroll_deposit_missing', severity: 'warning' })])
+
+    const mismatched = reconcileDocuments([paystub, { ...statement, extractedFields: { ...statement.extractedFields, payroll_deposits: [1800] } }])
+    expect(mismatched.flags).toEqual([expect.objectContaining({
+      code: 'payroll_deposit_mismatch',
+      severity: 'critical',
+      message: 'No payroll deposit on the bank statement matches $2,250 net pay (deposits: $1,800)',
+      documentIds: ['paystub-1', 'statement-1'],
+    })])
+  })
+
+  it('should flag names and addresses that disagree across documents', () => {
+    const { flags } = reconcileDocuments([
+      paystub,
+      { ...statement, extractedFields: { ...statement.extractedFields, account_holder: 'John Doe', account_holder_address: '77 King Road' } },
+    ])
+
+    expect(flags.map(flag => [flag.code, flag.severity, flag.field])).toEqual([
+      ['name_mismatch', 'critical', 'account_holder'],
+      ['address_mismatch', 'warning', 'account_holder_address'],
+    ])
+  })
+
+  it('should flag a document identical to one from another applicant', () => {
+    const { flags, conditions } = reconcileDocuments(
+      [{ ...paystub, documentHash: 'abc' }, { ...letter, documentHash: 'def' }],
+      [{ documentId: 'other-1', userId: 'user-2', documentHash: 'abc' }]
+    )
+
+    expect(flags).toEqual([expect.objectContaining({
+      code: 'duplicate_document',
+      severity: 'critical',
+      message: 'The paystub is identical to a document submitted by another applicant',
+      documentIds: ['paystub-1'],
+    })])
+    expect(conditions).toEqual([expect.objectContaining({
+      condition: 'Obtain the document directly from its source (employer, bank or tax authority)',
+      documentIds: ['paystub-1'],
+    })])
+  })
+
+  it('should group flags into a checklist ordered by severity', () => {
+    const flag = (code: any, severity: any, documentId: string, condition = `Clear ${code}`) => ({
+      code, severity, message: `${code} on ${documentId}`, condition, documentIds: [documentId],
+    })
+
+    expect(buildConditionsChecklist([
+      flag('missing_field', 'warning', 'a'),
+      flag('name_mismatch', 'critical', 'b'),
+      flag('missing_field', 'critical', 'c'),
+      flag('extraction_note', 'info', 'd'),
+    ])).toEqual([
+      { code: 'missing_field', severity: 'critical', condition: 'Clear missing_field', documentIds: ['a', 'c'], findings: ['missing_field on a', 'missing_field on c'] },
+      expect.objectContaining({ code: 'name_mismatch', documentIds: ['b'] }),
+      expect.objectContaining({ code: 'extraction_note', severity: 'info' }),
+    ])
+  })
+})
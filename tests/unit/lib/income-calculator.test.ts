@@ -0,0 +1,130 @@
+import { calculateQualifyingIncome, IncomeDocument } from '@core/mortgage/income-calculator'
+
+const paystub: IncomeDocument = {
+  documentId: 'paystub-june',
+  documentType: 'paystub',
+  extractedFields: {
+    gross_pay: '$3,450.00',
+    regular_pay: 3000,
+    pay_frequency: 'Bi-Weekly',
+    pay_period_end: '2024-06-30',
+    ytd_gross: 36000,
+    ytd_overtime: 4000,
+    ytd_bonus: 2000,
+  },
+}
+
+const w2 = (taxYear: number, fields: Record<string, unknown>): IncomeDocument => ({
+  documentId: `w2-${taxYear}`,
+  documentType: 'w2',
+  extractedFields: { tax_year: taxYear, ...fields },
+})
+
+const taxReturn = (taxYear: number, fields: Record<string, unknown>): IncomeDocument => ({
+  documentId: `return-${taxYear}`,
+  documentType: 'tax_return',
+  extractedFields: { tax_year: taxYear, ...fields },
+})
+
+describe('Income calculator', () => {
+  it('should annualize paystub base pay and use the lower of current rate and year to date', () => {
+    const worksheet = calculateQualifyingIncome([paystub], { country: 'US' })
+    const base = worksheet.lines.filter(line => line.category === 'base')
+
+    expect(base).toEqual([
+      expect.objectContaining({ rule: 'base.current_rate_annualized', annualAmount: 78000, included: false, inputs: { regularPay: 3000, payFrequency: 'biweekly', periodsPerYear: 26 } }),
+      // 30,000 of base pay (36,000 less overtime and bonus) over 5.95 months
+      expect.objectContaining({ rule: 'base.ytd_annualized', annualAmount: 60504.2, included: true, inputs: { ytdBase: 30000, monthsElapsed: 5.95 } }),
+    ])
+    expect(worksheet.byCategory.base).toBe(60504.2)
+  })
+
+  it('should average variable income over its history and exclude it without a prior year', () => {
+    const worksheet = calculateQualifyingIncome([
+      paystub,
+      w2(2023, { wages: 86000, overtime: 6000 }),
+      w2(2022, { wages: 80000, overtime: 5000 }),
+      w2(2021, { wages: 70000, overtime: 9000 }),
+    ], { country: 'US' })
+
+    // 2023 and 2022 overtime plus year to date, over 29.95 months
+    expect(worksheet.lines.find(line => line.category === 'overtime')).toMatchObject({
+      rule: 'variable.average',
+      documents: ['w2-2023', 'w2-2022', 'paystub-june'],
+      inputs: { overtime2023: 6000, overtime2022: 5000, ytd_overtime: 4000, monthsElapsed: 5.95 },
+      annualAmount: 6010.02,
+      included: true,
+    })
+    expect(worksheet.lines.find(line => line.category === 'bonus')).toMatchObject({ rule: 'variable.history_required', included: false })
+    expect(worksheet.warnings).toContain('Bonus has no prior-year history and is excluded')
+    expect(worksheet.qualifyingAnnualIncome).toBe(66514.22)
+    expect(worksheet.qualifyingMonthlyIncome).toBe(5542.85)
+
+    const declining = calculateQualifyingIncome([
+      { ...paystub, extractedFields: { ...paystub.extractedFields, ytd_overtime: 1000, ytd_gross: 33000 } },
+      w2(2023, { wages: 86000, overtime: 6000 }),
+    ], { country: 'US' })
+    expect(declining.lines.find(line => line.category === 'overtime')).toMatchObject({ rule: 'variable.declining', annualAmount: 2016.81 })
+  })
+
+  it('should average two years of self-employed income with add-backs unless it is declining', () => {
+    const growing = calculateQualifyingIncome([
+      taxReturn(2023, { business_income: 90000, depreciation: 8000, business_use_of_home: 2000 }),
+      taxReturn(2022, { business_income: '$80,000', depreciation: 6000 }),
+    ], { country: 'CA' })
+
+    expect(growing.lines).toEqual([
+      expect.objectContaining({ rule: 'self_employed.addbacks', annualAmount: 100000, included: false, inputs: { businessIncome: 90000, depreciation: 8000, business_use_of_home: 2000 } }),
+      expect.objectContaining({ rule: 'self_employed.addbacks', annualAmount: 86000, included: false }),
+      expect.objectContaining({ rule: 'self_employed.two_year_average', annualAmount: 93000, included: true, inputs: { adjusted2023: 100000, adjusted2022: 86000 } }),
+    ])
+
+    const shrinking = calculateQualifyingIncome([
+      taxReturn(2022, { business_income: 80000 }),
+      taxReturn(2023, { business_income: '(5,000)' }),
+    ], { country: 'US' })
+    expect(shrinking.lines[2]).toMatchObject({ rule: 'self_employed.declining', annualAmount: -5000 })
+    expect(shrinking.qualifyingAnnualIncome).toBe(0)
+
+    const oneYear = calculateQualifyingIncome([taxReturn(2023, { business_income: 70000 })], { country: 'US' })
+    expect(oneYear.lines[1]).toMatchObject({ rule: 'self_employed.single_year', annualAmount: 70000 })
+    expect(oneYear.warnings).toEqual(['Self-employed income is supported by one tax return; two years are normally required'])
+  })
+
+  it('should add rental income back or offset it against the property', () => {
+    const rental = taxReturn(2023, { rental_gross_income: 24000, rental_net_income: 3000, rental_depreciation: 7000 })
+
+    expect(calculateQualifyingIncome([rental], { country: 'US' }).lines).toEqual([
+      expect.objectContaining({ rule: 'rental.schedule_e_addback', annualAmount: 10000, included: true }),
+    ])
+
+    const addback = calculateQualifyingIncome([rental], { country: 'CA' })
+    expect(addback.lines[0]).toMatchObject({ rule: 'rental.gross_addback', annualAmount: 12000, included: true })
+    expect(addback.qualifyingAnnualIncome).toBe(12000)
+
+    const offset = calculateQualifyingIncome([rental], { country: 'CA', rentalMethod: 'offset' })
+    expect(offset.lines[0]).toMatchObject({ rule: 'rental.offset', annualAmount: 12000, included: false })
+    expect(offset.rentalOffsetMonthly).toBe(1000)
+    expect(offset.qualifyingAnnualIncome).toBe(0)
+  })
+
+  it('should fall back to W-2/T4 wages and then to an employment letter', () => {
+    const fromT4s = calculateQualifyingIncome([
+      { documentType: 't4', extractedFields: { tax_year: 2023, employment_income: 72000, bonus: 2000 } },
+      { documentType: 't4', extractedFields: { tax_year: 2022, employment_income: 75000 } },
+    ], { country: 'CA' })
+
+    expect(fromT4s.lines[0]).toMatchObject({
+      rule: 'base.declining',
+      documents: ['t4-1', 't4-2'],
+      inputs: { base2023: 70000, base2022: 75000 },
+      annualAmount: 70000,
+    })
+
+    const fromLetter = calculateQualifyingIncome([
+      { documentType: 'employment_letter', extractedFields: { salary: '95,000' } },
+    ], { country: 'CA' })
+    expect(fromLetter.lines).toEqual([expect.objectContaining({ rule: 'base.employment_letter', annualAmount: 95000, included: true })])
+    expect(fromLetter.warnings).toEqual(['Base pay is supported by an employment letter only; obtain a recent paystub'])
+  })
+})
@@ -0,0 +1,215 @@
+import {
+  identityKeys,
+  matchIdentity,
+  nameSimilarity,
+  normalizeAddress,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+} from '@core/lead-identity'
+import { LeadDedupeStore } from '@core/lead-dedupe-store'
+import { planRouting } from '@core/lead-routing'
+import { LeadQualificationService } from '@core/lead-qualification'
+import { broker } from '@tests/helpers/broker-fixtures'
+import { mockTables, resetMockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+jest.mock('@core/monitoring', () => ({
+  errorTracking: { captureException: jest.fn() },
+}))
+
+jest.mock('@core/broker-notifications', () => ({
+  brokerNotificationService: {},
+}))
+
+// Stored lead row with the identity columns saveLead writes
+const storedLead = (id: string, identity: { name: string; email: string; phone: string; address?: string }, overrides: any = {}) => ({
+  id,
+  organization_id: null,
+  name: identity.name,
+  email: identity.email,
+  phone: identity.phone,
+  ...new LeadDedupeStore().toIdentityColumns(identity),
+  lead_data: { address: identity.address },
+  lead_score: 70,
+  status: 'pending',
+  broker_id: null,
+  merged_into_lead_id: null,
+  created_at: '2026-10-01T12:00:00.000Z',
+  ...overrides,
+})
+
+describe('Lead deduplication', () => {
+  beforeEach(() => {
+    resetMockTables()
+  })
+
+  it('should normalize phones to E.164 and emails, names and addresses to comparable forms', () => {
+    expect(normalizePhone('(416) 555-0100 ext. 2')).toBe('+14165550100')
+    expect(normalizePhone('1-416-555-0100')).toBe('+14165550100')
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958')
+    expect(normalizePhone('0044 20 7946 0958')).toBe('+442079460958')
+    expect(normalizePhone('555-0100')).toBeUndefined()
+
+    expect(normalizeEmail(' Jo.Park+mortgage@GoogleMail.com ')).toBe('jopark@gmail.com')
+    expect(normalizeEmail('Jo.Park@Example.com')).toBe('jo.park@example.com')
+    expect(normalizeName('Dr. José  Park-Lee, Jr.')).toBe('jose parklee')
+
+    expect(normalizeAddress('12 Main Street, Apt. 4, Toronto ON M5V 2T6'))
+      .toBe('12 main st apt 4 toronto on m5v2t6')
+  })
+
+  it('should score matches across contact details and fuzzy names and addresses', () => {
+    const jo = identityKeys({ name: 'Jo Park', email: 'jo.park@gmail.com', phone: '416-555-0100', address: '12 Main Street, Toronto' })
+
+    expect(matchIdentity(jo, identityKeys({ name: 'Joanne Park', email: 'JoPark+homes@gmail.com', phone: '647-555-0199' })))
+      .toMatchObject({ confidence: 'certain', matchedOn: ['email', 'name'] })
+    expect(matchIdentity(jo, identityKeys({ name: 'J. Park', email: 'jp@work.com', phone: '+1 (416) 555-0100' })))
+      .toMatchObject({ confidence: 'certain', matchedOn: ['phone', 'name'] })
+    expect(matchIdentity(jo, identityKeys({ name: 'Park Jo', email: 'other@example.com', phone: '905-555-0111', address: '12 Main St, Apt 4, Toronto' })))
+      .toMatchObject({ confidence: 'likely', matchedOn: ['name', 'address'], reasons: ['Same name', 'Similar address (92% match)'] })
+    // A shared household phone alone is only worth a look
+    expect(matchIdentity(jo, identityKeys({ name: 'Sam Lee', email: 'sam@example.com', phone: '4165550100' })))
+      .toMatchObject({ confidence: 'possible', matchedOn: ['phone'] })
+
+    expect(matchIdentity(jo, identityKeys({ name: 'Jo Park', email: 'jo@example.com', phone: '905-555-0111', address: '14 Main Street, Toronto' })))
+      .toBeUndefined()
+    expect(nameSimilarity('jo park', 'joe parks')).toBeGreaterThan(0.88)
+    expect(nameSimilarity('jo park', 'sam lee')).toBeLessThan(0.6)
+  })
+
+  it('should keep a returning borrower with their broker and offer no alternates', () => {
+    const brokers = [
+      broker({ brokerId: 'b-best', name: 'Ana Silva', specialties: ['self_employed'] }),
+      broker({ brokerId: 'b-current', name: 'Cam Roy', openLeads: 10 }),
+    ]
+
+    const pinned = planRouting({ location: 'Toronto, ON', specialties: ['self_employed'] }, brokers, { assignedBrokerId: 'b-current' })
+    expect(pinned.selected?.broker.brokerId).toBe('b-current')
+    expect(pinned.alternates).toEqual([])
+    expect(pinned.reason).toBe('Borrower is already working with Cam Roy')
+
+    // A broker who cannot take the property routes the lead as usual
+    const unlicensed = planRouting({ location: 'Vancouver, BC', specialties: [] }, [
+      broker({ brokerId: 'b-bc', provincesStates: ['BC'] }),
+      broker({ brokerId: 'b-current' }),
+    ], { assignedBrokerId: 'b-current' })
+    expect(unlicensed.selected?.broker.brokerId).toBe('b-bc')
+  })
+
+  it('should flag duplicates on intake and route them to the broker already on the borrower', async () => {
+    mockTables.leads = [
+      storedLead('lead-1', { name: 'Jo Park', email: 'jo.park@gmail.com', phone: '416-555-0100' }, { broker_id: 'b-current', status: 'contacted' }),
+      storedLead('lead-2', { name: 'Jo Park', email: 'jopark@gmail.com', phone: '416-555-0100' }, { merged_into_lead_id: 'lead-1' }),
+      storedLead('lead-3', { name: 'Sam Lee', email: 'sam@example.com', phone: '(416) 555-0100' }),
+      storedLead('lead-4', { name: 'Jo Park', email: 'jo.park@gmail.com', phone: '416-555-0100' }, { organization_id: 'org-2' }),
+    ]
+
+    const routing = {
+      routeLead: jest.fn().mockResolvedValue({
+        strategy: 'best_match',
+        alternates: [],
+        candidates: [],
+        reason: 'Borrower is already working with Cam Roy',
+        selected: { broker: broker({ brokerId: 'b-current', name: 'Cam Roy' }), eligible: true, score: 60, reasons: [] },
+      }),
+      linkDecision: jest.fn(),
+    }
+    const sla = { startTimer: jest.fn() }
+    const service = new LeadQualificationService(routing, sla)
+    const input = {
+      name: 'Joanne Park',
+      email: 'Jo.Park+condo@gmail.com',
+      phone: '+1 416 555 0100',
+      propertyValue: 500000,
+      downPayment: 100000,
+      income: 90000,
+      employmentType: 'salaried' as const,
+      creditScore: 720,
+      propertyLocation: 'Toronto, ON',
+      consentToShare: true,
+      consentToContact: true,
+    }
+
+    const result = await service.processLeadQualification(input)
+    expect(result.duplicates.map(duplicate => [duplicate.leadId, duplicate.confidence])).toEqual([
+      ['lead-1', 'certain'],
+      ['lead-3', 'possible'],
+    ])
+    expect(routing.routeLead.mock.calls[0][2]).toEqual({ assignedBrokerId: 'b-current' })
+    expect(result.existingLeadId).toBe('lead-1')
+
+    const leadId = await service.saveLead('user-1', input, result)
+    expect(mockTables.leads.find(lead => lead.id === leadId)).toMatchObject({
+      email_normalized: 'jopark@gmail.com',
+      phone_e164: '+14165550100',
+      name_key: 'park:j',
+    })
+    expect(mockTables.lead_duplicate_flags.map(flag => [flag.lead_id, flag.duplicate_of_lead_id, flag.status])).toEqual([
+      [leadId, 'lead-1', 'open'],
+      [leadId, 'lead-3', 'open'],
+    ])
+    // The broker's clock is already running on the borrower's open lead
+    expect(sla.startTimer).not.toHaveBeenCalled()
+
+    const store = new LeadDedupeStore()
+    const [flag] = await store.getDuplicateFlags(['lead-1'])
+    expect(flag).toMatchObject({ leadId, duplicateOfLeadId: 'lead-1', confidence: 'certain', matchedOn: ['email', 'phone', 'name'] })
+    await store.dismissFlag(flag.id, 'user-broker')
+    expect((await store.getDuplicateFlags([leadId])).map(open => open.duplicateOfLeadId)).toEqual(['lead-3'])
+  })
+
+  it('should merge a duplicate into the survivor and keep the full history', async () => {
+    mockTables.leads = [
+      storedLead('lead-1', { name: 'Jo Park', email: 'jo.park@gmail.com', phone: '416-555-0100' }, {
+        broker_id: 'b-1',
+        lead_data: { income: 90000, preferredLender: '' },
+      }),
+      storedLead('lead-2', { name: 'Joanne Park', email: 'joanne@work.com', phone: '416-555-0100', address: '12 Main St' }, {
+        broker_id: 'b-2',
+        status: 'contacted',
+        lead_data: { income: 85000, preferredLender: 'RBC', address: '12 Main St' },
+      }),
+    ]
+    mockTables.conversion_events = [{ id: 'conversion-1', lead_id: 'lead-2', broker_id: 'b-2' }]
+    mockTables.lead_sla_timers = [{ id: 'timer-1', lead_id: 'lead-2', broker_id: 'b-2', status: 'running' }]
+    mockTables.lead_duplicate_flags = [{ id: 'flag-1', lead_id: 'lead-2', duplicate_of_lead_id: 'lead-1', status: 'open' }]
+
+    const store = new LeadDedupeStore()
+    const merge = await store.mergeLeads('lead-1', 'lead-2', 'user-broker')
+
+    const [survivor, merged] = mockTables.leads
+    expect(survivor).toMatchObject({
+      broker_id: 'b-1',
+      status: 'contacted',
+      email: 'jo.park@gmail.com',
+      address_normalized: '12 main st',
+      lead_data: {
+        income: 90000,
+        preferredLender: 'RBC',
+        address: '12 Main St',
+        alternateContacts: { emails: ['joanne@work.com'], phones: [] },
+      },
+    })
+    expect(merged).toMatchObject({ merged_into_lead_id: 'lead-1', lead_data: { income: 85000 } })
+    expect(mockTables.conversion_events[0].lead_id).toBe('lead-1')
+    expect(mockTables.lead_sla_timers[0].status).toBe('closed')
+    expect(mockTables.lead_duplicate_flags[0]).toMatchObject({ status: 'merged', resolved_by: 'user-broker' })
+
+    expect(merge).toMatchObject({ survivorLeadId: 'lead-1', mergedLeadId: 'lead-2', movedConversionIds: ['conversion-1'] })
+    expect(merge.survivorBefore).toMatchObject({ status: 'pending', lead_data: { income: 90000, preferredLender: '' } })
+    expect(merge.changes.map(change => change.field)).toEqual([
+      'address_normalized',
+      'lead_data.preferredLender',
+      'lead_data.address',
+      'lead_data.alternateContacts',
+      'status',
+    ])
+    expect((await store.getMergeHistory('lead-1')).map(record => record.mergedLeadId)).toEqual(['lead-2'])
+
+    // Merged leads no longer match incoming ones and cannot be merged twice
+    expect((await store.findDuplicates({ name: 'Joanne Park', email: 'joanne@work.com', phone: '905-555-0111' }))).toEqual([])
+    await expect(store.mergeLeads('lead-1', 'lead-2')).rejects.toThrow('Lead has already been merged')
+  })
+})
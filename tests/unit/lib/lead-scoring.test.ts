@@ -0,0 +1,205 @@
+import {
+  backtestModel,
+  BacktestSample,
+  DEFAULT_LEAD_SCORING_MODEL,
+  LeadScoringModel,
+  LeadScoringModelSchema,
+  LeadScoringSignals,
+  scoreLead,
+} from '@core/lead-scoring'
+import { LeadScoringModelStore } from '@core/lead-scoring-store'
+import { LeadQualificationService } from '@core/lead-qualification'
+import { mockTables, resetMockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+jest.mock('@core/monitoring', () => ({
+  errorTracking: { captureException: jest.fn() },
+}))
+
+jest.mock('@core/broker-notifications', () => ({
+  brokerNotificationService: {},
+}))
+
+const signals = (overrides: Partial<LeadScoringSignals> = {}): LeadScoringSignals => ({
+  income: 95000,
+  downPayment: 60000,
+  propertyValue: 300000,
+  creditScore: 750,
+  employmentType: 'salaried',
+  monthlyDebts: 0,
+  location: 'Toronto, ON',
+  ...overrides,
+})
+
+// Rewards affordability over income and gives partial credit on the way to each threshold
+const tenantModel: LeadScoringModel = {
+  ...DEFAULT_LEAD_SCORING_MODEL,
+  income: { points: 10, threshold: 100000, floor: 50000 },
+  creditScore: { points: 25, threshold: 720, floor: 620 },
+  debtService: { points: 15, maxRatio: 32, ceilingRatio: 44 },
+  qualification: { points: 10 },
+  employment: { points: 10, credit: { salaried: 1, 'self-employed': 0.5, contract: 0.5, unemployed: 0 } },
+  documents: { verifiedPoints: 5, flaggedPenalty: 20 },
+}
+
+describe('Lead scoring', () => {
+  beforeEach(() => {
+    resetMockTables()
+  })
+
+  it('should score with the default model and explain every feature', () => {
+    const result = scoreLead(signals({ monthlyDebts: 900 }))
+
+    expect(result.contributions.map(contribution => [contribution.feature, contribution.points])).toEqual([
+      ['income', 20],
+      ['down_payment', 25],
+      ['credit_score', 30],
+      ['debt_service', 0],
+      ['qualification', 0],
+      ['employment', 15],
+    ])
+    expect(result.score).toBe(90)
+    expect(result.tier).toBe('PREMIUM')
+    // TDS comes from the affordability engine at the 7% B-20 qualifying rate, not a rough estimate
+    expect(result.affordability).toMatchObject({ qualifyingRate: 7, qualifies: true })
+    expect(result.contributions[3].reason).toBe(`TDS of ${result.affordability.tdsRatio}% is above the 35% maximum`)
+    expect(result.contributions[0].reason).toBe('Income of $95,000 meets the $75,000 threshold')
+  })
+
+  it('should apply a tenant model with partial credit, qualification and document points', () => {
+    const result = scoreLead(signals({
+      income: 80000,
+      creditScore: 680,
+      employmentType: 'self-employed',
+      documents: { verified: 3, flagged: 0 },
+    }), tenantModel)
+
+    expect(result.contributions.map(contribution => [contribution.feature, contribution.points])).toEqual([
+      ['income', 6],
+      ['down_payment', 25],
+      ['credit_score', 15],
+      ['debt_service', 15],
+      ['qualification', 10],
+      ['employment', 5],
+      ['document_verification', 5],
+    ])
+    expect(result.score).toBe(81)
+    expect(result.contributions[2].reason).toBe('Credit score of 680 is between the 620 floor and the 720 threshold')
+
+    const flagged = scoreLead(signals({
+      documents: { verified: 2, flagged: 1 },
+      bankConduct: { accountEvents: 2, undisclosedMonthlyDebt: 250 },
+    }), tenantModel)
+    expect(flagged.contributions.slice(-3)).toEqual([
+      expect.objectContaining({ feature: 'document_verification', points: -20, reason: '1 document has critical verification flags' }),
+      expect.objectContaining({ feature: 'bank_conduct', points: -10, reason: '2 NSF or overdraft events in bank transactions' }),
+      expect.objectContaining({ feature: 'undisclosed_debt', points: -10, reason: '$250 a month in debt payments not disclosed' }),
+    ])
+  })
+
+  it('should reject models whose points do not add up to 100 or whose ranges are inverted', () => {
+    expect(LeadScoringModelSchema.safeParse(tenantModel).success).toBe(true)
+
+    const overweight = LeadScoringModelSchema.safeParse({ ...tenantModel, qualification: { points: 20 } })
+    expect(overweight.success).toBe(false)
+    expect(!overweight.success && overweight.error.issues[0].message).toBe('Feature points must add up to 100')
+
+    const inverted = LeadScoringModelSchema.safeParse({ ...tenantModel, income: { points: 10, threshold: 50000, floor: 60000 } })
+    expect(!inverted.success && inverted.error.issues[0].message).toBe('Floor must be below the threshold')
+  })
+
+  it('should backtest tier conversion rates and how well scores separate conversions', () => {
+    const samples: BacktestSample[] = [
+      { leadId: 'a', signals: signals(), converted: true },
+      { leadId: 'b', signals: signals({ creditScore: 650 }), converted: true },
+      { leadId: 'c', signals: signals({ creditScore: 650, employmentType: 'contract' }), converted: false },
+      { leadId: 'd', signals: signals({ creditScore: 600, income: 50000, downPayment: 15000 }), converted: false },
+    ]
+
+    const result = backtestModel(DEFAULT_LEAD_SCORING_MODEL, samples)
+    expect(result).toMatchObject({
+      sampleSize: 4,
+      conversions: 2,
+      conversionRate: 50,
+      auc: 1,
+      premiumLift: 2,
+    })
+    expect(result.tiers).toEqual({
+      PREMIUM: { leads: 2, conversions: 2, conversionRate: 100 },
+      STANDARD: { leads: 1, conversions: 0, conversionRate: 0 },
+      COACHING: { leads: 1, conversions: 0, conversionRate: 0 },
+    })
+    expect(backtestModel(DEFAULT_LEAD_SCORING_MODEL, samples.map(sample => ({ ...sample, converted: !sample.converted }))).auc).toBe(0)
+  })
+
+  it('should version models per organization and backtest a draft against tracked conversions', async () => {
+    const store = new LeadScoringModelStore()
+    expect(await store.getActiveModel('org-1')).toMatchObject({ version: 0, model: DEFAULT_LEAD_SCORING_MODEL })
+
+    await store.saveModelVersion('org-1', DEFAULT_LEAD_SCORING_MODEL, { createdBy: 'admin-1' })
+    const second = await store.saveModelVersion('org-1', tenantModel, { notes: 'Weight affordability' })
+    expect(second).toMatchObject({ version: 2, active: true, notes: 'Weight affordability' })
+    expect(mockTables.lead_scoring_models.map(row => [row.version, row.is_active])).toEqual([[1, false], [2, true]])
+
+    await store.activateVersion('org-1', 1)
+    expect((await store.getActiveModel('org-1')).version).toBe(1)
+    expect((await store.getModelVersions('org-1')).map(version => version.version)).toEqual([2, 1])
+
+    const asOf = new Date()
+    const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+    mockTables.leads = [
+      { id: 'won', organization_id: 'org-1', status: 'converted', created_at: daysAgo(5), lead_data: { scoring: { signals: signals() } } },
+      { id: 'lost', organization_id: 'org-1', status: 'contacted', created_at: daysAgo(60), lead_data: { propertyValue: 400000, downPayment: 20000, income: 55000, employmentType: 'contract', creditScore: 640 } },
+      { id: 'open', organization_id: 'org-1', status: 'pending', created_at: daysAgo(2), lead_data: { scoring: { signals: signals() } } },
+      { id: 'other-org', organization_id: 'org-2', status: 'converted', created_at: daysAgo(90), lead_data: { scoring: { signals: signals() } } },
+    ]
+    mockTables.conversion_events = [{ lead_id: 'won', broker_id: 'b-1', conversion_value: 4000 }]
+
+    const backtest = await store.backtest('org-1', tenantModel)
+    expect(backtest.skipped).toBe(1)
+    expect(backtest.candidate).toMatchObject({ sampleSize: 2, conversions: 1, auc: 1 })
+    expect(backtest.active).toMatchObject({ version: 1, sampleSize: 2 })
+  })
+
+  it('should score a lead with its organization model and documents and keep the breakdown on the saved lead', async () => {
+    mockTables.documents = [
+      { id: 'doc-1', user_id: 'user-1', status: 'verified' },
+      { id: 'doc-2', user_id: 'user-1', status: 'verified' },
+    ]
+    const store = new LeadScoringModelStore()
+    await store.saveModelVersion('org-1', tenantModel)
+
+    const routing = {
+      routeLead: jest.fn().mockResolvedValue({ alternates: [], candidates: [], strategy: 'best_match', reason: 'No broker' }),
+      linkDecision: jest.fn(),
+    }
+    const service = new LeadQualificationService(routing, { startTimer: jest.fn() }, store)
+    const input = {
+      name: 'Jo Park',
+      email: 'jo@example.com',
+      phone: '555-123-4567',
+      propertyValue: 300000,
+      downPayment: 60000,
+      income: 95000,
+      employmentType: 'salaried' as const,
+      creditScore: 750,
+      propertyLocation: 'Toronto, ON',
+      consentToShare: true,
+      consentToContact: true,
+    }
+
+    const result = await service.processLeadQualification(input, { organizationId: 'org-1', userId: 'user-1' })
+    expect(result.scoringModelVersion).toBe(1)
+    expect(result.scoreBreakdown.find(contribution => contribution.feature === 'document_verification'))
+      .toMatchObject({ points: 5, reason: '2 documents verified' })
+    expect(result.leadScore).toBe(result.scoreBreakdown.reduce((sum, contribution) => sum + contribution.points, 0))
+
+    await service.saveLead('user-1', input, result, 'org-1')
+    expect(mockTables.leads[0]).toMatchObject({
+      organization_id: 'org-1',
+      lead_score: result.leadScore,
+      lead_data: { scoring: { modelVersion: 1, signals: expect.objectContaining({ income: 95000, documents: { verified: 2, flagged: 0 } }) } },
+    })
+  })
+})
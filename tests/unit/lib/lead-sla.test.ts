@@ -0,0 +1,164 @@
+import { dueEscalation, LeadSlaTimer, slaDueAt, summarizeSlaTimers } from '@core/lead-sla'
+import { LeadSlaStore } from '@core/lead-sla-store'
+import { LeadRoutingEngine } from '@core/lead-routing'
+import { leadQualificationService } from '@core/lead-qualification'
+import { brokerNotificationService } from '@core/broker-notifications'
+import { mockTables, resetMockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+jest.mock('@core/monitoring', () => ({
+  errorTracking: { captureException: jest.fn() },
+}))
+
+jest.mock('@core/broker-notifications', () => ({
+  brokerNotificationService: {
+    sendLeadSlaNotification: jest.fn().mockResolvedValue({ smsSuccess: true, emailSuccess: true }),
+    sendNotifications: jest.fn().mockResolvedValue({ smsSuccess: true, emailSuccess: true }),
+  },
+}))
+
+const HOUR_MS = 60 * 60 * 1000
+const assignedAt = new Date('2024-03-01T12:00:00.000Z')
+const hoursLater = (hours: number) => new Date(assignedAt.getTime() + hours * HOUR_MS)
+
+const timer = (overrides: Partial<LeadSlaTimer> = {}): LeadSlaTimer => ({
+  id: 'timer-1',
+  leadId: 'lead-1',
+  brokerId: 'broker-1',
+  tier: 'PREMIUM',
+  startedAt: assignedAt.toISOString(),
+  dueAt: hoursLater(2).toISOString(),
+  escalationLevel: 0,
+  status: 'running',
+  ...overrides,
+})
+
+describe('Lead SLA', () => {
+  beforeEach(() => {
+    resetMockTables()
+    jest.clearAllMocks()
+  })
+
+  it('should hold next steps to the SLA each tier promises', () => {
+    expect(slaDueAt('PREMIUM', assignedAt)).toEqual(hoursLater(2))
+    expect(slaDueAt('COACHING', assignedAt)).toEqual(hoursLater(24))
+    expect(leadQualificationService.generateRoutingDecision('PREMIUM', 85).nextSteps)
+      .toContain('Premium broker will contact you within 2 hours')
+    expect(leadQualificationService.generateRoutingDecision('STANDARD', 60).nextSteps)
+      .toContain('Broker will contact you within 4 hours')
+  })
+
+  it('should climb the escalation ladder one step at a time after the deadline', () => {
+    expect(dueEscalation(timer(), hoursLater(1.9))).toBeUndefined()
+    expect(dueEscalation(timer(), hoursLater(2))).toBe('reminder')
+    // Even long overdue, the reminder comes first
+    expect(dueEscalation(timer(), hoursLater(10))).toBe('reminder')
+    expect(dueEscalation(timer({ escalationLevel: 1 }), hoursLater(2.5))).toBeUndefined()
+    expect(dueEscalation(timer({ escalationLevel: 1 }), hoursLater(3))).toBe('team_lead_alert')
+    expect(dueEscalation(timer({ escalationLevel: 2 }), hoursLater(4))).toBe('reassignment')
+    expect(dueEscalation(timer({ escalationLevel: 3 }), hoursLater(10))).toBeUndefined()
+    expect(dueEscalation(timer({ firstContactAt: hoursLater(3).toISOString() }), hoursLater(10))).toBeUndefined()
+  })
+
+  it('should summarize breaches, first-contact times and escalations', () => {
+    const metrics = summarizeSlaTimers([
+      timer({ id: 'fast', status: 'met', firstContactAt: hoursLater(1).toISOString() }),
+      timer({ id: 'late', status: 'met', firstContactAt: hoursLater(3).toISOString(), breachedAt: hoursLater(2).toISOString(), escalationLevel: 1 }),
+      timer({ id: 'moved', status: 'reassigned', breachedAt: hoursLater(2).toISOString(), escalationLevel: 3 }),
+      timer({ id: 'overdue' }),
+      timer({ id: 'waiting', dueAt: hoursLater(6).toISOString() }),
+    ], hoursLater(5))
+
+    expect(metrics).toEqual({
+      activeTimers: 2,
+      overdue: 1,
+      metWithinSla: 1,
+      breached: 3,
+      breachRate: 75,
+      averageFirstContactHours: 2,
+      escalations: { reminder: 2, team_lead_alert: 1, reassignment: 1 },
+    })
+  })
+
+  it('should stop the timer on first contact and move the lead to contacted', async () => {
+    mockTables.leads = [{ id: 'lead-1', status: 'pending' }]
+    const store = new LeadSlaStore({ routeLead: jest.fn(), linkDecision: jest.fn() })
+
+    await store.startTimer('lead-1', 'broker-1', 'STANDARD', assignedAt)
+    const met = await store.recordFirstContact('lead-1', 'crm', hoursLater(5))
+
+    expect(met).toMatchObject({ status: 'met', firstContactSource: 'crm', breachedAt: hoursLater(4).toISOString() })
+    expect(mockTables.leads[0].status).toBe('contacted')
+    expect(mockTables.lead_sla_events.map(event => [event.event_type, event.details.withinSla])).toEqual([
+      ['started', undefined],
+      ['first_contact', false],
+    ])
+    expect(await store.recordFirstContact('lead-1', 'dashboard')).toBeNull()
+  })
+
+  it('should hand the running timer to a broker the lead moved to in a CRM', async () => {
+    const store = new LeadSlaStore({ routeLead: jest.fn(), linkDecision: jest.fn() })
+
+    await store.startTimer('lead-1', 'broker-1', 'PREMIUM', assignedAt)
+    expect(await store.transferTimer('lead-1', 'broker-1', 'crm', hoursLater(1))).toBeNull()
+
+    const transferred = await store.transferTimer('lead-1', 'broker-2', 'crm', hoursLater(1))
+
+    expect(transferred).toMatchObject({ brokerId: 'broker-2', status: 'running', dueAt: hoursLater(3).toISOString() })
+    expect(mockTables.lead_sla_timers.map(row => [row.broker_id, row.status])).toEqual([
+      ['broker-1', 'reassigned'],
+      ['broker-2', 'running'],
+    ])
+    expect(mockTables.lead_sla_events.map(event => event.event_type)).toEqual(['started', 'transferred', 'started'])
+  })
+
+  it('should remind, alert the team lead, then reassign to the next broker from the routing engine', async () => {
+    const brokerRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id, name: `Broker ${id}`, company: `Company ${id}`, email: `${id}@example.com`, phone: `555-${id}`,
+      commission_rate: 1, provinces_states: ['ON'], is_active: true, ...overrides,
+    })
+    mockTables.brokers = [
+      brokerRow('lead', { is_active: false }),
+      brokerRow('slow', { team_lead_id: 'lead' }),
+      brokerRow('next'),
+    ]
+    mockTables.leads = [{ id: 'lead-1', name: 'Jo Park', email: 'jo@example.com', phone: '555-1', status: 'pending', broker_id: 'slow', lead_score: 82, lead_data: { propertyValue: 500000 } }]
+    mockTables.lead_routing_decisions = [{ id: 'decision-1', lead_id: 'lead-1', lead: { location: 'Toronto, ON', specialties: [] } }]
+
+    const monitoring = {
+      getBrokerPerformance: jest.fn().mockResolvedValue({
+        totalLeads: 0, convertedLeads: 0, conversionRate: 0, averageLeadScore: 0, totalCommission: 0, responseTime: 0,
+      }),
+    }
+    const store = new LeadSlaStore(new LeadRoutingEngine(monitoring))
+    await store.startTimer('lead-1', 'slow', 'PREMIUM', assignedAt)
+
+    expect(await store.runSlaCheck(hoursLater(1))).toEqual({ breached: [], reminded: [], alerted: [], reassigned: [], unassigned: [] })
+
+    expect(await store.runSlaCheck(hoursLater(2.5))).toMatchObject({ breached: ['lead-1'], reminded: ['lead-1'] })
+    expect(brokerNotificationService.sendLeadSlaNotification).toHaveBeenLastCalledWith(expect.objectContaining({
+      step: 'reminder', recipientEmail: 'slow@example.com', hoursOverdue: 0.5,
+    }))
+
+    expect(await store.runSlaCheck(hoursLater(3))).toMatchObject({ breached: [], alerted: ['lead-1'] })
+    expect(brokerNotificationService.sendLeadSlaNotification).toHaveBeenLastCalledWith(expect.objectContaining({
+      step: 'team_lead_alert', recipientEmail: 'lead@example.com', brokerName: 'Broker slow',
+    }))
+
+    expect(await store.runSlaCheck(hoursLater(4))).toMatchObject({
+      reassigned: [{ leadId: 'lead-1', fromBrokerId: 'slow', toBrokerId: 'next' }],
+    })
+    expect(mockTables.leads[0].broker_id).toBe('next')
+    expect(brokerNotificationService.sendNotifications).toHaveBeenCalledWith(expect.objectContaining({
+      brokerId: 'next', leadId: 'lead-1', leadScore: 82, qualificationTier: 'PREMIUM',
+    }))
+
+    const [original, reassigned] = mockTables.lead_sla_timers
+    expect(original).toMatchObject({ broker_id: 'slow', status: 'reassigned', escalation_level: 3 })
+    expect(reassigned).toMatchObject({ broker_id: 'next', status: 'running', escalation_level: 0 })
+    expect(mockTables.lead_routing_decisions[1]).toMatchObject({ lead_id: 'lead-1', selected_broker_id: 'next' })
+    expect(mockTables.lead_routing_decisions[1].candidates.find((candidate: any) => candidate.brokerId === 'slow').reasons)
+      .toContain('Already had this lead')
+  })
+})
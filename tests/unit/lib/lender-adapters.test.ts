@@ -0,0 +1,111 @@
+import { createDummyBankAdapter, DummyBankAdapter } from '@core/integrations/lenders/DummyBankAdapter'
+import { LenderAdapter, LenderHealth, negotiateCapabilities } from '@core/integrations/lenders/LenderAdapter'
+import { lenderIntegrationRegistry } from '@core/integrations/lenders/LenderIntegrationRegistry'
+import { runLenderConformance } from '@core/integrations/lenders/conformance/LenderConformanceKit'
+
+const fakeAdapter = (id: string, overrides: Partial<LenderAdapter> = {}): LenderAdapter => ({
+  id,
+  name: id,
+  version: '1.0.0',
+  capabilities: ['application_submission'],
+  checkHealth: async (): Promise<LenderHealth> => ({ status: 'healthy', responseTime: 100, version: '1.0.0', uptime: 1 }),
+  submitApplication: async () => {
+    throw new Error(`${id} is unavailable`)
+  },
+  ...overrides,
+})
+
+describe('lender adapters', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should pass the conformance kit for every DummyBank capability', async () => {
+    const report = await runLenderConformance({
+      createAdapter: baseUrl => createDummyBankAdapter({ baseUrl, apiKey: 'test-key', timeout: 5000 }),
+    })
+
+    expect(report.results.filter(result => !result.passed)).toEqual([])
+    expect(report.passed).toBe(true)
+    expect(new Set(report.results.map(result => result.capability).filter(Boolean))).toEqual(new Set(report.capabilities))
+  })
+
+  it('should report declared capabilities that are missing or return invalid data', async () => {
+    const report = await runLenderConformance({
+      createAdapter: () => fakeAdapter('broken-lender', {
+        capabilities: ['rate_fetching', 'rate_history'],
+        getRates: async () => [{ id: 'r1', lender: 'Broken', rate: -1 } as any],
+      }),
+    })
+
+    const failed = report.results.filter(result => !result.passed).map(result => result.name)
+    expect(report.passed).toBe(false)
+    expect(failed).toEqual([
+      'declares a valid contract',
+      'returns valid rates for the requested term',
+      'rejects when the lender API fails',
+    ])
+  })
+
+  it('should negotiate only the capabilities an adapter implements', () => {
+    const adapter = fakeAdapter('partial-lender', { capabilities: ['application_submission', 'pre_approval'] })
+
+    expect(negotiateCapabilities(adapter, ['application_submission', 'pre_approval', 'rate_fetching'])).toEqual({
+      supported: ['application_submission'],
+      missing: ['pre_approval', 'rate_fetching'],
+    })
+    expect(() => lenderIntegrationRegistry.registerAdapter(adapter)).toThrow('pre_approval is declared but getPreApproval is not implemented')
+  })
+
+  it('should build configured adapters from the registry', () => {
+    const adapter = lenderIntegrationRegistry.getAdapter('dummybank-api')
+
+    expect(adapter).toBeInstanceOf(DummyBankAdapter)
+    expect(adapter!.id).toBe('dummybank-api')
+    expect(lenderIntegrationRegistry.getAdapter('market-data-feed')).toBeUndefined()
+  })
+
+  it('should route by capability around unhealthy and failing adapters', async () => {
+    const submit = async () => ({
+      applicationId: 'app-1',
+      status: 'pending' as const,
+      rate: 6,
+      amount: 400000,
+      term: 30,
+      monthlyPayment: 2398.2,
+      nextSteps: [],
+      documents: [],
+      estimatedClosing: '2024-03-01',
+    })
+    lenderIntegrationRegistry.registerAdapter(fakeAdapter('route-failing', {
+      checkHealth: async () => ({ status: 'healthy', responseTime: 50, version: '1.0.0', uptime: 1 }),
+    }))
+    lenderIntegrationRegistry.registerAdapter(fakeAdapter('route-working', { submitApplication: submit }))
+    lenderIntegrationRegistry.registerAdapter(fakeAdapter('route-down', {
+      submitApplication: submit,
+      checkHealth: async () => {
+        throw new Error('connect ECONNREFUSED')
+      },
+    }))
+
+    await lenderIntegrationRegistry.checkAdapterHealth('route-failing')
+    await lenderIntegrationRegistry.checkAdapterHealth('route-working')
+    const down = await lenderIntegrationRegistry.checkAdapterHealth('route-down')
+
+    expect(down).toMatchObject({ status: 'unhealthy', lastError: 'connect ECONNREFUSED' })
+    const routed = lenderIntegrationRegistry.getAdaptersByCapability('application_submission').map(adapter => adapter.id)
+    expect(routed.slice(0, 2)).toEqual(['route-failing', 'route-working'])
+    expect(routed).not.toContain('route-down')
+
+    const { adapterId, result } = await lenderIntegrationRegistry.routeRequest('application_submission', adapter =>
+      adapter.submitApplication!({} as any)
+    )
+    expect(adapterId).toBe('route-working')
+    expect(result.applicationId).toBe('app-1')
+  })
+})
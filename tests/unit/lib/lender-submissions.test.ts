@@ -0,0 +1,197 @@
+import { createDummyBankAdapter } from '@core/integrations/lenders/DummyBankAdapter'
+import { LenderAdapter, LenderApplication, LenderHealth } from '@core/integrations/lenders/LenderAdapter'
+import { lenderIntegrationRegistry } from '@core/integrations/lenders/LenderIntegrationRegistry'
+import { MockLenderServer } from '@core/integrations/lenders/conformance/MockLenderServer'
+import { SAMPLE_APPLICATION } from '@core/integrations/lenders/conformance/LenderConformanceKit'
+import {
+  mapLenderStatus,
+  nextSubmissionStatus,
+  SubmissionOrchestrator,
+} from '@core/integrations/lenders/SubmissionOrchestrator'
+import { mockTables, resetMockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+const application = (applicationId: string, status: LenderApplication['status'], conditions?: string[]): LenderApplication => ({
+  applicationId,
+  status,
+  rate: 6.125,
+  amount: 400000,
+  term: 30,
+  monthlyPayment: 2430.44,
+  nextSteps: [],
+  documents: [],
+  estimatedClosing: '2024-03-01',
+  conditions,
+})
+
+const fakeLender = (id: string, overrides: Partial<LenderAdapter> = {}): LenderAdapter => ({
+  id,
+  name: `${id} Bank`,
+  version: '1.0.0',
+  capabilities: ['application_submission', 'application_status', 'application_cancellation'],
+  checkHealth: async (): Promise<LenderHealth> => ({ status: 'healthy', responseTime: 100, version: '1.0.0', uptime: 1 }),
+  submitApplication: async () => application(`${id}-app`, 'pending'),
+  getApplicationStatus: async applicationId => application(applicationId, 'pending'),
+  cancelApplication: async () => undefined,
+  ...overrides,
+})
+
+const { borrower, property, loan, financial } = SAMPLE_APPLICATION
+const borrowerFile = { borrower, property, loan, financial }
+
+describe('lender submissions', () => {
+  const orchestrator = new SubmissionOrchestrator(lenderIntegrationRegistry)
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    resetMockTables()
+  })
+
+  it('should only move a submission forward through the lender lifecycle', () => {
+    expect(mapLenderStatus('under_review')).toBe('submitted')
+    expect(mapLenderStatus('approved')).toBe('conditionally_approved')
+    expect(mapLenderStatus('rejected')).toBe('declined')
+    expect(mapLenderStatus('cancelled')).toBe('withdrawn')
+
+    expect(nextSubmissionStatus('submitted', 'commitment')).toBe('commitment')
+    expect(nextSubmissionStatus('commitment', 'conditionally_approved')).toBe('commitment')
+    expect(nextSubmissionStatus('conditionally_approved', 'declined')).toBe('declined')
+    expect(nextSubmissionStatus('funded', 'declined')).toBe('funded')
+    expect(nextSubmissionStatus('failed', 'submitted')).toBe('failed')
+  })
+
+  it('should submit one borrower file to every selected lender in parallel', async () => {
+    const server = new MockLenderServer()
+    const baseUrl = await server.start()
+
+    try {
+      let started = 0
+      let release: () => void = () => undefined
+      const released = new Promise<void>(resolve => { release = resolve })
+
+      lenderIntegrationRegistry.registerAdapter(createDummyBankAdapter({ baseUrl, apiKey: 'test-key', timeout: 5000, integrationId: 'fanout-dummybank' }))
+      lenderIntegrationRegistry.registerAdapter(fakeLender('fanout-slow', {
+        submitApplication: async () => {
+          started++
+          await released
+          return application('slow-1', 'approved', ['Appraisal'])
+        },
+      }))
+      lenderIntegrationRegistry.registerAdapter(fakeLender('fanout-down', {
+        submitApplication: async () => {
+          started++
+          if (started === 2) release()
+          throw new Error('Lender API unavailable')
+        },
+      }))
+
+      const submission = await orchestrator.submit({
+        brokerId: 'broker-1',
+        leadId: 'lead-1',
+        file: borrowerFile,
+        lenders: [
+          { lenderId: 'fanout-slow', rateId: 'slow-30' },
+          { lenderId: 'fanout-down', rateId: 'down-30' },
+          { lenderId: 'fanout-dummybank', rateId: 'ref-30-fixed' },
+          { lenderId: 'fanout-slow', rateId: 'slow-30' },
+        ],
+      })
+
+      expect(submission.lenders.map(lender => [lender.lenderId, lender.status])).toEqual([
+        ['fanout-slow', 'conditionally_approved'],
+        ['fanout-down', 'failed'],
+        ['fanout-dummybank', 'submitted'],
+      ])
+      expect(submission.lenders[0].conditions).toEqual(['Appraisal'])
+      expect(submission.lenders[1].error).toBe('Lender API unavailable')
+      expect(submission.lenders[2].externalApplicationId).toBe('app-1')
+      expect(server.requests.find(request => request.method === 'POST')!.body.rate_id).toBe('ref-30-fixed')
+      expect(server.requests.find(request => request.method === 'POST')!.body.borrower.ssn).toBe(borrower.ssn)
+      expect(mockTables.application_submissions[0]).toMatchObject({ broker_id: 'broker-1', lead_id: 'lead-1' })
+      expect(mockTables.application_submissions[0].borrower_file.borrower).not.toHaveProperty('ssn')
+      expect(mockTables.lender_submission_events.map(event => event.source)).toEqual(['submission', 'submission', 'submission'])
+    } finally {
+      await server.stop()
+    }
+  })
+
+  it('should refuse lenders that cannot take applications before submitting anywhere', async () => {
+    const submit = jest.fn(async () => application('app-1', 'pending'))
+    lenderIntegrationRegistry.registerAdapter(fakeLender('refuse-ok', { submitApplication: submit }))
+
+    await expect(orchestrator.submit({
+      brokerId: 'broker-1',
+      file: borrowerFile,
+      lenders: [{ lenderId: 'refuse-ok', rateId: 'r1' }, { lenderId: 'refuse-unknown', rateId: 'r1' }],
+    })).rejects.toThrow('Lender refuse-unknown does not accept application submissions')
+
+    expect(submit).not.toHaveBeenCalled()
+    expect(mockTables.application_submissions).toBeUndefined()
+  })
+
+  it('should track polled and pushed statuses without letting a stale report move them back', async () => {
+    const statuses: Record<string, LenderApplication> = {}
+    const getApplicationStatus = async (applicationId: string) => statuses[applicationId]
+    lenderIntegrationRegistry.registerAdapter(fakeLender('track-a', { getApplicationStatus }))
+    lenderIntegrationRegistry.registerAdapter(fakeLender('track-b', { getApplicationStatus }))
+    lenderIntegrationRegistry.registerAdapter(fakeLender('track-push', { capabilities: ['application_submission'] }))
+
+    const submission = await orchestrator.submit({
+      brokerId: 'broker-1',
+      file: borrowerFile,
+      lenders: ['track-a', 'track-b', 'track-push'].map(lenderId => ({ lenderId, rateId: 'r1' })),
+    })
+
+    statuses['track-a-app'] = application('track-a-app', 'conditionally_approved', ['Pay stubs', 'Appraisal'])
+    statuses['track-b-app'] = application('track-b-app', 'rejected')
+    const firstPoll = await orchestrator.pollStatuses(submission.id)
+
+    expect(firstPoll.polled).toBe(2)
+    expect(firstPoll.transitions.map(transition => [transition.lenderId, transition.from, transition.to])).toEqual([
+      ['track-a', 'submitted', 'conditionally_approved'],
+      ['track-b', 'submitted', 'declined'],
+    ])
+
+    // The lender pushes a commitment before the next poll still reports the conditional approval
+    const pushed = await orchestrator.handleCallback({ lenderId: 'track-a', applicationId: 'track-a-app', status: 'commitment', conditions: ['Appraisal'] })
+    expect(pushed).toMatchObject({ from: 'conditionally_approved', to: 'commitment', source: 'callback' })
+    const stalePoll = await orchestrator.pollStatuses(submission.id)
+    expect(stalePoll.transitions).toEqual([])
+
+    await orchestrator.handleCallback({ lenderId: 'track-push', applicationId: 'track-push-app', status: 'funded' })
+
+    expect(mockTables.lender_submissions.map(row => [row.lender_id, row.status, row.conditions])).toEqual([
+      ['track-a', 'commitment', ['Appraisal']],
+      ['track-b', 'declined', []],
+      ['track-push', 'funded', []],
+    ])
+    expect(mockTables.lender_submission_events).toHaveLength(3 + 2 + 2)
+  })
+
+  it('should withdraw an open application from the lender', async () => {
+    const cancelApplication = jest.fn(async () => undefined)
+    lenderIntegrationRegistry.registerAdapter(fakeLender('withdraw-a', { cancelApplication }))
+
+    const submission = await orchestrator.submit({
+      brokerId: 'broker-1',
+      file: borrowerFile,
+      lenders: [{ lenderId: 'withdraw-a', rateId: 'r1' }],
+    })
+    const lenderSubmissionId = submission.lenders[0].id
+
+    const transition = await orchestrator.withdraw(submission.id, lenderSubmissionId, 'Borrower chose another lender')
+
+    expect(cancelApplication).toHaveBeenCalledWith('withdraw-a-app', 'Borrower chose another lender')
+    expect(transition).toMatchObject({ from: 'submitted', to: 'withdrawn', source: 'broker' })
+    await expect(orchestrator.withdraw(submission.id, lenderSubmissionId)).rejects.toThrow('is already withdrawn')
+  })
+})
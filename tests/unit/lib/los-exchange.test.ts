@@ -0,0 +1,165 @@
+import { exportMismo, importMismo, serializeMismo } from '@core/integrations/los/MismoSerializer'
+import { exportFilogix, importFilogix } from '@core/integrations/los/FilogixSerializer'
+import { LosApplication } from '@core/integrations/los/LosApplication'
+import { findElement, parseXml, textAt } from '@core/integrations/los/XmlDocument'
+import type { CRMLead } from '@core/integrations/crm/CRMBridge'
+import type { ScenarioInput } from '@core/scenario-types'
+
+const crmLead: CRMLead = {
+  id: 'lead-42',
+  name: 'Avery Jo Tremblay',
+  email: 'avery@example.com',
+  phone: '+14165550123',
+  leadData: {
+    income: 100000,
+    debts: 650,
+    downPayment: 90000,
+    propertyPrice: 600000,
+    creditScore: 742,
+    employmentType: 'self_employed',
+    location: 'Toronto, ON',
+    loanType: 'purchase',
+    timeline: '3_months',
+    propertyType: 'condo',
+  },
+  leadScore: 81,
+  matchConfidence: 0.9,
+  source: 'calculator',
+  createdAt: '2024-01-15T10:00:00.000Z',
+}
+
+const scenario: ScenarioInput = {
+  id: 'scenario-7',
+  name: 'Five-year fixed',
+  parameters: {
+    propertyPrice: 620000,
+    downPayment: 124000,
+    interestRate: 4.79,
+    termYears: 5,
+    amortizationYears: 25,
+    rateType: 'fixed',
+    location: 'Toronto, ON',
+    country: 'CA',
+  },
+  metadata: { createdAt: '2024-01-15T10:00:00.000Z', updatedAt: '2024-01-15T10:00:00.000Z', isTemplate: false, tags: [] },
+}
+
+const usApplication: LosApplication = {
+  country: 'US',
+  borrower: {
+    firstName: 'Jordan',
+    lastName: 'Sample',
+    email: 'jordan.sample@example.com',
+    phone: '+15555550100',
+    creditScore: 740,
+    employmentType: 'contract',
+    annualIncome: 100000,
+    monthlyDebts: 500,
+  },
+  property: { value: 500000, city: 'Springfield', region: 'IL' },
+  loan: {
+    purpose: 'purchase',
+    amount: 400000,
+    downPayment: 100000,
+    interestRate: 6.125,
+    termYears: 30,
+    amortizationYears: 30,
+    rateType: 'fixed',
+    program: 'conventional',
+  },
+  source: { leadId: 'lead-7' },
+}
+
+describe('LOS exchange', () => {
+  it('should round-trip an application through MISMO 3.4', () => {
+    const exported = serializeMismo(usApplication)
+    const imported = importMismo(exported.content)
+
+    expect(exported.errors).toEqual([])
+    expect(imported.errors).toEqual([])
+    expect(imported.application).toEqual(usApplication)
+
+    const root = parseXml(exported.content)
+    expect(root.attributes).toMatchObject({ xmlns: 'http://www.mismo.org/residential/2009/schemas', MISMOReferenceModelIdentifier: '3.4.0' })
+    expect(textAt(root, 'DEAL_SETS/DEAL_SET/DEALS/DEAL/LOANS/LOAN/TERMS_OF_LOAN/BaseLoanAmount')).toBe('400000')
+    expect(textAt(root, 'DEAL_SETS/DEAL_SET/DEALS/DEAL/LOANS/LOAN/MATURITY/MATURITY_RULE/LoanMaturityPeriodCount')).toBe('360')
+    expect(findElement(root, 'DEAL_SETS/DEAL_SET/DEALS/DEAL/PARTIES/PARTY/INDIVIDUAL/CONTACT_POINTS')!.children).toHaveLength(2)
+  })
+
+  it('should round-trip a Canadian deal built from a CRM lead and scenario through the Filogix format', () => {
+    const exported = exportFilogix({ crmLead, scenario })
+    const imported = importFilogix(exported.content)
+
+    expect(exported.errors).toEqual([])
+    expect(imported.errors).toEqual([])
+    expect(imported.application).toEqual({
+      country: 'CA',
+      borrower: {
+        firstName: 'Avery Jo',
+        lastName: 'Tremblay',
+        email: 'avery@example.com',
+        phone: '+14165550123',
+        creditScore: 742,
+        employmentType: 'self-employed',
+        annualIncome: 100000,
+        monthlyDebts: 650,
+      },
+      property: { value: 620000, city: 'Toronto', region: 'ON', propertyType: 'condo' },
+      loan: {
+        purpose: 'purchase',
+        amount: 496000,
+        downPayment: 124000,
+        interestRate: 4.79,
+        termYears: 5,
+        amortizationYears: 25,
+        rateType: 'fixed',
+      },
+      source: { leadId: 'lead-42' },
+    })
+  })
+
+  it('should report where each field came from and what the format could not carry', () => {
+    const { report } = exportMismo({ crmLead, scenario: { ...scenario, parameters: { ...scenario.parameters, country: 'US', location: 'Austin, TX' } } })
+    const byField = (field: string) => report.fields.find(mapping => mapping.field === field)
+
+    expect(byField('loan.interestRate')).toMatchObject({ status: 'mapped', source: 'scenario.parameters.interestRate', target: expect.stringContaining('NoteRatePercent') })
+    expect(byField('borrower.annualIncome')).toMatchObject({ status: 'converted', source: 'crmLead.leadData.income', target: expect.stringContaining('CurrentIncomeMonthlyTotalAmount') })
+    expect(byField('loan.program')).toMatchObject({ status: 'defaulted', value: 'Conventional' })
+    expect(byField('property.propertyType')).toMatchObject({ status: 'omitted', value: 'condo' })
+    expect(byField('source.leadScore')).toMatchObject({ status: 'omitted', source: 'crmLead.leadScore' })
+    expect(report.summary.missing).toBe(0)
+  })
+
+  it('should refuse to export an application missing fields the format requires', () => {
+    const exported = exportMismo({
+      lead: {
+        name: 'Cher',
+        email: 'cher@example.com',
+        phone: '5555550100',
+        propertyValue: 450000,
+        downPayment: 45000,
+        income: 120000,
+        employmentType: 'salaried',
+        creditScore: 700,
+        consentToShare: true,
+        consentToContact: true,
+      },
+    })
+
+    expect(exported.errors).toEqual([expect.stringContaining('borrower.lastName is required for mismo')])
+    expect(exported.report.fields.find(mapping => mapping.field === 'borrower.lastName')).toMatchObject({ status: 'missing' })
+  })
+
+  it('should validate imported documents', () => {
+    const valid = serializeMismo(usApplication).content
+
+    expect(importMismo('<MESSAGE><DEAL_SETS>').errors[0]).toMatch(/^Malformed XML/)
+    expect(importMismo(valid.replace('MISMOReferenceModelIdentifier="3.4.0"', 'MISMOReferenceModelIdentifier="2.6"').replace('<DataVersionIdentifier>3.4.0', '<DataVersionIdentifier>2.6')).errors)
+      .toEqual(['Unsupported MISMO version 2.6; expected 3.4'])
+    expect(importMismo(valid.replace(/<BaseLoanAmount>400000<\/BaseLoanAmount>/, '')).errors)
+      .toEqual(['DEAL_SETS/DEAL_SET/DEALS/DEAL/LOANS/LOAN/TERMS_OF_LOAN/BaseLoanAmount is required'])
+    expect(importMismo(valid.replace('<LoanPurposeType>Purchase', '<LoanPurposeType>Construction')).errors)
+      .toEqual(['DEAL_SETS/DEAL_SET/DEALS/DEAL/LOANS/LOAN/TERMS_OF_LOAN/LoanPurposeType has an invalid value: Construction'])
+    expect(importFilogix(valid).errors).toEqual(expect.arrayContaining(['Expected a Filogix Deal document, found <MESSAGE>']))
+  })
+})
@@ -0,0 +1,117 @@
+import {
+  calculateMortgageInsurance,
+  getCanadianMinimumDownPayment,
+  getFhaAnnualMipRate,
+} from '@core/mortgage/mortgage-insurance'
+
+describe('mortgage insurance', () => {
+  describe('Canadian default insurance', () => {
+    const base = { country: 'CA' as const, propertyPrice: 600000, amortizationYears: 25 }
+
+    it('should compute the minimum down payment tiers', () => {
+      expect(getCanadianMinimumDownPayment(400000)).toBe(20000)
+      expect(getCanadianMinimumDownPayment(800000)).toBe(55000)
+      expect(getCanadianMinimumDownPayment(1500000)).toBe(300000)
+    })
+
+    it('should price the premium from the LTV tier and add it to the loan', () => {
+      const quote = calculateMortgageInsurance({ ...base, downPayment: 60000 })
+
+      expect(quote.required).toBe(true)
+      expect(quote.upfrontPremiumRate).toBe(3.1)
+      expect(quote.upfrontPremium).toBe(16740)
+      expect(quote.totalLoanAmount).toBe(556740)
+      expect(quote.capitalized).toBe(true)
+    })
+
+    it('should not require insurance with 20% down', () => {
+      const quote = calculateMortgageInsurance({ ...base, downPayment: 120000 })
+
+      expect(quote.required).toBe(false)
+      expect(quote.totalLoanAmount).toBe(480000)
+    })
+
+    it('should add the 30-year surcharge for first-time buyers', () => {
+      const quote = calculateMortgageInsurance({ ...base, downPayment: 36000, amortizationYears: 30, firstTimeBuyer: true })
+
+      expect(quote.upfrontPremiumRate).toBeCloseTo(4.2, 10)
+      expect(quote.eligible).toBe(true)
+    })
+
+    it('should reject 30-year insured amortizations for repeat buyers', () => {
+      const quote = calculateMortgageInsurance({ ...base, downPayment: 36000, amortizationYears: 30 })
+
+      expect(quote.eligible).toBe(false)
+    })
+
+    it('should refuse insurance at or above the $1.5M price cap', () => {
+      const quote = calculateMortgageInsurance({ ...base, propertyPrice: 1500000, downPayment: 200000 })
+
+      expect(quote.required).toBe(true)
+      expect(quote.eligible).toBe(false)
+      expect(quote.upfrontPremium).toBe(0)
+    })
+  })
+
+  describe('US conventional PMI', () => {
+    const base = { country: 'US' as const, propertyPrice: 400000, amortizationYears: 30, interestRate: 6.5 }
+
+    it('should price PMI by credit score and LTV band', () => {
+      const strong = calculateMortgageInsurance({ ...base, downPayment: 20000, creditScore: 780 })
+      const weak = calculateMortgageInsurance({ ...base, downPayment: 20000, creditScore: 630 })
+
+      expect(strong.annualPremiumRate).toBe(0.38)
+      expect(strong.monthlyPremium).toBeCloseTo(380000 * 0.0038 / 12, 2)
+      expect(weak.annualPremiumRate).toBe(1.5)
+      expect(strong.capitalized).toBe(false)
+    })
+
+    it('should estimate when PMI cancels at 78% LTV', () => {
+      const quote = calculateMortgageInsurance({ ...base, downPayment: 40000, creditScore: 740 })
+
+      expect(quote.premiumDurationMonths).toBeGreaterThan(60)
+      expect(quote.premiumDurationMonths).toBeLessThan(200)
+    })
+
+    it('should not charge PMI at 80% LTV', () => {
+      expect(calculateMortgageInsurance({ ...base, downPayment: 80000 }).required).toBe(false)
+    })
+  })
+
+  describe('FHA MIP', () => {
+    it('should finance the upfront premium and charge annual MIP', () => {
+      const quote = calculateMortgageInsurance({
+        country: 'US',
+        loanProgram: 'fha',
+        propertyPrice: 300000,
+        downPayment: 10500,
+        amortizationYears: 30,
+        creditScore: 640,
+      })
+
+      expect(quote.upfrontPremium).toBe(5066.25)
+      expect(quote.totalLoanAmount).toBe(294566.25)
+      expect(quote.annualPremiumRate).toBe(0.55)
+      expect(quote.premiumDurationMonths).toBe(360)
+    })
+
+    it('should use the reduced rates for 15-year and high-balance loans', () => {
+      expect(getFhaAnnualMipRate(300000, 90, 15)).toBe(0.15)
+      expect(getFhaAnnualMipRate(800000, 96.5, 30)).toBe(0.75)
+    })
+
+    it('should require 10% down below a 580 score', () => {
+      const quote = calculateMortgageInsurance({
+        country: 'US',
+        loanProgram: 'fha',
+        propertyPrice: 300000,
+        downPayment: 10500,
+        amortizationYears: 30,
+        creditScore: 560,
+      })
+
+      expect(quote.eligible).toBe(false)
+      expect(quote.minimumDownPayment).toBe(30000)
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { applyPrepaymentPlan } from '@core/mortgage/prepayment'
+import { buildAmortizationSchedule } from '@core/mortgage/amortization'
+
+describe('applyPrepaymentPlan', () => {
+  const principal = 400000
+  const rate = 5
+  const years = 25
+  const options = { country: 'CA' as const }
+
+  it('should match the regular schedule when the plan is empty', () => {
+    const analysis = applyPrepaymentPlan(principal, rate, years, { paymentIncreases: [] }, options)
+    const baseline = buildAmortizationSchedule(principal, rate, years, options)
+
+    expect(analysis.summary.totalPrepaid).toBe(0)
+    expect(analysis.summary.interestSaved).toBeCloseTo(0, 6)
+    expect(analysis.summary.monthsSaved).toBe(0)
+    expect(analysis.schedule.periods).toHaveLength(baseline.periods.length)
+  })
+
+  it('should apply a lump sum on every anniversary', () => {
+    const analysis = applyPrepaymentPlan(principal, rate, years, {
+      annualLumpSum: { amount: 10000, startYear: 1 },
+      paymentIncreases: [],
+    }, options)
+
+    expect(analysis.schedule.periods[11].prepayment).toBe(10000)
+    expect(analysis.schedule.periods[10].prepayment).toBe(0)
+    expect(analysis.summary.interestSaved).toBeGreaterThan(0)
+    expect(analysis.summary.monthsSaved).toBeGreaterThan(0)
+    expect(analysis.schedule.periods[analysis.schedule.periods.length - 1].balance).toBe(0)
+    expect(analysis.summary.violations).toEqual([])
+  })
+
+  it('should cap lump sums at the prepayment privilege and report the violation', () => {
+    const analysis = applyPrepaymentPlan(principal, rate, years, {
+      annualLumpSum: { amount: 100000, startYear: 1, endYear: 1 },
+      paymentIncreases: [],
+      privileges: { annualPrepaymentPercent: 15 },
+    }, options)
+
+    expect(analysis.schedule.periods[11].prepayment).toBe(60000)
+    expect(analysis.summary.totalPrepaid).toBe(60000)
+    expect(analysis.summary.violations).toEqual([
+      expect.objectContaining({ type: 'annual_prepayment_limit', year: 1, requested: 100000, allowed: 60000 }),
+    ])
+  })
+
+  it('should count recurring extra payments toward the annual privilege', () => {
+    const analysis = applyPrepaymentPlan(principal, rate, years, {
+      recurringExtraPayment: { amount: 500, startPeriod: 1 },
+      annualLumpSum: { amount: 2000, startYear: 1, endYear: 1 },
+      paymentIncreases: [],
+      privileges: { annualPrepaymentPercent: 1.5 },
+    }, options)
+
+    // 6,000 allowed: 11 extra payments of 500 leave 500 of room for the lump sum
+    expect(analysis.schedule.periods[11].prepayment).toBe(500)
+    expect(analysis.summary.violations[0]).toMatchObject({ year: 1, requested: 8000, allowed: 6000 })
+  })
+
+  it('should raise the payment from the year of an increase', () => {
+    const analysis = applyPrepaymentPlan(principal, rate, years, {
+      paymentIncreases: [{ year: 2, percentage: 15 }],
+    }, options)
+
+    expect(analysis.schedule.periods[12].payment).toBeCloseTo(analysis.schedule.periods[11].payment * 1.15, 6)
+    expect(analysis.summary.monthsSaved).toBeGreaterThan(24)
+  })
+
+  it('should cap payment increases above the privilege', () => {
+    const analysis = applyPrepaymentPlan(principal, rate, years, {
+      paymentIncreases: [{ year: 1, percentage: 25 }],
+      privileges: { annualPaymentIncreasePercent: 20 },
+    }, options)
+
+    expect(analysis.schedule.periods[0].payment).toBeCloseTo(analysis.baseline.payment * 1.2, 6)
+    expect(analysis.summary.violations).toEqual([
+      expect.objectContaining({ type: 'payment_increase_limit', requested: 25, allowed: 20 }),
+    ])
+  })
+})
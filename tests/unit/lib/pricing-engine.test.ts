@@ -0,0 +1,100 @@
+import { DEFAULT_PRICING_GRIDS, priceLoan, PricingEngine, PricingProfile } from '@core/rates/pricing-engine'
+import { calculatePeriodicPayment } from '@core/mortgage/amortization'
+
+const [caGrid, usGrid] = DEFAULT_PRICING_GRIDS
+
+const usProfile = (overrides: Partial<PricingProfile> = {}): PricingProfile => ({
+  country: 'US',
+  propertyPrice: 400000,
+  downPayment: 80000,
+  amortizationYears: 30,
+  creditScore: 700,
+  ...overrides,
+})
+
+const caProfile = (overrides: Partial<PricingProfile> = {}): PricingProfile => ({
+  country: 'CA',
+  propertyPrice: 600000,
+  downPayment: 150000,
+  amortizationYears: 25,
+  ...overrides,
+})
+
+describe('pricing engine', () => {
+  it('should charge the credit score and LTV adjustment as upfront points', () => {
+    const pricing = priceLoan(6.5, 'fixed', usProfile(), usGrid)
+
+    expect(pricing.ltv).toBe(80)
+    expect(pricing.adjustments.map(item => item.ruleId)).toEqual(['us-credit-ltv-700-80'])
+    expect(pricing.pointsAdjustment).toBe(1.375)
+    expect(pricing.finalRate).toBe(6.5)
+    expect(pricing.upfrontCost).toBeCloseTo(4400, 6)
+    expect(pricing.monthlyPayment).toBeCloseTo(calculatePeriodicPayment(320000, 6.5, 30, { country: 'US' }), 6)
+  })
+
+  it('should stack occupancy and property type adjustments', () => {
+    const pricing = priceLoan(6.5, 'fixed', usProfile({
+      creditScore: 780,
+      occupancy: 'investment',
+      propertyType: 'condo',
+      downPayment: 100000,
+    }), usGrid)
+
+    expect(pricing.adjustments.map(item => item.ruleId)).toEqual(['us-investment-75'])
+    expect(pricing.upfrontPoints).toBe(2.125)
+
+    const highLtv = priceLoan(6.5, 'fixed', usProfile({ creditScore: 780, propertyType: 'condo' }), usGrid)
+    expect(highLtv.adjustments.map(item => item.ruleId)).toEqual(['us-credit-ltv-780-80', 'us-condo'])
+    expect(highLtv.upfrontPoints).toBe(1.125)
+  })
+
+  it('should skip credit score adjustments when the score is unknown', () => {
+    const pricing = priceLoan(6.5, 'fixed', usProfile({ creditScore: undefined }), usGrid)
+
+    expect(pricing.adjustments).toEqual([])
+    expect(pricing.upfrontPoints).toBe(0)
+  })
+
+  it('should price Canadian insured, insurable and uninsured loans differently', () => {
+    const insured = priceLoan(4.79, 'fixed', caProfile({ downPayment: 60000 }), caGrid)
+    const insurable = priceLoan(4.79, 'fixed', caProfile(), caGrid)
+    const uninsured = priceLoan(4.79, 'fixed', caProfile({ amortizationYears: 30 }), caGrid)
+
+    expect(insured.insurance).toBe('insured')
+    expect(insured.finalRate).toBe(4.69)
+    expect(insurable.insurance).toBe('insurable')
+    expect(insurable.finalRate).toBe(4.79)
+    expect(uninsured.insurance).toBe('uninsured')
+    expect(uninsured.adjustments.map(item => item.ruleId)).toEqual(['ca-uninsured', 'ca-amortization-30'])
+    expect(uninsured.finalRate).toBe(5.09)
+  })
+
+  it('should buy the rate down and report when the points break even', () => {
+    const pricing = priceLoan(6.5, 'fixed', usProfile({ creditScore: 780, downPayment: 200000, discountPoints: 1.2 }), usGrid)
+
+    // 1.2 points rounds down to the 0.5-point step
+    expect(pricing.buyDown!.points).toBe(1)
+    expect(pricing.finalRate).toBe(6.25)
+    expect(pricing.upfrontCost).toBeCloseTo(2000, 6)
+
+    const savings = calculatePeriodicPayment(200000, 6.5, 30, { country: 'US' }) -
+      calculatePeriodicPayment(200000, 6.25, 30, { country: 'US' })
+    expect(pricing.buyDown!.monthlySavings).toBeCloseTo(savings, 6)
+    expect(pricing.buyDown!.breakEvenMonths).toBe(Math.ceil(2000 / savings))
+    expect(pricing.buyDownOptions.map(option => option.points)).toEqual([0.5, 1, 1.5, 2, 2.5, 3])
+  })
+
+  it('should use a lender grid when one is registered and the default otherwise', () => {
+    const engine = new PricingEngine()
+    engine.registerGrid({
+      id: 'first-bank',
+      country: 'CA',
+      lender: 'First Bank',
+      rules: [{ id: 'fb-all', label: 'House spread', factor: 'ltv', when: {}, adjustment: 0.05, unit: 'rate' }],
+      buyDown: { maxPoints: 0, pointStep: 0.25, rateReductionPerPoint: 0 },
+    })
+
+    expect(engine.price({ lender: 'first bank', rate: 4.79, type: 'fixed' }, caProfile()).finalRate).toBe(4.84)
+    expect(engine.price({ lender: 'Other Bank', rate: 4.79, type: 'fixed' }, caProfile()).gridId).toBe('ca-default')
+  })
+})
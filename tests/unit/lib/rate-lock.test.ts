@@ -0,0 +1,264 @@
+import {
+  DEFAULT_RATE_LOCK_POLICIES,
+  dueExpiryWarning,
+  evaluateFloatDown,
+  quoteLockExtension,
+  RateLock,
+} from '@core/rates/rate-lock'
+import { RateLockStore } from '@core/rates/rate-lock-store'
+import { PricingEngine } from '@core/rates/pricing-engine'
+import { LenderRateQuote, RateSheetStore } from '@core/rates/rate-sheet-store'
+import { createDummyBankAdapter } from '@core/integrations/lenders/DummyBankAdapter'
+import { createReferenceLenderRoutes, MockLenderServer } from '@core/integrations/lenders/conformance/MockLenderServer'
+import { brokerNotificationService } from '@core/broker-notifications'
+import { WebhookService } from '@core/webhooks/webhook-service'
+import { mockTables, resetMockTables } from '@tests/helpers/supabase-mock'
+
+jest.mock('@core/supabase', () => jest.requireActual('@tests/helpers/supabase-mock').supabaseMock)
+
+jest.mock('@core/broker-notifications', () => ({
+  brokerNotificationService: {
+    sendRateLockExpiryNotification: jest.fn().mockResolvedValue({ smsSuccess: true, emailSuccess: true }),
+  },
+}))
+
+jest.mock('@core/webhooks/webhook-service', () => ({
+  WebhookService: { sendWebhookEvent: jest.fn().mockResolvedValue([]) },
+}))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date('2024-03-01T12:00:00.000Z')
+
+const usLock = (overrides: Partial<RateLock> = {}): RateLock => ({
+  id: 'lock-1',
+  brokerId: 'broker-1',
+  country: 'US',
+  sourceId: 'dummybank',
+  rateId: 'rate-1',
+  rateSheetId: 'sheet-1',
+  rateSheetVersion: 3,
+  rowKey: 'dummybank|30-year fixed|us||30|fixed||||',
+  lender: 'DummyBank',
+  product: '30-Year Fixed',
+  termYears: 30,
+  rateType: 'fixed',
+  loanAmount: 400000,
+  baseRate: 6.5,
+  lockedRate: 6.75,
+  lockDays: 30,
+  status: 'active',
+  policy: DEFAULT_RATE_LOCK_POLICIES.US,
+  lockedAt: now.toISOString(),
+  expiresAt: new Date(now.getTime() + 30 * DAY_MS).toISOString(),
+  extensionDays: 0,
+  extensionFees: 0,
+  floatDowns: 0,
+  floatDownFees: 0,
+  updatedAt: now.toISOString(),
+  ...overrides,
+})
+
+const quote = (overrides: Partial<LenderRateQuote> = {}): LenderRateQuote => ({
+  id: 'rate-1',
+  sourceId: 'dummybank',
+  rateSheetId: 'sheet-1',
+  rateSheetVersion: 3,
+  effectiveAt: '2024-03-01T00:00:00.000Z',
+  lender: 'DummyBank',
+  product: '30-Year Fixed',
+  country: 'US',
+  termYears: 30,
+  rateType: 'fixed',
+  rate: 6.5,
+  features: [],
+  ...overrides,
+})
+
+// DummyBank adds a quarter point of rate on condos
+const pricing = new PricingEngine([{
+  id: 'dummybank-us',
+  country: 'US',
+  lender: 'DummyBank',
+  rules: [{ id: 'condo', label: 'Condo', factor: 'property_type', when: { propertyType: ['condo'] }, adjustment: 0.25, unit: 'rate' }],
+  buyDown: { maxPoints: 2, pointStep: 0.25, rateReductionPerPoint: 0.25 },
+}])
+
+const condoLoan = { brokerId: 'broker-1', rateId: 'rate-1', loanAmount: 400000, propertyPrice: 500000, propertyType: 'condo' as const }
+
+describe('Rate locks', () => {
+  beforeEach(() => {
+    resetMockTables()
+    jest.clearAllMocks()
+  })
+
+  it('should price extensions in the lender increment and refuse them past the cap', () => {
+    const extension = quoteLockExtension(usLock(), 10, now)
+
+    expect(extension).toEqual({
+      allowed: true,
+      days: 15,
+      fee: 1200,
+      expiresAt: new Date(now.getTime() + 45 * DAY_MS).toISOString(),
+    })
+    expect(quoteLockExtension(usLock({ extensionDays: 30 }), 15, now))
+      .toMatchObject({ allowed: false, reason: 'Extensions are limited to 30 days; 0 remain' })
+    expect(quoteLockExtension(usLock({ country: 'CA', policy: DEFAULT_RATE_LOCK_POLICIES.CA }), 30, now))
+      .toMatchObject({ allowed: false, reason: 'DummyBank does not extend rate locks' })
+    expect(quoteLockExtension(usLock(), 15, new Date(now.getTime() + 31 * DAY_MS)))
+      .toMatchObject({ allowed: false, reason: 'Lock has expired; relock at current pricing' })
+  })
+
+  it('should allow a float-down only when the market has dropped far enough', () => {
+    expect(evaluateFloatDown(usLock(), 6.125, now)).toEqual({
+      eligible: true,
+      marketRate: 6.125,
+      improvement: 0.375,
+      newRate: 6.375,
+      fee: 1000,
+    })
+    expect(evaluateFloatDown(usLock(), 6.375, now))
+      .toMatchObject({ eligible: false, reason: 'Market has improved 0.125 points; 0.25 needed' })
+    expect(evaluateFloatDown(usLock({ floatDowns: 1 }), 6, now))
+      .toMatchObject({ eligible: false, reason: 'Float-down limit of 1 reached' })
+  })
+
+  it('should send each expiry warning threshold once', () => {
+    const at = (daysLeft: number) => new Date(now.getTime() + (30 - daysLeft) * DAY_MS)
+
+    expect(dueExpiryWarning(usLock(), at(10))).toBeUndefined()
+    expect(dueExpiryWarning(usLock(), at(6))).toBe(7)
+    expect(dueExpiryWarning(usLock(), at(0.5))).toBe(1)
+    expect(dueExpiryWarning(usLock({ lastWarningDays: 7 }), at(2))).toBe(3)
+    expect(dueExpiryWarning(usLock({ lastWarningDays: 3 }), at(2.5))).toBeUndefined()
+    expect(dueExpiryWarning(usLock(), at(-1))).toBeUndefined()
+  })
+
+  it('should lock against the sheet version in force and refuse stale quotes', async () => {
+    mockTables.lender_rates = [{ id: 'rate-1', source_id: 'dummybank', country: 'US', term_years: '30', rate_type: 'fixed' }]
+    const store = new RateLockStore({ getEffectiveRates: async () => [quote({ rateSheetId: 'sheet-2', rateSheetVersion: 4 })] } as any, pricing)
+
+    await expect(store.lockRate({ ...condoLoan, rateSheetId: 'sheet-1' }))
+      .rejects.toThrow('Rate sheet sheet-1 is no longer in force; requote against version 4')
+
+    const lock = await store.lockRate({ ...condoLoan, rateSheetId: 'sheet-2', lockDays: 45 })
+
+    expect(lock).toMatchObject({ rateSheetId: 'sheet-2', rateSheetVersion: 4, baseRate: 6.5, lockedRate: 6.75, lockDays: 45, status: 'active' })
+    expect(new Date(lock.expiresAt).getTime() - new Date(lock.lockedAt).getTime()).toBe(45 * DAY_MS)
+    expect(mockTables.rate_lock_events).toEqual([expect.objectContaining({ lock_id: lock.id, event_type: 'locked' })])
+    expect(mockTables.rate_lock_events[0].details).toMatchObject({ pricingGridId: 'dummybank-us', adjustments: ['condo'] })
+    await expect(store.lockRate({ ...condoLoan, rateSheetId: 'sheet-2', lockDays: 20 }))
+      .rejects.toThrow('DummyBank offers 30, 45, 60 day locks, not 20')
+  })
+
+  it('should price the locked rate itself and take the lock terms from the lender sheet', async () => {
+    mockTables.lender_rates = [{ id: 'rate-1', source_id: 'dummybank', country: 'US', term_years: '30', rate_type: 'fixed' }]
+    const lockPolicy = { ...DEFAULT_RATE_LOCK_POLICIES.US, lockPeriods: [15, 30] }
+    const store = new RateLockStore({ getEffectiveRates: async () => [quote({ lockPolicy })] } as any, pricing)
+
+    // A detached house gets the sheet rate less what one discount point buys
+    const lock = await store.lockRate({ ...condoLoan, rateSheetId: 'sheet-1', propertyType: 'single_family', discountPoints: 1 })
+
+    expect(lock).toMatchObject({ baseRate: 6.5, lockedRate: 6.25, lockDays: 15, policy: lockPolicy })
+    await expect(store.lockRate({ ...condoLoan, rateSheetId: 'sheet-1', lockDays: 45 }))
+      .rejects.toThrow('DummyBank offers 15, 30 day locks, not 45')
+  })
+
+  it('should lock rates pulled from DummyBank on the lock terms it publishes', async () => {
+    const lockPolicy = { ...DEFAULT_RATE_LOCK_POLICIES.US, lockPeriods: [21, 42] }
+    const server = new MockLenderServer(createReferenceLenderRoutes('DummyBank').map(route => route.path !== '/api/v1/rates' ? route : {
+      ...route,
+      handler: request => {
+        const response = route.handler(request)
+        const { rates } = response.body as { rates: Array<Record<string, unknown>> }
+        return { ...response, body: { rates: rates.map(rate => ({ ...rate, lockPolicy })) } }
+      },
+    }))
+    const adapter = createDummyBankAdapter({ baseUrl: await server.start(), apiKey: 'test-key', timeout: 5000 })
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    try {
+      const sheets = new RateSheetStore()
+      const { sheet } = await sheets.pullFromSource({ sourceId: adapter.id, pullRateSheet: () => adapter.pullRateSheet() })
+      const rate = mockTables.lender_rates.find(row => row.term_years === 30 && row.rate_type === 'fixed')
+
+      const lock = await new RateLockStore(sheets, pricing).lockRate({ ...condoLoan, rateId: rate.id, rateSheetId: sheet.id })
+
+      expect(sheet.lockPolicy).toEqual(lockPolicy)
+      expect(lock).toMatchObject({ rateSheetId: sheet.id, baseRate: 6.125, lockedRate: 6.375, lockDays: 21, policy: lockPolicy })
+    } finally {
+      log.mockRestore()
+      await server.stop()
+    }
+  })
+
+  it('should float down to the current sheet and re-pin the lock to it', async () => {
+    mockTables.lender_rates = [{ id: 'rate-1', source_id: 'dummybank', country: 'US', term_years: '30', rate_type: 'fixed' }]
+    let market = quote()
+    const store = new RateLockStore({ getEffectiveRates: async () => [market] } as any, pricing)
+    const lock = await store.lockRate({ ...condoLoan, rateSheetId: 'sheet-1' })
+
+    market = quote({ id: 'rate-9', rateSheetId: 'sheet-2', rateSheetVersion: 4, rate: 6.125 })
+    const { evaluation, lock: floated } = await store.floatDown(lock.id)
+
+    expect(evaluation).toMatchObject({ eligible: true, newRate: 6.375, fee: 1000 })
+    expect(floated).toMatchObject({ rateId: 'rate-9', rateSheetId: 'sheet-2', rateSheetVersion: 4, baseRate: 6.125, lockedRate: 6.375, floatDowns: 1, floatDownFees: 1000, expiresAt: lock.expiresAt })
+    await expect(store.floatDown(lock.id)).rejects.toThrow('Cannot float down: Float-down limit of 1 reached')
+  })
+
+  it('should warn brokers before expiry and expire lapsed locks', async () => {
+    const row = (id: string, expiresInDays: number) => ({
+      id,
+      broker_id: 'broker-1',
+      country: 'US',
+      source_id: 'dummybank',
+      rate_id: 'rate-1',
+      rate_sheet_id: 'sheet-1',
+      rate_sheet_version: 3,
+      row_key: 'key',
+      lender: 'DummyBank',
+      product: '30-Year Fixed',
+      term_years: '30.00',
+      rate_type: 'fixed',
+      loan_amount: '400000.00',
+      base_rate: '6.5000',
+      locked_rate: '6.7500',
+      lock_days: 30,
+      status: 'active',
+      policy: DEFAULT_RATE_LOCK_POLICIES.US,
+      locked_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + expiresInDays * DAY_MS).toISOString(),
+      extension_days: 0,
+      extension_fees: '0',
+      float_downs: 0,
+      float_down_fees: '0',
+      last_warning_days: null,
+    })
+    mockTables.rate_locks = [row('lock-soon', 2.5), row('lock-later', 20), row('lock-lapsed', -1)]
+    mockTables.brokers = [{ id: 'broker-1', name: 'Sam Broker', email: 'sam@example.com', phone: '+15555550100', organization_id: 'org-1' }]
+    const store = new RateLockStore({} as any)
+
+    const result = await store.runExpiryCheck(now)
+
+    expect(result).toEqual({ warned: [{ lockId: 'lock-soon', daysRemaining: 3 }], expired: ['lock-lapsed'] })
+    expect(brokerNotificationService.sendRateLockExpiryNotification).toHaveBeenCalledWith(expect.objectContaining({
+      lockId: 'lock-soon',
+      brokerPhone: '+15555550100',
+      daysRemaining: 3,
+      lockedRate: 6.75,
+      extensionDays: 15,
+      extensionFee: 1200,
+    }))
+    expect(WebhookService.sendWebhookEvent).toHaveBeenCalledWith('org-1', 'rate_lock.expiring', expect.objectContaining({ lockId: 'lock-soon', rateSheetVersion: 3 }))
+    expect(WebhookService.sendWebhookEvent).toHaveBeenCalledWith('org-1', 'rate_lock.expired', expect.objectContaining({ lockId: 'lock-lapsed' }))
+    expect(mockTables.rate_locks.map(lock => [lock.id, lock.status, lock.last_warning_days])).toEqual([
+      ['lock-soon', 'active', 3],
+      ['lock-later', 'active', null],
+      ['lock-lapsed', 'expired', null],
+    ])
+
+    // A second run on the same day has nothing new to send
+    jest.clearAllMocks()
+    expect(await store.runExpiryCheck(now)).toEqual({ warned: [], expired: [] })
+    expect(brokerNotificationService.sendRateLockExpiryNotification).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,112 @@
+import { getIndexRate, simulateRatePath } from '@core/mortgage/rate-path'
+import { calculatePeriodicPayment } from '@core/mortgage/amortization'
+
+describe('rate path simulation', () => {
+  describe('getIndexRate', () => {
+    it('should use the latest index point at or before the month', () => {
+      const path = [{ month: 13, rate: 4 }, { month: 1, rate: 3 }]
+
+      expect(getIndexRate(path, 1)).toBe(3)
+      expect(getIndexRate(path, 12)).toBe(3)
+      expect(getIndexRate(path, 24)).toBe(4)
+      expect(getIndexRate([{ month: 6, rate: 3 }], 1)).toBeUndefined()
+    })
+  })
+
+  describe('US hybrid ARMs', () => {
+    const caps = { initial: 2, periodic: 1, lifetime: 5 }
+
+    it('should hold the start rate through the initial fixed period', () => {
+      const result = simulateRatePath(400000, 6, 30, {
+        indexPath: [{ month: 1, rate: 6 }],
+        margin: 2.75,
+        armProduct: '5/1',
+        caps,
+        paymentType: 'adjustable',
+        triggerPointPercent: 105,
+      })
+
+      expect(result.periods[59].rate).toBe(6)
+      expect(result.periods[60].rate).toBe(8)
+      expect(result.periods[60].rateReset).toBe(true)
+      expect(result.summary.resets[0]).toMatchObject({ month: 61, reason: 'scheduled_reset', previousRate: 6, newRate: 8 })
+      expect(result.periods[0].payment).toBeCloseTo(calculatePeriodicPayment(400000, 6, 30, { country: 'US' }), 6)
+    })
+
+    it('should apply periodic and lifetime caps on later resets', () => {
+      const result = simulateRatePath(400000, 6, 30, {
+        indexPath: [{ month: 1, rate: 12 }],
+        margin: 2.75,
+        armProduct: '5/1',
+        caps,
+        paymentType: 'adjustable',
+        triggerPointPercent: 105,
+      })
+
+      expect(result.summary.resets.map(r => r.newRate)).toEqual([8, 9, 10, 11])
+      expect(result.summary.maxRate).toBe(11)
+      expect(result.periods[result.periods.length - 1].balance).toBeCloseTo(0, 2)
+    })
+
+    it('should not reset below the floor', () => {
+      const result = simulateRatePath(400000, 6, 30, {
+        indexPath: [{ month: 1, rate: 0 }],
+        margin: 2.75,
+        armProduct: '7/1',
+        caps,
+        floor: 4,
+        paymentType: 'adjustable',
+        triggerPointPercent: 105,
+      })
+
+      expect(result.summary.resets[0]).toMatchObject({ month: 85, newRate: 4 })
+      expect(result.summary.maxPayment).toBe(result.summary.initialPayment)
+    })
+  })
+
+  describe('Canadian variable mortgages', () => {
+    it('should recast adjustable payments when the index moves', () => {
+      const result = simulateRatePath(500000, 5, 25, {
+        indexPath: [{ month: 1, rate: 5 }, { month: 13, rate: 6 }],
+        margin: 0,
+        paymentType: 'adjustable',
+        triggerPointPercent: 105,
+      }, 'CA')
+
+      expect(result.summary.resets).toHaveLength(1)
+      expect(result.summary.resets[0].reason).toBe('index_change')
+      expect(result.periods[12].payment).toBeGreaterThan(result.periods[11].payment)
+      expect(result.summary.triggerRate).toBeUndefined()
+    })
+
+    it('should detect the trigger rate and negative amortization with fixed payments', () => {
+      const result = simulateRatePath(500000, 2, 25, {
+        indexPath: [{ month: 1, rate: 2 }, { month: 7, rate: 7 }],
+        margin: 0,
+        paymentType: 'fixed',
+        triggerPointPercent: 105,
+      }, 'CA')
+
+      expect(result.summary.triggerRate).toBeCloseTo(result.summary.initialPayment / 500000 * 1200, 8)
+      expect(result.summary.triggerRateMonth).toBe(7)
+      expect(result.summary.negativeAmortizationMonths).toBeGreaterThan(0)
+      expect(result.summary.maxBalance).toBeGreaterThan(500000)
+      expect(result.periods[6].payment).toBeCloseTo(result.summary.initialPayment, 6)
+    })
+
+    it('should reset the payment when the balance passes the trigger point', () => {
+      const result = simulateRatePath(500000, 2, 25, {
+        indexPath: [{ month: 1, rate: 2 }, { month: 7, rate: 9 }],
+        margin: 0,
+        paymentType: 'fixed',
+        triggerPointPercent: 101,
+      }, 'CA')
+
+      const reset = result.summary.resets.find(r => r.reason === 'trigger_point')
+      expect(result.summary.triggerPointMonth).toBeDefined()
+      expect(reset?.month).toBe(result.summary.triggerPointMonth! + 1)
+      expect(reset?.paymentChangePercent).toBeGreaterThan(25)
+      expect(result.periods[result.periods.length - 1].balance).toBeCloseTo(0, 2)
+    })
+  })
+})
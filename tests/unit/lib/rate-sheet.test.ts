@@ -0,0 +1,179 @@
+import { deflateRawSync } from 'zlib'
+import {
+  diffRateSheet,
+  LenderRateRow,
+  parseCsv,
+  parseRateSheet,
+  rateRowHash,
+  rateRowKey,
+  rateSheetChecksum,
+  StoredLenderRate,
+} from '@core/rates/rate-sheet'
+
+// Minimal XLSX workbook: a zip with a shared string table and one worksheet
+const buildXlsx = (rows: Array<Array<string | number>>): Buffer => {
+  const strings: string[] = []
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const reference = `${String.fromCharCode(65 + columnIndex)}${rowIndex + 1}`
+      if (typeof value === 'number') return `<c r="${reference}"><v>${value}</v></c>`
+      strings.push(value)
+      return `<c r="${reference}" t="s"><v>${strings.length - 1}</v></c>`
+    })
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`
+  })
+
+  const files = [
+    { name: 'xl/sharedStrings.xml', xml: `<sst>${strings.map(text => `<si><t>${text.replace(/&/g, '&amp;')}</t></si>`).join('')}</sst>` },
+    { name: 'xl/worksheets/sheet1.xml', xml: `<worksheet><sheetData>${sheetRows.join('')}</sheetData></worksheet>` },
+  ]
+
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const file of files) {
+    const name = Buffer.from(file.name)
+    const data = deflateRawSync(Buffer.from(file.xml))
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+const row = (overrides: Partial<LenderRateRow> = {}): LenderRateRow => ({
+  lender: 'First Bank',
+  product: '5-year fixed',
+  country: 'CA',
+  termYears: 5,
+  rateType: 'fixed',
+  rate: 4.79,
+  features: ['Portable'],
+  ...overrides,
+})
+
+const stored = (source: LenderRateRow, id: string): StoredLenderRate => ({
+  ...source,
+  id,
+  rowKey: rateRowKey(source),
+  rowHash: rateRowHash(source),
+})
+
+describe('rate sheet ingestion', () => {
+  it('should split CSV with quoted commas, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('lender,features\r\n"Bank, Ltd","Says ""hi""; Portable"\r\n')).toEqual([
+      ['lender', 'features'],
+      ['Bank, Ltd', 'Says "hi"; Portable'],
+    ])
+  })
+
+  it('should normalize loosely named CSV columns and percent formats', () => {
+    const csv = [
+      'Lender Name,Term (years),Rate Type,Interest Rate,APR,Max LTV,Features',
+      'First Bank,5,Fixed,4.79%,0.0489,80,Portable;Prepayment 20%',
+      'First Bank,60 months,Variable,5.1,,,',
+    ].join('\n')
+
+    const { rows, rejected } = parseRateSheet('csv', csv, { country: 'CA' })
+
+    expect(rejected).toEqual([])
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({
+      lender: 'First Bank',
+      product: '5-year fixed',
+      country: 'CA',
+      termYears: 5,
+      rateType: 'fixed',
+      rate: 4.79,
+      apr: 4.89,
+      maxLtv: 80,
+      features: ['Portable', 'Prepayment 20%'],
+    })
+    expect(rows[1]).toMatchObject({ termYears: 5, rateType: 'variable', product: '5-year variable' })
+  })
+
+  it('should reject invalid and duplicate rows without failing the sheet', () => {
+    const json = JSON.stringify({
+      rates: [
+        { lender: 'First Bank', termYears: 5, rateType: 'fixed', rate: 4.79 },
+        { lender: 'First Bank', termYears: 5, rateType: 'fixed', rate: 4.69 },
+        { lender: 'First Bank', termYears: 3, rateType: 'balloon', rate: 4.5 },
+        { termYears: 3, rateType: 'fixed', rate: 4.5 },
+      ],
+    })
+
+    const { rows, rejected } = parseRateSheet('json', json, { country: 'CA' })
+
+    expect(rows).toHaveLength(1)
+    expect(rejected.map(rejection => rejection.row)).toEqual([2, 3, 4])
+    expect(rejected[0].reason).toBe('Duplicate of row 1')
+    expect(rejected[1].reason).toContain('rateType')
+    expect(rejected[2].reason).toContain('lender')
+  })
+
+  it('should read the first worksheet of an XLSX workbook', () => {
+    const workbook = buildXlsx([
+      ['lender', 'country', 'term', 'type', 'rate', 'features'],
+      ['Banque & Co', 'US', 30, 'fixed', 6.125, 'Rate lock'],
+    ])
+
+    const { rows, rejected } = parseRateSheet('xlsx', workbook.toString('base64'))
+
+    expect(rejected).toEqual([])
+    expect(rows).toEqual([expect.objectContaining({
+      lender: 'Banque & Co',
+      country: 'US',
+      termYears: 30,
+      rate: 6.125,
+      features: ['Rate lock'],
+    })])
+  })
+
+  it('should give the same checksum regardless of row order', () => {
+    const rows = [row(), row({ product: '3-year fixed', termYears: 3, rate: 4.99 })]
+
+    expect(rateSheetChecksum(rows)).toBe(rateSheetChecksum([...rows].reverse()))
+    expect(rateSheetChecksum(rows)).not.toBe(rateSheetChecksum([row({ rate: 4.69 }), rows[1]]))
+  })
+
+  it('should keep unchanged rows and split the rest into changed, added and removed', () => {
+    const fiveYear = stored(row(), 'rate-1')
+    const threeYear = stored(row({ product: '3-year fixed', termYears: 3, rate: 4.99 }), 'rate-2')
+    const tenYear = stored(row({ product: '10-year fixed', termYears: 10, rate: 5.29 }), 'rate-3')
+
+    const diff = diffRateSheet([fiveYear, threeYear, tenYear], [
+      row({ features: ['Portable'] }),
+      row({ product: '3-year fixed', termYears: 3, rate: 4.89 }),
+      row({ product: '5-year variable', rateType: 'variable', rate: 5.05 }),
+    ])
+
+    expect(diff.unchanged.map(rate => rate.id)).toEqual(['rate-1'])
+    expect(diff.changed).toHaveLength(1)
+    expect(diff.changed[0].previous.id).toBe('rate-2')
+    expect(diff.changed[0].next.rate).toBe(4.89)
+    expect(diff.added.map(rate => rate.product)).toEqual(['5-year variable'])
+    expect(diff.removed.map(rate => rate.id)).toEqual(['rate-3'])
+  })
+})
@@ -0,0 +1,130 @@
+import { analyzeRefinance, calculateBlendedRate, calculatePrepaymentPenalty } from '@core/mortgage/refinance'
+
+describe('refinance calculator', () => {
+  describe('calculatePrepaymentPenalty', () => {
+    it('should charge three months interest on a variable mortgage', () => {
+      const penalty = calculatePrepaymentPenalty({
+        balance: 400000,
+        contractRate: 5,
+        remainingTermMonths: 36,
+        rateType: 'variable',
+        comparisonRate: 3,
+      })
+
+      expect(penalty.method).toBe('three_months_interest')
+      expect(penalty.amount).toBeCloseTo(5000, 6)
+    })
+
+    it('should charge the IRD when it exceeds three months interest', () => {
+      const penalty = calculatePrepaymentPenalty({
+        balance: 400000,
+        contractRate: 5,
+        remainingTermMonths: 36,
+        lenderType: 'monoline',
+        comparisonRate: 4,
+      })
+
+      expect(penalty.method).toBe('interest_rate_differential')
+      expect(penalty.amount).toBeCloseTo(12000, 6)
+    })
+
+    it('should charge big banks more by taking the original discount off the posted rate', () => {
+      const bigBank = calculatePrepaymentPenalty({
+        balance: 400000,
+        contractRate: 5,
+        remainingTermMonths: 36,
+        lenderType: 'big_bank',
+        originalPostedRate: 6.5,
+        comparisonRate: 6,
+      })
+      const monoline = calculatePrepaymentPenalty({
+        balance: 400000,
+        contractRate: 5,
+        remainingTermMonths: 36,
+        lenderType: 'monoline',
+        comparisonRate: 4.75,
+      })
+
+      expect(bigBank.originationDiscount).toBeCloseTo(1.5, 6)
+      expect(bigBank.comparisonRate).toBeCloseTo(4.5, 6)
+      expect(bigBank.amount).toBeCloseTo(6000, 6)
+      expect(monoline.method).toBe('three_months_interest')
+      expect(monoline.amount).toBeCloseTo(5000, 6)
+    })
+  })
+
+  it('should blend the current and new rates by time', () => {
+    expect(calculateBlendedRate(5, 24, 4, 60)).toBeCloseTo(4.4, 6)
+    expect(calculateBlendedRate(5, 60, 4, 60)).toBeCloseTo(5, 6)
+  })
+
+  describe('analyzeRefinance', () => {
+    it('should find a break-even month and compare with blend-and-extend', () => {
+      const analysis = analyzeRefinance({
+        country: 'CA',
+        balance: 400000,
+        currentRate: 6,
+        remainingAmortizationYears: 20,
+        remainingTermMonths: 36,
+        lenderType: 'monoline',
+        newRate: 4.5,
+      })
+
+      expect(analysis.penalty.method).toBe('interest_rate_differential')
+      expect(analysis.penalty.amount).toBeCloseTo(18000, 6)
+      expect(analysis.refinance.monthlySavings).toBeGreaterThan(0)
+      expect(analysis.blendAndExtend).toBeDefined()
+      expect(analysis.blendAndExtend!.rate).toBeCloseTo(5.4, 6)
+      // The IRD prices in the lost interest, so refinancing barely pays off over the term
+      expect(analysis.refinance.netSavings).toBeLessThan(analysis.refinance.interestSavings)
+    })
+
+    it('should recommend staying when the new rate is no better', () => {
+      const analysis = analyzeRefinance({
+        country: 'CA',
+        balance: 300000,
+        currentRate: 4,
+        remainingAmortizationYears: 20,
+        remainingTermMonths: 24,
+        newRate: 4.5,
+      })
+
+      expect(analysis.refinance.breakEvenMonth).toBeUndefined()
+      expect(analysis.recommendation).toBe('stay')
+    })
+
+    it('should report when US closing costs are recaptured', () => {
+      const analysis = analyzeRefinance({
+        country: 'US',
+        balance: 300000,
+        currentRate: 7.5,
+        remainingAmortizationYears: 28,
+        newRate: 6,
+        newAmortizationYears: 30,
+        closingCosts: 6000,
+      })
+
+      expect(analysis.penalty.method).toBe('none')
+      expect(analysis.blendAndExtend).toBeUndefined()
+      expect(analysis.refinance.breakEvenMonth).toBeDefined()
+      expect(analysis.refinance.breakEvenMonth!).toBeLessThan(24)
+      expect(analysis.recommendation).toBe('refinance')
+      expect(analysis.notes.some(note => note.includes('recaptured'))).toBe(true)
+    })
+
+    it('should add financed costs to the new loan instead of paying cash', () => {
+      const analysis = analyzeRefinance({
+        country: 'US',
+        balance: 300000,
+        currentRate: 7.5,
+        remainingAmortizationYears: 28,
+        newRate: 6,
+        closingCosts: 6000,
+        financeCosts: true,
+      })
+
+      expect(analysis.refinance.principal).toBe(306000)
+      expect(analysis.refinance.financedCosts).toBe(6000)
+    })
+  })
+})
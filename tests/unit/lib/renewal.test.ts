@@ -0,0 +1,62 @@
+import { buildTermRates, simulateRenewals } from '@core/mortgage/renewal'
+import { buildAmortizationSchedule } from '@core/mortgage/amortization'
+
+describe('term renewals', () => {
+  describe('buildTermRates', () => {
+    it('should split the amortization into the contract term and renewals', () => {
+      const terms = buildTermRates(5, 5, 25)
+
+      expect(terms).toHaveLength(5)
+      expect(terms[0]).toEqual({ termYears: 5, rate: 5, rateSource: 'contract' })
+      expect(terms.slice(1).every(term => term.rate === 5 && term.rateSource === 'assumed')).toBe(true)
+    })
+
+    it('should carry the last assumed rate forward and shorten the final term', () => {
+      const terms = buildTermRates(4, 5, 22, { rateSource: 'assumed', assumedRates: [5, 6] })
+
+      expect(terms.map(term => term.rate)).toEqual([4, 5, 6, 6, 6])
+      expect(terms[terms.length - 1].termYears).toBe(2)
+    })
+
+    it('should price forecast renewals at the benchmark plus the current spread', () => {
+      const forecast = {
+        currentRate: 4,
+        path: [{ month: 1, rate: 4 }, { month: 61, rate: 5.5 }],
+      }
+      const terms = buildTermRates(4.5, 5, 10, { rateSource: 'forecast', assumedRates: [] }, forecast)
+
+      expect(terms[1]).toEqual({ termYears: 5, rate: 6, rateSource: 'forecast' })
+    })
+  })
+
+  describe('simulateRenewals', () => {
+    it('should match a single schedule when renewal rates are unchanged', () => {
+      const lifecycle = simulateRenewals(500000, 25, buildTermRates(5, 5, 25), { country: 'CA' })
+      const schedule = buildAmortizationSchedule(500000, 5, 25, { country: 'CA' })
+
+      expect(lifecycle.periods).toHaveLength(300)
+      expect(lifecycle.totalInterest).toBeCloseTo(schedule.totalInterest, 4)
+      expect(lifecycle.summary.terms[0].closingBalance).toBeCloseTo(schedule.periods[59].balance, 4)
+      expect(lifecycle.summary.maxPaymentChangePercent).toBeCloseTo(0, 6)
+    })
+
+    it('should reset the payment on the renewal balance and report the shock', () => {
+      const terms = buildTermRates(2, 5, 25, { rateSource: 'assumed', assumedRates: [5] })
+      const lifecycle = simulateRenewals(500000, 25, terms, { country: 'CA' })
+      const renewal = lifecycle.summary.terms[1]
+
+      expect(renewal.startMonth).toBe(61)
+      expect(renewal.openingBalance).toBeCloseTo(lifecycle.summary.terms[0].closingBalance, 6)
+      expect(renewal.paymentChangePercent).toBeGreaterThan(25)
+      expect(lifecycle.periods[60]).toMatchObject({ month: 61, rate: 5, rateReset: true })
+      expect(lifecycle.periods[lifecycle.periods.length - 1].balance).toBeCloseTo(0, 2)
+    })
+
+    it('should renew on payment-period boundaries for bi-weekly schedules', () => {
+      const lifecycle = simulateRenewals(300000, 25, buildTermRates(4, 5, 25), { country: 'CA', frequency: 'bi_weekly' })
+
+      expect(lifecycle.summary.terms[0].endMonth).toBe(60)
+      expect(lifecycle.periods).toHaveLength(25 * 26)
+    })
+  })
+})
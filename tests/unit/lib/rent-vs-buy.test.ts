@@ -0,0 +1,68 @@
+import { analyzeRentVsBuy, annualizeMonthlyRate, OwnershipCosts } from '@core/mortgage/rent-vs-buy'
+import { buildAmortizationSchedule } from '@core/mortgage/amortization'
+import type { RentVsBuyInput } from '@core/scenario-types'
+
+const assumptions = (overrides: Partial<RentVsBuyInput> = {}): RentVsBuyInput => ({
+  monthlyRent: 3000,
+  rentInflation: 3,
+  investmentReturn: 5,
+  appreciationSource: 'assumed',
+  maintenanceRate: 1,
+  sellingCostRate: 5,
+  rentersInsurance: 0,
+  horizonYears: 30,
+  ...overrides,
+})
+
+const ownership = (overrides: Partial<OwnershipCosts> = {}): OwnershipCosts => ({
+  propertyPrice: 500000,
+  downPayment: 100000,
+  closingCosts: 10000,
+  monthlyCarryingCosts: 400,
+  monthlyMortgageInsurance: 0,
+  mortgageInsuranceMonths: 0,
+  schedule: buildAmortizationSchedule(400000, 5, 25, { country: 'CA' }).periods,
+  ...overrides,
+})
+
+describe('rent vs buy', () => {
+  it('should start the renter with the buyer\'s upfront cash invested', () => {
+    const result = analyzeRentVsBuy(ownership(), assumptions({ investmentReturn: 0 }), 3)
+
+    expect(result.upfrontCost).toBe(110000)
+    expect(result.years).toHaveLength(30)
+    // With no investment return the renter's portfolio is the upfront cash plus any monthly savings
+    expect(result.years[0].renterPortfolio).toBeGreaterThanOrEqual(110000)
+  })
+
+  it('should find the year buying overtakes renting when rent is high', () => {
+    const result = analyzeRentVsBuy(ownership(), assumptions({ monthlyRent: 3500 }), 4)
+
+    expect(result.crossoverYear).toBeDefined()
+    expect(result.crossoverYear!).toBeGreaterThan(1)
+    const crossover = result.years[result.crossoverYear! - 1]
+    expect(crossover.difference).toBeGreaterThanOrEqual(0)
+    expect(result.years[result.crossoverYear! - 2].difference).toBeLessThan(0)
+    expect(result.finalBuyNetWorth).toBeGreaterThan(result.finalRentNetWorth)
+  })
+
+  it('should report no crossover when renting is much cheaper', () => {
+    const result = analyzeRentVsBuy(ownership(), assumptions({ monthlyRent: 800, investmentReturn: 8 }), 1)
+
+    expect(result.crossoverYear).toBeUndefined()
+    expect(result.years.every(year => year.difference < 0)).toBe(true)
+  })
+
+  it('should clear the mortgage balance once the amortization is paid off', () => {
+    const result = analyzeRentVsBuy(ownership(), assumptions(), 3)
+
+    expect(result.years[24].mortgageBalance).toBeCloseTo(0, 2)
+    expect(result.years[29].mortgageBalance).toBe(0)
+    expect(result.years[29].homeValue).toBeCloseTo(500000 * Math.pow(1.03, 30), 0)
+  })
+
+  it('should annualize a monthly appreciation trend', () => {
+    expect(annualizeMonthlyRate(0)).toBe(0)
+    expect(annualizeMonthlyRate(0.01)).toBeCloseTo(12.6825, 3)
+  })
+})